@@ -0,0 +1,147 @@
+-- ============================================
+-- Durable sync queue for inventory publishing
+-- One sync_run per publish request, one sync_job per platform.
+-- Workers lease jobs, retry with backoff and dead-letter
+-- after max_attempts so bulk syncs survive request timeouts.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  status VARCHAR(30) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  trigger VARCHAR(30) NOT NULL DEFAULT 'manual'
+    CHECK (trigger IN ('manual', 'bulk', 'retry', 'system')),
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  platform VARCHAR(50) NOT NULL,
+  step_index INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(30) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'leased', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner VARCHAR(100),
+  leased_until TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  dead_lettered_at TIMESTAMPTZ,
+  UNIQUE (run_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_item ON sync_runs(inventory_item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_ready ON sync_jobs(status, run_after) WHERE status IN ('queued', 'leased');
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_run ON sync_jobs(run_id, step_index);
+CREATE INDEX IF NOT EXISTS idx_sync_jobs_dead ON sync_jobs(dead_lettered_at DESC) WHERE status = 'dead';
+
+CREATE OR REPLACE FUNCTION update_sync_queue_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_runs_updated_at ON sync_runs;
+CREATE TRIGGER trigger_sync_runs_updated_at
+  BEFORE UPDATE ON sync_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_sync_jobs_updated_at ON sync_jobs;
+CREATE TRIGGER trigger_sync_jobs_updated_at
+  BEFORE UPDATE ON sync_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+-- Lease ready jobs for a worker. A job is ready when it is queued and due,
+-- or its previous lease expired (worker crashed / request timed out).
+-- Jobs run in step order within a run: a later step waits until every
+-- earlier step has either succeeded or been dead-lettered.
+CREATE OR REPLACE FUNCTION lease_sync_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_lease_seconds INTEGER DEFAULT 120,
+  p_run_id UUID DEFAULT NULL
+)
+RETURNS SETOF sync_jobs AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT j.id
+    FROM sync_jobs j
+    WHERE (
+        (j.status = 'queued' AND j.run_after <= NOW())
+        OR (j.status = 'leased' AND j.leased_until < NOW())
+      )
+      AND (p_run_id IS NULL OR j.run_id = p_run_id)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM sync_jobs prior
+        WHERE prior.run_id = j.run_id
+          AND prior.step_index < j.step_index
+          AND prior.status IN ('queued', 'leased')
+      )
+    ORDER BY j.run_after, j.step_index
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE sync_jobs j
+  SET
+    status = 'leased',
+    lease_owner = p_worker_id,
+    leased_until = NOW() + make_interval(secs => p_lease_seconds),
+    attempts = j.attempts + 1,
+    started_at = COALESCE(j.started_at, NOW())
+  FROM candidates c
+  WHERE j.id = c.id
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "sync_runs_select_authenticated" ON sync_runs;
+DROP POLICY IF EXISTS "sync_runs_write_authenticated" ON sync_runs;
+DROP POLICY IF EXISTS "sync_jobs_select_authenticated" ON sync_jobs;
+DROP POLICY IF EXISTS "sync_jobs_write_authenticated" ON sync_jobs;
+
+CREATE POLICY "sync_runs_select_authenticated"
+  ON sync_runs
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "sync_runs_write_authenticated"
+  ON sync_runs
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "sync_jobs_select_authenticated"
+  ON sync_jobs
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "sync_jobs_write_authenticated"
+  ON sync_jobs
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE sync_runs IS 'One publish request for an inventory item; groups per-platform sync_jobs';
+COMMENT ON TABLE sync_jobs IS 'Per-platform publish job with leasing, retry backoff and dead-lettering';
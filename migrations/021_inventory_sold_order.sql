@@ -0,0 +1,18 @@
+-- ============================================
+-- Shopify order -> inventory "sold" webhook
+-- Records which Shopify order sold an item so orders/create and
+-- orders/paid deliveries for the same order are idempotent.
+-- ============================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS sold_shopify_order_id VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_sold_shopify_order
+ON public.inventory_items(sold_shopify_order_id)
+WHERE sold_shopify_order_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_shopify_variant
+ON public.inventory_items(shopify_variant_id)
+WHERE shopify_variant_id IS NOT NULL;
+
+COMMENT ON COLUMN public.inventory_items.sold_shopify_order_id IS 'Shopify order GID that sold this item (set by the orders webhook)';
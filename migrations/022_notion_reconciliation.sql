@@ -0,0 +1,63 @@
+-- ============================================
+-- Two-way Notion Global Inventory reconciliation
+-- notion_snapshot holds the reconciled property values as last agreed
+-- with Notion, so a pull can tell which side changed a field. Fields
+-- changed on both sides become notion_sync_conflicts rows that are
+-- resolved per field (keep local / keep Notion).
+-- ============================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS notes TEXT,
+ADD COLUMN IF NOT EXISTS notion_snapshot JSONB;
+
+COMMENT ON COLUMN public.inventory_items.notes IS 'Free-form internal notes (mirrored to the Notion Notes property)';
+COMMENT ON COLUMN public.inventory_items.notion_snapshot IS 'Reconciled Notion field values at the last push/pull (three-way diff base)';
+
+CREATE TABLE IF NOT EXISTS notion_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  notion_page_id VARCHAR(100) NOT NULL,
+  field VARCHAR(50) NOT NULL,
+  local_value JSONB,
+  notion_value JSONB,
+  base_value JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'resolved', 'superseded')),
+  resolution VARCHAR(20)
+    CHECK (resolution IN ('keep_local', 'keep_notion')),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- At most one open conflict per item field; later pulls refresh it in place
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notion_sync_conflicts_open
+ON notion_sync_conflicts(inventory_item_id, field)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_notion_sync_conflicts_status
+ON notion_sync_conflicts(status, created_at DESC);
+
+DROP TRIGGER IF EXISTS trigger_notion_sync_conflicts_updated_at ON notion_sync_conflicts;
+CREATE TRIGGER trigger_notion_sync_conflicts_updated_at
+  BEFORE UPDATE ON notion_sync_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE notion_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notion_sync_conflicts_select_authenticated" ON notion_sync_conflicts;
+DROP POLICY IF EXISTS "notion_sync_conflicts_write_authenticated" ON notion_sync_conflicts;
+
+CREATE POLICY "notion_sync_conflicts_select_authenticated"
+  ON notion_sync_conflicts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "notion_sync_conflicts_write_authenticated"
+  ON notion_sync_conflicts
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE notion_sync_conflicts IS 'Inventory fields edited both locally and in Notion since the last reconcile';
@@ -0,0 +1,55 @@
+-- ============================================
+-- Multi-variant products
+-- A product group is one Shopify product with up to three option axes
+-- (e.g. Colour, Finish, Size). Each inventory item in the group is one
+-- variant: it keeps its own price and SKU, and variant_options holds its
+-- value per axis, e.g. {"Colour": "Black"}.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS product_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand VARCHAR(255) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  title VARCHAR(255),
+  description_html TEXT,
+  option_names TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(option_names) BETWEEN 1 AND 3),
+  shopify_product_id VARCHAR(100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS product_group_id UUID REFERENCES product_groups(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_options JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_product_group
+ON public.inventory_items(product_group_id)
+WHERE product_group_id IS NOT NULL;
+
+COMMENT ON COLUMN public.inventory_items.product_group_id IS 'Product group this item is a variant of (NULL for single-variant products)';
+COMMENT ON COLUMN public.inventory_items.variant_options IS 'Option value per product group axis, e.g. {"Colour": "Black"}';
+
+DROP TRIGGER IF EXISTS trigger_product_groups_updated_at ON product_groups;
+CREATE TRIGGER trigger_product_groups_updated_at
+  BEFORE UPDATE ON product_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE product_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "product_groups_select_authenticated" ON product_groups;
+DROP POLICY IF EXISTS "product_groups_write_authenticated" ON product_groups;
+
+CREATE POLICY "product_groups_select_authenticated"
+  ON product_groups
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "product_groups_write_authenticated"
+  ON product_groups
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE product_groups IS 'Multi-variant product: one Shopify product whose variants are inventory items';
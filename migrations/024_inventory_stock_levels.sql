@@ -0,0 +1,81 @@
+-- ============================================
+-- Per-location stock quantities (new-retail stock)
+-- inventory_locations mirrors Shopify locations. inventory_stock_levels
+-- holds our count per item and location; it is pushed to Shopify with
+-- inventorySetQuantities on publish and on change. The nightly
+-- reconciliation stores Shopify's count alongside ours so drift
+-- (quantity <> shopify_quantity) can be reviewed on /sync.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS inventory_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  shopify_location_id VARCHAR(100) UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_stock_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES inventory_locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  shopify_quantity INTEGER,
+  shopify_checked_at TIMESTAMPTZ,
+  pushed_at TIMESTAMPTZ,
+  push_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (inventory_item_id, location_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_stock_levels_item ON inventory_stock_levels(inventory_item_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_stock_levels_drift
+ON inventory_stock_levels(shopify_checked_at DESC)
+WHERE shopify_quantity IS NOT NULL AND shopify_quantity <> quantity;
+
+DROP TRIGGER IF EXISTS trigger_inventory_locations_updated_at ON inventory_locations;
+CREATE TRIGGER trigger_inventory_locations_updated_at
+  BEFORE UPDATE ON inventory_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_inventory_stock_levels_updated_at ON inventory_stock_levels;
+CREATE TRIGGER trigger_inventory_stock_levels_updated_at
+  BEFORE UPDATE ON inventory_stock_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE inventory_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_stock_levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "inventory_locations_select_authenticated" ON inventory_locations;
+DROP POLICY IF EXISTS "inventory_locations_write_authenticated" ON inventory_locations;
+DROP POLICY IF EXISTS "inventory_stock_levels_select_authenticated" ON inventory_stock_levels;
+DROP POLICY IF EXISTS "inventory_stock_levels_write_authenticated" ON inventory_stock_levels;
+
+CREATE POLICY "inventory_locations_select_authenticated"
+  ON inventory_locations
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "inventory_locations_write_authenticated"
+  ON inventory_locations
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "inventory_stock_levels_select_authenticated"
+  ON inventory_stock_levels
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "inventory_stock_levels_write_authenticated"
+  ON inventory_stock_levels
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE inventory_locations IS 'Stock locations, linked to Shopify locations by legacy ID';
+COMMENT ON TABLE inventory_stock_levels IS 'Our on-hand quantity per item and location, with the last Shopify count seen';
@@ -0,0 +1,11 @@
+-- ============================================
+-- Shopify product media links
+-- shopify_media records which Shopify media each image_urls entry was
+-- uploaded as ({ url, mediaId, altText } in image order), so re-syncs
+-- update alt text, reorder and delete media instead of re-uploading.
+-- ============================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS shopify_media JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.inventory_items.shopify_media IS 'Shopify media uploaded for image_urls: [{ url, mediaId, altText }] in image order';
@@ -0,0 +1,88 @@
+-- ============================================
+-- Per-domain scrape recipes
+-- A recipe holds CSS selectors for one retailer domain (title, price,
+-- spec table, gallery), the tabs/accordions to click first and optional
+-- pagination. /api/scrape uses the matching recipe before falling back
+-- to its generic heuristics. Fixtures are saved page HTML with the
+-- output the recipe is expected to extract, so recipes can be re-tested
+-- offline after a site changes.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS scrape_recipes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  domain VARCHAR(255) NOT NULL UNIQUE,
+  name VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  selectors JSONB NOT NULL DEFAULT '{}'::jsonb,
+  click_selectors TEXT[] NOT NULL DEFAULT '{}',
+  wait_for_selector TEXT,
+  pagination JSONB,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS scrape_recipe_fixtures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipe_id UUID NOT NULL REFERENCES scrape_recipes(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  source_url TEXT NOT NULL,
+  html TEXT NOT NULL,
+  expected JSONB NOT NULL DEFAULT '{}'::jsonb,
+  last_run_at TIMESTAMPTZ,
+  last_run_passed BOOLEAN,
+  last_run_failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_recipe_fixtures_recipe ON scrape_recipe_fixtures(recipe_id);
+
+DROP TRIGGER IF EXISTS trigger_scrape_recipes_updated_at ON scrape_recipes;
+CREATE TRIGGER trigger_scrape_recipes_updated_at
+  BEFORE UPDATE ON scrape_recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_scrape_recipe_fixtures_updated_at ON scrape_recipe_fixtures;
+CREATE TRIGGER trigger_scrape_recipe_fixtures_updated_at
+  BEFORE UPDATE ON scrape_recipe_fixtures
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE scrape_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scrape_recipe_fixtures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scrape_recipes_select_authenticated" ON scrape_recipes;
+DROP POLICY IF EXISTS "scrape_recipes_write_authenticated" ON scrape_recipes;
+DROP POLICY IF EXISTS "scrape_recipe_fixtures_select_authenticated" ON scrape_recipe_fixtures;
+DROP POLICY IF EXISTS "scrape_recipe_fixtures_write_authenticated" ON scrape_recipe_fixtures;
+
+CREATE POLICY "scrape_recipes_select_authenticated"
+  ON scrape_recipes
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "scrape_recipes_write_authenticated"
+  ON scrape_recipes
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "scrape_recipe_fixtures_select_authenticated"
+  ON scrape_recipe_fixtures
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "scrape_recipe_fixtures_write_authenticated"
+  ON scrape_recipe_fixtures
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE scrape_recipes IS 'Declarative per-domain scrape selectors, used before the generic heuristics';
+COMMENT ON COLUMN scrape_recipes.domain IS 'Hostname without www; also matches subdomains';
+COMMENT ON COLUMN scrape_recipes.selectors IS 'CSS selectors: title, price, description, brand, sku, specTable/specRow/specLabel/specValue, gallery/galleryAttribute';
+COMMENT ON COLUMN scrape_recipes.click_selectors IS 'Tabs/accordions clicked in order before extraction';
+COMMENT ON COLUMN scrape_recipes.pagination IS '{ nextSelector, maxPages }: follow paged spec/gallery sections and merge them';
+COMMENT ON TABLE scrape_recipe_fixtures IS 'Saved page HTML and expected recipe output for offline recipe tests';
@@ -0,0 +1,46 @@
+-- ============================================
+-- Scrape snapshots
+-- Every scrape keeps the rendered page HTML (gzipped) and a full-page
+-- screenshot in a private storage bucket, so extraction can be re-run
+-- against the stored page after the extractor or a recipe improves,
+-- without hitting the retailer again.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS scrape_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_onboarding_id UUID REFERENCES product_onboarding(id) ON DELETE SET NULL,
+  source_url TEXT NOT NULL,
+  html_path TEXT NOT NULL,
+  screenshot_path TEXT,
+  html_bytes INTEGER NOT NULL DEFAULT 0,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_snapshots_product
+  ON scrape_snapshots(product_onboarding_id, captured_at DESC);
+
+-- Private bucket; the server reads and writes it with the service role
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scrape-snapshots', 'scrape-snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE scrape_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scrape_snapshots_select_authenticated" ON scrape_snapshots;
+DROP POLICY IF EXISTS "scrape_snapshots_write_authenticated" ON scrape_snapshots;
+
+CREATE POLICY "scrape_snapshots_select_authenticated"
+  ON scrape_snapshots
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "scrape_snapshots_write_authenticated"
+  ON scrape_snapshots
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE scrape_snapshots IS 'Stored page HTML and screenshot per scrape, for offline re-extraction';
+COMMENT ON COLUMN scrape_snapshots.html_path IS 'Gzipped rendered HTML in the scrape-snapshots bucket (SCRAPE_SNAPSHOT_BUCKET)';
+COMMENT ON COLUMN scrape_snapshots.screenshot_path IS 'Full-page JPEG screenshot; NULL when the screenshot failed';
+COMMENT ON COLUMN scrape_snapshots.html_bytes IS 'Uncompressed HTML size';
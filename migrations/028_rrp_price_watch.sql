@@ -0,0 +1,102 @@
+-- ============================================
+-- RRP price-watch
+-- A scheduled job (/api/rrp/watch) re-runs the Australian RRP search for
+-- active inventory and stores every retailer price it sees in
+-- rrp_observations. Alerts are raised when a competitor sells below our
+-- sale_price, or when the market RRP moves far enough from our rrp_aud
+-- that the advertised discount is stale. An alert resolves itself once
+-- the condition clears.
+-- ============================================
+
+ALTER TABLE inventory_items
+ADD COLUMN IF NOT EXISTS rrp_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_rrp_checked
+ON inventory_items(rrp_checked_at NULLS FIRST)
+WHERE is_archived = FALSE;
+
+CREATE TABLE IF NOT EXISTS rrp_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  retailer VARCHAR(255) NOT NULL,
+  price NUMERIC(10, 2) NOT NULL CHECK (price > 0),
+  url TEXT,
+  source VARCHAR(30) NOT NULL
+    CHECK (source IN ('google_shopping', 'google_organic', 'retailer_scrape')),
+  is_rrp BOOLEAN NOT NULL DEFAULT FALSE,
+  observed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rrp_observations_item
+ON rrp_observations(inventory_item_id, observed_at DESC);
+
+CREATE TABLE IF NOT EXISTS rrp_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  alert_type VARCHAR(30) NOT NULL
+    CHECK (alert_type IN ('competitor_below_sale', 'rrp_changed')),
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'dismissed', 'resolved')),
+  retailer VARCHAR(255),
+  url TEXT,
+  observed_price NUMERIC(10, 2) NOT NULL,
+  sale_price NUMERIC(10, 2),
+  rrp_aud NUMERIC(10, 2),
+  change_percent NUMERIC(6, 2),
+  message TEXT NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One live (open or dismissed) alert per item, type and competitor
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rrp_alerts_live
+ON rrp_alerts(inventory_item_id, alert_type, COALESCE(retailer, ''))
+WHERE status <> 'resolved';
+
+CREATE INDEX IF NOT EXISTS idx_rrp_alerts_open
+ON rrp_alerts(last_seen_at DESC)
+WHERE status = 'open';
+
+DROP TRIGGER IF EXISTS trigger_rrp_alerts_updated_at ON rrp_alerts;
+CREATE TRIGGER trigger_rrp_alerts_updated_at
+  BEFORE UPDATE ON rrp_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE rrp_observations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rrp_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rrp_observations_select_authenticated" ON rrp_observations;
+DROP POLICY IF EXISTS "rrp_observations_write_authenticated" ON rrp_observations;
+DROP POLICY IF EXISTS "rrp_alerts_select_authenticated" ON rrp_alerts;
+DROP POLICY IF EXISTS "rrp_alerts_write_authenticated" ON rrp_alerts;
+
+CREATE POLICY "rrp_observations_select_authenticated"
+  ON rrp_observations
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "rrp_observations_write_authenticated"
+  ON rrp_observations
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "rrp_alerts_select_authenticated"
+  ON rrp_alerts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "rrp_alerts_write_authenticated"
+  ON rrp_alerts
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON COLUMN inventory_items.rrp_checked_at IS 'Last RRP price-watch check; oldest are checked first';
+COMMENT ON TABLE rrp_observations IS 'Retailer prices seen by the RRP price-watch, one row per retailer per check';
+COMMENT ON COLUMN rrp_observations.is_rrp IS 'The offer the RRP search picked as the RRP for that check';
+COMMENT ON TABLE rrp_alerts IS 'Competitor undercuts and stale-RRP alerts from the price-watch';
+COMMENT ON COLUMN rrp_alerts.status IS 'open, dismissed (stays quiet while the condition holds) or resolved (condition cleared)';
@@ -0,0 +1,16 @@
+-- ============================================
+-- Competitor price matrix
+-- The RRP search now keeps every retailer's price rather than only the
+-- winning RRP, with a best-effort stock flag read from the listing. The
+-- latest observation per retailer is the competitor matrix on the
+-- inventory detail page; in-stock prices feed the price position and
+-- repricing suggestions.
+-- ============================================
+
+ALTER TABLE rrp_observations
+ADD COLUMN IF NOT EXISTS in_stock BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_rrp_observations_item_retailer
+ON rrp_observations(inventory_item_id, retailer, observed_at DESC);
+
+COMMENT ON COLUMN rrp_observations.in_stock IS 'Stock status shown on the listing; NULL when it did not say';
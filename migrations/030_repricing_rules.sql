@@ -0,0 +1,198 @@
+-- ============================================
+-- Repricing rules
+-- Rules such as "ex_demo older than 90 days: drop 5%, down to the margin
+-- floor" or "trade-in unsold after 60 days: match the competitor median".
+-- A rule can be previewed (dry run) or queued: queued changes wait in
+-- repricing_proposals for approval, and approved ones are applied through
+-- the bulk price update and logged to price_history as auto_discount.
+-- ============================================
+
+-- Price writers can label the price_history row by setting
+-- app.price_change_type / app.price_change_reason for the transaction;
+-- plain updates are still logged as manual.
+CREATE OR REPLACE FUNCTION log_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Only log if price-related fields changed
+  IF (
+    OLD.cost_price IS DISTINCT FROM NEW.cost_price OR
+    OLD.rrp_aud IS DISTINCT FROM NEW.rrp_aud OR
+    OLD.sale_price IS DISTINCT FROM NEW.sale_price OR
+    OLD.discount_percent IS DISTINCT FROM NEW.discount_percent
+  ) THEN
+    INSERT INTO price_history (
+      inventory_item_id,
+      cost_price,
+      rrp_aud,
+      sale_price,
+      discount_percent,
+      change_type,
+      change_reason
+    ) VALUES (
+      NEW.id,
+      NEW.cost_price,
+      NEW.rrp_aud,
+      NEW.sale_price,
+      NEW.discount_percent,
+      COALESCE(NULLIF(current_setting('app.price_change_type', true), ''), 'manual'),
+      COALESCE(NULLIF(current_setting('app.price_change_reason', true), ''), 'Price updated')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Set sale prices ({"<item id>": price, ...}) in one transaction, logged
+-- to price_history with the given change type and reason
+CREATE OR REPLACE FUNCTION set_item_sale_prices(
+  p_prices JSONB,
+  p_change_type TEXT DEFAULT 'bulk_update',
+  p_change_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  PERFORM set_config('app.price_change_type', p_change_type, true);
+  PERFORM set_config('app.price_change_reason', COALESCE(p_change_reason, ''), true);
+
+  RETURN QUERY
+  UPDATE inventory_items i
+  SET sale_price = (p_prices ->> i.id::text)::NUMERIC
+  WHERE p_prices ? i.id::text
+  RETURNING i.id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TABLE IF NOT EXISTS repricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- NULL matches every listing type
+  listing_type VARCHAR(20) CHECK (listing_type IN ('new', 'trade_in', 'ex_demo')),
+  min_age_days INTEGER NOT NULL DEFAULT 0 CHECK (min_age_days >= 0),
+  action VARCHAR(30) NOT NULL
+    CHECK (action IN ('percent_discount', 'match_competitor_median')),
+  discount_percent NUMERIC(5, 2) CHECK (discount_percent > 0 AND discount_percent < 100),
+  cooldown_days INTEGER NOT NULL DEFAULT 14 CHECK (cooldown_days >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (action <> 'percent_discount' OR discount_percent IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS repricing_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES repricing_rules(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'applied', 'rejected', 'superseded', 'failed')),
+  current_price NUMERIC(10, 2) NOT NULL,
+  proposed_price NUMERIC(10, 2) NOT NULL CHECK (proposed_price > 0),
+  margin_floor NUMERIC(10, 2) NOT NULL,
+  reason TEXT NOT NULL,
+  error TEXT,
+  decided_at TIMESTAMPTZ,
+  applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One pending proposal per item and rule; re-queuing supersedes it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_repricing_proposals_pending
+ON repricing_proposals(rule_id, inventory_item_id)
+WHERE status = 'pending';
+
+-- Cooldown lookups: when did this rule last reprice the item
+CREATE INDEX IF NOT EXISTS idx_repricing_proposals_applied
+ON repricing_proposals(rule_id, applied_at DESC)
+WHERE status = 'applied';
+
+-- Replace a rule's pending proposals with p_proposals
+-- ([{"inventory_item_id", "current_price", "proposed_price", "margin_floor", "reason"}, ...])
+-- in one transaction. Locking the rule serialises concurrent queues of it.
+CREATE OR REPLACE FUNCTION queue_repricing_proposals(
+  p_rule_id UUID,
+  p_proposals JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_superseded INTEGER;
+  v_queued INTEGER;
+BEGIN
+  PERFORM 1 FROM repricing_rules WHERE id = p_rule_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Repricing rule not found';
+  END IF;
+
+  UPDATE repricing_proposals
+  SET status = 'superseded',
+      decided_at = NOW()
+  WHERE rule_id = p_rule_id
+    AND status = 'pending';
+  GET DIAGNOSTICS v_superseded = ROW_COUNT;
+
+  INSERT INTO repricing_proposals (
+    rule_id, inventory_item_id, current_price, proposed_price, margin_floor, reason
+  )
+  SELECT
+    p_rule_id,
+    (entry ->> 'inventory_item_id')::UUID,
+    (entry ->> 'current_price')::NUMERIC,
+    (entry ->> 'proposed_price')::NUMERIC,
+    (entry ->> 'margin_floor')::NUMERIC,
+    entry ->> 'reason'
+  FROM jsonb_array_elements(COALESCE(p_proposals, '[]'::JSONB)) AS entry;
+  GET DIAGNOSTICS v_queued = ROW_COUNT;
+
+  RETURN jsonb_build_object('superseded', v_superseded, 'queued', v_queued);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_repricing_rules_updated_at ON repricing_rules;
+CREATE TRIGGER trigger_repricing_rules_updated_at
+  BEFORE UPDATE ON repricing_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_repricing_proposals_updated_at ON repricing_proposals;
+CREATE TRIGGER trigger_repricing_proposals_updated_at
+  BEFORE UPDATE ON repricing_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE repricing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE repricing_proposals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "repricing_rules_select_authenticated" ON repricing_rules;
+DROP POLICY IF EXISTS "repricing_rules_write_authenticated" ON repricing_rules;
+DROP POLICY IF EXISTS "repricing_proposals_select_authenticated" ON repricing_proposals;
+DROP POLICY IF EXISTS "repricing_proposals_write_authenticated" ON repricing_proposals;
+
+CREATE POLICY "repricing_rules_select_authenticated"
+  ON repricing_rules
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "repricing_rules_write_authenticated"
+  ON repricing_rules
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "repricing_proposals_select_authenticated"
+  ON repricing_proposals
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "repricing_proposals_write_authenticated"
+  ON repricing_proposals
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON FUNCTION set_item_sale_prices IS 'Bulk sale price update that labels its price_history rows (e.g. auto_discount)';
+COMMENT ON FUNCTION queue_repricing_proposals IS 'Supersede a rule''s pending proposals and queue its new ones atomically';
+COMMENT ON TABLE repricing_rules IS 'Automatic repricing rules; changes are queued for approval, never applied directly';
+COMMENT ON COLUMN repricing_rules.min_age_days IS 'Days in stock (since demo_start_date for ex_demo, else created_at) before the rule applies';
+COMMENT ON COLUMN repricing_rules.cooldown_days IS 'Days after the rule reprices an item before it may propose again';
+COMMENT ON TABLE repricing_proposals IS 'Approval queue of price changes proposed by repricing rules';
+COMMENT ON COLUMN repricing_proposals.margin_floor IS 'cost_price * MIN_MARGIN_MULTIPLIER when proposed (items without a cost are never repriced)';
@@ -0,0 +1,82 @@
+-- ============================================
+-- Pricelist diff
+-- A supplier's updated pricelist is compared with inventory instead of
+-- imported: new SKUs, discontinued SKUs and cost/RRP changes. The selected
+-- changes are applied in one transaction and logged to price_history as
+-- import.
+-- ============================================
+
+-- New items honour app.price_change_type too, so items created by a
+-- pricelist update are logged as import rather than create
+CREATE OR REPLACE FUNCTION log_initial_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO price_history (
+    inventory_item_id,
+    cost_price,
+    rrp_aud,
+    sale_price,
+    discount_percent,
+    change_type,
+    change_reason
+  ) VALUES (
+    NEW.id,
+    NEW.cost_price,
+    NEW.rrp_aud,
+    NEW.sale_price,
+    NEW.discount_percent,
+    COALESCE(NULLIF(current_setting('app.price_change_type', true), ''), 'create'),
+    COALESCE(NULLIF(current_setting('app.price_change_reason', true), ''), 'Initial price set')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply a pricelist diff in one transaction:
+--   p_prices       {"<item id>": {"cost_price": n, "rrp_aud": n}} (either key optional)
+--   p_new_items    [{"brand", "model", "sku", "cost_price", "rrp_aud", "sale_price"}]
+--                  created as new-retail items pending enrichment
+--   p_archive_ids  discontinued items to archive
+CREATE OR REPLACE FUNCTION apply_pricelist_update(
+  p_prices JSONB,
+  p_new_items JSONB,
+  p_archive_ids UUID[],
+  p_change_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_updated INTEGER;
+  v_created INTEGER;
+  v_archived INTEGER;
+BEGIN
+  PERFORM set_config('app.price_change_type', 'import', true);
+  PERFORM set_config('app.price_change_reason', COALESCE(p_change_reason, ''), true);
+
+  UPDATE inventory_items i
+  SET
+    cost_price = COALESCE((p_prices -> i.id::text ->> 'cost_price')::NUMERIC, i.cost_price),
+    rrp_aud = COALESCE((p_prices -> i.id::text ->> 'rrp_aud')::NUMERIC, i.rrp_aud)
+  WHERE p_prices ? i.id::text;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  INSERT INTO inventory_items (
+    listing_type, listing_status, brand, model, sku, cost_price, rrp_aud, sale_price
+  )
+  SELECT 'new', 'pending_enrichment', n.brand, n.model, NULLIF(n.sku, ''), n.cost_price, n.rrp_aud, n.sale_price
+  FROM jsonb_to_recordset(COALESCE(p_new_items, '[]'::JSONB)) AS n(
+    brand TEXT, model TEXT, sku TEXT, cost_price NUMERIC, rrp_aud NUMERIC, sale_price NUMERIC
+  );
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  UPDATE inventory_items
+  SET is_archived = TRUE
+  WHERE id = ANY(COALESCE(p_archive_ids, '{}'))
+    AND is_archived = FALSE;
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN jsonb_build_object('updated', v_updated, 'created', v_created, 'archived', v_archived);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_pricelist_update IS 'Apply selected pricelist diff changes in one batch, logged to price_history as import';
@@ -0,0 +1,43 @@
+-- ============================================
+-- Pricelist column mappings
+-- Spreadsheet (.xlsx/.csv) pricelists are read without the vision model;
+-- the column mapping confirmed for a supplier is remembered here and
+-- offered the next time that supplier's pricelist is uploaded.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pricelist_column_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Lower-cased, whitespace-collapsed supplier name
+  supplier_key VARCHAR(255) NOT NULL UNIQUE,
+  supplier_name VARCHAR(255) NOT NULL,
+  -- {"sku": "Part No", "product_name": "Description", "cost_price": "Dealer", ...}
+  mapping JSONB NOT NULL DEFAULT '{}',
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_pricelist_column_mappings_updated_at ON pricelist_column_mappings;
+CREATE TRIGGER trigger_pricelist_column_mappings_updated_at
+  BEFORE UPDATE ON pricelist_column_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE pricelist_column_mappings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "pricelist_column_mappings_select_authenticated" ON pricelist_column_mappings;
+DROP POLICY IF EXISTS "pricelist_column_mappings_write_authenticated" ON pricelist_column_mappings;
+
+CREATE POLICY "pricelist_column_mappings_select_authenticated"
+  ON pricelist_column_mappings
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "pricelist_column_mappings_write_authenticated"
+  ON pricelist_column_mappings
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE pricelist_column_mappings IS 'Spreadsheet pricelist column mapping remembered per supplier';
+COMMENT ON COLUMN pricelist_column_mappings.mapping IS 'Spreadsheet header for each PricelistItem field';
@@ -0,0 +1,132 @@
+-- ============================================
+-- Suppliers
+-- Master record per supplier: brands carried, contact, default dealer
+-- discount and target margin, pricelist parsing profile (spreadsheet
+-- column mapping, prompt hints for the vision parser, ex/inc GST price
+-- convention). Inventory items link to the supplier their cost price
+-- came from, so margins and reorders can be grouped by supplier.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  brands TEXT[] NOT NULL DEFAULT '{}',
+  contact_name VARCHAR(255),
+  contact_email VARCHAR(255),
+  contact_phone VARCHAR(50),
+  account_number VARCHAR(100),
+  -- Dealer discount off RRP; derives cost for lines that only show an RRP
+  default_discount_percent NUMERIC(5, 2)
+    CHECK (default_discount_percent >= 0 AND default_discount_percent < 100),
+  -- Gross margin on sale price; prices new items without an RRP
+  target_margin_percent NUMERIC(5, 2)
+    CHECK (target_margin_percent >= 0 AND target_margin_percent < 100),
+  -- Inventory cost prices are GST-inclusive; ex_gst pricelists are converted
+  price_basis VARCHAR(10) NOT NULL DEFAULT 'ex_gst' CHECK (price_basis IN ('ex_gst', 'inc_gst')),
+  -- {"sku": "Part No", "product_name": "Description", "cost_price": "Dealer", ...}
+  column_mapping JSONB,
+  prompt_hints TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name_unique ON suppliers (LOWER(name));
+
+DROP TRIGGER IF EXISTS trigger_suppliers_updated_at ON suppliers;
+CREATE TRIGGER trigger_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "suppliers_select_authenticated" ON suppliers;
+DROP POLICY IF EXISTS "suppliers_write_authenticated" ON suppliers;
+
+CREATE POLICY "suppliers_select_authenticated"
+  ON suppliers
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "suppliers_write_authenticated"
+  ON suppliers
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE suppliers IS 'Supplier master records with pricelist parsing profiles';
+COMMENT ON COLUMN suppliers.price_basis IS 'Whether pricelist cost prices include GST (inventory stores inc-GST cost)';
+COMMENT ON COLUMN suppliers.column_mapping IS 'Spreadsheet header for each PricelistItem field';
+COMMENT ON COLUMN suppliers.prompt_hints IS 'Extra instructions for the vision pricelist parser';
+
+-- Column mappings remembered by supplier name move onto the supplier
+DO $$
+BEGIN
+  IF to_regclass('pricelist_column_mappings') IS NOT NULL THEN
+    INSERT INTO suppliers (name, column_mapping)
+    SELECT m.supplier_name, m.mapping
+    FROM pricelist_column_mappings m
+    WHERE NOT EXISTS (SELECT 1 FROM suppliers s WHERE LOWER(s.name) = LOWER(m.supplier_name));
+
+    DROP TABLE pricelist_column_mappings;
+  END IF;
+END $$;
+
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_supplier
+  ON inventory_items (supplier_id)
+  WHERE supplier_id IS NOT NULL;
+
+COMMENT ON COLUMN inventory_items.supplier_id IS 'Supplier the cost price came from';
+
+-- Pricelist updates record the supplier on new and re-priced items
+DROP FUNCTION IF EXISTS apply_pricelist_update(JSONB, JSONB, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION apply_pricelist_update(
+  p_prices JSONB,
+  p_new_items JSONB,
+  p_archive_ids UUID[],
+  p_change_reason TEXT DEFAULT NULL,
+  p_supplier_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_updated INTEGER;
+  v_created INTEGER;
+  v_archived INTEGER;
+BEGIN
+  PERFORM set_config('app.price_change_type', 'import', true);
+  PERFORM set_config('app.price_change_reason', COALESCE(p_change_reason, ''), true);
+
+  UPDATE inventory_items i
+  SET
+    cost_price = COALESCE((p_prices -> i.id::text ->> 'cost_price')::NUMERIC, i.cost_price),
+    rrp_aud = COALESCE((p_prices -> i.id::text ->> 'rrp_aud')::NUMERIC, i.rrp_aud),
+    supplier_id = COALESCE(p_supplier_id, i.supplier_id)
+  WHERE p_prices ? i.id::text;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  INSERT INTO inventory_items (
+    listing_type, listing_status, brand, model, sku, cost_price, rrp_aud, sale_price, supplier_id
+  )
+  SELECT 'new', 'pending_enrichment', n.brand, n.model, NULLIF(n.sku, ''), n.cost_price, n.rrp_aud, n.sale_price, p_supplier_id
+  FROM jsonb_to_recordset(COALESCE(p_new_items, '[]'::JSONB)) AS n(
+    brand TEXT, model TEXT, sku TEXT, cost_price NUMERIC, rrp_aud NUMERIC, sale_price NUMERIC
+  );
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  UPDATE inventory_items
+  SET is_archived = TRUE
+  WHERE id = ANY(COALESCE(p_archive_ids, '{}'))
+    AND is_archived = FALSE;
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+
+  RETURN jsonb_build_object('updated', v_updated, 'created', v_created, 'archived', v_archived);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_pricelist_update IS 'Apply selected pricelist diff changes in one batch, logged to price_history as import';
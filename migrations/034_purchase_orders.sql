@@ -0,0 +1,286 @@
+-- ============================================
+-- Purchase orders and stock receiving
+-- New-retail stock is reordered from suppliers on purchase orders (lines
+-- priced ex-GST). Receiving a PO, in full or in part, creates or links the
+-- inventory item for each line, adds the units to the receiving
+-- location's stock level and registers captured serials in
+-- serial_registry. Every receipt is kept in purchase_order_receipts.
+-- ============================================
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number VARCHAR(20) NOT NULL UNIQUE
+    DEFAULT ('PO-' || LPAD(nextval('purchase_order_number_seq')::TEXT, 5, '0')),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  -- Where received stock goes
+  location_id UUID REFERENCES inventory_locations(id) ON DELETE SET NULL,
+  expected_at DATE,
+  notes TEXT,
+  ordered_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  -- Existing product being reordered; set on first receipt for new products
+  inventory_item_id UUID REFERENCES inventory_items(id) ON DELETE SET NULL,
+  sku VARCHAR(100),
+  brand VARCHAR(255) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost_ex_gst NUMERIC(10, 2) NOT NULL CHECK (unit_cost_ex_gst >= 0),
+  rrp_aud NUMERIC(10, 2),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (quantity_received <= quantity)
+);
+
+CREATE TABLE IF NOT EXISTS purchase_order_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES inventory_locations(id) ON DELETE SET NULL,
+  -- [{"line_id", "inventory_item_id", "quantity", "serials": [...]}]
+  lines JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_open
+  ON purchase_orders(status, expected_at)
+  WHERE status IN ('ordered', 'partially_received');
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_item
+  ON purchase_order_lines(inventory_item_id)
+  WHERE inventory_item_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_order ON purchase_order_receipts(purchase_order_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS trigger_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER trigger_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_purchase_order_lines_updated_at ON purchase_order_lines;
+CREATE TRIGGER trigger_purchase_order_lines_updated_at
+  BEFORE UPDATE ON purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "purchase_orders_select_authenticated" ON purchase_orders;
+DROP POLICY IF EXISTS "purchase_orders_write_authenticated" ON purchase_orders;
+DROP POLICY IF EXISTS "purchase_order_lines_select_authenticated" ON purchase_order_lines;
+DROP POLICY IF EXISTS "purchase_order_lines_write_authenticated" ON purchase_order_lines;
+DROP POLICY IF EXISTS "purchase_order_receipts_select_authenticated" ON purchase_order_receipts;
+DROP POLICY IF EXISTS "purchase_order_receipts_write_authenticated" ON purchase_order_receipts;
+
+CREATE POLICY "purchase_orders_select_authenticated"
+  ON purchase_orders
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "purchase_orders_write_authenticated"
+  ON purchase_orders
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "purchase_order_lines_select_authenticated"
+  ON purchase_order_lines
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "purchase_order_lines_write_authenticated"
+  ON purchase_order_lines
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "purchase_order_receipts_select_authenticated"
+  ON purchase_order_receipts
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "purchase_order_receipts_write_authenticated"
+  ON purchase_order_receipts
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Replace a draft purchase order's lines in one transaction:
+--   p_lines [{"inventory_item_id", "sku", "brand", "model", "quantity", "unit_cost_ex_gst", "rrp_aud"}]
+-- A failed insert keeps the old lines.
+CREATE OR REPLACE FUNCTION replace_purchase_order_lines(
+  p_purchase_order_id UUID,
+  p_lines JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status <> 'draft' THEN
+    RAISE EXCEPTION 'Lines can only be changed on a draft (% is %)', v_po.po_number, v_po.status;
+  END IF;
+
+  DELETE FROM purchase_order_lines WHERE purchase_order_id = p_purchase_order_id;
+
+  INSERT INTO purchase_order_lines (
+    purchase_order_id, inventory_item_id, sku, brand, model, quantity, unit_cost_ex_gst, rrp_aud, sort_order
+  )
+  SELECT
+    p_purchase_order_id,
+    (entry.value ->> 'inventory_item_id')::UUID,
+    entry.value ->> 'sku',
+    entry.value ->> 'brand',
+    entry.value ->> 'model',
+    (entry.value ->> 'quantity')::INTEGER,
+    (entry.value ->> 'unit_cost_ex_gst')::NUMERIC,
+    (entry.value ->> 'rrp_aud')::NUMERIC,
+    (entry.ordinality - 1)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB)) WITH ORDINALITY AS entry(value, ordinality);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Receive units against a purchase order in one transaction:
+--   p_lines [{"line_id", "quantity", "serials": [...], "cost_price", "sale_price"}]
+--   cost_price (inc GST) and sale_price are used when the line has no
+--   inventory item yet; one is created as new retail, pending enrichment.
+-- Over-receiving a line or re-registering a known serial rolls back the
+-- whole receipt.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_purchase_order_id UUID,
+  p_location_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_line purchase_order_lines%ROWTYPE;
+  v_entry JSONB;
+  v_quantity INTEGER;
+  v_item_id UUID;
+  v_serial TEXT;
+  v_received JSONB := '[]'::JSONB;
+  v_receipt_id UUID;
+  v_outstanding INTEGER;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  IF v_po.status NOT IN ('ordered', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %', v_po.po_number, v_po.status;
+  END IF;
+
+  PERFORM set_config('app.price_change_type', 'import', true);
+  PERFORM set_config('app.price_change_reason', 'Received on ' || v_po.po_number, true);
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB)) LOOP
+    v_quantity := COALESCE((v_entry ->> 'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity <= 0;
+
+    SELECT * INTO v_line
+    FROM purchase_order_lines
+    WHERE id = (v_entry ->> 'line_id')::UUID
+      AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on purchase order %', v_entry ->> 'line_id', v_po.po_number;
+    END IF;
+    IF v_line.quantity_received + v_quantity > v_line.quantity THEN
+      RAISE EXCEPTION 'Receiving % of % % exceeds the % outstanding',
+        v_quantity, v_line.brand, v_line.model, v_line.quantity - v_line.quantity_received;
+    END IF;
+
+    v_item_id := v_line.inventory_item_id;
+    IF v_item_id IS NULL THEN
+      INSERT INTO inventory_items (
+        listing_type, listing_status, brand, model, sku, cost_price, rrp_aud, sale_price, supplier_id
+      ) VALUES (
+        'new', 'pending_enrichment', v_line.brand, v_line.model, v_line.sku,
+        (v_entry ->> 'cost_price')::NUMERIC, v_line.rrp_aud, (v_entry ->> 'sale_price')::NUMERIC, v_po.supplier_id
+      )
+      RETURNING id INTO v_item_id;
+    END IF;
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity,
+        inventory_item_id = v_item_id
+    WHERE id = v_line.id;
+
+    IF p_location_id IS NOT NULL THEN
+      INSERT INTO inventory_stock_levels (inventory_item_id, location_id, quantity)
+      VALUES (v_item_id, p_location_id, v_quantity)
+      ON CONFLICT (inventory_item_id, location_id)
+      DO UPDATE SET quantity = inventory_stock_levels.quantity + EXCLUDED.quantity;
+    END IF;
+
+    FOR v_serial IN SELECT jsonb_array_elements_text(COALESCE(v_entry -> 'serials', '[]'::JSONB)) LOOP
+      INSERT INTO serial_registry (serial_number, brand, model, first_seen_inventory_id, first_seen_at)
+      VALUES (v_serial, v_line.brand, v_line.model, v_item_id, NOW());
+    END LOOP;
+
+    v_received := v_received || jsonb_build_object(
+      'line_id', v_line.id,
+      'inventory_item_id', v_item_id,
+      'quantity', v_quantity,
+      'serials', COALESCE(v_entry -> 'serials', '[]'::JSONB)
+    );
+  END LOOP;
+
+  IF jsonb_array_length(v_received) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  INSERT INTO purchase_order_receipts (purchase_order_id, location_id, lines, notes)
+  VALUES (p_purchase_order_id, p_location_id, v_received, p_notes)
+  RETURNING id INTO v_receipt_id;
+
+  SELECT COALESCE(SUM(quantity - quantity_received), 0) INTO v_outstanding
+  FROM purchase_order_lines
+  WHERE purchase_order_id = p_purchase_order_id;
+
+  v_status := CASE WHEN v_outstanding = 0 THEN 'received' ELSE 'partially_received' END;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_outstanding = 0 THEN NOW() ELSE NULL END
+  WHERE id = p_purchase_order_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', v_receipt_id,
+    'status', v_status,
+    'outstanding', v_outstanding,
+    'lines', v_received
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE purchase_orders IS 'Supplier purchase orders for new-retail stock';
+COMMENT ON TABLE purchase_order_lines IS 'Ordered products, priced ex-GST, with the quantity received so far';
+COMMENT ON TABLE purchase_order_receipts IS 'Each (partial) receipt against a purchase order';
+COMMENT ON FUNCTION replace_purchase_order_lines IS 'Replace a draft PO''s lines atomically';
+COMMENT ON FUNCTION receive_purchase_order IS 'Receive units against a PO: creates/links items, adds stock, registers serials';
@@ -0,0 +1,29 @@
+-- ============================================
+-- Serial capture method
+-- Records how an item's serial number was captured: decoded from a
+-- barcode/QR on the camera stream, read from a photo by vision AI, or typed.
+-- Barcode reads are exact; vision reads can misread similar characters
+-- (0/O, 1/I, 8/B) and are worth double-checking.
+-- ============================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS serial_capture_method TEXT;
+
+-- Existing serials that match the vision response came from vision AI
+UPDATE public.inventory_items
+SET serial_capture_method = CASE
+  WHEN vision_ai_response ->> 'serial_number' = serial_number THEN 'vision'
+  ELSE 'manual'
+END
+WHERE serial_capture_method IS NULL
+  AND serial_number IS NOT NULL
+  AND btrim(serial_number) <> '';
+
+ALTER TABLE public.inventory_items
+DROP CONSTRAINT IF EXISTS inventory_items_serial_capture_method_check;
+
+ALTER TABLE public.inventory_items
+ADD CONSTRAINT inventory_items_serial_capture_method_check
+CHECK (serial_capture_method IS NULL OR serial_capture_method IN ('barcode', 'vision', 'manual'));
+
+COMMENT ON COLUMN public.inventory_items.serial_capture_method IS 'How serial_number was captured: barcode, vision or manual';
@@ -0,0 +1,76 @@
+-- ============================================
+-- Trade-in offers
+-- What we offer a customer for their trade-in, from the valuation model
+-- (condition, age, RRP, our sell-through for the brand/model and target
+-- margin). The offer sheet is printed or emailed with an expiry; when the
+-- customer accepts, the trade-in item is created and the offer amount
+-- becomes its cost_price.
+-- ============================================
+
+CREATE SEQUENCE IF NOT EXISTS trade_in_offer_number_seq;
+
+CREATE TABLE IF NOT EXISTS trade_in_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_number VARCHAR(20) NOT NULL UNIQUE
+    DEFAULT ('TI-' || LPAD(nextval('trade_in_offer_number_seq')::TEXT, 5, '0')),
+  -- Offers past expires_at are shown as expired; the status isn't rewritten
+  status VARCHAR(20) NOT NULL DEFAULT 'offered'
+    CHECK (status IN ('offered', 'accepted', 'declined')),
+  brand VARCHAR(255) NOT NULL,
+  model VARCHAR(255) NOT NULL,
+  serial_number VARCHAR(255),
+  condition_grade VARCHAR(20) NOT NULL
+    CHECK (condition_grade IN ('mint', 'excellent', 'good', 'fair', 'poor')),
+  age_years NUMERIC(4, 1) CHECK (age_years >= 0),
+  rrp_aud NUMERIC(10, 2),
+  -- TradeInValuation: range, factors and the sell-through it was based on
+  valuation JSONB NOT NULL,
+  offer_amount NUMERIC(10, 2) NOT NULL CHECK (offer_amount > 0),
+  customer_name VARCHAR(255) NOT NULL,
+  customer_email VARCHAR(255),
+  customer_phone VARCHAR(50),
+  expires_at TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  -- Trade-in item created from the accepted offer
+  inventory_item_id UUID REFERENCES inventory_items(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  declined_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_in_offers_status ON trade_in_offers(status, expires_at);
+CREATE INDEX IF NOT EXISTS idx_trade_in_offers_created ON trade_in_offers(created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trade_in_offers_item
+  ON trade_in_offers(inventory_item_id)
+  WHERE inventory_item_id IS NOT NULL;
+
+-- Sell-through lookups for valuation
+CREATE INDEX IF NOT EXISTS idx_inventory_items_pre_owned_brand
+  ON inventory_items(LOWER(brand), listing_status)
+  WHERE listing_type IN ('trade_in', 'ex_demo');
+
+DROP TRIGGER IF EXISTS trigger_trade_in_offers_updated_at ON trade_in_offers;
+CREATE TRIGGER trigger_trade_in_offers_updated_at
+  BEFORE UPDATE ON trade_in_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE trade_in_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "trade_in_offers_select_authenticated" ON trade_in_offers;
+DROP POLICY IF EXISTS "trade_in_offers_write_authenticated" ON trade_in_offers;
+
+CREATE POLICY "trade_in_offers_select_authenticated"
+  ON trade_in_offers
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "trade_in_offers_write_authenticated"
+  ON trade_in_offers
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE trade_in_offers IS 'Buy offers made to customers for trade-ins, with the valuation behind them';
+COMMENT ON COLUMN trade_in_offers.offer_amount IS 'Amount offered; stored as the trade-in item''s cost_price on acceptance';
@@ -0,0 +1,116 @@
+-- ============================================
+-- Customers
+-- One record per person we deal with, keyed to their Shopify customer
+-- and HubSpot contact where known. Trade-in items and offers link to the
+-- customer who supplied them, RMA cases to the customer who bought the
+-- unit, and serial service events to whoever owned the unit at the time,
+-- which gives each serial its ownership chain.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  first_name VARCHAR(255),
+  last_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  shopify_customer_id VARCHAR(100),
+  hubspot_contact_id VARCHAR(100),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_email_unique
+  ON customers (LOWER(email)) WHERE email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_shopify_unique
+  ON customers (shopify_customer_id) WHERE shopify_customer_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_hubspot_unique
+  ON customers (hubspot_contact_id) WHERE hubspot_contact_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers (phone) WHERE phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers (LOWER(name));
+
+DROP TRIGGER IF EXISTS trigger_customers_updated_at ON customers;
+CREATE TRIGGER trigger_customers_updated_at
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "customers_select_authenticated" ON customers;
+DROP POLICY IF EXISTS "customers_write_authenticated" ON customers;
+
+CREATE POLICY "customers_select_authenticated"
+  ON customers
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "customers_write_authenticated"
+  ON customers
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+-- Links
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE trade_in_offers
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE rma_cases
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE serial_service_events
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_customer
+  ON inventory_items (customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trade_in_offers_customer
+  ON trade_in_offers (customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rma_cases_customer
+  ON rma_cases (customer_id) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_serial_service_events_customer
+  ON serial_service_events (customer_id) WHERE customer_id IS NOT NULL;
+
+-- Existing RMA customers become customer records: the latest case per
+-- email, then one per Shopify customer, since both keys are unique
+INSERT INTO customers (name, first_name, last_name, email, phone, shopify_customer_id)
+SELECT DISTINCT ON (COALESCE(latest.shopify_customer_id, 'email:' || LOWER(latest.customer_email)))
+  COALESCE(NULLIF(TRIM(latest.customer_name), ''), latest.customer_email),
+  latest.customer_first_name,
+  latest.customer_last_name,
+  latest.customer_email,
+  latest.customer_phone,
+  latest.shopify_customer_id
+FROM (
+  SELECT DISTINCT ON (LOWER(r.customer_email)) r.*
+  FROM rma_cases r
+  WHERE r.customer_email IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM customers c WHERE LOWER(c.email) = LOWER(r.customer_email))
+    AND NOT EXISTS (
+      SELECT 1 FROM customers c
+      WHERE r.shopify_customer_id IS NOT NULL AND c.shopify_customer_id = r.shopify_customer_id
+    )
+  ORDER BY LOWER(r.customer_email), r.created_at DESC
+) latest
+ORDER BY COALESCE(latest.shopify_customer_id, 'email:' || LOWER(latest.customer_email)), latest.created_at DESC;
+
+UPDATE rma_cases r
+SET customer_id = c.id
+FROM customers c
+WHERE r.customer_id IS NULL
+  AND r.customer_email IS NOT NULL
+  AND LOWER(c.email) = LOWER(r.customer_email);
+
+-- Cases under another email of the same Shopify customer
+UPDATE rma_cases r
+SET customer_id = c.id
+FROM customers c
+WHERE r.customer_id IS NULL
+  AND r.shopify_customer_id IS NOT NULL
+  AND c.shopify_customer_id = r.shopify_customer_id;
+
+COMMENT ON TABLE customers IS 'People who trade in, buy or return units, linked to Shopify and HubSpot';
+COMMENT ON COLUMN inventory_items.customer_id IS 'Customer who supplied a trade-in';
+COMMENT ON COLUMN trade_in_offers.customer_id IS 'Customer the offer was made to';
+COMMENT ON COLUMN rma_cases.customer_id IS 'Customer who bought the unit being returned';
+COMMENT ON COLUMN serial_service_events.customer_id IS 'Owner of the unit at the event; trade-in and sale events form the ownership chain';
@@ -0,0 +1,13 @@
+-- ============================================
+-- Condition grading assistant
+-- The AI-proposed grade for a pre-owned unit, with the observations it
+-- was based on (scratches, dents, missing parts) and the condition report
+-- it drafted from the product category's checklist. Kept next to
+-- vision_ai_response; the grade the user actually chose is recorded in
+-- the proposal so overrides can be reviewed.
+-- ============================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS condition_ai_assessment JSONB;
+
+COMMENT ON COLUMN public.inventory_items.condition_ai_assessment IS 'ConditionAssessment: AI-proposed grade, observations and drafted report, plus the final grade (accepted or overridden)';
@@ -0,0 +1,48 @@
+-- ============================================
+-- Condition checklists
+-- Structured condition questions per product category (lamp hours for
+-- projectors, stylus condition for turntables, driver and grille checks
+-- for speakers). Categories without a row here use the built-in default
+-- checklist. The answers are stored on the inventory item together with
+-- the fields they were answered against, and formatted into the Shopify
+-- description and HubSpot deal.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS condition_checklists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category VARCHAR(30) NOT NULL UNIQUE
+    CHECK (category IN ('amplifier', 'speaker', 'projector', 'display', 'turntable', 'source', 'headphones', 'other')),
+  -- [{"key": "lamp_hours", "label": "Lamp hours", "type": "number", "unit": "hours", "required": true}, ...]
+  fields JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_condition_checklists_updated_at ON condition_checklists;
+CREATE TRIGGER trigger_condition_checklists_updated_at
+  BEFORE UPDATE ON condition_checklists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_sync_queue_updated_at();
+
+ALTER TABLE condition_checklists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "condition_checklists_select_authenticated" ON condition_checklists;
+DROP POLICY IF EXISTS "condition_checklists_write_authenticated" ON condition_checklists;
+
+CREATE POLICY "condition_checklists_select_authenticated"
+  ON condition_checklists
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "condition_checklists_write_authenticated"
+  ON condition_checklists
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS condition_checklist JSONB;
+
+COMMENT ON TABLE condition_checklists IS 'Customised condition checklist per product category (built-in default otherwise)';
+COMMENT ON COLUMN condition_checklists.fields IS 'ConditionChecklistField[] in display order';
+COMMENT ON COLUMN public.inventory_items.condition_checklist IS 'ConditionChecklistResponse: category, the checklist fields and the answers given';
@@ -0,0 +1,57 @@
+-- ============================================
+-- Serial usage meter readings
+-- Lamp hours, laser hours and power-on hours read off a serialised unit at
+-- trade-in, RMA intake and RMA return. Each reading is kept as a time
+-- series per serial; the latest value of each meter is copied onto the
+-- serial registry row, and a *_recorded service event is written to the
+-- unit's service timeline.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS serial_meter_readings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial_registry_id UUID NOT NULL REFERENCES serial_registry(id) ON DELETE CASCADE,
+  meter_type VARCHAR(30) NOT NULL
+    CHECK (meter_type IN ('lamp_hours', 'laser_hours', 'power_on_hours')),
+  reading INTEGER NOT NULL CHECK (reading >= 0),
+  context VARCHAR(30) NOT NULL
+    CHECK (context IN ('trade_in', 'rma_intake', 'rma_return', 'service_check')),
+  rma_case_id UUID REFERENCES rma_cases(id) ON DELETE SET NULL,
+  inventory_item_id UUID REFERENCES inventory_items(id) ON DELETE SET NULL,
+  notes TEXT,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_serial_meter_readings_registry
+  ON serial_meter_readings(serial_registry_id, meter_type, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_serial_meter_readings_rma_case
+  ON serial_meter_readings(rma_case_id) WHERE rma_case_id IS NOT NULL;
+
+ALTER TABLE serial_meter_readings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "serial_meter_readings_select_authenticated" ON serial_meter_readings;
+DROP POLICY IF EXISTS "serial_meter_readings_write_authenticated" ON serial_meter_readings;
+
+CREATE POLICY "serial_meter_readings_select_authenticated"
+  ON serial_meter_readings
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "serial_meter_readings_write_authenticated"
+  ON serial_meter_readings
+  FOR ALL
+  USING (auth.role() = 'authenticated')
+  WITH CHECK (auth.role() = 'authenticated');
+
+ALTER TABLE serial_registry
+ADD COLUMN IF NOT EXISTS lamp_hours INTEGER,
+ADD COLUMN IF NOT EXISTS laser_hours INTEGER,
+ADD COLUMN IF NOT EXISTS power_on_hours INTEGER,
+ADD COLUMN IF NOT EXISTS meters_updated_at TIMESTAMPTZ;
+
+COMMENT ON TABLE serial_meter_readings IS 'Usage meter readings per serialised unit, one row per meter per reading';
+COMMENT ON COLUMN serial_meter_readings.context IS 'When the reading was taken: trade_in, rma_intake, rma_return or service_check';
+COMMENT ON COLUMN serial_registry.lamp_hours IS 'Latest lamp hours reading (see serial_meter_readings)';
+COMMENT ON COLUMN serial_registry.laser_hours IS 'Latest laser light source hours reading';
+COMMENT ON COLUMN serial_registry.power_on_hours IS 'Latest power-on hours reading';
+COMMENT ON COLUMN serial_registry.meters_updated_at IS 'When any meter was last read';
@@ -0,0 +1,65 @@
+-- ============================================
+-- Accepting trade-in offers in one transaction
+-- The offer amount becomes the trade-in item's cost_price; that write and
+-- the offer update now commit or roll back together, so a rejected
+-- acceptance never leaves the item overwritten.
+-- ============================================
+
+-- Accept an offer against its trade-in item. p_changes carries any offer
+-- fields revised on acceptance (offer_amount, customer_name,
+-- customer_email, customer_phone, expires_at, notes; other keys are
+-- ignored); a key that is present with null clears the field.
+CREATE OR REPLACE FUNCTION accept_trade_in_offer(
+  p_offer_id UUID,
+  p_inventory_item_id UUID,
+  p_changes JSONB DEFAULT '{}'::JSONB
+)
+RETURNS SETOF trade_in_offers AS $$
+DECLARE
+  v_offer trade_in_offers%ROWTYPE;
+  v_linked_offer TEXT;
+  v_offer_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_offer FROM trade_in_offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade-in offer not found';
+  END IF;
+  IF v_offer.status <> 'offered' THEN
+    RAISE EXCEPTION '% has already been %', v_offer.offer_number, v_offer.status;
+  END IF;
+
+  SELECT offer_number INTO v_linked_offer
+  FROM trade_in_offers
+  WHERE inventory_item_id = p_inventory_item_id
+    AND id <> p_offer_id;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Trade-in item is already linked to %', v_linked_offer;
+  END IF;
+
+  v_offer_amount := COALESCE((p_changes ->> 'offer_amount')::NUMERIC, v_offer.offer_amount);
+
+  UPDATE inventory_items
+  SET cost_price = v_offer_amount
+  WHERE id = p_inventory_item_id
+    AND listing_type = 'trade_in';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade-in item not found';
+  END IF;
+
+  RETURN QUERY
+  UPDATE trade_in_offers
+  SET status = 'accepted',
+      accepted_at = NOW(),
+      inventory_item_id = p_inventory_item_id,
+      offer_amount = v_offer_amount,
+      customer_name = COALESCE(p_changes ->> 'customer_name', customer_name),
+      customer_email = CASE WHEN p_changes ? 'customer_email' THEN p_changes ->> 'customer_email' ELSE customer_email END,
+      customer_phone = CASE WHEN p_changes ? 'customer_phone' THEN p_changes ->> 'customer_phone' ELSE customer_phone END,
+      expires_at = COALESCE((p_changes ->> 'expires_at')::TIMESTAMPTZ, expires_at),
+      notes = CASE WHEN p_changes ? 'notes' THEN p_changes ->> 'notes' ELSE notes END
+  WHERE id = p_offer_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION accept_trade_in_offer IS 'Accept a trade-in offer: sets the item''s cost and the offer''s status atomically';
@@ -0,0 +1,362 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { TradeInOfferStatusBadge } from '@/components/trade-ins';
+import { notify } from '@/lib/store/app-store';
+import type { CustomerHistory } from '@/lib/customers/customers';
+import { LISTING_STATUSES, type Customer, type ListingStatus } from '@/types';
+
+interface CustomerDraft {
+  id: string | null;
+  name: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  shopifyCustomerId: string;
+  hubspotContactId: string;
+  notes: string;
+}
+
+const emptyDraft: CustomerDraft = {
+  id: null,
+  name: '',
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  shopifyCustomerId: '',
+  hubspotContactId: '',
+  notes: '',
+};
+
+function draftFromCustomer(customer: Customer): CustomerDraft {
+  return {
+    id: customer.id,
+    name: customer.name,
+    firstName: customer.first_name || '',
+    lastName: customer.last_name || '',
+    email: customer.email || '',
+    phone: customer.phone || '',
+    shopifyCustomerId: customer.shopify_customer_id || '',
+    hubspotContactId: customer.hubspot_contact_id || '',
+    notes: customer.notes || '',
+  };
+}
+
+const orNull = (value: string) => value.trim() || null;
+
+function toCustomerPayload(draft: CustomerDraft) {
+  return {
+    name: draft.name.trim(),
+    first_name: orNull(draft.firstName),
+    last_name: orNull(draft.lastName),
+    email: orNull(draft.email),
+    phone: orNull(draft.phone),
+    shopify_customer_id: orNull(draft.shopifyCustomerId),
+    hubspot_contact_id: orNull(draft.hubspotContactId),
+    notes: orNull(draft.notes),
+  };
+}
+
+const emptyHistory: CustomerHistory = { tradeIns: [], offers: [], rmaCases: [] };
+
+const textareaClass =
+  'w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 resize-none';
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-AU');
+const formatMoney = (value: number | null) =>
+  value == null ? '—' : `$${Number(value).toLocaleString('en-AU', { maximumFractionDigits: 0 })}`;
+
+/**
+ * Customers Page
+ *
+ * Customer records with their Shopify and HubSpot links, and everything
+ * they've traded in, been offered or sent back under RMA.
+ */
+function CustomersContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const selectedId = searchParams.get('id');
+
+  const [search, setSearch] = useState('');
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [draft, setDraft] = useState<CustomerDraft>(emptyDraft);
+  const [history, setHistory] = useState<CustomerHistory>(emptyHistory);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCustomers = useCallback(async (term: string) => {
+    try {
+      const response = await fetch(`/api/customers${term ? `?search=${encodeURIComponent(term)}` : ''}`);
+      const data = await response.json();
+      setCustomers(data.customers || []);
+    } catch (error) {
+      console.error('Failed to fetch customers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchCustomers(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search, fetchCustomers]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDraft(emptyDraft);
+      setHistory(emptyHistory);
+      return;
+    }
+
+    fetch(`/api/customers/${selectedId}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.customer) {
+          notify.error('Customer not found', data.error || 'It may have been removed');
+          return;
+        }
+        setDraft(draftFromCustomer(data.customer));
+        setHistory({ tradeIns: data.tradeIns, offers: data.offers, rmaCases: data.rmaCases });
+      })
+      .catch((error) => console.error('Failed to fetch customer:', error));
+  }, [selectedId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(draft.id ? `/api/customers/${draft.id}` : '/api/customers', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toCustomerPayload(draft)),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      const saved = data.customer as Customer;
+      setCustomers((prev) => (prev.some((customer) => customer.id === saved.id)
+        ? prev.map((customer) => (customer.id === saved.id ? saved : customer))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))));
+      setDraft(draftFromCustomer(saved));
+      notify.success('Customer saved', saved.name);
+      if (saved.id !== selectedId) router.replace(`/customers?id=${saved.id}`);
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Shell title="Customers" subtitle="Trade-in suppliers, buyers and RMA customers">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Customer list */}
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-zinc-900 dark:text-white">Customers</h2>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  setDraft(emptyDraft);
+                  setHistory(emptyHistory);
+                  router.replace('/customers');
+                }}
+              >
+                New Customer
+              </Button>
+            </div>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name, email or phone"
+            />
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {isLoading ? (
+              <div className="p-8 text-center text-zinc-500">Loading...</div>
+            ) : customers.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500">No customers found</div>
+            ) : (
+              customers.map((customer) => (
+                <button
+                  key={customer.id}
+                  onClick={() => router.replace(`/customers?id=${customer.id}`)}
+                  className={`w-full text-left p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${
+                    draft.id === customer.id ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                  }`}
+                >
+                  <p className="font-medium text-zinc-900 dark:text-white">{customer.name}</p>
+                  <p className="text-sm text-zinc-500">
+                    {[customer.email, customer.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {/* Editor */}
+          <Card>
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+              <h2 className="font-semibold text-zinc-900 dark:text-white">
+                {draft.id ? draft.name : 'New Customer'}
+              </h2>
+              <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!draft.name.trim()}>
+                Save Customer
+              </Button>
+            </div>
+            <div className="p-4 space-y-4">
+              <Input
+                label="Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="First Name"
+                  value={draft.firstName}
+                  onChange={(e) => setDraft({ ...draft, firstName: e.target.value })}
+                />
+                <Input
+                  label="Last Name"
+                  value={draft.lastName}
+                  onChange={(e) => setDraft({ ...draft, lastName: e.target.value })}
+                />
+                <Input
+                  label="Email"
+                  type="email"
+                  value={draft.email}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                />
+                <Input
+                  label="Phone"
+                  value={draft.phone}
+                  onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                />
+                <Input
+                  label="Shopify Customer ID"
+                  value={draft.shopifyCustomerId}
+                  onChange={(e) => setDraft({ ...draft, shopifyCustomerId: e.target.value })}
+                  placeholder="gid://shopify/Customer/..."
+                />
+                <Input
+                  label="HubSpot Contact ID"
+                  value={draft.hubspotContactId}
+                  onChange={(e) => setDraft({ ...draft, hubspotContactId: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Notes</label>
+                <textarea
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  rows={3}
+                  className={textareaClass}
+                />
+              </div>
+            </div>
+          </Card>
+
+          {draft.id && (
+            <Card>
+              <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+                <h2 className="font-semibold text-zinc-900 dark:text-white">History</h2>
+              </div>
+              <div className="p-4 space-y-6 text-sm">
+                <section>
+                  <h3 className="font-medium text-zinc-900 dark:text-white mb-2">Traded In</h3>
+                  {history.tradeIns.length === 0 ? (
+                    <p className="text-zinc-500">No trade-ins</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {history.tradeIns.map((item) => (
+                        <li key={item.id} className="flex justify-between gap-4">
+                          <Link href={`/inventory/${item.id}`} className="text-emerald-600 hover:underline">
+                            {item.brand} {item.model}
+                            {item.serial_number && <span className="text-zinc-500"> · {item.serial_number}</span>}
+                          </Link>
+                          <span className="text-zinc-500 shrink-0">
+                            {formatMoney(item.cost_price)} ·{' '}
+                            {LISTING_STATUSES[item.listing_status as ListingStatus]?.label || item.listing_status} ·{' '}
+                            {formatDate(item.created_at)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                <section>
+                  <h3 className="font-medium text-zinc-900 dark:text-white mb-2">Trade-In Offers</h3>
+                  {history.offers.length === 0 ? (
+                    <p className="text-zinc-500">No offers</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {history.offers.map((offer) => (
+                        <li key={offer.id} className="flex justify-between gap-4">
+                          <Link href={`/lister/trade-in/offers/${offer.id}`} className="text-emerald-600 hover:underline">
+                            {offer.offer_number} · {offer.brand} {offer.model}
+                          </Link>
+                          <span className="flex items-center gap-2 text-zinc-500 shrink-0">
+                            {formatMoney(offer.offer_amount)}
+                            <TradeInOfferStatusBadge offer={offer} />
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+
+                <section>
+                  <h3 className="font-medium text-zinc-900 dark:text-white mb-2">RMA Cases</h3>
+                  {history.rmaCases.length === 0 ? (
+                    <p className="text-zinc-500">No RMA cases</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {history.rmaCases.map((rmaCase) => (
+                        <li key={rmaCase.id} className="flex justify-between gap-4">
+                          <Link href={`/rma/${rmaCase.id}`} className="text-emerald-600 hover:underline truncate">
+                            {rmaCase.shopify_order_name || rmaCase.shopify_order_id} · {rmaCase.issue_summary}
+                          </Link>
+                          <span className="text-zinc-500 shrink-0">
+                            {rmaCase.status.replaceAll('_', ' ')} · {formatDate(rmaCase.created_at)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </section>
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+    </Shell>
+  );
+}
+
+export default function CustomersPage() {
+  return (
+    <Suspense fallback={
+      <Shell title="Customers" subtitle="Loading...">
+        <div className="p-8 text-center text-zinc-500">Loading...</div>
+      </Shell>
+    }>
+      <CustomersContent />
+    </Suspense>
+  );
+}
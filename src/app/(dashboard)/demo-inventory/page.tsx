@@ -91,9 +91,14 @@ function DemoInventoryContent() {
       title="Demo Inventory" 
       subtitle="Track demonstration units before selling"
       headerActions={
-        <Link href="/lister/ex-demo">
-          <Button>+ Register Demo</Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link href="/demo-inventory/planner">
+            <Button variant="secondary">Fleet Planner</Button>
+          </Link>
+          <Link href="/lister/ex-demo">
+            <Button>+ Register Demo</Button>
+          </Link>
+        </div>
       }
     >
       <div className="max-w-6xl mx-auto p-6">
@@ -0,0 +1,451 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import {
+  CONDITION_GRADES,
+  DEMO_AGE_ALERTS,
+  DEMO_SALE_DISCOUNT_PERCENT,
+  type ConditionGrade,
+  type DemoAgeAlert,
+  type DemoConversionBatch,
+  type DemoConversionResult,
+  type DemoFleetPlan,
+  type DemoFleetUnit,
+} from '@/types';
+
+interface BatchUnitDraft {
+  include: boolean;
+  grade: ConditionGrade | '';
+  price: string;
+  sellingImages: string[];
+}
+
+const HORIZON_OPTIONS = [30, 60, 90, 180, 365];
+
+const alertBadgeClasses: Record<DemoAgeAlert, string> = {
+  ok: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-400',
+  warning: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  critical: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 0 })}`;
+
+// Same rule as the planner API: RRP less the grade discount, held at the margin floor
+function priceForGrade(unit: DemoFleetUnit, grade: ConditionGrade): number | null {
+  if (!unit.rrp_aud) return null;
+  const price = Math.round(unit.rrp_aud * (1 - DEMO_SALE_DISCOUNT_PERCENT[grade] / 100));
+  return unit.marginFloor !== null ? Math.max(price, unit.marginFloor) : price;
+}
+
+function draftForUnit(unit: DemoFleetUnit): BatchUnitDraft {
+  return {
+    include: true,
+    grade: unit.condition_grade || '',
+    price: unit.proposedPrice !== null ? String(unit.proposedPrice) : '',
+    sellingImages: [],
+  };
+}
+
+/**
+ * Demo Fleet Planner
+ *
+ * On-demo units by location with the dates they cross the 12/24-month
+ * thresholds, and convert-to-sale batches for units due within the horizon.
+ */
+export default function DemoFleetPlannerPage() {
+  const [plan, setPlan] = useState<DemoFleetPlan | null>(null);
+  const [horizonDays, setHorizonDays] = useState(90);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeBatch, setActiveBatch] = useState<DemoConversionBatch | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, BatchUnitDraft>>({});
+  const [publish, setPublish] = useState(true);
+  const [isConverting, setIsConverting] = useState(false);
+
+  const fetchPlan = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/inventory/demo-fleet?horizonDays=${horizonDays}`);
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load planner', data.error || 'Please try again');
+        return;
+      }
+      setPlan(data.plan);
+    } catch (error) {
+      console.error('Failed to fetch demo fleet plan:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [horizonDays]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  const unitsById = new Map(
+    (plan?.locations || []).flatMap((location) => location.units.map((unit) => [unit.id, unit] as const))
+  );
+  const batchUnits = (activeBatch?.unitIds || [])
+    .map((id) => unitsById.get(id))
+    .filter((unit): unit is DemoFleetUnit => !!unit);
+
+  const openBatch = (batch: DemoConversionBatch) => {
+    setActiveBatch(batch);
+    setDrafts(Object.fromEntries(
+      batch.unitIds
+        .map((id) => unitsById.get(id))
+        .filter((unit): unit is DemoFleetUnit => !!unit)
+        .map((unit) => [unit.id, draftForUnit(unit)])
+    ));
+  };
+
+  const updateDraft = (id: string, changes: Partial<BatchUnitDraft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const handleGradeChange = (unit: DemoFleetUnit, grade: ConditionGrade | '') => {
+    const price = grade ? priceForGrade(unit, grade) : null;
+    updateDraft(unit.id, {
+      grade,
+      ...(price !== null && { price: String(price) }),
+    });
+  };
+
+  const handlePhotoUpload = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+
+    Array.from(files).forEach((file) => {
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        const imageData = reader.result as string;
+        setDrafts((prev) => ({
+          ...prev,
+          [id]: { ...prev[id], sellingImages: [...prev[id].sellingImages, imageData] },
+        }));
+      };
+      reader.readAsDataURL(file);
+    });
+
+    e.target.value = ''; // Reset input
+  };
+
+  const removePhoto = (id: string, index: number) => {
+    setDrafts((prev) => ({
+      ...prev,
+      [id]: { ...prev[id], sellingImages: prev[id].sellingImages.filter((_, i) => i !== index) },
+    }));
+  };
+
+  const includedUnits = batchUnits.filter((unit) => drafts[unit.id]?.include);
+  const incompleteCount = includedUnits.filter((unit) => {
+    const draft = drafts[unit.id];
+    return !draft.grade || !(Number(draft.price) > 0);
+  }).length;
+
+  const handleConvert = async () => {
+    if (includedUnits.length === 0 || incompleteCount > 0) return;
+    setIsConverting(true);
+    try {
+      const response = await fetch('/api/inventory/demo-fleet/convert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          publish,
+          units: includedUnits.map((unit) => ({
+            id: unit.id,
+            sale_price: Number(drafts[unit.id].price),
+            condition_grade: drafts[unit.id].grade,
+            selling_images: drafts[unit.id].sellingImages,
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Conversion failed', data.error || 'Please try again');
+        return;
+      }
+
+      const result = data as DemoConversionResult;
+      const queuedCount = Object.keys(result.queued).length;
+      notify.success(
+        'Converted to sale',
+        `${result.converted.length} unit${result.converted.length === 1 ? '' : 's'} ready to sell` +
+          (publish ? `, ${queuedCount} queued to publish` : '')
+      );
+      if (result.failed.length > 0) {
+        notify.warning(`${result.failed.length} not converted`, result.failed[0].error);
+      }
+      setActiveBatch(null);
+      await fetchPlan();
+    } catch {
+      notify.error('Conversion failed', 'Please try again');
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  return (
+    <Shell
+      title="Demo Fleet Planner"
+      subtitle="Plan when demo units move to sale"
+      headerActions={
+        <div className="flex items-center gap-2">
+          <select
+            value={horizonDays}
+            onChange={(e) => setHorizonDays(Number(e.target.value))}
+            className="px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+            aria-label="Planning horizon"
+          >
+            {HORIZON_OPTIONS.map((days) => (
+              <option key={days} value={days}>Next {days} days</option>
+            ))}
+          </select>
+          <Link href="/demo-inventory">
+            <Button variant="secondary" size="sm">Back to Demo Inventory</Button>
+          </Link>
+        </div>
+      }
+    >
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {isLoading && !plan ? (
+          <Card className="p-8 text-center text-zinc-500">Loading demo fleet...</Card>
+        ) : !plan || plan.locations.length === 0 ? (
+          <Card className="p-8 text-center text-zinc-500">No units on demo</Card>
+        ) : (
+          <>
+            {/* Suggested batches */}
+            <Card>
+              <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+                <h2 className="font-semibold text-zinc-900 dark:text-white">Convert to Sale</h2>
+                <p className="text-sm text-zinc-500">
+                  Units 24+ months on demo by {formatDate(plan.horizonDate)}, grouped by location
+                </p>
+              </div>
+              {plan.batches.length === 0 ? (
+                <div className="p-8 text-center text-zinc-500">
+                  No units reach 24 months on demo in the next {plan.horizonDays} days
+                </div>
+              ) : (
+                <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                  {plan.batches.map((batch) => (
+                    <div key={batch.location} className="p-4 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium text-zinc-900 dark:text-white">{batch.location}</p>
+                        <p className="text-sm text-zinc-500">
+                          {batch.unitIds.length} unit{batch.unitIds.length === 1 ? '' : 's'} ·{' '}
+                          {formatCurrency(batch.proposedTotal)} proposed
+                          {batch.unpricedCount > 0 && ` · ${batch.unpricedCount} need an RRP or grade`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant={activeBatch?.location === batch.location ? 'secondary' : 'primary'}
+                        onClick={() => openBatch(batch)}
+                      >
+                        Review Batch
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {/* Batch editor */}
+            {activeBatch && (
+              <Card>
+                <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between gap-4">
+                  <div>
+                    <h2 className="font-semibold text-zinc-900 dark:text-white">{activeBatch.location} batch</h2>
+                    <p className="text-sm text-zinc-500">
+                      Confirm the grade and price, and add condition photos for each unit
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                      <input
+                        type="checkbox"
+                        checked={publish}
+                        onChange={(e) => setPublish(e.target.checked)}
+                        className="rounded border-zinc-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      Publish after converting
+                    </label>
+                    <Button size="sm" variant="ghost" onClick={() => setActiveBatch(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={handleConvert}
+                      isLoading={isConverting}
+                      disabled={includedUnits.length === 0 || incompleteCount > 0}
+                    >
+                      Convert {includedUnits.length} to Sale
+                    </Button>
+                  </div>
+                </div>
+                {incompleteCount > 0 && (
+                  <p className="px-4 pt-3 text-sm text-amber-600">
+                    {incompleteCount} unit{incompleteCount === 1 ? ' needs' : 's need'} a grade and sale price
+                  </p>
+                )}
+                <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                  {batchUnits.map((unit) => {
+                    const draft = drafts[unit.id];
+                    if (!draft) return null;
+
+                    return (
+                      <div key={unit.id} className={`p-4 space-y-3 ${draft.include ? '' : 'opacity-50'}`}>
+                        <div className="flex flex-wrap items-center gap-4">
+                          <input
+                            type="checkbox"
+                            checked={draft.include}
+                            onChange={(e) => updateDraft(unit.id, { include: e.target.checked })}
+                            aria-label={`Include ${unit.brand} ${unit.model}`}
+                          />
+                          <div className="flex-1 min-w-48">
+                            <Link href={`/inventory/${unit.id}`} className="font-medium text-zinc-900 dark:text-white hover:underline">
+                              {unit.brand} {unit.model}
+                            </Link>
+                            <p className="text-xs text-zinc-500">
+                              {unit.serial_number || 'No serial'} · {unit.daysOnDemo} days on demo
+                              {unit.rrp_aud ? ` · RRP ${formatCurrency(unit.rrp_aud)}` : ' · no RRP'}
+                            </p>
+                          </div>
+                          <select
+                            value={draft.grade}
+                            onChange={(e) => handleGradeChange(unit, e.target.value as ConditionGrade | '')}
+                            className="px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+                            aria-label="Condition grade"
+                          >
+                            <option value="">Grade...</option>
+                            {(Object.keys(CONDITION_GRADES) as ConditionGrade[]).map((grade) => (
+                              <option key={grade} value={grade}>
+                                {CONDITION_GRADES[grade].label} (−{DEMO_SALE_DISCOUNT_PERCENT[grade]}%)
+                              </option>
+                            ))}
+                          </select>
+                          <div className="w-32">
+                            <input
+                              type="number"
+                              min={0}
+                              value={draft.price}
+                              onChange={(e) => updateDraft(unit.id, { price: e.target.value })}
+                              placeholder="Sale price"
+                              className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+                              aria-label="Sale price"
+                            />
+                            {unit.marginFloor !== null && (
+                              <p className="text-xs text-zinc-500 mt-1">floor {formatCurrency(unit.marginFloor)}</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 pl-8">
+                          {draft.sellingImages.map((image, index) => (
+                            <div key={index} className="relative">
+                              <img src={image} alt={`Condition photo ${index + 1}`} className="w-16 h-16 rounded object-cover" />
+                              <button
+                                onClick={() => removePhoto(unit.id, index)}
+                                className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-red-500 text-white text-xs"
+                                aria-label="Remove photo"
+                              >
+                                ×
+                              </button>
+                            </div>
+                          ))}
+                          <label className="w-16 h-16 rounded border-2 border-dashed border-zinc-300 dark:border-zinc-700 flex items-center justify-center text-xs text-zinc-500 cursor-pointer hover:border-emerald-500">
+                            + Photo
+                            <input
+                              type="file"
+                              accept="image/*"
+                              multiple
+                              className="hidden"
+                              onChange={(e) => handlePhotoUpload(unit.id, e)}
+                            />
+                          </label>
+                          {draft.sellingImages.length === 0 && (
+                            <span className="text-xs text-zinc-500">Registration photos are used if none are added</span>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
+
+            {/* Fleet by location */}
+            {plan.locations.map((location) => (
+              <Card key={location.location} className="overflow-hidden">
+                <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+                  <h2 className="font-semibold text-zinc-900 dark:text-white">{location.location}</h2>
+                  <div className="flex gap-2 text-xs">
+                    {(Object.keys(DEMO_AGE_ALERTS) as DemoAgeAlert[]).map((alert) => (
+                      <span key={alert} className={`px-2 py-1 rounded-full font-medium ${alertBadgeClasses[alert]}`}>
+                        {location.counts[alert]} {DEMO_AGE_ALERTS[alert].label.toLowerCase()}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-zinc-50 dark:bg-zinc-800/50">
+                      <tr className="text-left text-zinc-500">
+                        <th className="px-4 py-3 font-medium">Product</th>
+                        <th className="px-4 py-3 font-medium">Days on Demo</th>
+                        <th className="px-4 py-3 font-medium">12 Months</th>
+                        <th className="px-4 py-3 font-medium">24 Months</th>
+                        <th className="px-4 py-3 font-medium text-right">Proposed Price</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                      {location.units.map((unit) => (
+                        <tr key={unit.id} className="hover:bg-zinc-50 dark:hover:bg-zinc-800/30">
+                          <td className="px-4 py-3">
+                            <Link href={`/inventory/${unit.id}`} className="font-medium text-zinc-900 dark:text-white hover:underline">
+                              {unit.brand} {unit.model}
+                            </Link>
+                            <p className="text-xs text-zinc-500 font-mono">{unit.serial_number || '—'}</p>
+                          </td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-1 text-xs font-medium rounded-full ${alertBadgeClasses[unit.alert]}`}>
+                              {unit.daysOnDemo} days
+                            </span>
+                            {unit.projectedAlert !== unit.alert && (
+                              <span className="ml-2 text-xs text-zinc-500">
+                                → {DEMO_AGE_ALERTS[unit.projectedAlert].label} by {formatDate(plan.horizonDate)}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-zinc-600 dark:text-zinc-400">{formatDate(unit.warningDate)}</td>
+                          <td className="px-4 py-3 text-zinc-600 dark:text-zinc-400">{formatDate(unit.criticalDate)}</td>
+                          <td className="px-4 py-3 text-right">
+                            {unit.proposedPrice !== null ? (
+                              <span className="font-medium text-zinc-900 dark:text-white">{formatCurrency(unit.proposedPrice)}</span>
+                            ) : (
+                              <span className="text-xs text-zinc-500">{unit.rrp_aud ? 'Needs grade' : 'Needs RRP'}</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            ))}
+          </>
+        )}
+      </div>
+    </Shell>
+  );
+}
@@ -10,9 +10,22 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { notify } from '@/lib/store/app-store';
+import { waitForSyncRun } from '@/hooks/useSyncProgress';
 import { PrintLabelsDialog, usePrintLabelsDialog } from '@/components/labels';
+import { CompetitorMatrix, PriceHistory, ProductGroupVariants, RrpTrend, StockLevels } from '@/components/inventory';
+import { ConditionAssessmentPanel, finalizeConditionAssessment } from '@/components/lister/ConditionAssessmentPanel';
+import { ConditionChecklistForm } from '@/components/lister/ConditionChecklistForm';
+import { getMissingChecklistAnswers } from '@/lib/condition/summary';
 import { parsePrice } from '@/lib/utils/pricing';
-import type { InventoryItem, ConditionGrade, SyncResult } from '@/types';
+import {
+  getSyncTargetLabel,
+  SERIAL_CAPTURE_METHODS,
+  SYNC_TARGETS,
+  type BuiltInSyncTargetId,
+  type InventoryItem,
+  type ConditionGrade,
+  type SyncResult,
+} from '@/types';
 
 const CONDITION_GRADES: { value: ConditionGrade; label: string; color: string }[] = [
   { value: 'mint', label: 'Mint', color: 'emerald' },
@@ -128,6 +141,7 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
           serial_capture_status:
             formData.serial_capture_status ??
             (normalizedSerial ? 'captured' : 'skipped'),
+          condition_ai_assessment: finalizeConditionAssessment(formData.condition_ai_assessment ?? null, formData.condition_grade),
         }),
       });
 
@@ -165,7 +179,8 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
         setError(data.error);
         notify.error('Sync failed', data.error);
       } else {
-        setSyncResult(data.result);
+        const run = await waitForSyncRun(data.runId);
+        setSyncResult(run.result);
         // Refresh item to get updated sync status
         const refreshResponse = await fetch(`/api/inventory/${id}`);
         const refreshData = await refreshResponse.json();
@@ -173,7 +188,13 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
           setItem(refreshData.item);
           setFormData(refreshData.item);
         }
-        notify.success('Sync complete', 'Item synced to platforms');
+        if (run.status === 'succeeded') {
+          notify.success('Sync complete', 'Item synced to platforms');
+        } else if (run.status === 'failed') {
+          notify.warning('Sync completed with issues', 'Some platforms failed. Retry them from the Sync page.');
+        } else {
+          notify.info('Sync queued', 'Still running in the background');
+        }
       }
     } catch {
       setError('Sync failed');
@@ -356,6 +377,12 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
       return;
     }
 
+    const checklistMissing = formData.condition_checklist ? getMissingChecklistAnswers(formData.condition_checklist) : [];
+    if (checklistMissing.length > 0) {
+      setError(`Please complete the condition checklist: ${checklistMissing.map((field) => field.label).join(', ')}`);
+      return;
+    }
+
     setIsConverting(true);
     setError(null);
 
@@ -365,6 +392,7 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
+          condition_ai_assessment: finalizeConditionAssessment(formData.condition_ai_assessment ?? null, formData.condition_grade),
           listing_status: 'ready_to_sell',
           selling_images: sellingImages,
           image_urls: sellingImages.length > 0 ? sellingImages : formData.registration_images || [],
@@ -430,6 +458,11 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
     return '';
   };
 
+  // Grade from the newest photos: ones being added for sale, then saved selling photos, then registration
+  const conditionPhotos = sellingImages.length > 0
+    ? sellingImages
+    : item.selling_images?.length ? item.selling_images : item.registration_images || [];
+
   return (
     <Shell 
       title={`${item.brand} ${item.model}`}
@@ -453,20 +486,19 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
             {syncResult.success ? 'Sync Complete' : 'Sync Partial'}
           </h3>
           <div className="space-y-1 text-sm">
-            {syncResult.shopify && (
-              <p className="text-emerald-600 dark:text-emerald-400">
-                ✓ Shopify: <a href={syncResult.shopify.admin_url} target="_blank" rel="noopener noreferrer" className="underline">View Product</a>
-              </p>
-            )}
-            {syncResult.hubspot && (
-              <p className="text-emerald-600 dark:text-emerald-400">
-                ✓ HubSpot: <a href={syncResult.hubspot.deal_url} target="_blank" rel="noopener noreferrer" className="underline">View Deal</a>
-              </p>
-            )}
-            {syncResult.notion && (
-              <p className="text-emerald-600 dark:text-emerald-400">
-                ✓ Notion: <a href={syncResult.notion.page_url} target="_blank" rel="noopener noreferrer" className="underline">View Page</a>
-              </p>
+            {Object.entries(syncResult.targets).map(([targetId, targetResult]) =>
+              targetResult?.success && (
+                <p key={targetId} className="text-emerald-600 dark:text-emerald-400">
+                  ✓ {getSyncTargetLabel(targetId)}
+                  {targetResult.url && (
+                    <>
+                      : <a href={targetResult.url} target="_blank" rel="noopener noreferrer" className="underline">
+                        {SYNC_TARGETS[targetId as BuiltInSyncTargetId]?.linkLabel || 'View'}
+                      </a>
+                    </>
+                  )}
+                </p>
+              )
             )}
             {syncResult.errors?.map((err, i) => (
               <p key={i} className="text-red-600 dark:text-red-400">✗ {err}</p>
@@ -684,12 +716,21 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
                       setFormData({
                         ...formData,
                         serial_number: e.target.value,
+                        serial_capture_method: e.target.value.trim() ? 'manual' : null,
                         ...(e.target.value.trim() ? { serial_capture_status: 'captured' } : {}),
                       })
                     }
                     placeholder="Optional"
                     disabled={formData.serial_capture_status === 'not_found' || formData.serial_capture_status === 'skipped'}
                   />
+                  {formData.serial_number && formData.serial_capture_method && (
+                    <p
+                      className="mt-1 text-xs text-zinc-500"
+                      title={SERIAL_CAPTURE_METHODS[formData.serial_capture_method].description}
+                    >
+                      Captured by {SERIAL_CAPTURE_METHODS[formData.serial_capture_method].label}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">Serial Status</label>
@@ -699,7 +740,7 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
                       setFormData({
                         ...formData,
                         serial_capture_status: e.target.value as InventoryItem['serial_capture_status'],
-                        ...(e.target.value !== 'captured' ? { serial_number: null } : {}),
+                        ...(e.target.value !== 'captured' ? { serial_number: null, serial_capture_method: null } : {}),
                       })
                     }
                     className="w-full h-10 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 text-sm text-zinc-900 dark:text-zinc-100"
@@ -731,6 +772,18 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
                 <h2 className="font-semibold text-zinc-900 dark:text-white">Condition</h2>
               </div>
               <div className="p-4 space-y-4">
+                <ConditionAssessmentPanel
+                  images={conditionPhotos}
+                  brand={formData.brand || ''}
+                  model={formData.model || ''}
+                  assessment={formData.condition_ai_assessment ?? null}
+                  onAssessed={(assessment) => setFormData((prev) => ({ ...prev, condition_ai_assessment: assessment }))}
+                  grade={formData.condition_grade}
+                  onAccept={(grade, report) =>
+                    setFormData((prev) => ({ ...prev, condition_grade: grade, condition_report: report }))
+                  }
+                />
+
                 <div>
                   <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">Grade</label>
                   <div className="flex gap-2">
@@ -760,6 +813,12 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
                     placeholder="Describe any wear, scratches, or issues..."
                   />
                 </div>
+
+                <ConditionChecklistForm
+                  value={formData.condition_checklist ?? null}
+                  onChange={(checklist) => setFormData((prev) => ({ ...prev, condition_checklist: checklist }))}
+                  suggestedCategory={formData.condition_ai_assessment?.category}
+                />
               </div>
             </Card>
           )}
@@ -841,6 +900,23 @@ export default function InventoryDetailPage({ params }: { params: Promise<{ id:
               )}
             </div>
           </Card>
+
+          {/* Our price changes, and retailer prices from the RRP price-watch */}
+          <PriceHistory itemId={item.id} />
+          <RrpTrend itemId={item.id} salePrice={item.sale_price} rrpAud={item.rrp_aud} />
+          <CompetitorMatrix
+            itemId={item.id}
+            salePrice={item.sale_price}
+            onUseSuggestedPrice={(price) => handlePriceChange('sale_price', String(price))}
+          />
+
+          {/* Stock per location (new-retail stock) */}
+          {item.listing_type === 'new' && <StockLevels itemId={item.id} />}
+
+          {/* Variants (multi-variant products) */}
+          {item.product_group_id && (
+            <ProductGroupVariants groupId={item.product_group_id} currentItemId={item.id} />
+          )}
         </div>
 
         {/* Sidebar */}
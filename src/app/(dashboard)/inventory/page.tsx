@@ -17,6 +17,7 @@ import {
 } from '@/components/inventory';
 import { PrintLabelsDialog, usePrintLabelsDialog } from '@/components/labels';
 import { notify } from '@/lib/store/app-store';
+import { waitForSyncRun } from '@/hooks/useSyncProgress';
 import type { InventoryItem, ListingType, SyncStatus, ListingStatus } from '@/types';
 import type { InventoryFilters } from '@/types/filters';
 
@@ -124,22 +125,36 @@ export default function InventoryPage() {
 
   const handleSync = async (itemId: string) => {
     const item = items.find(i => i.id === itemId);
+    const setSyncStatus = (status: SyncStatus) => {
+      setItems(prev => prev.map(i => 
+        i.id === itemId 
+          ? { ...i, sync_status: status }
+          : i
+      ));
+    };
+
     try {
       const response = await fetch(`/api/inventory/${itemId}/sync`, {
         method: 'POST',
       });
       const result = await response.json();
       
-      if (result.success) {
-        // Refresh the list
-        setItems(prev => prev.map(i => 
-          i.id === itemId 
-            ? { ...i, sync_status: 'synced' as SyncStatus }
-            : i
-        ));
+      if (!result.success) {
+        notify.error('Sync failed', result.error || 'Please try again');
+        return;
+      }
+
+      setSyncStatus('syncing');
+      const run = await waitForSyncRun(result.runId);
+
+      if (run.status === 'succeeded') {
+        setSyncStatus('synced');
         notify.success('Sync complete', `${item?.brand} ${item?.model} synced successfully`);
+      } else if (run.status === 'failed') {
+        setSyncStatus('error');
+        notify.error('Sync failed', run.result?.errors?.join('; ') || 'Please try again');
       } else {
-        notify.error('Sync failed', result.error || 'Please try again');
+        notify.info('Sync queued', 'Still running in the background. Check the Sync page for progress.');
       }
     } catch (error) {
       console.error('Sync failed:', error);
@@ -191,6 +206,15 @@ export default function InventoryPage() {
             Import
           </Button>
           <ExportButton items={filteredItems} />
+          <Link href="/inventory/repricing">
+            <Button variant="secondary" size="sm">Repricing</Button>
+          </Link>
+          <Link href="/inventory/suppliers">
+            <Button variant="secondary" size="sm">Suppliers</Button>
+          </Link>
+          <Link href="/inventory/purchase-orders">
+            <Button variant="secondary" size="sm">Purchase Orders</Button>
+          </Link>
           <Link href="/lister">
             <Button>
               <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,580 @@
+'use client';
+
+import { use, useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useReactToPrint } from 'react-to-print';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { PurchaseOrderDocument, PurchaseOrderStatusBadge } from '@/components/purchase-orders';
+import { notify } from '@/lib/store/app-store';
+import { calculatePurchaseOrderTotals } from '@/lib/suppliers/purchase-order-totals';
+import { removeGst } from '@/lib/utils/gst';
+import type { InventoryItem, InventoryLocation, PurchaseOrderWithDetails } from '@/types';
+
+interface LineDraft {
+  key: string;
+  inventoryItemId: string | null;
+  sku: string;
+  brand: string;
+  model: string;
+  quantity: string;
+  unitCostExGst: string;
+  rrp: string;
+}
+
+let lineKey = 0;
+const nextLineKey = () => `line-${++lineKey}`;
+
+const emptyLine = (): LineDraft => ({
+  key: nextLineKey(),
+  inventoryItemId: null,
+  sku: '',
+  brand: '',
+  model: '',
+  quantity: '1',
+  unitCostExGst: '',
+  rrp: '',
+});
+
+function linesFromOrder(order: PurchaseOrderWithDetails): LineDraft[] {
+  return order.lines.map((line) => ({
+    key: nextLineKey(),
+    inventoryItemId: line.inventory_item_id,
+    sku: line.sku || '',
+    brand: line.brand,
+    model: line.model,
+    quantity: String(line.quantity),
+    unitCostExGst: String(line.unit_cost_ex_gst),
+    rrp: line.rrp_aud !== null ? String(line.rrp_aud) : '',
+  }));
+}
+
+function toLinePayload(line: LineDraft) {
+  return {
+    inventory_item_id: line.inventoryItemId,
+    sku: line.sku.trim() || null,
+    brand: line.brand.trim(),
+    model: line.model.trim(),
+    quantity: Number(line.quantity) || 0,
+    unit_cost_ex_gst: Number(line.unitCostExGst) || 0,
+    rrp_aud: line.rrp.trim() ? Number(line.rrp) : null,
+  };
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const textareaClass =
+  'w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 resize-none';
+
+const cellInputClass =
+  'w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Purchase Order Page
+ *
+ * Edit a draft's lines (ex-GST costs), order it, print it for the supplier
+ * and see what has been received so far.
+ */
+export default function PurchaseOrderPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const printRef = useRef<HTMLDivElement>(null);
+  const [order, setOrder] = useState<PurchaseOrderWithDetails | null>(null);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [lines, setLines] = useState<LineDraft[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [expectedAt, setExpectedAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [productSearch, setProductSearch] = useState('');
+  const [productResults, setProductResults] = useState<InventoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+
+  const loadOrder = useCallback((loaded: PurchaseOrderWithDetails) => {
+    setOrder(loaded);
+    setLines(linesFromOrder(loaded));
+    setLocationId(loaded.location_id || '');
+    setExpectedAt(loaded.expected_at || '');
+    setNotes(loaded.notes || '');
+  }, []);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load purchase order', data.error || 'Please try again');
+        return;
+      }
+      loadOrder(data.purchaseOrder);
+    } catch (error) {
+      console.error('Failed to fetch purchase order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, loadOrder]);
+
+  useEffect(() => {
+    fetchOrder();
+    fetch('/api/inventory/locations')
+      .then((response) => response.json())
+      .then((data) => setLocations((data.locations || []).filter((location: InventoryLocation) => location.is_active)))
+      .catch((error) => console.error('Failed to fetch locations:', error));
+  }, [fetchOrder]);
+
+  useEffect(() => {
+    const query = productSearch.trim();
+    if (query.length < 2) {
+      setProductResults([]);
+      return;
+    }
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/inventory?search=${encodeURIComponent(query)}&listing_type=new&limit=8`);
+        const data = await response.json();
+        setProductResults(data.items || []);
+      } catch (error) {
+        console.error('Product search failed:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [productSearch]);
+
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: order?.po_number || 'Purchase Order',
+  });
+
+  const isDraft = order?.status === 'draft';
+  const canReceive = order?.status === 'ordered' || order?.status === 'partially_received';
+  const linePayloads = lines.map(toLinePayload);
+  const linesValid = linePayloads.every((line) => line.brand && line.model && line.quantity > 0);
+  const draftTotals = calculatePurchaseOrderTotals(linePayloads);
+
+  const updateLine = (key: string, changes: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)));
+  };
+
+  const addProduct = (item: InventoryItem) => {
+    setLines((prev) => [
+      ...prev,
+      {
+        key: nextLineKey(),
+        inventoryItemId: item.id,
+        sku: item.sku || '',
+        brand: item.brand,
+        model: item.model,
+        quantity: '1',
+        // Item cost is stored inc GST; PO lines are ex GST
+        unitCostExGst: item.cost_price ? String(removeGst(item.cost_price)) : '',
+        rrp: item.rrp_aud ? String(item.rrp_aud) : '',
+      },
+    ]);
+    setProductSearch('');
+    setProductResults([]);
+  };
+
+  const save = async (extra: { status?: 'ordered' | 'cancelled' } = {}) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          location_id: locationId || null,
+          expected_at: expectedAt || null,
+          notes: notes.trim() || null,
+          ...(isDraft && extra.status !== 'cancelled' ? { lines: linePayloads } : {}),
+          ...extra,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return false;
+      }
+      loadOrder(data.purchaseOrder);
+      return true;
+    } catch {
+      notify.error('Save failed', 'Please try again');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await save()) notify.success('Purchase order saved');
+  };
+
+  const handleMarkOrdered = async () => {
+    const confirmed = await confirm({
+      title: 'Mark as Ordered',
+      message: `Mark ${order?.po_number} as sent to the supplier? Lines can't be changed after this.`,
+      confirmText: 'Mark Ordered',
+      cancelText: 'Cancel',
+    });
+    if (!confirmed) return;
+    if (await save({ status: 'ordered' })) notify.success('Purchase order ordered', order?.po_number);
+  };
+
+  const handleCancelOrder = async () => {
+    const confirmed = await confirm({
+      title: 'Cancel Purchase Order',
+      message: `Cancel ${order?.po_number}? It will no longer be received.`,
+      confirmText: 'Cancel Order',
+      cancelText: 'Keep',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    if (await save({ status: 'cancelled' })) notify.success('Purchase order cancelled', order?.po_number);
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: 'Delete Draft',
+      message: `Delete draft ${order?.po_number}?`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        notify.error('Delete failed', data.error || 'Please try again');
+        return;
+      }
+      notify.success('Draft deleted');
+      router.push('/inventory/purchase-orders');
+    } catch {
+      notify.error('Delete failed', 'Please try again');
+    }
+  };
+
+  if (isLoading || !order) {
+    return (
+      <Shell title="Purchase Order">
+        <div className="p-8 text-center text-zinc-500">{isLoading ? 'Loading...' : 'Purchase order not found'}</div>
+      </Shell>
+    );
+  }
+
+  const totals = isDraft ? draftTotals : order.totals;
+
+  return (
+    <Shell
+      title={order.po_number}
+      subtitle={order.supplier?.name}
+      headerActions={
+        <div className="flex gap-2">
+          <Link href="/inventory/purchase-orders">
+            <Button variant="ghost" size="sm">All Orders</Button>
+          </Link>
+          <Button variant="secondary" size="sm" onClick={() => handlePrint()} disabled={order.lines.length === 0}>
+            Print / PDF
+          </Button>
+          {canReceive && (
+            <Link href={`/inventory/purchase-orders/${id}/receive`}>
+              <Button size="sm">Receive Stock</Button>
+            </Link>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <PurchaseOrderStatusBadge status={order.status} />
+              {order.ordered_at && (
+                <span className="text-sm text-zinc-500">
+                  Ordered {new Date(order.ordered_at).toLocaleDateString('en-AU')}
+                </span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {isDraft && (
+                <Button size="sm" variant="ghost" onClick={handleDelete}>
+                  Delete Draft
+                </Button>
+              )}
+              {!isDraft && canReceive && order.totals.unitsReceived === 0 && (
+                <Button size="sm" variant="ghost" onClick={handleCancelOrder}>
+                  Cancel Order
+                </Button>
+              )}
+              {(isDraft || canReceive) && (
+                <Button size="sm" variant="secondary" onClick={handleSave} isLoading={isSaving} disabled={!linesValid}>
+                  Save
+                </Button>
+              )}
+              {isDraft && (
+                <Button size="sm" onClick={handleMarkOrdered} disabled={isSaving || !linesValid || lines.length === 0}>
+                  Mark Ordered
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Deliver To</label>
+              <select
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                className={selectClass}
+                disabled={!isDraft && !canReceive}
+              >
+                <option value="">Choose a location...</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+            <Input
+              label="Expected"
+              type="date"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+              disabled={!isDraft && !canReceive}
+            />
+          </div>
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className={textareaClass}
+              disabled={!isDraft && !canReceive}
+              placeholder="Printed on the purchase order"
+            />
+          </div>
+        </Card>
+
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Lines</h2>
+            {isDraft && (
+              <Button size="sm" variant="secondary" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+                Add Line
+              </Button>
+            )}
+          </div>
+
+          {isDraft && (
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 relative">
+              <Input
+                label="Reorder an existing product"
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder="Search by brand, model or SKU"
+              />
+              {productResults.length > 0 && (
+                <div className="absolute z-10 left-4 right-4 mt-1 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-lg divide-y divide-zinc-100 dark:divide-zinc-800">
+                  {productResults.map((item) => (
+                    <button
+                      key={item.id}
+                      onClick={() => addProduct(item)}
+                      className="w-full text-left px-4 py-2 hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+                    >
+                      <span className="font-medium text-zinc-900 dark:text-white">{item.brand} {item.model}</span>
+                      {item.sku && <span className="ml-2 text-sm font-mono text-zinc-500">{item.sku}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                  <th className="p-3 font-medium">SKU</th>
+                  <th className="p-3 font-medium">Brand</th>
+                  <th className="p-3 font-medium">Model</th>
+                  <th className="p-3 font-medium w-24">Qty</th>
+                  <th className="p-3 font-medium w-32">Unit ex GST</th>
+                  <th className="p-3 font-medium w-32">RRP</th>
+                  <th className="p-3 font-medium text-right">Line ex GST</th>
+                  {isDraft ? <th className="p-3" /> : <th className="p-3 font-medium text-right">Received</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                {isDraft ? (
+                  lines.map((line) => (
+                    <tr key={line.key}>
+                      <td className="p-2">
+                        <input
+                          value={line.sku}
+                          onChange={(e) => updateLine(line.key, { sku: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          value={line.brand}
+                          onChange={(e) => updateLine(line.key, { brand: e.target.value })}
+                          className={cellInputClass}
+                          disabled={Boolean(line.inventoryItemId)}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          value={line.model}
+                          onChange={(e) => updateLine(line.key, { model: e.target.value })}
+                          className={cellInputClass}
+                          disabled={Boolean(line.inventoryItemId)}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          min={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={line.unitCostExGst}
+                          onChange={(e) => updateLine(line.key, { unitCostExGst: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={line.rrp}
+                          onChange={(e) => updateLine(line.key, { rrp: e.target.value })}
+                          className={cellInputClass}
+                        />
+                      </td>
+                      <td className="p-2 text-right text-zinc-900 dark:text-white">
+                        {formatCurrency((Number(line.quantity) || 0) * (Number(line.unitCostExGst) || 0))}
+                      </td>
+                      <td className="p-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setLines((prev) => prev.filter((entry) => entry.key !== line.key))}
+                        >
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  order.lines.map((line) => (
+                    <tr key={line.id}>
+                      <td className="p-3 font-mono text-zinc-500">{line.sku || '—'}</td>
+                      <td className="p-3 text-zinc-900 dark:text-white">{line.brand}</td>
+                      <td className="p-3 text-zinc-900 dark:text-white">
+                        {line.inventory_item_id ? (
+                          <Link href={`/inventory/${line.inventory_item_id}`} className="hover:underline">
+                            {line.model}
+                          </Link>
+                        ) : line.model}
+                      </td>
+                      <td className="p-3">{line.quantity}</td>
+                      <td className="p-3">{formatCurrency(Number(line.unit_cost_ex_gst))}</td>
+                      <td className="p-3">{line.rrp_aud !== null ? formatCurrency(Number(line.rrp_aud)) : '—'}</td>
+                      <td className="p-3 text-right">{formatCurrency(line.quantity * Number(line.unit_cost_ex_gst))}</td>
+                      <td className="p-3 text-right">
+                        <span className={line.quantity_received === line.quantity ? 'text-emerald-600' : 'text-zinc-700 dark:text-zinc-300'}>
+                          {line.quantity_received} / {line.quantity}
+                        </span>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {isDraft && lines.length === 0 && (
+            <div className="p-8 text-center text-zinc-500">Add lines or search for a product to reorder</div>
+          )}
+
+          <div className="p-4 border-t border-zinc-200 dark:border-zinc-700 flex justify-end">
+            <div className="w-64 space-y-1 text-sm">
+              <div className="flex justify-between text-zinc-600 dark:text-zinc-400">
+                <span>Subtotal (ex GST)</span>
+                <span>{formatCurrency(totals.subtotalExGst)}</span>
+              </div>
+              <div className="flex justify-between text-zinc-600 dark:text-zinc-400">
+                <span>GST</span>
+                <span>{formatCurrency(totals.gst)}</span>
+              </div>
+              <div className="flex justify-between font-semibold text-zinc-900 dark:text-white">
+                <span>Total (inc GST)</span>
+                <span>{formatCurrency(totals.totalIncGst)}</span>
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        {order.receipts.length > 0 && (
+          <Card>
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+              <h2 className="font-semibold text-zinc-900 dark:text-white">Receipts</h2>
+            </div>
+            <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+              {order.receipts.map((receipt) => (
+                <div key={receipt.id} className="p-4 text-sm">
+                  <p className="font-medium text-zinc-900 dark:text-white">
+                    {new Date(receipt.created_at).toLocaleString('en-AU')}
+                  </p>
+                  <ul className="mt-1 text-zinc-600 dark:text-zinc-400">
+                    {receipt.lines.map((entry) => {
+                      const line = order.lines.find((candidate) => candidate.id === entry.line_id);
+                      return (
+                        <li key={entry.line_id}>
+                          {entry.quantity} × {line ? `${line.brand} ${line.model}` : 'removed line'}
+                          {entry.serials.length > 0 && (
+                            <span className="font-mono text-xs text-zinc-500"> ({entry.serials.join(', ')})</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {receipt.notes && <p className="mt-1 text-zinc-500">{receipt.notes}</p>}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      {/* Hidden Print Content */}
+      <div className="hidden">
+        <PurchaseOrderDocument ref={printRef} purchaseOrder={order} />
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
@@ -0,0 +1,343 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { CameraCapture } from '@/components/lister/CameraCapture';
+import { PurchaseOrderStatusBadge } from '@/components/purchase-orders';
+import { notify } from '@/lib/store/app-store';
+import type { DecodedBarcode } from '@/lib/utils/barcode';
+import type { InventoryLocation, PurchaseOrderLine, PurchaseOrderWithDetails } from '@/types';
+
+interface LineReceipt {
+  quantity: number;
+  /** One slot per unit being received; blank slots are skipped */
+  serials: string[];
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const textareaClass =
+  'w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 resize-none';
+
+const cellInputClass =
+  'w-full px-2 py-1.5 rounded border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const outstandingOf = (line: PurchaseOrderLine) => line.quantity - line.quantity_received;
+
+const resizeSerials = (serials: string[], quantity: number) =>
+  Array.from({ length: quantity }, (_, index) => serials[index] || '');
+
+/**
+ * Receive Purchase Order Page
+ *
+ * Count in a delivery against a PO: units per line, serials typed or
+ * scanned with the camera (barcode, else vision AI), and the location the
+ * stock goes to. Short deliveries leave the PO partially received.
+ */
+export default function ReceivePurchaseOrderPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const [order, setOrder] = useState<PurchaseOrderWithDetails | null>(null);
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [locationId, setLocationId] = useState('');
+  const [receipts, setReceipts] = useState<Record<string, LineReceipt>>({});
+  const [notes, setNotes] = useState('');
+  const [scanLineId, setScanLineId] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchOrder = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load purchase order', data.error || 'Please try again');
+        return;
+      }
+      const loaded = data.purchaseOrder as PurchaseOrderWithDetails;
+      setOrder(loaded);
+      setLocationId(loaded.location_id || '');
+      setReceipts(Object.fromEntries(
+        loaded.lines
+          .filter((line) => outstandingOf(line) > 0)
+          .map((line) => [line.id, { quantity: 0, serials: [] }])
+      ));
+    } catch (error) {
+      console.error('Failed to fetch purchase order:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOrder();
+    fetch('/api/inventory/locations')
+      .then((response) => response.json())
+      .then((data) => setLocations((data.locations || []).filter((location: InventoryLocation) => location.is_active)))
+      .catch((error) => console.error('Failed to fetch locations:', error));
+  }, [fetchOrder]);
+
+  const setQuantity = (line: PurchaseOrderLine, value: number) => {
+    const quantity = Math.max(0, Math.min(outstandingOf(line), Math.floor(value) || 0));
+    setReceipts((prev) => ({
+      ...prev,
+      [line.id]: { quantity, serials: resizeSerials(prev[line.id]?.serials || [], quantity) },
+    }));
+  };
+
+  const setSerial = (lineId: string, index: number, serial: string) => {
+    setReceipts((prev) => {
+      const serials = [...prev[lineId].serials];
+      serials[index] = serial;
+      return { ...prev, [lineId]: { ...prev[lineId], serials } };
+    });
+  };
+
+  const handleReceiveAll = () => {
+    if (!order) return;
+    setReceipts((prev) => Object.fromEntries(
+      order.lines
+        .filter((line) => outstandingOf(line) > 0)
+        .map((line) => [
+          line.id,
+          { quantity: outstandingOf(line), serials: resizeSerials(prev[line.id]?.serials || [], outstandingOf(line)) },
+        ])
+    ));
+  };
+
+  // Put a scanned serial into the line's next blank slot, adding a unit if needed
+  const fillSerial = (line: PurchaseOrderLine, serial: string) => {
+    const current = receipts[line.id];
+    if (current.serials.some((existing) => existing.trim().toUpperCase() === serial.toUpperCase())) {
+      notify.error('Already captured', serial);
+      return;
+    }
+    const serials = current.quantity < outstandingOf(line)
+      ? resizeSerials(current.serials, current.quantity + 1)
+      : [...current.serials];
+    const slot = serials.findIndex((existing) => !existing.trim());
+    if (slot === -1) {
+      notify.error('All units have serials', `Only ${outstandingOf(line)} outstanding on this line`);
+      return;
+    }
+    serials[slot] = serial;
+    setReceipts((prev) => ({ ...prev, [line.id]: { quantity: serials.length, serials } }));
+    notify.success('Serial captured', serial);
+  };
+
+  // Serial from the label's barcode, else read off the photo by vision AI
+  const handleScan = async (imageData: string, _allImages?: string[], barcode?: DecodedBarcode | null) => {
+    if (!scanLineId || !order) return;
+    const line = order.lines.find((candidate) => candidate.id === scanLineId);
+    if (!line) return;
+
+    if (barcode) {
+      fillSerial(line, barcode.value);
+      setScanLineId(null);
+      return;
+    }
+
+    setIsScanning(true);
+    try {
+      const response = await fetch('/api/vision/identify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image: imageData }),
+      });
+      const result = await response.json();
+
+      if (!result.success || !result.serial_number) {
+        notify.error('No serial found', 'Try a closer photo of the serial label, or type it in');
+        return;
+      }
+      fillSerial(line, String(result.serial_number).trim());
+    } catch {
+      notify.error('Scan failed', 'Please try again');
+    } finally {
+      setIsScanning(false);
+      setScanLineId(null);
+    }
+  };
+
+  const receiveLines = Object.entries(receipts)
+    .filter(([, receipt]) => receipt.quantity > 0)
+    .map(([lineId, receipt]) => ({
+      line_id: lineId,
+      quantity: receipt.quantity,
+      serials: receipt.serials.map((serial) => serial.trim()).filter(Boolean),
+    }));
+  const unitsReceiving = receiveLines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          location_id: locationId || null,
+          notes: notes.trim() || null,
+          lines: receiveLines,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Receive failed', data.error || 'Please try again');
+        return;
+      }
+
+      notify.success(
+        data.status === 'received' ? 'Purchase order received' : 'Partial receipt saved',
+        data.outstanding > 0 ? `${data.outstanding} unit(s) still to come` : order?.po_number
+      );
+      router.push(`/inventory/purchase-orders/${id}`);
+    } catch {
+      notify.error('Receive failed', 'Please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading || !order) {
+    return (
+      <Shell title="Receive Stock">
+        <div className="p-8 text-center text-zinc-500">{isLoading ? 'Loading...' : 'Purchase order not found'}</div>
+      </Shell>
+    );
+  }
+
+  const canReceive = order.status === 'ordered' || order.status === 'partially_received';
+  const outstandingLines = order.lines.filter((line) => outstandingOf(line) > 0);
+
+  return (
+    <Shell
+      title={`Receive ${order.po_number}`}
+      subtitle={order.supplier?.name}
+      headerActions={
+        <Link href={`/inventory/purchase-orders/${id}`}>
+          <Button variant="ghost" size="sm">Back to Order</Button>
+        </Link>
+      }
+    >
+      {!canReceive ? (
+        <Card className="p-8 text-center space-y-3">
+          <PurchaseOrderStatusBadge status={order.status} />
+          <p className="text-zinc-500">This purchase order can&apos;t be received.</p>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          <Card className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Receive Into</label>
+                <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className={selectClass}>
+                  <option value="">Choose a location...</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end justify-end">
+                <Button variant="secondary" onClick={handleReceiveAll}>
+                  Receive Everything Outstanding
+                </Button>
+              </div>
+            </div>
+          </Card>
+
+          {outstandingLines.map((line) => {
+            const receipt = receipts[line.id] || { quantity: 0, serials: [] };
+            return (
+              <Card key={line.id} className="p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium text-zinc-900 dark:text-white">{line.brand} {line.model}</p>
+                    <p className="text-sm text-zinc-500">
+                      {line.sku && <span className="font-mono mr-2">{line.sku}</span>}
+                      {outstandingOf(line)} of {line.quantity} outstanding
+                      {!line.inventory_item_id && ' · new product, created on receipt'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-sm text-zinc-600 dark:text-zinc-400">Receiving</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={outstandingOf(line)}
+                      value={receipt.quantity}
+                      onChange={(e) => setQuantity(line, Number(e.target.value))}
+                      className={`${cellInputClass} w-20`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setScanLineId(scanLineId === line.id ? null : line.id)}
+                    >
+                      {scanLineId === line.id ? 'Close Camera' : 'Scan Serial'}
+                    </Button>
+                  </div>
+                </div>
+
+                {scanLineId === line.id && (
+                  <div className="rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+                    <CameraCapture
+                      onCapture={handleScan}
+                      onCancel={() => setScanLineId(null)}
+                      isProcessing={isScanning}
+                      scanBarcodes
+                    />
+                  </div>
+                )}
+
+                {receipt.quantity > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+                    {receipt.serials.map((serial, index) => (
+                      <input
+                        key={index}
+                        value={serial}
+                        onChange={(e) => setSerial(line.id, index, e.target.value)}
+                        placeholder={`Serial ${index + 1} (optional)`}
+                        className={`${cellInputClass} font-mono`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+
+          <Card className="p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Receipt Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={textareaClass}
+                placeholder="Delivery docket number, damaged cartons, back-ordered items..."
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-zinc-500">
+                {unitsReceiving} unit{unitsReceiving === 1 ? '' : 's'} in this receipt
+              </p>
+              <Button
+                onClick={handleSubmit}
+                isLoading={isSubmitting}
+                disabled={unitsReceiving === 0 || !locationId}
+              >
+                Receive Stock
+              </Button>
+            </div>
+          </Card>
+        </div>
+      )}
+    </Shell>
+  );
+}
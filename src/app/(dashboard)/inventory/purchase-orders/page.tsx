@@ -0,0 +1,189 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { FilterTabs } from '@/components/ui/FilterTabs';
+import { PurchaseOrderStatusBadge } from '@/components/purchase-orders';
+import { notify } from '@/lib/store/app-store';
+import {
+  PURCHASE_ORDER_STATUSES,
+  type PurchaseOrderStatus,
+  type PurchaseOrderSummary,
+  type Supplier,
+} from '@/types';
+
+type StatusFilter = 'open' | 'all' | PurchaseOrderStatus;
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received'];
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Purchase Orders Page
+ *
+ * Supplier orders for new-retail stock, from draft through receiving.
+ */
+export default function PurchaseOrdersPage() {
+  const router = useRouter();
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrderSummary[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [supplierId, setSupplierId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchPurchaseOrders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/purchase-orders');
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load purchase orders', data.error || 'Please try again');
+        return;
+      }
+      setPurchaseOrders(data.purchaseOrders || []);
+    } catch (error) {
+      console.error('Failed to fetch purchase orders:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPurchaseOrders();
+    fetch('/api/suppliers')
+      .then((response) => response.json())
+      .then((data) => setSuppliers(data.suppliers || []))
+      .catch((error) => console.error('Failed to fetch suppliers:', error));
+  }, [fetchPurchaseOrders]);
+
+  const handleCreate = async () => {
+    if (!supplierId) return;
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ supplier_id: supplierId, lines: [] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Create failed', data.error || 'Please try again');
+        return;
+      }
+      router.push(`/inventory/purchase-orders/${data.purchaseOrder.id}`);
+    } catch {
+      notify.error('Create failed', 'Please try again');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const visible = purchaseOrders.filter((order) => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return OPEN_STATUSES.includes(order.status);
+    return order.status === statusFilter;
+  });
+
+  const filterOptions: { value: StatusFilter; label: string; count: number }[] = [
+    {
+      value: 'open',
+      label: 'Open',
+      count: purchaseOrders.filter((order) => OPEN_STATUSES.includes(order.status)).length,
+    },
+    ...(Object.keys(PURCHASE_ORDER_STATUSES) as PurchaseOrderStatus[]).map((status) => ({
+      value: status,
+      label: PURCHASE_ORDER_STATUSES[status].label,
+      count: purchaseOrders.filter((order) => order.status === status).length,
+    })),
+    { value: 'all', label: 'All', count: purchaseOrders.length },
+  ];
+
+  return (
+    <Shell
+      title="Purchase Orders"
+      subtitle="Reorder stock from suppliers and receive deliveries"
+      headerActions={
+        <Link href="/inventory/suppliers">
+          <Button variant="secondary" size="sm">Suppliers</Button>
+        </Link>
+      }
+    >
+      <div className="space-y-6">
+        <Card className="p-4">
+          <div className="flex flex-col md:flex-row md:items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">
+                New purchase order for
+              </label>
+              <select value={supplierId} onChange={(e) => setSupplierId(e.target.value)} className={selectClass}>
+                <option value="">Choose a supplier...</option>
+                {suppliers.map((supplier) => (
+                  <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={handleCreate} isLoading={isCreating} disabled={!supplierId}>
+              Create Draft
+            </Button>
+          </div>
+        </Card>
+
+        <FilterTabs<StatusFilter> options={filterOptions} value={statusFilter} onChange={setStatusFilter} />
+
+        <Card>
+          {isLoading ? (
+            <div className="p-8 text-center text-zinc-500">Loading...</div>
+          ) : visible.length === 0 ? (
+            <div className="p-8 text-center text-zinc-500">No purchase orders</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                    <th className="p-3 font-medium">PO</th>
+                    <th className="p-3 font-medium">Supplier</th>
+                    <th className="p-3 font-medium">Status</th>
+                    <th className="p-3 font-medium text-right">Received</th>
+                    <th className="p-3 font-medium text-right">Total (inc GST)</th>
+                    <th className="p-3 font-medium">Expected</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                  {visible.map((order) => (
+                    <tr
+                      key={order.id}
+                      onClick={() => router.push(`/inventory/purchase-orders/${order.id}`)}
+                      className="cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+                    >
+                      <td className="p-3 font-mono text-zinc-900 dark:text-white">{order.po_number}</td>
+                      <td className="p-3 text-zinc-700 dark:text-zinc-300">{order.supplier?.name || '—'}</td>
+                      <td className="p-3">
+                        <PurchaseOrderStatusBadge status={order.status} />
+                      </td>
+                      <td className="p-3 text-right text-zinc-700 dark:text-zinc-300">
+                        {order.totals.unitsReceived} / {order.totals.units}
+                      </td>
+                      <td className="p-3 text-right text-zinc-900 dark:text-white">
+                        {formatCurrency(order.totals.totalIncGst)}
+                      </td>
+                      <td className="p-3 text-zinc-500">
+                        {order.expected_at ? new Date(order.expected_at).toLocaleDateString('en-AU') : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </Shell>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import { PRICE_POSITION_BANDS, type RepricingSuggestion } from '@/types';
+
+// Bulk operations accept at most 50 items per request
+const BULK_BATCH_SIZE = 50;
+
+const BAND_STYLES: Record<string, string> = {
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  green: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+export default function RepricingPage() {
+  const [suggestions, setSuggestions] = useState<RepricingSuggestion[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inventory/repricing-suggestions');
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load suggestions', data.error || 'Please try again');
+        return;
+      }
+      setSuggestions(data.suggestions || []);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('Failed to load repricing suggestions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(itemId)) next.delete(itemId);
+      else next.add(itemId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      selectedIds.size === suggestions.length
+        ? new Set()
+        : new Set(suggestions.map((suggestion) => suggestion.itemId))
+    );
+  };
+
+  const handleApply = async () => {
+    const selected = suggestions.filter((suggestion) => selectedIds.has(suggestion.itemId));
+    if (selected.length === 0) return;
+
+    setIsApplying(true);
+    let updated = 0;
+    try {
+      for (let i = 0; i < selected.length; i += BULK_BATCH_SIZE) {
+        const batch = selected.slice(i, i + BULK_BATCH_SIZE);
+        const response = await fetch('/api/inventory/bulk', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action: 'set_prices',
+            itemIds: batch.map((suggestion) => suggestion.itemId),
+            prices: Object.fromEntries(batch.map((suggestion) => [suggestion.itemId, suggestion.suggestedPrice])),
+          }),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          notify.error('Repricing failed', result.error || 'Please try again');
+          break;
+        }
+        updated += result.updated;
+      }
+
+      if (updated > 0) {
+        notify.success('Prices updated', `Updated ${updated} of ${selected.length} items`);
+      }
+      await fetchSuggestions();
+    } catch (error) {
+      console.error('Repricing failed:', error);
+      notify.error('Repricing failed', 'Please try again');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Shell
+      title="Repricing"
+      subtitle="Suggested prices from the competitor matrix"
+      headerActions={
+        <div className="flex items-center gap-3">
+          <Link href="/inventory">
+            <Button variant="secondary" size="sm">Back to Inventory</Button>
+          </Link>
+          <Link href="/inventory/repricing/rules">
+            <Button variant="secondary" size="sm">Rules</Button>
+          </Link>
+          <Button size="sm" onClick={handleApply} isLoading={isApplying} disabled={selectedIds.size === 0}>
+            Apply Selected ({selectedIds.size})
+          </Button>
+        </div>
+      }
+    >
+      <Card>
+        {isLoading ? (
+          <div className="p-4 animate-pulse space-y-3">
+            <div className="h-4 w-48 bg-zinc-200 dark:bg-zinc-700 rounded" />
+            <div className="h-8 w-full bg-zinc-200 dark:bg-zinc-700 rounded" />
+            <div className="h-8 w-full bg-zinc-200 dark:bg-zinc-700 rounded" />
+          </div>
+        ) : suggestions.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-sm text-zinc-500">
+              No repricing suggestions. Every price-watched item is within the market range.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                  <th className="px-4 py-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.size === suggestions.length}
+                      onChange={toggleAll}
+                      aria-label="Select all suggestions"
+                    />
+                  </th>
+                  <th className="px-4 py-3 font-medium">Item</th>
+                  <th className="px-4 py-3 font-medium">Position</th>
+                  <th className="px-4 py-3 font-medium text-right">Market</th>
+                  <th className="px-4 py-3 font-medium text-right">Current</th>
+                  <th className="px-4 py-3 font-medium text-right">Suggested</th>
+                  <th className="px-4 py-3 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                {suggestions.map((suggestion) => {
+                  const band = PRICE_POSITION_BANDS[suggestion.position.band];
+                  const change = suggestion.suggestedPrice - suggestion.currentPrice;
+                  return (
+                    <tr key={suggestion.itemId}>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(suggestion.itemId)}
+                          onChange={() => toggleSelected(suggestion.itemId)}
+                          aria-label={`Select ${suggestion.brand} ${suggestion.model}`}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <Link href={`/inventory/${suggestion.itemId}`} className="font-medium text-zinc-900 dark:text-white hover:underline">
+                          {suggestion.brand} {suggestion.model}
+                        </Link>
+                        {suggestion.sku && <p className="text-xs text-zinc-500">{suggestion.sku}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded ${BAND_STYLES[band.color]}`}>
+                          {band.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-xs text-zinc-500 whitespace-nowrap">
+                        {formatCurrency(suggestion.position.min)} – {formatCurrency(suggestion.position.max)}
+                        <span className="block">median {formatCurrency(suggestion.position.median)}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right text-zinc-700 dark:text-zinc-300">
+                        {formatCurrency(suggestion.currentPrice)}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <span className="font-medium text-zinc-900 dark:text-white">
+                          {formatCurrency(suggestion.suggestedPrice)}
+                        </span>
+                        <span className={`block text-xs ${change < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                          {change < 0 ? '−' : '+'}{formatCurrency(Math.abs(change))}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-xs text-zinc-500">{suggestion.reason}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </Shell>
+  );
+}
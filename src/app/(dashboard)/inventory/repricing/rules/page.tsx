@@ -0,0 +1,556 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { notify } from '@/lib/store/app-store';
+import {
+  LISTING_TYPES,
+  REPRICING_RULE_ACTIONS,
+  REPRICING_SKIP_REASONS,
+  type ListingType,
+  type RepricingProposalWithDetails,
+  type RepricingRule,
+  type RepricingRuleAction,
+  type RepricingRulePreview,
+  type RepricingSkipReason,
+} from '@/types';
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  is_active: boolean;
+  listingType: ListingType | '';
+  minAgeDays: string;
+  action: RepricingRuleAction;
+  discountPercent: string;
+  cooldownDays: string;
+}
+
+const emptyDraft: RuleDraft = {
+  id: null,
+  name: '',
+  is_active: true,
+  listingType: '',
+  minAgeDays: '90',
+  action: 'percent_discount',
+  discountPercent: '5',
+  cooldownDays: '14',
+};
+
+function draftFromRule(rule: RepricingRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    is_active: rule.is_active,
+    listingType: rule.listing_type || '',
+    minAgeDays: String(rule.min_age_days),
+    action: rule.action,
+    discountPercent: rule.discount_percent !== null ? String(rule.discount_percent) : '5',
+    cooldownDays: String(rule.cooldown_days),
+  };
+}
+
+function toRulePayload(draft: RuleDraft) {
+  return {
+    name: draft.name.trim(),
+    is_active: draft.is_active,
+    listing_type: draft.listingType || null,
+    min_age_days: Number(draft.minAgeDays) || 0,
+    action: draft.action,
+    discount_percent: draft.action === 'percent_discount' ? Number(draft.discountPercent) : null,
+    cooldown_days: Number(draft.cooldownDays) || 0,
+  };
+}
+
+function describeRule(rule: RepricingRule): string {
+  const scope = rule.listing_type ? LISTING_TYPES[rule.listing_type].label : 'All stock';
+  const action = rule.action === 'percent_discount'
+    ? `drop ${rule.discount_percent}%`
+    : 'match competitor median';
+  return `${scope} over ${rule.min_age_days} days → ${action}`;
+}
+
+const formatCurrency = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+/**
+ * Repricing Rules Page
+ *
+ * Rules that propose automatic discounts, a dry-run preview per rule, and
+ * the approval queue the proposals wait in.
+ */
+export default function RepricingRulesPage() {
+  const [rules, setRules] = useState<RepricingRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(emptyDraft);
+  const [preview, setPreview] = useState<RepricingRulePreview | null>(null);
+  const [proposals, setProposals] = useState<RepricingProposalWithDetails[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [isDeciding, setIsDeciding] = useState(false);
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/repricing/rules');
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (error) {
+      console.error('Failed to fetch repricing rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      const response = await fetch('/api/repricing/proposals?status=pending');
+      const data = await response.json();
+      setProposals(data.proposals || []);
+      setSelectedIds(new Set());
+    } catch (error) {
+      console.error('Failed to fetch repricing proposals:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    fetchProposals();
+  }, [fetchRules, fetchProposals]);
+
+  const selectRule = (rule: RepricingRule | null) => {
+    setDraft(rule ? draftFromRule(rule) : emptyDraft);
+    setPreview(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(draft.id ? `/api/repricing/rules/${draft.id}` : '/api/repricing/rules', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRulePayload(draft)),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      const saved = data.rule as RepricingRule;
+      setRules((prev) => (prev.some((rule) => rule.id === saved.id)
+        ? prev.map((rule) => (rule.id === saved.id ? saved : rule))
+        : [...prev, saved]));
+      setDraft(draftFromRule(saved));
+      setPreview(null);
+      notify.success('Rule saved', saved.name);
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    const confirmed = await confirm({
+      title: 'Delete Rule',
+      message: `Delete "${draft.name}"? Its pending proposals are removed from the approval queue.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/repricing/rules/${draft.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        notify.error('Delete failed', data.error || 'Please try again');
+        return;
+      }
+      setRules((prev) => prev.filter((rule) => rule.id !== draft.id));
+      selectRule(null);
+      await fetchProposals();
+      notify.success('Rule deleted');
+    } catch {
+      notify.error('Delete failed', 'Please try again');
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!draft.id) return;
+    setIsPreviewing(true);
+    try {
+      const response = await fetch(`/api/repricing/rules/${draft.id}/preview`);
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Preview failed', data.error || 'Please try again');
+        return;
+      }
+      setPreview(data.preview);
+    } catch {
+      notify.error('Preview failed', 'Please try again');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleQueue = async () => {
+    if (!draft.id) return;
+    setIsQueuing(true);
+    try {
+      const response = await fetch(`/api/repricing/rules/${draft.id}/queue`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Queue failed', data.error || 'Please try again');
+        return;
+      }
+      setPreview(data);
+      notify.success('Queued for approval', `${data.queued} price change${data.queued === 1 ? '' : 's'} queued`);
+      await fetchProposals();
+    } catch {
+      notify.error('Queue failed', 'Please try again');
+    } finally {
+      setIsQueuing(false);
+    }
+  };
+
+  const handleDecision = async (action: 'approve' | 'reject') => {
+    if (selectedIds.size === 0) return;
+    setIsDeciding(true);
+    try {
+      const response = await fetch('/api/repricing/proposals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ids: [...selectedIds] }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error(action === 'approve' ? 'Approve failed' : 'Reject failed', data.error || 'Please try again');
+        return;
+      }
+
+      if (action === 'approve') {
+        notify.success('Prices updated', `${data.applied.length} price change${data.applied.length === 1 ? '' : 's'} applied`);
+      } else {
+        notify.success('Proposals rejected', `${data.rejected.length} rejected`);
+      }
+      if (data.failed.length > 0) {
+        notify.warning(`${data.failed.length} with problems`, data.failed[0].error);
+      }
+      await fetchProposals();
+    } catch {
+      notify.error('Update failed', 'Please try again');
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Shell
+      title="Repricing Rules"
+      subtitle="Automatic discounts, queued for approval"
+      headerActions={
+        <Link href="/inventory/repricing">
+          <Button variant="secondary" size="sm">Competitor Suggestions</Button>
+        </Link>
+      }
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Rule list */}
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Rules</h2>
+            <Button size="sm" variant="secondary" onClick={() => selectRule(null)}>
+              New Rule
+            </Button>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {isLoading ? (
+              <div className="p-8 text-center text-zinc-500">Loading...</div>
+            ) : rules.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500">No rules yet</div>
+            ) : (
+              rules.map((rule) => (
+                <button
+                  key={rule.id}
+                  onClick={() => selectRule(rule)}
+                  className={`w-full text-left p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${
+                    draft.id === rule.id ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                  }`}
+                >
+                  <p className="font-medium text-zinc-900 dark:text-white">{rule.name}</p>
+                  <p className="text-sm text-zinc-500">
+                    {describeRule(rule)}
+                    {!rule.is_active && ' · paused'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </Card>
+
+        {/* Editor and preview */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+              <h2 className="font-semibold text-zinc-900 dark:text-white">
+                {draft.id ? `Edit ${draft.name}` : 'New Rule'}
+              </h2>
+              <div className="flex gap-2">
+                {draft.id && (
+                  <Button size="sm" variant="ghost" onClick={handleDelete}>
+                    Delete
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!draft.name.trim()}>
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+            <div className="p-4 space-y-4">
+              <Input
+                label="Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Aged ex-demo markdown"
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Stock</label>
+                  <select
+                    value={draft.listingType}
+                    onChange={(e) => setDraft({ ...draft, listingType: e.target.value as ListingType | '' })}
+                    className={selectClass}
+                  >
+                    <option value="">All listing types</option>
+                    {(Object.keys(LISTING_TYPES) as ListingType[]).map((type) => (
+                      <option key={type} value={type}>{LISTING_TYPES[type].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="Days in Stock (at least)"
+                  type="number"
+                  min={0}
+                  value={draft.minAgeDays}
+                  onChange={(e) => setDraft({ ...draft, minAgeDays: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Action</label>
+                  <select
+                    value={draft.action}
+                    onChange={(e) => setDraft({ ...draft, action: e.target.value as RepricingRuleAction })}
+                    className={selectClass}
+                  >
+                    {(Object.keys(REPRICING_RULE_ACTIONS) as RepricingRuleAction[]).map((action) => (
+                      <option key={action} value={action}>{REPRICING_RULE_ACTIONS[action].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="Discount %"
+                  type="number"
+                  min={0.5}
+                  max={99}
+                  step={0.5}
+                  value={draft.discountPercent}
+                  onChange={(e) => setDraft({ ...draft, discountPercent: e.target.value })}
+                  disabled={draft.action !== 'percent_discount'}
+                />
+                <Input
+                  label="Cooldown (days)"
+                  type="number"
+                  min={0}
+                  value={draft.cooldownDays}
+                  onChange={(e) => setDraft({ ...draft, cooldownDays: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-zinc-500">
+                {REPRICING_RULE_ACTIONS[draft.action].description}. Ex-demo stock counts days from the demo
+                start. Items without a cost price are never repriced.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={draft.is_active}
+                  onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                  className="rounded border-zinc-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                Run on the daily schedule
+              </label>
+            </div>
+          </Card>
+
+          {draft.id && (
+            <Card>
+              <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+                <div>
+                  <h2 className="font-semibold text-zinc-900 dark:text-white">Dry Run</h2>
+                  <p className="text-sm text-zinc-500">What the rule would propose now; nothing changes</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="secondary" onClick={handlePreview} isLoading={isPreviewing}>
+                    Preview
+                  </Button>
+                  <Button size="sm" onClick={handleQueue} isLoading={isQueuing}>
+                    Queue for Approval
+                  </Button>
+                </div>
+              </div>
+              {preview && (
+                <>
+                  <div className="px-4 py-3 text-sm text-zinc-500 border-b border-zinc-100 dark:border-zinc-800">
+                    {preview.evaluated} item{preview.evaluated === 1 ? '' : 's'} old enough ·{' '}
+                    {preview.candidates.length} price change{preview.candidates.length === 1 ? '' : 's'}
+                    {(Object.entries(preview.skipped) as Array<[RepricingSkipReason, number]>).map(([reason, count]) => (
+                      <span key={reason}> · {count} skipped: {REPRICING_SKIP_REASONS[reason].toLowerCase()}</span>
+                    ))}
+                  </div>
+                  <div className="divide-y divide-zinc-100 dark:divide-zinc-800 max-h-96 overflow-y-auto">
+                    {preview.candidates.map((candidate) => (
+                      <div key={candidate.itemId} className="px-4 py-3 flex items-start justify-between gap-4 text-sm">
+                        <div className="min-w-0">
+                          <Link href={`/inventory/${candidate.itemId}`} className="font-medium text-zinc-900 dark:text-white hover:underline">
+                            {candidate.brand} {candidate.model}
+                          </Link>
+                          <p className="text-xs text-zinc-500">{candidate.reason}</p>
+                        </div>
+                        <div className="text-right whitespace-nowrap">
+                          <span className="text-zinc-500 line-through mr-2">{formatCurrency(candidate.currentPrice)}</span>
+                          <span className="font-medium text-zinc-900 dark:text-white">{formatCurrency(candidate.proposedPrice)}</span>
+                          <p className="text-xs text-zinc-500">floor {formatCurrency(candidate.marginFloor)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Approval queue */}
+      <Card className="mt-6">
+        <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Approval Queue</h2>
+            <p className="text-sm text-zinc-500">
+              {proposals.length} pending · approved changes are logged as automatic discounts
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => handleDecision('reject')}
+              disabled={selectedIds.size === 0 || isDeciding}
+            >
+              Reject ({selectedIds.size})
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleDecision('approve')}
+              isLoading={isDeciding}
+              disabled={selectedIds.size === 0}
+            >
+              Approve ({selectedIds.size})
+            </Button>
+          </div>
+        </div>
+        {proposals.length === 0 ? (
+          <div className="p-8 text-center text-zinc-500">Nothing waiting for approval</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                  <th className="px-4 py-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.size === proposals.length}
+                      onChange={() => setSelectedIds(
+                        selectedIds.size === proposals.length
+                          ? new Set()
+                          : new Set(proposals.map((proposal) => proposal.id))
+                      )}
+                      aria-label="Select all proposals"
+                    />
+                  </th>
+                  <th className="px-4 py-3 font-medium">Item</th>
+                  <th className="px-4 py-3 font-medium">Rule</th>
+                  <th className="px-4 py-3 font-medium text-right">Current</th>
+                  <th className="px-4 py-3 font-medium text-right">Proposed</th>
+                  <th className="px-4 py-3 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                {proposals.map((proposal) => (
+                  <tr key={proposal.id}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(proposal.id)}
+                        onChange={() => toggleSelected(proposal.id)}
+                        aria-label={`Select proposal for ${proposal.item?.brand} ${proposal.item?.model}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      {proposal.item ? (
+                        <Link href={`/inventory/${proposal.item.id}`} className="font-medium text-zinc-900 dark:text-white hover:underline">
+                          {proposal.item.brand} {proposal.item.model}
+                        </Link>
+                      ) : '—'}
+                      {proposal.item?.sku && <p className="text-xs text-zinc-500">{proposal.item.sku}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-700 dark:text-zinc-300">{proposal.rule?.name || '—'}</td>
+                    <td className="px-4 py-3 text-right text-zinc-700 dark:text-zinc-300">
+                      {formatCurrency(proposal.current_price)}
+                      {proposal.item && proposal.item.sale_price !== proposal.current_price && (
+                        <span className="block text-xs text-amber-600">now {formatCurrency(proposal.item.sale_price)}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium text-zinc-900 dark:text-white">
+                      {formatCurrency(proposal.proposed_price)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-zinc-500">{proposal.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
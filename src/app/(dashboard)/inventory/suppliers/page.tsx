@@ -0,0 +1,389 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { notify } from '@/lib/store/app-store';
+import { PRICELIST_FIELDS, type PricelistField } from '@/lib/pricelist/fields';
+import { SUPPLIER_PRICE_BASIS, type Supplier, type SupplierPriceBasis } from '@/types';
+
+interface SupplierDraft {
+  id: string | null;
+  name: string;
+  brands: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  accountNumber: string;
+  defaultDiscountPercent: string;
+  targetMarginPercent: string;
+  priceBasis: SupplierPriceBasis;
+  columnMapping: Record<string, string> | null;
+  promptHints: string;
+  notes: string;
+  is_active: boolean;
+}
+
+const emptyDraft: SupplierDraft = {
+  id: null,
+  name: '',
+  brands: '',
+  contactName: '',
+  contactEmail: '',
+  contactPhone: '',
+  accountNumber: '',
+  defaultDiscountPercent: '',
+  targetMarginPercent: '',
+  priceBasis: 'ex_gst',
+  columnMapping: null,
+  promptHints: '',
+  notes: '',
+  is_active: true,
+};
+
+function draftFromSupplier(supplier: Supplier): SupplierDraft {
+  return {
+    id: supplier.id,
+    name: supplier.name,
+    brands: supplier.brands.join(', '),
+    contactName: supplier.contact_name || '',
+    contactEmail: supplier.contact_email || '',
+    contactPhone: supplier.contact_phone || '',
+    accountNumber: supplier.account_number || '',
+    defaultDiscountPercent: supplier.default_discount_percent !== null ? String(supplier.default_discount_percent) : '',
+    targetMarginPercent: supplier.target_margin_percent !== null ? String(supplier.target_margin_percent) : '',
+    priceBasis: supplier.price_basis,
+    columnMapping: supplier.column_mapping,
+    promptHints: supplier.prompt_hints || '',
+    notes: supplier.notes || '',
+    is_active: supplier.is_active,
+  };
+}
+
+const orNull = (value: string) => value.trim() || null;
+const percentOrNull = (value: string) => (value.trim() ? Number(value) : null);
+
+function toSupplierPayload(draft: SupplierDraft) {
+  return {
+    name: draft.name.trim(),
+    brands: draft.brands.split(',').map((brand) => brand.trim()).filter(Boolean),
+    contact_name: orNull(draft.contactName),
+    contact_email: orNull(draft.contactEmail),
+    contact_phone: orNull(draft.contactPhone),
+    account_number: orNull(draft.accountNumber),
+    default_discount_percent: percentOrNull(draft.defaultDiscountPercent),
+    target_margin_percent: percentOrNull(draft.targetMarginPercent),
+    price_basis: draft.priceBasis,
+    column_mapping: draft.columnMapping,
+    prompt_hints: orNull(draft.promptHints),
+    notes: orNull(draft.notes),
+    is_active: draft.is_active,
+  };
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const textareaClass =
+  'w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 resize-none';
+
+/**
+ * Suppliers Page
+ *
+ * Supplier master records: contact details, brands carried, pricing
+ * defaults and the pricelist parsing profile.
+ */
+export default function SuppliersPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [draft, setDraft] = useState<SupplierDraft>(emptyDraft);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/suppliers?includeInactive=true');
+      const data = await response.json();
+      setSuppliers(data.suppliers || []);
+    } catch (error) {
+      console.error('Failed to fetch suppliers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(draft.id ? `/api/suppliers/${draft.id}` : '/api/suppliers', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toSupplierPayload(draft)),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      const saved = data.supplier as Supplier;
+      setSuppliers((prev) => (prev.some((supplier) => supplier.id === saved.id)
+        ? prev.map((supplier) => (supplier.id === saved.id ? saved : supplier))
+        : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))));
+      setDraft(draftFromSupplier(saved));
+      notify.success('Supplier saved', saved.name);
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    const confirmed = await confirm({
+      title: 'Delete Supplier',
+      message: `Delete "${draft.name}"? Its inventory items keep their prices but are no longer linked to a supplier. Untick Active instead to keep the history.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/suppliers/${draft.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        notify.error('Delete failed', data.error || 'Please try again');
+        return;
+      }
+      setSuppliers((prev) => prev.filter((supplier) => supplier.id !== draft.id));
+      setDraft(emptyDraft);
+      notify.success('Supplier deleted');
+    } catch {
+      notify.error('Delete failed', 'Please try again');
+    }
+  };
+
+  const mappedFields = (Object.keys(PRICELIST_FIELDS) as PricelistField[])
+    .filter((field) => draft.columnMapping?.[field]);
+
+  return (
+    <Shell
+      title="Suppliers"
+      subtitle="Contacts, pricing defaults and pricelist parsing profiles"
+      headerActions={
+        <div className="flex gap-2">
+          <Link href="/inventory/purchase-orders">
+            <Button variant="secondary" size="sm">Purchase Orders</Button>
+          </Link>
+          <Link href="/lister/pricelist">
+            <Button variant="secondary" size="sm">Import Pricelist</Button>
+          </Link>
+        </div>
+      }
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Supplier list */}
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Suppliers</h2>
+            <Button size="sm" variant="secondary" onClick={() => setDraft(emptyDraft)}>
+              New Supplier
+            </Button>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {isLoading ? (
+              <div className="p-8 text-center text-zinc-500">Loading...</div>
+            ) : suppliers.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500">No suppliers yet</div>
+            ) : (
+              suppliers.map((supplier) => (
+                <button
+                  key={supplier.id}
+                  onClick={() => setDraft(draftFromSupplier(supplier))}
+                  className={`w-full text-left p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${
+                    draft.id === supplier.id ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                  }`}
+                >
+                  <p className="font-medium text-zinc-900 dark:text-white">{supplier.name}</p>
+                  <p className="text-sm text-zinc-500">
+                    {supplier.brands.length > 0 ? supplier.brands.join(', ') : 'No brands listed'}
+                    {!supplier.is_active && ' · inactive'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </Card>
+
+        {/* Editor */}
+        <Card className="lg:col-span-2">
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">
+              {draft.id ? `Edit ${draft.name}` : 'New Supplier'}
+            </h2>
+            <div className="flex gap-2">
+              {draft.id && (
+                <Button size="sm" variant="ghost" onClick={handleDelete}>
+                  Delete
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!draft.name.trim()}>
+                Save Supplier
+              </Button>
+            </div>
+          </div>
+          <div className="p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Audio Distributors Pty Ltd"
+              />
+              <Input
+                label="Brands Carried"
+                value={draft.brands}
+                onChange={(e) => setDraft({ ...draft, brands: e.target.value })}
+                placeholder="Marantz, Denon"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Contact Name"
+                value={draft.contactName}
+                onChange={(e) => setDraft({ ...draft, contactName: e.target.value })}
+              />
+              <Input
+                label="Account Number"
+                value={draft.accountNumber}
+                onChange={(e) => setDraft({ ...draft, accountNumber: e.target.value })}
+              />
+              <Input
+                label="Email"
+                type="email"
+                value={draft.contactEmail}
+                onChange={(e) => setDraft({ ...draft, contactEmail: e.target.value })}
+              />
+              <Input
+                label="Phone"
+                value={draft.contactPhone}
+                onChange={(e) => setDraft({ ...draft, contactPhone: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                label="Dealer Discount off RRP %"
+                type="number"
+                min={0}
+                max={99}
+                step={0.5}
+                value={draft.defaultDiscountPercent}
+                onChange={(e) => setDraft({ ...draft, defaultDiscountPercent: e.target.value })}
+              />
+              <Input
+                label="Target Margin %"
+                type="number"
+                min={0}
+                max={99}
+                step={0.5}
+                value={draft.targetMarginPercent}
+                onChange={(e) => setDraft({ ...draft, targetMarginPercent: e.target.value })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Pricelist Prices</label>
+                <select
+                  value={draft.priceBasis}
+                  onChange={(e) => setDraft({ ...draft, priceBasis: e.target.value as SupplierPriceBasis })}
+                  className={selectClass}
+                >
+                  {(Object.keys(SUPPLIER_PRICE_BASIS) as SupplierPriceBasis[]).map((basis) => (
+                    <option key={basis} value={basis}>{SUPPLIER_PRICE_BASIS[basis].label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-zinc-500">
+              {SUPPLIER_PRICE_BASIS[draft.priceBasis].description}. The dealer discount gives a cost to lines that
+              only show an RRP; the target margin prices new items that have no RRP.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">
+                PDF Parsing Hints
+              </label>
+              <textarea
+                value={draft.promptHints}
+                onChange={(e) => setDraft({ ...draft, promptHints: e.target.value })}
+                rows={3}
+                className={textareaClass}
+                placeholder='e.g. "The Dealer column is cost; ignore the Promo column"'
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Spreadsheet Columns
+                </label>
+                {mappedFields.length > 0 && (
+                  <Button size="sm" variant="ghost" onClick={() => setDraft({ ...draft, columnMapping: null })}>
+                    Forget
+                  </Button>
+                )}
+              </div>
+              {mappedFields.length > 0 ? (
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  {mappedFields
+                    .map((field) => `${PRICELIST_FIELDS[field].label} ← "${draft.columnMapping?.[field]}"`)
+                    .join(' · ')}
+                </p>
+              ) : (
+                <p className="text-sm text-zinc-500">Saved the first time a spreadsheet pricelist is imported</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Notes</label>
+              <textarea
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                rows={3}
+                className={textareaClass}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draft.is_active}
+                onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                className="rounded border-zinc-300 text-emerald-600 focus:ring-emerald-500"
+              />
+              Active (offered when importing pricelists)
+            </label>
+          </div>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
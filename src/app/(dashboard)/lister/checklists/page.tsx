@@ -0,0 +1,312 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { notify } from '@/lib/store/app-store';
+import {
+  CHECKLIST_FIELD_TYPES,
+  PRODUCT_CATEGORIES,
+  type ChecklistFieldType,
+  type ConditionChecklistField,
+  type ConditionChecklistSchema,
+  type ProductCategory,
+} from '@/types';
+
+interface FieldDraft {
+  key: string;
+  label: string;
+  type: ChecklistFieldType;
+  options: string;
+  unit: string;
+  required: boolean;
+  /** Key follows the label until the field is saved */
+  isNew: boolean;
+}
+
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50);
+
+function draftFromField(field: ConditionChecklistField): FieldDraft {
+  return {
+    key: field.key,
+    label: field.label,
+    type: field.type,
+    options: (field.options || []).join(', '),
+    unit: field.unit || '',
+    required: !!field.required,
+    isNew: false,
+  };
+}
+
+function toFieldPayload(draft: FieldDraft): ConditionChecklistField {
+  return {
+    key: draft.key,
+    label: draft.label.trim(),
+    type: draft.type,
+    ...(draft.type === 'select'
+      ? { options: draft.options.split(',').map((option) => option.trim()).filter(Boolean) }
+      : {}),
+    ...(draft.type === 'number' && draft.unit.trim() ? { unit: draft.unit.trim() } : {}),
+    required: draft.required,
+  };
+}
+
+const selectClass =
+  'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+/**
+ * Condition Checklists Page
+ *
+ * The structured condition questions asked for each product category at
+ * trade-in intake and ex-demo conversion. Categories use a built-in
+ * checklist until they're customised here.
+ */
+export default function ConditionChecklistsPage() {
+  const [checklists, setChecklists] = useState<ConditionChecklistSchema[]>([]);
+  const [category, setCategory] = useState<ProductCategory>('amplifier');
+  const [fields, setFields] = useState<FieldDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+
+  const selected = checklists.find((checklist) => checklist.category === category);
+
+  const selectChecklist = useCallback((checklist: ConditionChecklistSchema) => {
+    setCategory(checklist.category);
+    setFields(checklist.fields.map(draftFromField));
+  }, []);
+
+  useEffect(() => {
+    async function fetchChecklists() {
+      try {
+        const response = await fetch('/api/condition-checklists');
+        const data = await response.json();
+        const loaded: ConditionChecklistSchema[] = data.checklists || [];
+        setChecklists(loaded);
+        if (loaded.length > 0) selectChecklist(loaded[0]);
+      } catch (error) {
+        console.error('Failed to fetch condition checklists:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchChecklists();
+  }, [selectChecklist]);
+
+  const updateField = (index: number, changes: Partial<FieldDraft>) => {
+    setFields((prev) => prev.map((field, i) => {
+      if (i !== index) return field;
+      const next = { ...field, ...changes };
+      return next.isNew && changes.label !== undefined ? { ...next, key: toFieldKey(changes.label) } : next;
+    }));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    setFields((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addField = () => {
+    setFields((prev) => [
+      ...prev,
+      { key: '', label: '', type: 'rating', options: '', unit: '', required: false, isNew: true },
+    ]);
+  };
+
+  const applySaved = (saved: ConditionChecklistSchema) => {
+    setChecklists((prev) => prev.map((checklist) => (checklist.category === saved.category ? saved : checklist)));
+    selectChecklist(saved);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/condition-checklists/${category}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fields: fields.map(toFieldPayload) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      applySaved(data.checklist);
+      notify.success('Checklist saved', PRODUCT_CATEGORIES[category].label);
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const confirmed = await confirm({
+      title: 'Reset Checklist',
+      message: `Go back to the built-in ${PRODUCT_CATEGORIES[category].label} checklist? Items already graded keep their answers.`,
+      confirmText: 'Reset',
+      cancelText: 'Cancel',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/condition-checklists/${category}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Reset failed', data.error || 'Please try again');
+        return;
+      }
+      applySaved(data.checklist);
+      notify.success('Checklist reset', PRODUCT_CATEGORIES[category].label);
+    } catch {
+      notify.error('Reset failed', 'Please try again');
+    }
+  };
+
+  const hasInvalidField = fields.some(
+    (field) => !field.label.trim() || !field.key || (field.type === 'select' && field.options.split(',').filter((o) => o.trim()).length < 2)
+  );
+
+  return (
+    <Shell title="Condition Checklists" subtitle="Condition questions per product category">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Category list */}
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Categories</h2>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {isLoading ? (
+              <div className="p-8 text-center text-zinc-500">Loading...</div>
+            ) : (
+              checklists.map((checklist) => (
+                <button
+                  key={checklist.category}
+                  onClick={() => selectChecklist(checklist)}
+                  className={`w-full text-left p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${
+                    category === checklist.category ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                  }`}
+                >
+                  <p className="font-medium text-zinc-900 dark:text-white">{PRODUCT_CATEGORIES[checklist.category].label}</p>
+                  <p className="text-sm text-zinc-500">
+                    {checklist.fields.length} question{checklist.fields.length === 1 ? '' : 's'}
+                    {checklist.customised ? ' · customised' : ' · default'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </Card>
+
+        {/* Field editor */}
+        <Card className="lg:col-span-2">
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <div>
+              <h2 className="font-semibold text-zinc-900 dark:text-white">{PRODUCT_CATEGORIES[category].label}</h2>
+              <p className="text-sm text-zinc-500">{PRODUCT_CATEGORIES[category].description}</p>
+            </div>
+            <div className="flex gap-2">
+              {selected?.customised && (
+                <Button size="sm" variant="ghost" onClick={handleReset}>
+                  Reset to Default
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={fields.length === 0 || hasInvalidField}>
+                Save Checklist
+              </Button>
+            </div>
+          </div>
+          <div className="p-4 space-y-3">
+            {fields.map((field, index) => (
+              <div key={index} className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-3 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <Input
+                    label="Question"
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                  />
+                  <div>
+                    <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Answer type</label>
+                    <select
+                      value={field.type}
+                      onChange={(e) => updateField(index, { type: e.target.value as ChecklistFieldType })}
+                      className={selectClass}
+                    >
+                      {(Object.keys(CHECKLIST_FIELD_TYPES) as ChecklistFieldType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {CHECKLIST_FIELD_TYPES[type].label} — {CHECKLIST_FIELD_TYPES[type].description}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {field.type === 'select' && (
+                  <Input
+                    label="Options (comma-separated)"
+                    value={field.options}
+                    onChange={(e) => updateField(index, { options: e.target.value })}
+                  />
+                )}
+                {field.type === 'number' && (
+                  <Input
+                    label="Unit"
+                    value={field.unit}
+                    onChange={(e) => updateField(index, { unit: e.target.value })}
+                    placeholder="e.g. hours"
+                  />
+                )}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-4 text-sm">
+                    <label className="flex items-center gap-2 text-zinc-700 dark:text-zinc-300">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                      />
+                      Required
+                    </label>
+                    <span className="text-xs text-zinc-400 font-mono">{field.key || 'key set from question'}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => moveField(index, -1)} disabled={index === 0}>
+                      Up
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1}>
+                      Down
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setFields((prev) => prev.filter((_, i) => i !== index))}>
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            <Button variant="secondary" size="sm" onClick={addField}>
+              Add Question
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
@@ -8,8 +8,13 @@ import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { CameraCapture } from '@/components/lister/CameraCapture';
+import { VisionFieldCheck, getLowConfidenceFields } from '@/components/lister/VisionFieldCheck';
 import { notify } from '@/lib/store/app-store';
-import type { VisionAIResponse } from '@/types';
+import type { DecodedBarcode } from '@/lib/utils/barcode';
+import { SERIAL_CAPTURE_METHODS, type SerialCaptureMethod, type VisionAIResponse, type VisionField } from '@/types';
+
+// Photos sent for identification (e.g. front badge + rear label)
+const IDENTIFY_PHOTOS = 3;
 
 export default function RegisterDemoPage() {
   const router = useRouter();
@@ -17,6 +22,7 @@ export default function RegisterDemoPage() {
   const [step, setStep] = useState<'choice' | 'capture' | 'details' | 'review'>('choice');
   const [capturedImages, setCapturedImages] = useState<string[]>([]);
   const [visionResult, setVisionResult] = useState<VisionAIResponse | null>(null);
+  const [unconfirmedFields, setUnconfirmedFields] = useState<VisionField[]>([]);
   const [isIdentifying, setIsIdentifying] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -25,30 +31,50 @@ export default function RegisterDemoPage() {
   const [brand, setBrand] = useState('');
   const [model, setModel] = useState('');
   const [serialNumber, setSerialNumber] = useState('');
+  const [serialMethod, setSerialMethod] = useState<SerialCaptureMethod | null>(null);
   const [costPrice, setCostPrice] = useState<number | null>(null);
   const [demoStartDate, setDemoStartDate] = useState(new Date().toISOString().split('T')[0]); // Default to today
   const [demoLocation, setDemoLocation] = useState('');
 
+  const confirmField = useCallback((field: VisionField) => {
+    setUnconfirmedFields((prev) => prev.filter((f) => f !== field));
+  }, []);
+
   // Handle camera capture (for AI identification)
-  const handleCapture = useCallback(async (imageData: string, allImages?: string[]) => {
-    setCapturedImages(allImages || [imageData]);
+  const handleCapture = useCallback(async (imageData: string, allImages?: string[], barcode?: DecodedBarcode | null) => {
+    const images = allImages || [imageData];
+    setCapturedImages(images);
     setIsIdentifying(true);
     setError(null);
+    setUnconfirmedFields([]);
+
+    // A decoded barcode is exact; vision's serial is only the fallback
+    if (barcode) {
+      setSerialNumber(barcode.value);
+      setSerialMethod('barcode');
+    }
 
     try {
       const response = await fetch('/api/vision/identify', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ image: imageData }),
+        body: JSON.stringify({ images: images.slice(0, IDENTIFY_PHOTOS) }),
       });
 
       const result = await response.json();
 
       if (result.success) {
         setVisionResult(result);
+        // A barcode serial needs no confirmation
+        setUnconfirmedFields(
+          getLowConfidenceFields(result).filter((field) => !(barcode && field === 'serial_number'))
+        );
         setBrand(result.brand || '');
         setModel(result.model || '');
-        setSerialNumber(result.serial_number || '');
+        if (!barcode) {
+          setSerialNumber(result.serial_number || '');
+          setSerialMethod(result.serial_number ? 'vision' : null);
+        }
         notify.success('Product identified', `${result.brand} ${result.model}`);
       } else {
         notify.warning('Identification uncertain', 'Please verify product details');
@@ -80,6 +106,11 @@ export default function RegisterDemoPage() {
       return;
     }
 
+    if (unconfirmedFields.length > 0) {
+      setError('Confirm the low-confidence AI readings first');
+      return;
+    }
+
     setIsCreating(true);
     setError(null);
 
@@ -93,6 +124,7 @@ export default function RegisterDemoPage() {
           brand,
           model,
           serial_number: serialNumber || null,
+          serial_capture_method: serialNumber ? serialMethod : null,
           cost_price: costPrice,
           sale_price: 0, // No sale price yet - not for sale
           demo_start_date: demoStartDate,
@@ -119,7 +151,7 @@ export default function RegisterDemoPage() {
     } finally {
       setIsCreating(false);
     }
-  }, [brand, model, serialNumber, costPrice, demoStartDate, demoLocation, capturedImages, visionResult, router]);
+  }, [brand, model, serialNumber, serialMethod, costPrice, demoStartDate, demoLocation, capturedImages, visionResult, unconfirmedFields, router]);
 
   return (
     <Shell 
@@ -197,6 +229,8 @@ export default function RegisterDemoPage() {
             isProcessing={isIdentifying}
             multiple={true}
             maxPhotos={5}
+            scanBarcodes
+            identifyPhotos={IDENTIFY_PHOTOS}
           />
         </div>
       )}
@@ -236,7 +270,7 @@ export default function RegisterDemoPage() {
                       key={idx} 
                       src={img} 
                       alt={`Photo ${idx + 1}`} 
-                      className={`w-12 h-12 object-cover rounded ${idx === 0 ? 'ring-2 ring-blue-500' : ''}`}
+                      className={`w-12 h-12 object-cover rounded ${idx < IDENTIFY_PHOTOS ? 'ring-2 ring-blue-500' : ''}`}
                     />
                   ))}
                 </div>
@@ -271,8 +305,12 @@ export default function RegisterDemoPage() {
                   </label>
                   <Input
                     value={brand}
-                    onChange={(e) => setBrand(e.target.value)}
+                    onChange={(e) => {
+                      setBrand(e.target.value);
+                      confirmField('brand');
+                    }}
                     placeholder="e.g., Marantz"
+                    className={unconfirmedFields.includes('brand') ? 'ring-2 ring-amber-400' : ''}
                   />
                 </div>
                 <div>
@@ -281,11 +319,41 @@ export default function RegisterDemoPage() {
                   </label>
                   <Input
                     value={model}
-                    onChange={(e) => setModel(e.target.value)}
+                    onChange={(e) => {
+                      setModel(e.target.value);
+                      confirmField('model');
+                    }}
                     placeholder="e.g., AV30"
+                    className={unconfirmedFields.includes('model') ? 'ring-2 ring-amber-400' : ''}
                   />
                 </div>
               </div>
+              {visionResult && brand === visionResult.brand && (
+                <VisionFieldCheck
+                  label="Brand"
+                  reading={visionResult.fields?.brand}
+                  images={capturedImages}
+                  needsConfirmation={unconfirmedFields.includes('brand')}
+                  onConfirm={() => confirmField('brand')}
+                  onPickAlternative={(value) => {
+                    setBrand(value);
+                    confirmField('brand');
+                  }}
+                />
+              )}
+              {visionResult && model === visionResult.model && (
+                <VisionFieldCheck
+                  label="Model"
+                  reading={visionResult.fields?.model}
+                  images={capturedImages}
+                  needsConfirmation={unconfirmedFields.includes('model')}
+                  onConfirm={() => confirmField('model')}
+                  onPickAlternative={(value) => {
+                    setModel(value);
+                    confirmField('model');
+                  }}
+                />
+              )}
 
               {/* Serial Number */}
               <div>
@@ -294,9 +362,32 @@ export default function RegisterDemoPage() {
                 </label>
                 <Input
                   value={serialNumber}
-                  onChange={(e) => setSerialNumber(e.target.value)}
+                  onChange={(e) => {
+                    setSerialNumber(e.target.value);
+                    setSerialMethod('manual');
+                    confirmField('serial_number');
+                  }}
                   placeholder="Enter serial number"
+                  className={unconfirmedFields.includes('serial_number') ? 'ring-2 ring-amber-400' : ''}
                 />
+                {serialNumber && serialMethod && serialMethod !== 'manual' && (
+                  <p className="mt-1 text-xs text-zinc-500">
+                    {SERIAL_CAPTURE_METHODS[serialMethod].description}
+                  </p>
+                )}
+                {visionResult && serialMethod === 'vision' && (
+                  <VisionFieldCheck
+                    label="Serial number"
+                    reading={visionResult.fields?.serial_number}
+                    images={capturedImages}
+                    needsConfirmation={unconfirmedFields.includes('serial_number')}
+                    onConfirm={() => confirmField('serial_number')}
+                    onPickAlternative={(value) => {
+                      setSerialNumber(value);
+                      confirmField('serial_number');
+                    }}
+                  />
+                )}
               </div>
 
               {/* Demo Date */}
@@ -355,11 +446,16 @@ export default function RegisterDemoPage() {
                 <Button
                   onClick={() => setStep('review')}
                   className="flex-1"
-                  disabled={!brand || !model || !costPrice}
+                  disabled={!brand || !model || !costPrice || unconfirmedFields.length > 0}
                 >
                   Continue to Review
                 </Button>
               </div>
+              {unconfirmedFields.length > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 text-right">
+                  Confirm or correct the highlighted fields to continue
+                </p>
+              )}
             </div>
           </Card>
         </div>
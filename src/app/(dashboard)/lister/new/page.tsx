@@ -7,6 +7,12 @@ import { Shell } from '@/components/shell';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import {
+  VariantEditor,
+  emptyVariantDraft,
+  toVariantPayload,
+  type VariantDraft,
+} from '@/components/inventory/VariantEditor';
 import { notify } from '@/lib/store/app-store';
 
 interface SearchResult {
@@ -28,6 +34,10 @@ export default function NewRetailListerPage() {
   const [isScraping, setIsScraping] = useState(false);
   const [scrapedData, setScrapedData] = useState<Record<string, unknown> | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Multi-variant (e.g. black and silver finishes of the same model)
+  const [hasVariants, setHasVariants] = useState(false);
+  const [variantOptionNames, setVariantOptionNames] = useState<string[]>(['Colour']);
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>([]);
 
   // Search for products
   const handleSearch = useCallback(async (e: React.FormEvent) => {
@@ -149,6 +159,35 @@ export default function NewRetailListerPage() {
       const imageUrls = rawData.htmlParsed?.images || [];
       const specifications = rawData.htmlParsed?.specifications || {};
 
+      if (hasVariants) {
+        const response = await fetch('/api/product-groups', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            listing_type: 'new',
+            brand,
+            model,
+            description_html: description,
+            source_url: sourceUrl,
+            image_urls: imageUrls,
+            specifications: specifications,
+            option_names: variantOptionNames,
+            variants: toVariantPayload(variantDrafts),
+          }),
+        });
+
+        const data = await response.json();
+
+        if (data.error) {
+          setError(data.error);
+          notify.error('Create failed', data.error);
+        } else {
+          notify.success('Listing created', `${data.group.variants.length} variants created`);
+          router.push(`/inventory/${data.group.variants[0].id}`);
+        }
+        return;
+      }
+
       const response = await fetch('/api/inventory', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -179,7 +218,7 @@ export default function NewRetailListerPage() {
       setError('Failed to create listing.');
       notify.error('Create failed', 'Failed to create listing');
     }
-  }, [scrapedData, selectedUrl, router]);
+  }, [scrapedData, selectedUrl, router, hasVariants, variantOptionNames, variantDrafts]);
 
   return (
     <Shell 
@@ -489,6 +528,36 @@ export default function NewRetailListerPage() {
                 );
               })()}
 
+              {/* Variants */}
+              <div className="p-4 bg-zinc-50 dark:bg-zinc-800 rounded-lg space-y-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={hasVariants}
+                    onChange={(e) => {
+                      setHasVariants(e.target.checked);
+                      if (e.target.checked && variantDrafts.length === 0) {
+                        const price = (scrapedData as { extracted?: { price?: number } }).extracted?.price;
+                        const defaults = price ? { sale_price: String(price), rrp_aud: String(price) } : {};
+                        setVariantDrafts([emptyVariantDraft(defaults), emptyVariantDraft(defaults)]);
+                      }
+                    }}
+                    className="rounded border-zinc-300 text-emerald-600 focus:ring-emerald-500"
+                  />
+                  This product comes in variants (colour, finish, size)
+                </label>
+                {hasVariants && (
+                  <VariantEditor
+                    optionNames={variantOptionNames}
+                    variants={variantDrafts}
+                    onChange={(names, variants) => {
+                      setVariantOptionNames(names);
+                      setVariantDrafts(variants);
+                    }}
+                  />
+                )}
+              </div>
+
               <div className="flex gap-3 pt-4">
                 <Button variant="secondary" onClick={() => setStep('search')}>
                   Back to Search
@@ -1,22 +1,49 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Shell } from '@/components/shell';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
-import { PricelistPreview } from '@/components/pricelist';
+import { ColumnMappingForm, PricelistDiffView, PricelistPreview } from '@/components/pricelist';
 import { notify } from '@/lib/store/app-store';
 import type { PricelistItem } from '@/lib/pricelist/parser';
+import type { PricelistApplyResult, PricelistDiff, PricelistDiffSelection } from '@/lib/pricelist/diff';
+import type { PricelistColumnMapping } from '@/lib/pricelist/fields';
+import { suggestSalePrice } from '@/lib/suppliers/profile';
+import type { Supplier } from '@/types';
+
+type PageStep = 'upload' | 'processing' | 'mapping' | 'preview' | 'importing' | 'complete';
+
+// import = add every line as a new product; diff = compare with inventory
+type PricelistMode = 'import' | 'diff';
+
+// Uploaded spreadsheet awaiting column mapping
+interface SpreadsheetState {
+  file: File;
+  headers: string[];
+  sampleRows: string[][];
+  rowCount: number;
+  sheetName: string | null;
+  mapping: PricelistColumnMapping;
+  mappingSource: 'saved' | 'suggested';
+}
 
-type PageStep = 'upload' | 'processing' | 'preview' | 'importing' | 'complete';
+function isSpreadsheetFile(fileName: string): boolean {
+  return /\.(xlsx|csv)$/i.test(fileName);
+}
 
 /**
- * PDF Pricelist Import Page
+ * Pricelist Import Page
  * 
  * Allows users to upload a PDF pricelist, extract product data using AI,
- * review/edit the extracted data, and import to inventory.
+ * review/edit the extracted data, and import to inventory. Excel and CSV
+ * pricelists skip the AI: their columns are mapped (and remembered on the
+ * supplier) and the rows reviewed the same way. The selected supplier's
+ * profile is applied to every line and imported items link to it. In diff mode a
+ * supplier's updated pricelist is compared with inventory instead, and the
+ * selected cost/RRP changes, new SKUs and discontinued SKUs are applied.
  */
 export default function PricelistImportPage() {
   const router = useRouter();
@@ -25,24 +52,149 @@ export default function PricelistImportPage() {
   const [step, setStep] = useState<PageStep>('upload');
   const [items, setItems] = useState<PricelistItem[]>([]);
   const [warnings, setWarnings] = useState<string[]>([]);
-  const [pageCount, setPageCount] = useState(0);
+  const [sourceSummary, setSourceSummary] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [importedCount, setImportedCount] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
+  const [mode, setMode] = useState<PricelistMode>('import');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [diff, setDiff] = useState<PricelistDiff | null>(null);
+  const [applyResult, setApplyResult] = useState<PricelistApplyResult | null>(null);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [supplierId, setSupplierId] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetState | null>(null);
+  const [isReadingSpreadsheet, setIsReadingSpreadsheet] = useState(false);
+
+  const supplier = suppliers.find((s) => s.id === supplierId) ?? null;
+
+  useEffect(() => {
+    fetch('/api/suppliers')
+      .then((response) => response.json())
+      .then((data) => setSuppliers(data.suppliers || []))
+      .catch((err) => console.error('Failed to fetch suppliers:', err));
+  }, []);
+
+  // Show extracted items for review, comparing them with inventory in diff mode
+  const showItems = useCallback(async (extracted: PricelistItem[], extractWarnings: string[]) => {
+    setItems(extracted);
+    setWarnings(extractWarnings);
+
+    if (mode === 'diff' && extracted.length > 0) {
+      const diffResponse = await fetch('/api/pricelist/diff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: extracted }),
+      });
+      const diffData = await diffResponse.json();
+
+      if (!diffResponse.ok || !diffData.success) {
+        throw new Error(diffData.error || 'Failed to compare pricelist');
+      }
+      setDiff(diffData.diff);
+    }
+
+    setStep('preview');
+  }, [mode]);
+
+  const handleSpreadsheetUpload = useCallback(async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setStep('processing');
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (supplierId) formData.append('supplierId', supplierId);
+
+      const response = await fetch('/api/pricelist/spreadsheet', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to read spreadsheet');
+      }
+
+      setSpreadsheet({
+        file,
+        headers: data.headers,
+        sampleRows: data.sampleRows,
+        rowCount: data.rowCount,
+        sheetName: data.sheetName,
+        mapping: data.mapping,
+        mappingSource: data.mappingSource,
+      });
+      setStep('mapping');
+    } catch (err) {
+      console.error('Spreadsheet read error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read spreadsheet');
+      setStep('upload');
+      notify.error('Processing failed', err instanceof Error ? err.message : 'Please try again');
+    }
+  }, [supplierId]);
+
+  const handleConfirmMapping = useCallback(async () => {
+    if (!spreadsheet) return;
+    setIsReadingSpreadsheet(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', spreadsheet.file);
+      formData.append('mapping', JSON.stringify(spreadsheet.mapping));
+      if (supplierId) formData.append('supplierId', supplierId);
+
+      const response = await fetch('/api/pricelist/spreadsheet', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to read spreadsheet');
+      }
+
+      setSourceSummary(
+        `${data.rowCount} row${data.rowCount !== 1 ? 's' : ''} read${data.sheetName ? ` from "${data.sheetName}"` : ''}.`
+      );
+      await showItems(data.items || [], data.warnings || []);
+
+      if (data.items?.length > 0) {
+        notify.success('Spreadsheet read', `Read ${data.items.length} products from ${spreadsheet.file.name}`);
+      } else {
+        notify.warning('No products found', 'No rows had a product name and cost price');
+      }
+    } catch (err) {
+      console.error('Spreadsheet mapping error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read spreadsheet');
+      notify.error('Processing failed', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsReadingSpreadsheet(false);
+    }
+  }, [spreadsheet, supplierId, showItems]);
 
   const handleFileUpload = useCallback(async (file: File) => {
+    if (isSpreadsheetFile(file.name)) {
+      return handleSpreadsheetUpload(file);
+    }
+
     if (!file.type.includes('pdf')) {
-      setError('Please upload a PDF file');
+      setError('Please upload a PDF, Excel (.xlsx) or CSV file');
       return;
     }
 
     setError(null);
+    setFileName(file.name);
     setStep('processing');
 
     try {
       const formData = new FormData();
       formData.append('file', file);
+      if (supplierId) formData.append('supplierId', supplierId);
 
       const response = await fetch('/api/pricelist/parse', {
         method: 'POST',
@@ -55,10 +207,8 @@ export default function PricelistImportPage() {
         throw new Error(data.error || 'Failed to parse PDF');
       }
 
-      setItems(data.items || []);
-      setWarnings(data.warnings || []);
-      setPageCount(data.pageCount || 0);
-      setStep('preview');
+      setSourceSummary(`${data.pageCount} page${data.pageCount !== 1 ? 's' : ''} processed.`);
+      await showItems(data.items || [], data.warnings || []);
       
       if (data.items?.length > 0) {
         notify.success(
@@ -74,7 +224,7 @@ export default function PricelistImportPage() {
       setStep('upload');
       notify.error('Processing failed', err instanceof Error ? err.message : 'Please try again');
     }
-  }, []);
+  }, [handleSpreadsheetUpload, showItems, supplierId]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -123,7 +273,8 @@ export default function PricelistImportPage() {
         listing_status: 'pending_enrichment' as const,
         cost_price: item.cost_price,
         rrp_aud: item.rrp_aud || null,
-        sale_price: item.rrp_aud || item.cost_price * 1.3, // Default 30% markup if no RRP
+        sale_price: suggestSalePrice(item, supplier),
+        supplier_id: supplier?.id ?? null,
         sync_status: 'pending' as const,
         image_urls: [],
         specifications: {},
@@ -152,15 +303,53 @@ export default function PricelistImportPage() {
     } finally {
       setIsImporting(false);
     }
-  }, []);
+  }, [supplier]);
+
+  const handleApplyDiff = useCallback(async (selection: PricelistDiffSelection) => {
+    setIsImporting(true);
+    setStep('importing');
+    setError(null);
+
+    try {
+      const response = await fetch('/api/pricelist/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...selection, source: fileName || undefined, supplierId: supplierId || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to apply changes');
+      }
+
+      setApplyResult({ updated: data.updated, created: data.created, archived: data.archived });
+      setStep('complete');
+      notify.success(
+        'Pricelist applied',
+        `${data.updated} updated, ${data.created} added, ${data.archived} archived`
+      );
+    } catch (err) {
+      console.error('Pricelist apply error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to apply changes');
+      setStep('preview');
+      notify.error('Apply failed', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [fileName, supplierId]);
 
   const handleReset = useCallback(() => {
     setStep('upload');
     setItems([]);
     setWarnings([]);
-    setPageCount(0);
+    setSourceSummary('');
+    setSpreadsheet(null);
     setError(null);
     setImportedCount(0);
+    setFileName(null);
+    setDiff(null);
+    setApplyResult(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -169,7 +358,7 @@ export default function PricelistImportPage() {
   return (
     <Shell 
       title="Import from Pricelist" 
-      subtitle="Upload a supplier PDF pricelist to bulk import products"
+      subtitle="Upload a supplier PDF, Excel or CSV pricelist to bulk import products"
     >
       <div className="max-w-4xl mx-auto py-6">
         {/* Back Link */}
@@ -195,8 +384,54 @@ export default function PricelistImportPage() {
                   Upload Supplier Pricelist
                 </h2>
                 <p className="text-zinc-500 max-w-md mx-auto">
-                  Upload a PDF pricelist from your supplier. Our AI will extract product codes, 
-                  names, and prices automatically.
+                  Upload a PDF pricelist from your supplier and our AI will extract product codes,
+                  names, and prices automatically, or upload an Excel/CSV export and map its columns.
+                </p>
+              </div>
+
+              {/* Mode */}
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  { value: 'import', label: 'Import new products', description: 'Add every line as a new product' },
+                  { value: 'diff', label: 'Compare with inventory', description: 'Review cost/RRP changes, new and discontinued SKUs' },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMode(option.value)}
+                    className={`p-4 rounded-lg border text-left transition-colors ${
+                      mode === option.value
+                        ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20'
+                        : 'border-zinc-200 dark:border-zinc-700 hover:border-zinc-300'
+                    }`}
+                  >
+                    <p className="font-medium text-zinc-900 dark:text-white">{option.label}</p>
+                    <p className="text-sm text-zinc-500">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+
+              {/* Supplier */}
+              <div>
+                <div className="flex items-center justify-between mb-1.5">
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">Supplier</label>
+                  <Link href="/inventory/suppliers" className="text-sm text-emerald-600 hover:underline">
+                    Manage suppliers
+                  </Link>
+                </div>
+                <select
+                  value={supplierId}
+                  onChange={(e) => setSupplierId(e.target.value)}
+                  className="w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  <option value="">No supplier</option>
+                  {suppliers.map((s) => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-zinc-500 mt-1">
+                  {supplier
+                    ? `${supplier.price_basis === 'ex_gst' ? 'Ex-GST costs get GST added' : 'Costs include GST'}; spreadsheet columns are remembered.`
+                    : 'Pick the supplier to apply its GST convention, dealer discount and saved spreadsheet columns.'}
                 </p>
               </div>
 
@@ -218,15 +453,15 @@ export default function PricelistImportPage() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                 </svg>
                 <p className="text-zinc-600 dark:text-zinc-400 mb-2">
-                  {isDragging ? 'Drop your PDF here' : 'Drag & drop your PDF here or click to browse'}
+                  {isDragging ? 'Drop your pricelist here' : 'Drag & drop your pricelist here or click to browse'}
                 </p>
                 <p className="text-sm text-zinc-500">
-                  PDF files only, max 20MB, up to 10 pages
+                  PDF (max 20MB, up to 10 pages), Excel .xlsx or CSV (max 10MB)
                 </p>
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf,application/pdf"
+                  accept=".pdf,application/pdf,.xlsx,.csv,text/csv"
                   onChange={handleFileChange}
                   className="hidden"
                 />
@@ -271,28 +506,68 @@ export default function PricelistImportPage() {
                 </svg>
               </div>
               <h3 className="text-xl font-semibold text-zinc-900 dark:text-white mb-2">
-                Processing PDF...
+                {fileName && isSpreadsheetFile(fileName) ? 'Reading Spreadsheet...' : 'Processing PDF...'}
               </h3>
               <p className="text-zinc-500">
-                AI is extracting product data from your pricelist
+                {fileName && isSpreadsheetFile(fileName)
+                  ? 'Reading column headers from your pricelist'
+                  : 'AI is extracting product data from your pricelist'}
               </p>
             </div>
           )}
 
+          {/* Column Mapping Step (spreadsheets) */}
+          {step === 'mapping' && spreadsheet && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold text-zinc-900 dark:text-white">Map Columns</h2>
+                  <p className="text-sm text-zinc-500">
+                    {fileName}: {spreadsheet.rowCount} row{spreadsheet.rowCount !== 1 ? 's' : ''}
+                    {spreadsheet.sheetName ? ` on "${spreadsheet.sheetName}"` : ''}
+                  </p>
+                </div>
+                <Button variant="secondary" onClick={handleReset}>
+                  Upload Different File
+                </Button>
+              </div>
+
+              <ColumnMappingForm
+                headers={spreadsheet.headers}
+                sampleRows={spreadsheet.sampleRows}
+                mapping={spreadsheet.mapping}
+                onMappingChange={(mapping) => setSpreadsheet({ ...spreadsheet, mapping })}
+                onConfirm={handleConfirmMapping}
+                isLoading={isReadingSpreadsheet}
+                supplier={supplier?.name}
+                mappingSource={spreadsheet.mappingSource}
+              />
+
+              {error && (
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Preview Step */}
           {step === 'preview' && (
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <div>
                   <h2 className="text-xl font-semibold text-zinc-900 dark:text-white">
-                    Review Extracted Products
+                    {mode === 'diff' ? 'Review Pricelist Changes' : 'Review Extracted Products'}
                   </h2>
                   <p className="text-sm text-zinc-500">
-                    {pageCount} page{pageCount !== 1 ? 's' : ''} processed. Edit data below before importing.
+                    {sourceSummary}{' '}
+                    {mode === 'diff'
+                      ? 'Select the changes to apply to inventory.'
+                      : 'Edit data below before importing.'}
                   </p>
                 </div>
                 <Button variant="secondary" onClick={handleReset}>
-                  Upload Different PDF
+                  Upload Different File
                 </Button>
               </div>
 
@@ -314,12 +589,16 @@ export default function PricelistImportPage() {
               )}
 
               {/* Preview Table */}
-              <PricelistPreview
-                items={items}
-                onItemsChange={setItems}
-                onImport={handleImport}
-                isImporting={isImporting}
-              />
+              {mode === 'diff' && diff ? (
+                <PricelistDiffView diff={diff} onApply={handleApplyDiff} isApplying={isImporting} />
+              ) : (
+                <PricelistPreview
+                  items={items}
+                  onItemsChange={setItems}
+                  onImport={handleImport}
+                  isImporting={isImporting}
+                />
+              )}
 
               {error && (
                 <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -339,16 +618,47 @@ export default function PricelistImportPage() {
                 </svg>
               </div>
               <h3 className="text-xl font-semibold text-zinc-900 dark:text-white mb-2">
-                Importing Products...
+                {mode === 'diff' ? 'Applying Changes...' : 'Importing Products...'}
               </h3>
               <p className="text-zinc-500">
-                Creating inventory items from your pricelist
+                {mode === 'diff'
+                  ? 'Updating inventory from your pricelist'
+                  : 'Creating inventory items from your pricelist'}
+              </p>
+            </div>
+          )}
+
+          {/* Complete Step (diff) */}
+          {step === 'complete' && applyResult && (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center mx-auto mb-4">
+                <svg className="w-8 h-8 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-zinc-900 dark:text-white mb-2">
+                Pricelist Applied
+              </h3>
+              <p className="text-zinc-500 mb-6">
+                {applyResult.updated} item{applyResult.updated !== 1 ? 's' : ''} repriced,{' '}
+                {applyResult.created} new product{applyResult.created !== 1 ? 's' : ''} added,{' '}
+                {applyResult.archived} discontinued item{applyResult.archived !== 1 ? 's' : ''} archived.
+                Price changes are recorded in price history as imports.
               </p>
+
+              <div className="flex justify-center gap-3">
+                <Button variant="secondary" onClick={handleReset}>
+                  Compare Another
+                </Button>
+                <Button onClick={() => router.push('/inventory')}>
+                  View Inventory
+                </Button>
+              </div>
             </div>
           )}
 
           {/* Complete Step */}
-          {step === 'complete' && (
+          {step === 'complete' && !applyResult && (
             <div className="text-center py-12">
               <div className="w-16 h-16 rounded-full bg-emerald-100 dark:bg-emerald-900/30 flex items-center justify-center mx-auto mb-4">
                 <svg className="w-8 h-8 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,524 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { notify } from '@/lib/store/app-store';
+import {
+  SCRAPE_RECIPE_SELECTOR_FIELDS,
+  type ScrapeRecipeFixtureResult,
+  type ScrapeRecipeFixtureSummary,
+  type ScrapeRecipeSelectors,
+  type ScrapeRecipeWithFixtures,
+} from '@/types';
+
+interface RecipeDraft {
+  id: string | null;
+  domain: string;
+  name: string;
+  is_active: boolean;
+  selectors: ScrapeRecipeSelectors;
+  clickSelectors: string;
+  waitForSelector: string;
+  nextSelector: string;
+  maxPages: string;
+  notes: string;
+}
+
+const SELECTOR_FIELDS = Object.keys(SCRAPE_RECIPE_SELECTOR_FIELDS) as Array<keyof ScrapeRecipeSelectors>;
+
+const emptyDraft: RecipeDraft = {
+  id: null,
+  domain: '',
+  name: '',
+  is_active: true,
+  selectors: {},
+  clickSelectors: '',
+  waitForSelector: '',
+  nextSelector: '',
+  maxPages: '2',
+  notes: '',
+};
+
+function draftFromRecipe(recipe: ScrapeRecipeWithFixtures): RecipeDraft {
+  return {
+    id: recipe.id,
+    domain: recipe.domain,
+    name: recipe.name,
+    is_active: recipe.is_active,
+    selectors: recipe.selectors || {},
+    clickSelectors: (recipe.click_selectors || []).join('\n'),
+    waitForSelector: recipe.wait_for_selector || '',
+    nextSelector: recipe.pagination?.nextSelector || '',
+    maxPages: String(recipe.pagination?.maxPages || 2),
+    notes: recipe.notes || '',
+  };
+}
+
+function toRecipePayload(draft: RecipeDraft) {
+  const selectors = Object.fromEntries(
+    Object.entries(draft.selectors)
+      .map(([key, value]) => [key, value?.trim()])
+      .filter(([, value]) => value)
+  );
+  return {
+    domain: draft.domain,
+    name: draft.name,
+    is_active: draft.is_active,
+    selectors,
+    click_selectors: draft.clickSelectors.split('\n').map((line) => line.trim()).filter(Boolean),
+    wait_for_selector: draft.waitForSelector.trim() || null,
+    pagination: draft.nextSelector.trim()
+      ? { nextSelector: draft.nextSelector.trim(), maxPages: Number(draft.maxPages) || 2 }
+      : null,
+    notes: draft.notes.trim() || null,
+  };
+}
+
+/**
+ * Scrape Recipes Page
+ *
+ * Per-domain selectors for retailer sites the generic scraper struggles
+ * with, plus saved HTML fixtures to re-test a recipe after edits.
+ */
+export default function ScrapeRecipesPage() {
+  const [recipes, setRecipes] = useState<ScrapeRecipeWithFixtures[]>([]);
+  const [draft, setDraft] = useState<RecipeDraft>(emptyDraft);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [captureUrl, setCaptureUrl] = useState('');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResults, setTestResults] = useState<Record<string, ScrapeRecipeFixtureResult>>({});
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+
+  const selectedRecipe = recipes.find((recipe) => recipe.id === draft.id) || null;
+
+  const fetchRecipes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/scrape/recipes');
+      const data = await response.json();
+      setRecipes(data.recipes || []);
+    } catch (error) {
+      console.error('Failed to fetch scrape recipes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecipes();
+  }, [fetchRecipes]);
+
+  const selectRecipe = (recipe: ScrapeRecipeWithFixtures | null) => {
+    setDraft(recipe ? draftFromRecipe(recipe) : emptyDraft);
+    setTestResults({});
+    setCaptureUrl('');
+  };
+
+  const updateFixture = (fixture: ScrapeRecipeFixtureSummary) => {
+    setRecipes((prev) => prev.map((recipe) => recipe.id === fixture.recipe_id
+      ? {
+          ...recipe,
+          fixtures: recipe.fixtures.some((f) => f.id === fixture.id)
+            ? recipe.fixtures.map((f) => (f.id === fixture.id ? fixture : f))
+            : [...recipe.fixtures, fixture],
+        }
+      : recipe));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(draft.id ? `/api/scrape/recipes/${draft.id}` : '/api/scrape/recipes', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRecipePayload(draft)),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      const saved = data.recipe as ScrapeRecipeWithFixtures;
+      setRecipes((prev) => [...prev.filter((recipe) => recipe.id !== saved.id), saved]
+        .sort((a, b) => a.domain.localeCompare(b.domain)));
+      setDraft(draftFromRecipe(saved));
+      notify.success('Recipe saved', saved.domain);
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    const confirmed = await confirm({
+      title: 'Delete Recipe',
+      message: `Delete the ${draft.domain} recipe and its fixtures? Scrapes of this site will fall back to the generic heuristics.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/scrape/recipes/${draft.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        notify.error('Delete failed', data.error || 'Please try again');
+        return;
+      }
+      setRecipes((prev) => prev.filter((recipe) => recipe.id !== draft.id));
+      selectRecipe(null);
+      notify.success('Recipe deleted');
+    } catch {
+      notify.error('Delete failed', 'Please try again');
+    }
+  };
+
+  const handleCapture = async () => {
+    if (!draft.id || !captureUrl.trim()) return;
+    setIsCapturing(true);
+    try {
+      const response = await fetch(`/api/scrape/recipes/${draft.id}/fixtures`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: captureUrl.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Capture failed', data.error || 'Please try again');
+        return;
+      }
+
+      updateFixture(data.fixture);
+      setCaptureUrl('');
+      notify.success(
+        'Fixture saved',
+        `${Object.keys(data.extracted.specifications).length} specs, ${data.extracted.images.length} images extracted`
+      );
+    } catch {
+      notify.error('Capture failed', 'Please try again');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!draft.id) return;
+    setIsTesting(true);
+    try {
+      const response = await fetch(`/api/scrape/recipes/${draft.id}/test`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Test run failed', data.error || 'Please try again');
+        return;
+      }
+
+      const results = data.results as ScrapeRecipeFixtureResult[];
+      setTestResults(Object.fromEntries(results.map((result) => [result.fixtureId, result])));
+      const failed = results.filter((result) => !result.passed).length;
+      if (failed > 0) {
+        notify.warning('Fixtures failing', `${failed} of ${results.length} fixtures failed`);
+      } else {
+        notify.success('All fixtures pass', `${results.length} fixtures`);
+      }
+      await fetchRecipes();
+    } catch {
+      notify.error('Test run failed', 'Please try again');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleAcceptOutput = async (fixture: ScrapeRecipeFixtureSummary) => {
+    const result = testResults[fixture.id];
+    if (!result) return;
+
+    try {
+      const response = await fetch(`/api/scrape/recipes/${fixture.recipe_id}/fixtures/${fixture.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expected: result.actual }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Update failed', data.error || 'Please try again');
+        return;
+      }
+
+      updateFixture(data.fixture);
+      setTestResults((prev) => {
+        const next = { ...prev };
+        delete next[fixture.id];
+        return next;
+      });
+      notify.success('Expected output updated', fixture.name);
+    } catch {
+      notify.error('Update failed', 'Please try again');
+    }
+  };
+
+  const handleDeleteFixture = async (fixture: ScrapeRecipeFixtureSummary) => {
+    try {
+      const response = await fetch(`/api/scrape/recipes/${fixture.recipe_id}/fixtures/${fixture.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        notify.error('Delete failed', data.error || 'Please try again');
+        return;
+      }
+      setRecipes((prev) => prev.map((recipe) => recipe.id === fixture.recipe_id
+        ? { ...recipe, fixtures: recipe.fixtures.filter((f) => f.id !== fixture.id) }
+        : recipe));
+    } catch {
+      notify.error('Delete failed', 'Please try again');
+    }
+  };
+
+  const textareaClass =
+    'w-full px-4 py-2.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm font-mono text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+  return (
+    <Shell title="Scrape Recipes" subtitle="Per-site selectors used before the generic scraper">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Recipe list */}
+        <Card>
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Recipes</h2>
+            <Button size="sm" variant="secondary" onClick={() => selectRecipe(null)}>
+              New Recipe
+            </Button>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {isLoading ? (
+              <div className="p-8 text-center text-zinc-500">Loading...</div>
+            ) : recipes.length === 0 ? (
+              <div className="p-8 text-center text-zinc-500">No recipes yet</div>
+            ) : (
+              recipes.map((recipe) => {
+                const failing = recipe.fixtures.filter((fixture) => fixture.last_run_passed === false).length;
+                return (
+                  <button
+                    key={recipe.id}
+                    onClick={() => selectRecipe(recipe)}
+                    className={`w-full text-left p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${
+                      draft.id === recipe.id ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                    }`}
+                  >
+                    <p className="font-medium text-zinc-900 dark:text-white">{recipe.domain}</p>
+                    <p className="text-sm text-zinc-500">
+                      {recipe.name}
+                      {!recipe.is_active && ' · inactive'}
+                      {` · ${recipe.fixtures.length} fixtures`}
+                      {failing > 0 && <span className="text-red-500">{` · ${failing} failing`}</span>}
+                    </p>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </Card>
+
+        {/* Editor */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+              <h2 className="font-semibold text-zinc-900 dark:text-white">
+                {draft.id ? `Edit ${draft.domain}` : 'New Recipe'}
+              </h2>
+              <div className="flex gap-2">
+                {draft.id && (
+                  <Button size="sm" variant="ghost" onClick={handleDelete}>
+                    Delete
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleSave} isLoading={isSaving} disabled={!draft.domain || !draft.name}>
+                  Save Recipe
+                </Button>
+              </div>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Domain"
+                  value={draft.domain}
+                  onChange={(e) => setDraft({ ...draft, domain: e.target.value })}
+                  placeholder="selby.com.au"
+                />
+                <Input
+                  label="Name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Selby product pages"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={draft.is_active}
+                  onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+                  className="rounded border-zinc-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                Use this recipe when scraping
+              </label>
+
+              <div>
+                <h3 className="text-sm font-medium text-zinc-900 dark:text-white mb-2">Selectors</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {SELECTOR_FIELDS.map((field) => (
+                    <Input
+                      key={field}
+                      label={SCRAPE_RECIPE_SELECTOR_FIELDS[field].label}
+                      value={draft.selectors[field] || ''}
+                      onChange={(e) => setDraft({ ...draft, selectors: { ...draft.selectors, [field]: e.target.value } })}
+                      placeholder={SCRAPE_RECIPE_SELECTOR_FIELDS[field].placeholder}
+                      className="font-mono text-sm"
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">
+                  Click before extracting (tabs, accordions; one selector per line)
+                </label>
+                <textarea
+                  rows={3}
+                  value={draft.clickSelectors}
+                  onChange={(e) => setDraft({ ...draft, clickSelectors: e.target.value })}
+                  placeholder={'button[aria-controls="specifications"]\n.accordion-header'}
+                  className={textareaClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input
+                  label="Wait For"
+                  value={draft.waitForSelector}
+                  onChange={(e) => setDraft({ ...draft, waitForSelector: e.target.value })}
+                  placeholder=".product-main"
+                  className="font-mono text-sm"
+                />
+                <Input
+                  label="Next Page"
+                  value={draft.nextSelector}
+                  onChange={(e) => setDraft({ ...draft, nextSelector: e.target.value })}
+                  placeholder=".specs-pagination .next"
+                  className="font-mono text-sm"
+                />
+                <Input
+                  label="Max Pages"
+                  type="number"
+                  min={2}
+                  max={10}
+                  value={draft.maxPages}
+                  onChange={(e) => setDraft({ ...draft, maxPages: e.target.value })}
+                  disabled={!draft.nextSelector}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">Notes</label>
+                <textarea
+                  rows={2}
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  className={textareaClass}
+                />
+              </div>
+            </div>
+          </Card>
+
+          {/* Fixtures */}
+          {selectedRecipe && (
+            <Card>
+              <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+                <div>
+                  <h2 className="font-semibold text-zinc-900 dark:text-white">Fixtures</h2>
+                  <p className="text-sm text-zinc-500">Saved pages the recipe is re-tested against, offline</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleTest}
+                  isLoading={isTesting}
+                  disabled={selectedRecipe.fixtures.length === 0}
+                >
+                  Run Tests
+                </Button>
+              </div>
+              <div className="p-4 flex gap-2 border-b border-zinc-100 dark:border-zinc-800">
+                <div className="flex-1">
+                  <Input
+                    value={captureUrl}
+                    onChange={(e) => setCaptureUrl(e.target.value)}
+                    placeholder={`https://${selectedRecipe.domain}/product-page`}
+                  />
+                </div>
+                <Button onClick={handleCapture} isLoading={isCapturing} disabled={!captureUrl.trim()}>
+                  Save Page as Fixture
+                </Button>
+              </div>
+              <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                {selectedRecipe.fixtures.length === 0 ? (
+                  <div className="p-8 text-center text-zinc-500">No fixtures yet</div>
+                ) : (
+                  selectedRecipe.fixtures.map((fixture) => {
+                    const result = testResults[fixture.id];
+                    const failures = result?.failures ?? fixture.last_run_failures;
+                    const passed = result?.passed ?? fixture.last_run_passed;
+                    return (
+                      <div key={fixture.id} className="flex items-start gap-4 p-4">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-zinc-900 dark:text-white truncate">{fixture.name}</p>
+                          <p className="text-sm text-zinc-500 truncate">{fixture.source_url}</p>
+                          <p className={`text-sm ${passed === false ? 'text-red-500' : passed ? 'text-emerald-600' : 'text-zinc-500'}`}>
+                            {passed === null ? 'Not run yet' : passed ? 'Passing' : 'Failing'}
+                          </p>
+                          {passed === false && failures.length > 0 && (
+                            <ul className="mt-1 text-xs text-red-500 space-y-0.5">
+                              {failures.map((failure) => (
+                                <li key={failure} className="truncate">{failure}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                        {result && !result.passed && (
+                          <Button size="sm" variant="secondary" onClick={() => handleAcceptOutput(fixture)}>
+                            Accept Output
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" onClick={() => handleDeleteFixture(fixture)}>
+                          Remove
+                        </Button>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { ConfirmDialog, useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import {
+  TradeInOfferActions,
+  TradeInOfferSheet,
+  TradeInOfferStatusBadge,
+} from '@/components/trade-ins';
+import { getTradeInOfferStatus } from '@/lib/trade-in/offer-sheet';
+import { notify } from '@/lib/store/app-store';
+import type { TradeInOfferUpdate } from '@/lib/trade-in/offers';
+import type { TradeInOffer } from '@/types';
+
+// How far "Extend" pushes the expiry
+const EXTEND_DAYS = 7;
+
+const formatMoney = (value: number) => `$${Number(value).toLocaleString('en-AU', { maximumFractionDigits: 0 })}`;
+
+/**
+ * Trade-In Offer Page
+ *
+ * The offer sheet as the customer sees it, with the valuation behind it.
+ * Open offers can be re-sent, extended, declined, or taken into intake.
+ */
+export default function TradeInOfferPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const router = useRouter();
+  const { confirm, isOpen: confirmOpen, config: confirmConfig, handleClose: confirmClose, handleConfirm: confirmConfirm } = useConfirmDialog();
+  const [offer, setOffer] = useState<TradeInOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchOffer = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/trade-ins/offers/${id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Failed to load offer', data.error || 'Please try again');
+        return;
+      }
+      setOffer(data.offer);
+    } catch (error) {
+      console.error('Failed to fetch trade-in offer:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOffer();
+  }, [fetchOffer]);
+
+  const updateOffer = async (update: TradeInOfferUpdate, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/trade-ins/offers/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Update failed', data.error || 'Please try again');
+        return;
+      }
+      setOffer(data.offer);
+      notify.success(successMessage, data.offer.offer_number);
+    } catch {
+      notify.error('Update failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExtend = () => {
+    if (!offer) return;
+    const from = Math.max(Date.now(), new Date(offer.expires_at).getTime());
+    updateOffer({ expires_at: new Date(from + EXTEND_DAYS * 24 * 60 * 60 * 1000).toISOString() }, 'Offer extended');
+  };
+
+  const handleDecline = async () => {
+    if (!offer) return;
+    const confirmed = await confirm({
+      title: `Mark ${offer.offer_number} declined?`,
+      message: `${offer.customer_name} turned down the ${formatMoney(offer.offer_amount)} offer.`,
+      confirmText: 'Mark Declined',
+      variant: 'danger',
+    });
+    if (confirmed) updateOffer({ status: 'declined' }, 'Offer declined');
+  };
+
+  if (isLoading) {
+    return (
+      <Shell title="Trade-In Offer" subtitle="Loading...">
+        <div className="p-8 text-center text-zinc-500">Loading...</div>
+      </Shell>
+    );
+  }
+
+  if (!offer) {
+    return (
+      <Shell title="Trade-In Offer" subtitle="Not found">
+        <Card className="p-8 text-center text-zinc-500">
+          Offer not found. <Link href="/lister/trade-in/offers" className="text-emerald-600">Back to offers</Link>
+        </Card>
+      </Shell>
+    );
+  }
+
+  const status = getTradeInOfferStatus(offer);
+  const isOpen = status === 'offered' || status === 'expired';
+  const { valuation } = offer;
+
+  return (
+    <Shell
+      title={`Offer ${offer.offer_number}`}
+      subtitle={`${offer.brand} ${offer.model} for ${offer.customer_name}`}
+      headerActions={
+        <Link href="/lister/trade-in/offers">
+          <Button variant="secondary" size="sm">All Offers</Button>
+        </Link>
+      }
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <Card className="p-0 overflow-hidden">
+            <TradeInOfferSheet offer={offer} />
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-zinc-500">Status</span>
+              <TradeInOfferStatusBadge offer={offer} />
+            </div>
+            <TradeInOfferActions offer={offer} />
+
+            {isOpen && (
+              <div className="space-y-2 border-t border-zinc-200 dark:border-zinc-700 pt-4">
+                {status === 'offered' ? (
+                  <Button
+                    className="w-full"
+                    onClick={() => router.push(`/lister/trade-in?offer=${offer.id}`)}
+                  >
+                    Accepted — Start Intake
+                  </Button>
+                ) : (
+                  <p className="text-sm text-amber-600 dark:text-amber-400">
+                    Expired; extend it to honour the offer.
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button variant="secondary" size="sm" onClick={handleExtend} isLoading={isSaving}>
+                    Extend {EXTEND_DAYS} days
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={handleDecline} disabled={isSaving}>
+                    Declined
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {offer.inventory_item_id && (
+              <Link
+                href={`/inventory/${offer.inventory_item_id}`}
+                className="block text-sm text-emerald-600 hover:underline border-t border-zinc-200 dark:border-zinc-700 pt-4"
+              >
+                View trade-in item →
+              </Link>
+            )}
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="font-medium text-zinc-900 dark:text-white mb-3">Valuation</h3>
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-zinc-500">Recommended range</span>
+                <span>{formatMoney(valuation.offer_low)} – {formatMoney(valuation.offer_high)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-500">Estimated resale</span>
+                <span>{formatMoney(valuation.estimated_resale_price)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-zinc-500">Target margin</span>
+                <span>{valuation.target_margin_percent}%</span>
+              </div>
+            </div>
+            <ul className="mt-3 text-xs text-zinc-500 space-y-1 border-t border-zinc-200 dark:border-zinc-700 pt-2">
+              {valuation.factors.map((factor) => (
+                <li key={factor.label}>
+                  <span className="font-medium text-zinc-700 dark:text-zinc-300">{factor.label}:</span> {factor.detail}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={confirmOpen}
+        onClose={confirmClose}
+        onConfirm={confirmConfirm}
+        {...confirmConfig}
+      />
+    </Shell>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Shell } from '@/components/shell';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { FilterTabs } from '@/components/ui/FilterTabs';
+import { TradeInOfferStatusBadge } from '@/components/trade-ins';
+import { getTradeInOfferStatus } from '@/lib/trade-in/offer-sheet';
+import { notify } from '@/lib/store/app-store';
+import {
+  TRADE_IN_OFFER_STATUSES,
+  type TradeInOffer,
+  type TradeInOfferDisplayStatus,
+} from '@/types';
+
+type StatusFilter = 'all' | TradeInOfferDisplayStatus;
+
+const formatCurrency = (value: number) => `$${Number(value).toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Trade-In Offers Page
+ *
+ * Offers made to customers, so open ones can be followed up and taken
+ * through intake when accepted.
+ */
+export default function TradeInOffersPage() {
+  const router = useRouter();
+  const [offers, setOffers] = useState<TradeInOffer[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('offered');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/trade-ins/offers')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          notify.error('Failed to load offers', data.error || 'Please try again');
+          return;
+        }
+        setOffers(data.offers || []);
+      })
+      .catch((error) => console.error('Failed to fetch trade-in offers:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visible = offers.filter(
+    (offer) => statusFilter === 'all' || getTradeInOfferStatus(offer) === statusFilter
+  );
+
+  const filterOptions: { value: StatusFilter; label: string; count: number }[] = [
+    ...(Object.keys(TRADE_IN_OFFER_STATUSES) as TradeInOfferDisplayStatus[]).map((status) => ({
+      value: status,
+      label: TRADE_IN_OFFER_STATUSES[status].label,
+      count: offers.filter((offer) => getTradeInOfferStatus(offer) === status).length,
+    })),
+    { value: 'all', label: 'All', count: offers.length },
+  ];
+
+  return (
+    <Shell
+      title="Trade-In Offers"
+      subtitle="Offers made to customers and their outcome"
+      headerActions={
+        <Link href="/lister/trade-in">
+          <Button size="sm">New Trade-In</Button>
+        </Link>
+      }
+    >
+      <div className="space-y-6">
+        <FilterTabs<StatusFilter> options={filterOptions} value={statusFilter} onChange={setStatusFilter} />
+
+        <Card>
+          {isLoading ? (
+            <div className="p-8 text-center text-zinc-500">Loading...</div>
+          ) : visible.length === 0 ? (
+            <div className="p-8 text-center text-zinc-500">No offers</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                    <th className="p-3 font-medium">Offer</th>
+                    <th className="p-3 font-medium">Customer</th>
+                    <th className="p-3 font-medium">Product</th>
+                    <th className="p-3 font-medium">Status</th>
+                    <th className="p-3 font-medium text-right">Amount</th>
+                    <th className="p-3 font-medium">Expires</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                  {visible.map((offer) => (
+                    <tr
+                      key={offer.id}
+                      onClick={() => router.push(`/lister/trade-in/offers/${offer.id}`)}
+                      className="cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+                    >
+                      <td className="p-3 font-mono text-zinc-900 dark:text-white">{offer.offer_number}</td>
+                      <td className="p-3 text-zinc-700 dark:text-zinc-300">{offer.customer_name}</td>
+                      <td className="p-3 text-zinc-700 dark:text-zinc-300">{offer.brand} {offer.model}</td>
+                      <td className="p-3">
+                        <TradeInOfferStatusBadge offer={offer} />
+                      </td>
+                      <td className="p-3 text-right text-zinc-900 dark:text-white">
+                        {formatCurrency(offer.offer_amount)}
+                      </td>
+                      <td className="p-3 text-zinc-500">
+                        {new Date(offer.expires_at).toLocaleDateString('en-AU')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+    </Shell>
+  );
+}
@@ -1,18 +1,43 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useCallback, useEffect, useMemo, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Shell } from '@/components/shell';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { CameraCapture } from '@/components/lister/CameraCapture';
+import { VisionFieldCheck, getLowConfidenceFields } from '@/components/lister/VisionFieldCheck';
+import { ConditionAssessmentPanel, finalizeConditionAssessment } from '@/components/lister/ConditionAssessmentPanel';
+import { ConditionChecklistForm } from '@/components/lister/ConditionChecklistForm';
+import { TradeInOfferActions, TradeInOfferStatusBadge, TradeInValuationPanel } from '@/components/trade-ins';
+import { CustomerPicker, EMPTY_CUSTOMER_DETAILS, type CustomerDetails } from '@/components/customers';
+import { MeterReadingInputs, toMeterReadingInputs, type MeterReadingValues } from '@/components/rma';
 import { notify } from '@/lib/store/app-store';
 import { parsePrice } from '@/lib/utils/pricing';
-import type { VisionAIResponse, RRPSearchResult, ConditionGrade, SerialCaptureStatus } from '@/types';
+import { getTradeInOfferStatus } from '@/lib/trade-in/offer-sheet';
+import { getChecklistSummaryLines, getMissingChecklistAnswers } from '@/lib/condition/summary';
+import { formatMeterReading } from '@/lib/rma/meter-summary';
+import type { DecodedBarcode } from '@/lib/utils/barcode';
+import {
+  METER_TYPES,
+  SERIAL_CAPTURE_METHODS,
+  type VisionAIResponse,
+  type RRPSearchResult,
+  type ConditionAssessment,
+  type ConditionChecklistResponse,
+  type ConditionGrade,
+  type SerialCaptureMethod,
+  type SerialCaptureStatus,
+  type TradeInOffer,
+  type VisionField,
+} from '@/types';
 
 const DEFAULT_DISCOUNT = 0.30;
 
+// Photos sent for identification (e.g. front badge + rear label)
+const IDENTIFY_PHOTOS = 3;
+
 const CONDITION_GRADES: { value: ConditionGrade; label: string; description: string }[] = [
   { value: 'mint', label: 'Mint', description: 'Like new' },
   { value: 'excellent', label: 'Excellent', description: 'Minor wear' },
@@ -27,12 +52,15 @@ const SERIAL_CAPTURE_OPTIONS: { value: SerialCaptureStatus; label: string; descr
   { value: 'skipped', label: 'Skipped', description: 'Skipped capture for now' },
 ];
 
-export default function TradeInListerPage() {
+function TradeInListerContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const offerId = searchParams.get('offer');
   
-  const [step, setStep] = useState<'capture' | 'details' | 'review'>('capture');
+  const [step, setStep] = useState<'capture' | 'details' | 'offer' | 'review'>('capture');
   const [capturedImages, setCapturedImages] = useState<string[]>([]);
   const [visionResult, setVisionResult] = useState<VisionAIResponse | null>(null);
+  const [unconfirmedFields, setUnconfirmedFields] = useState<VisionField[]>([]);
   const [isIdentifying, setIsIdentifying] = useState(false);
   const [isFetchingRRP, setIsFetchingRRP] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -43,12 +71,54 @@ export default function TradeInListerPage() {
   const [model, setModel] = useState('');
   const [serialNumber, setSerialNumber] = useState('');
   const [serialCaptureStatus, setSerialCaptureStatus] = useState<SerialCaptureStatus>('skipped');
+  const [serialMethod, setSerialMethod] = useState<SerialCaptureMethod | null>(null);
   const [conditionGrade, setConditionGrade] = useState<ConditionGrade | null>(null);
   const [conditionReport, setConditionReport] = useState('');
+  const [conditionAssessment, setConditionAssessment] = useState<ConditionAssessment | null>(null);
+  const [conditionChecklist, setConditionChecklist] = useState<ConditionChecklistResponse | null>(null);
+  const [meterValues, setMeterValues] = useState<MeterReadingValues>({});
   const [rrpAud, setRrpAud] = useState<number | null>(null);
   const [rrpSource, setRrpSource] = useState<string | null>(null);
   const [salePrice, setSalePrice] = useState<number | null>(null);
+  const [offer, setOffer] = useState<TradeInOffer | null>(null);
+  const [isDecliningOffer, setIsDecliningOffer] = useState(false);
+  // Who supplied the unit when there's no offer (an accepted offer names its customer)
+  const [supplier, setSupplier] = useState<CustomerDetails>(EMPTY_CUSTOMER_DETAILS);
   
+  // Resuming intake from an offer the customer has since accepted
+  useEffect(() => {
+    if (!offerId) return;
+    fetch(`/api/trade-ins/offers/${offerId}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.offer) {
+          notify.error('Offer not found', data.error || 'Continuing without it');
+          return;
+        }
+        const existing: TradeInOffer = data.offer;
+        const status = getTradeInOfferStatus(existing);
+        if (status !== 'offered') {
+          notify.error(`Offer ${existing.offer_number} is ${status}`, 'Continuing without it');
+          return;
+        }
+        setOffer(existing);
+        setBrand(existing.brand);
+        setModel(existing.model);
+        setConditionGrade(existing.condition_grade);
+        if (existing.serial_number) {
+          setSerialNumber(existing.serial_number);
+          setSerialMethod('manual');
+          setSerialCaptureStatus('captured');
+        }
+        if (existing.rrp_aud) {
+          setRrpAud(Number(existing.rrp_aud));
+          setRrpSource('manual');
+          setSalePrice(Math.round(Number(existing.rrp_aud) * (1 - DEFAULT_DISCOUNT)));
+        }
+      })
+      .catch((err) => console.error('Failed to fetch trade-in offer:', err));
+  }, [offerId]);
+
   // Price validation errors
   const [priceErrors, setPriceErrors] = useState<{ rrp: string | null; sale: string | null }>({ rrp: null, sale: null });
 
@@ -129,29 +199,65 @@ export default function TradeInListerPage() {
     }
   }
 
-  // Handle camera capture (first image for AI, all images for listing)
-  const handleCapture = async (imageData: string, allImages?: string[]) => {
-    setCapturedImages(allImages || [imageData]);
+  const checklistMissing = conditionChecklist ? getMissingChecklistAnswers(conditionChecklist) : [];
+
+  // The projector checklist already asks for lamp hours
+  const meterReadings = useMemo(() => {
+    const checklistLampHours = conditionChecklist?.answers.lamp_hours;
+    return toMeterReadingInputs({
+      ...meterValues,
+      lamp_hours: meterValues.lamp_hours ?? (typeof checklistLampHours === 'number' ? checklistLampHours : null),
+    });
+  }, [meterValues, conditionChecklist]);
+
+  // A low-confidence serial only matters while it's going to be saved
+  const pendingFields = unconfirmedFields.filter(
+    (field) => field !== 'serial_number' || serialCaptureStatus === 'captured'
+  );
+
+  const confirmField = useCallback((field: VisionField) => {
+    setUnconfirmedFields((prev) => prev.filter((f) => f !== field));
+  }, []);
+
+  // Handle camera capture (first few images for AI, all images for listing)
+  const handleCapture = async (imageData: string, allImages?: string[], barcode?: DecodedBarcode | null) => {
+    const images = allImages || [imageData];
+    setCapturedImages(images);
     setIsIdentifying(true);
     setError(null);
+    setUnconfirmedFields([]);
+
+    // A decoded barcode is exact; vision's serial is only the fallback
+    if (barcode) {
+      setSerialNumber(barcode.value);
+      setSerialMethod('barcode');
+      setSerialCaptureStatus('captured');
+    }
 
     try {
-      // Use first image for AI identification
+      // Front badge and rear label are read separately and merged
       const response = await fetch('/api/vision/identify', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ image: imageData }),
+        body: JSON.stringify({ images: images.slice(0, IDENTIFY_PHOTOS) }),
       });
 
       const result = await response.json();
 
       if (result.success) {
         setVisionResult(result);
+        // A barcode serial needs no confirmation
+        setUnconfirmedFields(
+          getLowConfidenceFields(result).filter((field) => !(barcode && field === 'serial_number'))
+        );
         setBrand(result.brand || '');
         setModel(result.model || '');
-        setSerialNumber(result.serial_number || '');
-        if (result.serial_number) {
-          setSerialCaptureStatus('captured');
+        if (!barcode) {
+          setSerialNumber(result.serial_number || '');
+          if (result.serial_number) {
+            setSerialMethod('vision');
+            setSerialCaptureStatus('captured');
+          }
         }
         notify.success('Product identified', `${result.brand} ${result.model} (${Math.round(result.confidence * 100)}% confident)`);
 
@@ -195,11 +301,36 @@ export default function TradeInListerPage() {
       setError('Enter a serial number or choose Not found / Skipped');
       return;
     }
+    if (pendingFields.length > 0) {
+      setError('Confirm the low-confidence AI readings first');
+      return;
+    }
 
     setIsCreating(true);
     setError(null);
 
     try {
+      let customerId = offer ? offer.customer_id : supplier.customer_id;
+      if (!offer && !customerId && supplier.name.trim()) {
+        const customerResponse = await fetch('/api/customers', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: supplier.name.trim(),
+            email: supplier.email.trim() || null,
+            phone: supplier.phone.trim() || null,
+            hubspot_contact_id: supplier.hubspot_contact_id,
+          }),
+        });
+        const customerData = await customerResponse.json();
+        // 409: these details already belong to a customer, who is returned
+        if (!customerData.customer) {
+          setError(customerData.error || 'Failed to save customer');
+          return;
+        }
+        customerId = customerData.customer.id;
+      }
+
       const response = await fetch('/api/inventory', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -209,13 +340,19 @@ export default function TradeInListerPage() {
           model,
           serial_number: serialCaptureStatus === 'captured' ? serialNumber.trim() || null : null,
           serial_capture_status: serialCaptureStatus,
+          serial_capture_method: serialCaptureStatus === 'captured' && serialNumber.trim() ? serialMethod : null,
           rrp_aud: rrpAud,
           sale_price: salePrice,
           condition_grade: conditionGrade,
           condition_report: conditionReport || null,
           image_urls: capturedImages,
           vision_ai_response: visionResult,
+          condition_ai_assessment: finalizeConditionAssessment(conditionAssessment, conditionGrade),
+          condition_checklist: conditionChecklist,
+          meter_readings: serialCaptureStatus === 'captured' ? meterReadings : [],
           rrp_source: rrpSource,
+          cost_price: offer?.offer_amount ?? null,
+          customer_id: customerId,
         }),
       });
 
@@ -225,6 +362,17 @@ export default function TradeInListerPage() {
         setError(data.error);
         notify.error('Create failed', data.error);
       } else {
+        if (offer) {
+          const acceptResponse = await fetch(`/api/trade-ins/offers/${offer.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status: 'accepted', inventory_item_id: data.item.id }),
+          });
+          if (!acceptResponse.ok) {
+            const acceptData = await acceptResponse.json();
+            notify.warning(`Offer ${offer.offer_number} not marked accepted`, acceptData.error || 'Update it from the offers list');
+          }
+        }
         notify.success('Trade-in created', 'Redirecting to inventory...');
         router.push(`/inventory/${data.item.id}`);
       }
@@ -234,7 +382,30 @@ export default function TradeInListerPage() {
     } finally {
       setIsCreating(false);
     }
-  }, [brand, model, serialNumber, serialCaptureStatus, rrpAud, salePrice, conditionGrade, conditionReport, capturedImages, visionResult, rrpSource, router]);
+  }, [brand, model, serialNumber, serialCaptureStatus, serialMethod, rrpAud, salePrice, conditionGrade, conditionReport, conditionAssessment, conditionChecklist, meterReadings, capturedImages, visionResult, rrpSource, pendingFields.length, offer, supplier, router]);
+
+  const handleDeclineOffer = async () => {
+    if (!offer) return;
+    setIsDecliningOffer(true);
+    try {
+      const response = await fetch(`/api/trade-ins/offers/${offer.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'declined' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Update failed', data.error || 'Please try again');
+        return;
+      }
+      notify.info('Offer declined', offer.offer_number);
+      router.push('/lister/trade-in/offers');
+    } catch {
+      notify.error('Update failed', 'Please try again');
+    } finally {
+      setIsDecliningOffer(false);
+    }
+  };
 
   return (
     <Shell 
@@ -242,6 +413,11 @@ export default function TradeInListerPage() {
       subtitle="Camera identification + auto-pricing"
       noPadding={step === 'capture'}
       fullWidth={step === 'capture'}
+      headerActions={step !== 'capture' && (
+        <Button variant="secondary" size="sm" onClick={() => router.push('/lister/trade-in/offers')}>
+          Offers
+        </Button>
+      )}
     >
       {/* Step 1: Camera Capture */}
       {step === 'capture' && (
@@ -252,6 +428,8 @@ export default function TradeInListerPage() {
             isProcessing={isIdentifying}
             multiple={true}
             maxPhotos={10}
+            scanBarcodes
+            identifyPhotos={IDENTIFY_PHOTOS}
           />
         </div>
       )}
@@ -282,7 +460,7 @@ export default function TradeInListerPage() {
                       key={idx} 
                       src={img} 
                       alt={`Photo ${idx + 1}`} 
-                      className={`w-12 h-12 object-cover rounded ${idx === 0 ? 'ring-2 ring-emerald-500' : ''}`}
+                      className={`w-12 h-12 object-cover rounded ${idx < IDENTIFY_PHOTOS ? 'ring-2 ring-emerald-500' : ''}`}
                     />
                   ))}
                 </div>
@@ -322,8 +500,12 @@ export default function TradeInListerPage() {
                   </label>
                   <Input
                     value={brand}
-                    onChange={(e) => setBrand(e.target.value)}
+                    onChange={(e) => {
+                      setBrand(e.target.value);
+                      confirmField('brand');
+                    }}
                     placeholder="e.g., Marantz"
+                    className={pendingFields.includes('brand') ? 'ring-2 ring-amber-400' : ''}
                   />
                 </div>
                 <div>
@@ -332,11 +514,41 @@ export default function TradeInListerPage() {
                   </label>
                   <Input
                     value={model}
-                    onChange={(e) => setModel(e.target.value)}
+                    onChange={(e) => {
+                      setModel(e.target.value);
+                      confirmField('model');
+                    }}
                     placeholder="e.g., AV30"
+                    className={pendingFields.includes('model') ? 'ring-2 ring-amber-400' : ''}
                   />
                 </div>
               </div>
+              {visionResult && brand === visionResult.brand && (
+                <VisionFieldCheck
+                  label="Brand"
+                  reading={visionResult.fields?.brand}
+                  images={capturedImages}
+                  needsConfirmation={pendingFields.includes('brand')}
+                  onConfirm={() => confirmField('brand')}
+                  onPickAlternative={(value) => {
+                    setBrand(value);
+                    confirmField('brand');
+                  }}
+                />
+              )}
+              {visionResult && model === visionResult.model && (
+                <VisionFieldCheck
+                  label="Model"
+                  reading={visionResult.fields?.model}
+                  images={capturedImages}
+                  needsConfirmation={pendingFields.includes('model')}
+                  onConfirm={() => confirmField('model')}
+                  onPickAlternative={(value) => {
+                    setModel(value);
+                    confirmField('model');
+                  }}
+                />
+              )}
 
               {/* Serial Number */}
               <div>
@@ -365,13 +577,32 @@ export default function TradeInListerPage() {
                   onChange={(e) => {
                     const next = e.target.value;
                     setSerialNumber(next);
+                    setSerialMethod('manual');
+                    confirmField('serial_number');
                     if (next.trim()) {
                       setSerialCaptureStatus('captured');
                     }
                   }}
                   placeholder={serialCaptureStatus === 'captured' ? 'Enter serial number' : 'Optional'}
                   disabled={serialCaptureStatus !== 'captured'}
+                  className={pendingFields.includes('serial_number') ? 'ring-2 ring-amber-400' : ''}
                 />
+                {serialCaptureStatus === 'captured' && serialNumber && serialMethod && serialMethod !== 'manual' && (
+                  <p className="mt-1 text-xs text-zinc-500">{SERIAL_CAPTURE_METHODS[serialMethod].description}</p>
+                )}
+                {visionResult && serialCaptureStatus === 'captured' && serialMethod === 'vision' && (
+                  <VisionFieldCheck
+                    label="Serial number"
+                    reading={visionResult.fields?.serial_number}
+                    images={capturedImages}
+                    needsConfirmation={pendingFields.includes('serial_number')}
+                    onConfirm={() => confirmField('serial_number')}
+                    onPickAlternative={(value) => {
+                      setSerialNumber(value);
+                      confirmField('serial_number');
+                    }}
+                  />
+                )}
                 {serialCaptureStatus !== 'captured' && (
                   <p className="mt-1 text-xs text-zinc-500">
                     Serial input disabled because status is {serialCaptureStatus === 'not_found' ? 'Not found' : 'Skipped'}.
@@ -384,6 +615,20 @@ export default function TradeInListerPage() {
                 <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-3">
                   Condition Grade *
                 </label>
+                <div className="mb-3">
+                  <ConditionAssessmentPanel
+                    images={capturedImages}
+                    brand={brand}
+                    model={model}
+                    assessment={conditionAssessment}
+                    onAssessed={setConditionAssessment}
+                    grade={conditionGrade}
+                    onAccept={(grade, report) => {
+                      setConditionGrade(grade);
+                      setConditionReport(report);
+                    }}
+                  />
+                </div>
                 <div className="grid grid-cols-5 gap-2">
                   {CONDITION_GRADES.map((grade) => (
                     <button
@@ -416,6 +661,24 @@ export default function TradeInListerPage() {
                 />
               </div>
 
+              {/* Condition Checklist */}
+              <ConditionChecklistForm
+                value={conditionChecklist}
+                onChange={setConditionChecklist}
+                suggestedCategory={conditionAssessment?.category}
+              />
+
+              {/* Usage Meters */}
+              <div>
+                <h3 className="font-medium text-zinc-900 dark:text-white mb-1">Usage Meters</h3>
+                <p className="text-xs text-zinc-500 mb-3">
+                  {serialCaptureStatus === 'captured'
+                    ? 'Hours from the unit\'s service menu, kept against the serial. Leave blank if the unit has no such meter.'
+                    : 'Meter readings are kept against the serial number, so capture the serial to record them.'}
+                </p>
+                <MeterReadingInputs value={meterValues} onChange={setMeterValues} />
+              </div>
+
               {/* Pricing */}
               <div className="border-t border-zinc-200 dark:border-zinc-700 pt-6">
                 <h3 className="font-medium text-zinc-900 dark:text-white mb-4">Pricing</h3>
@@ -484,19 +747,93 @@ export default function TradeInListerPage() {
                   Retake Photo
                 </Button>
                 <Button
-                  onClick={() => setStep('review')}
+                  onClick={() => setStep('offer')}
                   className="flex-1"
-                  disabled={!brand || !model || !salePrice || !conditionGrade}
+                  disabled={!brand || !model || !salePrice || !conditionGrade || pendingFields.length > 0 || checklistMissing.length > 0}
                 >
-                  Continue to Review
+                  {offer ? 'Continue to Offer' : 'Continue to Valuation'}
                 </Button>
               </div>
+              {pendingFields.length > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 text-right">
+                  Confirm or correct the highlighted fields to continue
+                </p>
+              )}
+            </div>
+          </Card>
+        </div>
+      )}
+
+      {/* Step 3: Valuation & Offer */}
+      {step === 'offer' && conditionGrade && (
+        <div className="max-w-2xl mx-auto p-6">
+          <Card className="p-6">
+            {offer ? (
+              <div className="space-y-6">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                      Offer {offer.offer_number}
+                    </h2>
+                    <p className="text-sm text-zinc-500">
+                      For {offer.customer_name} · valid until {new Date(offer.expires_at).toLocaleDateString('en-AU')}
+                    </p>
+                  </div>
+                  <TradeInOfferStatusBadge offer={offer} />
+                </div>
+                <div className="p-4 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 text-center">
+                  <p className="text-sm text-emerald-700 dark:text-emerald-400">Offer amount</p>
+                  <p className="text-3xl font-bold text-emerald-700 dark:text-emerald-400">
+                    ${Number(offer.offer_amount).toLocaleString('en-AU')}
+                  </p>
+                </div>
+                <TradeInOfferActions offer={offer} />
+                <p className="text-sm text-zinc-500">
+                  Give the customer the offer sheet. If they need time, the offer stays open in the offers
+                  list until it expires.
+                </p>
+                <div className="flex gap-3">
+                  <Button variant="secondary" onClick={handleDeclineOffer} isLoading={isDecliningOffer}>
+                    Customer Declined
+                  </Button>
+                  <Button onClick={() => setStep('review')} className="flex-1">
+                    Customer Accepted — Review
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-white mb-1">
+                  Valuation
+                </h2>
+                <p className="text-sm text-zinc-500 mb-6">
+                  What to pay for the {brand} {model}, from its condition, age, RRP and how similar units have sold
+                </p>
+                <TradeInValuationPanel
+                  brand={brand}
+                  model={model}
+                  serialNumber={serialCaptureStatus === 'captured' ? serialNumber.trim() || null : null}
+                  conditionGrade={conditionGrade}
+                  rrpAud={rrpAud}
+                  onOfferCreated={setOffer}
+                />
+              </>
+            )}
+            <div className="flex gap-3 mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-700">
+              <Button variant="secondary" onClick={() => setStep('details')}>
+                Back
+              </Button>
+              {!offer && (
+                <Button variant="ghost" onClick={() => setStep('review')}>
+                  Skip (no customer offer)
+                </Button>
+              )}
             </div>
           </Card>
         </div>
       )}
 
-      {/* Step 3: Review */}
+      {/* Step 4: Review */}
       {step === 'review' && (
         <div className="max-w-2xl mx-auto p-6">
           <Card className="p-6">
@@ -551,16 +888,50 @@ export default function TradeInListerPage() {
                 <span className="text-zinc-500">Condition</span>
                 <span className="font-medium capitalize">{conditionGrade}</span>
               </div>
+              {conditionChecklist && getChecklistSummaryLines(conditionChecklist).map(({ label, value }) => (
+                <div key={label} className="flex justify-between py-2 border-b border-zinc-100 dark:border-zinc-800 text-sm">
+                  <span className="text-zinc-500">{label}</span>
+                  <span className="font-medium">{value}</span>
+                </div>
+              ))}
+              {serialCaptureStatus === 'captured' && meterReadings.map((reading) => (
+                <div key={reading.meter_type} className="flex justify-between py-2 border-b border-zinc-100 dark:border-zinc-800 text-sm">
+                  <span className="text-zinc-500">{METER_TYPES[reading.meter_type].label}</span>
+                  <span className="font-medium">{formatMeterReading(reading.reading)}</span>
+                </div>
+              ))}
               <div className="flex justify-between py-2 border-b border-zinc-100 dark:border-zinc-800">
                 <span className="text-zinc-500">RRP</span>
                 <span className="text-zinc-400 line-through">${rrpAud?.toLocaleString() || '—'}</span>
               </div>
+              {offer && (
+                <div className="flex justify-between py-2 border-b border-zinc-100 dark:border-zinc-800">
+                  <span className="text-zinc-500">Traded in by</span>
+                  <span className="font-medium">{offer.customer_name}</span>
+                </div>
+              )}
+              {offer && (
+                <div className="flex justify-between py-2 border-b border-zinc-100 dark:border-zinc-800">
+                  <span className="text-zinc-500">Cost (offer {offer.offer_number})</span>
+                  <span className="font-medium">${Number(offer.offer_amount).toLocaleString('en-AU')}</span>
+                </div>
+              )}
               <div className="flex justify-between py-2">
                 <span className="text-zinc-500">Sale Price</span>
                 <span className="text-2xl font-bold text-emerald-600">${salePrice?.toLocaleString()}</span>
               </div>
             </div>
 
+            {!offer && (
+              <div className="mt-6 pt-6 border-t border-zinc-200 dark:border-zinc-700">
+                <h3 className="font-medium text-zinc-900 dark:text-white mb-1">Traded in by</h3>
+                <p className="text-sm text-zinc-500 mb-4">
+                  Links the unit to the customer who supplied it; leave blank if unknown
+                </p>
+                <CustomerPicker value={supplier} onChange={setSupplier} />
+              </div>
+            )}
+
             {/* Sync targets */}
             <div className="mt-6 p-4 bg-zinc-50 dark:bg-zinc-800/50 rounded-lg">
               <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">Will sync to:</p>
@@ -586,7 +957,7 @@ export default function TradeInListerPage() {
 
             {/* Actions */}
             <div className="flex gap-3 mt-6">
-              <Button variant="secondary" onClick={() => setStep('details')}>
+              <Button variant="secondary" onClick={() => setStep('offer')}>
                 Back
               </Button>
               <Button onClick={handleCreate} isLoading={isCreating} className="flex-1">
@@ -599,3 +970,15 @@ export default function TradeInListerPage() {
     </Shell>
   );
 }
+
+export default function TradeInListerPage() {
+  return (
+    <Suspense fallback={
+      <Shell title="Trade-In Intake" subtitle="Loading...">
+        <div className="p-8 text-center text-zinc-500">Loading...</div>
+      </Shell>
+    }>
+      <TradeInListerContent />
+    </Suspense>
+  );
+}
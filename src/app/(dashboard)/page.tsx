@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { Shell } from '@/components/shell';
 import { Card } from '@/components/ui/Card';
 import { AnalyticsDashboard } from '@/components/analytics';
-import type { InventoryItem } from '@/types';
+import { RRP_ALERT_TYPES, type InventoryItem, type RrpAlertWithItem } from '@/types';
 
 interface DashboardStats {
   totalItems: number;
@@ -36,6 +36,7 @@ export default function DashboardPage() {
     notion: { configured: false, status: 'not_configured' },
   });
   const [isLoading, setIsLoading] = useState(true);
+  const [priceAlerts, setPriceAlerts] = useState<RrpAlertWithItem[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -101,6 +102,14 @@ export default function DashboardPage() {
     fetchData();
   }, []);
 
+  // Price-watch alerts are secondary; failures just hide the card
+  useEffect(() => {
+    fetch('/api/rrp/alerts?status=open&limit=8')
+      .then((response) => response.json())
+      .then((data) => setPriceAlerts(data.alerts || []))
+      .catch(() => setPriceAlerts([]));
+  }, []);
+
   return (
     <Shell title="Dashboard" subtitle="Welcome to CHT Command Centre">
       {/* Error State */}
@@ -372,6 +381,38 @@ export default function DashboardPage() {
           </div>
         </Card>
       </div>
+
+      {/* Price Alerts (RRP price-watch) */}
+      {priceAlerts.length > 0 && (
+        <Card className="mt-6">
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Price Alerts</h2>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {priceAlerts.map((alert) => (
+              <Link
+                key={alert.id}
+                href={`/inventory/${alert.inventory_item_id}`}
+                className="flex items-center gap-4 p-4 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 transition-colors"
+              >
+                <span className={`px-2 py-0.5 text-xs font-medium rounded ${
+                  RRP_ALERT_TYPES[alert.alert_type].color === 'red'
+                    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                }`}>
+                  {RRP_ALERT_TYPES[alert.alert_type].label}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-zinc-900 dark:text-white truncate">
+                    {alert.item ? `${alert.item.brand} ${alert.item.model}` : 'Unknown item'}
+                  </p>
+                  <p className="text-sm text-zinc-500 truncate">{alert.message}</p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </Card>
+      )}
     </Shell>
   );
 }
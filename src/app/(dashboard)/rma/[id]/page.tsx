@@ -5,8 +5,18 @@ import Link from 'next/link';
 import { Shell } from '@/components/shell';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { SerialOwnershipChain } from '@/components/customers';
+import { MeterReadingHistory, MeterReadingInputs, toMeterReadingInputs, type MeterReadingValues } from '@/components/rma';
 import { notify } from '@/lib/store/app-store';
-import type { RmaCase, RmaStatus, ServiceEventType } from '@/types';
+import {
+  METER_READING_CONTEXTS,
+  type MeterReadingContext,
+  type RmaCase,
+  type RmaStatus,
+  type SerialMeterReading,
+  type SerialOwnershipEntry,
+  type ServiceEventType,
+} from '@/types';
 
 const STATUS_OPTIONS: Array<{ value: RmaStatus; label: string }> = [
   { value: 'received', label: 'Received' },
@@ -18,12 +28,18 @@ const STATUS_OPTIONS: Array<{ value: RmaStatus; label: string }> = [
 
 const EVENT_OPTIONS: ServiceEventType[] = [
   'service_note',
-  'lamp_hours_recorded',
   'rma_testing',
   'rma_sent_to_manufacturer',
   'rma_repaired_replaced',
 ];
 
+const RMA_METER_CONTEXTS: Exclude<MeterReadingContext, 'trade_in'>[] = ['rma_intake', 'rma_return', 'service_check'];
+
+// Readings taken once the unit is repaired or replaced are return readings
+function defaultMeterContext(status: RmaStatus): MeterReadingContext {
+  return status === 'repaired_replaced' || status === 'back_to_customer' ? 'rma_return' : 'rma_intake';
+}
+
 const COMM_TEMPLATE_OPTIONS = [
   { value: 'received_ack', label: 'Received Acknowledgement' },
   { value: 'testing_update', label: 'Testing Update' },
@@ -215,6 +231,10 @@ export default function RmaCaseDetailPage({ params }: { params: Promise<{ id: st
     created_at: string;
     metadata: Record<string, unknown>;
   }>>([]);
+  const [ownership, setOwnership] = useState<SerialOwnershipEntry[]>([]);
+  const [meterReadings, setMeterReadings] = useState<SerialMeterReading[]>([]);
+  const [meterValues, setMeterValues] = useState<MeterReadingValues>({});
+  const [meterContext, setMeterContext] = useState<MeterReadingContext>('rma_intake');
   const [isLoading, setIsLoading] = useState(true);
   const [statusValue, setStatusValue] = useState<RmaStatus>('received');
   const [statusNote, setStatusNote] = useState('');
@@ -262,6 +282,9 @@ export default function RmaCaseDetailPage({ params }: { params: Promise<{ id: st
       const nextCase = data.case as RmaCase;
       setRmaCase(nextCase);
       setEvents(data.events || []);
+      setOwnership(data.ownership || []);
+      setMeterReadings(data.meterReadings || []);
+      setMeterContext(defaultMeterContext(nextCase.status));
       setStatusValue(nextCase.status);
       setWarrantyStatus(nextCase.warranty_status || 'unknown');
       setWarrantyBasis(nextCase.warranty_basis || 'unknown');
@@ -366,6 +389,31 @@ export default function RmaCaseDetailPage({ params }: { params: Promise<{ id: st
     }
   };
 
+  const saveMeterReadings = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/rma/${id}/meters`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          context: meterContext,
+          readings: toMeterReadingInputs(meterValues),
+        }),
+      });
+      const data = await response.json();
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      notify.success('Meter readings recorded', METER_READING_CONTEXTS[meterContext].label);
+      setMeterValues({});
+      loadCase();
+    } catch (error) {
+      notify.error('Failed to record meter readings', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const generateSuggestion = async () => {
     setIsSubmitting(true);
     try {
@@ -627,7 +675,16 @@ export default function RmaCaseDetailPage({ params }: { params: Promise<{ id: st
         <Card className="xl:col-span-7 rounded-2xl border-zinc-200/80 dark:border-zinc-700/80 shadow-sm">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
             <p><span className="text-zinc-500">Order:</span> {rmaCase.shopify_order_name || rmaCase.shopify_order_id}</p>
-            <p><span className="text-zinc-500">Customer:</span> {rmaCase.customer_name || rmaCase.customer_email || 'Unknown'}</p>
+            <p>
+              <span className="text-zinc-500">Customer:</span>{' '}
+              {rmaCase.customer_id ? (
+                <Link href={`/customers?id=${rmaCase.customer_id}`} className="text-emerald-600 hover:underline">
+                  {rmaCase.customer_name || rmaCase.customer_email || 'Customer record'}
+                </Link>
+              ) : (
+                rmaCase.customer_name || rmaCase.customer_email || 'Unknown'
+              )}
+            </p>
             <p><span className="text-zinc-500">Serial:</span> {rmaCase.serial_number || 'N/A'}</p>
             <p><span className="text-zinc-500">Source:</span> {formatSourceLabel(rmaCase.source)}</p>
             <p className="md:col-span-2"><span className="text-zinc-500">Issue:</span> {rmaCase.issue_summary}</p>
@@ -844,8 +901,35 @@ export default function RmaCaseDetailPage({ params }: { params: Promise<{ id: st
                 {events.length === 0 && <p className="text-sm text-zinc-500">No service events yet.</p>}
               </div>
             </Card>
+            <Card className="mt-4 rounded-2xl border-zinc-200/80 dark:border-zinc-700/80 shadow-sm">
+              <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-3">Ownership Chain</h3>
+              <SerialOwnershipChain entries={ownership} />
+            </Card>
+            <Card className="mt-4 rounded-2xl border-zinc-200/80 dark:border-zinc-700/80 shadow-sm">
+              <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-3">Usage Meters</h3>
+              <MeterReadingHistory readings={meterReadings} />
+            </Card>
           </div>
           <div className="space-y-4">
+            <Card className="rounded-2xl border-zinc-200/80 dark:border-zinc-700/80 shadow-sm">
+              <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-3">Record Meter Readings</h3>
+              <select value={meterContext} onChange={(e) => setMeterContext(e.target.value as MeterReadingContext)} className="w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 py-2 text-sm mb-3">
+                {RMA_METER_CONTEXTS.map((context) => (
+                  <option key={context} value={context}>{METER_READING_CONTEXTS[context].label}</option>
+                ))}
+              </select>
+              <MeterReadingInputs value={meterValues} onChange={setMeterValues} stacked />
+              <Button
+                className="w-full mt-3"
+                variant="secondary"
+                onClick={saveMeterReadings}
+                isLoading={isSubmitting}
+                disabled={!rmaCase.serial_number || toMeterReadingInputs(meterValues).length === 0}
+              >
+                Record Readings
+              </Button>
+              {!rmaCase.serial_number && <p className="text-xs text-zinc-500 mt-2">Add a serial number to record meter readings.</p>}
+            </Card>
             <Card className="rounded-2xl border-zinc-200/80 dark:border-zinc-700/80 shadow-sm">
               <h3 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 mb-3">Add Service Event</h3>
               <select value={eventType} onChange={(e) => setEventType(e.target.value as ServiceEventType)} className="w-full rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 py-2 text-sm mb-3">
@@ -1,18 +1,91 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { Shell } from '@/components/shell';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { notify } from '@/lib/store/app-store';
-import type { InventoryItem } from '@/types';
+import {
+  CONDITION_GRADES,
+  LISTING_STATUSES,
+  NOTION_RECONCILED_FIELDS,
+  getSyncTargetLabel,
+  type ConditionGrade,
+  type InventoryItem,
+  type ListingStatus,
+  type NotionConflictResolution,
+  type NotionFieldValue,
+  type NotionReconciledField,
+  type NotionSyncConflictWithItem,
+  type StockDriftEntry,
+  type StockDriftResolution,
+  type SyncJob,
+} from '@/types';
+
+type SyncJobWithItem = SyncJob & {
+  item: Pick<InventoryItem, 'id' | 'brand' | 'model' | 'listing_type' | 'sync_status'> | null;
+};
+
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
+function formatNotionValue(field: NotionReconciledField, value: NotionFieldValue): string {
+  if (value === null || value === '') return '—';
+  if (field === 'listing_status') return LISTING_STATUSES[value as ListingStatus]?.label ?? String(value);
+  if (field === 'condition_grade') return CONDITION_GRADES[value as ConditionGrade]?.label ?? String(value);
+  if (field === 'sale_price') return `$${Number(value).toLocaleString()}`;
+  return String(value);
+}
 
 export default function SyncStatusPage() {
   const [pendingItems, setPendingItems] = useState<InventoryItem[]>([]);
   const [errorItems, setErrorItems] = useState<InventoryItem[]>([]);
+  const [activeJobs, setActiveJobs] = useState<SyncJobWithItem[]>([]);
+  const [deadJobs, setDeadJobs] = useState<SyncJobWithItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [notionConflicts, setNotionConflicts] = useState<NotionSyncConflictWithItem[]>([]);
+  const [resolvingConflictId, setResolvingConflictId] = useState<string | null>(null);
+  const [isPullingNotion, setIsPullingNotion] = useState(false);
+  const [stockDrift, setStockDrift] = useState<StockDriftEntry[]>([]);
+  const [resolvingDriftId, setResolvingDriftId] = useState<string | null>(null);
+  const [isCheckingStock, setIsCheckingStock] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const [activeRes, deadRes] = await Promise.all([
+        fetch('/api/sync/jobs?status=queued,leased'),
+        fetch('/api/sync/jobs?status=dead'),
+      ]);
+      const activeData = await activeRes.json();
+      const deadData = await deadRes.json();
+      setActiveJobs(activeData.jobs || []);
+      setDeadJobs(deadData.jobs || []);
+    } catch (error) {
+      console.error('Failed to fetch sync queue:', error);
+    }
+  }, []);
+
+  const fetchNotionConflicts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sync/notion/conflicts');
+      const data = await response.json();
+      setNotionConflicts(data.conflicts || []);
+    } catch (error) {
+      console.error('Failed to fetch Notion conflicts:', error);
+    }
+  }, []);
+
+  const fetchStockDrift = useCallback(async () => {
+    try {
+      const response = await fetch('/api/sync/stock-drift');
+      const data = await response.json();
+      setStockDrift(data.drift || []);
+    } catch (error) {
+      console.error('Failed to fetch stock drift:', error);
+    }
+  }, []);
 
   useEffect(() => {
     async function fetchItems() {
@@ -26,6 +99,8 @@ export default function SyncStatusPage() {
         const errorRes = await fetch('/api/inventory?sync_status=error');
         const errorData = await errorRes.json();
         setErrorItems(errorData.items || []);
+
+        await Promise.all([fetchQueue(), fetchNotionConflicts(), fetchStockDrift()]);
       } catch (error) {
         console.error('Failed to fetch sync items:', error);
       } finally {
@@ -34,7 +109,13 @@ export default function SyncStatusPage() {
     }
 
     fetchItems();
-  }, []);
+  }, [fetchQueue, fetchNotionConflicts, fetchStockDrift]);
+
+  // Keep the queue view live while the worker drains it
+  useEffect(() => {
+    const interval = setInterval(fetchQueue, QUEUE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchQueue]);
 
   const handleSync = async (itemId: string) => {
     setSyncingId(itemId);
@@ -45,18 +126,14 @@ export default function SyncStatusPage() {
       const result = await response.json();
 
       if (result.success) {
-        // Remove from pending list
-        const item = pendingItems.find(i => i.id === itemId);
-        setPendingItems(prev => prev.filter(item => item.id !== itemId));
-        notify.success('Sync complete', `${item?.brand} ${item?.model} synced successfully`);
+        // Queued: the queue section tracks it from here
+        const item = pendingItems.find(i => i.id === itemId) || errorItems.find(i => i.id === itemId);
+        setPendingItems(prev => prev.filter(i => i.id !== itemId));
+        setErrorItems(prev => prev.filter(i => i.id !== itemId));
+        notify.success('Sync queued', `${item?.brand} ${item?.model} queued for sync`);
+        await fetchQueue();
       } else {
-        // Move to error list
-        const item = pendingItems.find(i => i.id === itemId);
-        if (item) {
-          setPendingItems(prev => prev.filter(i => i.id !== itemId));
-          setErrorItems(prev => [...prev, { ...item, sync_status: 'error' }]);
-          notify.error('Sync failed', `${item.brand} ${item.model} failed to sync`);
-        }
+        notify.error('Sync failed', result.error || 'Please try again');
       }
     } catch (error) {
       console.error('Sync failed:', error);
@@ -68,11 +145,151 @@ export default function SyncStatusPage() {
 
   const handleSyncAll = async () => {
     const totalItems = pendingItems.length;
-    notify.info('Syncing all', `Starting sync of ${totalItems} items...`);
-    for (const item of pendingItems) {
-      await handleSync(item.id);
+    try {
+      const response = await fetch('/api/inventory/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'sync', itemIds: pendingItems.map(item => item.id) }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Sync failed', result.error || 'Please try again');
+        return;
+      }
+
+      setPendingItems([]);
+      notify.success('Batch sync queued', `Queued ${result.successCount} of ${totalItems} items`);
+      await fetchQueue();
+    } catch (error) {
+      console.error('Bulk sync failed:', error);
+      notify.error('Sync failed', 'Please try again');
+    }
+  };
+
+  const handleRetryJob = async (job: SyncJobWithItem) => {
+    setRetryingJobId(job.id);
+    try {
+      const response = await fetch(`/api/sync/jobs/${job.id}/retry`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Retry failed', result.error || 'Please try again');
+        return;
+      }
+
+      notify.success('Retry queued', `${getSyncTargetLabel(job.platform)} sync requeued`);
+      await fetchQueue();
+    } catch (error) {
+      console.error('Retry failed:', error);
+      notify.error('Retry failed', 'Please try again');
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const handlePullNotion = async () => {
+    setIsPullingNotion(true);
+    try {
+      const response = await fetch('/api/sync/reconcile/notion', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Notion pull failed', result.error || 'Please try again');
+        return;
+      }
+
+      notify.success(
+        'Notion pull complete',
+        `${result.applied.length} fields updated, ${result.conflicts.length} conflicts, ${result.pushQueuedRunIds.length} items queued for Notion`
+      );
+      await Promise.all([fetchQueue(), fetchNotionConflicts()]);
+    } catch (error) {
+      console.error('Notion pull failed:', error);
+      notify.error('Notion pull failed', 'Please try again');
+    } finally {
+      setIsPullingNotion(false);
+    }
+  };
+
+  const handleResolveConflict = async (
+    conflict: NotionSyncConflictWithItem,
+    resolution: NotionConflictResolution
+  ) => {
+    setResolvingConflictId(conflict.id);
+    try {
+      const response = await fetch(`/api/sync/notion/conflicts/${conflict.id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Resolve failed', result.error || 'Please try again');
+        return;
+      }
+
+      setNotionConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+      notify.success(
+        'Conflict resolved',
+        `Kept ${resolution === 'keep_local' ? 'local' : 'Notion'} ${NOTION_RECONCILED_FIELDS[conflict.field].label}`
+      );
+    } catch (error) {
+      console.error('Resolve failed:', error);
+      notify.error('Resolve failed', 'Please try again');
+    } finally {
+      setResolvingConflictId(null);
+    }
+  };
+
+  const handleCheckStock = async () => {
+    setIsCheckingStock(true);
+    try {
+      const response = await fetch('/api/sync/reconcile/inventory-quantities', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Stock check failed', result.error || 'Please try again');
+        return;
+      }
+
+      notify.success('Stock check complete', `${result.checked} items checked, ${result.drift.length} locations drifted`);
+      await fetchStockDrift();
+    } catch (error) {
+      console.error('Stock check failed:', error);
+      notify.error('Stock check failed', 'Please try again');
+    } finally {
+      setIsCheckingStock(false);
+    }
+  };
+
+  const handleResolveDrift = async (entry: StockDriftEntry, resolution: StockDriftResolution) => {
+    setResolvingDriftId(entry.id);
+    try {
+      const response = await fetch(`/api/sync/stock-drift/${entry.id}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        notify.error('Resolve failed', result.error || 'Please try again');
+        return;
+      }
+
+      setStockDrift((prev) => prev.filter((d) => d.id !== entry.id));
+      notify.success(
+        'Stock drift resolved',
+        resolution === 'push_local' ? 'Pushed our count to Shopify' : 'Accepted the Shopify count'
+      );
+    } catch (error) {
+      console.error('Resolve failed:', error);
+      notify.error('Resolve failed', 'Please try again');
+    } finally {
+      setResolvingDriftId(null);
     }
-    notify.success('Batch sync complete', `Finished syncing ${totalItems} items`);
   };
 
   return (
@@ -101,7 +318,7 @@ export default function SyncStatusPage() {
               </svg>
             </div>
             <div>
-              <p className="text-2xl font-bold text-zinc-900 dark:text-white">{errorItems.length}</p>
+              <p className="text-2xl font-bold text-zinc-900 dark:text-white">{errorItems.length + deadJobs.length}</p>
               <p className="text-sm text-zinc-500">Failed Sync</p>
             </div>
           </div>
@@ -115,8 +332,8 @@ export default function SyncStatusPage() {
               </svg>
             </div>
             <div>
-              <p className="text-2xl font-bold text-emerald-600">Ready</p>
-              <p className="text-sm text-zinc-500">Integrations</p>
+              <p className="text-2xl font-bold text-zinc-900 dark:text-white">{activeJobs.length}</p>
+              <p className="text-sm text-zinc-500">In Queue</p>
             </div>
           </div>
         </Card>
@@ -163,6 +380,172 @@ export default function SyncStatusPage() {
         </div>
       </Card>
 
+      {/* Queue */}
+      {activeJobs.length > 0 && (
+        <Card className="mb-6">
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+            <h2 className="font-semibold text-zinc-900 dark:text-white">In Queue</h2>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {activeJobs.map((job) => (
+              <div key={job.id} className="flex items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={`/inventory/${job.inventory_item_id}`} className="font-medium text-zinc-900 dark:text-white hover:text-emerald-600">
+                    {job.item ? `${job.item.brand} ${job.item.model}` : 'Unknown item'}
+                  </Link>
+                  <p className="text-sm text-zinc-500 truncate">
+                    {getSyncTargetLabel(job.platform)}
+                    {job.attempts > 0 && ` · attempt ${job.attempts} of ${job.max_attempts}`}
+                    {job.last_error && ` · last error: ${job.last_error}`}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                  job.status === 'leased'
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
+                    : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                }`}>
+                  {job.status === 'leased' ? 'Running' : job.last_error ? 'Retry scheduled' : 'Queued'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Dead-lettered jobs */}
+      {deadJobs.length > 0 && (
+        <Card className="mb-6">
+          <div className="p-4 border-b border-zinc-200 dark:border-zinc-700">
+            <h2 className="font-semibold text-red-600">Dead-Lettered Jobs</h2>
+            <p className="text-sm text-zinc-500">These platform syncs ran out of retries</p>
+          </div>
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {deadJobs.map((job) => (
+              <div key={job.id} className="flex items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={`/inventory/${job.inventory_item_id}`} className="font-medium text-zinc-900 dark:text-white hover:text-emerald-600">
+                    {job.item ? `${job.item.brand} ${job.item.model}` : 'Unknown item'}
+                  </Link>
+                  <p className="text-sm text-red-500 truncate">
+                    {getSyncTargetLabel(job.platform)} · {job.attempts} attempts · {job.last_error || 'Unknown error'}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleRetryJob(job)}
+                  isLoading={retryingJobId === job.id}
+                >
+                  Retry
+                </Button>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Notion conflicts */}
+      <Card className="mb-6">
+        <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Notion Conflicts</h2>
+            <p className="text-sm text-zinc-500">Fields edited both here and in Notion since the last pull</p>
+          </div>
+          <Button size="sm" variant="secondary" onClick={handlePullNotion} isLoading={isPullingNotion}>
+            Pull from Notion
+          </Button>
+        </div>
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {notionConflicts.length === 0 ? (
+            <div className="p-8 text-center text-zinc-500">No open conflicts</div>
+          ) : (
+            notionConflicts.map((conflict) => (
+              <div key={conflict.id} className="flex items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={`/inventory/${conflict.inventory_item_id}`} className="font-medium text-zinc-900 dark:text-white hover:text-emerald-600">
+                    {conflict.inventory_item
+                      ? `${conflict.inventory_item.brand} ${conflict.inventory_item.model}`
+                      : 'Unknown item'}
+                  </Link>
+                  <p className="text-sm text-zinc-500 truncate">
+                    {NOTION_RECONCILED_FIELDS[conflict.field].label}
+                    {' · local: '}{formatNotionValue(conflict.field, conflict.local_value)}
+                    {' · Notion: '}{formatNotionValue(conflict.field, conflict.notion_value)}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleResolveConflict(conflict, 'keep_local')}
+                  disabled={resolvingConflictId === conflict.id}
+                >
+                  Keep Local
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleResolveConflict(conflict, 'keep_notion')}
+                  disabled={resolvingConflictId === conflict.id}
+                >
+                  Keep Notion
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
+      {/* Stock drift */}
+      <Card className="mb-6">
+        <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold text-zinc-900 dark:text-white">Stock Drift</h2>
+            <p className="text-sm text-zinc-500">Locations where our count differs from Shopify&apos;s</p>
+          </div>
+          <Button size="sm" variant="secondary" onClick={handleCheckStock} isLoading={isCheckingStock}>
+            Check Shopify
+          </Button>
+        </div>
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {stockDrift.length === 0 ? (
+            <div className="p-8 text-center text-zinc-500">No stock drift</div>
+          ) : (
+            stockDrift.map((entry) => (
+              <div key={entry.id} className="flex items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <Link href={`/inventory/${entry.inventory_item_id}`} className="font-medium text-zinc-900 dark:text-white hover:text-emerald-600">
+                    {entry.inventory_item
+                      ? `${entry.inventory_item.brand} ${entry.inventory_item.model}`
+                      : 'Unknown item'}
+                  </Link>
+                  <p className="text-sm text-zinc-500 truncate">
+                    {entry.location?.name || 'Unknown location'}
+                    {' · ours: '}{entry.quantity}
+                    {' · Shopify: '}{entry.shopify_quantity}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleResolveDrift(entry, 'push_local')}
+                  disabled={resolvingDriftId === entry.id}
+                >
+                  Push Ours
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleResolveDrift(entry, 'accept_shopify')}
+                  disabled={resolvingDriftId === entry.id}
+                >
+                  Accept Shopify
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+
       {/* Error Items */}
       {errorItems.length > 0 && (
         <Card>
@@ -32,6 +32,15 @@ export interface AnalyticsData {
     label: string;
     count: number;
   }[];
+  // Margin on items with a cost price, by the supplier it came from
+  bySupplier: {
+    supplierId: string | null;
+    name: string;
+    count: number;
+    costValue: number;
+    averageMargin: number;
+    targetMargin: number | null;
+  }[];
   timeline: {
     date: string;
     itemsAdded: number;
@@ -50,7 +59,10 @@ export async function GET() {
     // Limited to prevent memory issues with very large datasets
     const { data: items, error, count } = await supabase
       .from('inventory_items')
-      .select('listing_type, sale_price, cost_price, sync_status, condition_grade, created_at', { count: 'exact' })
+      .select(
+        'listing_type, sale_price, cost_price, sync_status, condition_grade, created_at, supplier_id, supplier:suppliers(name, target_margin_percent)',
+        { count: 'exact' }
+      )
       .eq('is_archived', false)
       .limit(MAX_ANALYTICS_ITEMS);
 
@@ -76,6 +88,7 @@ export async function GET() {
         byListingType: [],
         bySyncStatus: [],
         byCondition: [],
+        bySupplier: [],
         timeline: [],
       });
     }
@@ -162,6 +175,42 @@ export async function GET() {
         count: conditionData[grade],
       }));
 
+    // Group margin by supplier
+    const supplierData = itemsWithMargin.reduce((acc, item) => {
+      const key = item.supplier_id || 'none';
+      // Embedded many-to-one relation (typed as an array by the untyped client)
+      const supplier = (Array.isArray(item.supplier) ? item.supplier[0] : item.supplier) as
+        { name: string; target_margin_percent: number | null } | null;
+      if (!acc[key]) {
+        acc[key] = {
+          supplierId: item.supplier_id,
+          name: supplier?.name || 'No supplier',
+          targetMargin: supplier?.target_margin_percent ?? null,
+          count: 0,
+          costValue: 0,
+          marginTotal: 0,
+        };
+      }
+      acc[key].count++;
+      acc[key].costValue += item.cost_price!;
+      acc[key].marginTotal += ((item.sale_price - item.cost_price!) / item.sale_price) * 100;
+      return acc;
+    }, {} as Record<string, {
+      supplierId: string | null;
+      name: string;
+      targetMargin: number | null;
+      count: number;
+      costValue: number;
+      marginTotal: number;
+    }>);
+
+    const bySupplier = Object.values(supplierData)
+      .map(({ marginTotal, ...supplier }) => ({
+        ...supplier,
+        averageMargin: marginTotal / supplier.count,
+      }))
+      .sort((a, b) => b.costValue - a.costValue);
+
     // Timeline - last 30 days
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -210,6 +259,7 @@ export async function GET() {
       byListingType,
       bySyncStatus,
       byCondition,
+      bySupplier,
       timeline,
     };
 
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { resetConditionChecklist, saveConditionChecklist } from '@/lib/condition/checklists';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { saveConditionChecklistSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import { PRODUCT_CATEGORIES, type ProductCategory } from '@/types';
+
+/**
+ * Condition Checklist API
+ *
+ * PUT /api/condition-checklists/[category] - Replace the category's checklist fields
+ * DELETE /api/condition-checklists/[category] - Go back to the built-in checklist
+ *
+ * Items already graded keep the fields they were answered against.
+ */
+
+function isProductCategory(category: string): category is ProductCategory {
+  return category in PRODUCT_CATEGORIES;
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ category: string }> }
+) {
+  const { category } = await params;
+
+  try {
+    if (!isProductCategory(category)) {
+      return NextResponse.json({ error: `Unknown product category: ${category}` }, { status: 404 });
+    }
+
+    const body = validateBody(saveConditionChecklistSchema, await request.json());
+    const checklist = await saveConditionChecklist(createServerClient(), category, body.fields);
+
+    await logAuditEvent({
+      entityType: 'condition_checklist',
+      entityId: checklist.id as string,
+      action: 'update',
+      metadata: { fields: body.fields.map((field) => field.key) },
+      summary: `Updated the ${PRODUCT_CATEGORIES[category].label} condition checklist`,
+    });
+
+    return NextResponse.json({ success: true, checklist });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Condition checklist update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update condition checklist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ category: string }> }
+) {
+  const { category } = await params;
+
+  try {
+    if (!isProductCategory(category)) {
+      return NextResponse.json({ error: `Unknown product category: ${category}` }, { status: 404 });
+    }
+
+    const { checklist, removedId } = await resetConditionChecklist(createServerClient(), category);
+
+    if (removedId) {
+      await logAuditEvent({
+        entityType: 'condition_checklist',
+        entityId: removedId,
+        action: 'delete',
+        summary: `Reset the ${PRODUCT_CATEGORIES[category].label} condition checklist to the default`,
+      });
+    }
+
+    return NextResponse.json({ success: true, checklist });
+  } catch (error) {
+    console.error('Condition checklist reset error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reset condition checklist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listConditionChecklists } from '@/lib/condition/checklists';
+
+/**
+ * Condition Checklists API
+ *
+ * GET /api/condition-checklists - Every product category's checklist,
+ * customised or the built-in default
+ */
+
+export async function GET() {
+  try {
+    const checklists = await listConditionChecklists(createServerClient());
+    return NextResponse.json({ checklists });
+  } catch (error) {
+    console.error('Condition checklists fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch condition checklists' },
+      { status: 500 }
+    );
+  }
+}
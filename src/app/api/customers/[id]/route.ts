@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getCustomer, getCustomerHistory, normalizeCustomerEmail } from '@/lib/customers/customers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateCustomerSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Customer API
+ *
+ * GET /api/customers/[id] - Customer with the units they've traded in,
+ * offers made to them and their RMA cases
+ * PUT /api/customers/[id] - Update contact details and linked IDs
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+    const customer = await getCustomer(supabase, id);
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    const history = await getCustomerHistory(supabase, id);
+    return NextResponse.json({ customer, ...history });
+  } catch (error) {
+    console.error('Customer fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch customer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateCustomerSchema, await request.json());
+    const changes = body.email !== undefined ? { ...body, email: normalizeCustomerEmail(body.email) } : body;
+
+    const { data: updated, error } = await createServerClient()
+      .from('customers')
+      .update(changes)
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another customer already has this email, Shopify customer or HubSpot contact' },
+          { status: 409 }
+        );
+      }
+      throw new Error(error.message);
+    }
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'customer',
+      entityId: id,
+      action: 'update',
+      metadata: { fields: Object.keys(body) },
+      summary: `Updated customer ${updated[0].name}`,
+    });
+
+    return NextResponse.json({ success: true, customer: updated[0] });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Customer update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update customer' },
+      { status: 500 }
+    );
+  }
+}
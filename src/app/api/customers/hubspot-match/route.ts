@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { findHubSpotContacts, isHubSpotContactsConfigured } from '@/lib/hubspot/contacts';
+import { hubSpotContactMatchSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * HubSpot Contact Matching
+ *
+ * POST /api/customers/hubspot-match - HubSpot contacts sharing the email
+ * or phone entered at trade-in intake, with any customer record already
+ * linked to each. Returns configured: false when HubSpot isn't set up.
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(hubSpotContactMatchSchema, await request.json());
+
+    if (!isHubSpotContactsConfigured()) {
+      return NextResponse.json({ configured: false, matches: [] });
+    }
+
+    const matches = await findHubSpotContacts(body);
+    if (matches.length > 0) {
+      const { data: linked, error } = await createServerClient()
+        .from('customers')
+        .select('id, hubspot_contact_id')
+        .in('hubspot_contact_id', matches.map((match) => match.id));
+
+      if (error) {
+        throw new Error(`Failed to load linked customers: ${error.message}`);
+      }
+
+      const customerByContact = new Map((linked || []).map((row) => [row.hubspot_contact_id, row.id]));
+      matches.forEach((match) => {
+        match.customer_id = customerByContact.get(match.id) || null;
+      });
+    }
+
+    return NextResponse.json({ configured: true, matches });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('HubSpot contact match error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to match HubSpot contacts' },
+      { status: 500 }
+    );
+  }
+}
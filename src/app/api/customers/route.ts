@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { findCustomer, listCustomers, normalizeCustomerEmail } from '@/lib/customers/customers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createCustomerSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Customers API
+ *
+ * GET /api/customers - Customers by name (?search= matches name, email or phone)
+ * POST /api/customers - Create a customer; 409 if one already has the
+ * same email, phone, Shopify customer or HubSpot contact
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams.get('search') || undefined;
+    const customers = await listCustomers(createServerClient(), { search });
+    return NextResponse.json({ customers });
+  } catch (error) {
+    console.error('Customers fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch customers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createCustomerSchema, await request.json());
+    const supabase = createServerClient();
+
+    const existing = await findCustomer(supabase, body);
+    if (existing) {
+      return NextResponse.json(
+        { error: `${existing.name} already has these contact details`, customer: existing },
+        { status: 409 }
+      );
+    }
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .insert({ ...body, email: normalizeCustomerEmail(body.email) })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditEvent({
+      entityType: 'customer',
+      entityId: customer.id,
+      action: 'create',
+      summary: `Created customer ${customer.name}`,
+    });
+
+    return NextResponse.json({ success: true, customer });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Customer create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create customer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  computePricePosition,
+  getCompetitorMatrix,
+  suggestRepricing,
+} from '@/lib/pricing/competitors';
+
+/**
+ * GET /api/inventory/[id]/competitors
+ *
+ * Latest price per competitor (retailer, price, stock, URL, last checked),
+ * where our sale price sits against them, and a repricing suggestion when
+ * there is one.
+ *
+ * Query params:
+ * - days: ignore observations older than this (default 30, max 365)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Number.parseInt(searchParams.get('days') || '30', 10) || 30, 365);
+
+    const supabase = createServerClient();
+    const { data: item, error } = await supabase
+      .from('inventory_items')
+      .select('id, brand, model, sku, sale_price, cost_price')
+      .eq('id', id)
+      .single();
+
+    if (error || !item) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const matrix = await getCompetitorMatrix(supabase, id, { days });
+    const position = computePricePosition(item.sale_price, matrix);
+
+    return NextResponse.json({
+      matrix,
+      position,
+      suggestion: suggestRepricing(item, position),
+    });
+  } catch (error) {
+    console.error('Competitor prices fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch competitor prices' },
+      { status: 500 }
+    );
+  }
+}
@@ -39,10 +39,19 @@ export async function POST(
     delete itemData.updated_at;
     delete itemData.shopify_product_id;
     delete itemData.shopify_variant_id;
+    delete itemData.shopify_media;
+    delete itemData.rrp_checked_at;
     delete itemData.sync_status;
     delete itemData.sync_error;
     delete itemData.last_synced_at;
     delete itemData.serial_number;
+    // Linked records are updated in place on sync, so a copy must not share them
+    delete itemData.hubspot_deal_id;
+    delete itemData.notion_page_id;
+    delete itemData.notion_snapshot;
+    // A copy is a standalone product, not another variant of the group
+    delete itemData.product_group_id;
+    delete itemData.variant_options;
     
     // Create the duplicate with modified title
     const duplicateData = {
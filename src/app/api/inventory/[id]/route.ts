@@ -1,5 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
+import { enqueueClosedWonDealSync } from '@/lib/hubspot/deals';
+import { runSyncWorker } from '@/lib/sync/worker';
 import { uuidSchema } from '@/lib/validation/schemas';
 import type { InventoryItemUpdate } from '@/types';
 
@@ -79,6 +81,20 @@ export async function PUT(
 
     const supabase = createServerClient();
 
+    // Detect a transition to sold (the form re-sends listing_status on every save)
+    let becameSold = false;
+    if (body.listing_status === 'sold') {
+      const { data: previous } = await supabase
+        .from('inventory_items')
+        .select('listing_status')
+        .eq('id', id)
+        .maybeSingle();
+      becameSold = !!previous && previous.listing_status !== 'sold';
+      if (becameSold && !body.sold_at) {
+        body.sold_at = new Date().toISOString();
+      }
+    }
+
     const { data: item, error: updateError } = await supabase
       .from('inventory_items')
       .update(body)
@@ -96,6 +112,24 @@ export async function PUT(
       throw updateError;
     }
 
+    // Move the linked HubSpot deal to Closed Won
+    if (becameSold) {
+      try {
+        const runIds = await enqueueClosedWonDealSync(supabase, [id]);
+        if (runIds.length > 0) {
+          after(async () => {
+            try {
+              await runSyncWorker(createServerClient(), { runId: runIds[0] });
+            } catch (error) {
+              console.error('Sync worker error:', error);
+            }
+          });
+        }
+      } catch (error) {
+        console.error('Failed to queue HubSpot Closed Won update:', error);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       item,
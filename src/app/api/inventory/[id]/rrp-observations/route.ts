@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getRrpObservations, listRrpAlerts } from '@/lib/pricing/rrp-watch';
+
+/**
+ * GET /api/inventory/[id]/rrp-observations
+ *
+ * Retailer prices recorded by the RRP price-watch, oldest first, with the
+ * item's open alerts.
+ *
+ * Query params:
+ * - days: how far back to go (default 180, max 730)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Number.parseInt(searchParams.get('days') || '180', 10) || 180, 730);
+
+    const supabase = createServerClient();
+    const [observations, alerts] = await Promise.all([
+      getRrpObservations(supabase, id, { days }),
+      listRrpAlerts(supabase, { itemId: id, status: 'open' }),
+    ]);
+
+    return NextResponse.json({ observations, alerts });
+  } catch (error) {
+    console.error('RRP observations fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch RRP observations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { getStockLevels, pushStockLevels, saveStockLevels } from '@/lib/inventory/stock';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { stockLevelsUpdateSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Stock Levels API
+ *
+ * GET /api/inventory/[id]/stock - Quantity per location
+ * PUT /api/inventory/[id]/stock - Set quantities; pushed to Shopify right
+ *   away when the item is published ({ levels: [{ location_id, quantity }] })
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const levels = await getStockLevels(createServerClient(), id);
+    return NextResponse.json({
+      levels,
+      total: levels.reduce((sum, level) => sum + level.quantity, 0),
+    });
+  } catch (error) {
+    console.error('Stock levels fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch stock levels' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { levels: updates } = validateBody(stockLevelsUpdateSchema, await request.json());
+    const supabase = createServerClient();
+
+    const { data: item, error: fetchError } = await supabase
+      .from('inventory_items')
+      .select('id, shopify_variant_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !item) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
+    const before = await getStockLevels(supabase, id);
+    let levels = await saveStockLevels(supabase, id, updates);
+
+    const changes: Record<string, { old: unknown; new: unknown }> = {};
+    for (const level of levels) {
+      const previous = before.find((entry) => entry.id === level.id)?.quantity ?? 0;
+      if (previous !== level.quantity) {
+        changes[`stock.${level.location?.name || level.location_id}`] = { old: previous, new: level.quantity };
+      }
+    }
+
+    let push = null;
+    if (item.shopify_variant_id && Object.keys(changes).length > 0) {
+      const graphqlClient = await getGraphQLClient();
+      if (graphqlClient) {
+        push = await pushStockLevels(supabase, graphqlClient, item);
+        levels = await getStockLevels(supabase, id);
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await logAuditEvent({
+        entityType: 'inventory_item',
+        entityId: id,
+        action: 'update',
+        changes,
+        metadata: { source: 'stock_levels', shopifyPush: push },
+        summary: 'Updated stock levels',
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      levels,
+      total: levels.reduce((sum, level) => sum + level.quantity, 0),
+      push,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Stock levels update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update stock levels' },
+      { status: 500 }
+    );
+  }
+}
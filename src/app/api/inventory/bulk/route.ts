@@ -1,11 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
-import { publishProduct } from '@/lib/sync/publish';
-import { createSyncChannel, SyncBroadcaster } from '@/lib/realtime/sync-channel';
+import { enqueueSyncRun } from '@/lib/sync/queue';
+import { enqueueClosedWonDealSync } from '@/lib/hubspot/deals';
+import { runSyncWorker } from '@/lib/sync/worker';
 import { logBulkOperation } from '@/lib/audit/logger';
+import { applyBulkPriceUpdate } from '@/lib/pricing/bulk-prices';
 import { bulkOperationSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
 import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
-import type { InventoryItem } from '@/types';
+import type { PriceChangeType } from '@/types';
 
 /**
  * Bulk Operations API
@@ -13,8 +15,9 @@ import type { InventoryItem } from '@/types';
  * POST /api/inventory/bulk
  * 
  * Supports:
- * - Bulk sync to platforms
+ * - Bulk sync to platforms (queued)
  * - Bulk price updates
+ * - Per-item prices (applying repricing suggestions)
  * - Bulk archive
  * - Bulk status changes
  */
@@ -31,6 +34,11 @@ interface BulkPriceUpdateRequest {
   discountPercent?: number;
   /** Fixed price to set (overrides discount) */
   fixedPrice?: number;
+  /** Sale price per item ID (overrides both) */
+  prices?: Record<string, number>;
+  /** How price_history records the change (default bulk_update) */
+  changeType?: Extract<PriceChangeType, 'bulk_update' | 'auto_discount'>;
+  changeReason?: string;
 }
 
 interface BulkArchiveRequest {
@@ -44,7 +52,19 @@ interface BulkStatusRequest {
   listingStatus: 'on_demo' | 'ready_to_sell' | 'sold';
 }
 
-type BulkRequest = BulkSyncRequest | BulkPriceUpdateRequest | BulkArchiveRequest | BulkStatusRequest;
+interface BulkSetPricesRequest {
+  action: 'set_prices';
+  itemIds: string[];
+  /** New sale price per item ID (rounded to whole dollars) */
+  prices: Record<string, number>;
+}
+
+type BulkRequest =
+  | BulkSyncRequest
+  | BulkPriceUpdateRequest
+  | BulkArchiveRequest
+  | BulkStatusRequest
+  | BulkSetPricesRequest;
 
 export async function POST(request: NextRequest) {
   try {
@@ -92,6 +112,9 @@ export async function POST(request: NextRequest) {
       case 'update_status':
         return await handleBulkStatusUpdate(supabase, body as BulkStatusRequest);
 
+      case 'set_prices':
+        return await handleBulkSetPrices(supabase, body as BulkSetPricesRequest);
+
       default:
         return NextResponse.json(
           { error: 'Invalid action' },
@@ -109,6 +132,10 @@ export async function POST(request: NextRequest) {
 
 /**
  * Handle bulk sync to platforms
+ *
+ * Queues one durable sync run per item and drains the queue after the
+ * response is sent. Runs that outlive this request are resumed by
+ * /api/sync/worker, so a timeout no longer loses per-platform progress.
  */
 async function handleBulkSync(
   supabase: ReturnType<typeof createServerClient>,
@@ -117,7 +144,7 @@ async function handleBulkSync(
   // Fetch all items
   const { data: items, error: fetchError } = await supabase
     .from('inventory_items')
-    .select('*')
+    .select('id, listing_type')
     .in('id', itemIds);
 
   if (fetchError || !items) {
@@ -127,92 +154,52 @@ async function handleBulkSync(
     );
   }
 
-  // Update all to syncing status
-  await supabase
-    .from('inventory_items')
-    .update({ sync_status: 'syncing' })
-    .in('id', itemIds);
-
-  // Process each item (in sequence to avoid rate limits)
-  const results: Record<string, { success: boolean; error?: string }> = {};
+  const results: Record<string, { success: boolean; runId?: string; error?: string }> = {};
 
   for (const item of items) {
-    const channel = createSyncChannel(item.id);
-    await channel.subscribe();
-
     try {
-      await SyncBroadcaster.started(channel, item.id);
-      
-      const result = await publishProduct(item as InventoryItem, {
-        onPlatformStart: async (platform) => {
-          await SyncBroadcaster.platformStarted(channel, item.id, platform);
-        },
-        onPlatformComplete: async (platform, platformResult) => {
-          await SyncBroadcaster.platformComplete(channel, item.id, platform, platformResult);
-        },
-      });
-
-      // Update item with results
-      const updateData: Record<string, unknown> = {
-        sync_status: result.success ? 'synced' : 'error',
-        last_synced_at: new Date().toISOString(),
-      };
-
-      if (result.shopify) {
-        updateData.shopify_product_id = result.shopify.product_id;
-        updateData.shopify_variant_id = result.shopify.variant_id;
-      }
-      if (result.hubspot) {
-        updateData.hubspot_deal_id = result.hubspot.deal_id;
-      }
-      if (result.notion) {
-        updateData.notion_page_id = result.notion.page_id;
-      }
-      if (result.errors?.length) {
-        updateData.sync_error = result.errors.join('; ');
-      }
-
-      await supabase
-        .from('inventory_items')
-        .update(updateData)
-        .eq('id', item.id);
-
-      await SyncBroadcaster.complete(channel, item.id, result.success);
-      results[item.id] = { success: result.success };
-
+      const run = await enqueueSyncRun(supabase, item, 'bulk');
+      results[item.id] = { success: true, runId: run.id };
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Sync failed';
-      await SyncBroadcaster.error(channel, item.id, errorMsg);
-      
-      await supabase
-        .from('inventory_items')
-        .update({ sync_status: 'error', sync_error: errorMsg })
-        .eq('id', item.id);
-
-      results[item.id] = { success: false, error: errorMsg };
+      results[item.id] = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to queue sync',
+      };
     }
-
-    await channel.unsubscribe();
   }
 
-  const successCount = Object.values(results).filter(r => r.success).length;
+  const queuedCount = Object.values(results).filter(r => r.success).length;
   const errorCount = Object.values(results).filter(r => !r.success).length;
 
   // Log bulk sync operation
   await logBulkOperation(
     'sync',
     itemIds,
-    { success: successCount, failed: errorCount },
+    { success: queuedCount, failed: errorCount },
     { results }
   );
 
-  return NextResponse.json({
-    success: errorCount === 0,
-    total: itemIds.length,
-    successCount,
-    errorCount,
-    results,
-  });
+  if (queuedCount > 0) {
+    after(async () => {
+      try {
+        await runSyncWorker(createServerClient());
+      } catch (error) {
+        console.error('Bulk sync worker error:', error);
+      }
+    });
+  }
+
+  return NextResponse.json(
+    {
+      success: errorCount === 0,
+      queued: true,
+      total: itemIds.length,
+      successCount: queuedCount,
+      errorCount,
+      results,
+    },
+    { status: 202 }
+  );
 }
 
 /**
@@ -222,88 +209,64 @@ async function handleBulkPriceUpdate(
   supabase: ReturnType<typeof createServerClient>,
   request: BulkPriceUpdateRequest
 ) {
-  const { itemIds, discountPercent, fixedPrice } = request;
+  const { itemIds, discountPercent, fixedPrice, prices, changeType, changeReason } = request;
 
-  if (!discountPercent && !fixedPrice) {
+  if (!discountPercent && !fixedPrice && !prices) {
     return NextResponse.json(
-      { error: 'Either discountPercent or fixedPrice is required' },
+      { error: 'Either discountPercent, fixedPrice or prices is required' },
       { status: 400 }
     );
   }
 
-  // If using discount, fetch items to calculate new prices
-  if (discountPercent !== undefined) {
-    const { data: items, error: fetchError } = await supabase
-      .from('inventory_items')
-      .select('id, rrp_aud')
-      .in('id', itemIds);
-
-    if (fetchError || !items) {
-      return NextResponse.json(
-        { error: 'Failed to fetch items' },
-        { status: 500 }
-      );
-    }
-
-    // Update each item's price based on RRP
-    const updates = items.map(item => ({
-      id: item.id,
-      sale_price: item.rrp_aud 
-        ? Math.round(item.rrp_aud * (1 - discountPercent / 100))
-        : null,
-    }));
-
-    // Batch update
-    for (const update of updates) {
-      if (update.sale_price !== null) {
-        await supabase
-          .from('inventory_items')
-          .update({ sale_price: update.sale_price })
-          .eq('id', update.id);
-      }
-    }
+  const { updated, skipped } = await applyBulkPriceUpdate(
+    supabase,
+    { itemIds, discountPercent, fixedPrice, prices },
+    { changeType, changeReason }
+  );
+  const updatedIds = Object.keys(updated);
 
-    const updatedCount = updates.filter(u => u.sale_price !== null).length;
-    
-    // Log bulk price update
+  // Log bulk price update
+  if (updatedIds.length > 0) {
     await logBulkOperation(
       'price_update',
-      updates.filter(u => u.sale_price !== null).map(u => u.id),
-      { success: updatedCount, failed: 0 },
-      { discountPercent }
+      updatedIds,
+      { success: updatedIds.length, failed: 0 },
+      { discountPercent, fixedPrice, prices, changeType, changeReason }
     );
-
-    return NextResponse.json({
-      success: true,
-      updated: updatedCount,
-      skipped: updates.filter(u => u.sale_price === null).length,
-    });
   }
 
-  // Fixed price update
-  const { error: updateError } = await supabase
-    .from('inventory_items')
-    .update({ sale_price: fixedPrice })
-    .in('id', itemIds);
+  return NextResponse.json({
+    success: true,
+    updated: updatedIds.length,
+    skipped: skipped.length,
+    prices: updated,
+  });
+}
 
-  if (updateError) {
-    return NextResponse.json(
-      { error: 'Failed to update prices' },
-      { status: 500 }
-    );
-  }
+/**
+ * Handle per-item price updates
+ */
+async function handleBulkSetPrices(
+  supabase: ReturnType<typeof createServerClient>,
+  request: BulkSetPricesRequest
+) {
+  const { itemIds, prices } = request;
+  const { updated, skipped } = await applyBulkPriceUpdate(supabase, { itemIds, prices });
+  const updatedCount = Object.keys(updated).length;
 
   // Log bulk price update
   await logBulkOperation(
     'price_update',
     itemIds,
-    { success: itemIds.length, failed: 0 },
-    { fixedPrice }
+    { success: updatedCount, failed: skipped.length },
+    { prices }
   );
 
   return NextResponse.json({
-    success: true,
-    updated: itemIds.length,
+    success: skipped.length === 0,
+    updated: updatedCount,
+    errorCount: skipped.length,
+    prices: updated,
   });
 }
 
@@ -357,12 +320,18 @@ async function handleBulkStatusUpdate(
   // If marking as sold, set the sold timestamp
   if (listingStatus === 'sold') {
     updateData.converted_to_sale_at = new Date().toISOString();
+    updateData.sold_at = updateData.converted_to_sale_at;
   }
 
-  const { error: updateError } = await supabase
+  // Items already sold keep their sale date and don't re-sync their deal
+  let query = supabase
     .from('inventory_items')
     .update(updateData)
     .in('id', itemIds);
+  if (listingStatus === 'sold') {
+    query = query.or('listing_status.is.null,listing_status.neq.sold');
+  }
+  const { data: updated, error: updateError } = await query.select('id');
 
   if (updateError) {
     return NextResponse.json(
@@ -371,17 +340,39 @@ async function handleBulkStatusUpdate(
     );
   }
 
+  const updatedIds = (updated || []).map((item) => item.id as string);
+
   // Log bulk status update
+  const alreadySold = itemIds.filter((id) => !updatedIds.includes(id));
   await logBulkOperation(
     'status_update',
     itemIds,
-    { success: itemIds.length, failed: 0 },
-    { listingStatus }
+    { success: updatedIds.length, failed: 0 },
+    { listingStatus, ...(alreadySold.length > 0 ? { alreadySold } : {}) }
   );
 
+  // Move linked HubSpot deals to Closed Won
+  if (listingStatus === 'sold' && updatedIds.length > 0) {
+    try {
+      const runIds = await enqueueClosedWonDealSync(supabase, updatedIds);
+      if (runIds.length > 0) {
+        after(async () => {
+          try {
+            await runSyncWorker(createServerClient());
+          } catch (error) {
+            console.error('Sync worker error:', error);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Failed to queue HubSpot Closed Won updates:', error);
+    }
+  }
+
   return NextResponse.json({
     success: true,
     status: listingStatus,
-    count: itemIds.length,
+    count: updatedIds.length,
+    alreadySold: alreadySold.length,
   });
 }
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { convertDemoUnitsToSale } from '@/lib/inventory/demo-fleet';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { logBulkOperation } from '@/lib/audit/logger';
+import { demoConversionSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/inventory/demo-fleet/convert
+ *
+ * Convert a batch of on-demo units to sale: each moves to ready_to_sell
+ * with its sale price, condition grade and selling photos. With `publish`
+ * (default) a sync run is queued per unit and the worker started.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { units, publish } = validateBody(demoConversionSchema, await request.json());
+    const supabase = createServerClient();
+
+    const result = await convertDemoUnitsToSale(supabase, units, { publish });
+
+    await logBulkOperation(
+      'convert_to_sale',
+      units.map((unit) => unit.id),
+      { success: result.converted.length, failed: result.failed.length },
+      { publish, failed: result.failed, queued: result.queued }
+    );
+
+    if (Object.keys(result.queued).length > 0) {
+      after(async () => {
+        try {
+          await runSyncWorker(createServerClient());
+        } catch (error) {
+          console.error('Demo conversion sync worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Demo conversion error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to convert demo units' },
+      { status: 500 }
+    );
+  }
+}
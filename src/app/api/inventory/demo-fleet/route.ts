@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { DEFAULT_PLANNING_HORIZON_DAYS, getDemoFleetPlan } from '@/lib/inventory/demo-fleet';
+
+/**
+ * GET /api/inventory/demo-fleet
+ *
+ * On-demo units grouped by demo location with projected 12/24-month
+ * threshold dates and suggested convert-to-sale batches.
+ *
+ * Query params:
+ * - horizonDays: planning window for batches (default 90, max 730)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const horizonDays = Math.min(
+      Math.max(Number.parseInt(searchParams.get('horizonDays') || '', 10) || DEFAULT_PLANNING_HORIZON_DAYS, 0),
+      730
+    );
+
+    const plan = await getDemoFleetPlan(createServerClient(), { horizonDays });
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error('Demo fleet plan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build demo fleet plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { importShopifyLocations } from '@/lib/inventory/stock';
+
+/**
+ * POST /api/inventory/locations/import
+ *
+ * Creates or refreshes stock locations from the Shopify store's locations.
+ */
+export async function POST() {
+  try {
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) {
+      return NextResponse.json({ error: 'Shopify is not configured' }, { status: 503 });
+    }
+
+    const locations = await importShopifyLocations(createServerClient(), graphqlClient);
+    return NextResponse.json({ success: true, locations });
+  } catch (error) {
+    console.error('Location import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import locations' },
+      { status: 500 }
+    );
+  }
+}
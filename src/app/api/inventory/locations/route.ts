@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+
+/**
+ * GET /api/inventory/locations
+ *
+ * Lists stock locations (import them from Shopify with
+ * POST /api/inventory/locations/import).
+ */
+export async function GET() {
+  try {
+    const supabase = createServerClient();
+    const { data: locations, error } = await supabase
+      .from('inventory_locations')
+      .select('*')
+      .order('is_active', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Locations fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch locations' }, { status: 500 });
+    }
+
+    return NextResponse.json({ locations: locations || [] });
+  } catch (error) {
+    console.error('Locations error:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
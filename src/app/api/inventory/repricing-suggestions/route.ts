@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getRepricingSuggestions } from '@/lib/pricing/competitors';
+
+/**
+ * GET /api/inventory/repricing-suggestions
+ *
+ * Suggested sale prices from the competitor matrix, largest change first.
+ * Apply them with the bulk `set_prices` action.
+ *
+ * Query params:
+ * - itemIds: comma-separated item IDs (default: recently price-watched items)
+ * - limit: items to consider without itemIds (default 200, max 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const itemIds = (searchParams.get('itemIds') || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const limit = Math.min(Number.parseInt(searchParams.get('limit') || '200', 10) || 200, 500);
+
+    const suggestions = await getRepricingSuggestions(createServerClient(), {
+      itemIds: itemIds.length ? itemIds : undefined,
+      limit,
+    });
+
+    return NextResponse.json({ suggestions, count: suggestions.length });
+  } catch (error) {
+    console.error('Repricing suggestions error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build repricing suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { createInventoryItemSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
 import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
-import type { InventoryItemInsert } from '@/types';
+import { appendSerialServiceEvent, upsertSerialRegistry } from '@/lib/rma/service';
+import { recordMeterReadings } from '@/lib/rma/meters';
+import type { InventoryItemInsert, MeterReadingInput } from '@/types';
 
 /**
  * Inventory Items API
@@ -26,9 +28,9 @@ export async function POST(request: NextRequest) {
     const rawBody = await request.json();
 
     // Validate with Zod schema
-    let body: InventoryItemInsert;
+    let body: InventoryItemInsert & { meter_readings?: MeterReadingInput[] };
     try {
-      body = validateBody(createInventoryItemSchema, rawBody) as InventoryItemInsert;
+      body = validateBody(createInventoryItemSchema, rawBody) as InventoryItemInsert & { meter_readings?: MeterReadingInput[] };
     } catch (error) {
       if (error instanceof ValidationError) {
         return NextResponse.json(
@@ -54,10 +56,12 @@ export async function POST(request: NextRequest) {
         model: body.model,
         serial_number: body.serial_number || null,
         serial_capture_status: serialCaptureStatus,
+        serial_capture_method: serialCaptureStatus === 'captured' ? body.serial_capture_method || null : null,
         sku: body.sku || null,
         rrp_aud: body.rrp_aud || null,
         cost_price: body.cost_price || null,
         sale_price: body.sale_price,
+        customer_id: body.customer_id || null,
         condition_grade: body.condition_grade || null,
         condition_report: body.condition_report || null,
         // Demo-specific fields
@@ -68,6 +72,8 @@ export async function POST(request: NextRequest) {
         registration_images: body.registration_images || [],
         selling_images: body.selling_images || [],
         vision_ai_response: body.vision_ai_response || null,
+        condition_ai_assessment: body.condition_ai_assessment || null,
+        condition_checklist: body.condition_checklist || null,
         // Content
         title: body.title || `${body.brand} ${body.model}`,
         description_html: body.description_html || null,
@@ -88,6 +94,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Trade-ins start the unit's ownership chain with the customer who supplied it
+    if (item.listing_type === 'trade_in' && item.serial_number) {
+      try {
+        const registry = await upsertSerialRegistry(supabase, {
+          serialNumber: item.serial_number,
+          brand: item.brand,
+          model: item.model,
+          inventoryItemId: item.id,
+        });
+        await appendSerialServiceEvent(supabase, {
+          serialRegistryId: registry.id,
+          customerId: item.customer_id,
+          eventType: 'trade_in_received',
+          summary: `Traded in (${item.condition_grade || 'ungraded'})`,
+          metadata: { inventory_item_id: item.id },
+        });
+        await recordMeterReadings(supabase, {
+          serialRegistryId: registry.id,
+          readings: body.meter_readings || [],
+          context: 'trade_in',
+          inventoryItemId: item.id,
+          customerId: item.customer_id,
+        });
+      } catch (error) {
+        console.error('Failed to record trade-in in serial registry:', error);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       item,
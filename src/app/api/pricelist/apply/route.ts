@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { applyPricelistDiff } from '@/lib/pricelist/diff';
+import { getSupplier } from '@/lib/suppliers/suppliers';
+import { logBulkOperation } from '@/lib/audit/logger';
+import { pricelistApplySchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Pricelist Apply API
+ *
+ * POST /api/pricelist/apply
+ * Body: { priceChanges, newItems, discontinuedIds, source?, supplierId? }
+ *
+ * Applies the selected pricelist diff changes in one transaction: cost/RRP
+ * updates, new items (pending enrichment) and archiving discontinued items.
+ * Price changes are logged to price_history as import; new and re-priced
+ * items are linked to the supplier.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { source, supplierId, ...selection } = validateBody(pricelistApplySchema, await request.json());
+    const supabase = createServerClient();
+
+    const supplier = supplierId ? await getSupplier(supabase, supplierId) : null;
+    if (supplierId && !supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const result = await applyPricelistDiff(supabase, selection, {
+      changeReason: source ? `Pricelist update: ${source}` : undefined,
+      supplier,
+    });
+
+    const itemIds = [
+      ...selection.priceChanges.map((change) => change.itemId),
+      ...selection.discontinuedIds,
+    ];
+    if (itemIds.length > 0) {
+      await logBulkOperation(
+        'pricelist_update',
+        itemIds,
+        { success: result.updated + result.archived, failed: 0 },
+        { source, supplierId, ...result, newSkus: selection.newItems.map((item) => item.sku).filter(Boolean) }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Pricelist apply error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to apply pricelist changes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { diffPricelist } from '@/lib/pricelist/diff';
+import { pricelistDiffSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Pricelist Diff API
+ *
+ * POST /api/pricelist/diff
+ * Body: { items: PricelistItem[] } (from /api/pricelist/parse)
+ *
+ * Compares the pricelist with new-retail inventory and returns cost/RRP
+ * changes for matched items, new SKUs and discontinued SKUs. Nothing is
+ * written; apply the selected changes with /api/pricelist/apply.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { items } = validateBody(pricelistDiffSchema, await request.json());
+    const diff = await diffPricelist(createServerClient(), items);
+
+    return NextResponse.json({ success: true, diff });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Pricelist diff error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to compare pricelist' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+import { createServerClient } from '@/lib/supabase/server';
+import { applySupplierProfile, buildSupplierPromptHints } from '@/lib/suppliers/profile';
+import { getSupplier } from '@/lib/suppliers/suppliers';
 import {
   parsePageWithVision,
   enrichPricelistItem,
@@ -13,9 +16,11 @@ import {
  * 
  * POST /api/pricelist/parse
  * Content-Type: multipart/form-data
- * Body: { file: PDF file }
+ * Body: { file: PDF file, supplierId?: string }
  * 
  * Converts PDF pages to images and uses Claude Vision to extract product data.
+ * With a supplier, its prompt hints guide extraction and its profile (GST
+ * convention, dealer discount, brands) is applied to each line.
  */
 
 export async function POST(request: NextRequest) {
@@ -39,6 +44,7 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
+    const supplierId = String(formData.get('supplierId') || '');
 
     if (!file) {
       return NextResponse.json(
@@ -64,6 +70,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const supplier = supplierId ? await getSupplier(createServerClient(), supplierId) : null;
+    if (supplierId && !supplier) {
+      return NextResponse.json(
+        { error: 'Supplier not found', success: false },
+        { status: 404 }
+      );
+    }
+    const supplierHints = supplier ? buildSupplierPromptHints(supplier) : undefined;
+
     // Convert file to buffer
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -87,11 +102,11 @@ export async function POST(request: NextRequest) {
         const base64Image = `data:image/png;base64,${pageImage.toString('base64')}`;
         
         // Parse this page with Claude Vision
-        const pageResult = await parsePageWithVision(base64Image, pageCount);
+        const pageResult = await parsePageWithVision(base64Image, pageCount, supplierHints);
         
         // Enrich and validate items
         for (const item of pageResult.items) {
-          const enrichedItem = enrichPricelistItem(item);
+          const enrichedItem = applySupplierProfile(enrichPricelistItem(item), supplier);
           const validation = validatePricelistItem(enrichedItem);
           
           if (validation.valid) {
@@ -151,6 +166,7 @@ export async function GET() {
     description: 'Parse a PDF pricelist and extract product data',
     body: {
       file: 'PDF file (multipart/form-data)',
+      supplierId: 'optional supplier whose parsing profile to apply',
     },
     response: {
       success: 'boolean',
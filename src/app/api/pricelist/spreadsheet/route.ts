@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getColumnMappingError,
+  getSpreadsheetFormat,
+  mapSpreadsheetRows,
+  readSpreadsheet,
+  suggestColumnMapping,
+  type PricelistColumnMapping,
+  type PricelistField,
+} from '@/lib/pricelist/spreadsheet';
+import { getSupplier, saveSupplierColumnMapping } from '@/lib/suppliers/suppliers';
+import { pricelistColumnMappingSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Spreadsheet Pricelist API
+ *
+ * POST /api/pricelist/spreadsheet
+ * Content-Type: multipart/form-data
+ * Body: { file: .xlsx or .csv, supplierId?: string, mapping?: JSON column mapping }
+ *
+ * Without `mapping`, returns the headers, sample rows and a column mapping
+ * to confirm (the supplier's saved mapping, else one guessed from the
+ * headers). With `mapping`, returns the rows as PricelistItem[] (the same
+ * shape as /api/pricelist/parse, with the supplier's profile applied) and
+ * remembers the mapping on the supplier once it has read items. No vision
+ * model is used.
+ */
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const SAMPLE_ROWS = 5;
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const supplierId = String(formData.get('supplierId') || '');
+    const mappingJson = formData.get('mapping');
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided', success: false }, { status: 400 });
+    }
+
+    const format = getSpreadsheetFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'File must be an .xlsx or .csv spreadsheet', success: false },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 10MB', success: false },
+        { status: 400 }
+      );
+    }
+
+    let table;
+    try {
+      table = await readSpreadsheet(Buffer.from(await file.arrayBuffer()), format);
+    } catch (readError) {
+      console.error('Spreadsheet read error:', readError);
+      return NextResponse.json(
+        {
+          error: readError instanceof Error ? readError.message : 'Failed to read spreadsheet',
+          success: false,
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+    const supplier = supplierId ? await getSupplier(supabase, supplierId) : null;
+    if (supplierId && !supplier) {
+      return NextResponse.json({ error: 'Supplier not found', success: false }, { status: 404 });
+    }
+
+    if (typeof mappingJson === 'string' && mappingJson) {
+      let mappingInput: unknown;
+      try {
+        mappingInput = JSON.parse(mappingJson);
+      } catch {
+        return NextResponse.json(
+          { error: 'Column mapping must be valid JSON', success: false },
+          { status: 400 }
+        );
+      }
+      const mapping = validateBody(pricelistColumnMappingSchema, mappingInput);
+      const mappingError = getColumnMappingError(table, mapping);
+      if (mappingError) {
+        return NextResponse.json({ error: mappingError, success: false }, { status: 400 });
+      }
+      const { items, warnings } = mapSpreadsheetRows(table, mapping, supplier);
+
+      // Only remember a mapping that read something
+      if (supplier && items.length > 0) {
+        await saveSupplierColumnMapping(supabase, supplier.id, mapping);
+      }
+
+      return NextResponse.json({
+        success: true,
+        items,
+        warnings,
+        rowCount: table.rows.length,
+        sheetName: table.sheetName,
+      });
+    }
+
+    // Saved columns still present in this file win; guesses fill the rest
+    const mapping: PricelistColumnMapping = {};
+    for (const [field, header] of Object.entries(supplier?.column_mapping || {}) as Array<[PricelistField, string]>) {
+      if (table.headers.includes(header)) mapping[field] = header;
+    }
+    const mappingSource = Object.keys(mapping).length > 0 ? 'saved' : 'suggested';
+
+    const used = new Set(Object.values(mapping));
+    for (const [field, header] of Object.entries(suggestColumnMapping(table.headers)) as Array<[PricelistField, string]>) {
+      if (!mapping[field] && !used.has(header)) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      headers: table.headers,
+      sampleRows: table.rows.slice(0, SAMPLE_ROWS),
+      rowCount: table.rows.length,
+      sheetName: table.sheetName,
+      mapping,
+      mappingSource,
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors, success: false },
+        { status: 400 }
+      );
+    }
+    console.error('Spreadsheet pricelist error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to read spreadsheet pricelist',
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getProductGroup, saveProductGroup } from '@/lib/inventory/product-groups';
+import { deleteShopifyVariants } from '@/lib/sync/targets/shopify';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateProductGroupSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Product Group API
+ *
+ * GET /api/product-groups/[id] - Group with its variants
+ * PUT /api/product-groups/[id] - Replace option axes and the variant list.
+ *   Variants left out are detached into standalone items and their
+ *   Shopify variants deleted. Changed variants are marked pending; publish
+ *   with POST /api/product-groups/[id]/sync.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const group = await getProductGroup(createServerClient(), id);
+    if (!group) {
+      return NextResponse.json({ error: 'Product group not found' }, { status: 404 });
+    }
+    return NextResponse.json({ group });
+  } catch (error) {
+    console.error('Product group fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch product group' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateProductGroupSchema, await request.json());
+    const supabase = createServerClient();
+    const result = await saveProductGroup(supabase, id, body);
+
+    const productId = result.group.shopify_product_id;
+    const detachedVariantIds = result.detached
+      .filter((variant) => variant.shopify_product_id === productId && variant.shopify_variant_id)
+      .map((variant) => variant.shopify_variant_id!);
+    const warnings: string[] = [];
+
+    if (productId && detachedVariantIds.length > 0) {
+      try {
+        await deleteShopifyVariants(productId, detachedVariantIds);
+      } catch (error) {
+        console.error('Shopify variant delete error:', error);
+        warnings.push(
+          `Removed variants are still on Shopify: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    await logAuditEvent({
+      entityType: 'product_group',
+      entityId: id,
+      action: 'update',
+      metadata: {
+        optionNames: body.option_names,
+        created: result.created,
+        updated: result.updated,
+        detached: result.detached.map((variant) => variant.id),
+      },
+      summary: `Saved ${result.group.variants.length} variants` +
+        (result.detached.length > 0 ? `, removed ${result.detached.length}` : ''),
+    });
+
+    return NextResponse.json({ success: true, ...result, warnings });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update product group';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : message.includes('does not belong') ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getProductGroup } from '@/lib/inventory/product-groups';
+import { enqueueSyncRun } from '@/lib/sync/queue';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { logAuditEvent } from '@/lib/audit/logger';
+
+/**
+ * POST /api/product-groups/[id]/sync
+ *
+ * Queues a sync run per variant. The first Shopify job creates the
+ * multi-variant product; later ones add or update their variant on it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+    const group = await getProductGroup(supabase, id);
+
+    if (!group) {
+      return NextResponse.json({ error: 'Product group not found' }, { status: 404 });
+    }
+    if (group.variants.length === 0) {
+      return NextResponse.json({ error: 'Product group has no variants' }, { status: 400 });
+    }
+
+    const runIds: string[] = [];
+    for (const variant of group.variants) {
+      const run = await enqueueSyncRun(supabase, variant, 'bulk');
+      runIds.push(run.id);
+    }
+
+    await logAuditEvent({
+      entityType: 'product_group',
+      entityId: id,
+      action: 'sync_started',
+      metadata: { syncRunIds: runIds },
+      summary: `Queued sync for ${runIds.length} variants`,
+    });
+
+    after(async () => {
+      try {
+        await runSyncWorker(createServerClient());
+      } catch (error) {
+        console.error('Sync worker error:', error);
+      }
+    });
+
+    return NextResponse.json({ success: true, queued: true, runIds }, { status: 202 });
+  } catch (error) {
+    console.error('Product group sync error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to queue sync', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { createProductGroup } from '@/lib/inventory/product-groups';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createProductGroupSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+
+/**
+ * Product Groups API
+ *
+ * POST /api/product-groups - Create a multi-variant product: the group plus
+ * one inventory item per variant (e.g. black and silver finishes)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIp = request.headers.get('x-forwarded-for') || 'anonymous';
+    const rateCheck = checkRateLimit(rateLimiters.inventory, clientIp);
+    if (!rateCheck.allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateCheck.retryAfter },
+        { status: 429 }
+      );
+    }
+
+    const body = validateBody(createProductGroupSchema, await request.json());
+    const supabase = createServerClient();
+    const group = await createProductGroup(supabase, body);
+
+    await logAuditEvent({
+      entityType: 'product_group',
+      entityId: group.id,
+      action: 'create',
+      metadata: {
+        optionNames: group.option_names,
+        variantIds: group.variants.map((variant) => variant.id),
+      },
+      summary: `Created ${group.brand} ${group.model} with ${group.variants.length} variants`,
+    });
+
+    return NextResponse.json({ success: true, group });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Product group create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create product group' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { reExtractProductFromSnapshot, SnapshotNotFoundError } from '@/lib/scraper/snapshots';
+import { uuidSchema } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/products/[id]/re-extract
+ * Body: { snapshotId?: string }
+ *
+ * Re-runs extraction against the product's latest stored page snapshot
+ * (or the given one) without fetching the source URL again.
+ */
+
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!uuidSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'Invalid ID format. Expected a valid UUID.' }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const snapshotId = typeof body.snapshotId === 'string' ? body.snapshotId : undefined;
+    if (snapshotId && !uuidSchema.safeParse(snapshotId).success) {
+      return NextResponse.json({ error: 'Invalid snapshot ID' }, { status: 400 });
+    }
+
+    const { product, snapshot, extraction } = await reExtractProductFromSnapshot(
+      createServerClient(),
+      id,
+      snapshotId
+    );
+    const { htmlParsed, recipe } = extraction;
+
+    return NextResponse.json({
+      success: true,
+      product,
+      snapshot,
+      extracted: {
+        ...extraction.summary,
+        hasJsonLd: !!extraction.jsonLd,
+        imageCount: htmlParsed?.images?.length || 0,
+        specCount: Object.keys(htmlParsed?.specifications || {}).length,
+        recipe: recipe ? { id: recipe.id, domain: recipe.domain, name: recipe.name } : null,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SnapshotNotFoundError) {
+      return NextResponse.json({ error: error.message, success: false }, { status: 404 });
+    }
+    console.error('Re-extract error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Re-extraction failed', success: false },
+      { status: 500 }
+    );
+  }
+}
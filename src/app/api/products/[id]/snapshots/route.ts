@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listScrapeSnapshots } from '@/lib/scraper/snapshots';
+import { uuidSchema } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/products/[id]/snapshots
+ *
+ * Stored page snapshots for a product, newest first, with signed
+ * screenshot URLs.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!uuidSchema.safeParse(id).success) {
+    return NextResponse.json({ error: 'Invalid ID format. Expected a valid UUID.' }, { status: 400 });
+  }
+
+  try {
+    const snapshots = await listScrapeSnapshots(createServerClient(), id);
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('Fetch snapshots error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch snapshots' },
+      { status: 500 }
+    );
+  }
+}
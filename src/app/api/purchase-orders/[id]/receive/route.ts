@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { pushStockLevels, type StockPushResult } from '@/lib/inventory/stock';
+import {
+  findRegisteredSerials,
+  getPurchaseOrder,
+  getReceiptError,
+  receivePurchaseOrder,
+} from '@/lib/suppliers/purchase-orders';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { receivePurchaseOrderSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Purchase Order Receiving API
+ *
+ * POST /api/purchase-orders/[id]/receive - Receive some or all outstanding
+ *   units ({ location_id?, notes?, lines: [{ line_id, quantity, serials }] }).
+ *   Creates items for new products, adds stock at the location (pushed to
+ *   Shopify for published items) and registers the serials.
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(receivePurchaseOrderSchema, await request.json());
+    const supabase = createServerClient();
+
+    const purchaseOrder = await getPurchaseOrder(supabase, id);
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const conflict = getReceiptError(purchaseOrder, body);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const registered = await findRegisteredSerials(supabase, body.lines.flatMap((line) => line.serials));
+    if (registered.length > 0) {
+      return NextResponse.json(
+        { error: `Already registered: ${registered.join(', ')}`, registeredSerials: registered },
+        { status: 409 }
+      );
+    }
+
+    const result = await receivePurchaseOrder(supabase, purchaseOrder, body);
+
+    // Reordered products may already be on Shopify
+    const itemIds = [...new Set(result.lines.map((line) => line.inventory_item_id))];
+    const { data: published } = await supabase
+      .from('inventory_items')
+      .select('id, shopify_variant_id')
+      .in('id', itemIds)
+      .not('shopify_variant_id', 'is', null);
+
+    const pushes: Record<string, StockPushResult> = {};
+    if (published?.length) {
+      const graphqlClient = await getGraphQLClient();
+      if (graphqlClient) {
+        for (const item of published) {
+          pushes[item.id] = await pushStockLevels(supabase, graphqlClient, item);
+        }
+      }
+    }
+
+    const units = result.lines.reduce((sum, line) => sum + line.quantity, 0);
+    await logAuditEvent({
+      entityType: 'purchase_order',
+      entityId: id,
+      action: 'update',
+      changes: { status: { old: purchaseOrder.status, new: result.status } },
+      metadata: { receiptId: result.receipt_id, lines: result.lines, shopifyPush: pushes },
+      summary: `Received ${units} unit${units === 1 ? '' : 's'} on ${purchaseOrder.po_number}`,
+    });
+
+    return NextResponse.json({ success: true, ...result, push: pushes });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Purchase order receive error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to receive purchase order' },
+      { status: 500 }
+    );
+  }
+}
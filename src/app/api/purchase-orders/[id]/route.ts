@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getPurchaseOrder,
+  getPurchaseOrderUpdateError,
+  updatePurchaseOrder,
+} from '@/lib/suppliers/purchase-orders';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updatePurchaseOrderSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Purchase Order API
+ *
+ * GET /api/purchase-orders/[id] - A purchase order with lines and receipts
+ * PUT /api/purchase-orders/[id] - Update details, replace a draft's lines,
+ *   or move it to ordered / cancelled
+ * DELETE /api/purchase-orders/[id] - Delete a draft
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const purchaseOrder = await getPurchaseOrder(createServerClient(), id);
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+    return NextResponse.json({ purchaseOrder });
+  } catch (error) {
+    console.error('Purchase order fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updatePurchaseOrderSchema, await request.json());
+    const supabase = createServerClient();
+
+    const existing = await getPurchaseOrder(supabase, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+
+    const conflict = getPurchaseOrderUpdateError(existing, body);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    const purchaseOrder = await updatePurchaseOrder(supabase, existing, body);
+
+    await logAuditEvent({
+      entityType: 'purchase_order',
+      entityId: id,
+      action: 'update',
+      changes: body.status ? { status: { old: existing.status, new: purchaseOrder.status } } : undefined,
+      metadata: { fields: Object.keys(body) },
+      summary: body.status
+        ? `Marked ${purchaseOrder.po_number} ${body.status}`
+        : `Updated ${purchaseOrder.po_number}`,
+    });
+
+    return NextResponse.json({ success: true, purchaseOrder });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Purchase order update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update purchase order' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+
+    const existing = await getPurchaseOrder(supabase, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+    }
+    if (existing.status !== 'draft') {
+      return NextResponse.json(
+        { error: `Only drafts can be deleted; cancel ${existing.po_number} instead` },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditEvent({
+      entityType: 'purchase_order',
+      entityId: id,
+      action: 'delete',
+      summary: `Deleted draft ${existing.po_number}`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Purchase order delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete purchase order' },
+      { status: 500 }
+    );
+  }
+}
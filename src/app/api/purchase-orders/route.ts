@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { createPurchaseOrder, listPurchaseOrders } from '@/lib/suppliers/purchase-orders';
+import { getSupplier } from '@/lib/suppliers/suppliers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createPurchaseOrderSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import { PURCHASE_ORDER_STATUSES, type PurchaseOrderStatus } from '@/types';
+
+/**
+ * Purchase Orders API
+ *
+ * GET /api/purchase-orders - Purchase orders, newest first
+ *   (?status=ordered, ?supplierId=...)
+ * POST /api/purchase-orders - Create a draft purchase order
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    if (status && !(status in PURCHASE_ORDER_STATUSES)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const purchaseOrders = await listPurchaseOrders(createServerClient(), {
+      status: (status as PurchaseOrderStatus | null) || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+    });
+    return NextResponse.json({ purchaseOrders });
+  } catch (error) {
+    console.error('Purchase orders fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch purchase orders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createPurchaseOrderSchema, await request.json());
+    const supabase = createServerClient();
+
+    const supplier = await getSupplier(supabase, body.supplier_id);
+    if (!supplier) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    const purchaseOrder = await createPurchaseOrder(supabase, body);
+
+    await logAuditEvent({
+      entityType: 'purchase_order',
+      entityId: purchaseOrder.id,
+      action: 'create',
+      metadata: { supplierId: supplier.id, lines: purchaseOrder.lines.length },
+      summary: `Created ${purchaseOrder.po_number} for ${supplier.name}`,
+    });
+
+    return NextResponse.json({ success: true, purchaseOrder });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Purchase order create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create purchase order' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  approveRepricingProposals,
+  listRepricingProposals,
+  rejectRepricingProposals,
+} from '@/lib/pricing/repricing-rules';
+import { repricingDecisionSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import type { RepricingProposalStatus } from '@/types';
+
+const PROPOSAL_STATUSES: RepricingProposalStatus[] = ['pending', 'applied', 'rejected', 'superseded', 'failed'];
+
+/**
+ * Repricing Approval Queue API
+ *
+ * GET /api/repricing/proposals - Proposals, newest first
+ *   - status: pending | applied | rejected | superseded | failed (default: pending)
+ *   - ruleId: one rule's proposals
+ *   - limit: max results (default 200, max 500)
+ * POST /api/repricing/proposals - Approve or reject proposals
+ *   - { action: 'approve' | 'reject', ids: string[] }
+ *   Approved prices go through the bulk price update as auto_discount.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'pending';
+    if (!PROPOSAL_STATUSES.includes(statusParam as RepricingProposalStatus)) {
+      return NextResponse.json({ error: `Invalid status: ${statusParam}` }, { status: 400 });
+    }
+
+    const limit = Math.min(Number.parseInt(searchParams.get('limit') || '200', 10) || 200, 500);
+    const proposals = await listRepricingProposals(createServerClient(), {
+      status: statusParam as RepricingProposalStatus,
+      ruleId: searchParams.get('ruleId') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ proposals, count: proposals.length });
+  } catch (error) {
+    console.error('Repricing proposals fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch repricing proposals' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { action, ids } = validateBody(repricingDecisionSchema, await request.json());
+    const supabase = createServerClient();
+
+    const result = action === 'approve'
+      ? await approveRepricingProposals(supabase, ids)
+      : await rejectRepricingProposals(supabase, ids);
+
+    return NextResponse.json({ success: result.failed.length === 0, ...result });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Repricing decision error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update repricing proposals' },
+      { status: 500 }
+    );
+  }
+}
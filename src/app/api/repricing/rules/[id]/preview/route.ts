@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getRepricingRule, previewRepricingRule } from '@/lib/pricing/repricing-rules';
+
+/**
+ * GET /api/repricing/rules/[id]/preview
+ *
+ * Dry run: the price changes the rule would propose now. Nothing is
+ * queued or changed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const rule = await getRepricingRule(supabase, id);
+    if (!rule) {
+      return NextResponse.json({ error: 'Repricing rule not found' }, { status: 404 });
+    }
+
+    const preview = await previewRepricingRule(supabase, rule);
+    return NextResponse.json({ preview });
+  } catch (error) {
+    console.error('Repricing rule preview error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview repricing rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getRepricingRule, queueRepricingRule } from '@/lib/pricing/repricing-rules';
+
+/**
+ * POST /api/repricing/rules/[id]/queue
+ *
+ * Run the rule and put its price changes in the approval queue, replacing
+ * its pending proposals. Runs paused rules too (for a one-off run).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const rule = await getRepricingRule(supabase, id);
+    if (!rule) {
+      return NextResponse.json({ error: 'Repricing rule not found' }, { status: 404 });
+    }
+
+    const result = await queueRepricingRule(supabase, rule);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Repricing rule queue error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to queue repricing rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateRepricingRuleSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Repricing Rule API
+ *
+ * PUT /api/repricing/rules/[id] - Update a rule (or pause it with is_active)
+ * DELETE /api/repricing/rules/[id] - Delete a rule and its proposals
+ */
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateRepricingRuleSchema, await request.json());
+
+    const { data: updated, error } = await createServerClient()
+      .from('repricing_rules')
+      .update(body.action === 'match_competitor_median' ? { ...body, discount_percent: null } : body)
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      // 23514: check_violation (percent_discount without a percentage)
+      if (error.code === '23514') {
+        return NextResponse.json({ error: 'discount_percent is required to drop by a percentage' }, { status: 400 });
+      }
+      throw new Error(error.message);
+    }
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'Repricing rule not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'repricing_rule',
+      entityId: id,
+      action: 'update',
+      metadata: { fields: Object.keys(body) },
+      summary: `Updated repricing rule "${updated[0].name}"`,
+    });
+
+    return NextResponse.json({ success: true, rule: updated[0] });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Repricing rule update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update repricing rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: deleted, error } = await createServerClient()
+      .from('repricing_rules')
+      .delete()
+      .eq('id', id)
+      .select('id, name');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Repricing rule not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'repricing_rule',
+      entityId: id,
+      action: 'delete',
+      summary: `Deleted repricing rule "${deleted[0].name}"`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Repricing rule delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete repricing rule' },
+      { status: 500 }
+    );
+  }
+}
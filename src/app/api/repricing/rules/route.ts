@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listRepricingRules } from '@/lib/pricing/repricing-rules';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createRepricingRuleSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Repricing Rules API
+ *
+ * GET /api/repricing/rules - All rules
+ * POST /api/repricing/rules - Create a rule
+ */
+
+export async function GET() {
+  try {
+    const rules = await listRepricingRules(createServerClient());
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Repricing rules fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch repricing rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createRepricingRuleSchema, await request.json());
+
+    const { data: rule, error } = await createServerClient()
+      .from('repricing_rules')
+      .insert({
+        ...body,
+        discount_percent: body.action === 'percent_discount' ? body.discount_percent : null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditEvent({
+      entityType: 'repricing_rule',
+      entityId: rule.id,
+      action: 'create',
+      summary: `Created repricing rule "${rule.name}"`,
+    });
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Repricing rule create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create repricing rule' },
+      { status: 500 }
+    );
+  }
+}
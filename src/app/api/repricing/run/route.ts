@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { runRepricingRules } from '@/lib/pricing/repricing-rules';
+
+/**
+ * Repricing Rules Run API
+ *
+ * POST /api/repricing/run (GET is accepted for cron schedulers)
+ *
+ * Runs every active repricing rule and refreshes the approval queue. No
+ * price changes until proposals are approved. Schedule this daily with
+ * the internal API key.
+ */
+
+export const maxDuration = 60;
+
+async function handleRun() {
+  try {
+    const summary = await runRepricingRules(createServerClient());
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Repricing run error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Repricing run failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  return handleRun();
+}
+
+export async function GET() {
+  return handleRun();
+}
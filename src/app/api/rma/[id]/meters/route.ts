@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { checkRateLimit, rateLimiters } from '@/lib/utils/rate-limiter';
+import {
+  rmaMeterReadingsCreateSchema,
+  validateBody,
+  ValidationError,
+} from '@/lib/validation/schemas';
+import { normalizeSerialNumber, upsertSerialRegistry } from '@/lib/rma/service';
+import { recordMeterReadings } from '@/lib/rma/meters';
+
+/**
+ * POST /api/rma/[id]/meters
+ * Record usage meter readings (lamp, laser, power-on hours) for the case's
+ * serial at intake, on return or at a service check.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const clientIp = request.headers.get('x-forwarded-for') || 'anonymous';
+  const rateCheck = checkRateLimit(rateLimiters.inventory, clientIp);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded', retryAfter: rateCheck.retryAfter },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const body = validateBody(rmaMeterReadingsCreateSchema, await request.json());
+    const supabase = createServerClient();
+
+    const { data: rmaCase, error: caseError } = await supabase
+      .from('rma_cases')
+      .select('id, serial_number, inventory_item_id, customer_id')
+      .eq('id', id)
+      .single();
+    if (caseError || !rmaCase) {
+      return NextResponse.json({ error: 'RMA case not found' }, { status: 404 });
+    }
+
+    const serialNumber = normalizeSerialNumber(rmaCase.serial_number);
+    if (!serialNumber) {
+      return NextResponse.json(
+        { error: 'RMA case has no serial number to record meter readings against' },
+        { status: 400 }
+      );
+    }
+
+    const registry = await upsertSerialRegistry(supabase, {
+      serialNumber,
+      inventoryItemId: rmaCase.inventory_item_id || null,
+    });
+
+    const readings = await recordMeterReadings(supabase, {
+      serialRegistryId: registry.id,
+      readings: body.readings,
+      context: body.context,
+      rmaCaseId: rmaCase.id,
+      customerId: rmaCase.customer_id || null,
+      notes: body.notes,
+    });
+
+    return NextResponse.json({ success: true, readings });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('RMA meter reading error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record meter readings' },
+      { status: 500 }
+    );
+  }
+}
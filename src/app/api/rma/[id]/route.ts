@@ -12,7 +12,9 @@ import {
   normalizeSerialNumber,
   upsertSerialRegistry,
 } from '@/lib/rma/service';
-import type { RmaStatus } from '@/types';
+import { listMeterReadings } from '@/lib/rma/meters';
+import { getCustomer, getSerialOwnershipChain } from '@/lib/customers/customers';
+import type { RmaStatus, SerialMeterReading, SerialOwnershipEntry } from '@/types';
 
 export async function GET(
   request: NextRequest,
@@ -42,6 +44,8 @@ export async function GET(
 
     let registry = null;
     let events: unknown[] = [];
+    let ownership: SerialOwnershipEntry[] = [];
+    let meterReadings: SerialMeterReading[] = [];
     if (rmaCase.serial_number) {
       const { data: registryData } = await supabase
         .from('serial_registry')
@@ -57,10 +61,24 @@ export async function GET(
           .eq('serial_registry_id', registryData.id)
           .order('created_at', { ascending: false });
         events = eventData || [];
+
+        try {
+          ownership = await getSerialOwnershipChain(supabase, registryData.id);
+        } catch (ownershipError) {
+          console.error('RMA ownership chain error:', ownershipError);
+        }
+
+        try {
+          meterReadings = await listMeterReadings(supabase, registryData.id);
+        } catch (meterError) {
+          console.error('RMA meter readings error:', meterError);
+        }
       }
     }
 
-    return NextResponse.json({ case: rmaCase, registry, events });
+    const customer = rmaCase.customer_id ? await getCustomer(supabase, rmaCase.customer_id) : null;
+
+    return NextResponse.json({ case: rmaCase, customer, registry, events, ownership, meterReadings });
   } catch (error) {
     console.error('RMA detail error:', error);
     return NextResponse.json(
@@ -175,6 +175,7 @@ export async function POST(
       await appendSerialServiceEvent(supabase, {
         serialRegistryId: registry.id,
         rmaCaseId: updatedCase.id,
+        customerId: updatedCase.customer_id || null,
         eventType: mapRmaStatusToEvent(body.status),
         summary: `RMA status updated to ${body.status}`,
         notes: body.note,
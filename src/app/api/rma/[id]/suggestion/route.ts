@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { createServerClient } from '@/lib/supabase/server';
 import { checkRateLimit, rateLimiters } from '@/lib/utils/rate-limiter';
+import { listMeterReadings } from '@/lib/rma/meters';
+import { summarizeMeterReadings } from '@/lib/rma/meter-summary';
 import { config } from '@/config';
+import type { SerialMeterReading } from '@/types';
 
 const RECOMMENDATION_PROMPT = `You are a post-sales service analyst for a premium Australian home theatre retailer.
-You will receive an RMA case plus serial service history.
+You will receive an RMA case plus serial service history and usage meter readings (lamp, laser and power-on hours).
 Return ONLY JSON:
 {
   "recommendation": "repair" | "replace" | "monitor",
@@ -17,6 +20,8 @@ Guidance:
 - Recommend "replace" when repeat failures suggest recurring defect pattern.
 - Recommend "repair" for isolated/low-frequency service issues.
 - Recommend "monitor" when data is sparse or inconclusive.
+- Weigh usage meters: a lamp near or past its rated life points to a lamp replacement (repair) rather than a unit fault; heavy power-on hours or high daily usage on a unit with repeat failures strengthens "replace"; low hours with a failure suggests an early-life defect.
+- A meter that was reset (was_reset) usually means a lamp or board has already been replaced.
 - Keep rationale under 500 characters.`;
 
 function getAnthropicClient() {
@@ -77,6 +82,15 @@ export async function POST(
           .limit(50)
       : { data: [] };
 
+    let meterReadings: SerialMeterReading[] = [];
+    if (registry) {
+      try {
+        meterReadings = await listMeterReadings(supabase, registry.id);
+      } catch (meterError) {
+        console.error('RMA suggestion meter readings error:', meterError);
+      }
+    }
+
     const historyPayload = {
       rmaCase: {
         id: rmaCase.id,
@@ -94,6 +108,15 @@ export async function POST(
           }
         : null,
       events: events || [],
+      meters: {
+        summary: summarizeMeterReadings(meterReadings),
+        readings: meterReadings.map((reading) => ({
+          meter_type: reading.meter_type,
+          reading: reading.reading,
+          context: reading.context,
+          recorded_at: reading.recorded_at,
+        })),
+      },
     };
 
     const response = await getAnthropicClient().messages.create({
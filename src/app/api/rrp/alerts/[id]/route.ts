@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { updateRrpAlertStatus } from '@/lib/pricing/rrp-watch';
+import { updateRrpAlertSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * PATCH /api/rrp/alerts/[id]
+ * Body: { status: 'dismissed' | 'open' }
+ *
+ * Dismiss an alert (it stays quiet until its condition clears) or reopen it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { status } = validateBody(updateRrpAlertSchema, await request.json());
+    const alert = await updateRrpAlertStatus(createServerClient(), id, status);
+    return NextResponse.json({ success: true, alert });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('RRP alert update error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to update RRP alert';
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listRrpAlerts } from '@/lib/pricing/rrp-watch';
+import type { RrpAlertStatus } from '@/types';
+
+const ALERT_STATUSES: RrpAlertStatus[] = ['open', 'dismissed', 'resolved'];
+
+/**
+ * GET /api/rrp/alerts
+ *
+ * Price-watch alerts, most recently seen first.
+ *
+ * Query params:
+ * - status: open | dismissed | resolved (default: open)
+ * - itemId: alerts for one inventory item
+ * - limit: max results (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'open';
+    if (!ALERT_STATUSES.includes(statusParam as RrpAlertStatus)) {
+      return NextResponse.json({ error: `Invalid status: ${statusParam}` }, { status: 400 });
+    }
+
+    const limit = Math.min(Number.parseInt(searchParams.get('limit') || '50', 10) || 50, 200);
+    const alerts = await listRrpAlerts(createServerClient(), {
+      status: statusParam as RrpAlertStatus,
+      itemId: searchParams.get('itemId') || undefined,
+      limit,
+    });
+
+    return NextResponse.json({ alerts, count: alerts.length });
+  } catch (error) {
+    console.error('RRP alerts fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch RRP alerts' },
+      { status: 500 }
+    );
+  }
+}
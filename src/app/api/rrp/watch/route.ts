@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { runRrpWatch } from '@/lib/pricing/rrp-watch';
+
+/**
+ * RRP Price-Watch API
+ *
+ * POST /api/rrp/watch (GET is accepted for cron schedulers)
+ *
+ * Re-checks RRP for active inventory not checked in the last
+ * RRP_WATCH_RECHECK_HOURS, oldest first, recording every retailer price
+ * and raising/resolving price alerts. Schedule this hourly with the
+ * internal API key; each run checks up to RRP_WATCH_BATCH_SIZE items.
+ *
+ * Query params:
+ * - itemId: check one item now, however recently it was checked
+ * - budgetMs: time budget before the run stops starting new checks
+ */
+
+export const maxDuration = 60;
+
+async function handleWatch(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('itemId');
+    const budgetParam = Number.parseInt(searchParams.get('budgetMs') || '', 10);
+
+    const summary = await runRrpWatch(createServerClient(), {
+      ...(itemId ? { itemIds: [itemId] } : {}),
+      ...(Number.isNaN(budgetParam) ? {} : { budgetMs: budgetParam }),
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('RRP watch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'RRP watch failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handleWatch(request);
+}
+
+export async function GET(request: NextRequest) {
+  return handleWatch(request);
+}
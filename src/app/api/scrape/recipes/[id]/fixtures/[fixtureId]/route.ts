@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { FIXTURE_SUMMARY_COLUMNS } from '@/lib/scraper/recipes';
+import { updateScrapeFixtureSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Scrape Recipe Fixture API
+ *
+ * PATCH /api/scrape/recipes/[id]/fixtures/[fixtureId] - Rename, or replace
+ *   the expected output (e.g. accept a recipe's new output as correct)
+ * DELETE /api/scrape/recipes/[id]/fixtures/[fixtureId]
+ */
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fixtureId: string }> }
+) {
+  const { id, fixtureId } = await params;
+
+  try {
+    const body = validateBody(updateScrapeFixtureSchema, await request.json());
+    const { data: fixture, error } = await createServerClient()
+      .from('scrape_recipe_fixtures')
+      .update({
+        ...body,
+        // A new expectation invalidates the last result
+        ...(body.expected ? { last_run_passed: null, last_run_failures: [] } : {}),
+      })
+      .eq('id', fixtureId)
+      .eq('recipe_id', id)
+      .select(FIXTURE_SUMMARY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!fixture) {
+      return NextResponse.json({ error: 'Fixture not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, fixture });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Fixture update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update fixture' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fixtureId: string }> }
+) {
+  const { id, fixtureId } = await params;
+
+  try {
+    const { data: deleted, error } = await createServerClient()
+      .from('scrape_recipe_fixtures')
+      .delete()
+      .eq('id', fixtureId)
+      .eq('recipe_id', id)
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Fixture not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Fixture delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete fixture' },
+      { status: 500 }
+    );
+  }
+}
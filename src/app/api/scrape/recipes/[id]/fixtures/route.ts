@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { captureScrapeRecipeFixture, getScrapeRecipe, isRecipeDomainUrl } from '@/lib/scraper/recipes';
+import { captureScrapeFixtureSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+
+/**
+ * POST /api/scrape/recipes/[id]/fixtures
+ *
+ * Loads a page with the recipe applied and saves its HTML as a fixture.
+ * The fixture expects what the recipe extracts today, so later recipe
+ * edits (or site changes, once re-captured) can be checked against it.
+ * Body: { url, name? }
+ */
+
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const clientIp = request.headers.get('x-forwarded-for') || 'anonymous';
+  const rateCheck = checkRateLimit(rateLimiters.scraping, clientIp);
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limited. Please wait before scraping more pages.', retryAfter: rateCheck.retryAfter },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const body = validateBody(captureScrapeFixtureSchema, await request.json());
+    const supabase = createServerClient();
+
+    const recipe = await getScrapeRecipe(supabase, id);
+    if (!recipe) {
+      return NextResponse.json({ error: 'Scrape recipe not found' }, { status: 404 });
+    }
+    if (!isRecipeDomainUrl(recipe, body.url)) {
+      return NextResponse.json({ error: `URL is not on ${recipe.domain}` }, { status: 400 });
+    }
+
+    const { fixture, extracted } = await captureScrapeRecipeFixture(supabase, recipe, body);
+
+    return NextResponse.json({ success: true, fixture, extracted });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Fixture capture error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to capture fixture', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getScrapeRecipe } from '@/lib/scraper/recipes';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateScrapeRecipeSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Scrape Recipe API
+ *
+ * GET /api/scrape/recipes/[id] - Recipe with its fixtures
+ * PUT /api/scrape/recipes/[id] - Update selectors, clicks, pagination
+ * DELETE /api/scrape/recipes/[id] - Delete the recipe and its fixtures
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const recipe = await getScrapeRecipe(createServerClient(), id);
+    if (!recipe) {
+      return NextResponse.json({ error: 'Scrape recipe not found' }, { status: 404 });
+    }
+    return NextResponse.json({ recipe });
+  } catch (error) {
+    console.error('Scrape recipe fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch scrape recipe' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateScrapeRecipeSchema, await request.json());
+    const supabase = createServerClient();
+
+    const { data: updated, error } = await supabase
+      .from('scrape_recipes')
+      .update(body)
+      .eq('id', id)
+      .select('id, domain');
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `A recipe for ${body.domain} already exists` }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'Scrape recipe not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'scrape_recipe',
+      entityId: id,
+      action: 'update',
+      metadata: { fields: Object.keys(body) },
+      summary: `Updated scrape recipe for ${updated[0].domain}`,
+    });
+
+    const recipe = await getScrapeRecipe(supabase, id);
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Scrape recipe update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update scrape recipe' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: deleted, error } = await createServerClient()
+      .from('scrape_recipes')
+      .delete()
+      .eq('id', id)
+      .select('id, domain');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Scrape recipe not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'scrape_recipe',
+      entityId: id,
+      action: 'delete',
+      summary: `Deleted scrape recipe for ${deleted[0].domain}`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Scrape recipe delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete scrape recipe' },
+      { status: 500 }
+    );
+  }
+}
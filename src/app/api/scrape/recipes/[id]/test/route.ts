@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getScrapeRecipe, testScrapeRecipe } from '@/lib/scraper/recipes';
+
+/**
+ * POST /api/scrape/recipes/[id]/test
+ *
+ * Runs the recipe against each of its saved HTML fixtures (offline) and
+ * reports which expectations fail.
+ */
+
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+    const recipe = await getScrapeRecipe(supabase, id);
+    if (!recipe) {
+      return NextResponse.json({ error: 'Scrape recipe not found' }, { status: 404 });
+    }
+
+    const results = await testScrapeRecipe(supabase, recipe);
+    return NextResponse.json({
+      success: true,
+      passed: results.every((result) => result.passed),
+      results,
+    });
+  } catch (error) {
+    console.error('Scrape recipe test error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to test scrape recipe', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listScrapeRecipes } from '@/lib/scraper/recipes';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createScrapeRecipeSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Scrape Recipes API
+ *
+ * GET /api/scrape/recipes - All recipes with their fixtures
+ * POST /api/scrape/recipes - Create a recipe for a retailer domain
+ */
+
+export async function GET() {
+  try {
+    const recipes = await listScrapeRecipes(createServerClient());
+    return NextResponse.json({ recipes });
+  } catch (error) {
+    console.error('Scrape recipes fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch scrape recipes' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createScrapeRecipeSchema, await request.json());
+    const supabase = createServerClient();
+
+    const { data: recipe, error } = await supabase
+      .from('scrape_recipes')
+      .insert(body)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `A recipe for ${body.domain} already exists` }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+
+    await logAuditEvent({
+      entityType: 'scrape_recipe',
+      entityId: recipe.id,
+      action: 'create',
+      summary: `Created scrape recipe for ${recipe.domain}`,
+    });
+
+    return NextResponse.json({ success: true, recipe: { ...recipe, fixtures: [] } });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Scrape recipe create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create scrape recipe' },
+      { status: 500 }
+    );
+  }
+}
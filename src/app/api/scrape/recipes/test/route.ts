@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listScrapeRecipes, testScrapeRecipe } from '@/lib/scraper/recipes';
+
+/**
+ * POST /api/scrape/recipes/test
+ *
+ * Runs every active recipe against its saved HTML fixtures. Used by the
+ * integration suite (tests/integration/scrape-recipes.spec.ts) and safe to
+ * schedule after recipe edits.
+ */
+
+export const maxDuration = 60;
+
+export async function POST() {
+  try {
+    const supabase = createServerClient();
+    const recipes = (await listScrapeRecipes(supabase)).filter(
+      (recipe) => recipe.is_active && recipe.fixtures.length > 0
+    );
+
+    const report = [];
+    for (const recipe of recipes) {
+      const results = await testScrapeRecipe(supabase, recipe);
+      report.push({
+        recipeId: recipe.id,
+        domain: recipe.domain,
+        passed: results.every((result) => result.passed),
+        failures: results
+          .filter((result) => !result.passed)
+          .map((result) => ({ fixture: result.name, failures: result.failures })),
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      passed: report.every((entry) => entry.passed),
+      recipes: report,
+    });
+  } catch (error) {
+    console.error('Scrape recipe test run error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run recipe tests', success: false },
+      { status: 500 }
+    );
+  }
+}
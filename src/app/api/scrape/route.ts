@@ -2,11 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { chromium } from 'playwright';
 import { createServerClient } from '@/lib/supabase/server';
 import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+import { findScrapeRecipe, mergeRecipeExtraction, runScrapeRecipe } from '@/lib/scraper/recipes';
+import { extractJsonLd, parseHtml, summarizeScrapedData } from '@/lib/scraper/extract';
+import { captureScrapeSnapshot } from '@/lib/scraper/snapshots';
+import type { ScrapeRecipe, ScrapeRecipeExtraction, ScrapeSnapshot } from '@/types';
 
 /**
  * Scrape API endpoint
  * Extracts product data from a URL using Playwright
- * Priority: JSON-LD first, then HTML fallback
+ * Priority: JSON-LD first, then the domain's scrape recipe (if any), then
+ * HTML heuristics for anything the recipe didn't find. The rendered page is
+ * kept as a snapshot for offline re-extraction.
  * 
  * POST /api/scrape
  * Body: { url: string } OR { productId: string }
@@ -131,9 +137,24 @@ export async function POST(request: NextRequest) {
       await page.waitForTimeout(500);
     }
 
+    // A matching recipe clicks and extracts with its own selectors first
+    let recipe: ScrapeRecipe | null = null;
+    let recipeExtraction: ScrapeRecipeExtraction | null = null;
+    try {
+      recipe = await findScrapeRecipe(createServerClient(), targetUrl);
+      if (recipe) {
+        recipeExtraction = await runScrapeRecipe(page, recipe);
+      }
+    } catch (error) {
+      console.error('Scrape recipe failed, using heuristics:', error);
+    }
+
     // Expand all accordions/collapsible sections before scraping
-    const tabClicked = await clickSpecificationsTab(page);
-    await expandAccordions(page);
+    // (skipped when the recipe already clicked what this site needs)
+    const tabClicked = recipe?.click_selectors.length ? false : await clickSpecificationsTab(page);
+    if (!recipe?.click_selectors.length) {
+      await expandAccordions(page);
+    }
 
     // Debug: Get page HTML structure for specs section
     const debugInfo = await page.evaluate(() => {
@@ -199,8 +220,22 @@ export async function POST(request: NextRequest) {
     // Priority 1: Extract JSON-LD (Source of Truth per PRD)
     const jsonLd = await extractJsonLd(page);
 
-    // Priority 2: HTML parsing fallback
-    const htmlParsed = await parseHtml(page);
+    // Priority 2: Recipe output, with HTML heuristics filling the gaps
+    const heuristicParsed = await parseHtml(page);
+    const htmlParsed = recipeExtraction
+      ? mergeRecipeExtraction(heuristicParsed, recipeExtraction)
+      : heuristicParsed;
+
+    // Keep the page so extraction can be re-run offline later
+    let snapshot: ScrapeSnapshot | null = null;
+    try {
+      snapshot = await captureScrapeSnapshot(createServerClient(), page, {
+        sourceUrl: targetUrl,
+        productId: productRecord?.id,
+      });
+    } catch (error) {
+      console.error('Failed to store scrape snapshot:', error);
+    }
 
     // Build the raw scraped data - use the final URL (may differ if we followed a search result)
     const rawScrapedJson = {
@@ -209,75 +244,24 @@ export async function POST(request: NextRequest) {
       scrapedAt: new Date().toISOString(),
       sourceUrl: targetUrl, // Use final URL after any redirects/follows
       originalSearchUrl: searchPageResult.followed ? sourceUrl : undefined,
+      recipe: recipe ? { id: recipe.id, domain: recipe.domain } : undefined,
+      snapshot: snapshot ? { id: snapshot.id, capturedAt: snapshot.captured_at } : undefined,
     };
 
     // Extract key fields for convenience
-    // Handle JSON-LD brand which can be string or object like { "@type": "Brand", "name": "WiiM" }
-    const extractBrandName = (brand: unknown): string | null => {
-      if (!brand) return null;
-      if (typeof brand === 'string') return brand;
-      if (typeof brand === 'object' && brand !== null) {
-        const brandObj = brand as Record<string, unknown>;
-        if (brandObj.name && typeof brandObj.name === 'string') return brandObj.name;
-      }
-      return null;
-    };
-    
-    // Handle JSON-LD name which can also be an object in some cases
-    const extractName = (name: unknown): string | null => {
-      if (!name) return null;
-      if (typeof name === 'string') return name;
-      if (typeof name === 'object' && name !== null) {
-        const nameObj = name as Record<string, unknown>;
-        if (nameObj.name && typeof nameObj.name === 'string') return nameObj.name;
-      }
-      return null;
-    };
-    
-    const extractedTitle = extractName(jsonLd?.name) || htmlParsed?.title || null;
-    const extractedPrice = parsePrice(jsonLd?.offers?.price || jsonLd?.price || htmlParsed?.price);
-    const extractedDescription = htmlParsed?.description || jsonLd?.description || null;
-    
-    // Try multiple sources for brand
-    let extractedBrand = extractBrandName(jsonLd?.brand) || htmlParsed?.brand || null;
-    
-    // If no brand found, try to extract from title (common pattern: "BrandName ProductModel")
-    // Known audio brands to look for
-    if (!extractedBrand && extractedTitle) {
-      const knownBrands = [
-        'WiiM', 'Marantz', 'Denon', 'Yamaha', 'Sony', 'Bose', 'Sonos', 'KEF', 
-        'Bowers', 'B&W', 'Klipsch', 'JBL', 'Harman', 'Bang', 'Olufsen', 'NAD',
-        'Cambridge', 'Rotel', 'Arcam', 'Naim', 'Focal', 'Dynaudio', 'Dali',
-        'Monitor Audio', 'Polk', 'Definitive', 'SVS', 'REL', 'Emotiva', 'Anthem',
-        'McIntosh', 'Mark Levinson', 'Audio Research', 'Pass Labs', 'Parasound',
-        'Primare', 'Hegel', 'Bluesound', 'Apple', 'Samsung', 'LG', 'Panasonic',
-        'Pioneer', 'Onkyo', 'Integra', 'Technics', 'Audio-Technica', 'Sennheiser',
-        'Shure', 'Beyerdynamic', 'AKG', 'Grado', 'Audeze', 'HiFiMan', 'Astell',
-        'FiiO', 'iFi', 'Topping', 'SMSL', 'Schiit', 'Pro-Ject', 'Rega', 'Thorens'
-      ];
-      
-      const titleLower = extractedTitle.toLowerCase();
-      for (const brand of knownBrands) {
-        if (titleLower.startsWith(brand.toLowerCase() + ' ') || 
-            titleLower.includes(' ' + brand.toLowerCase() + ' ')) {
-          extractedBrand = brand;
-          break;
-        }
-      }
-    }
-    
-    // Also try to extract model from title by removing brand
-    let extractedModel = extractedTitle;
-    if (extractedBrand && extractedTitle) {
-      // Remove brand from beginning of title to get model
-      const brandPattern = new RegExp(`^${extractedBrand}\\s+`, 'i');
-      extractedModel = extractedTitle.replace(brandPattern, '').trim() || extractedTitle;
-    }
+    const {
+      title: extractedTitle,
+      model: extractedModel,
+      brand: extractedBrand,
+      price: extractedPrice,
+      description: extractedDescription,
+    } = summarizeScrapedData(jsonLd, htmlParsed);
 
     // If we have a productRecord, update it in the database
+    let updatedProduct = null;
     if (productRecord?.id) {
       const supabase = createServerClient();
-      const { error: updateError } = await supabase
+      const { data: updated, error: updateError } = await supabase
         .from('product_onboarding')
         .update({
           raw_scraped_json: rawScrapedJson,
@@ -285,11 +269,14 @@ export async function POST(request: NextRequest) {
           rrp_aud: extractedPrice,
           status: 'reviewed',
         })
-        .eq('id', productRecord.id);
+        .eq('id', productRecord.id)
+        .select()
+        .single();
 
       if (updateError) {
         console.error('Failed to save scraped data:', updateError.message);
       }
+      updatedProduct = updated;
     }
 
     await browser.close();
@@ -303,6 +290,9 @@ export async function POST(request: NextRequest) {
       scrapedUrl: targetUrl,
       originalUrl: sourceUrl,
       followedSearchResult: searchPageResult.followed,
+      // The saved product row (productId mode only)
+      product: updatedProduct,
+      snapshot,
       extracted: {
         title: extractedTitle,
         model: extractedModel,
@@ -312,9 +302,11 @@ export async function POST(request: NextRequest) {
         hasJsonLd: !!jsonLd,
         imageCount: htmlParsed?.images?.length || 0,
         specCount: Object.keys(htmlParsed?.specifications || {}).length,
+        recipe: recipe ? { id: recipe.id, domain: recipe.domain, name: recipe.name } : null,
       },
       debug: {
         tabClicked,
+        recipeExtraction,
         urlUsed: targetUrl,
         followedSearchResult: searchPageResult.followed,
         originalUrl: sourceUrl,
@@ -675,478 +667,3 @@ async function expandAccordions(page: import('playwright').Page) {
     console.log('Accordion expansion had some issues (non-fatal):', error);
   }
 }
-
-/**
- * Extract JSON-LD structured data from page
- */
-async function extractJsonLd(page: import('playwright').Page) {
-  try {
-    return await page.evaluate(() => {
-      const scripts = document.querySelectorAll('script[type="application/ld+json"]');
-      
-      for (const script of scripts) {
-        try {
-          const data = JSON.parse(script.textContent || '');
-          
-          // Handle @graph format
-          if (Array.isArray(data['@graph'])) {
-            const product = data['@graph'].find(
-              (item: Record<string, unknown>) => item['@type'] === 'Product'
-            );
-            if (product) return product;
-          }
-          
-          // Direct Product type
-          if (data['@type'] === 'Product') {
-            return data;
-          }
-          
-          // Array of items
-          if (Array.isArray(data)) {
-            const product = data.find(
-              (item: Record<string, unknown>) => item['@type'] === 'Product'
-            );
-            if (product) return product;
-          }
-        } catch {
-          continue;
-        }
-      }
-      return null;
-    });
-  } catch (error) {
-    console.error('JSON-LD extraction error:', error);
-    return null;
-  }
-}
-
-/**
- * Parse HTML for product data (fallback)
- */
-async function parseHtml(page: import('playwright').Page) {
-  return await page.evaluate(() => {
-    const getMetaContent = (name: string): string | undefined => {
-      const meta = document.querySelector(
-        `meta[name="${name}"], meta[property="${name}"], meta[itemprop="${name}"]`
-      );
-      return meta?.getAttribute('content') || undefined;
-    };
-
-    // Title extraction with multiple fallbacks
-    const title = 
-      document.querySelector('h1')?.textContent?.trim() ||
-      getMetaContent('og:title') ||
-      getMetaContent('twitter:title') ||
-      document.title;
-
-    // Description - extract full product description from multiple sources
-    let description: string | undefined;
-    
-    // Try specific product description selectors first (full content)
-    const descriptionSelectors = [
-      '.product-description',
-      '.product-details',
-      '.product-info',
-      '[class*="product-description"]',
-      '[class*="productDescription"]',
-      '[class*="product-details"]',
-      '[class*="product-info"]',
-      '[data-testid="product-description"]',
-      '[itemprop="description"]',
-      '#product-description',
-      '#productDescription',
-      '.description-content',
-      '.prod-desc',
-      '.pdp-description',
-      'article.product',
-      '.product-content',
-      '[class*="ProductDescription"]',
-      '[class*="product_description"]',
-    ];
-    
-    for (const selector of descriptionSelectors) {
-      const el = document.querySelector(selector);
-      if (el) {
-        // Also get text content as fallback
-        const text = el.textContent?.trim();
-        if (text && text.length > 50) {
-          // Store both HTML and text version
-          description = text;
-          break;
-        }
-      }
-    }
-    
-    // Fallback to meta description if no detailed description found
-    if (!description || description.length < 50) {
-      description = 
-        getMetaContent('description') ||
-        getMetaContent('og:description') ||
-        description;
-    }
-    
-    // Try to get HTML description separately for richer content
-    let descriptionHtml: string | undefined;
-    for (const selector of descriptionSelectors) {
-      const el = document.querySelector(selector);
-      if (el) {
-        const html = el.innerHTML?.trim();
-        if (html && html.length > 50) {
-          descriptionHtml = html;
-          break;
-        }
-      }
-    }
-
-    // Price extraction
-    let price: string | undefined;
-    const priceSelectors = [
-      '[class*="price"]:not([class*="was"]):not([class*="old"])',
-      '[data-price]',
-      '[itemprop="price"]',
-      '.product-price',
-      '#product-price',
-    ];
-    
-    for (const selector of priceSelectors) {
-      const el = document.querySelector(selector);
-      if (el) {
-        const text = el.textContent?.trim() || el.getAttribute('data-price') || el.getAttribute('content');
-        if (text && /\$?\d+/.test(text)) {
-          price = text;
-          break;
-        }
-      }
-    }
-
-    // Image extraction - comprehensive selectors for various e-commerce sites
-    const images: string[] = [];
-    const ogImage = getMetaContent('og:image');
-    if (ogImage) images.push(ogImage);
-
-    // Product images from various selectors
-    const imageSelectors = [
-      '.product-image img',
-      '.product-gallery img',
-      '.product-images img',
-      '.gallery img',
-      '.pdp-gallery img',
-      '[class*="product-image"] img',
-      '[class*="productImage"] img',
-      '[class*="ProductImage"] img',
-      '[class*="gallery"] img',
-      '[class*="slider"] img',
-      '[class*="carousel"] img',
-      '[data-zoom-image]',
-      'img[itemprop="image"]',
-      '.slick-slide img',
-      '.swiper-slide img',
-      '[class*="product"] img',
-      'picture source',
-      'picture img',
-      '[data-srcset]',
-      'img[data-src]',
-      'img[data-lazy]',
-      'img[loading="lazy"]',
-    ];
-
-    for (const selector of imageSelectors) {
-      document.querySelectorAll(selector).forEach(el => {
-        // Handle both img and source elements
-        let src = 
-          el.getAttribute('data-zoom-image') ||
-          el.getAttribute('data-large') ||
-          el.getAttribute('data-original') ||
-          el.getAttribute('data-src') ||
-          el.getAttribute('data-lazy') ||
-          el.getAttribute('srcset')?.split(',')[0]?.trim().split(' ')[0] ||
-          el.getAttribute('data-srcset')?.split(',')[0]?.trim().split(' ')[0] ||
-          el.getAttribute('src');
-        
-        // Make relative URLs absolute
-        if (src && src.startsWith('/')) {
-          src = window.location.origin + src;
-        }
-        
-        // Filter out small/placeholder images
-        if (src && 
-            !images.includes(src) && 
-            !src.includes('placeholder') &&
-            !src.includes('loading') &&
-            !src.includes('spinner') &&
-            !src.includes('1x1') &&
-            !src.includes('pixel') &&
-            src.length > 10) {
-          images.push(src);
-        }
-      });
-    }
-
-    // Specifications table extraction - comprehensive selectors
-    const specifications: Record<string, string> = {};
-    let specificationsHtml = '';
-    
-    // Helper to check if text looks like a specification value (not marketing copy)
-    const looksLikeSpecValue = (value: string): boolean => {
-      if (!value || value.length > 300) return false;
-      // Spec values are typically short and contain numbers, units, or technical terms
-      const hasNumbers = /\d/.test(value);
-      const hasUnits = /\b(mm|cm|m|kg|g|lb|oz|W|V|A|Hz|kHz|MHz|GHz|dB|ohm|Ω|ch|channels?|bit|byte|MB|GB|TB)\b/i.test(value);
-      const isShort = value.length < 100;
-      const hasTechTerms = /\b(yes|no|true|false|included|supported|compatible|hdmi|usb|wifi|bluetooth|ethernet|optical|coaxial|rca|xlr|balanced|unbalanced)\b/i.test(value);
-      const looksLikeList = value.includes(',') && value.split(',').length <= 10;
-      const isSentence = value.split(' ').length > 15 && !hasNumbers && !hasUnits;
-      
-      // Reject if it looks like marketing copy (long sentences without technical content)
-      if (isSentence && !hasUnits && !hasTechTerms) return false;
-      
-      return hasNumbers || hasUnits || hasTechTerms || looksLikeList || isShort;
-    };
-    
-    // Helper to check if text looks like a spec label
-    const looksLikeSpecLabel = (label: string): boolean => {
-      if (!label || label.length > 80 || label.length < 2) return false;
-      // Reject common marketing headers
-      const marketingTerms = /\b(enjoy|experience|immersive|outstanding|exceptional|premium|elegant|timeless|modern|leader|flexibility|performance|design)\b/i;
-      if (marketingTerms.test(label)) return false;
-      return true;
-    };
-    
-    const specContainerSelectors = [
-      '.specifications',
-      '.product-specifications', 
-      '.technical-specifications',
-      '.tech-specs',
-      '.product-specs',
-      '[class*="specification"]',
-      '[class*="Specification"]',
-      '#specifications',
-      '#product-specifications',
-      '.features',
-      '.product-features',
-      '[class*="tech-spec"]',
-      '[class*="techSpec"]',
-      // Accordion style specs
-      '[class*="pdp-spec"]',
-      '[class*="accordion"]',
-      '[class*="Accordion"]',
-      '.details-specifications',
-    ];
-    
-    // Try to capture entire specifications section as HTML
-    for (const selector of specContainerSelectors) {
-      const container = document.querySelector(selector);
-      if (container) {
-        const html = container.innerHTML?.trim();
-        if (html && html.length > 100) {
-          specificationsHtml = html;
-          break;
-        }
-      }
-    }
-    
-    const specRowSelectors = [
-      'table.specifications tr',
-      '.specs tr',
-      '.product-specs tr',
-      '.technical-specs tr',
-      '[class*="specification"] tr',
-      '[class*="Specification"] tr',
-      '[class*="tech-spec"] tr',
-      '.features-table tr',
-      '[class*="product-features"] tr',
-      '[class*="details-table"] tr',
-      'table.product-attributes tr',
-      'dl.specifications dt',
-      '.spec-list li',
-      '[class*="spec-row"]',
-      '[class*="spec-item"]',
-      // Accordion-style specs (label + value pairs)
-      '[class*="accordion"] [class*="label"]',
-      '[class*="accordion"] [class*="title"]',
-      '[class*="pdp-spec"] [class*="row"]',
-      '[class*="pdp-spec"] li',
-      // Definition lists anywhere
-      'dl dt',
-      // Generic rows with two children
-      '[class*="feature"] [class*="row"]',
-      'table tr',
-    ];
-
-    for (const selector of specRowSelectors) {
-      // Handle table rows
-      if (selector.includes('tr')) {
-        document.querySelectorAll(selector).forEach(row => {
-          const cells = row.querySelectorAll('td, th');
-          if (cells.length >= 2) {
-            const key = cells[0].textContent?.trim();
-            const value = cells[1].textContent?.trim();
-            if (key && value && key !== value && looksLikeSpecLabel(key) && looksLikeSpecValue(value)) {
-              specifications[key] = value;
-            }
-          }
-        });
-      }
-      // Handle definition lists
-      else if (selector.includes('dt')) {
-        document.querySelectorAll(selector).forEach(dt => {
-          const key = dt.textContent?.trim();
-          const dd = dt.nextElementSibling;
-          const value = dd?.textContent?.trim();
-          if (key && value && key !== value && looksLikeSpecLabel(key) && looksLikeSpecValue(value)) {
-            specifications[key] = value;
-          }
-        });
-      }
-      // Handle accordion label/value pairs
-      else if (selector.includes('label') || selector.includes('title')) {
-        document.querySelectorAll(selector).forEach(labelEl => {
-          const key = labelEl.textContent?.trim();
-          // Try to find sibling or parent value element
-          const valueEl = labelEl.nextElementSibling || 
-                          labelEl.parentElement?.querySelector('[class*="value"]') ||
-                          labelEl.parentElement?.querySelector('[class*="data"]');
-          const value = valueEl?.textContent?.trim();
-          if (key && value && key !== value && looksLikeSpecLabel(key) && looksLikeSpecValue(value)) {
-            specifications[key] = value;
-          }
-        });
-      }
-      // Handle list items with key:value format
-      else if (selector.includes('li') || selector.includes('row') || selector.includes('item')) {
-        document.querySelectorAll(selector).forEach(item => {
-          const text = item.textContent?.trim();
-          if (text && text.includes(':')) {
-            const [key, ...valueParts] = text.split(':');
-            const value = valueParts.join(':').trim();
-            if (key && value && key.trim() !== value.trim() && looksLikeSpecLabel(key.trim()) && looksLikeSpecValue(value)) {
-              specifications[key.trim()] = value;
-            }
-          }
-        });
-      }
-      if (Object.keys(specifications).length > 15) break;
-    }
-    
-    // Additional extraction: Look for any elements with key-value structure
-    // This catches accordion-style specs that might not match standard patterns
-    if (Object.keys(specifications).length < 5) {
-      // Try finding accordion sections with titles and content - but ONLY if content looks like specs
-      document.querySelectorAll('[class*="accordion"], [class*="Accordion"], details, [class*="collapse"], [class*="Collapse"]').forEach(section => {
-        const title = section.querySelector('summary, button, [class*="title"], [class*="header"], h3, h4')?.textContent?.trim();
-        if (title && looksLikeSpecLabel(title) && !title.toLowerCase().includes('more') && !title.toLowerCase().includes('expand')) {
-          // Get content from the expanded section
-          const content = section.querySelector('[class*="content"], [class*="body"], [class*="panel"], .collapse, dd, p');
-          const value = content?.textContent?.trim();
-          if (value && looksLikeSpecValue(value) && title !== value) {
-            specifications[title] = value;
-          }
-        }
-      });
-      
-      // Also try to find any visible label/value pairs
-      document.querySelectorAll('[class*="spec"], [class*="Spec"], [class*="detail"], [class*="Detail"]').forEach(container => {
-        // Look for child elements that might be key-value pairs
-        const children = container.children;
-        if (children.length === 2) {
-          const key = children[0].textContent?.trim();
-          const value = children[1].textContent?.trim();
-          if (key && value && key !== value && looksLikeSpecLabel(key) && looksLikeSpecValue(value)) {
-            specifications[key] = value;
-          }
-        }
-      });
-    }
-    
-    // Marantz/Brand-specific extraction: Look for list items with bold labels
-    // Format: <li><strong>Label</strong> Value</li> or <li><span>Label</span> Value</li>
-    if (Object.keys(specifications).length < 10) {
-      document.querySelectorAll('li, [class*="spec-item"], [class*="spec-row"]').forEach(item => {
-        // Look for a label element (strong, b, span with class)
-        const labelEl = item.querySelector('strong, b, [class*="label"], [class*="name"], [class*="title"]');
-        if (labelEl) {
-          const label = labelEl.textContent?.trim();
-          // Get the rest of the text as value
-          const fullText = item.textContent?.trim() || '';
-          const value = fullText.replace(label || '', '').trim();
-          
-          if (label && value && label !== value && label.length < 80 && value.length < 500) {
-            // Clean up the label (remove trailing colons, etc.)
-            const cleanLabel = label.replace(/[:\-]$/, '').trim();
-            if (cleanLabel) {
-              specifications[cleanLabel] = value;
-            }
-          }
-        }
-      });
-    }
-    
-    // Extract from unordered/ordered lists within spec sections
-    document.querySelectorAll('[class*="specifications"] ul, [class*="spec"] ul, [id*="spec"] ul').forEach(list => {
-      list.querySelectorAll('li').forEach(item => {
-        const text = item.textContent?.trim() || '';
-        // Check if it has a label:value or label - value pattern
-        const colonMatch = text.match(/^([^:]+):\s*(.+)$/);
-        const dashMatch = text.match(/^([^-]+)\s+-\s+(.+)$/);
-        
-        if (colonMatch) {
-          const [, label, value] = colonMatch;
-          if (label && value && label.trim().length < 80) {
-            specifications[label.trim()] = value.trim();
-          }
-        } else if (dashMatch) {
-          const [, label, value] = dashMatch;
-          if (label && value && label.trim().length < 80) {
-            specifications[label.trim()] = value.trim();
-          }
-        }
-      });
-    });
-    
-    // Generate clean specifications HTML table if we have specs
-    if (Object.keys(specifications).length > 0 && !specificationsHtml) {
-      specificationsHtml = '<table class="specifications-table"><tbody>' +
-        Object.entries(specifications)
-          .map(([key, value]) => `<tr><th>${key}</th><td>${value}</td></tr>`)
-          .join('') +
-        '</tbody></table>';
-    }
-
-    // SKU/Model number
-    const sku = 
-      getMetaContent('product:retailer_item_id') ||
-      document.querySelector('[itemprop="sku"]')?.textContent?.trim() ||
-      document.querySelector('[class*="sku"], [class*="model"]')?.textContent?.trim();
-
-    // Brand
-    const brand = 
-      getMetaContent('product:brand') ||
-      document.querySelector('[itemprop="brand"]')?.textContent?.trim();
-
-    return {
-      title,
-      description,
-      descriptionHtml,
-      price,
-      images: images.slice(0, 10), // Limit to 10 images
-      specifications,
-      specificationsHtml,
-      sku,
-      brand,
-    };
-  });
-}
-
-/**
- * Parse price string to number
- */
-function parsePrice(priceStr: string | undefined | null): number | null {
-  if (!priceStr) return null;
-  
-  const cleaned = String(priceStr)
-    .replace(/[AUD$,\s]/gi, '')
-    .replace(/\.00$/, '');
-  
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? null : parsed;
-}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGraphQLClient, isShopifyConfigured } from '@/lib/shopify/client';
+import { syncWebhookSubscriptions } from '@/lib/shopify/webhooks';
+
+const ORDERS_TOPICS = ['ORDERS_CREATE', 'ORDERS_PAID'] as const;
+
+function getCallbackUrl(request: NextRequest): string {
+  const explicit = process.env.SHOPIFY_ORDERS_WEBHOOK_URL || process.env.NEXT_PUBLIC_APP_URL || '';
+  const base = explicit || `${request.nextUrl.protocol}//${request.nextUrl.host}`;
+  return `${base.replace(/\/$/, '')}/api/shopify/webhooks/orders`;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isShopifyConfigured())) {
+      return NextResponse.json({ error: 'Shopify is not configured' }, { status: 503 });
+    }
+
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) {
+      return NextResponse.json({ error: 'Failed to create Shopify GraphQL client' }, { status: 500 });
+    }
+
+    const callbackUrl = getCallbackUrl(request);
+    const result = await syncWebhookSubscriptions(graphqlClient, ORDERS_TOPICS, callbackUrl);
+
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      callbackUrl,
+      ...result,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to register Shopify order webhooks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { enqueueClosedWonDealSync } from '@/lib/hubspot/deals';
+import { recordShopifyOrderSale } from '@/lib/inventory/sales';
+import { verifyWebhookHmac } from '@/lib/shopify/webhooks';
+import { createServerClient } from '@/lib/supabase/server';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { shopifyOrderWebhookSchema, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Shopify orders webhook (orders/create, orders/paid)
+ *
+ * POST /api/shopify/webhooks/orders
+ *
+ * Marks matching inventory items as sold and queues their HubSpot deals
+ * for Closed Won. Both topics fire for most orders; the second delivery
+ * is a no-op for items already recorded.
+ */
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const hmacHeader = request.headers.get('x-shopify-hmac-sha256');
+  const topic = request.headers.get('x-shopify-topic') || 'unknown';
+  const webhookId = request.headers.get('x-shopify-webhook-id') || null;
+
+  if (!verifyWebhookHmac(rawBody, hmacHeader)) {
+    return NextResponse.json({ error: 'Invalid Shopify webhook signature' }, { status: 401 });
+  }
+
+  try {
+    const order = validateBody(shopifyOrderWebhookSchema, JSON.parse(rawBody));
+    const supabase = createServerClient();
+    const result = await recordShopifyOrderSale(supabase, { ...order, id: String(order.id) }, { topic });
+
+    for (const sold of result.sold) {
+      await logAuditEvent({
+        entityType: 'inventory_item',
+        entityId: sold.inventoryItemId,
+        action: 'mark_sold',
+        changes: {
+          listing_status: { old: sold.previousStatus, new: 'sold' },
+          sold_at: { old: null, new: result.soldAt },
+        },
+        metadata: {
+          source: 'shopify_order_webhook',
+          topic,
+          webhook_id: webhookId,
+          shopify_order_id: result.orderId,
+          shopify_order_name: result.orderName,
+          customer_id: result.customerId,
+          shopify_line_item_id: sold.lineItemId,
+          matched_by: sold.matchedBy,
+          serial_registry_id: sold.serialRegistryId,
+        },
+        summary: `Sold ${sold.brand} ${sold.model} on Shopify order ${result.orderName || result.orderId}`,
+      });
+    }
+
+    // Deal updates are best-effort here; /api/sync/reconcile/hubspot-deals catches misses.
+    let dealRunIds: string[] = [];
+    try {
+      dealRunIds = await enqueueClosedWonDealSync(
+        supabase,
+        result.sold.map((item) => item.inventoryItemId)
+      );
+    } catch (error) {
+      console.error('Failed to queue HubSpot Closed Won updates:', error);
+    }
+
+    if (dealRunIds.length > 0) {
+      after(async () => {
+        try {
+          await runSyncWorker(createServerClient());
+        } catch (error) {
+          console.error('Sync worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      orderId: result.orderId,
+      dealRunIds,
+      sold: result.sold.map((item) => item.inventoryItemId),
+      alreadyRecorded: result.alreadyRecorded,
+      unmatched: result.unmatched,
+    });
+  } catch (error) {
+    console.error('Shopify orders webhook error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process orders webhook' },
+      { status: 500 }
+    );
+  }
+}
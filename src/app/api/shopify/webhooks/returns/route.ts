@@ -1,4 +1,3 @@
-import crypto from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { logAuditEvent } from '@/lib/audit/logger';
 import { createRmaCase } from '@/lib/rma/service';
@@ -6,6 +5,7 @@ import type { CreateRmaCaseInput } from '@/lib/rma/service';
 import { createServerClient } from '@/lib/supabase/server';
 import { rmaWebhookReturnSchema, validateBody } from '@/lib/validation/schemas';
 import { FETCH_ORDER_BY_ID_QUERY, getGraphQLClient, isShopifyConfigured } from '@/lib/shopify/client';
+import { toOrderGid, verifyWebhookHmac } from '@/lib/shopify/webhooks';
 
 type ReturnWebhookPayload = {
   id?: string | number;
@@ -80,27 +80,6 @@ type ReturnWebhookPayload = {
   };
 };
 
-function verifyWebhookHmac(rawBody: string, hmacHeader: string | null): boolean {
-  const secret = process.env.SHOPIFY_API_SECRET || '';
-  if (!secret || !hmacHeader) {
-    return false;
-  }
-
-  const digest = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64');
-  const digestBuffer = Buffer.from(digest);
-  const hmacBuffer = Buffer.from(hmacHeader);
-  if (digestBuffer.length !== hmacBuffer.length) {
-    return false;
-  }
-  return crypto.timingSafeEqual(digestBuffer, hmacBuffer);
-}
-
-function toOrderGid(orderId: string): string {
-  if (orderId.startsWith('gid://shopify/Order/')) return orderId;
-  if (/^\d+$/.test(orderId)) return `gid://shopify/Order/${orderId}`;
-  return orderId;
-}
-
 function extractPayload(raw: ReturnWebhookPayload) {
   const base = raw.return || raw;
   const parsed = validateBody(rmaWebhookReturnSchema, {
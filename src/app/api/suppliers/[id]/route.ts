@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateSupplierSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Supplier API
+ *
+ * PUT /api/suppliers/[id] - Update a supplier (or retire it with is_active)
+ * DELETE /api/suppliers/[id] - Delete a supplier; its items keep their
+ * prices but lose the supplier link. Suppliers with purchase orders can
+ * only be deactivated.
+ */
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateSupplierSchema, await request.json());
+
+    const { data: updated, error } = await createServerClient()
+      .from('suppliers')
+      .update(body)
+      .eq('id', id)
+      .select();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `A supplier named ${body.name} already exists` }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'supplier',
+      entityId: id,
+      action: 'update',
+      metadata: { fields: Object.keys(body) },
+      summary: `Updated supplier ${updated[0].name}`,
+    });
+
+    return NextResponse.json({ success: true, supplier: updated[0] });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Supplier update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update supplier' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: deleted, error } = await createServerClient()
+      .from('suppliers')
+      .delete()
+      .eq('id', id)
+      .select('id, name');
+
+    if (error) {
+      if (error.code === '23503') {
+        return NextResponse.json(
+          { error: 'This supplier has purchase orders; deactivate it instead' },
+          { status: 409 }
+        );
+      }
+      throw new Error(error.message);
+    }
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+    }
+
+    await logAuditEvent({
+      entityType: 'supplier',
+      entityId: id,
+      action: 'delete',
+      summary: `Deleted supplier ${deleted[0].name}`,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Supplier delete error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete supplier' },
+      { status: 500 }
+    );
+  }
+}
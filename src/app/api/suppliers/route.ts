@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { listSuppliers } from '@/lib/suppliers/suppliers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createSupplierSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Suppliers API
+ *
+ * GET /api/suppliers - Active suppliers (?includeInactive=true for all)
+ * POST /api/suppliers - Create a supplier
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true';
+    const suppliers = await listSuppliers(createServerClient(), { includeInactive });
+    return NextResponse.json({ suppliers });
+  } catch (error) {
+    console.error('Suppliers fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createSupplierSchema, await request.json());
+
+    const { data: supplier, error } = await createServerClient()
+      .from('suppliers')
+      .insert(body)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: `A supplier named ${body.name} already exists` }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+
+    await logAuditEvent({
+      entityType: 'supplier',
+      entityId: supplier.id,
+      action: 'create',
+      summary: `Created supplier ${supplier.name}`,
+    });
+
+    return NextResponse.json({ success: true, supplier });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Supplier create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create supplier' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { requeueSyncJob } from '@/lib/sync/queue';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { logAuditEvent } from '@/lib/audit/logger';
+
+/**
+ * POST /api/sync/jobs/[id]/retry
+ *
+ * Requeues a dead-lettered sync job with a fresh set of attempts and
+ * resumes its run.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+    const job = await requeueSyncJob(supabase, id);
+
+    await logAuditEvent({
+      entityType: 'inventory_item',
+      entityId: job.inventory_item_id,
+      action: 'sync_started',
+      metadata: { syncRunId: job.run_id, syncJobId: job.id, platform: job.platform, trigger: 'retry' },
+      summary: `Requeued ${job.platform} sync job`,
+    });
+
+    after(async () => {
+      try {
+        await runSyncWorker(createServerClient(), { runId: job.run_id });
+      } catch (error) {
+        console.error('Sync worker error:', error);
+      }
+    });
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retry sync job';
+    return NextResponse.json(
+      { error: message, success: false },
+      { status: message.includes('not found') ? 404 : 500 }
+    );
+  }
+}
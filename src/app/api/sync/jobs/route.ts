@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { syncJobFiltersSchema, validateParams, ValidationError } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/sync/jobs
+ *
+ * Lists sync queue jobs with their inventory item, newest first.
+ *
+ * Query params:
+ * - status: queued | leased | succeeded | dead (comma-separated allowed)
+ * - limit: max rows (default 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = validateParams(syncJobFiltersSchema, searchParams);
+    const supabase = createServerClient();
+
+    let query = supabase
+      .from('sync_jobs')
+      .select('*, item:inventory_items(id, brand, model, listing_type, sync_status)')
+      .order('updated_at', { ascending: false })
+      .limit(filters.limit);
+
+    if (filters.status.length > 0) {
+      query = query.in('status', filters.status);
+    }
+
+    const { data: jobs, error } = await query;
+
+    if (error) {
+      console.error('Sync jobs fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch sync jobs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ jobs: jobs || [], count: jobs?.length || 0 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Sync jobs error:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
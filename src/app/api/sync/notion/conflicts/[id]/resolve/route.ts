@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { resolveNotionConflict } from '@/lib/notion/reconcile';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { notionConflictResolutionSchema, validateBody, ValidationError } from '@/lib/validation/schemas';
+import { NOTION_RECONCILED_FIELDS } from '@/types';
+
+/**
+ * POST /api/sync/notion/conflicts/[id]/resolve
+ *
+ * Resolves one field conflict. Body: { resolution: 'keep_local' | 'keep_notion' }
+ * - keep_local: the app's value is written to the Notion page
+ * - keep_notion: the Notion value is written to the inventory item
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const { resolution } = validateBody(notionConflictResolutionSchema, body);
+    const supabase = createServerClient();
+
+    const { conflict, value, previous } = await resolveNotionConflict(supabase, id, resolution);
+    const label = NOTION_RECONCILED_FIELDS[conflict.field].label;
+
+    await logAuditEvent({
+      entityType: 'inventory_item',
+      entityId: conflict.inventory_item_id,
+      action: 'update',
+      changes: { [conflict.field]: { old: previous, new: value } },
+      metadata: { source: 'notion_conflict', conflictId: conflict.id, resolution },
+      summary: resolution === 'keep_local'
+        ? `Kept local ${label} over Notion`
+        : `Kept Notion ${label} over local`,
+    });
+
+    return NextResponse.json({ success: true, conflict });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    const message = error instanceof Error ? error.message : 'Failed to resolve Notion conflict';
+    return NextResponse.json(
+      { error: message, success: false },
+      { status: message.includes('not found') ? 404 : message.includes('already resolved') ? 409 : 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { notionConflictFiltersSchema, validateParams, ValidationError } from '@/lib/validation/schemas';
+
+/**
+ * GET /api/sync/notion/conflicts
+ *
+ * Lists Notion reconciliation conflicts with their inventory item, newest first.
+ *
+ * Query params:
+ * - status: open | resolved | superseded (default open)
+ * - limit: max rows (default 100)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = validateParams(notionConflictFiltersSchema, searchParams);
+    const supabase = createServerClient();
+
+    const { data: conflicts, error } = await supabase
+      .from('notion_sync_conflicts')
+      .select('*, inventory_item:inventory_items(id, brand, model, serial_number)')
+      .eq('status', filters.status)
+      .order('updated_at', { ascending: false })
+      .limit(filters.limit);
+
+    if (error) {
+      console.error('Notion conflicts fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch Notion conflicts' }, { status: 500 });
+    }
+
+    return NextResponse.json({ conflicts: conflicts || [], count: conflicts?.length || 0 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Notion conflicts error:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { reconcileClosedWonDeals } from '@/lib/hubspot/deals';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { logAuditEvent } from '@/lib/audit/logger';
+
+/**
+ * HubSpot Closed Won Reconciliation
+ *
+ * GET /api/sync/reconcile/hubspot-deals - report sold items whose deals are still open
+ * POST /api/sync/reconcile/hubspot-deals - queue HubSpot sync jobs to close them
+ *
+ * Safe to schedule daily with the internal API key.
+ *
+ * Query params:
+ * - dryRun: (POST) report only, queue nothing
+ * - limit: max sold items to check, most recently sold first (default all)
+ */
+
+export const maxDuration = 60;
+
+async function handleReconcile(request: NextRequest, dryRun: boolean) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limitParam = Number.parseInt(searchParams.get('limit') || '', 10);
+    const supabase = createServerClient();
+
+    const result = await reconcileClosedWonDeals(supabase, {
+      dryRun: dryRun || searchParams.get('dryRun') === 'true',
+      ...(Number.isNaN(limitParam) ? {} : { limit: limitParam }),
+    });
+
+    if (result.queuedRunIds.length > 0) {
+      await logAuditEvent({
+        entityType: 'sync',
+        entityId: result.queuedRunIds[0],
+        action: 'sync_started',
+        metadata: {
+          source: 'hubspot_closed_won_reconcile',
+          syncRunIds: result.queuedRunIds,
+          itemIds: result.mismatched.map((entry) => entry.itemId),
+        },
+        summary: `Queued ${result.queuedRunIds.length} HubSpot Closed Won fixes`,
+      });
+
+      after(async () => {
+        try {
+          await runSyncWorker(createServerClient());
+        } catch (error) {
+          console.error('Sync worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('HubSpot deal reconcile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleReconcile(request, true);
+}
+
+export async function POST(request: NextRequest) {
+  return handleReconcile(request, false);
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { reconcileStockLevels } from '@/lib/inventory/stock';
+import { logAuditEvent } from '@/lib/audit/logger';
+
+/**
+ * Shopify Stock Reconciliation
+ *
+ * GET /api/sync/reconcile/inventory-quantities - report drift only
+ * POST /api/sync/reconcile/inventory-quantities - record Shopify's counts so
+ *   drift is listed on /sync (GET /api/sync/stock-drift)
+ *
+ * Safe to schedule nightly with the internal API key.
+ *
+ * Query params:
+ * - dryRun: (POST) report only, write nothing
+ */
+
+export const maxDuration = 60;
+
+async function handleReconcile(request: NextRequest, dryRun: boolean) {
+  try {
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) {
+      return NextResponse.json(
+        { error: 'Shopify is not configured', success: false },
+        { status: 503 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const isDryRun = dryRun || searchParams.get('dryRun') === 'true';
+    const result = await reconcileStockLevels(createServerClient(), graphqlClient, { dryRun: isDryRun });
+
+    if (!isDryRun && result.drift.length > 0) {
+      await logAuditEvent({
+        entityType: 'sync',
+        entityId: result.drift[0].itemId,
+        action: 'sync_completed',
+        metadata: {
+          source: 'shopify_stock_reconcile',
+          checked: result.checked,
+          drift: result.drift,
+        },
+        summary: `Found stock drift on ${result.drift.length} item locations`,
+      });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Stock reconcile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleReconcile(request, true);
+}
+
+export async function POST(request: NextRequest) {
+  return handleReconcile(request, false);
+}
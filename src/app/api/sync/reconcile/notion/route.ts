@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { isNotionConfigured } from '@/lib/notion/client';
+import { pullNotionInventory } from '@/lib/notion/reconcile';
+import { runSyncWorker } from '@/lib/sync/worker';
+import { logAuditEvent } from '@/lib/audit/logger';
+
+/**
+ * Notion Global Inventory Reconciliation
+ *
+ * GET /api/sync/reconcile/notion - report what a pull would change
+ * POST /api/sync/reconcile/notion - apply Notion edits, queue local edits
+ *   to Notion and record conflicts (see /api/sync/notion/conflicts)
+ *
+ * Safe to schedule hourly with the internal API key.
+ *
+ * Query params:
+ * - dryRun: (POST) report only, write nothing
+ */
+
+export const maxDuration = 60;
+
+async function handlePull(request: NextRequest, dryRun: boolean) {
+  if (!isNotionConfigured()) {
+    return NextResponse.json(
+      { error: 'Notion credentials not configured', success: false },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const supabase = createServerClient();
+
+    const result = await pullNotionInventory(supabase, {
+      dryRun: dryRun || searchParams.get('dryRun') === 'true',
+    });
+
+    if (!dryRun && searchParams.get('dryRun') !== 'true') {
+      const changesByItem = new Map<string, Record<string, { old: unknown; new: unknown }>>();
+      for (const change of result.applied) {
+        const changes = changesByItem.get(change.itemId) || {};
+        changes[change.field] = { old: change.from, new: change.to };
+        changesByItem.set(change.itemId, changes);
+      }
+
+      for (const [itemId, changes] of changesByItem) {
+        await logAuditEvent({
+          entityType: 'inventory_item',
+          entityId: itemId,
+          action: 'update',
+          changes,
+          metadata: { source: 'notion_pull' },
+          summary: `Applied Notion edits: ${Object.keys(changes).join(', ')}`,
+        });
+      }
+    }
+
+    const queuedRunIds = [...result.pushQueuedRunIds, ...result.dealRunIds];
+    if (queuedRunIds.length > 0) {
+      after(async () => {
+        try {
+          await runSyncWorker(createServerClient());
+        } catch (error) {
+          console.error('Sync worker error:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Notion reconcile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handlePull(request, true);
+}
+
+export async function POST(request: NextRequest) {
+  return handlePull(request, false);
+}
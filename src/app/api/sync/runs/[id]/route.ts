@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getSyncRun } from '@/lib/sync/queue';
+
+/**
+ * GET /api/sync/runs/[id]
+ *
+ * Returns a sync run with its per-platform jobs. Poll this until
+ * run.status is 'succeeded' or 'failed'.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const supabase = createServerClient();
+    const run = await getSyncRun(supabase, id);
+
+    if (!run) {
+      return NextResponse.json({ error: 'Sync run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('Sync run fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load sync run' },
+      { status: 500 }
+    );
+  }
+}
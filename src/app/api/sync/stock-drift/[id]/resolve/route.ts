@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { resolveStockDrift } from '@/lib/inventory/stock';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { stockDriftResolutionSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * POST /api/sync/stock-drift/[id]/resolve
+ *
+ * Resolves drift on one stock level. Body: { resolution }
+ * - push_local: push our count to Shopify
+ * - accept_shopify: adopt Shopify's count (e.g. after online sales)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { resolution } = validateBody(stockDriftResolutionSchema, await request.json());
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) {
+      return NextResponse.json({ error: 'Shopify is not configured' }, { status: 503 });
+    }
+
+    const supabase = createServerClient();
+    const level = await resolveStockDrift(supabase, graphqlClient, id, resolution);
+
+    await logAuditEvent({
+      entityType: 'inventory_item',
+      entityId: level.inventory_item_id,
+      action: 'update',
+      metadata: { source: 'stock_drift', stockLevelId: level.id, resolution, quantity: level.quantity },
+      summary: resolution === 'accept_shopify'
+        ? `Accepted Shopify stock count (${level.quantity}) at ${level.location?.name || 'location'}`
+        : `Pushed stock count (${level.quantity}) to Shopify at ${level.location?.name || 'location'}`,
+    });
+
+    return NextResponse.json({ success: true, level });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    const message = error instanceof Error ? error.message : 'Failed to resolve stock drift';
+    return NextResponse.json(
+      { error: message, success: false },
+      { status: message.includes('not found') ? 404 : message.includes('no drift') ? 409 : 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { hasStockDrift, type StockDriftEntry } from '@/types';
+
+/**
+ * GET /api/sync/stock-drift
+ *
+ * Stock levels where our count differs from Shopify's count at the last
+ * reconciliation, most recently checked first.
+ */
+export async function GET() {
+  try {
+    const supabase = createServerClient();
+
+    // PostgREST can't compare two columns, so narrow to checked rows and filter here.
+    const { data, error } = await supabase
+      .from('inventory_stock_levels')
+      .select(
+        '*, location:inventory_locations(id, name, shopify_location_id), inventory_item:inventory_items(id, brand, model, sku)'
+      )
+      .not('shopify_quantity', 'is', null)
+      .order('shopify_checked_at', { ascending: false })
+      .limit(1000);
+
+    if (error) {
+      console.error('Stock drift fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch stock drift' }, { status: 500 });
+    }
+
+    const drift = ((data || []) as StockDriftEntry[]).filter(hasStockDrift);
+    return NextResponse.json({ drift, count: drift.length });
+  } catch (error) {
+    console.error('Stock drift error:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { listSyncTargets } from '@/lib/sync/targets';
+
+/**
+ * GET /api/sync/targets
+ *
+ * Lists registered sync targets with a live healthcheck for each.
+ * A target that fails configure() is reported as not configured.
+ */
+export async function GET() {
+  const targets = await Promise.all(
+    listSyncTargets().map(async (target) => {
+      let targetConfig: unknown;
+      try {
+        targetConfig = await target.configure();
+      } catch (error) {
+        return {
+          id: target.id,
+          label: target.label,
+          configured: false,
+          ok: false,
+          message: error instanceof Error ? error.message : 'Not configured',
+        };
+      }
+
+      try {
+        const health = await target.healthcheck(targetConfig);
+        return { id: target.id, label: target.label, configured: true, ...health };
+      } catch (error) {
+        return {
+          id: target.id,
+          label: target.label,
+          configured: true,
+          ok: false,
+          message: error instanceof Error ? error.message : 'Healthcheck failed',
+        };
+      }
+    })
+  );
+
+  return NextResponse.json({ targets });
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { runSyncWorker } from '@/lib/sync/worker';
+
+/**
+ * Sync Queue Worker API
+ *
+ * POST /api/sync/worker (GET is accepted for cron schedulers)
+ *
+ * Drains ready sync_jobs: new jobs, jobs whose retry backoff has elapsed and
+ * jobs whose lease expired because a previous request timed out.
+ * Schedule this every minute (Vercel Cron / Supabase pg_cron) with the
+ * internal API key.
+ *
+ * Query params:
+ * - runId: only process jobs for one sync run
+ * - budgetMs: time budget before the worker stops leasing new jobs, clamped
+ *   to leave time to finish the last batch before maxDuration
+ */
+
+export const maxDuration = 60;
+
+// Time kept back to finish the jobs leased just before the budget runs out
+const BUDGET_SAFETY_MARGIN_MS = 10_000;
+const MIN_BUDGET_MS = 1_000;
+const MAX_BUDGET_MS = maxDuration * 1000 - BUDGET_SAFETY_MARGIN_MS;
+
+async function handleWorker(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const runId = searchParams.get('runId');
+    const budgetParam = Number.parseInt(searchParams.get('budgetMs') || '', 10);
+
+    const summary = await runSyncWorker(createServerClient(), {
+      runId,
+      ...(Number.isNaN(budgetParam)
+        ? {}
+        : { budgetMs: Math.min(Math.max(budgetParam, MIN_BUDGET_MS), MAX_BUDGET_MS) }),
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Sync worker error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sync worker failed', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorker(request);
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorker(request);
+}
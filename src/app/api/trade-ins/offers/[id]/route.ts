@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import {
+  getTradeInOffer,
+  getTradeInOfferForItem,
+  getTradeInOfferUpdateError,
+  updateTradeInOffer,
+} from '@/lib/trade-in/offers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { updateTradeInOfferSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Trade-In Offer API
+ *
+ * GET /api/trade-ins/offers/[id] - A trade-in offer
+ * PUT /api/trade-ins/offers/[id] - Revise an open offer, decline it, or
+ *   accept it against the trade-in item created at intake (the offer amount
+ *   becomes the item's cost_price)
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const offer = await getTradeInOffer(createServerClient(), id);
+    if (!offer) {
+      return NextResponse.json({ error: 'Trade-in offer not found' }, { status: 404 });
+    }
+    return NextResponse.json({ offer });
+  } catch (error) {
+    console.error('Trade-in offer fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch trade-in offer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = validateBody(updateTradeInOfferSchema, await request.json());
+    const supabase = createServerClient();
+
+    const existing = await getTradeInOffer(supabase, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Trade-in offer not found' }, { status: 404 });
+    }
+
+    const conflict = getTradeInOfferUpdateError(existing, body);
+    if (conflict) {
+      return NextResponse.json({ error: conflict }, { status: 409 });
+    }
+
+    if (body.status === 'accepted' && body.inventory_item_id) {
+      const linked = await getTradeInOfferForItem(supabase, body.inventory_item_id);
+      if (linked && linked.id !== existing.id) {
+        return NextResponse.json(
+          { error: `That trade-in item is already linked to ${linked.offer_number}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const offer = await updateTradeInOffer(supabase, existing, body);
+
+    if (body.status === 'accepted') {
+      await logAuditEvent({
+        entityType: 'inventory_item',
+        entityId: offer.inventory_item_id!,
+        action: 'update',
+        changes: { cost_price: { old: null, new: offer.offer_amount } },
+        metadata: { tradeInOfferId: offer.id },
+        summary: `Cost set from accepted trade-in offer ${offer.offer_number}`,
+      });
+    }
+
+    await logAuditEvent({
+      entityType: 'trade_in_offer',
+      entityId: id,
+      action: 'update',
+      changes: body.status ? { status: { old: existing.status, new: offer.status } } : undefined,
+      metadata: { fields: Object.keys(body) },
+      summary: body.status
+        ? `Offer ${offer.offer_number} ${body.status}`
+        : `Updated offer ${offer.offer_number}`,
+    });
+
+    return NextResponse.json({ success: true, offer });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Trade-in offer update error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update trade-in offer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { createTradeInOffer, listTradeInOffers } from '@/lib/trade-in/offers';
+import { logAuditEvent } from '@/lib/audit/logger';
+import { createTradeInOfferSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+import { TRADE_IN_OFFER_STATUSES, type TradeInOfferDisplayStatus, type TradeInValuation } from '@/types';
+
+/**
+ * Trade-In Offers API
+ *
+ * GET /api/trade-ins/offers - Offers, newest first (?status=offered|expired|...)
+ * POST /api/trade-ins/offers - Record an offer made to a customer
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !(status in TRADE_IN_OFFER_STATUSES)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+
+    const offers = await listTradeInOffers(createServerClient(), {
+      status: (status as TradeInOfferDisplayStatus | null) || undefined,
+    });
+    return NextResponse.json({ offers });
+  } catch (error) {
+    console.error('Trade-in offers fetch error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch trade-in offers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(createTradeInOfferSchema, await request.json());
+
+    // Valuation is echoed back from /api/trade-ins/valuation
+    const offer = await createTradeInOffer(createServerClient(), {
+      ...body,
+      valuation: body.valuation as TradeInValuation,
+    });
+
+    await logAuditEvent({
+      entityType: 'trade_in_offer',
+      entityId: offer.id,
+      action: 'create',
+      metadata: {
+        offerAmount: offer.offer_amount,
+        customerId: offer.customer_id,
+        recommendedOffer: body.valuation.recommended_offer,
+        offerRange: [body.valuation.offer_low, body.valuation.offer_high],
+      },
+      summary: `Offered $${offer.offer_amount} for ${offer.brand} ${offer.model} (${offer.offer_number})`,
+    });
+
+    return NextResponse.json({ success: true, offer });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Trade-in offer create error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create trade-in offer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/server';
+import { valueTradeIn } from '@/lib/trade-in/offers';
+import { tradeInValuationSchema, ValidationError, validateBody } from '@/lib/validation/schemas';
+
+/**
+ * Trade-In Valuation API
+ *
+ * POST /api/trade-ins/valuation - Recommended buy price range for a
+ *   trade-in from condition, age, RRP, our sell-through and target margin
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = validateBody(tradeInValuationSchema, await request.json());
+
+    const valuation = await valueTradeIn(createServerClient(), body);
+    if (!valuation) {
+      return NextResponse.json(
+        { error: `Enter an RRP to value the ${body.brand} ${body.model}; we have no sales history for it` },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({ valuation });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message, validationErrors: error.errors },
+        { status: 400 }
+      );
+    }
+    console.error('Trade-in valuation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to value trade-in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+import { assessCondition } from '@/lib/ai/condition';
+import { getConditionChecklistFields } from '@/lib/condition/checklists';
+import { createServerClient } from '@/lib/supabase/server';
+import { config } from '@/config';
+import { PRODUCT_CATEGORIES, type ProductCategory } from '@/types';
+
+/**
+ * Vision AI Condition Grading API
+ *
+ * POST /api/vision/condition
+ * Body: { images: string[], brand?: string, model?: string, category?: ProductCategory }
+ *
+ * Looks over the selling/registration photos of a pre-owned unit for
+ * scratches, dents and missing parts, proposes a condition grade with the
+ * observations behind it, and drafts a condition report from the
+ * category's condition checklist. The proposal is only a suggestion: the
+ * user accepts or overrides it before it's saved.
+ */
+
+export async function POST(request: NextRequest) {
+  // Rate limit check for Anthropic Vision API (expensive)
+  const clientIp = request.headers.get('x-forwarded-for') || 'anonymous';
+  const rateCheck = checkRateLimit(rateLimiters.anthropic, clientIp);
+
+  if (!rateCheck.allowed) {
+    return NextResponse.json(
+      { error: 'Rate limited. Please try again later.', retryAfter: rateCheck.retryAfter },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(rateCheck.retryAfter),
+          'X-RateLimit-Remaining': String(rateCheck.remaining),
+        },
+      }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const images: unknown[] = Array.isArray(body.images) ? body.images : [];
+
+    if (images.length === 0 || images.some((image) => typeof image !== 'string' || !image)) {
+      return NextResponse.json(
+        { error: 'At least one photo is required (base64 or URL)' },
+        { status: 400 }
+      );
+    }
+
+    if (images.length > config.ai.conditionMaxImages) {
+      return NextResponse.json(
+        { error: `At most ${config.ai.conditionMaxImages} images per condition assessment` },
+        { status: 400 }
+      );
+    }
+
+    if (body.category && !(body.category in PRODUCT_CATEGORIES)) {
+      return NextResponse.json(
+        { error: `Unknown product category: ${body.category}` },
+        { status: 400 }
+      );
+    }
+
+    const assessment = await assessCondition({
+      images: images as string[],
+      brand: typeof body.brand === 'string' ? body.brand : null,
+      model: typeof body.model === 'string' ? body.model : null,
+      category: (body.category as ProductCategory) || null,
+      checklists: await getConditionChecklistFields(createServerClient()),
+    });
+
+    return NextResponse.json({
+      success: true,
+      assessment,
+    });
+
+  } catch (error) {
+    console.error('Condition assessment error:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to assess condition',
+        success: false,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/vision/condition - Documentation
+ */
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/vision/condition',
+    method: 'POST',
+    description: 'Propose a condition grade and draft a condition report from photos of a pre-owned unit',
+    body: {
+      images: `string[] - up to ${config.ai.conditionMaxImages} photos (base64 or URL), ideally every side of the unit`,
+      brand: 'string (optional)',
+      model: 'string (optional)',
+      category: `string (optional) - one of ${Object.keys(PRODUCT_CATEGORIES).join(', ')}; inferred when omitted`,
+    },
+    response: {
+      success: 'boolean',
+      assessment: {
+        category: 'string - product category whose checklist was used',
+        proposed_grade: 'mint | excellent | good | fair | poor',
+        confidence: 'number (0-1)',
+        summary: 'string',
+        observations: '{ issue, severity, location, description, image_index }[]',
+        checklist: '{ item, finding }[] - one per checklist item, in order',
+        draft_report: 'string - summary plus one line per checklist item',
+        image_count: 'number',
+        assessed_at: 'ISO timestamp',
+      },
+    },
+    notes: [
+      'Uses Claude Vision; all photos are graded together',
+      'Checklist items not visible in any photo are reported as "Not pictured"',
+      'Save the proposal as condition_ai_assessment with final_grade once accepted or overridden',
+    ],
+  });
+}
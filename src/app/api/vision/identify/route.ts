@@ -1,63 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Anthropic from '@anthropic-ai/sdk';
 import { rateLimiters, checkRateLimit } from '@/lib/utils/rate-limiter';
+import { identifyProduct } from '@/lib/ai/vision';
 import { config } from '@/config';
-import type { VisionAIResponse } from '@/types';
 
 /**
  * Vision AI Product Identification API
  * 
  * POST /api/vision/identify
- * Body: { image: string (base64 or URL) }
+ * Body: { image: string } or { images: string[] } (base64 or URL)
  * 
  * Uses Claude's vision capability to identify:
  * - Brand
  * - Model/Product name
  * - Serial number (if visible)
+ *
+ * Each photo is read separately (e.g. front badge and rear label) and the
+ * readings merged, with per-field confidence and the region each value was
+ * read from.
  */
 
-// Lazy-load Anthropic client
-let anthropicClient: Anthropic | null = null;
-
-function getAnthropic(): Anthropic {
-  if (!anthropicClient) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
-    }
-    anthropicClient = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-  }
-  return anthropicClient;
-}
-
-const IDENTIFICATION_PROMPT = `You are an expert at identifying audio/video equipment, electronics, and home appliances.
-
-Analyze this product image and extract:
-1. **Brand** - The manufacturer (e.g., Marantz, Denon, Sony, Samsung)
-2. **Model** - The specific model number/name (e.g., AV30, SR7015, KD-65X85K)
-3. **Serial Number** - If visible on the product label or sticker
-
-Look for:
-- Front panel branding and model badges
-- Product labels (usually on back/bottom)
-- Serial number stickers
-- Any visible text that identifies the product
-
-Important:
-- If you cannot determine something with confidence, return null for that field
-- For serial numbers, look for labels saying "S/N", "Serial", or similar
-- Model numbers often include letters and numbers (e.g., AVR-X3800H)
-
-Respond with ONLY valid JSON in this exact format:
-{
-  "brand": "string or null",
-  "model": "string or null", 
-  "serial_number": "string or null",
-  "confidence": 0.0 to 1.0,
-  "raw_text": "all visible text you can read"
-}`;
-
 export async function POST(request: NextRequest) {
   // Rate limit check for Anthropic Vision API (expensive)
   const clientIp = request.headers.get('x-forwarded-for') || 'anonymous';
@@ -77,92 +38,24 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const { image } = await request.json();
+    const body = await request.json();
+    const images: unknown[] = Array.isArray(body.images) ? body.images : body.image ? [body.image] : [];
 
-    if (!image) {
+    if (images.length === 0 || images.some((image) => typeof image !== 'string' || !image)) {
       return NextResponse.json(
         { error: 'Image is required (base64 or URL)' },
         { status: 400 }
       );
     }
 
-    // Determine if image is base64 or URL
-    const isBase64 = image.startsWith('data:') || !image.startsWith('http');
-    
-    let imageContent: Anthropic.ImageBlockParam;
-    
-    if (isBase64) {
-      // Extract base64 data and media type
-      let base64Data = image;
-      let mediaType: 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp' = 'image/jpeg';
-      
-      if (image.startsWith('data:')) {
-        const matches = image.match(/^data:([^;]+);base64,(.+)$/);
-        if (matches) {
-          mediaType = matches[1] as typeof mediaType;
-          base64Data = matches[2];
-        }
-      }
-      
-      imageContent = {
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: mediaType,
-          data: base64Data,
-        },
-      };
-    } else {
-      imageContent = {
-        type: 'image',
-        source: {
-          type: 'url',
-          url: image,
-        },
-      };
-    }
-
-    const response = await getAnthropic().messages.create({
-      model: config.ai.visionModel,
-      max_tokens: config.ai.maxTokens,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            imageContent,
-            {
-              type: 'text',
-              text: IDENTIFICATION_PROMPT,
-            },
-          ],
-        },
-      ],
-    });
-
-    // Extract text content from response
-    const textContent = response.content.find(block => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in AI response');
-    }
-
-    // Parse JSON from response
-    let jsonStr = textContent.text;
-    if (jsonStr.includes('```json')) {
-      jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (jsonStr.includes('```')) {
-      jsonStr = jsonStr.replace(/```\n?/g, '');
+    if (images.length > config.ai.visionMaxImages) {
+      return NextResponse.json(
+        { error: `At most ${config.ai.visionMaxImages} images per identification` },
+        { status: 400 }
+      );
     }
 
-    const parsed = JSON.parse(jsonStr.trim());
-
-    const result: VisionAIResponse = {
-      brand: parsed.brand || null,
-      model: parsed.model || null,
-      serial_number: parsed.serial_number || null,
-      confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
-      raw_text: parsed.raw_text || '',
-      identified_at: new Date().toISOString(),
-    };
+    const result = await identifyProduct(images as string[]);
 
     return NextResponse.json({
       success: true,
@@ -191,21 +84,26 @@ export async function GET() {
     description: 'Identify product brand, model, and serial number from image',
     body: {
       image: 'string - base64 encoded image or URL',
+      images: `string[] - up to ${config.ai.visionMaxImages} photos of the same product (use instead of image)`,
     },
     response: {
       success: 'boolean',
       brand: 'string | null',
       model: 'string | null',
       serial_number: 'string | null',
-      confidence: 'number (0-1)',
+      confidence: 'number (0-1) - the weaker of brand and model',
       raw_text: 'string - all visible text',
       identified_at: 'ISO timestamp',
+      fields: '{ brand, model, serial_number }: { value, confidence, region: { image_index, x, y, width, height } | null, alternatives }',
+      image_count: 'number',
     },
     notes: [
       'Uses Claude Vision for identification',
       'Supports JPEG, PNG, GIF, WebP formats',
       'Serial numbers are optional - returns null if not found',
       'Confidence score indicates reliability of identification',
+      'Values read from several photos raise confidence; conflicting reads lower it',
+      'Regions are fractions (0-1) of the photo, from the top-left corner',
     ],
   });
 }
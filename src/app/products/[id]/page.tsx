@@ -21,6 +21,8 @@ export default function ProductPage({ params }: ProductPageProps) {
   const [product, setProduct] = useState<ProductOnboarding | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isScraping, setIsScraping] = useState(false);
+  const [isReExtracting, setIsReExtracting] = useState(false);
+  const [screenshotUrl, setScreenshotUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [extractionResult, setExtractionResult] = useState<{
     hasJsonLd: boolean;
@@ -87,6 +89,19 @@ export default function ProductPage({ params }: ProductPageProps) {
     checkShopifyConfig();
   }, [fetchProduct, checkShopifyConfig]);
 
+  const snapshotId = (product?.raw_scraped_json as RawScrapedData | null)?.snapshot?.id;
+
+  useEffect(() => {
+    if (!snapshotId) return;
+    fetch(`/api/products/${id}/snapshots`)
+      .then((response) => response.json())
+      .then((data) => {
+        const snapshot = (data.snapshots || []).find((s: { id: string }) => s.id === snapshotId);
+        setScreenshotUrl(snapshot?.screenshot_url || null);
+      })
+      .catch(() => setScreenshotUrl(null));
+  }, [id, snapshotId]);
+
   const handleScrape = async () => {
     setIsScraping(true);
     setError(null);
@@ -120,7 +135,9 @@ export default function ProductPage({ params }: ProductPageProps) {
         console.log('========================');
       }
 
-      setProduct(data.product);
+      if (data.product) {
+        setProduct(data.product);
+      }
       setExtractionResult(data.extracted);
       notify.success('Data scraped', `Found ${data.extracted?.specCount || 0} specs, ${data.extracted?.imageCount || 0} images`);
     } catch (err) {
@@ -131,6 +148,33 @@ export default function ProductPage({ params }: ProductPageProps) {
     }
   };
 
+  const handleReExtract = async () => {
+    setIsReExtracting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/products/${id}/re-extract`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      setProduct(data.product);
+      setExtractionResult(data.extracted);
+      notify.success('Re-extracted from snapshot', `Found ${data.extracted?.specCount || 0} specs, ${data.extracted?.imageCount || 0} images`);
+    } catch (err) {
+      notify.error('Re-extraction failed', err instanceof Error ? err.message : 'Please try again');
+    } finally {
+      setIsReExtracting(false);
+    }
+  };
+
   const handleGenerate = async () => {
     setIsGenerating(true);
     setError(null);
@@ -496,19 +540,53 @@ export default function ProductPage({ params }: ProductPageProps) {
                   </svg>
                   <span className="font-medium">Data extracted successfully</span>
                 </div>
-                <Button
-                  variant="secondary"
-                  onClick={handleScrape}
-                  isLoading={isScraping}
-                  size="sm"
-                >
-                  <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                  Re-extract
-                </Button>
+                <div className="flex items-center gap-2">
+                  {rawData.snapshot && (
+                    <Button
+                      variant="secondary"
+                      onClick={handleReExtract}
+                      isLoading={isReExtracting}
+                      disabled={isScraping}
+                      size="sm"
+                    >
+                      Re-extract from Snapshot
+                    </Button>
+                  )}
+                  <Button
+                    variant="secondary"
+                    onClick={handleScrape}
+                    isLoading={isScraping}
+                    disabled={isReExtracting}
+                    size="sm"
+                  >
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    Re-scrape
+                  </Button>
+                </div>
               </div>
             )}
+
+            {rawData?.snapshot && (
+              <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-400">
+                Page snapshot from {new Date(rawData.snapshot.capturedAt).toLocaleString()}
+                {rawData.reExtractedAt && ` · re-extracted ${new Date(rawData.reExtractedAt).toLocaleString()}`}
+                {screenshotUrl && (
+                  <>
+                    {' · '}
+                    <a
+                      href={screenshotUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-emerald-600 dark:text-emerald-400 hover:underline"
+                    >
+                      View screenshot
+                    </a>
+                  </>
+                )}
+              </p>
+            )}
           </Card>
 
           {/* Extraction Results */}
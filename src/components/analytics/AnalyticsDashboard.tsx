@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { InventoryPieChart } from './InventoryPieChart';
+import { SupplierMarginTable } from './SupplierMarginTable';
 import { SyncStatusChart } from './SyncStatusChart';
 import { TimelineChart } from './TimelineChart';
 import type { AnalyticsData } from '@/app/api/analytics/route';
@@ -89,6 +90,8 @@ export function AnalyticsDashboard() {
 
       {/* Timeline Chart */}
       <TimelineChart data={analytics.timeline} />
+
+      <SupplierMarginTable data={analytics.bySupplier} />
     </div>
   );
 }
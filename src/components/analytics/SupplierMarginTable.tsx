@@ -0,0 +1,50 @@
+'use client';
+
+import type { AnalyticsData } from '@/app/api/analytics/route';
+
+interface SupplierMarginTableProps {
+  data: AnalyticsData['bySupplier'];
+}
+
+export function SupplierMarginTable({ data }: SupplierMarginTableProps) {
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-xl border border-zinc-200 dark:border-zinc-800 p-6">
+      <h3 className="text-sm font-medium text-zinc-500 mb-4">Margin by Supplier</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-zinc-500 border-b border-zinc-200 dark:border-zinc-800">
+            <th className="pb-2 font-medium">Supplier</th>
+            <th className="pb-2 font-medium text-right">Items</th>
+            <th className="pb-2 font-medium text-right">Stock at Cost</th>
+            <th className="pb-2 font-medium text-right">Avg Margin</th>
+            <th className="pb-2 font-medium text-right">Target</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {data.map((supplier) => {
+            const belowTarget = supplier.targetMargin !== null && supplier.averageMargin < supplier.targetMargin;
+            return (
+              <tr key={supplier.supplierId ?? 'none'}>
+                <td className="py-2 text-zinc-900 dark:text-white">{supplier.name}</td>
+                <td className="py-2 text-right text-zinc-600 dark:text-zinc-400">{supplier.count}</td>
+                <td className="py-2 text-right text-zinc-600 dark:text-zinc-400">
+                  ${Math.round(supplier.costValue).toLocaleString()}
+                </td>
+                <td className={`py-2 text-right font-medium ${belowTarget ? 'text-amber-600' : 'text-zinc-900 dark:text-white'}`}>
+                  {supplier.averageMargin.toFixed(1)}%
+                </td>
+                <td className="py-2 text-right text-zinc-500">
+                  {supplier.targetMargin !== null ? `${supplier.targetMargin}%` : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 export { AnalyticsDashboard } from './AnalyticsDashboard';
 export { InventoryPieChart } from './InventoryPieChart';
+export { SupplierMarginTable } from './SupplierMarginTable';
 export { SyncStatusChart } from './SyncStatusChart';
 export { TimelineChart } from './TimelineChart';
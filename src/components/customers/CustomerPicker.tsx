@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { notify } from '@/lib/store/app-store';
+import type { Customer, HubSpotContactMatch } from '@/types';
+
+/** Contact details entered at intake, plus the records they're linked to */
+export interface CustomerDetails {
+  customer_id: string | null;
+  hubspot_contact_id: string | null;
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export const EMPTY_CUSTOMER_DETAILS: CustomerDetails = {
+  customer_id: null,
+  hubspot_contact_id: null,
+  name: '',
+  email: '',
+  phone: '',
+};
+
+interface CustomerPickerProps {
+  value: CustomerDetails;
+  onChange: (value: CustomerDetails) => void;
+  required?: boolean;
+}
+
+const SEARCH_DELAY_MS = 300;
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Customer name, email and phone with lookups: suggests existing customer
+ * records as details are typed and matches HubSpot contacts by email or
+ * phone, so a returning customer isn't entered twice
+ */
+export function CustomerPicker({ value, onChange, required }: CustomerPickerProps) {
+  const [suggestions, setSuggestions] = useState<Customer[]>([]);
+  const [hubSpotMatches, setHubSpotMatches] = useState<HubSpotContactMatch[] | null>(null);
+  const [isMatching, setIsMatching] = useState(false);
+
+  // Email and phone identify a customer better than a name
+  const searchTerm = value.email.trim() || value.phone.trim() || value.name.trim();
+
+  useEffect(() => {
+    if (value.customer_id || searchTerm.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/customers?search=${encodeURIComponent(searchTerm)}`);
+        const data = await response.json();
+        setSuggestions((data.customers || []).slice(0, MAX_SUGGESTIONS));
+      } catch (error) {
+        console.error('Customer search failed:', error);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, value.customer_id]);
+
+  const update = (changes: Partial<CustomerDetails>) => onChange({ ...value, ...changes });
+
+  const pickCustomer = (customer: Customer) => {
+    onChange({
+      customer_id: customer.id,
+      hubspot_contact_id: customer.hubspot_contact_id,
+      name: customer.name,
+      email: customer.email || '',
+      phone: customer.phone || '',
+    });
+    setSuggestions([]);
+  };
+
+  const pickContact = (match: HubSpotContactMatch) => {
+    update({
+      hubspot_contact_id: match.id,
+      customer_id: match.customer_id || value.customer_id,
+      name: value.name || match.name,
+      email: value.email || match.email || '',
+      phone: value.phone || match.phone || '',
+    });
+    setHubSpotMatches(null);
+  };
+
+  const handleHubSpotMatch = async () => {
+    setIsMatching(true);
+    try {
+      const response = await fetch('/api/customers/hubspot-match', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: value.email.trim() || null, phone: value.phone.trim() || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('HubSpot match failed', data.error || 'Please try again');
+        return;
+      }
+      if (!data.configured) {
+        notify.info('HubSpot not connected', 'Contact matching needs HubSpot credentials');
+        return;
+      }
+      setHubSpotMatches(data.matches);
+      if (data.matches.length === 0) {
+        notify.info('No HubSpot contacts match', 'The customer will be added as new');
+      }
+    } catch {
+      notify.error('HubSpot match failed', 'Please try again');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Input
+        label={required ? 'Customer name *' : 'Customer name'}
+        value={value.name}
+        onChange={(e) => update({ name: e.target.value })}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Email"
+          type="email"
+          value={value.email}
+          onChange={(e) => update({ email: e.target.value })}
+        />
+        <Input
+          label="Phone"
+          value={value.phone}
+          onChange={(e) => update({ phone: e.target.value })}
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="rounded-lg border border-zinc-200 dark:border-zinc-700 divide-y divide-zinc-100 dark:divide-zinc-800">
+          <p className="px-3 py-1.5 text-xs text-zinc-500">Existing customers</p>
+          {suggestions.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              onClick={() => pickCustomer(customer)}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+            >
+              <span className="font-medium text-zinc-900 dark:text-white">{customer.name}</span>
+              <span className="text-zinc-500">
+                {[customer.email, customer.phone].filter(Boolean).map((detail) => ` · ${detail}`)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {value.customer_id && (
+          <span className="px-2 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+            Existing customer
+          </span>
+        )}
+        {value.hubspot_contact_id && (
+          <span className="px-2 py-0.5 rounded bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400">
+            HubSpot contact {value.hubspot_contact_id}
+          </span>
+        )}
+        {(value.customer_id || value.hubspot_contact_id) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => update({ customer_id: null, hubspot_contact_id: null })}
+          >
+            Unlink
+          </Button>
+        )}
+        {!value.hubspot_contact_id && (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleHubSpotMatch}
+            isLoading={isMatching}
+            disabled={!value.email.trim() && !value.phone.trim()}
+          >
+            Match in HubSpot
+          </Button>
+        )}
+      </div>
+
+      {hubSpotMatches && hubSpotMatches.length > 0 && (
+        <div className="rounded-lg border border-orange-200 dark:border-orange-900/50 divide-y divide-zinc-100 dark:divide-zinc-800">
+          <p className="px-3 py-1.5 text-xs text-zinc-500">HubSpot contacts</p>
+          {hubSpotMatches.map((match) => (
+            <div key={match.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-zinc-900 dark:text-white truncate">
+                  {match.url ? (
+                    <a href={match.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {match.name}
+                    </a>
+                  ) : (
+                    match.name
+                  )}
+                </p>
+                <p className="text-xs text-zinc-500 truncate">
+                  {[match.email, match.phone].filter(Boolean).join(' · ')}
+                  {match.matched_on.length > 0 && ` — matches ${match.matched_on.join(' and ')}`}
+                </p>
+              </div>
+              <Button variant="secondary" size="sm" onClick={() => pickContact(match)}>
+                Link
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
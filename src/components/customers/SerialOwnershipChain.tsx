@@ -0,0 +1,53 @@
+import Link from 'next/link';
+import { SERIAL_OWNERSHIP_ROLES, type SerialOwnershipEntry } from '@/types';
+
+const ROLE_STYLES: Record<string, string> = {
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  green: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+};
+
+/**
+ * Who has had a serialised unit, oldest first
+ */
+export function SerialOwnershipChain({ entries }: { entries: SerialOwnershipEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-zinc-500">No trade-ins or sales recorded for this serial.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => {
+        const role = SERIAL_OWNERSHIP_ROLES[entry.role];
+        return (
+          <li key={entry.event_id} className="flex items-start gap-3">
+            <span title={role.description} className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${ROLE_STYLES[role.color]}`}>
+              {role.label}
+            </span>
+            <div className="min-w-0 text-sm">
+              {entry.customer ? (
+                <Link href={`/customers?id=${entry.customer.id}`} className="font-medium text-emerald-600 hover:underline">
+                  {entry.customer.name}
+                </Link>
+              ) : (
+                <span className="text-zinc-500">Unknown customer</span>
+              )}
+              <p className="text-xs text-zinc-500">
+                {new Date(entry.at).toLocaleDateString('en-AU')}
+                {entry.summary && ` · ${entry.summary}`}
+                {entry.inventory_item_id && (
+                  <>
+                    {' · '}
+                    <Link href={`/inventory/${entry.inventory_item_id}`} className="hover:underline">
+                      Inventory item
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,2 @@
+export { CustomerPicker, EMPTY_CUSTOMER_DETAILS, type CustomerDetails } from './CustomerPicker';
+export { SerialOwnershipChain } from './SerialOwnershipChain';
@@ -41,10 +41,17 @@ export function BulkActions({ selectedIds, onClearSelection, onActionComplete }:
 
       // Show success notification
       const count = result.successCount || result.updated || result.count;
-      notify.success(
-        `${actionType.charAt(0).toUpperCase() + actionType.slice(1)} Complete`,
-        `Successfully processed ${count} item${count > 1 ? 's' : ''}`
-      );
+      if (result.queued) {
+        notify.success(
+          'Sync Queued',
+          `Queued ${count} item${count > 1 ? 's' : ''} for sync. Track progress on the Sync page.`
+        );
+      } else {
+        notify.success(
+          `${actionType.charAt(0).toUpperCase() + actionType.slice(1)} Complete`,
+          `Successfully processed ${count} item${count > 1 ? 's' : ''}`
+        );
+      }
       
       onActionComplete();
       onClearSelection();
@@ -85,7 +92,7 @@ export function BulkActions({ selectedIds, onClearSelection, onActionComplete }:
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                 </svg>
-                Syncing...
+                Queueing...
               </span>
             ) : (
               'Sync All'
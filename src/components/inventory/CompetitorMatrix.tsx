@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import {
+  PRICE_POSITION_BANDS,
+  type CompetitorPricePoint,
+  type PricePosition,
+  type RepricingSuggestion,
+} from '@/types';
+
+interface CompetitorMatrixProps {
+  itemId: string;
+  /** Our saved sale price; the matrix reloads when it changes */
+  salePrice: number | null;
+  /** Put a suggested price into the edit form */
+  onUseSuggestedPrice?: (price: number) => void;
+}
+
+const BAND_STYLES: Record<string, string> = {
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  green: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+/** Percent along a bar spanning the market range and our price */
+const rangePercent = (value: number, position: PricePosition) => {
+  const low = Math.min(position.min, position.salePrice);
+  const high = Math.max(position.max, position.salePrice);
+  return high === low ? 50 : ((value - low) / (high - low)) * 100;
+};
+
+/**
+ * Competitor Matrix
+ *
+ * Latest price per competitor from the RRP price-watch, with where our sale
+ * price sits against the in-stock market and any repricing suggestion.
+ */
+export function CompetitorMatrix({ itemId, salePrice, onUseSuggestedPrice }: CompetitorMatrixProps) {
+  const [matrix, setMatrix] = useState<CompetitorPricePoint[]>([]);
+  const [position, setPosition] = useState<PricePosition | null>(null);
+  const [suggestion, setSuggestion] = useState<RepricingSuggestion | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMatrix = async () => {
+      try {
+        const response = await fetch(`/api/inventory/${itemId}/competitors`);
+        const data = await response.json();
+        setMatrix(data.matrix || []);
+        setPosition(data.position || null);
+        setSuggestion(data.suggestion || null);
+      } catch (error) {
+        console.error('Failed to load competitor prices:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMatrix();
+  }, [itemId, salePrice]);
+
+  if (isLoading) {
+    return (
+      <Card className="p-4">
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 w-32 bg-zinc-200 dark:bg-zinc-700 rounded" />
+          <div className="h-8 w-full bg-zinc-200 dark:bg-zinc-700 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  const band = position ? PRICE_POSITION_BANDS[position.band] : null;
+
+  return (
+    <Card>
+      <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-zinc-900 dark:text-white">Competitor Prices</h3>
+          <p className="text-xs text-zinc-500">
+            {matrix.length} retailer{matrix.length === 1 ? '' : 's'} in the last 30 days
+          </p>
+        </div>
+        {band && (
+          <span
+            className={`px-2 py-0.5 text-xs font-medium rounded ${BAND_STYLES[band.color]}`}
+            title={band.description}
+          >
+            {band.label}
+          </span>
+        )}
+      </div>
+
+      {position && (
+        <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 space-y-3">
+          <div className="relative h-2 rounded bg-zinc-200 dark:bg-zinc-700" aria-hidden="true">
+            <div
+              className="absolute top-0 h-2 rounded bg-zinc-400 dark:bg-zinc-500"
+              style={{
+                left: `${rangePercent(position.min, position)}%`,
+                width: `${Math.max(rangePercent(position.max, position) - rangePercent(position.min, position), 1)}%`,
+              }}
+            />
+            <div
+              className="absolute -top-1 h-4 w-0.5 bg-blue-500"
+              style={{ left: `${rangePercent(position.median, position)}%` }}
+            />
+            <div
+              className="absolute -top-1.5 h-5 w-1.5 -ml-0.5 rounded bg-emerald-500"
+              style={{ left: `${rangePercent(position.salePrice, position)}%` }}
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-2 text-xs">
+            <div>
+              <p className="text-zinc-500">Min</p>
+              <p className="font-medium text-zinc-900 dark:text-white">{formatCurrency(position.min)}</p>
+            </div>
+            <div>
+              <p className="text-blue-600">Median</p>
+              <p className="font-medium text-zinc-900 dark:text-white">{formatCurrency(position.median)}</p>
+            </div>
+            <div>
+              <p className="text-zinc-500">Max</p>
+              <p className="font-medium text-zinc-900 dark:text-white">{formatCurrency(position.max)}</p>
+            </div>
+            <div>
+              <p className="text-emerald-600">Ours</p>
+              <p className="font-medium text-zinc-900 dark:text-white">{formatCurrency(position.salePrice)}</p>
+            </div>
+          </div>
+
+          {suggestion && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-zinc-50 dark:bg-zinc-800">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-zinc-900 dark:text-white">
+                  Suggested price: {formatCurrency(suggestion.suggestedPrice)}
+                </p>
+                <p className="text-xs text-zinc-500">{suggestion.reason}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {onUseSuggestedPrice && (
+                  <Button size="sm" variant="secondary" onClick={() => onUseSuggestedPrice(suggestion.suggestedPrice)}>
+                    Use Price
+                  </Button>
+                )}
+                <Link href="/inventory/repricing" className="text-xs text-blue-600 hover:underline">
+                  All suggestions
+                </Link>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {matrix.length === 0 ? (
+        <div className="p-4">
+          <p className="text-sm text-zinc-500">No competitor prices recorded yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500 border-b border-zinc-200 dark:border-zinc-700">
+                <th className="px-4 py-2 font-medium">Retailer</th>
+                <th className="px-4 py-2 font-medium text-right">Price</th>
+                <th className="px-4 py-2 font-medium">Stock</th>
+                <th className="px-4 py-2 font-medium">Last Checked</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+              {matrix.map((point) => (
+                <tr key={point.retailer} className={point.in_stock === false ? 'opacity-60' : ''}>
+                  <td className="px-4 py-2 text-zinc-700 dark:text-zinc-300">
+                    {point.url ? (
+                      <a href={point.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {point.retailer}
+                      </a>
+                    ) : point.retailer}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-medium ${
+                    salePrice && point.price < salePrice ? 'text-red-600' : 'text-zinc-900 dark:text-white'
+                  }`}>
+                    {formatCurrency(point.price)}
+                  </td>
+                  <td className="px-4 py-2">
+                    {point.in_stock === null ? (
+                      <span className="text-xs text-zinc-400">Unknown</span>
+                    ) : point.in_stock ? (
+                      <span className="text-xs text-emerald-600">In stock</span>
+                    ) : (
+                      <span className="text-xs text-zinc-500">Out of stock</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-zinc-500">
+                    {new Date(point.last_checked_at).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import { formatVariantOptions, type ProductGroupWithVariants } from '@/types';
+import {
+  VariantEditor,
+  toVariantPayload,
+  variantDraftFromItem,
+  type VariantDraft,
+} from './VariantEditor';
+
+interface ProductGroupVariantsProps {
+  groupId: string;
+  currentItemId: string;
+}
+
+/**
+ * Product Group Variants
+ *
+ * Shows the variants of the multi-variant product an item belongs to,
+ * with editing and a publish action for the whole group.
+ */
+export function ProductGroupVariants({ groupId, currentItemId }: ProductGroupVariantsProps) {
+  const [group, setGroup] = useState<ProductGroupWithVariants | null>(null);
+  const [optionNames, setOptionNames] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<VariantDraft[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyGroup = (loaded: ProductGroupWithVariants) => {
+    setGroup(loaded);
+    setOptionNames(loaded.option_names);
+    setDrafts(loaded.variants.map(variantDraftFromItem));
+  };
+
+  useEffect(() => {
+    async function fetchGroup() {
+      try {
+        const response = await fetch(`/api/product-groups/${groupId}`);
+        const data = await response.json();
+        if (data.error) {
+          setError(data.error);
+        } else {
+          applyGroup(data.group);
+        }
+      } catch {
+        setError('Failed to load variants');
+      }
+    }
+
+    fetchGroup();
+  }, [groupId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/product-groups/${groupId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ option_names: optionNames, variants: toVariantPayload(drafts) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      applyGroup(data.group);
+      setIsEditing(false);
+      notify.success('Variants saved', 'Publish to update Shopify');
+      data.warnings?.forEach((warning: string) => notify.warning('Shopify', warning));
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const response = await fetch(`/api/product-groups/${groupId}/sync`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Publish failed', data.error || 'Please try again');
+        return;
+      }
+
+      notify.success('Publish queued', `${data.runIds.length} variants queued for sync`);
+    } catch {
+      notify.error('Publish failed', 'Please try again');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-red-500">{error}</p>
+      </Card>
+    );
+  }
+
+  if (!group) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-zinc-500">Loading variants...</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-semibold text-zinc-900 dark:text-white">Variants</h3>
+          <p className="text-sm text-zinc-500">
+            {group.variants.length} variants by {group.option_names.join(', ')}
+            {group.shopify_product_id ? ' · one Shopify product' : ' · not yet on Shopify'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isEditing ? (
+            <>
+              <Button size="sm" variant="secondary" onClick={() => { applyGroup(group); setIsEditing(false); }} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} isLoading={isSaving}>
+                Save
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" variant="secondary" onClick={() => setIsEditing(true)}>
+                Edit
+              </Button>
+              <Button size="sm" onClick={handlePublish} isLoading={isPublishing}>
+                Publish All
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <VariantEditor
+          optionNames={optionNames}
+          variants={drafts}
+          onChange={(names, variants) => { setOptionNames(names); setDrafts(variants); }}
+          disabled={isSaving}
+        />
+      ) : (
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+          {group.variants.map((variant) => (
+            <div key={variant.id} className="flex items-center justify-between py-2 text-sm">
+              {variant.id === currentItemId ? (
+                <span className="font-medium text-emerald-600">
+                  {formatVariantOptions(variant.variant_options, group.option_names)} (this item)
+                </span>
+              ) : (
+                <Link href={`/inventory/${variant.id}`} className="text-zinc-900 dark:text-white hover:text-emerald-600">
+                  {formatVariantOptions(variant.variant_options, group.option_names)}
+                </Link>
+              )}
+              <span className="text-zinc-500">
+                {variant.sku || 'Auto SKU'} · ${variant.sale_price.toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
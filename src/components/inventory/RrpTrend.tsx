@@ -0,0 +1,263 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import { RRP_ALERT_TYPES, type RrpAlert, type RrpObservation } from '@/types';
+
+interface RrpTrendProps {
+  itemId: string;
+  salePrice: number | null;
+  rrpAud: number | null;
+}
+
+interface TrendPoint {
+  observedAt: string;
+  dateLabel: string;
+  rrp: number | null;
+  lowest: number;
+  retailers: number;
+}
+
+const formatCurrency = (value: number | null) =>
+  value === null ? '—' : `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+/**
+ * One point per price-watch check: the RRP it picked and the lowest
+ * competitor price
+ */
+function buildTrend(observations: RrpObservation[]): TrendPoint[] {
+  const checks = new Map<string, RrpObservation[]>();
+  for (const observation of observations) {
+    checks.set(observation.observed_at, [...(checks.get(observation.observed_at) || []), observation]);
+  }
+
+  return [...checks.entries()].map(([observedAt, offers]) => ({
+    observedAt,
+    dateLabel: new Date(observedAt).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' }),
+    rrp: offers.find((offer) => offer.is_rrp)?.price ?? null,
+    lowest: Math.min(...offers.map((offer) => offer.price)),
+    retailers: new Set(offers.map((offer) => offer.retailer)).size,
+  }));
+}
+
+/**
+ * RRP Trend
+ *
+ * Retailer prices recorded by the RRP price-watch, charted against our
+ * sale price and RRP, with the item's open price alerts.
+ */
+export function RrpTrend({ itemId, salePrice, rrpAud }: RrpTrendProps) {
+  const [observations, setObservations] = useState<RrpObservation[]>([]);
+  const [alerts, setAlerts] = useState<RrpAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [canRenderChart, setCanRenderChart] = useState(false);
+
+  useEffect(() => {
+    const frame = window.requestAnimationFrame(() => setCanRenderChart(true));
+    return () => window.cancelAnimationFrame(frame);
+  }, []);
+
+  const fetchObservations = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/inventory/${itemId}/rrp-observations`);
+      const data = await response.json();
+      setObservations(data.observations || []);
+      setAlerts(data.alerts || []);
+    } catch (error) {
+      console.error('Failed to load RRP observations:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId]);
+
+  useEffect(() => {
+    fetchObservations();
+  }, [fetchObservations]);
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch(`/api/rrp/watch?itemId=${itemId}`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('RRP check failed', data.error || 'Please try again');
+        return;
+      }
+      if (data.errors?.length) {
+        notify.error('RRP check failed', data.errors[0].error);
+      } else if (data.notFound) {
+        notify.warning('No prices found', 'No Australian retailer prices found for this product');
+      } else {
+        notify.success('RRP checked', `${data.observations} retailer price${data.observations === 1 ? '' : 's'} recorded`);
+      }
+      await fetchObservations();
+    } catch {
+      notify.error('RRP check failed', 'Please try again');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleDismiss = async (alertId: string) => {
+    try {
+      const response = await fetch(`/api/rrp/alerts/${alertId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'dismissed' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Dismiss failed', data.error || 'Please try again');
+        return;
+      }
+      setAlerts((current) => current.filter((alert) => alert.id !== alertId));
+    } catch {
+      notify.error('Dismiss failed', 'Please try again');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="p-4">
+        <div className="animate-pulse space-y-3">
+          <div className="h-4 w-32 bg-zinc-200 dark:bg-zinc-700 rounded" />
+          <div className="h-8 w-full bg-zinc-200 dark:bg-zinc-700 rounded" />
+        </div>
+      </Card>
+    );
+  }
+
+  const trend = buildTrend(observations);
+  const latest = trend[trend.length - 1];
+  const latestOffers = latest
+    ? observations
+        .filter((observation) => observation.observed_at === latest.observedAt)
+        .sort((a, b) => a.price - b.price)
+    : [];
+
+  return (
+    <Card>
+      <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-zinc-900 dark:text-white">RRP Trend</h3>
+          <p className="text-xs text-zinc-500">
+            {latest
+              ? `Last checked ${new Date(latest.observedAt).toLocaleString('en-AU')} · ${latest.retailers} retailer${latest.retailers === 1 ? '' : 's'}`
+              : 'Not checked yet'}
+          </p>
+        </div>
+        <Button size="sm" variant="secondary" onClick={handleCheckNow} isLoading={isChecking}>
+          Check Now
+        </Button>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="divide-y divide-zinc-100 dark:divide-zinc-800 border-b border-zinc-200 dark:border-zinc-700">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="p-3 flex items-start justify-between gap-3 bg-amber-50 dark:bg-amber-900/20">
+              <div className="min-w-0">
+                <span className={`px-2 py-0.5 text-xs font-medium rounded ${
+                  RRP_ALERT_TYPES[alert.alert_type].color === 'red'
+                    ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+                    : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                }`}>
+                  {RRP_ALERT_TYPES[alert.alert_type].label}
+                </span>
+                <p className="text-sm text-zinc-700 dark:text-zinc-300 mt-1">
+                  {alert.url ? (
+                    <a href={alert.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {alert.message}
+                    </a>
+                  ) : alert.message}
+                </p>
+              </div>
+              <Button size="sm" variant="secondary" onClick={() => handleDismiss(alert.id)}>
+                Dismiss
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {trend.length === 0 ? (
+        <div className="p-4">
+          <p className="text-sm text-zinc-500">No retailer prices recorded yet</p>
+        </div>
+      ) : (
+        <>
+          <div className="h-56 p-4" role="img" aria-label={`RRP trend over ${trend.length} checks`}>
+            {canRenderChart ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
+                  <XAxis dataKey="dateLabel" stroke="#9CA3AF" fontSize={11} tickLine={false} interval="preserveStartEnd" />
+                  <YAxis
+                    stroke="#9CA3AF"
+                    fontSize={11}
+                    tickLine={false}
+                    axisLine={false}
+                    domain={['auto', 'auto']}
+                    tickFormatter={(value) => `$${Number(value).toLocaleString()}`}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'rgba(0,0,0,0.8)',
+                      border: 'none',
+                      borderRadius: '8px',
+                      color: '#fff',
+                    }}
+                    labelStyle={{ color: '#9CA3AF' }}
+                    formatter={(value) => formatCurrency(value as number)}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  {salePrice !== null && salePrice > 0 && (
+                    <ReferenceLine y={salePrice} stroke="#10B981" strokeDasharray="4 4" label={{ value: 'Our price', fontSize: 10, fill: '#10B981' }} />
+                  )}
+                  {rrpAud !== null && rrpAud > 0 && (
+                    <ReferenceLine y={rrpAud} stroke="#9CA3AF" strokeDasharray="4 4" label={{ value: 'Our RRP', fontSize: 10, fill: '#9CA3AF' }} />
+                  )}
+                  <Line type="monotone" dataKey="rrp" name="Market RRP" stroke="#3B82F6" strokeWidth={2} dot={false} connectNulls />
+                  <Line type="monotone" dataKey="lowest" name="Lowest competitor" stroke="#EF4444" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : null}
+          </div>
+
+          <div className="divide-y divide-zinc-100 dark:divide-zinc-800 border-t border-zinc-200 dark:border-zinc-700 max-h-48 overflow-y-auto">
+            {latestOffers.map((offer) => (
+              <div key={offer.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                <span className="text-zinc-700 dark:text-zinc-300 truncate">
+                  {offer.url ? (
+                    <a href={offer.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {offer.retailer}
+                    </a>
+                  ) : offer.retailer}
+                  {offer.is_rrp && <span className="ml-2 text-xs text-blue-600">RRP</span>}
+                </span>
+                <span className={`font-medium ${
+                  salePrice && offer.price < salePrice ? 'text-red-600' : 'text-zinc-900 dark:text-white'
+                }`}>
+                  {formatCurrency(offer.price)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
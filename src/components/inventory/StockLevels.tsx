@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import { hasStockDrift, type InventoryLocation, type InventoryStockLevelWithLocation } from '@/types';
+
+interface StockLevelsProps {
+  itemId: string;
+}
+
+/**
+ * Stock Levels
+ *
+ * Quantity per location for new-retail stock. Saving pushes the counts to
+ * Shopify when the item is published.
+ */
+export function StockLevels({ itemId }: StockLevelsProps) {
+  const [locations, setLocations] = useState<InventoryLocation[]>([]);
+  const [levels, setLevels] = useState<InventoryStockLevelWithLocation[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const applyLevels = (loaded: InventoryStockLevelWithLocation[]) => {
+    setLevels(loaded);
+    setQuantities(Object.fromEntries(loaded.map((level) => [level.location_id, String(level.quantity)])));
+  };
+
+  useEffect(() => {
+    async function fetchStock() {
+      try {
+        const [locationsRes, stockRes] = await Promise.all([
+          fetch('/api/inventory/locations'),
+          fetch(`/api/inventory/${itemId}/stock`),
+        ]);
+        const locationsData = await locationsRes.json();
+        const stockData = await stockRes.json();
+        setLocations(locationsData.locations || []);
+        applyLevels(stockData.levels || []);
+      } catch (error) {
+        console.error('Failed to load stock levels:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchStock();
+  }, [itemId]);
+
+  const handleImportLocations = async () => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/inventory/locations/import', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Import failed', data.error || 'Please try again');
+        return;
+      }
+      setLocations(data.locations || []);
+      notify.success('Locations imported', `${data.locations.length} Shopify locations`);
+    } catch {
+      notify.error('Import failed', 'Please try again');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/inventory/${itemId}/stock`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          levels: Object.entries(quantities)
+            .filter(([, value]) => value !== '')
+            .map(([locationId, value]) => ({ location_id: locationId, quantity: Math.max(0, Math.round(Number(value) || 0)) })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        notify.error('Save failed', data.error || 'Please try again');
+        return;
+      }
+
+      applyLevels(data.levels || []);
+      if (data.push?.error) {
+        notify.warning('Saved, Shopify not updated', data.push.error);
+      } else {
+        notify.success('Stock saved', data.push?.pushed ? 'Shopify quantities updated' : `${data.total} units on hand`);
+      }
+    } catch {
+      notify.error('Save failed', 'Please try again');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const activeLocations = locations.filter(
+    (location) => location.is_active || levels.some((level) => level.location_id === location.id)
+  );
+  const total = levels.reduce((sum, level) => sum + level.quantity, 0);
+
+  return (
+    <Card>
+      <div className="p-4 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-zinc-900 dark:text-white">Stock</h2>
+          <p className="text-sm text-zinc-500">{total} on hand</p>
+        </div>
+        {activeLocations.length > 0 && (
+          <Button size="sm" onClick={handleSave} isLoading={isSaving}>
+            Save Stock
+          </Button>
+        )}
+      </div>
+      <div className="p-4">
+        {isLoading ? (
+          <p className="text-sm text-zinc-500">Loading stock...</p>
+        ) : activeLocations.length === 0 ? (
+          <div className="text-center space-y-3">
+            <p className="text-sm text-zinc-500">No stock locations yet</p>
+            <Button size="sm" variant="secondary" onClick={handleImportLocations} isLoading={isImporting}>
+              Import Shopify Locations
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {activeLocations.map((location) => {
+              const level = levels.find((entry) => entry.location_id === location.id);
+              return (
+                <div key={location.id} className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-zinc-900 dark:text-white truncate">{location.name}</p>
+                    {level && hasStockDrift(level) && (
+                      <p className="text-xs text-amber-600">Shopify has {level.shopify_quantity}</p>
+                    )}
+                    {level?.push_error && (
+                      <p className="text-xs text-red-500 truncate">Push failed: {level.push_error}</p>
+                    )}
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={quantities[location.id] ?? ''}
+                    onChange={(e) => setQuantities({ ...quantities, [location.id]: e.target.value })}
+                    placeholder="0"
+                    className="w-24 px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { MAX_VARIANT_OPTIONS, VARIANT_OPTION_AXES, type InventoryItem, type VariantOptions } from '@/types';
+
+/** Editable variant row; prices are kept as input strings until saved */
+export interface VariantDraft {
+  id?: string;
+  options: VariantOptions;
+  sale_price: string;
+  sku: string;
+  rrp_aud: string;
+}
+
+interface VariantEditorProps {
+  optionNames: string[];
+  variants: VariantDraft[];
+  onChange: (optionNames: string[], variants: VariantDraft[]) => void;
+  disabled?: boolean;
+}
+
+export function emptyVariantDraft(defaults: Partial<VariantDraft> = {}): VariantDraft {
+  return { options: {}, sale_price: '', sku: '', rrp_aud: '', ...defaults };
+}
+
+export function variantDraftFromItem(item: InventoryItem): VariantDraft {
+  return {
+    id: item.id,
+    options: item.variant_options || {},
+    sale_price: item.sale_price ? String(item.sale_price) : '',
+    sku: item.sku || '',
+    rrp_aud: item.rrp_aud ? String(item.rrp_aud) : '',
+  };
+}
+
+/**
+ * Request payload for POST/PUT /api/product-groups
+ */
+export function toVariantPayload(variants: VariantDraft[]) {
+  return variants.map((variant) => ({
+    ...(variant.id ? { id: variant.id } : {}),
+    options: variant.options,
+    sale_price: Number(variant.sale_price) || 0,
+    sku: variant.sku.trim() || null,
+    rrp_aud: variant.rrp_aud ? Number(variant.rrp_aud) : null,
+  }));
+}
+
+/**
+ * Variant Editor
+ *
+ * Edits a product group's option axes (e.g. Colour, Finish, Size) and one
+ * row per variant with its option values, price and SKU.
+ */
+export function VariantEditor({ optionNames, variants, onChange, disabled }: VariantEditorProps) {
+  const unusedAxes = VARIANT_OPTION_AXES.filter((axis) => !optionNames.includes(axis));
+
+  const renameAxis = (index: number, name: string) => {
+    const previous = optionNames[index];
+    const nextNames = optionNames.map((axis, i) => (i === index ? name : axis));
+    onChange(
+      nextNames,
+      variants.map((variant) => {
+        const options = { ...variant.options, [name]: variant.options[previous] || '' };
+        if (previous !== name) delete options[previous];
+        return { ...variant, options };
+      })
+    );
+  };
+
+  const removeAxis = (index: number) => {
+    const name = optionNames[index];
+    onChange(
+      optionNames.filter((_, i) => i !== index),
+      variants.map((variant) => {
+        const options = { ...variant.options };
+        delete options[name];
+        return { ...variant, options };
+      })
+    );
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onChange(optionNames, variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-50';
+
+  return (
+    <div className="space-y-4">
+      {/* Option axes */}
+      <div>
+        <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">Options</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {optionNames.map((name, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                value={name}
+                onChange={(e) => renameAxis(index, e.target.value)}
+                placeholder="Option name"
+                className={`${inputClass} w-32`}
+                disabled={disabled}
+              />
+              {optionNames.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => removeAxis(index)}
+                  className="p-1 text-zinc-400 hover:text-red-500"
+                  aria-label={`Remove ${name || 'option'}`}
+                  disabled={disabled}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+          {optionNames.length < MAX_VARIANT_OPTIONS && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => onChange([...optionNames, unusedAxes[0] || ''], variants)}
+              disabled={disabled}
+            >
+              + Add option
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Variant rows */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-zinc-500">
+              {optionNames.map((name, index) => (
+                <th key={index} className="pb-2 pr-2 font-medium">{name || 'Option'}</th>
+              ))}
+              <th className="pb-2 pr-2 font-medium">Sale Price</th>
+              <th className="pb-2 pr-2 font-medium">RRP</th>
+              <th className="pb-2 pr-2 font-medium">SKU</th>
+              <th className="pb-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {variants.map((variant, index) => (
+              <tr key={variant.id || index}>
+                {optionNames.map((name, axisIndex) => (
+                  <td key={axisIndex} className="py-1 pr-2">
+                    <input
+                      value={variant.options[name] || ''}
+                      onChange={(e) =>
+                        updateVariant(index, { options: { ...variant.options, [name]: e.target.value } })
+                      }
+                      placeholder={name === 'Colour' ? 'e.g. Black' : ''}
+                      className={inputClass}
+                      disabled={disabled}
+                    />
+                  </td>
+                ))}
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={variant.sale_price}
+                    onChange={(e) => updateVariant(index, { sale_price: e.target.value })}
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={variant.rrp_aud}
+                    onChange={(e) => updateVariant(index, { rrp_aud: e.target.value })}
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    value={variant.sku}
+                    onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                    placeholder="Auto"
+                    className={inputClass}
+                    disabled={disabled}
+                  />
+                </td>
+                <td className="py-1">
+                  {variants.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => onChange(optionNames, variants.filter((_, i) => i !== index))}
+                      className="p-1 text-zinc-400 hover:text-red-500"
+                      aria-label="Remove variant"
+                      disabled={disabled}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Button
+        size="sm"
+        variant="secondary"
+        onClick={() =>
+          onChange(optionNames, [
+            ...variants,
+            emptyVariantDraft({
+              sale_price: variants[variants.length - 1]?.sale_price || '',
+              rrp_aud: variants[variants.length - 1]?.rrp_aud || '',
+            }),
+          ])
+        }
+        disabled={disabled}
+      >
+        + Add variant
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 export { ExportButton } from './ExportButton';
 export { PriceHistory } from './PriceHistory';
+export { RrpTrend } from './RrpTrend';
+export { CompetitorMatrix } from './CompetitorMatrix';
 export { ImportDialog, useImportDialog } from './ImportDialog';
 export { FilterPresetsDropdown } from './FilterPresetsDropdown';
 export { SaveFilterDialog, useSaveFilterDialog } from './SaveFilterDialog';
 export { ComparisonModal, useComparisonModal } from './ComparisonModal';
+export { VariantEditor } from './VariantEditor';
+export { ProductGroupVariants } from './ProductGroupVariants';
+export { StockLevels } from './StockLevels';
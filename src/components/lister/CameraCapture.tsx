@@ -3,21 +3,45 @@
 
 import { useRef, useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/Button';
+import {
+  createSerialBarcodeDetector,
+  detectSerialBarcode,
+  detectSerialBarcodeInImage,
+  type DecodedBarcode,
+  type SerialBarcodeDetector,
+} from '@/lib/utils/barcode';
 
 interface CameraCaptureProps {
-  onCapture: (imageData: string, allImages?: string[]) => void;
+  /** barcode is the serial decoded from the stream or photos, when scanBarcodes is on */
+  onCapture: (imageData: string, allImages?: string[], barcode?: DecodedBarcode | null) => void;
   onCancel?: () => void;
   isProcessing?: boolean;
   multiple?: boolean;
   maxPhotos?: number;
+  /** Decode serial barcodes/QR codes on the live stream and in photos */
+  scanBarcodes?: boolean;
+  /** How many of the first photos the caller sends for AI identification */
+  identifyPhotos?: number;
 }
 
+// How often the live stream is checked for a barcode
+const BARCODE_SCAN_INTERVAL_MS = 300;
+
+const BARCODE_FORMAT_LABELS: Record<DecodedBarcode['format'], string> = {
+  code_128: 'Code 128',
+  data_matrix: 'DataMatrix',
+  qr_code: 'QR',
+  ean_13: 'EAN-13',
+};
+
 export function CameraCapture({ 
   onCapture, 
   onCancel, 
   isProcessing = false,
   multiple = false,
   maxPhotos = 10,
+  scanBarcodes = false,
+  identifyPhotos = 1,
 }: CameraCaptureProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -30,6 +54,46 @@ export function CameraCapture({
   const [error, setError] = useState<string | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const switchCameraTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const barcodeDetectorRef = useRef<Promise<SerialBarcodeDetector | null> | null>(null);
+  const [barcode, setBarcode] = useState<DecodedBarcode | null>(null);
+  // Bumped whenever the decoded serial is dropped, so photo scans still in
+  // flight can't bring back a serial from a discarded photo
+  const scanGenerationRef = useRef(0);
+  const [canScanBarcodes, setCanScanBarcodes] = useState<boolean | null>(null);
+
+  const getBarcodeDetector = useCallback(() => {
+    if (!barcodeDetectorRef.current) {
+      barcodeDetectorRef.current = createSerialBarcodeDetector().then((detector) => {
+        setCanScanBarcodes(Boolean(detector));
+        return detector;
+      });
+    }
+    return barcodeDetectorRef.current;
+  }, []);
+
+  // Decode a serial barcode in a captured or uploaded photo, keeping the first one found
+  const scanImage = useCallback(async (imageData: string) => {
+    if (!scanBarcodes) return;
+    const generation = scanGenerationRef.current;
+    const detector = await getBarcodeDetector();
+    if (!detector) return;
+    const found = await detectSerialBarcodeInImage(detector, imageData);
+    if (found && generation === scanGenerationRef.current) {
+      setBarcode((prev) => prev ?? found);
+    }
+  }, [scanBarcodes, getBarcodeDetector]);
+
+  const clearBarcode = useCallback(() => {
+    scanGenerationRef.current += 1;
+    setBarcode(null);
+  }, []);
+
+  // Drop the decoded serial and look for one again in the photos being kept,
+  // so a serial from a discarded photo is never submitted
+  const rescanImages = useCallback((images: string[]) => {
+    clearBarcode();
+    images.forEach((imageData) => void scanImage(imageData));
+  }, [clearBarcode, scanImage]);
 
   // Start camera
   const startCamera = useCallback(async () => {
@@ -100,6 +164,7 @@ export function CameraCapture({
     ctx.drawImage(video, 0, 0);
     
     const imageData = canvas.toDataURL('image/jpeg', 0.9);
+    void scanImage(imageData);
     
     if (multiple) {
       setCapturedImages(prev => [...prev, imageData]);
@@ -110,7 +175,39 @@ export function CameraCapture({
       setCurrentPreview(imageData);
       stopCamera();
     }
-  }, [stopCamera, multiple]);
+  }, [stopCamera, multiple, scanImage]);
+
+  // Watch the live stream for a serial barcode; in single-photo mode the
+  // frame it was read from is captured straight away
+  useEffect(() => {
+    if (!scanBarcodes || !isCameraActive || barcode) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scan = async () => {
+      const detector = await getBarcodeDetector();
+      if (!detector || cancelled) return;
+
+      const video = videoRef.current;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        const found = await detectSerialBarcode(detector, video);
+        if (cancelled) return;
+        if (found) {
+          setBarcode(found);
+          if (!multiple) capturePhoto();
+          return;
+        }
+      }
+      timer = setTimeout(scan, BARCODE_SCAN_INTERVAL_MS);
+    };
+
+    scan();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [scanBarcodes, isCameraActive, barcode, multiple, capturePhoto, getBarcodeDetector]);
 
   // Handle file upload
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -124,6 +221,7 @@ export function CameraCapture({
       const reader = new FileReader();
       reader.onloadend = () => {
         const imageData = reader.result as string;
+        void scanImage(imageData);
         setCapturedImages(prev => {
           const newImages = [...prev, imageData];
           setCurrentPreview(imageData);
@@ -135,7 +233,7 @@ export function CameraCapture({
     
     // Reset input so same file can be selected again
     e.target.value = '';
-  }, [capturedImages.length, maxPhotos]);
+  }, [capturedImages.length, maxPhotos, scanImage]);
 
   // Add more photos
   const addMorePhotos = useCallback(() => {
@@ -145,48 +243,47 @@ export function CameraCapture({
 
   // Remove a photo
   const removePhoto = useCallback((index: number) => {
-    setCapturedImages(prev => {
-      const newImages = prev.filter((_, i) => i !== index);
-      if (newImages.length > 0) {
-        setCurrentPreview(newImages[newImages.length - 1]);
-      } else {
-        setCurrentPreview(null);
-      }
-      return newImages;
-    });
-  }, []);
+    const newImages = capturedImages.filter((_, i) => i !== index);
+    setCapturedImages(newImages);
+    setCurrentPreview(newImages.length > 0 ? newImages[newImages.length - 1] : null);
+    rescanImages(newImages);
+  }, [capturedImages, rescanImages]);
 
   // Confirm and send images
   const confirmCapture = useCallback(() => {
     if (capturedImages.length > 0) {
-      // Send first image for AI identification, plus all images
-      onCapture(capturedImages[0], capturedImages);
+      // Send first image for AI identification, plus all images and any decoded serial
+      onCapture(capturedImages[0], capturedImages, barcode);
     }
-  }, [capturedImages, onCapture]);
+  }, [capturedImages, onCapture, barcode]);
 
   // Retake photo (single mode) or continue (multiple mode)
   const retakePhoto = useCallback(() => {
     if (multiple) {
       // In multiple mode, just continue adding
       setCurrentPreview(null);
+      rescanImages(capturedImages);
       startCamera();
     } else {
       setCapturedImages([]);
       setCurrentPreview(null);
+      clearBarcode();
       startCamera();
     }
-  }, [startCamera, multiple]);
+  }, [startCamera, multiple, capturedImages, rescanImages, clearBarcode]);
 
   // Cancel everything
   const handleCancel = useCallback(() => {
     stopCamera();
     setCapturedImages([]);
     setCurrentPreview(null);
+    clearBarcode();
     onCancel?.();
-  }, [stopCamera, onCancel]);
+  }, [stopCamera, onCancel, clearBarcode]);
   
   const hasImages = capturedImages.length > 0;
   const canAddMore = multiple && capturedImages.length < maxPhotos;
+  const identifyLabel = identifyPhotos > 1 ? `First ${identifyPhotos} photos` : 'First photo';
 
   return (
     <div className="flex flex-col h-full bg-black">
@@ -265,7 +362,7 @@ export function CameraCapture({
                   >
                     ×
                   </button>
-                  {index === 0 && (
+                  {index < identifyPhotos && (
                     <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 text-[10px] bg-emerald-500 text-white px-1 rounded">
                       AI
                     </span>
@@ -285,7 +382,7 @@ export function CameraCapture({
             </div>
             {multiple && (
               <p className="text-center text-xs text-white/50 mt-1">
-                {capturedImages.length}/{maxPhotos} photos • First photo used for AI identification
+                {capturedImages.length}/{maxPhotos} photos • {identifyLabel} used for AI identification
               </p>
             )}
           </div>
@@ -305,7 +402,7 @@ export function CameraCapture({
             </h3>
             <p className="text-zinc-400 mb-6 max-w-xs">
               {multiple 
-                ? `Take up to ${maxPhotos} photos. First photo is used for AI identification.`
+                ? `Take up to ${maxPhotos} photos. ${identifyLabel} ${identifyPhotos > 1 ? 'are' : 'is'} used for AI identification.`
                 : 'Take a photo of the product label, front panel, or serial number for automatic identification'
               }
             </p>
@@ -342,12 +439,25 @@ export function CameraCapture({
             {/* Hint text */}
             <div className="absolute top-4 left-0 right-0 text-center">
               <span className="bg-black/50 text-white text-sm px-3 py-1 rounded-full">
-                {hasImages ? `${capturedImages.length} captured - take more or tap Done` : 'Position product label in frame'}
+                {hasImages
+                  ? `${capturedImages.length} captured - take more or tap Done`
+                  : scanBarcodes && canScanBarcodes
+                    ? 'Position serial barcode or product label in frame'
+                    : 'Position product label in frame'}
               </span>
             </div>
           </div>
         )}
 
+        {/* Decoded serial barcode */}
+        {barcode && (
+          <div className="absolute top-12 left-0 right-0 text-center pointer-events-none">
+            <span className="bg-emerald-600 text-white text-sm px-3 py-1 rounded-full font-mono">
+              S/N {barcode.value} · {BARCODE_FORMAT_LABELS[barcode.format]}
+            </span>
+          </div>
+        )}
+
         {/* Processing overlay */}
         {isProcessing && (
           <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center">
@@ -0,0 +1,187 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { notify } from '@/lib/store/app-store';
+import {
+  CONDITION_GRADES,
+  CONDITION_ISSUES,
+  CONDITION_SEVERITIES,
+  PRODUCT_CATEGORIES,
+  type ConditionAssessment,
+  type ConditionGrade,
+  type ProductCategory,
+} from '@/types';
+
+const SEVERITY_STYLES: Record<string, string> = {
+  gray: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+interface ConditionAssessmentPanelProps {
+  /** Selling or registration photos, indexed by observation.image_index */
+  images: string[];
+  brand: string;
+  model: string;
+  assessment: ConditionAssessment | null;
+  onAssessed: (assessment: ConditionAssessment) => void;
+  /** Grade currently selected in the form */
+  grade: ConditionGrade | null | undefined;
+  /** Take the proposed grade and drafted report into the form */
+  onAccept: (grade: ConditionGrade, report: string) => void;
+}
+
+/**
+ * Record the grade the user settled on against the AI proposal before saving
+ */
+export function finalizeConditionAssessment(
+  assessment: ConditionAssessment | null,
+  grade: ConditionGrade | null | undefined
+): ConditionAssessment | null {
+  if (!assessment) return null;
+  return {
+    ...assessment,
+    final_grade: grade || null,
+    overridden: !!grade && grade !== assessment.proposed_grade,
+  };
+}
+
+/**
+ * AI-assisted grading: proposes a grade from the photos with the defects
+ * it saw and a checklist-based condition report. Picking a different grade
+ * in the form overrides the proposal.
+ */
+export function ConditionAssessmentPanel({
+  images,
+  brand,
+  model,
+  assessment,
+  onAssessed,
+  grade,
+  onAccept,
+}: ConditionAssessmentPanelProps) {
+  const [category, setCategory] = useState<ProductCategory | ''>(assessment?.category || '');
+  const [isAssessing, setIsAssessing] = useState(false);
+
+  const handleAssess = async () => {
+    setIsAssessing(true);
+    try {
+      const response = await fetch('/api/vision/condition', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ images, brand, model, category: category || null }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.assessment) {
+        notify.error('Condition assessment failed', data.error || 'Please grade manually');
+        return;
+      }
+      onAssessed(data.assessment);
+      setCategory(data.assessment.category);
+    } catch {
+      notify.error('Condition assessment failed', 'Please grade manually');
+    } finally {
+      setIsAssessing(false);
+    }
+  };
+
+  const proposed = assessment ? CONDITION_GRADES[assessment.proposed_grade] : null;
+  const isOverridden = !!assessment && !!grade && grade !== assessment.proposed_grade;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 dark:border-zinc-700 p-4 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">Product category</label>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as ProductCategory | '')}
+            className="w-full h-10 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 text-sm text-zinc-900 dark:text-zinc-100"
+          >
+            <option value="">Detect from photos</option>
+            {(Object.keys(PRODUCT_CATEGORIES) as ProductCategory[]).map((key) => (
+              <option key={key} value={key}>
+                {PRODUCT_CATEGORIES[key].label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button variant="secondary" onClick={handleAssess} isLoading={isAssessing} disabled={images.length === 0}>
+          {assessment ? 'Re-assess from photos' : 'Assess condition from photos'}
+        </Button>
+      </div>
+      {images.length === 0 && (
+        <p className="text-xs text-zinc-500">Add condition photos to get a suggested grade.</p>
+      )}
+
+      {assessment && proposed && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-zinc-500">Suggested grade</span>
+            <span className="px-2 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400 text-sm font-medium">
+              {proposed.label}
+            </span>
+            <span className="text-xs text-zinc-500">
+              {Math.round(assessment.confidence * 100)}% confidence · {PRODUCT_CATEGORIES[assessment.category].label} checklist
+            </span>
+            {grade && !isOverridden && (
+              <span className="text-xs text-emerald-600">Accepted</span>
+            )}
+            {isOverridden && (
+              <span className="text-xs text-amber-600">Overridden: graded {CONDITION_GRADES[grade].label}</span>
+            )}
+          </div>
+          {assessment.summary && <p className="text-sm text-zinc-700 dark:text-zinc-300">{assessment.summary}</p>}
+
+          {assessment.observations.length > 0 ? (
+            <ul className="space-y-2">
+              {assessment.observations.map((observation, index) => {
+                const severity = CONDITION_SEVERITIES[observation.severity];
+                const image = observation.image_index !== null ? images[observation.image_index] : undefined;
+                return (
+                  <li key={index} className="flex items-start gap-3 text-sm">
+                    {image && (
+                      <img
+                        src={image}
+                        alt={`Photo ${(observation.image_index ?? 0) + 1}`}
+                        className="w-12 h-12 object-cover rounded shrink-0"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-zinc-900 dark:text-white">
+                        {CONDITION_ISSUES[observation.issue].label}
+                        {observation.location && <span className="font-normal text-zinc-500"> · {observation.location}</span>}
+                        <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[severity.color]}`}>
+                          {severity.label}
+                        </span>
+                      </p>
+                      <p className="text-zinc-600 dark:text-zinc-400">{observation.description}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-zinc-500">No scratches, dents or missing parts seen.</p>
+          )}
+
+          <div>
+            <p className="text-xs font-medium text-zinc-500 mb-1">Drafted condition report</p>
+            <p className="text-sm whitespace-pre-line rounded bg-zinc-50 dark:bg-zinc-800/50 p-3 text-zinc-700 dark:text-zinc-300">
+              {assessment.draft_report}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button size="sm" onClick={() => onAccept(assessment.proposed_grade, assessment.draft_report)}>
+              Accept grade &amp; report
+            </Button>
+            <p className="text-xs text-zinc-500">Or pick a different grade and edit the notes to override.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/Input';
+import { getMissingChecklistAnswers } from '@/lib/condition/summary';
+import {
+  CHECKLIST_RATINGS,
+  PRODUCT_CATEGORIES,
+  type ChecklistRating,
+  type ConditionChecklistAnswer,
+  type ConditionChecklistField,
+  type ConditionChecklistResponse,
+  type ConditionChecklistSchema,
+  type ProductCategory,
+} from '@/types';
+
+interface ConditionChecklistFormProps {
+  value: ConditionChecklistResponse | null;
+  onChange: (value: ConditionChecklistResponse | null) => void;
+  /** Category to start on when none is picked yet (e.g. from the AI assessment) */
+  suggestedCategory?: ProductCategory | null;
+}
+
+const optionClass = (selected: boolean) =>
+  `px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+    selected
+      ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400'
+      : 'border-zinc-200 dark:border-zinc-700 hover:border-zinc-300'
+  }`;
+
+function ChecklistFieldInput({
+  field,
+  answer,
+  onAnswer,
+}: {
+  field: ConditionChecklistField;
+  answer: ConditionChecklistAnswer | undefined;
+  onAnswer: (answer: ConditionChecklistAnswer) => void;
+}) {
+  switch (field.type) {
+    case 'rating':
+      return (
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(CHECKLIST_RATINGS) as ChecklistRating[]).map((rating) => (
+            <button
+              key={rating}
+              type="button"
+              onClick={() => onAnswer(answer === rating ? null : rating)}
+              className={optionClass(answer === rating)}
+            >
+              {CHECKLIST_RATINGS[rating].label}
+            </button>
+          ))}
+        </div>
+      );
+    case 'yes_no':
+      return (
+        <div className="flex gap-2">
+          {[true, false].map((option) => (
+            <button
+              key={String(option)}
+              type="button"
+              onClick={() => onAnswer(answer === option ? null : option)}
+              className={optionClass(answer === option)}
+            >
+              {option ? 'Yes' : 'No'}
+            </button>
+          ))}
+        </div>
+      );
+    case 'select':
+      return (
+        <select
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onAnswer(e.target.value || null)}
+          className="w-full h-10 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 text-sm text-zinc-900 dark:text-zinc-100"
+        >
+          <option value="">Select...</option>
+          {(field.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    case 'number':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            value={typeof answer === 'number' ? answer : ''}
+            onChange={(e) => onAnswer(e.target.value === '' ? null : Number(e.target.value))}
+            className="max-w-[10rem]"
+          />
+          {field.unit && <span className="text-sm text-zinc-500">{field.unit}</span>}
+        </div>
+      );
+    default:
+      return (
+        <Input
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onAnswer(e.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * The product category's condition checklist, answered as structured data.
+ * Switching category keeps answers to fields the two checklists share.
+ */
+export function ConditionChecklistForm({ value, onChange, suggestedCategory }: ConditionChecklistFormProps) {
+  const [checklists, setChecklists] = useState<ConditionChecklistSchema[]>([]);
+  // A category picked by hand (including "No checklist") beats the suggestion
+  const [hasPicked, setHasPicked] = useState(false);
+  // Only new suggestions apply, not the one a saved item was opened with
+  const [initialSuggestion] = useState(suggestedCategory);
+
+  useEffect(() => {
+    fetch('/api/condition-checklists')
+      .then((response) => response.json())
+      .then((data) => setChecklists(data.checklists || []))
+      .catch((err) => console.error('Failed to fetch condition checklists:', err));
+  }, []);
+
+  const selectCategory = (category: ProductCategory | '') => {
+    setHasPicked(true);
+    const checklist = checklists.find((entry) => entry.category === category);
+    if (!checklist) {
+      onChange(null);
+      return;
+    }
+    const answers = Object.fromEntries(
+      checklist.fields
+        .filter((field) => value?.answers[field.key] !== undefined)
+        .map((field) => [field.key, value?.answers[field.key] ?? null])
+    );
+    onChange({ category: checklist.category, fields: checklist.fields, answers });
+  };
+
+  // Start on the suggested category once the checklists have loaded
+  useEffect(() => {
+    if (value || hasPicked || !suggestedCategory || suggestedCategory === initialSuggestion) return;
+    const checklist = checklists.find((entry) => entry.category === suggestedCategory);
+    if (checklist) {
+      onChange({ category: checklist.category, fields: checklist.fields, answers: {} });
+    }
+  }, [checklists, suggestedCategory, initialSuggestion, value, hasPicked, onChange]);
+
+  const setAnswer = (key: string, answer: ConditionChecklistAnswer) => {
+    if (!value) return;
+    onChange({ ...value, answers: { ...value.answers, [key]: answer } });
+  };
+
+  const missing = value ? getMissingChecklistAnswers(value) : [];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">Checklist</label>
+        <select
+          value={value?.category || ''}
+          onChange={(e) => selectCategory(e.target.value as ProductCategory | '')}
+          className="w-full h-10 rounded-lg border border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 px-3 text-sm text-zinc-900 dark:text-zinc-100"
+        >
+          <option value="">No checklist</option>
+          {checklists.map((checklist) => (
+            <option key={checklist.category} value={checklist.category}>
+              {PRODUCT_CATEGORIES[checklist.category].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {value && (
+        <div className="space-y-3">
+          {value.fields.map((field) => (
+            <div key={field.key}>
+              <p className="text-sm text-zinc-700 dark:text-zinc-300 mb-1.5">
+                {field.label}
+                {field.required && ' *'}
+              </p>
+              <ChecklistFieldInput
+                field={field}
+                answer={value.answers[field.key]}
+                onAnswer={(answer) => setAnswer(field.key, answer)}
+              />
+            </div>
+          ))}
+          {missing.length > 0 && (
+            <p className="text-xs text-amber-600">
+              Still to answer: {missing.map((field) => field.label).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
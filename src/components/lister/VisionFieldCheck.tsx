@@ -0,0 +1,124 @@
+'use client';
+/* eslint-disable @next/next/no-img-element */
+
+import { Button } from '@/components/ui/Button';
+import {
+  VISION_CONFIDENCE_THRESHOLD,
+  type VisionAIResponse,
+  type VisionField,
+  type VisionFieldReading,
+  type VisionRegion,
+} from '@/types';
+
+interface VisionRegionPreviewProps {
+  image: string;
+  region: VisionRegion;
+  alt: string;
+}
+
+/**
+ * Photo with the area a value was read from outlined
+ */
+export function VisionRegionPreview({ image, region, alt }: VisionRegionPreviewProps) {
+  return (
+    <div className="relative w-full overflow-hidden rounded-lg bg-zinc-900">
+      <img src={image} alt={alt} className="w-full h-auto block" />
+      <div
+        className="absolute border-2 border-amber-400 bg-amber-400/10 rounded-sm pointer-events-none"
+        style={{
+          left: `${region.x * 100}%`,
+          top: `${region.y * 100}%`,
+          width: `${region.width * 100}%`,
+          height: `${region.height * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
+
+interface VisionFieldCheckProps {
+  label: string;
+  reading: VisionFieldReading | undefined;
+  /** Photos sent for identification, indexed by region.image_index */
+  images: string[];
+  /** Low-confidence reading still awaiting confirmation */
+  needsConfirmation: boolean;
+  onConfirm: () => void;
+  /** Use a value another photo read instead */
+  onPickAlternative: (value: string) => void;
+}
+
+/**
+ * Confidence and source region for an AI-read field. Low-confidence reads
+ * show where the value came from and must be confirmed (or edited) before
+ * the item can be created.
+ */
+export function VisionFieldCheck({
+  label,
+  reading,
+  images,
+  needsConfirmation,
+  onConfirm,
+  onPickAlternative,
+}: VisionFieldCheckProps) {
+  if (!reading?.value) return null;
+
+  const percent = Math.round(reading.confidence * 100);
+  const isLow = reading.confidence < VISION_CONFIDENCE_THRESHOLD;
+  const regionImage = reading.region ? images[reading.region.image_index] : undefined;
+
+  if (!needsConfirmation) {
+    return (
+      <p className="mt-1 text-xs text-zinc-500">
+        AI read {percent}% confident
+        {reading.region && images.length > 1 && ` from photo ${reading.region.image_index + 1}`}
+        {isLow && ' · confirmed'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          Low confidence ({percent}%) — check the {label.toLowerCase()} against the photo
+          {reading.region && images.length > 1 && ` (photo ${reading.region.image_index + 1})`}
+        </p>
+        <Button size="sm" variant="secondary" onClick={onConfirm}>
+          Confirm
+        </Button>
+      </div>
+
+      {reading.region && regionImage && (
+        <VisionRegionPreview image={regionImage} region={reading.region} alt={`${label} as read by AI`} />
+      )}
+
+      {reading.alternatives.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-amber-700 dark:text-amber-400">
+          <span>Other photos read:</span>
+          {reading.alternatives.map((alternative) => (
+            <button
+              key={alternative}
+              type="button"
+              onClick={() => onPickAlternative(alternative)}
+              className="px-2 py-0.5 rounded bg-white dark:bg-zinc-800 border border-amber-300 dark:border-amber-700 font-mono hover:bg-amber-100 dark:hover:bg-amber-900/40"
+            >
+              {alternative}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Fields the AI filled in below the confidence threshold
+ */
+export function getLowConfidenceFields(result: VisionAIResponse): VisionField[] {
+  if (!result.fields) return [];
+  return (Object.keys(result.fields) as VisionField[]).filter((field) => {
+    const reading = result.fields[field];
+    return reading.value && reading.confidence < VISION_CONFIDENCE_THRESHOLD;
+  });
+}
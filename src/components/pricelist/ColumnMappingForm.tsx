@@ -0,0 +1,108 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { PRICELIST_FIELDS, type PricelistColumnMapping, type PricelistField } from '@/lib/pricelist/fields';
+
+interface ColumnMappingFormProps {
+  headers: string[];
+  sampleRows: string[][];
+  mapping: PricelistColumnMapping;
+  onMappingChange: (mapping: PricelistColumnMapping) => void;
+  onConfirm: () => void;
+  isLoading: boolean;
+  /** Supplier whose mapping is loaded or will be remembered */
+  supplier?: string;
+  mappingSource?: 'saved' | 'suggested';
+}
+
+/**
+ * Map spreadsheet columns to pricelist fields, with a preview of the first
+ * rows as they will be read
+ */
+export function ColumnMappingForm({
+  headers,
+  sampleRows,
+  mapping,
+  onMappingChange,
+  onConfirm,
+  isLoading,
+  supplier,
+  mappingSource,
+}: ColumnMappingFormProps) {
+  const fields = Object.keys(PRICELIST_FIELDS) as PricelistField[];
+  const missingRequired = fields.filter((field) => PRICELIST_FIELDS[field].required && !mapping[field]);
+
+  const cellFor = (row: string[], field: PricelistField) => {
+    const header = mapping[field];
+    if (!header) return '';
+    return row[headers.indexOf(header)] || '';
+  };
+
+  return (
+    <div className="space-y-6">
+      {supplier && (
+        <p className="text-sm text-zinc-500">
+          {mappingSource === 'saved'
+            ? `Using the columns saved for ${supplier}. Changes are remembered for next time.`
+            : `Columns were guessed from the headers. The mapping is remembered for ${supplier}.`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {fields.map((field) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">
+              {PRICELIST_FIELDS[field].label}
+              {PRICELIST_FIELDS[field].required && <span className="text-red-500"> *</span>}
+            </label>
+            <select
+              value={mapping[field] || ''}
+              onChange={(e) => onMappingChange({ ...mapping, [field]: e.target.value || undefined })}
+              className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+            >
+              <option value="">— Not in this file —</option>
+              {headers.map((header) => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {/* Sample rows as mapped */}
+      <div className="overflow-x-auto border border-zinc-200 dark:border-zinc-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 dark:bg-zinc-800/50">
+            <tr className="text-left text-zinc-500">
+              {fields.map((field) => (
+                <th key={field} className="px-3 py-2 font-medium whitespace-nowrap">{PRICELIST_FIELDS[field].label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+            {sampleRows.map((row, i) => (
+              <tr key={i}>
+                {fields.map((field) => (
+                  <td key={field} className="px-3 py-2 text-zinc-700 dark:text-zinc-300 whitespace-nowrap max-w-48 truncate">
+                    {cellFor(row, field) || <span className="text-zinc-400">—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-zinc-500">
+          {missingRequired.length > 0
+            ? `Map ${missingRequired.map((field) => PRICELIST_FIELDS[field].label).join(' and ')} to continue`
+            : 'Rows without a product name or cost price are skipped with a warning'}
+        </p>
+        <Button onClick={onConfirm} isLoading={isLoading} disabled={missingRequired.length > 0}>
+          Read Pricelist
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { PricelistDiff, PricelistDiffSelection } from '@/lib/pricelist/diff';
+
+interface PricelistDiffViewProps {
+  diff: PricelistDiff;
+  onApply: (selection: PricelistDiffSelection) => void;
+  isApplying: boolean;
+}
+
+const formatPrice = (price: number | null | undefined) => {
+  if (price === null || price === undefined) return '-';
+  return `$${price.toLocaleString('en-AU', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+};
+
+function PriceDelta({ change }: { change: { old: number | null; new: number } | null }) {
+  if (!change) return <span className="text-zinc-400">unchanged</span>;
+
+  const percent = change.old ? ((change.new - change.old) / change.old) * 100 : null;
+  return (
+    <span className="whitespace-nowrap">
+      <span className="text-zinc-500 line-through mr-1">{formatPrice(change.old)}</span>
+      <span className="font-medium text-zinc-900 dark:text-white">{formatPrice(change.new)}</span>
+      {percent !== null && (
+        <span className={`ml-1 text-xs ${percent > 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+          {percent > 0 ? '+' : ''}{percent.toFixed(1)}%
+        </span>
+      )}
+    </span>
+  );
+}
+
+function toggle<T>(set: Set<T>, value: T): Set<T> {
+  const next = new Set(set);
+  if (next.has(value)) next.delete(value);
+  else next.add(value);
+  return next;
+}
+
+/**
+ * Review a pricelist diff and pick which changes to apply. Exact matches
+ * and new SKUs start selected; fuzzy matches and discontinued items
+ * (archived when applied) must be opted into.
+ */
+export function PricelistDiffView({ diff, onApply, isApplying }: PricelistDiffViewProps) {
+  const [selectedChanges, setSelectedChanges] = useState<Set<number>>(
+    new Set(diff.changes.flatMap((change, i) => (change.matchType === 'brand_model_fuzzy' ? [] : [i])))
+  );
+  const [selectedNew, setSelectedNew] = useState<Set<number>>(new Set(diff.newItems.map((_, i) => i)));
+  const [selectedDiscontinued, setSelectedDiscontinued] = useState<Set<string>>(new Set());
+
+  const selectedCount = selectedChanges.size + selectedNew.size + selectedDiscontinued.size;
+
+  const handleApply = () => {
+    onApply({
+      priceChanges: diff.changes
+        .filter((_, i) => selectedChanges.has(i))
+        .map((change) => ({
+          itemId: change.item.id,
+          cost_price: change.cost?.new,
+          rrp_aud: change.rrp?.new,
+        })),
+      newItems: diff.newItems.filter((_, i) => selectedNew.has(i)),
+      discontinuedIds: [...selectedDiscontinued],
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-zinc-50 dark:bg-zinc-800/50 rounded-lg p-4">
+          <p className="text-sm text-zinc-500">Price Changes</p>
+          <p className="text-2xl font-bold text-zinc-900 dark:text-white">{diff.changes.length}</p>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-800/50 rounded-lg p-4">
+          <p className="text-sm text-zinc-500">New SKUs</p>
+          <p className="text-2xl font-bold text-emerald-600">{diff.newItems.length}</p>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-800/50 rounded-lg p-4">
+          <p className="text-sm text-zinc-500">Discontinued</p>
+          <p className="text-2xl font-bold text-amber-600">{diff.discontinued.length}</p>
+        </div>
+        <div className="bg-zinc-50 dark:bg-zinc-800/50 rounded-lg p-4">
+          <p className="text-sm text-zinc-500">Unchanged</p>
+          <p className="text-2xl font-bold text-zinc-500">{diff.unchangedCount}</p>
+        </div>
+      </div>
+
+      {/* Price changes */}
+      {diff.changes.length > 0 && (
+        <section>
+          <h3 className="font-medium text-zinc-900 dark:text-white mb-2">Cost &amp; RRP Changes</h3>
+          <div className="overflow-x-auto border border-zinc-200 dark:border-zinc-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-zinc-50 dark:bg-zinc-800/50">
+                <tr className="text-left text-zinc-500">
+                  <th className="px-3 py-2 w-8">
+                    <input
+                      type="checkbox"
+                      checked={selectedChanges.size === diff.changes.length}
+                      onChange={() => setSelectedChanges(
+                        selectedChanges.size === diff.changes.length ? new Set() : new Set(diff.changes.map((_, i) => i))
+                      )}
+                      aria-label="Select all price changes"
+                    />
+                  </th>
+                  <th className="px-3 py-2 font-medium">Item</th>
+                  <th className="px-3 py-2 font-medium">Match</th>
+                  <th className="px-3 py-2 font-medium">Cost</th>
+                  <th className="px-3 py-2 font-medium">RRP</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                {diff.changes.map((change, i) => (
+                  <tr key={change.item.id}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedChanges.has(i)}
+                        onChange={() => setSelectedChanges((prev) => toggle(prev, i))}
+                        aria-label={`Apply change for ${change.item.brand} ${change.item.model}`}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <p className="font-medium text-zinc-900 dark:text-white">{change.item.brand} {change.item.model}</p>
+                      <p className="text-xs text-zinc-500 font-mono">{change.item.sku || '—'}</p>
+                    </td>
+                    <td className="px-3 py-2">
+                      {change.matchType === 'brand_model_fuzzy' ? (
+                        <span className="text-xs text-amber-600" title={change.line.product_name}>
+                          {change.confidence}% · &quot;{change.line.product_name}&quot;
+                        </span>
+                      ) : (
+                        <span className="text-xs text-zinc-500">
+                          {change.matchType === 'sku_exact' ? 'SKU' : 'Brand + model'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2"><PriceDelta change={change.cost} /></td>
+                    <td className="px-3 py-2"><PriceDelta change={change.rrp} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {/* New SKUs */}
+      {diff.newItems.length > 0 && (
+        <section>
+          <h3 className="font-medium text-zinc-900 dark:text-white mb-1">New SKUs</h3>
+          <p className="text-sm text-zinc-500 mb-2">Selected lines are added as Pending Enrichment</p>
+          <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg divide-y divide-zinc-100 dark:divide-zinc-800 max-h-72 overflow-y-auto">
+            {diff.newItems.map((line, i) => (
+              <label key={`${line.sku}-${i}`} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedNew.has(i)}
+                  onChange={() => setSelectedNew((prev) => toggle(prev, i))}
+                />
+                <span className="font-mono text-xs text-zinc-500 w-32 truncate">{line.sku || '—'}</span>
+                <span className="flex-1 text-zinc-900 dark:text-white">{line.product_name}</span>
+                <span className="text-zinc-500">{formatPrice(line.cost_price)} / {formatPrice(line.rrp_aud)}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Discontinued */}
+      {diff.discontinued.length > 0 && (
+        <section>
+          <h3 className="font-medium text-zinc-900 dark:text-white mb-1">Discontinued</h3>
+          <p className="text-sm text-zinc-500 mb-2">
+            In inventory but no longer on this pricelist. Selected items are archived.
+          </p>
+          <div className="border border-zinc-200 dark:border-zinc-700 rounded-lg divide-y divide-zinc-100 dark:divide-zinc-800 max-h-72 overflow-y-auto">
+            {diff.discontinued.map((item) => (
+              <label key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedDiscontinued.has(item.id)}
+                  onChange={() => setSelectedDiscontinued((prev) => toggle(prev, item.id))}
+                />
+                <span className="font-mono text-xs text-zinc-500 w-32 truncate">{item.sku}</span>
+                <span className="flex-1 text-zinc-900 dark:text-white">{item.brand} {item.model}</span>
+                <span className="text-zinc-500">{formatPrice(item.cost_price)}</span>
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <div className="flex items-center justify-between pt-4 border-t border-zinc-200 dark:border-zinc-700">
+        <p className="text-sm text-zinc-500">{selectedCount} change{selectedCount !== 1 ? 's' : ''} selected</p>
+        <Button onClick={handleApply} isLoading={isApplying} disabled={selectedCount === 0}>
+          Apply {selectedCount} Change{selectedCount !== 1 ? 's' : ''}
+        </Button>
+      </div>
+    </div>
+  );
+}
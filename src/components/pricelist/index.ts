@@ -1 +1,3 @@
 export { PricelistPreview } from './PricelistPreview';
+export { PricelistDiffView } from './PricelistDiffView';
+export { ColumnMappingForm } from './ColumnMappingForm';
@@ -0,0 +1,114 @@
+'use client';
+
+import type { Ref } from 'react';
+import { calculateFromExGst } from '@/lib/utils/gst';
+import type { PurchaseOrderWithDetails } from '@/types';
+
+interface PurchaseOrderDocumentProps {
+  purchaseOrder: PurchaseOrderWithDetails;
+  ref?: Ref<HTMLDivElement>;
+}
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+/**
+ * Printable purchase order (A4) for sending to the supplier; printed via
+ * react-to-print, so "Save as PDF" in the print dialog gives the PDF
+ */
+export function PurchaseOrderDocument({ purchaseOrder, ref }: PurchaseOrderDocumentProps) {
+  const { supplier, totals } = purchaseOrder;
+
+  return (
+    <div ref={ref} className="purchase-order-document bg-white text-zinc-900 p-10 text-sm">
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          .purchase-order-document {
+            padding: 0;
+          }
+        }
+      `}</style>
+
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">Purchase Order</h1>
+          <p className="text-lg font-mono mt-1">{purchaseOrder.po_number}</p>
+        </div>
+        <div className="text-right">
+          <p>Date: {formatDate(purchaseOrder.ordered_at || purchaseOrder.created_at)}</p>
+          {purchaseOrder.expected_at && <p>Required by: {formatDate(purchaseOrder.expected_at)}</p>}
+          {purchaseOrder.location && <p>Deliver to: {purchaseOrder.location.name}</p>}
+        </div>
+      </div>
+
+      {supplier && (
+        <div className="mb-8">
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Supplier</p>
+          <p className="font-semibold">{supplier.name}</p>
+          {supplier.contact_name && <p>Attn: {supplier.contact_name}</p>}
+          {supplier.contact_email && <p>{supplier.contact_email}</p>}
+          {supplier.contact_phone && <p>{supplier.contact_phone}</p>}
+          {supplier.account_number && <p>Our account: {supplier.account_number}</p>}
+        </div>
+      )}
+
+      <table className="w-full border-collapse mb-6">
+        <thead>
+          <tr className="border-b-2 border-zinc-900 text-left">
+            <th className="py-2 pr-2">SKU</th>
+            <th className="py-2 pr-2">Product</th>
+            <th className="py-2 pr-2 text-right">Qty</th>
+            <th className="py-2 pr-2 text-right">Unit (ex GST)</th>
+            <th className="py-2 text-right">Total (ex GST)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {purchaseOrder.lines.map((line) => (
+            <tr key={line.id} className="border-b border-zinc-200">
+              <td className="py-2 pr-2 font-mono">{line.sku || '—'}</td>
+              <td className="py-2 pr-2">{line.brand} {line.model}</td>
+              <td className="py-2 pr-2 text-right">{line.quantity}</td>
+              <td className="py-2 pr-2 text-right">{formatMoney(Number(line.unit_cost_ex_gst))}</td>
+              <td className="py-2 text-right">
+                {formatMoney(calculateFromExGst(line.quantity * Number(line.unit_cost_ex_gst)).priceExGst)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="ml-auto w-64 space-y-1">
+        <div className="flex justify-between">
+          <span>Subtotal (ex GST)</span>
+          <span>{formatMoney(totals.subtotalExGst)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>GST</span>
+          <span>{formatMoney(totals.gst)}</span>
+        </div>
+        <div className="flex justify-between font-bold border-t border-zinc-900 pt-1">
+          <span>Total (inc GST)</span>
+          <span>{formatMoney(totals.totalIncGst)}</span>
+        </div>
+      </div>
+
+      {purchaseOrder.notes && (
+        <div className="mt-8">
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Notes</p>
+          <p className="whitespace-pre-wrap">{purchaseOrder.notes}</p>
+        </div>
+      )}
+
+      <p className="mt-8 text-xs text-zinc-500">
+        Please quote {purchaseOrder.po_number} on your invoice and delivery paperwork.
+      </p>
+    </div>
+  );
+}
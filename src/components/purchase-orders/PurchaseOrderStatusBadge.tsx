@@ -0,0 +1,18 @@
+import { PURCHASE_ORDER_STATUSES, type PurchaseOrderStatus } from '@/types';
+
+const STATUS_STYLES: Record<string, string> = {
+  gray: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  green: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  red: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+export function PurchaseOrderStatusBadge({ status }: { status: PurchaseOrderStatus }) {
+  const { label, description, color } = PURCHASE_ORDER_STATUSES[status];
+  return (
+    <span title={description} className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[color]}`}>
+      {label}
+    </span>
+  );
+}
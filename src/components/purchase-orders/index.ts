@@ -0,0 +1,2 @@
+export { PurchaseOrderDocument } from './PurchaseOrderDocument';
+export { PurchaseOrderStatusBadge } from './PurchaseOrderStatusBadge';
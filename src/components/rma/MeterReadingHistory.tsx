@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { formatMeterReading, summarizeMeterReadings } from '@/lib/rma/meter-summary';
+import {
+  METER_READING_CONTEXTS,
+  METER_TYPES,
+  type MeterType,
+  type SerialMeterReading,
+} from '@/types';
+
+type ChartPoint = { recordedAt: string; dateLabel: string } & Partial<Record<MeterType, number>>;
+
+/**
+ * One point per reading session, with a value for each meter read then
+ */
+function buildSeries(readings: SerialMeterReading[]): ChartPoint[] {
+  const sessions = new Map<string, ChartPoint>();
+  for (const reading of readings) {
+    const point = sessions.get(reading.recorded_at) || {
+      recordedAt: reading.recorded_at,
+      dateLabel: new Date(reading.recorded_at).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: '2-digit' }),
+    };
+    sessions.set(reading.recorded_at, { ...point, [reading.meter_type]: reading.reading });
+  }
+  return [...sessions.values()].sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+}
+
+/**
+ * Usage meter readings for a serial over time, with the latest value and
+ * daily usage of each meter
+ */
+export function MeterReadingHistory({ readings }: { readings: SerialMeterReading[] }) {
+  const [canRenderChart, setCanRenderChart] = useState(false);
+
+  useEffect(() => {
+    const frame = window.requestAnimationFrame(() => setCanRenderChart(true));
+    return () => window.cancelAnimationFrame(frame);
+  }, []);
+
+  if (readings.length === 0) {
+    return <p className="text-sm text-zinc-500">No meter readings recorded for this serial.</p>;
+  }
+
+  const summaries = summarizeMeterReadings(readings);
+  const series = buildSeries(readings);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        {summaries.map((summary) => (
+          <div key={summary.meter_type} className="rounded-xl border border-zinc-200 dark:border-zinc-700 p-3">
+            <p className="text-xs text-zinc-500">{METER_TYPES[summary.meter_type].label}</p>
+            <p className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">{formatMeterReading(summary.latest)}</p>
+            <p className="text-xs text-zinc-500">
+              {summary.hours_per_day !== null ? `${summary.hours_per_day} h/day` : `${summary.reading_count} reading${summary.reading_count === 1 ? '' : 's'}`}
+              {summary.was_reset && ' · reset since first reading'}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {series.length > 1 && (
+        <div className="h-48" role="img" aria-label={`Meter readings over ${series.length} sessions`}>
+          {canRenderChart ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.2} />
+                <XAxis dataKey="dateLabel" stroke="#9CA3AF" fontSize={11} tickLine={false} interval="preserveStartEnd" />
+                <YAxis
+                  stroke="#9CA3AF"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => Number(value).toLocaleString()}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'rgba(0,0,0,0.8)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    color: '#fff',
+                  }}
+                  labelStyle={{ color: '#9CA3AF' }}
+                  formatter={(value) => formatMeterReading(value as number)}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {summaries.map((summary) => (
+                  <Line
+                    key={summary.meter_type}
+                    type="linear"
+                    dataKey={summary.meter_type}
+                    name={METER_TYPES[summary.meter_type].label}
+                    stroke={METER_TYPES[summary.meter_type].color}
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : null}
+        </div>
+      )}
+
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800 max-h-48 overflow-y-auto">
+        {[...readings].reverse().map((reading) => (
+          <div key={reading.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+            <span className="text-zinc-700 dark:text-zinc-300">
+              {METER_TYPES[reading.meter_type].label}
+              <span className="ml-2 text-xs text-zinc-500">
+                {METER_READING_CONTEXTS[reading.context].label} · {new Date(reading.recorded_at).toLocaleDateString('en-AU')}
+              </span>
+            </span>
+            <span className="font-medium text-zinc-900 dark:text-zinc-100">{formatMeterReading(reading.reading)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
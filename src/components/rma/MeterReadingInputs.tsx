@@ -0,0 +1,48 @@
+'use client';
+
+import { Input } from '@/components/ui/Input';
+import { METER_TYPES, type MeterReadingInput, type MeterType } from '@/types';
+
+export type MeterReadingValues = Partial<Record<MeterType, number | null>>;
+
+interface MeterReadingInputsProps {
+  value: MeterReadingValues;
+  onChange: (value: MeterReadingValues) => void;
+  /** One field per row, for narrow side panels */
+  stacked?: boolean;
+}
+
+/**
+ * The meters that were filled in, ready to post as meter_readings
+ */
+export function toMeterReadingInputs(values: MeterReadingValues): MeterReadingInput[] {
+  return (Object.keys(METER_TYPES) as MeterType[]).flatMap((meterType) => {
+    const reading = values[meterType];
+    return typeof reading === 'number' && Number.isFinite(reading) && reading >= 0
+      ? [{ meter_type: meterType, reading: Math.round(reading) }]
+      : [];
+  });
+}
+
+/**
+ * One hours field per usage meter; units only show the meters they have,
+ * so every field is optional
+ */
+export function MeterReadingInputs({ value, onChange, stacked = false }: MeterReadingInputsProps) {
+  return (
+    <div className={`grid grid-cols-1 gap-3 ${stacked ? '' : 'sm:grid-cols-3'}`}>
+      {(Object.keys(METER_TYPES) as MeterType[]).map((meterType) => (
+        <Input
+          key={meterType}
+          type="number"
+          min={0}
+          label={METER_TYPES[meterType].label}
+          title={METER_TYPES[meterType].description}
+          value={value[meterType] ?? ''}
+          onChange={(e) => onChange({ ...value, [meterType]: e.target.value === '' ? null : Number(e.target.value) })}
+          placeholder="Hours"
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { MeterReadingHistory } from './MeterReadingHistory';
+export { MeterReadingInputs, toMeterReadingInputs, type MeterReadingValues } from './MeterReadingInputs';
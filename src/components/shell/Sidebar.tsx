@@ -40,7 +40,10 @@ const navigation: NavItem[] = [
     children: [
       { name: 'New Retail', href: '/lister/new' },
       { name: 'Trade-In', href: '/lister/trade-in' },
+      { name: 'Trade-In Offers', href: '/lister/trade-in/offers' },
       { name: 'Ex-Demo', href: '/lister/ex-demo' },
+      { name: 'Scrape Recipes', href: '/lister/recipes' },
+      { name: 'Condition Checklists', href: '/lister/checklists' },
     ],
   },
   {
@@ -99,6 +102,15 @@ const navigation: NavItem[] = [
     ),
     badge: 'Phase 4',
   },
+  {
+    name: 'Customers',
+    href: '/customers',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+      </svg>
+    ),
+  },
   {
     name: 'Analytics',
     href: '/analytics',
@@ -0,0 +1,48 @@
+'use client';
+
+import { useRef } from 'react';
+import { useReactToPrint } from 'react-to-print';
+import { Button } from '@/components/ui/Button';
+import { renderTradeInOfferEmail } from '@/lib/trade-in/offer-sheet';
+import { toMailtoUrl } from '@/lib/rma/communications';
+import { TradeInOfferSheet } from './TradeInOfferSheet';
+import type { TradeInOffer } from '@/types';
+
+/**
+ * Print and email buttons for an offer sheet
+ */
+export function TradeInOfferActions({ offer }: { offer: TradeInOffer }) {
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const handlePrint = useReactToPrint({
+    contentRef: printRef,
+    documentTitle: offer.offer_number,
+  });
+
+  const handleEmail = () => {
+    if (!offer.customer_email) return;
+    window.location.href = toMailtoUrl({ recipient: offer.customer_email, ...renderTradeInOfferEmail(offer) });
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button variant="secondary" size="sm" onClick={() => handlePrint()}>
+          Print / PDF
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleEmail}
+          disabled={!offer.customer_email}
+          title={offer.customer_email ? undefined : 'No customer email on the offer'}
+        >
+          Email
+        </Button>
+      </div>
+      <div className="hidden">
+        <TradeInOfferSheet ref={printRef} offer={offer} />
+      </div>
+    </>
+  );
+}
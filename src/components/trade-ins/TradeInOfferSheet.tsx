@@ -0,0 +1,108 @@
+'use client';
+
+import type { Ref } from 'react';
+import { CONDITION_GRADES, type TradeInOffer } from '@/types';
+
+interface TradeInOfferSheetProps {
+  offer: TradeInOffer;
+  ref?: Ref<HTMLDivElement>;
+}
+
+const formatMoney = (value: number) =>
+  `$${Number(value).toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Printable trade-in offer (A4) for the customer; printed via
+ * react-to-print, so "Save as PDF" in the print dialog gives the PDF
+ */
+export function TradeInOfferSheet({ offer, ref }: TradeInOfferSheetProps) {
+  return (
+    <div ref={ref} className="trade-in-offer-sheet bg-white text-zinc-900 p-10 text-sm">
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 15mm;
+          }
+          .trade-in-offer-sheet {
+            padding: 0;
+          }
+        }
+      `}</style>
+
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">Trade-In Offer</h1>
+          <p className="text-lg font-mono mt-1">{offer.offer_number}</p>
+        </div>
+        <div className="text-right">
+          <p>Date: {formatDate(offer.created_at)}</p>
+          <p className="font-semibold">Valid until: {formatDate(offer.expires_at)}</p>
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Prepared for</p>
+        <p className="font-semibold">{offer.customer_name}</p>
+        {offer.customer_email && <p>{offer.customer_email}</p>}
+        {offer.customer_phone && <p>{offer.customer_phone}</p>}
+      </div>
+
+      <table className="w-full border-collapse mb-8">
+        <tbody>
+          <tr className="border-b border-zinc-200">
+            <td className="py-2 pr-4 text-zinc-500 w-40">Product</td>
+            <td className="py-2 font-medium">{offer.brand} {offer.model}</td>
+          </tr>
+          {offer.serial_number && (
+            <tr className="border-b border-zinc-200">
+              <td className="py-2 pr-4 text-zinc-500">Serial</td>
+              <td className="py-2 font-mono">{offer.serial_number}</td>
+            </tr>
+          )}
+          <tr className="border-b border-zinc-200">
+            <td className="py-2 pr-4 text-zinc-500">Condition</td>
+            <td className="py-2">
+              {CONDITION_GRADES[offer.condition_grade].label} — {CONDITION_GRADES[offer.condition_grade].description}
+            </td>
+          </tr>
+          {offer.age_years != null && (
+            <tr className="border-b border-zinc-200">
+              <td className="py-2 pr-4 text-zinc-500">Age</td>
+              <td className="py-2">{offer.age_years} year{Number(offer.age_years) === 1 ? '' : 's'}</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="border-2 border-zinc-900 rounded p-6 text-center mb-8">
+        <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Our offer</p>
+        <p className="text-4xl font-bold">{formatMoney(offer.offer_amount)}</p>
+        <p className="mt-2 text-zinc-600">Valid until {formatDate(offer.expires_at)}</p>
+      </div>
+
+      {offer.notes && (
+        <div className="mb-8">
+          <p className="text-xs uppercase tracking-wide text-zinc-500 mb-1">Notes</p>
+          <p className="whitespace-pre-wrap">{offer.notes}</p>
+        </div>
+      )}
+
+      <div className="text-xs text-zinc-500 space-y-1">
+        <p>
+          This offer is subject to the unit matching the condition described above when it is handed over,
+          including all accessories and in working order.
+        </p>
+        <p>Please quote {offer.offer_number} when accepting.</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-12 mt-16">
+        <div className="border-t border-zinc-400 pt-1 text-xs text-zinc-500">Customer signature</div>
+        <div className="border-t border-zinc-400 pt-1 text-xs text-zinc-500">Date</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { getTradeInOfferStatus } from '@/lib/trade-in/offer-sheet';
+import { TRADE_IN_OFFER_STATUSES, type TradeInOffer } from '@/types';
+
+const STATUS_STYLES: Record<string, string> = {
+  gray: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+  blue: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+  amber: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  green: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+};
+
+export function TradeInOfferStatusBadge({ offer }: { offer: Pick<TradeInOffer, 'status' | 'expires_at'> }) {
+  const { label, description, color } = TRADE_IN_OFFER_STATUSES[getTradeInOfferStatus(offer)];
+  return (
+    <span title={description} className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[color]}`}>
+      {label}
+    </span>
+  );
+}
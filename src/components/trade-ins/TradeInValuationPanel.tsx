@@ -0,0 +1,233 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { CustomerPicker, EMPTY_CUSTOMER_DETAILS, type CustomerDetails } from '@/components/customers';
+import { notify } from '@/lib/store/app-store';
+import type { ConditionGrade, TradeInOffer, TradeInValuation } from '@/types';
+
+interface TradeInValuationPanelProps {
+  brand: string;
+  model: string;
+  serialNumber: string | null;
+  conditionGrade: ConditionGrade;
+  rrpAud: number | null;
+  onOfferCreated: (offer: TradeInOffer) => void;
+}
+
+const textareaClass =
+  'w-full px-4 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+
+const formatMoney = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 0 })}`;
+
+const SCOPE_LABELS: Record<TradeInValuation['sell_through']['scope'], string> = {
+  model: 'this model',
+  brand: 'this brand',
+  none: 'no previous sales',
+};
+
+/**
+ * Valuation for a trade-in and the offer form: shows the recommended buy
+ * range and what drove it, then records the offer made to the customer
+ */
+export function TradeInValuationPanel({
+  brand,
+  model,
+  serialNumber,
+  conditionGrade,
+  rrpAud,
+  onOfferCreated,
+}: TradeInValuationPanelProps) {
+  const [ageYears, setAgeYears] = useState('');
+  const [valuation, setValuation] = useState<TradeInValuation | null>(null);
+  const [valuationError, setValuationError] = useState<string | null>(null);
+  const [isValuing, setIsValuing] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const [offerAmount, setOfferAmount] = useState('');
+  const [customer, setCustomer] = useState<CustomerDetails>(EMPTY_CUSTOMER_DETAILS);
+  const [validDays, setValidDays] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const parsedAge = ageYears.trim() === '' ? null : Number(ageYears);
+
+  const runValuation = useCallback(async (age: number | null) => {
+    setIsValuing(true);
+    setValuationError(null);
+    try {
+      const response = await fetch('/api/trade-ins/valuation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ brand, model, condition_grade: conditionGrade, rrp_aud: rrpAud, age_years: age }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setValuation(null);
+        setValuationError(data.error || 'Valuation failed');
+        return;
+      }
+      setValuation(data.valuation);
+      setOfferAmount(String(data.valuation.recommended_offer));
+    } catch {
+      setValuationError('Valuation failed');
+    } finally {
+      setIsValuing(false);
+    }
+  }, [brand, model, conditionGrade, rrpAud]);
+
+  useEffect(() => {
+    runValuation(null);
+  }, [runValuation]);
+
+  const amount = Number(offerAmount);
+  const outsideRange = valuation && amount > 0 && (amount < valuation.offer_low || amount > valuation.offer_high);
+  const ageValid = parsedAge == null || (Number.isFinite(parsedAge) && parsedAge >= 0);
+
+  const handleCreateOffer = async () => {
+    if (!valuation || !(amount > 0) || !customer.name.trim()) return;
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/trade-ins/offers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          brand,
+          model,
+          serial_number: serialNumber || null,
+          condition_grade: conditionGrade,
+          age_years: parsedAge,
+          rrp_aud: rrpAud,
+          valuation,
+          offer_amount: amount,
+          customer_name: customer.name.trim(),
+          customer_email: customer.email.trim() || null,
+          customer_phone: customer.phone.trim() || null,
+          customer_id: customer.customer_id,
+          hubspot_contact_id: customer.hubspot_contact_id,
+          valid_days: validDays ? Number(validDays) : undefined,
+          notes: notes.trim() || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        notify.error('Offer failed', data.error || 'Please try again');
+        return;
+      }
+      notify.success('Offer created', data.offer.offer_number);
+      onOfferCreated(data.offer);
+    } catch {
+      notify.error('Offer failed', 'Please try again');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <Input
+          label="Age (years since bought new)"
+          type="number"
+          min={0}
+          step={0.5}
+          value={ageYears}
+          onChange={(e) => setAgeYears(e.target.value)}
+          placeholder="Unknown"
+          error={ageValid ? undefined : 'Enter a valid age'}
+        />
+        <Button
+          variant="secondary"
+          onClick={() => runValuation(parsedAge)}
+          isLoading={isValuing}
+          disabled={!ageValid}
+        >
+          Revalue
+        </Button>
+      </div>
+
+      {valuationError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
+          <p className="text-sm text-red-600 dark:text-red-400">{valuationError}</p>
+        </div>
+      )}
+
+      {valuation && (
+        <div className="p-4 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm text-zinc-500">Recommended buy price</span>
+            <span className="text-2xl font-bold text-zinc-900 dark:text-white">
+              {formatMoney(valuation.offer_low)} – {formatMoney(valuation.offer_high)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm text-zinc-600 dark:text-zinc-400">
+            <span>Suggested offer {formatMoney(valuation.recommended_offer)}</span>
+            <span>
+              Resale ~{formatMoney(valuation.estimated_resale_price)} · {valuation.target_margin_percent}% margin
+            </span>
+          </div>
+          <ul className="text-xs text-zinc-500 space-y-1 border-t border-zinc-200 dark:border-zinc-700 pt-2">
+            {valuation.factors.map((factor) => (
+              <li key={factor.label}>
+                <span className="font-medium text-zinc-700 dark:text-zinc-300">{factor.label}:</span> {factor.detail}
+              </li>
+            ))}
+            <li>
+              <span className="font-medium text-zinc-700 dark:text-zinc-300">Compared against:</span>{' '}
+              {SCOPE_LABELS[valuation.sell_through.scope]}
+            </li>
+          </ul>
+        </div>
+      )}
+
+      {valuation && (
+        <div className="space-y-4 border-t border-zinc-200 dark:border-zinc-700 pt-6">
+          <h3 className="font-medium text-zinc-900 dark:text-white">Customer Offer</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Input
+                label="Offer amount (AUD) *"
+                type="number"
+                min={0}
+                value={offerAmount}
+                onChange={(e) => setOfferAmount(e.target.value)}
+              />
+              {outsideRange && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">Outside the recommended range</p>
+              )}
+            </div>
+            <Input
+              label="Valid for (days)"
+              type="number"
+              min={1}
+              max={90}
+              value={validDays}
+              onChange={(e) => setValidDays(e.target.value)}
+              placeholder="Default"
+            />
+          </div>
+          <CustomerPicker value={customer} onChange={setCustomer} required />
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1.5">
+              Notes for the customer
+            </label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className={textareaClass}
+            />
+          </div>
+          <Button
+            onClick={handleCreateOffer}
+            isLoading={isCreating}
+            disabled={!(amount > 0) || !customer.name.trim() || !ageValid}
+            className="w-full"
+          >
+            Create Offer
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
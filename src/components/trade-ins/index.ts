@@ -0,0 +1,4 @@
+export { TradeInOfferActions } from './TradeInOfferActions';
+export { TradeInOfferSheet } from './TradeInOfferSheet';
+export { TradeInOfferStatusBadge } from './TradeInOfferStatusBadge';
+export { TradeInValuationPanel } from './TradeInValuationPanel';
@@ -1,26 +1,30 @@
 'use client';
 
 import { cn } from '@/lib/utils/cn';
+import {
+  BUILT_IN_SYNC_TARGETS,
+  SYNC_TARGETS,
+  getSyncTargetLabel,
+  type BuiltInSyncTargetId,
+  type SyncTargetId,
+} from '@/types';
+import type { SyncTargetProgressResult } from '@/hooks/useSyncProgress';
 
 interface SyncProgressProps {
   progress: number;
   message: string;
   isActive: boolean;
-  currentPlatform?: 'shopify' | 'hubspot' | 'notion';
-  platformResults?: {
-    shopify?: { success: boolean; productId?: string; error?: string };
-    hubspot?: { success: boolean; dealId?: string; error?: string };
-    notion?: { success: boolean; pageId?: string; error?: string };
-  };
+  currentPlatform?: SyncTargetId;
+  platformResults?: Partial<Record<SyncTargetId, SyncTargetProgressResult>>;
+  /** Targets to list; defaults to the built-ins plus any with results */
+  targets?: SyncTargetId[];
   error?: string;
   className?: string;
 }
 
-const platformConfig = {
-  shopify: { name: 'Shopify', color: 'emerald', icon: '🛒' },
-  hubspot: { name: 'HubSpot', color: 'orange', icon: '📊' },
-  notion: { name: 'Notion', color: 'zinc', icon: '📝' },
-};
+function getTargetIcon(target: SyncTargetId): string {
+  return SYNC_TARGETS[target as BuiltInSyncTargetId]?.icon ?? '🔗';
+}
 
 export function SyncProgress({
   progress,
@@ -28,6 +32,7 @@ export function SyncProgress({
   isActive,
   currentPlatform,
   platformResults = {},
+  targets,
   error,
   className,
 }: SyncProgressProps) {
@@ -35,6 +40,10 @@ export function SyncProgress({
     return null;
   }
 
+  const shownTargets = targets ?? [
+    ...new Set<SyncTargetId>([...BUILT_IN_SYNC_TARGETS, ...Object.keys(platformResults)]),
+  ];
+
   return (
     <div className={cn('rounded-lg border p-4', className, {
       'border-emerald-200 bg-emerald-50 dark:border-emerald-900 dark:bg-emerald-900/20': isActive && !error,
@@ -69,16 +78,15 @@ export function SyncProgress({
         'text-zinc-600 dark:text-zinc-400': !isActive && !error,
       })}>
         {isActive && currentPlatform && (
-          <span className="mr-2">{platformConfig[currentPlatform].icon}</span>
+          <span className="mr-2">{getTargetIcon(currentPlatform)}</span>
         )}
         {message}
       </p>
 
       {/* Platform status */}
       <div className="flex gap-4">
-        {(['shopify', 'hubspot', 'notion'] as const).map((platform) => {
+        {shownTargets.map((platform) => {
           const result = platformResults[platform];
-          const config = platformConfig[platform];
           
           return (
             <div 
@@ -107,7 +115,7 @@ export function SyncProgress({
                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z" clipRule="evenodd" />
                 </svg>
               )}
-              <span>{config.name}</span>
+              <span>{getSyncTargetLabel(platform)}</span>
             </div>
           );
         })}
@@ -32,6 +32,10 @@ export const config = {
     model: getString(process.env.ANTHROPIC_MODEL, 'claude-3-5-sonnet-20241022'),
     visionModel: getString(process.env.ANTHROPIC_VISION_MODEL, 'claude-3-5-sonnet-20241022'),
     maxTokens: getNumber(process.env.ANTHROPIC_MAX_TOKENS, 4096),
+    // Photos read per identification request (e.g. front badge + rear label)
+    visionMaxImages: getNumber(process.env.VISION_MAX_IMAGES, 4),
+    // Photos graded together per condition assessment (all sides of the unit)
+    conditionMaxImages: getNumber(process.env.CONDITION_MAX_IMAGES, 8),
   },
   shopify: {
     apiVersion: getString(process.env.SHOPIFY_API_VERSION, '2025-01'),
@@ -47,6 +51,38 @@ export const config = {
     portalId: getString(process.env.HUBSPOT_PORTAL_ID),
     rmaPipelineId: getString(process.env.HUBSPOT_RMA_PIPELINE_ID),
     rmaStages,
+    dealPipelineId: getString(process.env.HUBSPOT_PIPELINE_ID, 'default'),
+    dealIntakeStageId: getString(process.env.HUBSPOT_INTAKE_STAGE_ID, 'appointmentscheduled'),
+    dealClosedWonStageId: getString(process.env.HUBSPOT_CLOSED_WON_STAGE_ID, 'closedwon'),
+  },
+  syncQueue: {
+    maxAttempts: getNumber(process.env.SYNC_JOB_MAX_ATTEMPTS, 5),
+    leaseSeconds: getNumber(process.env.SYNC_JOB_LEASE_SECONDS, 120),
+    batchSize: getNumber(process.env.SYNC_WORKER_BATCH_SIZE, 10),
+    budgetMs: getNumber(process.env.SYNC_WORKER_BUDGET_MS, 50000),
+    backoffInitialMs: getNumber(process.env.SYNC_JOB_BACKOFF_INITIAL_MS, 30000),
+    backoffMaxMs: getNumber(process.env.SYNC_JOB_BACKOFF_MAX_MS, 30 * 60 * 1000),
+    backoffFactor: getNumber(process.env.SYNC_JOB_BACKOFF_FACTOR, 4),
+  },
+  pricing: {
+    // Lowest sale price allowed as a multiple of cost (PRD: 20% margin floor)
+    minMarginMultiplier: getNumber(process.env.MIN_MARGIN_MULTIPLIER, 1.2),
+  },
+  tradeIn: {
+    // Gross margin on resale price before sell-through adjustment
+    targetMarginPercent: getNumber(process.env.TRADE_IN_TARGET_MARGIN_PERCENT, 35),
+    offerValidityDays: getNumber(process.env.TRADE_IN_OFFER_VALIDITY_DAYS, 7),
+  },
+  repricing: {
+    // Items a rule evaluates per run
+    maxItemsPerRule: getNumber(process.env.REPRICING_MAX_ITEMS_PER_RULE, 500),
+  },
+  rrpWatch: {
+    batchSize: getNumber(process.env.RRP_WATCH_BATCH_SIZE, 20),
+    budgetMs: getNumber(process.env.RRP_WATCH_BUDGET_MS, 50000),
+    recheckHours: getNumber(process.env.RRP_WATCH_RECHECK_HOURS, 24),
+    // Move in market RRP (vs ours) that makes the advertised discount stale
+    rrpChangePercent: getNumber(process.env.RRP_WATCH_CHANGE_PERCENT, 5),
   },
   klaviyo: {
     apiKey: getString(process.env.KLAVIYO_PRIVATE_API_KEY),
@@ -73,4 +109,6 @@ export const scrapingConfig = {
     enabled: getBoolean(process.env.SCRAPING_PROXY_ENABLED, false),
     url: getString(process.env.SCRAPING_PROXY_URL),
   },
+  // Private bucket for gzipped page HTML and screenshots of each scrape
+  snapshotBucket: getString(process.env.SCRAPE_SNAPSHOT_BUCKET, 'scrape-snapshots'),
 } as const;
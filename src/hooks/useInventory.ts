@@ -3,7 +3,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from '@/lib/query/query-client';
 import { notify } from '@/lib/store/app-store';
-import type { InventoryItem } from '@/types';
+import { waitForSyncRun } from '@/hooks/useSyncProgress';
+import type { InventoryItem, SyncResult } from '@/types';
 
 /**
  * Inventory Hooks
@@ -94,8 +95,8 @@ async function updateInventoryItem(
   return data.item;
 }
 
-// Sync inventory item
-async function syncInventoryItem(id: string): Promise<{ success: boolean; result: unknown }> {
+// Sync inventory item (queues a run, then waits for it to finish)
+async function syncInventoryItem(id: string): Promise<{ success: boolean; result: SyncResult | null }> {
   const response = await fetch(`/api/inventory/${id}/sync`, {
     method: 'POST',
   });
@@ -105,7 +106,10 @@ async function syncInventoryItem(id: string): Promise<{ success: boolean; result
     throw new Error(error.error || 'Sync failed');
   }
   
-  return response.json();
+  const { runId } = await response.json();
+  const run = await waitForSyncRun(runId);
+  
+  return { success: run.status === 'succeeded', result: run.result };
 }
 
 // Delete inventory item
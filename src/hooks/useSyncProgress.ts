@@ -1,24 +1,31 @@
 'use client';
 
 import { useEffect, useMemo, useState, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { createClient, RealtimeChannel } from '@supabase/supabase-js';
 import type { SyncProgressEvent } from '@/lib/realtime/sync-channel';
+import { queryKeys } from '@/lib/query/query-client';
+import type { SyncRunWithJobs, SyncTargetId } from '@/types';
 
 interface UseSyncProgressOptions {
   onComplete?: (success: boolean) => void;
   onError?: (error: string) => void;
 }
 
+export interface SyncTargetProgressResult {
+  success: boolean;
+  externalId?: string;
+  url?: string;
+  error?: string;
+}
+
 interface SyncProgressState {
   isActive: boolean;
   progress: number;
   message: string;
-  currentPlatform?: 'shopify' | 'hubspot' | 'notion';
-  platformResults: {
-    shopify?: { success: boolean; productId?: string; error?: string };
-    hubspot?: { success: boolean; dealId?: string; error?: string };
-    notion?: { success: boolean; pageId?: string; error?: string };
-  };
+  currentPlatform?: SyncTargetId;
+  /** Per-target outcome, keyed by sync target id */
+  platformResults: Partial<Record<SyncTargetId, SyncTargetProgressResult>>;
   error?: string;
 }
 
@@ -29,6 +36,96 @@ const initialState: SyncProgressState = {
   platformResults: {},
 };
 
+const RUN_POLL_INTERVAL_MS = 2000;
+
+function isRunFinished(run: Pick<SyncRunWithJobs, 'status'>): boolean {
+  return run.status === 'succeeded' || run.status === 'failed';
+}
+
+/**
+ * Derive progress state from a persisted sync run, so progress survives
+ * page reloads and requests that timed out mid-sync.
+ */
+export function syncStateFromRun(run: SyncRunWithJobs): SyncProgressState {
+  const finishedJobs = run.jobs.filter(job => job.status === 'succeeded' || job.status === 'dead');
+  const activeJob = run.jobs.find(job => job.status === 'leased')
+    || run.jobs.find(job => job.status === 'queued');
+  const platformResults: SyncProgressState['platformResults'] = {};
+
+  for (const job of finishedJobs) {
+    platformResults[job.platform] = job.status === 'succeeded'
+      ? { success: true, externalId: job.result?.external_id, url: job.result?.url }
+      : { success: false, error: job.last_error || 'Unknown error' };
+  }
+
+  const finished = isRunFinished(run);
+  const deadJobs = run.jobs.filter(job => job.status === 'dead');
+  const retryingJob = run.jobs.find(job => job.status === 'queued' && job.last_error);
+
+  return {
+    isActive: !finished,
+    progress: finished
+      ? 100
+      : Math.round((finishedJobs.length / Math.max(run.jobs.length, 1)) * 100),
+    message: finished
+      ? run.status === 'succeeded' ? 'Sync complete!' : 'Sync completed with errors'
+      : retryingJob
+        ? `Waiting to retry ${retryingJob.platform}: ${retryingJob.last_error}`
+        : activeJob ? `Syncing to ${activeJob.platform}...` : 'Queued',
+    currentPlatform: finished ? undefined : activeJob?.platform,
+    platformResults,
+    error: finished && deadJobs.length > 0
+      ? deadJobs.map(job => `${job.platform}: ${job.last_error}`).join('; ')
+      : undefined,
+  };
+}
+
+/**
+ * Fetch a sync run with its per-platform jobs
+ */
+export async function fetchSyncRun(runId: string): Promise<SyncRunWithJobs> {
+  const response = await fetch(`/api/sync/runs/${runId}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch sync run');
+  }
+
+  return data.run;
+}
+
+/**
+ * Poll a sync run until it succeeds or fails (or the timeout elapses)
+ */
+export async function waitForSyncRun(
+  runId: string,
+  options: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<SyncRunWithJobs> {
+  const { intervalMs = RUN_POLL_INTERVAL_MS, timeoutMs = 5 * 60 * 1000 } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const run = await fetchSyncRun(runId);
+    if (isRunFinished(run) || Date.now() >= deadline) {
+      return run;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Hook to poll a sync run until it finishes
+ */
+export function useSyncRun(runId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.sync.run(runId || ''),
+    queryFn: () => fetchSyncRun(runId!),
+    enabled: !!runId,
+    refetchInterval: (query) =>
+      query.state.data && isRunFinished(query.state.data) ? false : RUN_POLL_INTERVAL_MS,
+  });
+}
+
 /**
  * Hook to subscribe to real-time sync progress for an inventory item
  */
@@ -39,6 +136,28 @@ export function useSyncProgress(
   const [state, setState] = useState<SyncProgressState>(initialState);
   const { onComplete, onError } = options;
 
+  // Resume from the latest persisted run (e.g. after a reload mid-sync)
+  useEffect(() => {
+    if (!itemId) return;
+    let cancelled = false;
+
+    fetch(`/api/inventory/${itemId}/sync`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        const run = data?.run as SyncRunWithJobs | null | undefined;
+        if (!cancelled && run && !isRunFinished(run)) {
+          setState(prev => (prev.isActive ? prev : syncStateFromRun(run)));
+        }
+      })
+      .catch(() => {
+        // Realtime events still drive progress if the status fetch fails
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+
   // Subscribe to sync channel
   useEffect(() => {
     if (!itemId) return;
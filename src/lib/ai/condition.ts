@@ -0,0 +1,220 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '@/config';
+import { toImageBlock } from './vision';
+import {
+  CONDITION_GRADES,
+  CONDITION_ISSUES,
+  CONDITION_SEVERITIES,
+  DEFAULT_CONDITION_CHECKLISTS,
+  PRODUCT_CATEGORIES,
+  type ConditionAssessment,
+  type ConditionChecklistField,
+  type ConditionChecklistFinding,
+  type ConditionGrade,
+  type ConditionIssue,
+  type ConditionObservation,
+  type ConditionSeverity,
+  type ProductCategory,
+} from '@/types';
+
+// Lazy-load Anthropic client to avoid build-time errors
+let anthropicClient: Anthropic | null = null;
+
+function getAnthropic(): Anthropic {
+  if (!anthropicClient) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+    }
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return anthropicClient;
+}
+
+export interface ConditionAssessmentRequest {
+  images: string[];
+  brand?: string | null;
+  model?: string | null;
+  /** Inferred from the photos when not given */
+  category?: ProductCategory | null;
+  /** Checklists as configured; the built-in defaults when not given */
+  checklists?: Record<ProductCategory, ConditionChecklistField[]>;
+}
+
+const gradeScale = (Object.keys(CONDITION_GRADES) as ConditionGrade[])
+  .map((grade) => `- "${grade}": ${CONDITION_GRADES[grade].description}`)
+  .join('\n');
+
+function describeChecklists(checklists: Record<ProductCategory, ConditionChecklistField[]>): string {
+  return (Object.keys(PRODUCT_CATEGORIES) as ProductCategory[])
+    .map((category) => `- "${category}" (${PRODUCT_CATEGORIES[category].label}): ${checklists[category].map((field) => field.label).join('; ')}`)
+    .join('\n');
+}
+
+function buildPrompt(
+  request: ConditionAssessmentRequest,
+  checklists: Record<ProductCategory, ConditionChecklistField[]>,
+  imageCount: number
+): string {
+  const product = [request.brand, request.model].filter(Boolean).join(' ') || 'an unidentified product';
+  const category = request.category
+    ? `The product category is "${request.category}".`
+    : 'Work out the product category from the photos.';
+
+  return `You are grading the cosmetic and physical condition of a pre-owned hi-fi / home theatre unit for resale: ${product}.
+${category}
+
+You have ${imageCount} photo${imageCount === 1 ? '' : 's'} of the unit, numbered from 0 in the order given.
+
+Look closely for:
+- Scratches, scuffs, chips and cracks on the finish, panels and screen/lens
+- Dents and deformed panels, corners or grilles
+- Missing parts: knobs, feet, grilles, covers, remotes and other accessories normally supplied
+- Discolouration, fading or marks
+
+Grade scale:
+${gradeScale}
+
+Checklist per category (report on every item of the chosen category, in this order):
+${describeChecklists(checklists)}
+
+Important:
+- Only report defects you can actually see; don't guess at what isn't photographed
+- For checklist items not visible in any photo, the finding is "Not pictured"
+- "image_index" is the photo a defect is visible in
+- "confidence" (0.0 to 1.0) is how sure you are of the grade; lower it when the photos don't show the whole unit
+- Findings are short, factual and suitable for a customer-facing listing
+
+Respond with ONLY valid JSON in this exact format:
+{
+  "category": "one of: ${Object.keys(PRODUCT_CATEGORIES).join(', ')}",
+  "grade": "one of: ${Object.keys(CONDITION_GRADES).join(', ')}",
+  "confidence": 0.0,
+  "summary": "one sentence overall condition",
+  "observations": [
+    { "issue": "one of: ${Object.keys(CONDITION_ISSUES).join(', ')}", "severity": "one of: ${Object.keys(CONDITION_SEVERITIES).join(', ')}", "location": "string", "description": "string", "image_index": 0 }
+  ],
+  "checklist": [
+    { "item": "checklist item", "finding": "string" }
+  ]
+}`;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function isKey<K extends string>(record: Record<K, unknown>, value: unknown): value is K {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(record, value);
+}
+
+function parseObservation(raw: unknown, imageCount: number): ConditionObservation | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const observation = raw as Record<string, unknown>;
+  const description = typeof observation.description === 'string' ? observation.description.trim() : '';
+  if (!description) return null;
+  const imageIndex = observation.image_index;
+
+  return {
+    issue: isKey<ConditionIssue>(CONDITION_ISSUES, observation.issue) ? observation.issue : 'other',
+    severity: isKey<ConditionSeverity>(CONDITION_SEVERITIES, observation.severity) ? observation.severity : 'minor',
+    location: typeof observation.location === 'string' ? observation.location.trim() : '',
+    description,
+    image_index:
+      typeof imageIndex === 'number' && Number.isInteger(imageIndex) && imageIndex >= 0 && imageIndex < imageCount
+        ? imageIndex
+        : null,
+  };
+}
+
+/**
+ * Line up the model's findings with the category checklist, so every item
+ * is reported once and in order
+ */
+function alignChecklist(fields: ConditionChecklistField[], raw: unknown): ConditionChecklistFinding[] {
+  const findings = new Map<string, string>();
+  if (Array.isArray(raw)) {
+    for (const entry of raw) {
+      if (!entry || typeof entry !== 'object') continue;
+      const { item, finding } = entry as Record<string, unknown>;
+      if (typeof item === 'string' && typeof finding === 'string' && finding.trim()) {
+        findings.set(item.trim().toLowerCase(), finding.trim());
+      }
+    }
+  }
+
+  return fields.map(({ label }) => ({
+    item: label,
+    finding: findings.get(label.toLowerCase()) || 'Not pictured',
+  }));
+}
+
+/**
+ * Condition report text: overall summary, then one line per checklist item
+ */
+export function formatConditionReport(summary: string, checklist: ConditionChecklistFinding[]): string {
+  const lines = checklist.map(({ item, finding }) => `- ${item}: ${finding}`);
+  return [summary, ...lines].filter(Boolean).join('\n');
+}
+
+/**
+ * Propose a condition grade from photos of a unit, with the defects seen
+ * and a condition report drafted from the category checklist
+ */
+export async function assessCondition(request: ConditionAssessmentRequest): Promise<ConditionAssessment> {
+  const { images } = request;
+  const checklists = request.checklists || DEFAULT_CONDITION_CHECKLISTS;
+
+  const response = await getAnthropic().messages.create({
+    model: config.ai.visionModel,
+    max_tokens: config.ai.maxTokens,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          ...images.map((image) => toImageBlock(image)),
+          { type: 'text', text: buildPrompt(request, checklists, images.length) },
+        ],
+      },
+    ],
+  });
+
+  const textContent = response.content.find((block) => block.type === 'text');
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text content in AI response');
+  }
+
+  let jsonStr = textContent.text;
+  if (jsonStr.includes('```json')) {
+    jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (jsonStr.includes('```')) {
+    jsonStr = jsonStr.replace(/```\n?/g, '');
+  }
+
+  const parsed = JSON.parse(jsonStr.trim());
+
+  if (!isKey<ConditionGrade>(CONDITION_GRADES, parsed.grade)) {
+    throw new Error(`AI proposed an unknown condition grade: ${String(parsed.grade)}`);
+  }
+
+  // A category chosen by the user wins over the model's guess
+  const category: ProductCategory =
+    request.category || (isKey<ProductCategory>(PRODUCT_CATEGORIES, parsed.category) ? parsed.category : 'other');
+  const summary = typeof parsed.summary === 'string' ? parsed.summary.trim() : '';
+  const checklist = alignChecklist(checklists[category], parsed.checklist);
+
+  return {
+    category,
+    proposed_grade: parsed.grade,
+    confidence: typeof parsed.confidence === 'number' ? clamp(parsed.confidence) : 0,
+    summary,
+    observations: Array.isArray(parsed.observations)
+      ? parsed.observations
+          .map((observation: unknown) => parseObservation(observation, images.length))
+          .filter((observation: ConditionObservation | null): observation is ConditionObservation => observation !== null)
+      : [],
+    checklist,
+    draft_report: formatConditionReport(summary, checklist),
+    image_count: images.length,
+    assessed_at: new Date().toISOString(),
+  };
+}
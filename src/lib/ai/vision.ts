@@ -0,0 +1,230 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { config } from '@/config';
+import type { VisionAIResponse, VisionField, VisionFieldReading, VisionRegion } from '@/types';
+
+// Lazy-load Anthropic client to avoid build-time errors
+let anthropicClient: Anthropic | null = null;
+
+function getAnthropic(): Anthropic {
+  if (!anthropicClient) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+    }
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return anthropicClient;
+}
+
+export const VISION_FIELDS: VisionField[] = ['brand', 'model', 'serial_number'];
+
+const IDENTIFICATION_PROMPT = `You are an expert at identifying audio/video equipment, electronics, and home appliances.
+
+Analyze this product image and extract:
+1. **Brand** - The manufacturer (e.g., Marantz, Denon, Sony, Samsung)
+2. **Model** - The specific model number/name (e.g., AV30, SR7015, KD-65X85K)
+3. **Serial Number** - If visible on the product label or sticker
+
+Look for:
+- Front panel branding and model badges
+- Product labels (usually on back/bottom)
+- Serial number stickers
+- Any visible text that identifies the product
+
+Important:
+- This may be one of several photos of the same product (e.g. front badge and rear label); only report what is readable in THIS photo
+- If you cannot read a field in this photo, return null for its value with confidence 0
+- For serial numbers, look for labels saying "S/N", "Serial", or similar
+- Model numbers often include letters and numbers (e.g., AVR-X3800H)
+- "confidence" is how sure you are of that field's value (0.0 to 1.0)
+- "box" is where the value was read, as fractions of the image width/height from the top-left corner
+
+Respond with ONLY valid JSON in this exact format:
+{
+  "brand": { "value": "string or null", "confidence": 0.0, "box": { "x": 0.0, "y": 0.0, "width": 0.0, "height": 0.0 } or null },
+  "model": { "value": "string or null", "confidence": 0.0, "box": { ... } or null },
+  "serial_number": { "value": "string or null", "confidence": 0.0, "box": { ... } or null },
+  "raw_text": "all visible text you can read"
+}`;
+
+/**
+ * What was read from a single photo
+ */
+export interface ImageReading {
+  image_index: number;
+  fields: Record<VisionField, { value: string | null; confidence: number; region: VisionRegion | null }>;
+  raw_text: string;
+}
+
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+/**
+ * Build an image block from a data URL, bare base64 string or http(s) URL
+ */
+export function toImageBlock(image: string): Anthropic.ImageBlockParam {
+  if (image.startsWith('http')) {
+    return { type: 'image', source: { type: 'url', url: image } };
+  }
+
+  let data = image;
+  let mediaType: ImageMediaType = 'image/jpeg';
+  const matches = image.match(/^data:([^;]+);base64,(.+)$/);
+  if (matches) {
+    mediaType = matches[1] as ImageMediaType;
+    data = matches[2];
+  }
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data } };
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function parseRegion(box: unknown, imageIndex: number): VisionRegion | null {
+  if (!box || typeof box !== 'object') return null;
+  const { x, y, width, height } = box as Record<string, unknown>;
+  if ([x, y, width, height].some((n) => typeof n !== 'number' || Number.isNaN(n))) return null;
+  if ((width as number) <= 0 || (height as number) <= 0) return null;
+  return {
+    image_index: imageIndex,
+    x: clamp(x as number),
+    y: clamp(y as number),
+    width: clamp(width as number),
+    height: clamp(height as number),
+  };
+}
+
+function parseFieldReading(raw: unknown, imageIndex: number): ImageReading['fields'][VisionField] {
+  // Tolerate the older flat shape ("brand": "Marantz")
+  if (typeof raw === 'string') {
+    return { value: raw.trim() || null, confidence: 0.5, region: null };
+  }
+  if (!raw || typeof raw !== 'object') {
+    return { value: null, confidence: 0, region: null };
+  }
+  const reading = raw as Record<string, unknown>;
+  const value = typeof reading.value === 'string' && reading.value.trim() ? reading.value.trim() : null;
+  return {
+    value,
+    confidence: value && typeof reading.confidence === 'number' ? clamp(reading.confidence) : 0,
+    region: value ? parseRegion(reading.box, imageIndex) : null,
+  };
+}
+
+/**
+ * Read brand, model and serial from one photo
+ */
+export async function identifyImage(image: string, imageIndex: number): Promise<ImageReading> {
+  const response = await getAnthropic().messages.create({
+    model: config.ai.visionModel,
+    max_tokens: config.ai.maxTokens,
+    messages: [
+      {
+        role: 'user',
+        content: [toImageBlock(image), { type: 'text', text: IDENTIFICATION_PROMPT }],
+      },
+    ],
+  });
+
+  const textContent = response.content.find((block) => block.type === 'text');
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text content in AI response');
+  }
+
+  let jsonStr = textContent.text;
+  if (jsonStr.includes('```json')) {
+    jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (jsonStr.includes('```')) {
+    jsonStr = jsonStr.replace(/```\n?/g, '');
+  }
+
+  const parsed = JSON.parse(jsonStr.trim());
+
+  return {
+    image_index: imageIndex,
+    fields: {
+      brand: parseFieldReading(parsed.brand, imageIndex),
+      model: parseFieldReading(parsed.model, imageIndex),
+      serial_number: parseFieldReading(parsed.serial_number, imageIndex),
+    },
+    raw_text: typeof parsed.raw_text === 'string' ? parsed.raw_text : '',
+  };
+}
+
+// Compare readings ignoring case, spacing and punctuation ("AVR-X3800H" = "avr x3800h")
+const normalizeValue = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Merge one field across photos. Photos that agree raise confidence
+ * (independent reads: 1 - Π(1 - c)); photos that read a different value
+ * lower it in proportion to their confidence. The region and spelling come
+ * from the most confident read of the winning value.
+ */
+export function mergeFieldReadings(readings: ImageReading['fields'][VisionField][]): VisionFieldReading {
+  const groups = new Map<string, { best: ImageReading['fields'][VisionField]; confidences: number[] }>();
+
+  for (const reading of readings) {
+    if (!reading.value) continue;
+    const key = normalizeValue(reading.value);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { best: reading, confidences: [reading.confidence] });
+    } else {
+      group.confidences.push(reading.confidence);
+      if (reading.confidence > group.best.confidence) group.best = reading;
+    }
+  }
+
+  if (groups.size === 0) {
+    return { value: null, confidence: 0, region: null, alternatives: [] };
+  }
+
+  const scored = Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      support: 1 - group.confidences.reduce((product, c) => product * (1 - c), 1),
+    }))
+    .sort((a, b) => b.support - a.support);
+
+  const [winner, ...others] = scored;
+  const opposition = others.reduce((max, other) => Math.max(max, other.support), 0);
+
+  return {
+    value: winner.best.value,
+    confidence: Math.round(winner.support * (1 - opposition / 2) * 100) / 100,
+    region: winner.best.region,
+    alternatives: others.map((other) => other.best.value as string),
+  };
+}
+
+/**
+ * Merge per-photo readings into a single identification
+ */
+export function mergeVisionReadings(readings: ImageReading[]): VisionAIResponse {
+  const fields = Object.fromEntries(
+    VISION_FIELDS.map((field) => [field, mergeFieldReadings(readings.map((reading) => reading.fields[field]))])
+  ) as Record<VisionField, VisionFieldReading>;
+
+  return {
+    brand: fields.brand.value,
+    model: fields.model.value,
+    serial_number: fields.serial_number.value,
+    // Identification stands or falls on brand and model; serials are optional
+    confidence: Math.min(fields.brand.confidence, fields.model.confidence),
+    raw_text: readings
+      .map((reading) => reading.raw_text)
+      .filter(Boolean)
+      .join('\n---\n'),
+    identified_at: new Date().toISOString(),
+    fields,
+    image_count: readings.length,
+  };
+}
+
+/**
+ * Identify a product from one or more photos of it
+ */
+export async function identifyProduct(images: string[]): Promise<VisionAIResponse> {
+  const readings = await Promise.all(images.map((image, index) => identifyImage(image, index)));
+  return mergeVisionReadings(readings);
+}
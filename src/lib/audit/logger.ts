@@ -6,7 +6,7 @@
 
 import { createServerClient } from '@/lib/supabase/server';
 
-export type EntityType = 'inventory_item' | 'product_onboarding' | 'oauth_token' | 'sync' | 'rma_case';
+export type EntityType = 'inventory_item' | 'product_onboarding' | 'oauth_token' | 'sync' | 'rma_case' | 'product_group' | 'scrape_recipe' | 'repricing_rule' | 'supplier' | 'purchase_order' | 'trade_in_offer' | 'customer' | 'condition_checklist';
 export type AuditAction = 
   | 'create' 
   | 'update' 
@@ -17,6 +17,7 @@ export type AuditAction =
   | 'sync_completed'
   | 'sync_failed'
   | 'price_update'
+  | 'mark_sold'
   | 'bulk_operation';
 
 interface AuditLogEntry {
@@ -67,6 +68,7 @@ function generateSummary(entry: AuditLogEntry): string {
     sync_completed: 'Sync completed',
     sync_failed: 'Sync failed',
     price_update: 'Price updated',
+    mark_sold: 'Marked as sold',
     bulk_operation: 'Bulk operation performed',
   };
 
@@ -133,11 +135,7 @@ export async function logInventoryUpdate(
 export async function logSync(
   itemId: string,
   success: boolean,
-  platforms: {
-    shopify?: { success: boolean; productId?: string; error?: string };
-    hubspot?: { success: boolean; dealId?: string; error?: string };
-    notion?: { success: boolean; pageId?: string; error?: string };
-  },
+  platforms: Record<string, { success: boolean; externalId?: string; error?: string }>,
   metadata?: Record<string, unknown>
 ): Promise<void> {
   await logAuditEvent({
@@ -146,7 +144,7 @@ export async function logSync(
     action: success ? 'sync_completed' : 'sync_failed',
     metadata: { ...metadata, platforms },
     summary: success 
-      ? `Synced to ${Object.keys(platforms).filter(p => platforms[p as keyof typeof platforms]?.success).join(', ')}`
+      ? `Synced to ${Object.keys(platforms).filter(p => platforms[p]?.success).join(', ')}`
       : `Sync failed: ${Object.entries(platforms).filter(([, v]) => !v?.success).map(([k]) => k).join(', ')}`,
   });
 }
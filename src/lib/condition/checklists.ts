@@ -0,0 +1,108 @@
+/**
+ * CHT Operating System - Condition Checklists
+ *
+ * Each product category has a structured condition checklist. Categories
+ * that haven't been customised use DEFAULT_CONDITION_CHECKLISTS; saving a
+ * category's fields stores an override, and resetting removes it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_CONDITION_CHECKLISTS,
+  PRODUCT_CATEGORIES,
+  type ConditionChecklistField,
+  type ConditionChecklistSchema,
+  type ProductCategory,
+} from '@/types';
+
+interface ConditionChecklistRow {
+  id: string;
+  category: ProductCategory;
+  fields: ConditionChecklistField[];
+  updated_at: string;
+}
+
+/**
+ * Every category's checklist, customised or default, in category order
+ */
+export async function listConditionChecklists(supabase: SupabaseClient): Promise<ConditionChecklistSchema[]> {
+  const { data, error } = await supabase
+    .from('condition_checklists')
+    .select('id, category, fields, updated_at');
+
+  if (error) {
+    throw new Error(`Failed to load condition checklists: ${error.message}`);
+  }
+
+  const customised = new Map(((data || []) as ConditionChecklistRow[]).map((row) => [row.category, row]));
+
+  return (Object.keys(PRODUCT_CATEGORIES) as ProductCategory[]).map((category) => {
+    const row = customised.get(category);
+    return {
+      id: row?.id ?? null,
+      category,
+      fields: row ? row.fields : DEFAULT_CONDITION_CHECKLISTS[category],
+      customised: !!row,
+      updated_at: row?.updated_at ?? null,
+    };
+  });
+}
+
+/**
+ * Checklist fields by category, for grading and intake forms
+ */
+export async function getConditionChecklistFields(
+  supabase: SupabaseClient
+): Promise<Record<ProductCategory, ConditionChecklistField[]>> {
+  const checklists = await listConditionChecklists(supabase);
+  return Object.fromEntries(checklists.map((checklist) => [checklist.category, checklist.fields])) as Record<
+    ProductCategory,
+    ConditionChecklistField[]
+  >;
+}
+
+/**
+ * Replace a category's checklist
+ */
+export async function saveConditionChecklist(
+  supabase: SupabaseClient,
+  category: ProductCategory,
+  fields: ConditionChecklistField[]
+): Promise<ConditionChecklistSchema> {
+  const { data, error } = await supabase
+    .from('condition_checklists')
+    .upsert({ category, fields }, { onConflict: 'category' })
+    .select('id, category, fields, updated_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save condition checklist: ${error.message}`);
+  }
+
+  const row = data as ConditionChecklistRow;
+  return { id: row.id, category, fields: row.fields, customised: true, updated_at: row.updated_at };
+}
+
+/**
+ * Go back to the built-in checklist for a category. Returns the id of the
+ * removed customisation, or null if the default was already in use.
+ */
+export async function resetConditionChecklist(
+  supabase: SupabaseClient,
+  category: ProductCategory
+): Promise<{ checklist: ConditionChecklistSchema; removedId: string | null }> {
+  const { data, error } = await supabase
+    .from('condition_checklists')
+    .delete()
+    .eq('category', category)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to reset condition checklist: ${error.message}`);
+  }
+
+  return {
+    checklist: { id: null, category, fields: DEFAULT_CONDITION_CHECKLISTS[category], customised: false, updated_at: null },
+    removedId: data?.[0]?.id ?? null,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * CHT Operating System - Condition Checklist Summary
+ *
+ * Formats checklist answers for people: the intake forms, the Shopify
+ * product description and the HubSpot deal. Has no server dependencies,
+ * so client pages can preview the summary as it's filled in.
+ */
+
+import {
+  CHECKLIST_RATINGS,
+  PRODUCT_CATEGORIES,
+  type ChecklistRating,
+  type ConditionChecklistAnswer,
+  type ConditionChecklistField,
+  type ConditionChecklistResponse,
+} from '@/types';
+
+const isUnanswered = (answer: ConditionChecklistAnswer | undefined) =>
+  answer === null || answer === undefined || (typeof answer === 'string' && !answer.trim());
+
+/**
+ * An answer as it reads in a summary, or null when it wasn't given
+ */
+export function formatChecklistAnswer(field: ConditionChecklistField, answer: ConditionChecklistAnswer | undefined): string | null {
+  if (isUnanswered(answer)) return null;
+
+  switch (field.type) {
+    case 'rating':
+      return CHECKLIST_RATINGS[answer as ChecklistRating]?.label ?? String(answer);
+    case 'yes_no':
+      return answer ? 'Yes' : 'No';
+    case 'number': {
+      const value = Number(answer).toLocaleString('en-AU');
+      return field.unit ? `${value} ${field.unit}` : value;
+    }
+    default:
+      return String(answer).trim();
+  }
+}
+
+/**
+ * Required fields still without an answer
+ */
+export function getMissingChecklistAnswers(response: ConditionChecklistResponse): ConditionChecklistField[] {
+  return response.fields.filter((field) => field.required && isUnanswered(response.answers[field.key]));
+}
+
+/**
+ * Answered checklist lines, in checklist order
+ */
+export function getChecklistSummaryLines(response: ConditionChecklistResponse): { label: string; value: string }[] {
+  return response.fields.flatMap((field) => {
+    const value = formatChecklistAnswer(field, response.answers[field.key]);
+    return value === null ? [] : [{ label: field.label, value }];
+  });
+}
+
+/**
+ * Plain-text condition summary (HubSpot deal, printed sheets)
+ */
+export function formatConditionSummary(response: ConditionChecklistResponse): string {
+  const lines = getChecklistSummaryLines(response);
+  if (lines.length === 0) return '';
+  return [
+    `Condition checklist (${PRODUCT_CATEGORIES[response.category].label})`,
+    ...lines.map(({ label, value }) => `- ${label}: ${value}`),
+  ].join('\n');
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Condition summary section for the Shopify product description
+ */
+export function formatConditionSummaryHtml(response: ConditionChecklistResponse): string {
+  const lines = getChecklistSummaryLines(response);
+  if (lines.length === 0) return '';
+  return `
+    <div class="condition-checklist">
+      <h3>Condition Checklist</h3>
+      <ul>
+        ${lines.map(({ label, value }) => `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`).join('\n        ')}
+      </ul>
+    </div>
+  `;
+}
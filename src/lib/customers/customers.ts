@@ -0,0 +1,268 @@
+/**
+ * CHT Operating System - Customers
+ *
+ * Customer records (migrations/037_customers.sql). Trade-in intake, offers,
+ * RMAs and Shopify sales resolve the person involved with
+ * findOrCreateCustomer, so one customer collects every unit they've
+ * traded in, bought or returned. Serial service events carry the owner at
+ * the time, which getSerialOwnershipChain reads back as the unit's chain.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  Customer,
+  CustomerInput,
+  RmaCase,
+  SerialOwnershipEntry,
+  SerialOwnershipRole,
+  ServiceEventType,
+  TradeInOffer,
+} from '@/types';
+
+const SEARCH_LIMIT = 25;
+
+// Service events that hand a unit over, and what they mean for the owner
+const OWNERSHIP_EVENTS: Partial<Record<ServiceEventType, SerialOwnershipRole>> = {
+  trade_in_received: 'traded_in',
+  sale_recorded: 'purchased',
+  rma_received: 'returned',
+};
+
+const clean = (value: string | null | undefined) => value?.trim() || null;
+
+export const normalizeCustomerEmail = (email: string | null | undefined) => clean(email)?.toLowerCase() || null;
+
+// Strip characters PostgREST treats as syntax in or() filters
+const toSearchTerm = (value: string) => value.replace(/[,()*%]/g, ' ').trim();
+
+export async function listCustomers(
+  supabase: SupabaseClient,
+  options: { search?: string; limit?: number } = {}
+): Promise<Customer[]> {
+  let query = supabase
+    .from('customers')
+    .select('*')
+    .order('name', { ascending: true })
+    .limit(options.limit ?? SEARCH_LIMIT);
+
+  const term = options.search ? toSearchTerm(options.search) : '';
+  if (term) {
+    query = query.or(`name.ilike.*${term}*,email.ilike.*${term}*,phone.ilike.*${term}*`);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load customers: ${error.message}`);
+  }
+  return (data || []) as Customer[];
+}
+
+export async function getCustomer(supabase: SupabaseClient, customerId: string): Promise<Customer | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', customerId)
+    .maybeSingle<Customer>();
+
+  if (error) {
+    throw new Error(`Failed to load customer: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Existing customer for these details, matched on Shopify customer ID,
+ * then HubSpot contact ID, then email, then phone
+ */
+export async function findCustomer(supabase: SupabaseClient, input: CustomerInput): Promise<Customer | null> {
+  const lookups: Array<[column: string, value: string | null]> = [
+    ['shopify_customer_id', clean(input.shopify_customer_id)],
+    ['hubspot_contact_id', clean(input.hubspot_contact_id)],
+    ['email', normalizeCustomerEmail(input.email)],
+    ['phone', clean(input.phone)],
+  ];
+
+  for (const [column, value] of lookups) {
+    if (!value) continue;
+
+    const query = supabase.from('customers').select('*').limit(1);
+    // Emails compare case-insensitively, so escape ilike wildcards ("first_last@...")
+    const { data, error } = await (column === 'email'
+      ? query.ilike(column, value.replace(/[\\%_]/g, '\\$&'))
+      : query.eq(column, value));
+
+    if (error) {
+      throw new Error(`Failed to look up customer: ${error.message}`);
+    }
+    if (data?.length) {
+      return data[0] as Customer;
+    }
+  }
+  return null;
+}
+
+// Columns with a unique index; only one customer may hold each value
+const UNIQUE_CUSTOMER_COLUMNS = ['email', 'shopify_customer_id', 'hubspot_contact_id'] as const;
+
+/**
+ * Whether a customer other than customerId already holds this unique value
+ */
+async function isHeldByAnotherCustomer(
+  supabase: SupabaseClient,
+  column: (typeof UNIQUE_CUSTOMER_COLUMNS)[number],
+  value: string,
+  customerId: string
+): Promise<boolean> {
+  const query = supabase.from('customers').select('id').neq('id', customerId).limit(1);
+  const { data, error } = await (column === 'email'
+    ? query.ilike(column, value.replace(/[\\%_]/g, '\\$&'))
+    : query.eq(column, value));
+
+  if (error) {
+    throw new Error(`Failed to look up customer: ${error.message}`);
+  }
+  return Boolean(data?.length);
+}
+
+/**
+ * The customer for these details, creating one if none matches. Details
+ * the existing record is missing (e.g. a HubSpot contact ID picked at
+ * trade-in) are filled in, unless another customer already holds them;
+ * ones it already has are left alone. Returns null when there's nothing to
+ * identify the customer by.
+ */
+export async function findOrCreateCustomer(
+  supabase: SupabaseClient,
+  input: CustomerInput
+): Promise<Customer | null> {
+  const details = {
+    name: clean(input.name) || [clean(input.first_name), clean(input.last_name)].filter(Boolean).join(' ') || null,
+    first_name: clean(input.first_name),
+    last_name: clean(input.last_name),
+    email: normalizeCustomerEmail(input.email),
+    phone: clean(input.phone),
+    shopify_customer_id: clean(input.shopify_customer_id),
+    hubspot_contact_id: clean(input.hubspot_contact_id),
+  };
+
+  const existing = await findCustomer(supabase, details);
+  if (existing) {
+    const missing: Record<string, string> = Object.fromEntries(
+      Object.entries(details).filter(([key, value]) => value && !existing[key as keyof Customer])
+    );
+    for (const column of UNIQUE_CUSTOMER_COLUMNS) {
+      if (missing[column] && (await isHeldByAnotherCustomer(supabase, column, missing[column], existing.id))) {
+        delete missing[column];
+      }
+    }
+    if (Object.keys(missing).length === 0) return existing;
+
+    const { data, error } = await supabase
+      .from('customers')
+      .update(missing)
+      .eq('id', existing.id)
+      .select('*')
+      .single();
+
+    // Another customer took one of the values in the meantime; keep the record as it was
+    if (error?.code === '23505') return existing;
+    if (error || !data) {
+      throw new Error(`Failed to update customer: ${error?.message || 'no row returned'}`);
+    }
+    return data as Customer;
+  }
+
+  const name = details.name || details.email || details.phone;
+  if (!name) return null;
+
+  const { data, error } = await supabase
+    .from('customers')
+    .insert({ ...details, name })
+    .select('*')
+    .single();
+
+  // Created by a concurrent request with the same details
+  if (error?.code === '23505') {
+    const created = await findCustomer(supabase, details);
+    if (created) return created;
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create customer: ${error?.message || 'no row returned'}`);
+  }
+  return data as Customer;
+}
+
+export interface CustomerHistory {
+  tradeIns: Array<{ id: string; brand: string; model: string; serial_number: string | null; cost_price: number | null; listing_status: string; created_at: string }>;
+  offers: Array<Pick<TradeInOffer, 'id' | 'offer_number' | 'brand' | 'model' | 'offer_amount' | 'status' | 'expires_at' | 'created_at'>>;
+  rmaCases: Array<Pick<RmaCase, 'id' | 'shopify_order_name' | 'shopify_order_id' | 'serial_number' | 'issue_summary' | 'status' | 'created_at'>>;
+}
+
+/**
+ * Units the customer has traded in, offers made to them and their RMAs
+ */
+export async function getCustomerHistory(supabase: SupabaseClient, customerId: string): Promise<CustomerHistory> {
+  const [tradeIns, offers, rmaCases] = await Promise.all([
+    supabase
+      .from('inventory_items')
+      .select('id, brand, model, serial_number, cost_price, listing_status, created_at')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('trade_in_offers')
+      .select('id, offer_number, brand, model, offer_amount, status, expires_at, created_at')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('rma_cases')
+      .select('id, shopify_order_name, shopify_order_id, serial_number, issue_summary, status, created_at')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  const error = tradeIns.error || offers.error || rmaCases.error;
+  if (error) {
+    throw new Error(`Failed to load customer history: ${error.message}`);
+  }
+
+  return {
+    tradeIns: (tradeIns.data || []) as CustomerHistory['tradeIns'],
+    offers: (offers.data || []) as CustomerHistory['offers'],
+    rmaCases: (rmaCases.data || []) as CustomerHistory['rmaCases'],
+  };
+}
+
+/**
+ * Who has had the unit, oldest first: trade-ins, sales and RMA returns
+ * recorded against its serial
+ */
+export async function getSerialOwnershipChain(
+  supabase: SupabaseClient,
+  serialRegistryId: string
+): Promise<SerialOwnershipEntry[]> {
+  const { data, error } = await supabase
+    .from('serial_service_events')
+    .select('id, event_type, summary, rma_case_id, metadata, created_at, customer:customers(id, name, email, phone)')
+    .eq('serial_registry_id', serialRegistryId)
+    .in('event_type', Object.keys(OWNERSHIP_EVENTS))
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load ownership chain: ${error.message}`);
+  }
+
+  return (data || []).map((event) => {
+    const customer = Array.isArray(event.customer) ? event.customer[0] : event.customer;
+    const metadata = (event.metadata || {}) as Record<string, unknown>;
+    return {
+      event_id: event.id,
+      role: OWNERSHIP_EVENTS[event.event_type as ServiceEventType]!,
+      customer: (customer as SerialOwnershipEntry['customer']) || null,
+      at: event.created_at,
+      summary: event.summary,
+      rma_case_id: event.rma_case_id,
+      inventory_item_id: (metadata.inventory_item_id as string) || null,
+    };
+  });
+}
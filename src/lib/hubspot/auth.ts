@@ -0,0 +1,52 @@
+/**
+ * HubSpot CRM auth for Deals (inventory sync)
+ *
+ * RMA tickets use the private-app token directly (see tickets.ts).
+ */
+
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+
+/**
+ * Get HubSpot access token via OAuth client credentials
+ */
+export async function getHubSpotAccessToken(): Promise<string> {
+  // First check for direct access token (legacy private app)
+  if (process.env.HUBSPOT_ACCESS_TOKEN && process.env.HUBSPOT_ACCESS_TOKEN.startsWith('pat-')) {
+    return process.env.HUBSPOT_ACCESS_TOKEN;
+  }
+
+  // Use OAuth client credentials flow
+  const clientId = process.env.HUBSPOT_CLIENT_ID;
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error('HubSpot credentials not configured. Set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET, or HUBSPOT_ACCESS_TOKEN');
+  }
+
+  const response = await withRetry(
+    () => fetch('https://api.hubapi.com/oauth/v1/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: clientId,
+        client_secret: clientSecret,
+      }),
+    }),
+    {
+      retries: 3,
+      isRetryable: isNetworkError,
+      onRetry: (err, attempt) => console.log(`HubSpot OAuth retry ${attempt}:`, err),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(`HubSpot OAuth failed: ${error.message || 'Unknown error'}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
@@ -0,0 +1,102 @@
+/**
+ * HubSpot Contacts - customer matching at trade-in intake
+ *
+ * Looks up contacts sharing the email or phone entered for a trade-in
+ * customer, so staff can link the existing contact instead of ending up
+ * with a duplicate. The chosen contact ID is stored on the customer.
+ */
+
+import { config } from '@/config';
+import { getHubSpotAccessToken } from '@/lib/hubspot/auth';
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+import type { HubSpotContactMatch } from '@/types';
+
+const HUBSPOT_CONTACTS_URL = 'https://api.hubapi.com/crm/v3/objects/contacts';
+const SEARCH_LIMIT = 10;
+const CONTACT_PROPERTIES = ['firstname', 'lastname', 'email', 'phone', 'mobilephone'];
+
+interface HubSpotContact {
+  id: string;
+  properties?: Partial<Record<(typeof CONTACT_PROPERTIES)[number], string | null>>;
+}
+
+export function isHubSpotContactsConfigured(): boolean {
+  return Boolean(
+    process.env.HUBSPOT_ACCESS_TOKEN || (process.env.HUBSPOT_CLIENT_ID && process.env.HUBSPOT_CLIENT_SECRET)
+  );
+}
+
+// Compare phone numbers on their digits, ignoring a leading 0 / +61
+const phoneKey = (phone: string | null | undefined) => phone?.replace(/\D/g, '').replace(/^(61|0)/, '') || null;
+
+/**
+ * Contacts sharing the email or phone, best match (both) first.
+ * customer_id is left null for the caller to fill from local records.
+ */
+export async function findHubSpotContacts(input: {
+  email?: string | null;
+  phone?: string | null;
+}): Promise<HubSpotContactMatch[]> {
+  const email = input.email?.trim().toLowerCase() || null;
+  const phone = input.phone?.trim() || null;
+  if (!email && !phone) return [];
+
+  // Filter groups are ORed; each holds one exact-match filter
+  const filterGroups = [
+    ...(email ? [{ filters: [{ propertyName: 'email', operator: 'EQ', value: email }] }] : []),
+    ...(phone
+      ? ['phone', 'mobilephone'].map((propertyName) => ({
+          filters: [{ propertyName, operator: 'EQ', value: phone }],
+        }))
+      : []),
+  ];
+
+  const accessToken = await getHubSpotAccessToken();
+  const response = await withRetry(
+    () => fetch(`${HUBSPOT_CONTACTS_URL}/search`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ filterGroups, properties: CONTACT_PROPERTIES, limit: SEARCH_LIMIT }),
+    }),
+    {
+      retries: 3,
+      isRetryable: isNetworkError,
+      onRetry: (err, attempt) => console.log(`HubSpot contact search retry ${attempt}:`, err),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(`HubSpot contact search failed: ${error.message || response.status}`);
+  }
+
+  const data = (await response.json()) as { results?: HubSpotContact[] };
+  const enteredPhone = phoneKey(phone);
+
+  return (data.results || [])
+    .map((contact): HubSpotContactMatch => {
+      const props = contact.properties || {};
+      const contactPhone = props.phone || props.mobilephone || null;
+      const matchedOn: HubSpotContactMatch['matched_on'] = [];
+      if (email && props.email?.toLowerCase() === email) matchedOn.push('email');
+      if (enteredPhone && [props.phone, props.mobilephone].some((value) => phoneKey(value) === enteredPhone)) {
+        matchedOn.push('phone');
+      }
+
+      return {
+        id: contact.id,
+        name: [props.firstname, props.lastname].filter(Boolean).join(' ') || props.email || contact.id,
+        email: props.email || null,
+        phone: contactPhone,
+        matched_on: matchedOn,
+        url: config.hubspot.portalId
+          ? `https://app.hubspot.com/contacts/${config.hubspot.portalId}/contact/${contact.id}`
+          : null,
+        customer_id: null,
+      };
+    })
+    .sort((a, b) => b.matched_on.length - a.matched_on.length);
+}
@@ -0,0 +1,208 @@
+/**
+ * HubSpot Deals - sale propagation
+ *
+ * When a trade-in/ex-demo item sells, its intake Deal is moved to the
+ * configured Closed Won stage by queueing a HubSpot-only sync run (the
+ * HubSpot sync target sets the stage for sold items). Reconciliation
+ * catches sold items whose deals are still open.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { getHubSpotAccessToken } from '@/lib/hubspot/auth';
+import { enqueueSyncRun } from '@/lib/sync/queue';
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+import type { InventoryItem } from '@/types';
+
+const HUBSPOT_DEALS_URL = 'https://api.hubapi.com/crm/v3/objects/deals';
+const BATCH_READ_LIMIT = 100;
+const PAGE_SIZE = 1000;
+
+type SoldDealItem = Pick<InventoryItem, 'id' | 'listing_type' | 'hubspot_deal_id' | 'sale_price'>;
+
+/**
+ * Queue Closed Won updates for items that just sold. Items without a
+ * linked deal (or new stock) are skipped. Returns the queued run IDs.
+ */
+export async function enqueueClosedWonDealSync(
+  supabase: SupabaseClient,
+  itemIds: string[]
+): Promise<string[]> {
+  if (itemIds.length === 0) return [];
+
+  const { data: items, error } = await supabase
+    .from('inventory_items')
+    .select('id, listing_type, hubspot_deal_id')
+    .in('id', itemIds)
+    .eq('listing_status', 'sold')
+    .not('hubspot_deal_id', 'is', null)
+    .neq('listing_type', 'new');
+
+  if (error) {
+    throw new Error(`Failed to load sold items for HubSpot: ${error.message}`);
+  }
+
+  const runIds: string[] = [];
+  for (const item of items || []) {
+    const run = await enqueueSyncRun(supabase, item, 'system', { targets: ['hubspot'] });
+    runIds.push(run.id);
+  }
+  return runIds;
+}
+
+export interface ClosedWonReconcileResult {
+  checked: number;
+  /** Sold items whose deal is not Closed Won or has the wrong amount */
+  mismatched: Array<{
+    itemId: string;
+    dealId: string;
+    dealStage: string | null;
+    amount: string | null;
+    expectedAmount: number;
+  }>;
+  /** Deals HubSpot no longer has (deleted/archived) */
+  missingDeals: Array<{ itemId: string; dealId: string }>;
+  queuedRunIds: string[];
+  /** Items skipped because a HubSpot job is already queued or running */
+  alreadyQueued: string[];
+}
+
+/**
+ * Find sold items whose HubSpot deals are still open and queue fixes.
+ * Checks every sold item with a deal unless limit caps it. With dryRun,
+ * only reports what would be queued.
+ */
+export async function reconcileClosedWonDeals(
+  supabase: SupabaseClient,
+  options: { dryRun?: boolean; limit?: number } = {}
+): Promise<ClosedWonReconcileResult> {
+  const closedWonStageId = config.hubspot.dealClosedWonStageId;
+
+  // Every sold item with a deal (most recent first), unless capped by limit
+  const soldItems: SoldDealItem[] = [];
+  const limit = options.limit ?? Infinity;
+  for (let from = 0; from < limit; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select('id, listing_type, hubspot_deal_id, sale_price')
+      .eq('listing_status', 'sold')
+      .not('hubspot_deal_id', 'is', null)
+      .neq('listing_type', 'new')
+      .order('sold_at', { ascending: false, nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(from, Math.min(from + PAGE_SIZE, limit) - 1);
+
+    if (error) {
+      throw new Error(`Failed to load sold items: ${error.message}`);
+    }
+    soldItems.push(...((data || []) as SoldDealItem[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const deals = await fetchDeals(soldItems.map((item) => item.hubspot_deal_id!));
+
+  const result: ClosedWonReconcileResult = {
+    checked: soldItems.length,
+    mismatched: [],
+    missingDeals: [],
+    queuedRunIds: [],
+    alreadyQueued: [],
+  };
+
+  for (const item of soldItems) {
+    const dealId = item.hubspot_deal_id!;
+    const deal = deals.get(dealId);
+    if (!deal) {
+      result.missingDeals.push({ itemId: item.id, dealId });
+      continue;
+    }
+
+    const amountMatches = Number(deal.amount) === Number(item.sale_price);
+    if (deal.dealstage === closedWonStageId && amountMatches) continue;
+
+    result.mismatched.push({
+      itemId: item.id,
+      dealId,
+      dealStage: deal.dealstage,
+      amount: deal.amount,
+      expectedAmount: item.sale_price,
+    });
+  }
+
+  if (options.dryRun || result.mismatched.length === 0) {
+    return result;
+  }
+
+  const { data: activeJobs, error: jobsError } = await supabase
+    .from('sync_jobs')
+    .select('inventory_item_id')
+    .eq('platform', 'hubspot')
+    .in('status', ['queued', 'leased'])
+    .in('inventory_item_id', result.mismatched.map((entry) => entry.itemId));
+
+  if (jobsError) {
+    throw new Error(`Failed to check queued HubSpot jobs: ${jobsError.message}`);
+  }
+
+  const queuedItemIds = new Set((activeJobs || []).map((job) => job.inventory_item_id as string));
+  for (const entry of result.mismatched) {
+    if (queuedItemIds.has(entry.itemId)) {
+      result.alreadyQueued.push(entry.itemId);
+      continue;
+    }
+    const item = soldItems.find((soldItem) => soldItem.id === entry.itemId)!;
+    const run = await enqueueSyncRun(supabase, item, 'system', { targets: ['hubspot'] });
+    result.queuedRunIds.push(run.id);
+  }
+
+  return result;
+}
+
+async function fetchDeals(
+  dealIds: string[]
+): Promise<Map<string, { dealstage: string | null; amount: string | null }>> {
+  const deals = new Map<string, { dealstage: string | null; amount: string | null }>();
+  if (dealIds.length === 0) return deals;
+
+  const accessToken = await getHubSpotAccessToken();
+
+  for (let i = 0; i < dealIds.length; i += BATCH_READ_LIMIT) {
+    const batch = dealIds.slice(i, i + BATCH_READ_LIMIT);
+    const response = await withRetry(
+      () => fetch(`${HUBSPOT_DEALS_URL}/batch/read`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          properties: ['dealstage', 'amount'],
+          inputs: batch.map((id) => ({ id })),
+        }),
+      }),
+      {
+        retries: 3,
+        isRetryable: isNetworkError,
+        onRetry: (err, attempt) => console.log(`HubSpot deal batch read retry ${attempt}:`, err),
+      }
+    );
+
+    // 207 Multi-Status: some IDs were not found; those are simply absent from results.
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(`HubSpot deal lookup failed: ${error.message || response.status}`);
+    }
+
+    const data = (await response.json()) as {
+      results?: Array<{ id: string; properties?: { dealstage?: string | null; amount?: string | null } }>;
+    };
+    for (const deal of data.results || []) {
+      deals.set(deal.id, {
+        dealstage: deal.properties?.dealstage ?? null,
+        amount: deal.properties?.amount ?? null,
+      });
+    }
+  }
+
+  return deals;
+}
@@ -0,0 +1,238 @@
+/**
+ * CHT Operating System - Demo Fleet Planner
+ *
+ * Groups on-demo units by demo_location, projects when each crosses the
+ * 12/24-month demo age thresholds, and suggests per-location convert-to-sale
+ * batches priced from RRP and condition grade. Converting a batch moves the
+ * units to ready_to_sell with their selling photos and can queue a publish.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getMarginFloor } from '@/lib/pricing/competitors';
+import { enqueueSyncRun } from '@/lib/sync/queue';
+import {
+  DEMO_AGE_THRESHOLD_MONTHS,
+  DEMO_SALE_DISCOUNT_PERCENT,
+  type DemoAgeAlert,
+  type DemoConversion,
+  type DemoConversionBatch,
+  type DemoConversionResult,
+  type DemoFleetLocation,
+  type DemoFleetPlan,
+  type DemoFleetUnit,
+  type InventoryItem,
+} from '@/types';
+
+const DEMO_UNIT_COLUMNS =
+  'id, brand, model, sku, serial_number, demo_start_date, demo_location, condition_grade, rrp_aud, cost_price, registration_images';
+
+type DemoUnitRow = Pick<
+  InventoryItem,
+  | 'id'
+  | 'brand'
+  | 'model'
+  | 'sku'
+  | 'serial_number'
+  | 'demo_start_date'
+  | 'demo_location'
+  | 'condition_grade'
+  | 'rrp_aud'
+  | 'cost_price'
+  | 'registration_images'
+>;
+
+export const DEFAULT_PLANNING_HORIZON_DAYS = 90;
+
+/** Units without a demo_location are grouped under this label */
+export const UNASSIGNED_LOCATION = 'Unassigned';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addMonths(date: string, months: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return toDateString(result);
+}
+
+function alertOn(unit: { warningDate: string; criticalDate: string }, date: string): DemoAgeAlert {
+  if (date > unit.criticalDate) return 'critical';
+  if (date > unit.warningDate) return 'warning';
+  return 'ok';
+}
+
+/**
+ * RRP less the grade discount in whole dollars, never below the margin
+ * floor. Null without an RRP or condition grade.
+ */
+export function proposeDemoSalePrice(
+  unit: Pick<InventoryItem, 'rrp_aud' | 'cost_price' | 'condition_grade'>
+): number | null {
+  if (!unit.rrp_aud || !unit.condition_grade) return null;
+
+  const price = Math.round(unit.rrp_aud * (1 - DEMO_SALE_DISCOUNT_PERCENT[unit.condition_grade] / 100));
+  const marginFloor = getMarginFloor(unit.cost_price);
+  return marginFloor !== null ? Math.max(price, marginFloor) : price;
+}
+
+/**
+ * Age and threshold dates for a unit as of `today` (YYYY-MM-DD). Alerts
+ * follow the demo_inventory view: warning after 12 months, critical after 24.
+ */
+export function projectDemoUnit(unit: DemoUnitRow, today: string, horizonDate: string): DemoFleetUnit {
+  const startDate = unit.demo_start_date?.slice(0, 10) || today;
+  const dates = {
+    warningDate: addMonths(startDate, DEMO_AGE_THRESHOLD_MONTHS.warning),
+    criticalDate: addMonths(startDate, DEMO_AGE_THRESHOLD_MONTHS.critical),
+  };
+
+  return {
+    ...unit,
+    ...dates,
+    daysOnDemo: Math.max(0, Math.floor((Date.parse(today) - Date.parse(startDate)) / DAY_MS)),
+    alert: alertOn(dates, today),
+    projectedAlert: alertOn(dates, horizonDate),
+    proposedPrice: proposeDemoSalePrice(unit),
+    marginFloor: getMarginFloor(unit.cost_price),
+  };
+}
+
+/**
+ * Group projected units by location (oldest first) and build one convert
+ * batch per location from the units critical by the end of the horizon
+ */
+export function buildDemoFleetPlan(
+  units: DemoUnitRow[],
+  options: { horizonDays?: number; now?: Date } = {}
+): DemoFleetPlan {
+  const horizonDays = options.horizonDays ?? DEFAULT_PLANNING_HORIZON_DAYS;
+  const now = options.now ?? new Date();
+  const today = toDateString(now);
+  const horizonDate = toDateString(new Date(now.getTime() + horizonDays * DAY_MS));
+
+  const byLocation = new Map<string, DemoFleetUnit[]>();
+  for (const unit of units) {
+    const location = unit.demo_location?.trim() || UNASSIGNED_LOCATION;
+    const projected = projectDemoUnit(unit, today, horizonDate);
+    byLocation.set(location, [...(byLocation.get(location) || []), projected]);
+  }
+
+  const locations: DemoFleetLocation[] = [...byLocation.entries()]
+    .map(([location, locationUnits]) => {
+      const sorted = locationUnits.sort((a, b) => b.daysOnDemo - a.daysOnDemo);
+      const counts: Record<DemoAgeAlert, number> = { ok: 0, warning: 0, critical: 0 };
+      for (const unit of sorted) counts[unit.alert] += 1;
+      return { location, units: sorted, counts };
+    })
+    .sort((a, b) => a.location.localeCompare(b.location));
+
+  const batches: DemoConversionBatch[] = [];
+  for (const { location, units: locationUnits } of locations) {
+    const due = locationUnits.filter((unit) => unit.projectedAlert === 'critical');
+    if (due.length === 0) continue;
+
+    batches.push({
+      location,
+      unitIds: due.map((unit) => unit.id),
+      proposedTotal: due.reduce((sum, unit) => sum + (unit.proposedPrice ?? 0), 0),
+      unpricedCount: due.filter((unit) => unit.proposedPrice === null).length,
+    });
+  }
+
+  return { horizonDays, horizonDate, locations, batches };
+}
+
+export async function getDemoFleetPlan(
+  supabase: SupabaseClient,
+  options: { horizonDays?: number } = {}
+): Promise<DemoFleetPlan> {
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .select(DEMO_UNIT_COLUMNS)
+    .eq('listing_type', 'ex_demo')
+    .eq('listing_status', 'on_demo')
+    .eq('is_archived', false)
+    .order('demo_start_date', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load demo units: ${error.message}`);
+  }
+  return buildDemoFleetPlan((data || []) as DemoUnitRow[], options);
+}
+
+/**
+ * Move on-demo units to ready_to_sell with their sale price, grade and
+ * selling photos (which become the listing images), then queue a publish
+ * for each when `publish` is set. Units no longer on demo are reported as
+ * failed rather than converted twice.
+ */
+export async function convertDemoUnitsToSale(
+  supabase: SupabaseClient,
+  conversions: DemoConversion[],
+  options: { publish?: boolean } = {}
+): Promise<DemoConversionResult> {
+  const result: DemoConversionResult = { converted: [], failed: [], queued: {} };
+
+  const { data: items, error } = await supabase
+    .from('inventory_items')
+    .select('id, listing_type, listing_status, registration_images')
+    .in('id', conversions.map((conversion) => conversion.id));
+
+  if (error) {
+    throw new Error(`Failed to load demo units: ${error.message}`);
+  }
+
+  const itemsById = new Map(
+    ((items || []) as Pick<InventoryItem, 'id' | 'listing_type' | 'listing_status' | 'registration_images'>[])
+      .map((item) => [item.id, item])
+  );
+  const convertedAt = new Date().toISOString();
+
+  for (const conversion of conversions) {
+    const item = itemsById.get(conversion.id);
+    if (!item) {
+      result.failed.push({ id: conversion.id, error: 'Item not found' });
+      continue;
+    }
+    if (item.listing_type !== 'ex_demo' || item.listing_status !== 'on_demo') {
+      result.failed.push({ id: conversion.id, error: 'Item is not on demo' });
+      continue;
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('inventory_items')
+      .update({
+        listing_status: 'ready_to_sell',
+        sale_price: conversion.sale_price,
+        condition_grade: conversion.condition_grade,
+        selling_images: conversion.selling_images,
+        image_urls: conversion.selling_images.length > 0
+          ? conversion.selling_images
+          : item.registration_images || [],
+        converted_to_sale_at: convertedAt,
+      })
+      .eq('id', conversion.id)
+      .eq('listing_status', 'on_demo')
+      .select('id');
+
+    if (updateError || !updated?.length) {
+      result.failed.push({ id: conversion.id, error: updateError?.message || 'Item is not on demo' });
+      continue;
+    }
+    result.converted.push(conversion.id);
+
+    if (options.publish) {
+      try {
+        const run = await enqueueSyncRun(supabase, item, 'bulk');
+        result.queued[conversion.id] = run.id;
+      } catch (queueError) {
+        console.error(`Failed to queue publish for ${conversion.id}:`, queueError);
+      }
+    }
+  }
+
+  return result;
+}
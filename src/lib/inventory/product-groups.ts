@@ -0,0 +1,253 @@
+/**
+ * CHT Operating System - Product Groups
+ *
+ * Multi-variant products: a product group publishes as one Shopify product
+ * and each inventory item in it is one variant with its own price and SKU.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  InventoryItem,
+  ListingType,
+  ProductGroup,
+  ProductGroupWithVariants,
+  VariantOptions,
+} from '@/types';
+
+export interface ProductGroupVariantInput {
+  id?: string;
+  options: VariantOptions;
+  sale_price: number;
+  sku?: string | null;
+  rrp_aud?: number | null;
+}
+
+export interface ProductGroupFieldsInput {
+  title?: string | null;
+  description_html?: string | null;
+  option_names: string[];
+  variants: ProductGroupVariantInput[];
+}
+
+export interface ProductGroupCreateInput extends ProductGroupFieldsInput {
+  listing_type: ListingType;
+  brand: string;
+  model: string;
+  source_url?: string | null;
+  image_urls?: string[];
+  specifications?: Record<string, string> | null;
+}
+
+export interface ProductGroupSaveResult {
+  group: ProductGroupWithVariants;
+  created: string[];
+  updated: string[];
+  /** Items removed from the group (now standalone products) */
+  detached: InventoryItem[];
+}
+
+/**
+ * Load a group and its variants (non-archived members, oldest first)
+ */
+export async function getProductGroup(
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<ProductGroupWithVariants | null> {
+  const { data: group, error } = await supabase
+    .from('product_groups')
+    .select('*')
+    .eq('id', groupId)
+    .maybeSingle<ProductGroup>();
+
+  if (error) {
+    throw new Error(`Failed to load product group: ${error.message}`);
+  }
+  if (!group) return null;
+
+  const { data: variants, error: variantsError } = await supabase
+    .from('inventory_items')
+    .select('*')
+    .eq('product_group_id', groupId)
+    .eq('is_archived', false)
+    .order('created_at', { ascending: true });
+
+  if (variantsError) {
+    throw new Error(`Failed to load product group variants: ${variantsError.message}`);
+  }
+
+  return { ...group, variants: (variants || []) as InventoryItem[] };
+}
+
+/**
+ * Create a group and one inventory item per variant. Variants share the
+ * group's brand, model, content and images.
+ */
+export async function createProductGroup(
+  supabase: SupabaseClient,
+  input: ProductGroupCreateInput
+): Promise<ProductGroupWithVariants> {
+  const { data: group, error } = await supabase
+    .from('product_groups')
+    .insert({
+      brand: input.brand,
+      model: input.model,
+      title: input.title || `${input.brand} ${input.model}`,
+      description_html: input.description_html || null,
+      option_names: input.option_names,
+    })
+    .select('*')
+    .single<ProductGroup>();
+
+  if (error || !group) {
+    throw new Error(`Failed to create product group: ${error?.message || 'Unknown error'}`);
+  }
+
+  const { data: variants, error: variantsError } = await supabase
+    .from('inventory_items')
+    .insert(
+      input.variants.map((variant) => ({
+        listing_type: input.listing_type,
+        listing_status: 'ready_to_sell',
+        brand: input.brand,
+        model: input.model,
+        sku: variant.sku || null,
+        rrp_aud: variant.rrp_aud || null,
+        sale_price: variant.sale_price,
+        serial_capture_status: 'skipped',
+        product_group_id: group.id,
+        variant_options: pickOptions(variant.options, input.option_names),
+        title: group.title,
+        description_html: input.description_html || null,
+        image_urls: input.image_urls || [],
+        specifications: input.specifications || {},
+        source_url: input.source_url || null,
+        sync_status: 'pending',
+      }))
+    )
+    .select('*');
+
+  if (variantsError) {
+    // Don't leave an empty group behind
+    await supabase.from('product_groups').delete().eq('id', group.id);
+    throw new Error(`Failed to create variants: ${variantsError.message}`);
+  }
+
+  return { ...group, variants: (variants || []) as InventoryItem[] };
+}
+
+/**
+ * Replace a group's option axes and variant list. Variants with an id are
+ * updated, new ones are created from the first existing variant, and
+ * members missing from the list are detached into standalone products.
+ */
+export async function saveProductGroup(
+  supabase: SupabaseClient,
+  groupId: string,
+  input: ProductGroupFieldsInput
+): Promise<ProductGroupSaveResult> {
+  const existing = await getProductGroup(supabase, groupId);
+  if (!existing) {
+    throw new Error('Product group not found');
+  }
+
+  const memberIds = new Set(existing.variants.map((variant) => variant.id));
+  const unknown = input.variants.filter((variant) => variant.id && !memberIds.has(variant.id));
+  if (unknown.length > 0) {
+    throw new Error('Variant does not belong to this product group');
+  }
+
+  const { error: groupError } = await supabase
+    .from('product_groups')
+    .update({
+      title: input.title === undefined ? existing.title : input.title,
+      description_html: input.description_html === undefined ? existing.description_html : input.description_html,
+      option_names: input.option_names,
+    })
+    .eq('id', groupId);
+
+  if (groupError) {
+    throw new Error(`Failed to update product group: ${groupError.message}`);
+  }
+
+  const keptIds = new Set(input.variants.map((variant) => variant.id).filter(Boolean));
+  const result: ProductGroupSaveResult = {
+    group: existing,
+    created: [],
+    updated: [],
+    detached: existing.variants.filter((variant) => !keptIds.has(variant.id)),
+  };
+
+  for (const variant of input.variants) {
+    const fields = {
+      sku: variant.sku || null,
+      rrp_aud: variant.rrp_aud || null,
+      sale_price: variant.sale_price,
+      variant_options: pickOptions(variant.options, input.option_names),
+    };
+
+    if (variant.id) {
+      const { error } = await supabase
+        .from('inventory_items')
+        .update({ ...fields, sync_status: 'pending' })
+        .eq('id', variant.id);
+      if (error) {
+        throw new Error(`Failed to update variant: ${error.message}`);
+      }
+      result.updated.push(variant.id);
+      continue;
+    }
+
+    const template = existing.variants[0];
+    if (!template) {
+      throw new Error('Product group has no variant to copy details from');
+    }
+
+    const { data: created, error } = await supabase
+      .from('inventory_items')
+      .insert({
+        listing_type: template.listing_type,
+        listing_status: 'ready_to_sell',
+        brand: template.brand,
+        model: template.model,
+        serial_capture_status: 'skipped',
+        product_group_id: groupId,
+        title: template.title,
+        description_html: template.description_html,
+        image_urls: template.image_urls,
+        specifications: template.specifications,
+        source_url: template.source_url,
+        sync_status: 'pending',
+        ...fields,
+      })
+      .select('id')
+      .single();
+    if (error || !created) {
+      throw new Error(`Failed to create variant: ${error?.message || 'Unknown error'}`);
+    }
+    result.created.push(created.id);
+  }
+
+  if (result.detached.length > 0) {
+    const { error } = await supabase
+      .from('inventory_items')
+      .update({
+        product_group_id: null,
+        variant_options: {},
+        shopify_product_id: null,
+        shopify_variant_id: null,
+        shopify_media: [],
+        sync_status: 'pending',
+      })
+      .in('id', result.detached.map((variant) => variant.id));
+    if (error) {
+      throw new Error(`Failed to detach variants: ${error.message}`);
+    }
+  }
+
+  result.group = (await getProductGroup(supabase, groupId))!;
+  return result;
+}
+
+function pickOptions(options: VariantOptions, optionNames: string[]): VariantOptions {
+  return Object.fromEntries(optionNames.map((name) => [name, options[name].trim()]));
+}
@@ -0,0 +1,276 @@
+/**
+ * CHT Operating System - Inventory Sales
+ *
+ * Marks inventory items sold from Shopify orders. Line items are matched by
+ * shopify_variant_id first, then SKU. Serialised items are stamped in the
+ * serial registry with a sale_recorded service event naming the buyer.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { findOrCreateCustomer } from '@/lib/customers/customers';
+import { appendSerialServiceEvent, upsertSerialRegistry } from '@/lib/rma/service';
+import { toCustomerGid, toOrderGid } from '@/lib/shopify/webhooks';
+import type { InventoryItem } from '@/types';
+
+export interface ShopifyOrderLineItem {
+  id?: string | number;
+  variant_id?: string | number | null;
+  sku?: string | null;
+  quantity?: number;
+  title?: string | null;
+  price?: string | null;
+}
+
+export interface ShopifyOrderPayload {
+  id: string | number;
+  name?: string | null;
+  created_at?: string | null;
+  processed_at?: string | null;
+  financial_status?: string | null;
+  customer?: {
+    id?: string | number;
+    email?: string | null;
+    phone?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+  } | null;
+  line_items?: ShopifyOrderLineItem[];
+}
+
+export interface SoldItemRecord {
+  inventoryItemId: string;
+  brand: string;
+  model: string;
+  serialNumber: string | null;
+  previousStatus: InventoryItem['listing_status'];
+  lineItemId: string | null;
+  matchedBy: 'variant' | 'sku';
+  serialRegistryId: string | null;
+}
+
+export interface OrderSaleResult {
+  orderId: string;
+  orderName: string | null;
+  soldAt: string;
+  /** Buyer's customer record, when the order has a customer */
+  customerId: string | null;
+  sold: SoldItemRecord[];
+  /** Items already marked sold by this order (duplicate or follow-up delivery) */
+  alreadyRecorded: string[];
+  unmatched: Array<{ lineItemId: string | null; sku: string | null; variantId: string | null }>;
+}
+
+type CandidateItem = Pick<
+  InventoryItem,
+  'id' | 'brand' | 'model' | 'serial_number' | 'sku' | 'shopify_variant_id' | 'listing_status' | 'sold_shopify_order_id' | 'created_at'
+>;
+
+const CANDIDATE_COLUMNS =
+  'id, brand, model, serial_number, sku, shopify_variant_id, listing_status, sold_shopify_order_id, created_at';
+
+/**
+ * Mark the inventory items in a Shopify order as sold. Safe to call for
+ * every order webhook delivery: items already sold by the order are skipped.
+ */
+export async function recordShopifyOrderSale(
+  supabase: SupabaseClient,
+  order: ShopifyOrderPayload,
+  context: { topic: string }
+): Promise<OrderSaleResult> {
+  const orderId = toOrderGid(String(order.id));
+  const soldAt = order.processed_at || order.created_at || new Date().toISOString();
+  const lineItems = order.line_items || [];
+
+  const candidates = await fetchCandidates(supabase, lineItems);
+  const claimed = new Set<string>();
+  const result: OrderSaleResult = {
+    orderId,
+    orderName: order.name || null,
+    soldAt,
+    customerId: await resolveBuyer(supabase, order),
+    sold: [],
+    alreadyRecorded: [],
+    unmatched: [],
+  };
+
+  for (const line of lineItems) {
+    const variantId = line.variant_id ? String(line.variant_id) : null;
+    const sku = line.sku?.trim() || null;
+    const lineItemId = line.id ? String(line.id) : null;
+    let remaining = Math.max(line.quantity ?? 1, 1);
+
+    const matches = (item: CandidateItem): 'variant' | 'sku' | null => {
+      if (variantId && item.shopify_variant_id === variantId) return 'variant';
+      if (sku && item.sku?.toLowerCase() === sku.toLowerCase()) return 'sku';
+      return null;
+    };
+
+    // Units this order already sold (earlier delivery of the same order)
+    for (const item of candidates) {
+      if (remaining === 0) break;
+      if (claimed.has(item.id) || item.sold_shopify_order_id !== orderId || !matches(item)) continue;
+      claimed.add(item.id);
+      result.alreadyRecorded.push(item.id);
+      remaining--;
+    }
+
+    const available = candidates
+      .filter((item) => !claimed.has(item.id) && item.listing_status !== 'sold' && matches(item))
+      .sort((a, b) => rankMatch(matches(a)) - rankMatch(matches(b)) || a.created_at.localeCompare(b.created_at));
+
+    for (const item of available) {
+      if (remaining === 0) break;
+      claimed.add(item.id);
+
+      const sold = await markItemSold(supabase, item, {
+        orderId,
+        orderName: result.orderName,
+        soldAt,
+        lineItemId,
+        customerId: result.customerId,
+        topic: context.topic,
+        matchedBy: matches(item)!,
+      });
+      if (sold) {
+        result.sold.push(sold);
+        remaining--;
+      }
+    }
+
+    if (remaining > 0) {
+      result.unmatched.push({ lineItemId, sku, variantId });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The buyer's customer record. Best effort: a failure here shouldn't stop
+ * the sale being recorded.
+ */
+async function resolveBuyer(supabase: SupabaseClient, order: ShopifyOrderPayload): Promise<string | null> {
+  if (!order.customer) return null;
+  try {
+    const customer = await findOrCreateCustomer(supabase, {
+      first_name: order.customer.first_name,
+      last_name: order.customer.last_name,
+      email: order.customer.email,
+      phone: order.customer.phone,
+      shopify_customer_id: order.customer.id ? toCustomerGid(String(order.customer.id)) : null,
+    });
+    return customer?.id || null;
+  } catch (error) {
+    console.error('Failed to link order customer:', error);
+    return null;
+  }
+}
+
+function rankMatch(matchedBy: 'variant' | 'sku' | null): number {
+  return matchedBy === 'variant' ? 0 : 1;
+}
+
+async function fetchCandidates(
+  supabase: SupabaseClient,
+  lineItems: ShopifyOrderLineItem[]
+): Promise<CandidateItem[]> {
+  const variantIds = [...new Set(lineItems.map((line) => line.variant_id).filter(Boolean).map(String))];
+  const skus = [...new Set(lineItems.map((line) => line.sku?.trim()).filter((sku): sku is string => !!sku))];
+  const byId = new Map<string, CandidateItem>();
+
+  if (variantIds.length > 0) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(CANDIDATE_COLUMNS)
+      .eq('is_archived', false)
+      .in('shopify_variant_id', variantIds);
+    if (error) {
+      throw new Error(`Failed to match order line items by variant: ${error.message}`);
+    }
+    (data || []).forEach((item) => byId.set(item.id, item as CandidateItem));
+  }
+
+  if (skus.length > 0) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(CANDIDATE_COLUMNS)
+      .eq('is_archived', false)
+      .in('sku', skus);
+    if (error) {
+      throw new Error(`Failed to match order line items by SKU: ${error.message}`);
+    }
+    (data || []).forEach((item) => byId.set(item.id, item as CandidateItem));
+  }
+
+  return [...byId.values()];
+}
+
+async function markItemSold(
+  supabase: SupabaseClient,
+  item: CandidateItem,
+  input: {
+    orderId: string;
+    orderName: string | null;
+    soldAt: string;
+    lineItemId: string | null;
+    customerId: string | null;
+    topic: string;
+    matchedBy: 'variant' | 'sku';
+  }
+): Promise<SoldItemRecord | null> {
+  // Guard against a concurrent delivery having sold the item first.
+  const { data: updated, error } = await supabase
+    .from('inventory_items')
+    .update({
+      listing_status: 'sold',
+      sold_at: input.soldAt,
+      sold_shopify_order_id: input.orderId,
+    })
+    .eq('id', item.id)
+    .or('listing_status.is.null,listing_status.neq.sold')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to mark inventory item sold: ${error.message}`);
+  }
+  if (!updated?.length) {
+    return null;
+  }
+
+  let serialRegistryId: string | null = null;
+  if (item.serial_number) {
+    const registry = await upsertSerialRegistry(supabase, {
+      serialNumber: item.serial_number,
+      brand: item.brand,
+      model: item.model,
+      soldShopifyOrderId: input.orderId,
+      soldAt: input.soldAt,
+    });
+    serialRegistryId = registry.id;
+
+    await appendSerialServiceEvent(supabase, {
+      serialRegistryId: registry.id,
+      customerId: input.customerId,
+      eventType: 'sale_recorded',
+      summary: `Sold on Shopify order ${input.orderName || input.orderId}`,
+      metadata: {
+        source: 'shopify_order_webhook',
+        topic: input.topic,
+        shopify_order_id: input.orderId,
+        shopify_line_item_id: input.lineItemId,
+        inventory_item_id: item.id,
+      },
+    });
+  }
+
+  return {
+    inventoryItemId: item.id,
+    brand: item.brand,
+    model: item.model,
+    serialNumber: item.serial_number,
+    previousStatus: item.listing_status,
+    lineItemId: input.lineItemId,
+    matchedBy: input.matchedBy,
+    serialRegistryId,
+  };
+}
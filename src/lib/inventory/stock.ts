@@ -0,0 +1,345 @@
+/**
+ * CHT Operating System - Stock Levels
+ *
+ * Per-location quantities for new-retail stock. Our counts are the source
+ * of truth and are pushed to Shopify; the nightly reconciliation records
+ * Shopify's counts next to ours so drift can be reviewed and resolved.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { getGraphQLClient } from '@/lib/shopify/client';
+import {
+  fetchShopifyLocations,
+  fetchShopifyVariantQuantities,
+  setShopifyVariantQuantities,
+} from '@/lib/shopify/inventory';
+import type {
+  InventoryItem,
+  InventoryLocation,
+  InventoryStockLevelWithLocation,
+  StockDriftResolution,
+} from '@/types';
+import { hasStockDrift } from '@/types';
+
+type GraphQLClient = NonNullable<Awaited<ReturnType<typeof getGraphQLClient>>>;
+
+const STOCK_LEVEL_COLUMNS = '*, location:inventory_locations(id, name, shopify_location_id)';
+
+export interface StockPushResult {
+  pushed: number;
+  /** Locations not linked to a Shopify location */
+  skipped: number;
+  error?: string;
+}
+
+export interface StockReconcileResult {
+  checked: number;
+  drift: Array<{
+    itemId: string;
+    locationId: string;
+    quantity: number;
+    shopifyQuantity: number;
+  }>;
+  /** Linked variants Shopify no longer has */
+  missingVariants: string[];
+  /** Shopify locations holding stock that are not in inventory_locations */
+  unknownLocations: string[];
+}
+
+/**
+ * Upsert locations from Shopify, matched on shopify_location_id
+ */
+export async function importShopifyLocations(
+  supabase: SupabaseClient,
+  graphqlClient: GraphQLClient
+): Promise<InventoryLocation[]> {
+  const locations = await fetchShopifyLocations(graphqlClient);
+  if (locations.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('inventory_locations')
+    .upsert(
+      locations.map((location) => ({
+        name: location.name,
+        shopify_location_id: location.legacyResourceId,
+        is_active: location.isActive,
+      })),
+      { onConflict: 'shopify_location_id' }
+    )
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to save locations: ${error.message}`);
+  }
+  return (data || []) as InventoryLocation[];
+}
+
+export async function getStockLevels(
+  supabase: SupabaseClient,
+  itemId: string
+): Promise<InventoryStockLevelWithLocation[]> {
+  const { data, error } = await supabase
+    .from('inventory_stock_levels')
+    .select(STOCK_LEVEL_COLUMNS)
+    .eq('inventory_item_id', itemId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load stock levels: ${error.message}`);
+  }
+  return (data || []) as InventoryStockLevelWithLocation[];
+}
+
+/**
+ * Set an item's quantity at each given location
+ */
+export async function saveStockLevels(
+  supabase: SupabaseClient,
+  itemId: string,
+  levels: Array<{ location_id: string; quantity: number }>
+): Promise<InventoryStockLevelWithLocation[]> {
+  if (levels.length > 0) {
+    const { error } = await supabase
+      .from('inventory_stock_levels')
+      .upsert(
+        levels.map((level) => ({
+          inventory_item_id: itemId,
+          location_id: level.location_id,
+          quantity: level.quantity,
+        })),
+        { onConflict: 'inventory_item_id,location_id' }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save stock levels: ${error.message}`);
+    }
+  }
+
+  return getStockLevels(supabase, itemId);
+}
+
+/**
+ * Push an item's quantities to its Shopify variant. Failures are recorded
+ * on the stock levels (push_error) and returned rather than thrown, so a
+ * publish that already created the product is not retried into a duplicate.
+ */
+export async function pushStockLevels(
+  supabase: SupabaseClient,
+  graphqlClient: GraphQLClient,
+  item: Pick<InventoryItem, 'id' | 'shopify_variant_id'>
+): Promise<StockPushResult> {
+  const levels = await getStockLevels(supabase, item.id);
+  const linked = levels.filter((level) => level.location?.shopify_location_id);
+  const result: StockPushResult = { pushed: 0, skipped: levels.length - linked.length };
+
+  if (!item.shopify_variant_id || linked.length === 0) {
+    return result;
+  }
+
+  let pushError: string | null = null;
+  try {
+    await setShopifyVariantQuantities(
+      graphqlClient,
+      item.shopify_variant_id,
+      linked.map((level) => ({
+        shopifyLocationId: level.location!.shopify_location_id!,
+        quantity: level.quantity,
+      }))
+    );
+    result.pushed = linked.length;
+  } catch (error) {
+    pushError = error instanceof Error ? error.message : 'Failed to push quantities';
+    result.error = pushError;
+  }
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('inventory_stock_levels')
+    .update(
+      pushError
+        ? { push_error: pushError }
+        : { push_error: null, pushed_at: now }
+    )
+    .in('id', linked.map((level) => level.id));
+
+  if (error) {
+    console.error('Failed to record stock push:', error);
+  }
+
+  // A successful push brings Shopify in line with us
+  if (!pushError) {
+    for (const level of linked) {
+      await supabase
+        .from('inventory_stock_levels')
+        .update({ shopify_quantity: level.quantity, shopify_checked_at: now })
+        .eq('id', level.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compare our counts with Shopify's for every published new-retail item
+ * and store Shopify's count on each stock level. Stock Shopify holds at a
+ * known location we have no row for is recorded as a zero-quantity row,
+ * so it shows up as drift.
+ */
+export async function reconcileStockLevels(
+  supabase: SupabaseClient,
+  graphqlClient: GraphQLClient,
+  options: { dryRun?: boolean } = {}
+): Promise<StockReconcileResult> {
+  const { data: items, error } = await supabase
+    .from('inventory_items')
+    .select('id, shopify_variant_id')
+    .eq('listing_type', 'new')
+    .eq('is_archived', false)
+    .not('shopify_variant_id', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to load published items: ${error.message}`);
+  }
+
+  const { data: locations, error: locationsError } = await supabase
+    .from('inventory_locations')
+    .select('id, shopify_location_id')
+    .not('shopify_location_id', 'is', null);
+
+  if (locationsError) {
+    throw new Error(`Failed to load locations: ${locationsError.message}`);
+  }
+
+  const locationIdByShopifyId = new Map(
+    (locations || []).map((location) => [location.shopify_location_id as string, location.id as string])
+  );
+  const publishedItems = (items || []) as Array<Pick<InventoryItem, 'id' | 'shopify_variant_id'>>;
+  const shopifyQuantities = await fetchShopifyVariantQuantities(
+    graphqlClient,
+    publishedItems.map((item) => item.shopify_variant_id!)
+  );
+
+  const result: StockReconcileResult = {
+    checked: publishedItems.length,
+    drift: [],
+    missingVariants: [],
+    unknownLocations: [],
+  };
+  const unknownLocations = new Set<string>();
+  const checkedAt = new Date().toISOString();
+
+  for (const item of publishedItems) {
+    const shopifyLevels = shopifyQuantities.get(item.shopify_variant_id!);
+    if (!shopifyLevels) {
+      result.missingVariants.push(item.shopify_variant_id!);
+      continue;
+    }
+
+    const levels = await getStockLevels(supabase, item.id);
+    const seenLocations = new Set<string>();
+
+    for (const level of levels) {
+      const shopifyLocationId = level.location?.shopify_location_id;
+      if (!shopifyLocationId) continue;
+      seenLocations.add(shopifyLocationId);
+
+      const shopifyQuantity = shopifyLevels.get(shopifyLocationId) ?? 0;
+      if (hasStockDrift({ quantity: level.quantity, shopify_quantity: shopifyQuantity })) {
+        result.drift.push({
+          itemId: item.id,
+          locationId: level.location_id,
+          quantity: level.quantity,
+          shopifyQuantity,
+        });
+      }
+
+      if (!options.dryRun) {
+        await supabase
+          .from('inventory_stock_levels')
+          .update({ shopify_quantity: shopifyQuantity, shopify_checked_at: checkedAt })
+          .eq('id', level.id);
+      }
+    }
+
+    for (const [shopifyLocationId, shopifyQuantity] of shopifyLevels) {
+      if (seenLocations.has(shopifyLocationId) || shopifyQuantity === 0) continue;
+
+      const locationId = locationIdByShopifyId.get(shopifyLocationId);
+      if (!locationId) {
+        unknownLocations.add(shopifyLocationId);
+        continue;
+      }
+
+      result.drift.push({ itemId: item.id, locationId, quantity: 0, shopifyQuantity });
+      if (!options.dryRun) {
+        const { error: insertError } = await supabase.from('inventory_stock_levels').insert({
+          inventory_item_id: item.id,
+          location_id: locationId,
+          quantity: 0,
+          shopify_quantity: shopifyQuantity,
+          shopify_checked_at: checkedAt,
+        });
+        if (insertError) {
+          throw new Error(`Failed to record Shopify stock: ${insertError.message}`);
+        }
+      }
+    }
+  }
+
+  result.unknownLocations = [...unknownLocations];
+  return result;
+}
+
+/**
+ * Resolve drift on one stock level: push our count to Shopify, or adopt
+ * Shopify's count (e.g. after sales Shopify decremented).
+ */
+export async function resolveStockDrift(
+  supabase: SupabaseClient,
+  graphqlClient: GraphQLClient,
+  levelId: string,
+  resolution: StockDriftResolution
+): Promise<InventoryStockLevelWithLocation> {
+  const { data: level, error } = await supabase
+    .from('inventory_stock_levels')
+    .select(STOCK_LEVEL_COLUMNS)
+    .eq('id', levelId)
+    .maybeSingle<InventoryStockLevelWithLocation>();
+
+  if (error) {
+    throw new Error(`Failed to load stock level: ${error.message}`);
+  }
+  if (!level) {
+    throw new Error('Stock level not found');
+  }
+  if (!hasStockDrift(level)) {
+    throw new Error('Stock level has no drift to resolve');
+  }
+
+  if (resolution === 'accept_shopify') {
+    const { error: updateError } = await supabase
+      .from('inventory_stock_levels')
+      .update({ quantity: level.shopify_quantity })
+      .eq('id', level.id);
+    if (updateError) {
+      throw new Error(`Failed to update stock level: ${updateError.message}`);
+    }
+  } else {
+    const { data: item, error: itemError } = await supabase
+      .from('inventory_items')
+      .select('id, shopify_variant_id')
+      .eq('id', level.inventory_item_id)
+      .single();
+    if (itemError || !item) {
+      throw new Error('Inventory item not found');
+    }
+
+    const push = await pushStockLevels(supabase, graphqlClient, item);
+    if (push.error) {
+      throw new Error(`Shopify push failed: ${push.error}`);
+    }
+  }
+
+  const levels = await getStockLevels(supabase, level.inventory_item_id);
+  return levels.find((entry) => entry.id === level.id)!;
+}
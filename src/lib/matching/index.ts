@@ -9,4 +9,5 @@ export {
   linkProduct,
   unlinkProduct,
   autoMatchAll,
+  matchAgainstItems,
 } from './product-matcher';
@@ -7,13 +7,24 @@
  * 3. Brand + Model fuzzy match (Levenshtein distance)
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { MatchSuggestion, ShopifyProduct } from '@/types/shopify-products';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+let supabaseClient: SupabaseClient | null = null;
+
+/**
+ * Service-role client, created on first use so the pure matchers can be
+ * imported without Supabase configured
+ */
+function getSupabaseClient(): SupabaseClient {
+  if (!supabaseClient) {
+    supabaseClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+  return supabaseClient;
+}
 
 /**
  * Calculate Levenshtein distance between two strings
@@ -150,7 +161,7 @@ export async function findMatches(
 
   // 1. SKU Exact Match (highest priority)
   if (productSku) {
-    const { data: skuMatches } = await supabase
+    const { data: skuMatches } = await getSupabaseClient()
       .from('inventory_items')
       .select('id, brand, model, sku, rrp_aud, sale_price, cost_price')
       .eq('sku', productSku)
@@ -185,7 +196,7 @@ export async function findMatches(
 
   // 2. Brand + Model Exact Match
   if (productBrand) {
-    const { data: brandMatches } = await supabase
+    const { data: brandMatches } = await getSupabaseClient()
       .from('inventory_items')
       .select('id, brand, model, sku, rrp_aud, sale_price, cost_price')
       .ilike('brand', `%${productBrand}%`)
@@ -232,7 +243,7 @@ export async function findMatches(
   // 3. Brand + Model Fuzzy Match
   if (productBrand && suggestions.length < limit) {
     // Get more candidates for fuzzy matching
-    const { data: candidates } = await supabase
+    const { data: candidates } = await getSupabaseClient()
       .from('inventory_items')
       .select('id, brand, model, sku, rrp_aud, sale_price, cost_price')
       .eq('is_archived', false)
@@ -306,7 +317,7 @@ export async function linkProduct(
   inventoryItemId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const { error } = await supabase
+    const { error } = await getSupabaseClient()
       .from('shopify_products')
       .update({ linked_inventory_id: inventoryItemId })
       .eq('id', shopifyProductId);
@@ -331,7 +342,7 @@ export async function unlinkProduct(
   shopifyProductId: string
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    const { error } = await supabase
+    const { error } = await getSupabaseClient()
       .from('shopify_products')
       .update({ linked_inventory_id: null })
       .eq('id', shopifyProductId);
@@ -366,7 +377,7 @@ export async function autoMatchAll(): Promise<{
 
   try {
     // Get all unlinked products
-    const { data: unlinked, error } = await supabase
+    const { data: unlinked, error } = await getSupabaseClient()
       .from('shopify_products')
       .select('*')
       .is('linked_inventory_id', null);
@@ -407,3 +418,49 @@ export async function autoMatchAll(): Promise<{
 
   return result;
 }
+
+/**
+ * Match a product against inventory items already loaded into memory,
+ * e.g. every line of a supplier pricelist. Same rules as findMatches:
+ * SKU exact (100), brand + model exact (95), then the best fuzzy brand +
+ * model score at or above `minConfidence`.
+ */
+export function matchAgainstItems<T extends Pick<MatchSuggestion['inventoryItem'], 'id' | 'brand' | 'model' | 'sku'>>(
+  product: { sku?: string | null; brand?: string | null; model?: string | null },
+  items: T[],
+  minConfidence: number = 50
+): { item: T; matchType: MatchSuggestion['matchType']; confidence: number } | null {
+  const productSku = product.sku?.trim().toLowerCase();
+  const productBrand = normalizeText(product.brand || '');
+  const productModel = normalizeText(product.model || '');
+
+  if (productSku) {
+    const skuMatch = items.find((item) => item.sku?.trim().toLowerCase() === productSku);
+    if (skuMatch) return { item: skuMatch, matchType: 'sku_exact', confidence: 100 };
+  }
+
+  if (!productBrand || !productModel) return null;
+
+  let best: { item: T; score: number } | null = null;
+  for (const item of items) {
+    const itemBrand = normalizeText(item.brand);
+    const itemModel = normalizeText(item.model);
+
+    const brandMatch = itemBrand === productBrand ||
+      itemBrand.includes(productBrand) ||
+      productBrand.includes(itemBrand);
+    if (brandMatch && itemModel === productModel) {
+      return { item, matchType: 'brand_model_exact', confidence: 95 };
+    }
+
+    const brandSimilarity = calculateSimilarity(itemBrand, productBrand);
+    if (brandSimilarity < 70) continue;
+
+    const score = (brandSimilarity * 0.4) + (calculateSimilarity(itemModel, productModel) * 0.6);
+    if (score >= minConfidence && (!best || score > best.score)) {
+      best = { item, score };
+    }
+  }
+
+  return best ? { item: best.item, matchType: 'brand_model_fuzzy', confidence: Math.round(best.score) } : null;
+}
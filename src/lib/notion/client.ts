@@ -0,0 +1,107 @@
+/**
+ * Notion API client for the Global Inventory database
+ */
+
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+
+const NOTION_API_URL = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+
+export interface NotionConfig {
+  apiKey: string;
+  databaseId: string;
+}
+
+export interface NotionPage {
+  id: string;
+  url: string;
+  archived?: boolean;
+  last_edited_time: string;
+  properties: Record<string, NotionPropertyValue>;
+}
+
+/** The subset of Notion property value shapes the inventory database uses */
+export interface NotionPropertyValue {
+  type?: string;
+  title?: Array<{ plain_text?: string; text?: { content: string } }>;
+  rich_text?: Array<{ plain_text?: string; text?: { content: string } }>;
+  select?: { name: string } | null;
+  number?: number | null;
+  date?: { start: string } | null;
+}
+
+export function isNotionConfigured(): boolean {
+  return Boolean(process.env.NOTION_API_KEY && process.env.NOTION_INVENTORY_DATABASE_ID);
+}
+
+export function getNotionConfig(): NotionConfig {
+  const apiKey = process.env.NOTION_API_KEY;
+  const databaseId = process.env.NOTION_INVENTORY_DATABASE_ID;
+
+  if (!apiKey || !databaseId) {
+    throw new Error('Notion credentials not configured');
+  }
+
+  return { apiKey, databaseId };
+}
+
+/**
+ * Call the Notion API, retrying network errors. Throws on non-2xx responses
+ * unless the status is listed in allowStatuses (then returns null).
+ */
+export async function notionRequest<T>(
+  apiKey: string,
+  path: string,
+  init: { method?: string; body?: unknown; allowStatuses?: number[] } = {}
+): Promise<T | null> {
+  const response = await withRetry(
+    () => fetch(`${NOTION_API_URL}${path}`, {
+      method: init.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+        'Notion-Version': NOTION_VERSION,
+      },
+      ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+    }),
+    {
+      retries: 3,
+      isRetryable: isNetworkError,
+      onRetry: (err, attempt) => console.log(`Notion retry ${attempt}:`, err),
+    }
+  );
+
+  if (!response.ok) {
+    if (init.allowStatuses?.includes(response.status)) return null;
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Notion API returned ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Page through every row of a database
+ */
+export async function queryNotionDatabase({ apiKey, databaseId }: NotionConfig): Promise<NotionPage[]> {
+  const pages: NotionPage[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const data = await notionRequest<{ results: NotionPage[]; has_more: boolean; next_cursor: string | null }>(
+      apiKey,
+      `/databases/${databaseId}/query`,
+      {
+        method: 'POST',
+        body: {
+          page_size: 100,
+          ...(cursor ? { start_cursor: cursor } : {}),
+        },
+      }
+    );
+    pages.push(...(data?.results || []));
+    cursor = data?.has_more ? data.next_cursor || undefined : undefined;
+  } while (cursor);
+
+  return pages;
+}
@@ -0,0 +1,198 @@
+/**
+ * Notion Global Inventory - property mapping
+ *
+ * Converts inventory items to Global Inventory row properties and reads
+ * the reconciled fields (see NOTION_RECONCILED_FIELDS) back out of a page.
+ * Column names must match your Notion database.
+ */
+
+import type {
+  ConditionGrade,
+  InventoryItem,
+  ListingStatus,
+  NotionFieldSnapshot,
+  NotionFieldValue,
+  NotionReconciledField,
+} from '@/types';
+import { CONDITION_GRADES, LISTING_STATUSES, NOTION_RECONCILED_FIELDS } from '@/types';
+import type { NotionPage, NotionPropertyValue } from './client';
+
+// Notion rejects rich_text segments longer than 2000 characters
+const RICH_TEXT_CHUNK = 2000;
+
+/**
+ * Status select option per listing status. Ready-to-sell keeps the
+ * original "Listed" option so existing rows and views still match.
+ */
+const NOTION_STATUS_NAMES: Record<ListingStatus, string> = {
+  pending_enrichment: LISTING_STATUSES.pending_enrichment.label,
+  on_demo: LISTING_STATUSES.on_demo.label,
+  ready_to_sell: 'Listed',
+  sold: LISTING_STATUSES.sold.label,
+};
+
+export const NOTION_FIELDS = Object.keys(NOTION_RECONCILED_FIELDS) as NotionReconciledField[];
+
+/**
+ * Current local values of the reconciled fields
+ */
+export function readLocalNotionFields(
+  item: Pick<InventoryItem, NotionReconciledField>
+): Required<NotionFieldSnapshot> {
+  return {
+    listing_status: item.listing_status,
+    demo_location: item.demo_location || null,
+    notes: item.notes || null,
+    sale_price: item.sale_price,
+    condition_grade: item.condition_grade,
+    serial_number: item.serial_number || null,
+  };
+}
+
+/**
+ * Reconciled field values on a Notion page. Fields whose property is
+ * missing or holds a value the app cannot store (an unknown status
+ * option, an empty sale price) are listed in `unmapped` instead.
+ */
+export function readNotionFields(page: NotionPage): {
+  values: NotionFieldSnapshot;
+  unmapped: NotionReconciledField[];
+} {
+  const values: NotionFieldSnapshot = {};
+  const unmapped: NotionReconciledField[] = [];
+
+  for (const field of NOTION_FIELDS) {
+    const property = page.properties[NOTION_RECONCILED_FIELDS[field].property];
+    const value = property ? parseNotionField(field, property) : undefined;
+    if (value === undefined) {
+      unmapped.push(field);
+    } else {
+      values[field] = value;
+    }
+  }
+
+  return { values, unmapped };
+}
+
+function parseNotionField(
+  field: NotionReconciledField,
+  property: NotionPropertyValue
+): NotionFieldValue | undefined {
+  switch (field) {
+    case 'listing_status': {
+      const name = property.select?.name?.trim().toLowerCase();
+      if (!name) return null;
+      const match = (Object.keys(NOTION_STATUS_NAMES) as ListingStatus[]).find(
+        (status) =>
+          NOTION_STATUS_NAMES[status].toLowerCase() === name ||
+          LISTING_STATUSES[status].label.toLowerCase() === name
+      );
+      return match;
+    }
+    case 'condition_grade': {
+      const name = property.select?.name?.trim().toLowerCase();
+      if (!name) return null;
+      return name in CONDITION_GRADES ? name : undefined;
+    }
+    case 'sale_price':
+      return typeof property.number === 'number' ? property.number : undefined;
+    case 'serial_number': {
+      const text = readRichText(property);
+      return text && text !== 'N/A' ? text : null;
+    }
+    case 'demo_location':
+    case 'notes':
+      return readRichText(property);
+  }
+}
+
+function readRichText(property: NotionPropertyValue): string | null {
+  const text = (property.rich_text || property.title || [])
+    .map((part) => part.plain_text ?? part.text?.content ?? '')
+    .join('')
+    .trim();
+  return text || null;
+}
+
+function richText(value: string | null): { rich_text: Array<{ text: { content: string } }> } {
+  const chunks: Array<{ text: { content: string } }> = [];
+  for (let i = 0; value && i < value.length; i += RICH_TEXT_CHUNK) {
+    chunks.push({ text: { content: value.slice(i, i + RICH_TEXT_CHUNK) } });
+  }
+  return { rich_text: chunks };
+}
+
+/**
+ * Notion properties for the given reconciled field values
+ */
+export function buildReconciledProperties(values: NotionFieldSnapshot): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  for (const field of Object.keys(values) as NotionReconciledField[]) {
+    const value = values[field] ?? null;
+    const property = NOTION_RECONCILED_FIELDS[field].property;
+
+    switch (field) {
+      case 'listing_status':
+        properties[property] = { select: value ? { name: NOTION_STATUS_NAMES[value as ListingStatus] } : null };
+        break;
+      case 'condition_grade':
+        properties[property] = { select: value ? { name: CONDITION_GRADES[value as ConditionGrade].label } : null };
+        break;
+      case 'sale_price':
+        properties[property] = { number: value === null ? null : Number(value) };
+        break;
+      case 'serial_number':
+        properties[property] = richText(value ? String(value) : 'N/A');
+        break;
+      case 'demo_location':
+      case 'notes':
+        properties[property] = richText(value === null ? null : String(value));
+        break;
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Full Global Inventory row properties for an item
+ */
+export function buildNotionProperties(item: InventoryItem): Record<string, unknown> {
+  return {
+    // Title property (required for Notion databases)
+    'Name': {
+      title: [{ text: { content: `${item.brand} ${item.model}` } }],
+    },
+    'Brand': {
+      select: { name: item.brand },
+    },
+    'Model': {
+      rich_text: [{ text: { content: item.model } }],
+    },
+    'Type': {
+      select: { name: item.listing_type === 'new' ? 'New' : item.listing_type === 'trade_in' ? 'Trade-In' : 'Ex-Demo' },
+    },
+    'RRP': {
+      number: item.rrp_aud || 0,
+    },
+    'Shopify ID': {
+      rich_text: [{ text: { content: item.shopify_product_id || '' } }],
+    },
+    ...buildReconciledProperties(readLocalNotionFields(item)),
+  };
+}
+
+/**
+ * Compare reconciled values, treating empty strings as null and numbers by value
+ */
+export function notionValuesEqual(a: NotionFieldValue | undefined, b: NotionFieldValue | undefined): boolean {
+  const normalize = (value: NotionFieldValue | undefined) =>
+    value === undefined || value === '' ? null : typeof value === 'number' ? value : String(value).trim();
+  const left = normalize(a);
+  const right = normalize(b);
+  if (typeof left === 'number' || typeof right === 'number') {
+    return left !== null && right !== null && Number(left) === Number(right);
+  }
+  return left === right;
+}
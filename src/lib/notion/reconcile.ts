@@ -0,0 +1,385 @@
+/**
+ * Notion Global Inventory - two-way reconciliation
+ *
+ * Pulls every page in the Global Inventory database and three-way diffs
+ * the reconciled fields against the linked inventory item, using the
+ * item's notion_snapshot (values at the last push/pull) as the base:
+ * - only Notion changed: the Notion value is applied locally
+ * - only the app changed: a Notion-only sync run is queued
+ * - both changed (or no base yet): an open conflict is recorded for the
+ *   field and resolved later with keep_local / keep_notion
+ * Items with open conflicts are not pushed automatically, so a push
+ * cannot overwrite the Notion side of an unresolved conflict.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { enqueueClosedWonDealSync } from '@/lib/hubspot/deals';
+import { enqueueSyncRun } from '@/lib/sync/queue';
+import type {
+  InventoryItem,
+  NotionConflictResolution,
+  NotionFieldSnapshot,
+  NotionFieldValue,
+  NotionReconciledField,
+  NotionSyncConflict,
+} from '@/types';
+import { getNotionConfig, notionRequest, queryNotionDatabase, type NotionPage } from './client';
+import {
+  NOTION_FIELDS,
+  buildReconciledProperties,
+  notionValuesEqual,
+  readLocalNotionFields,
+  readNotionFields,
+} from './inventory';
+
+const ITEM_LOOKUP_BATCH = 200;
+
+const LINKED_ITEM_COLUMNS =
+  'id, listing_type, notion_page_id, notion_snapshot, sold_at, ' + NOTION_FIELDS.join(', ');
+
+type LinkedItem = Pick<
+  InventoryItem,
+  'id' | 'listing_type' | 'notion_page_id' | 'notion_snapshot' | 'sold_at' | NotionReconciledField
+>;
+
+export interface NotionFieldChange {
+  itemId: string;
+  field: NotionReconciledField;
+  from: NotionFieldValue;
+  to: NotionFieldValue;
+}
+
+export interface NotionPullResult {
+  pages: number;
+  /** Notion edits written to inventory_items */
+  applied: NotionFieldChange[];
+  /** Fields changed on both sides (new or refreshed open conflicts) */
+  conflicts: Array<{ itemId: string; field: NotionReconciledField; conflictId: string }>;
+  /** Items whose local edits were queued for a Notion push */
+  pushQueuedRunIds: string[];
+  /** Fields whose Notion value is missing or not a valid app value */
+  unmapped: Array<{ itemId: string; field: NotionReconciledField }>;
+  /** Pages with no linked inventory item (created in Notion, or item deleted) */
+  unlinkedPageIds: string[];
+  /** HubSpot Closed Won runs for items marked sold in Notion */
+  dealRunIds: string[];
+}
+
+/**
+ * Pull the Global Inventory database and reconcile it with inventory_items.
+ * With dryRun, reports what would change without writing anything.
+ */
+export async function pullNotionInventory(
+  supabase: SupabaseClient,
+  options: { dryRun?: boolean } = {}
+): Promise<NotionPullResult> {
+  const pages = (await queryNotionDatabase(getNotionConfig())).filter((page) => !page.archived);
+  const items = await fetchLinkedItems(supabase, pages.map((page) => page.id));
+  const openConflicts = await fetchOpenConflicts(supabase, [...items.values()].map((item) => item.id));
+
+  const result: NotionPullResult = {
+    pages: pages.length,
+    applied: [],
+    conflicts: [],
+    pushQueuedRunIds: [],
+    unmapped: [],
+    unlinkedPageIds: [],
+    dealRunIds: [],
+  };
+  const pushItems: LinkedItem[] = [];
+  const soldItemIds: string[] = [];
+
+  for (const page of pages) {
+    const item = items.get(page.id);
+    if (!item) {
+      result.unlinkedPageIds.push(page.id);
+      continue;
+    }
+
+    const local = readLocalNotionFields(item);
+    const { values: remote, unmapped } = readNotionFields(page);
+    const base = item.notion_snapshot || {};
+    const nextSnapshot: NotionFieldSnapshot = { ...base };
+    const updates: Partial<Record<NotionReconciledField, NotionFieldValue>> = {};
+    let localAhead = false;
+    let hasConflict = false;
+
+    for (const field of NOTION_FIELDS) {
+      const existing = openConflicts.get(conflictKey(item.id, field));
+
+      if (unmapped.includes(field)) {
+        result.unmapped.push({ itemId: item.id, field });
+        if (existing) hasConflict = true;
+        continue;
+      }
+
+      const hasBase = field in base;
+      if (notionValuesEqual(local[field], remote[field])) {
+        nextSnapshot[field] = local[field];
+      } else if (hasBase && notionValuesEqual(local[field], base[field])) {
+        updates[field] = remote[field]!;
+        nextSnapshot[field] = remote[field];
+        result.applied.push({ itemId: item.id, field, from: local[field], to: remote[field]! });
+      } else if (hasBase && notionValuesEqual(remote[field], base[field])) {
+        localAhead = true;
+      } else {
+        hasConflict = true;
+        const conflictId = options.dryRun
+          ? existing?.id ?? ''
+          : await saveConflict(supabase, existing, {
+              inventory_item_id: item.id,
+              notion_page_id: page.id,
+              field,
+              local_value: local[field],
+              notion_value: remote[field]!,
+              base_value: hasBase ? base[field]! : null,
+            });
+        result.conflicts.push({ itemId: item.id, field, conflictId });
+        continue;
+      }
+
+      // The two sides agree again (or one side won cleanly)
+      if (existing && !options.dryRun) {
+        await supersedeConflict(supabase, existing.id);
+      }
+    }
+
+    if (options.dryRun) continue;
+
+    if (updates.listing_status === 'sold') {
+      soldItemIds.push(item.id);
+    }
+    await applyPull(supabase, item, updates, nextSnapshot, page);
+
+    if (localAhead && !hasConflict) {
+      pushItems.push(item);
+    }
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  result.pushQueuedRunIds = await enqueueNotionPush(supabase, pushItems);
+  result.dealRunIds = await enqueueClosedWonDealSync(supabase, soldItemIds);
+
+  return result;
+}
+
+/**
+ * Resolve an open conflict. keep_notion writes the Notion value to the
+ * item; keep_local writes the item's current value to the Notion page.
+ */
+export async function resolveNotionConflict(
+  supabase: SupabaseClient,
+  conflictId: string,
+  resolution: NotionConflictResolution
+): Promise<{ conflict: NotionSyncConflict; value: NotionFieldValue; previous: NotionFieldValue }> {
+  const { data: conflict, error } = await supabase
+    .from('notion_sync_conflicts')
+    .select('*')
+    .eq('id', conflictId)
+    .maybeSingle<NotionSyncConflict>();
+
+  if (error) {
+    throw new Error(`Failed to load Notion conflict: ${error.message}`);
+  }
+  if (!conflict) {
+    throw new Error('Notion conflict not found');
+  }
+  if (conflict.status !== 'open') {
+    throw new Error('Notion conflict is already resolved');
+  }
+
+  const { data: item, error: itemError } = await supabase
+    .from('inventory_items')
+    .select(LINKED_ITEM_COLUMNS)
+    .eq('id', conflict.inventory_item_id)
+    .single<LinkedItem>();
+
+  if (itemError || !item) {
+    throw new Error('Inventory item not found');
+  }
+
+  const field = conflict.field;
+  const localValue = readLocalNotionFields(item)[field];
+  const value = resolution === 'keep_notion' ? conflict.notion_value : localValue;
+  const snapshot: NotionFieldSnapshot = { ...(item.notion_snapshot || {}), [field]: value };
+
+  if (resolution === 'keep_local') {
+    const { apiKey } = getNotionConfig();
+    await notionRequest(apiKey, `/pages/${conflict.notion_page_id}`, {
+      method: 'PATCH',
+      body: { properties: buildReconciledProperties({ [field]: value }) },
+    });
+  }
+
+  const itemUpdates: Record<string, unknown> = { notion_snapshot: snapshot };
+  if (resolution === 'keep_notion') {
+    itemUpdates[field] = value;
+    if (field === 'listing_status' && value === 'sold' && !item.sold_at) {
+      itemUpdates.sold_at = new Date().toISOString();
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('inventory_items')
+    .update(itemUpdates)
+    .eq('id', item.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update inventory item: ${updateError.message}`);
+  }
+
+  const { data: resolved, error: resolveError } = await supabase
+    .from('notion_sync_conflicts')
+    .update({ status: 'resolved', resolution, resolved_at: new Date().toISOString() })
+    .eq('id', conflict.id)
+    .select('*')
+    .single<NotionSyncConflict>();
+
+  if (resolveError || !resolved) {
+    throw new Error(`Failed to resolve Notion conflict: ${resolveError?.message || 'Unknown error'}`);
+  }
+
+  if (resolution === 'keep_notion' && field === 'listing_status' && value === 'sold') {
+    await enqueueClosedWonDealSync(supabase, [item.id]);
+  }
+
+  return {
+    conflict: resolved,
+    value,
+    previous: resolution === 'keep_notion' ? localValue : conflict.notion_value,
+  };
+}
+
+function conflictKey(itemId: string, field: NotionReconciledField): string {
+  return `${itemId}:${field}`;
+}
+
+async function fetchLinkedItems(
+  supabase: SupabaseClient,
+  pageIds: string[]
+): Promise<Map<string, LinkedItem>> {
+  const items = new Map<string, LinkedItem>();
+
+  for (let i = 0; i < pageIds.length; i += ITEM_LOOKUP_BATCH) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(LINKED_ITEM_COLUMNS)
+      .in('notion_page_id', pageIds.slice(i, i + ITEM_LOOKUP_BATCH))
+      .eq('is_archived', false)
+      .returns<LinkedItem[]>();
+
+    if (error) {
+      throw new Error(`Failed to load Notion-linked items: ${error.message}`);
+    }
+    (data || []).forEach((item) => items.set(item.notion_page_id!, item));
+  }
+
+  return items;
+}
+
+async function fetchOpenConflicts(
+  supabase: SupabaseClient,
+  itemIds: string[]
+): Promise<Map<string, NotionSyncConflict>> {
+  const conflicts = new Map<string, NotionSyncConflict>();
+
+  for (let i = 0; i < itemIds.length; i += ITEM_LOOKUP_BATCH) {
+    const { data, error } = await supabase
+      .from('notion_sync_conflicts')
+      .select('*')
+      .eq('status', 'open')
+      .in('inventory_item_id', itemIds.slice(i, i + ITEM_LOOKUP_BATCH))
+      .returns<NotionSyncConflict[]>();
+
+    if (error) {
+      throw new Error(`Failed to load Notion conflicts: ${error.message}`);
+    }
+    (data || []).forEach((conflict) =>
+      conflicts.set(conflictKey(conflict.inventory_item_id, conflict.field), conflict)
+    );
+  }
+
+  return conflicts;
+}
+
+async function saveConflict(
+  supabase: SupabaseClient,
+  existing: NotionSyncConflict | undefined,
+  values: Pick<
+    NotionSyncConflict,
+    'inventory_item_id' | 'notion_page_id' | 'field' | 'local_value' | 'notion_value' | 'base_value'
+  >
+): Promise<string> {
+  const query = existing
+    ? supabase.from('notion_sync_conflicts').update(values).eq('id', existing.id)
+    : supabase.from('notion_sync_conflicts').insert(values);
+
+  const { data, error } = await query.select('id').single<{ id: string }>();
+  if (error || !data) {
+    throw new Error(`Failed to record Notion conflict: ${error?.message || 'Unknown error'}`);
+  }
+  return data.id;
+}
+
+async function supersedeConflict(supabase: SupabaseClient, conflictId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notion_sync_conflicts')
+    .update({ status: 'superseded', resolved_at: new Date().toISOString() })
+    .eq('id', conflictId);
+
+  if (error) {
+    throw new Error(`Failed to close Notion conflict: ${error.message}`);
+  }
+}
+
+async function applyPull(
+  supabase: SupabaseClient,
+  item: LinkedItem,
+  updates: Partial<Record<NotionReconciledField, NotionFieldValue>>,
+  snapshot: NotionFieldSnapshot,
+  page: NotionPage
+): Promise<void> {
+  const changed = Object.keys(updates).length > 0;
+  const snapshotChanged = JSON.stringify(snapshot) !== JSON.stringify(item.notion_snapshot || {});
+  if (!changed && !snapshotChanged) return;
+
+  const { error } = await supabase
+    .from('inventory_items')
+    .update({
+      ...updates,
+      ...(updates.listing_status === 'sold' && !item.sold_at ? { sold_at: page.last_edited_time } : {}),
+      notion_snapshot: snapshot,
+    })
+    .eq('id', item.id);
+
+  if (error) {
+    throw new Error(`Failed to apply Notion changes to ${item.id}: ${error.message}`);
+  }
+}
+
+async function enqueueNotionPush(supabase: SupabaseClient, items: LinkedItem[]): Promise<string[]> {
+  if (items.length === 0) return [];
+
+  const { data: activeJobs, error } = await supabase
+    .from('sync_jobs')
+    .select('inventory_item_id')
+    .eq('platform', 'notion')
+    .in('status', ['queued', 'leased'])
+    .in('inventory_item_id', items.map((item) => item.id));
+
+  if (error) {
+    throw new Error(`Failed to check queued Notion jobs: ${error.message}`);
+  }
+
+  const queued = new Set((activeJobs || []).map((job) => job.inventory_item_id as string));
+  const runIds: string[] = [];
+  for (const item of items) {
+    if (queued.has(item.id)) continue;
+    const run = await enqueueSyncRun(supabase, item, 'system', { targets: ['notion'] });
+    runIds.push(run.id);
+  }
+  return runIds;
+}
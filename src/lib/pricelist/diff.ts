@@ -0,0 +1,170 @@
+/**
+ * Supplier Pricelist Diff
+ *
+ * Compares an updated supplier pricelist with new-retail inventory instead
+ * of importing it: lines matched to an item (SKU, then brand + model via
+ * the product matcher) report cost/RRP changes, unmatched lines are new
+ * SKUs, and in-range items missing from the list are discontinued. The
+ * selected changes are applied in one transaction, logged to price_history
+ * as import and linked to the supplier when one is given.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { matchAgainstItems } from '@/lib/matching';
+import { suggestSalePrice } from '@/lib/suppliers/profile';
+import type { InventoryItem, Supplier } from '@/types';
+import type { MatchSuggestion } from '@/types/shopify-products';
+import type { PricelistItem } from './parser';
+
+export type PricelistDiffItem = Pick<
+  InventoryItem,
+  'id' | 'brand' | 'model' | 'sku' | 'cost_price' | 'rrp_aud' | 'sale_price' | 'listing_status'
+>;
+
+export interface PricelistPriceChange {
+  line: PricelistItem;
+  item: PricelistDiffItem;
+  matchType: MatchSuggestion['matchType'];
+  confidence: number;
+  /** Null when the price is unchanged (or the list has no RRP) */
+  cost: { old: number | null; new: number } | null;
+  rrp: { old: number | null; new: number } | null;
+}
+
+export interface PricelistDiff {
+  changes: PricelistPriceChange[];
+  /** Lines with no matching inventory item */
+  newItems: PricelistItem[];
+  /** Items of the pricelist's brands with a SKU the list no longer carries */
+  discontinued: PricelistDiffItem[];
+  unchangedCount: number;
+}
+
+export interface PricelistDiffSelection {
+  priceChanges: Array<{ itemId: string; cost_price?: number; rrp_aud?: number }>;
+  newItems: PricelistItem[];
+  /** Discontinued items to archive */
+  discontinuedIds: string[];
+}
+
+export interface PricelistApplyResult {
+  updated: number;
+  created: number;
+  archived: number;
+}
+
+/** Fuzzy matches below this are treated as new SKUs rather than price changes */
+export const PRICELIST_MATCH_MIN_CONFIDENCE = 80;
+
+const DIFF_ITEM_COLUMNS = 'id, brand, model, sku, cost_price, rrp_aud, sale_price, listing_status';
+
+const PAGE_SIZE = 1000;
+
+const normalizeBrand = (brand: string) => brand.trim().toLowerCase();
+
+const toCents = (value: number | null | undefined) => (value == null ? null : Math.round(value * 100));
+
+/**
+ * Diff pricelist lines against inventory items (pure; see diffPricelist)
+ */
+export function buildPricelistDiff(lines: PricelistItem[], items: PricelistDiffItem[]): PricelistDiff {
+  const diff: PricelistDiff = { changes: [], newItems: [], discontinued: [], unchangedCount: 0 };
+  const matchedIds = new Set<string>();
+
+  for (const line of lines) {
+    const candidates = items.filter((item) => !matchedIds.has(item.id));
+    const match = matchAgainstItems(line, candidates, PRICELIST_MATCH_MIN_CONFIDENCE);
+    if (!match) {
+      diff.newItems.push(line);
+      continue;
+    }
+    matchedIds.add(match.item.id);
+
+    const cost = toCents(line.cost_price) !== toCents(match.item.cost_price)
+      ? { old: match.item.cost_price, new: line.cost_price }
+      : null;
+    const rrp = line.rrp_aud !== undefined && toCents(line.rrp_aud) !== toCents(match.item.rrp_aud)
+      ? { old: match.item.rrp_aud, new: line.rrp_aud }
+      : null;
+
+    if (cost || rrp) {
+      diff.changes.push({ line, item: match.item, matchType: match.matchType, confidence: match.confidence, cost, rrp });
+    } else {
+      diff.unchangedCount += 1;
+    }
+  }
+
+  const brands = new Set(lines.map((line) => normalizeBrand(line.brand || '')).filter(Boolean));
+  diff.discontinued = items.filter((item) =>
+    !matchedIds.has(item.id) &&
+    !!item.sku &&
+    item.listing_status !== 'sold' &&
+    brands.has(normalizeBrand(item.brand))
+  );
+
+  return diff;
+}
+
+/**
+ * Diff pricelist lines against all active new-retail inventory
+ */
+export async function diffPricelist(supabase: SupabaseClient, lines: PricelistItem[]): Promise<PricelistDiff> {
+  const items: PricelistDiffItem[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('inventory_items')
+      .select(DIFF_ITEM_COLUMNS)
+      .eq('listing_type', 'new')
+      .eq('is_archived', false)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load inventory: ${error.message}`);
+    }
+    items.push(...((data || []) as PricelistDiffItem[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return buildPricelistDiff(lines, items);
+}
+
+/**
+ * Apply the selected price changes, new items and discontinued archives as
+ * one batch (see apply_pricelist_update in 031_pricelist_diff.sql)
+ */
+export async function applyPricelistDiff(
+  supabase: SupabaseClient,
+  selection: PricelistDiffSelection,
+  options: { changeReason?: string; supplier?: Supplier | null } = {}
+): Promise<PricelistApplyResult> {
+  const supplier = options.supplier ?? null;
+
+  const prices: Record<string, { cost_price?: number; rrp_aud?: number }> = {};
+  for (const change of selection.priceChanges) {
+    prices[change.itemId] = { cost_price: change.cost_price, rrp_aud: change.rrp_aud };
+  }
+
+  const newItems = selection.newItems.map((line) => ({
+    brand: line.brand || line.product_name.split(' ')[0] || 'Unknown',
+    model: line.model || line.product_name,
+    sku: line.sku || null,
+    cost_price: line.cost_price,
+    rrp_aud: line.rrp_aud ?? null,
+    sale_price: suggestSalePrice(line, supplier),
+  }));
+
+  const { data, error } = await supabase.rpc('apply_pricelist_update', {
+    p_prices: prices,
+    p_new_items: newItems,
+    p_archive_ids: selection.discontinuedIds,
+    p_change_reason: options.changeReason ?? 'Supplier pricelist update',
+    p_supplier_id: supplier?.id ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to apply pricelist changes: ${error.message}`);
+  }
+  return data as PricelistApplyResult;
+}
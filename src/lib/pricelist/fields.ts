@@ -0,0 +1,21 @@
+/**
+ * Pricelist fields a spreadsheet column can be mapped to. Kept free of
+ * server imports so the column-mapping UI can use it.
+ */
+
+import type { PricelistItem } from './parser';
+
+export type PricelistField = keyof PricelistItem;
+
+/** Spreadsheet header for each pricelist field */
+export type PricelistColumnMapping = Partial<Record<PricelistField, string>>;
+
+export const PRICELIST_FIELDS: Record<PricelistField, { label: string; required: boolean }> = {
+  sku: { label: 'SKU / Product Code', required: false },
+  product_name: { label: 'Product Name', required: true },
+  cost_price: { label: 'Cost (Dealer) Price', required: true },
+  rrp_aud: { label: 'RRP', required: false },
+  brand: { label: 'Brand', required: false },
+  model: { label: 'Model', required: false },
+  category: { label: 'Category', required: false },
+};
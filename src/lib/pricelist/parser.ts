@@ -85,11 +85,13 @@ Respond with ONLY valid JSON in this exact format:
 }`;
 
 /**
- * Parse a single page image using Claude Vision
+ * Parse a single page image using Claude Vision. Supplier hints (see
+ * buildSupplierPromptHints) are appended to the extraction prompt.
  */
 export async function parsePageWithVision(
   imageBase64: string,
-  pageNumber: number
+  pageNumber: number,
+  supplierHints?: string
 ): Promise<ParsedPricelistPage> {
   const anthropic = getAnthropic();
 
@@ -123,7 +125,9 @@ export async function parsePageWithVision(
             },
             {
               type: 'text',
-              text: PRICELIST_EXTRACTION_PROMPT,
+              text: supplierHints
+                ? `${PRICELIST_EXTRACTION_PROMPT}\n\nSupplier notes:\n${supplierHints}`
+                : PRICELIST_EXTRACTION_PROMPT,
             },
           ],
         },
@@ -149,8 +153,12 @@ export async function parsePageWithVision(
     // Validate and clean items
     const items: PricelistItem[] = (parsed.items || [])
       .filter((item: Partial<PricelistItem>) => {
-        // Must have at least product_name and cost_price
-        return item.product_name && typeof item.cost_price === 'number' && item.cost_price > 0;
+        // Must have a product_name and a price (RRP-only rows may get a
+        // cost from the supplier's dealer discount)
+        return item.product_name && (
+          (typeof item.cost_price === 'number' && item.cost_price > 0) ||
+          (typeof item.rrp_aud === 'number' && item.rrp_aud > 0)
+        );
       })
       .map((item: Partial<PricelistItem>) => ({
         sku: item.sku || '',
@@ -0,0 +1,224 @@
+/**
+ * Spreadsheet Pricelist Ingestion
+ *
+ * Reads .xlsx and .csv supplier pricelists without the vision model: the
+ * first non-empty row is the header row, and a column mapping (remembered
+ * on the supplier record) turns each data row into the same PricelistItem
+ * shape the PDF parser produces.
+ */
+
+import ExcelJS from 'exceljs';
+import { parsePrice } from '@/lib/utils/pricing';
+import { ValidationError } from '@/lib/validation/schemas';
+import { applySupplierProfile, type SupplierProfile } from '@/lib/suppliers/profile';
+import { enrichPricelistItem, validatePricelistItem, type PricelistItem } from './parser';
+import { PRICELIST_FIELDS, type PricelistColumnMapping, type PricelistField } from './fields';
+
+export type { PricelistColumnMapping, PricelistField } from './fields';
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+export interface SpreadsheetTable {
+  sheetName: string | null;
+  headers: string[];
+  rows: string[][];
+}
+
+// Header keywords per field, most specific first. Fields are matched in
+// this order so e.g. "Product Code" goes to sku before product_name sees it.
+const HEADER_HINTS: Record<PricelistField, string[]> = {
+  sku: ['sku', 'product code', 'part number', 'part no', 'item code', 'code'],
+  brand: ['brand', 'manufacturer', 'make'],
+  model: ['model'],
+  rrp_aud: ['rrp', 'retail', 'msrp', 'recommended'],
+  cost_price: ['dealer', 'cost', 'trade', 'buy', 'wholesale', 'net'],
+  product_name: ['product name', 'description', 'product', 'item name', 'name'],
+  category: ['category', 'group', 'type'],
+};
+
+const MAX_ROWS = 5000;
+
+export function getSpreadsheetFormat(fileName: string, mimeType = ''): SpreadsheetFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xlsx') || mimeType.includes('spreadsheetml')) return 'xlsx';
+  if (name.endsWith('.csv') || mimeType === 'text/csv') return 'csv';
+  return null;
+}
+
+/**
+ * Split CSV text into rows of cells, handling quoted fields and newlines
+ * inside quotes
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function readXlsxRows(buffer: Buffer): Promise<{ sheetName: string | null; rows: string[][] }> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+  // First worksheet with data (cover sheets are common)
+  const worksheet = workbook.worksheets.find((sheet) => sheet.actualRowCount > 1) || workbook.worksheets[0];
+  if (!worksheet) return { sheetName: null, rows: [] };
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text ?? '');
+    }
+    rows.push(cells);
+  });
+  return { sheetName: worksheet.name, rows };
+}
+
+/**
+ * Read a spreadsheet into a header row and data rows (trimmed, empty rows
+ * dropped, capped at 5000 rows)
+ */
+export async function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): Promise<SpreadsheetTable> {
+  const { sheetName, rows } = format === 'xlsx'
+    ? await readXlsxRows(buffer)
+    : { sheetName: null, rows: parseCsvRows(buffer.toString('utf8').replace(/^\uFEFF/, '')) };
+
+  const nonEmpty = rows
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some(Boolean));
+
+  if (nonEmpty.length < 2) {
+    throw new Error('Spreadsheet must have a header row and at least one data row');
+  }
+
+  const [headerRow, ...dataRows] = nonEmpty;
+  const headers = headerRow.map((header, index) => header || `Column ${index + 1}`);
+
+  return { sheetName, headers, rows: dataRows.slice(0, MAX_ROWS) };
+}
+
+/**
+ * Guess a mapping from header names; each header is used at most once
+ */
+export function suggestColumnMapping(headers: string[]): PricelistColumnMapping {
+  const mapping: PricelistColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map((header) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim());
+
+  for (const field of Object.keys(HEADER_HINTS) as PricelistField[]) {
+    for (const hint of HEADER_HINTS[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(headers[i]) && header.includes(hint));
+      if (index !== -1) {
+        mapping[field] = headers[index];
+        used.add(headers[index]);
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Why the mapping can't be used on this spreadsheet (a required field left
+ * unmapped, or a column that isn't in the file), or null
+ */
+export function getColumnMappingError(table: SpreadsheetTable, mapping: PricelistColumnMapping): string | null {
+  const unmapped = (Object.keys(PRICELIST_FIELDS) as PricelistField[])
+    .filter((field) => PRICELIST_FIELDS[field].required && !mapping[field]);
+  if (unmapped.length > 0) {
+    return `Map a column for: ${unmapped.map((field) => PRICELIST_FIELDS[field].label).join(', ')}`;
+  }
+
+  const missingColumns = Object.values(mapping).filter((header) => header && !table.headers.includes(header));
+  if (missingColumns.length > 0) {
+    return `Columns not found in the spreadsheet: ${missingColumns.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Map data rows to pricelist items, applying the supplier's profile. Rows
+ * that fail validation are skipped with a warning, as in the PDF path.
+ */
+export function mapSpreadsheetRows(
+  table: SpreadsheetTable,
+  mapping: PricelistColumnMapping,
+  supplier: SupplierProfile | null = null
+): { items: PricelistItem[]; warnings: string[] } {
+  const mappingError = getColumnMappingError(table, mapping);
+  if (mappingError) {
+    throw new ValidationError(mappingError, []);
+  }
+
+  const columnIndex = (field: PricelistField) => (mapping[field] ? table.headers.indexOf(mapping[field]) : -1);
+  const indexes = Object.fromEntries(
+    (Object.keys(PRICELIST_FIELDS) as PricelistField[]).map((field) => [field, columnIndex(field)])
+  ) as Record<PricelistField, number>;
+
+  const items: PricelistItem[] = [];
+  const warnings: string[] = [];
+
+  table.rows.forEach((row, index) => {
+    const value = (field: PricelistField) => (indexes[field] >= 0 ? row[indexes[field]] || '' : '');
+    const productName = value('product_name');
+    const costPrice = parsePrice(value('cost_price'));
+
+    const rrp = parsePrice(value('rrp_aud'));
+
+    // Section headings and blank spacer rows have no price and no SKU
+    if (costPrice === null && rrp === null && !value('sku')) return;
+
+    const item = applySupplierProfile(enrichPricelistItem({
+      sku: value('sku'),
+      product_name: productName,
+      cost_price: costPrice ?? 0,
+      rrp_aud: rrp ?? undefined,
+      brand: value('brand') || undefined,
+      model: value('model') || undefined,
+      category: value('category') || undefined,
+    }), supplier);
+
+    const validation = validatePricelistItem(item);
+    if (validation.valid) {
+      items.push(item);
+    } else {
+      // +2: header row and 1-based numbering
+      warnings.push(`Row ${index + 2}: Skipped "${productName || 'unknown'}" - ${validation.errors.join(', ')}`);
+    }
+  });
+
+  return { items, warnings };
+}
@@ -0,0 +1,77 @@
+/**
+ * CHT Operating System - Bulk Price Updates
+ *
+ * Shared by the bulk update_prices/set_prices actions and repricing-rule
+ * approvals. Prices are written in one transaction by the
+ * set_item_sale_prices function, which labels the price_history rows with
+ * the change type (bulk_update, auto_discount) instead of "manual".
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PriceChangeType } from '@/types';
+
+export interface BulkPriceUpdate {
+  itemIds: string[];
+  /** Sale price per item ID, rounded to whole dollars (takes precedence) */
+  prices?: Record<string, number>;
+  /** Discount off each item's RRP; items without an RRP are skipped */
+  discountPercent?: number;
+  /** One price for every item */
+  fixedPrice?: number;
+}
+
+export interface BulkPriceUpdateResult {
+  /** New sale price per updated item */
+  updated: Record<string, number>;
+  /** Items with no price to set (no RRP, missing from prices, not found) */
+  skipped: string[];
+}
+
+export async function applyBulkPriceUpdate(
+  supabase: SupabaseClient,
+  update: BulkPriceUpdate,
+  options: { changeType?: PriceChangeType; changeReason?: string } = {}
+): Promise<BulkPriceUpdateResult> {
+  const { itemIds, prices, discountPercent, fixedPrice } = update;
+  const targets: Record<string, number> = {};
+
+  if (prices) {
+    for (const id of itemIds) {
+      if (prices[id] !== undefined) targets[id] = Math.round(prices[id]);
+    }
+  } else if (discountPercent !== undefined) {
+    const { data: items, error } = await supabase
+      .from('inventory_items')
+      .select('id, rrp_aud')
+      .in('id', itemIds);
+
+    if (error) {
+      throw new Error(`Failed to fetch items: ${error.message}`);
+    }
+    for (const item of items || []) {
+      if (item.rrp_aud) targets[item.id] = Math.round(item.rrp_aud * (1 - discountPercent / 100));
+    }
+  } else if (fixedPrice !== undefined) {
+    for (const id of itemIds) targets[id] = fixedPrice;
+  }
+
+  if (Object.keys(targets).length === 0) {
+    return { updated: {}, skipped: itemIds };
+  }
+
+  const { data, error } = await supabase.rpc('set_item_sale_prices', {
+    p_prices: targets,
+    p_change_type: options.changeType ?? 'bulk_update',
+    p_change_reason: options.changeReason ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update prices: ${error.message}`);
+  }
+
+  const updatedIds = new Set((data || []) as string[]);
+  const updated: Record<string, number> = {};
+  for (const id of updatedIds) updated[id] = targets[id];
+
+  return { updated, skipped: itemIds.filter((id) => !updatedIds.has(id)) };
+}
@@ -0,0 +1,197 @@
+/**
+ * CHT Operating System - Competitor Price Matrix
+ *
+ * The latest price-watch observation per retailer is the item's
+ * competitor matrix. In-stock prices (unknown stock counts as in stock)
+ * place our sale_price against the market min/median/max, and items priced
+ * above the median or well below the cheapest competitor get a repricing
+ * suggestion, never below the margin floor.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import type {
+  CompetitorPricePoint,
+  InventoryItem,
+  PricePosition,
+  RepricingSuggestion,
+  RrpObservation,
+} from '@/types';
+
+type PricedItem = Pick<InventoryItem, 'id' | 'brand' | 'model' | 'sku' | 'sale_price' | 'cost_price'>;
+
+const PRICED_ITEM_COLUMNS = 'id, brand, model, sku, sale_price, cost_price';
+
+/** Observations older than this drop out of the matrix */
+const MATRIX_WINDOW_DAYS = 30;
+
+/** Items checked concurrently when building suggestions */
+const SUGGESTION_CONCURRENCY = 5;
+
+const formatAud = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+/**
+ * Latest observation per retailer, cheapest first
+ */
+export function buildCompetitorMatrix(observations: RrpObservation[]): CompetitorPricePoint[] {
+  const latest = new Map<string, RrpObservation>();
+  for (const observation of observations) {
+    const key = observation.retailer.toLowerCase();
+    const current = latest.get(key);
+    if (!current || observation.observed_at > current.observed_at) {
+      latest.set(key, observation);
+    }
+  }
+
+  return [...latest.values()]
+    .map((observation) => ({
+      retailer: observation.retailer,
+      price: observation.price,
+      in_stock: observation.in_stock,
+      url: observation.url,
+      source: observation.source,
+      last_checked_at: observation.observed_at,
+    }))
+    .sort((a, b) => a.price - b.price);
+}
+
+export async function getCompetitorMatrix(
+  supabase: SupabaseClient,
+  itemId: string,
+  options: { days?: number } = {}
+): Promise<CompetitorPricePoint[]> {
+  const since = new Date(Date.now() - (options.days ?? MATRIX_WINDOW_DAYS) * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('rrp_observations')
+    .select('*')
+    .eq('inventory_item_id', itemId)
+    .gte('observed_at', since)
+    .order('observed_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load competitor prices: ${error.message}`);
+  }
+  return buildCompetitorMatrix((data || []) as RrpObservation[]);
+}
+
+/**
+ * Where our sale price sits in the market. Null without a sale price or
+ * any in-stock competitor.
+ */
+export function computePricePosition(
+  salePrice: number | null,
+  matrix: CompetitorPricePoint[]
+): PricePosition | null {
+  const prices = matrix
+    .filter((point) => point.in_stock !== false)
+    .map((point) => point.price)
+    .sort((a, b) => a - b);
+
+  if (!salePrice || salePrice <= 0 || prices.length === 0) return null;
+
+  const min = prices[0];
+  const max = prices[prices.length - 1];
+  const middle = Math.floor(prices.length / 2);
+  const median = prices.length % 2 === 0 ? (prices[middle - 1] + prices[middle]) / 2 : prices[middle];
+
+  let band: PricePosition['band'];
+  if (salePrice < min) band = 'below_market';
+  else if (salePrice <= median) band = 'competitive';
+  else if (salePrice <= max) band = 'above_median';
+  else band = 'above_market';
+
+  return { band, salePrice, min, median, max, competitorCount: prices.length };
+}
+
+/**
+ * Lowest sale price that keeps the margin floor, in whole dollars
+ */
+export function getMarginFloor(costPrice: number | null): number | null {
+  return costPrice && costPrice > 0 ? Math.ceil(costPrice * config.pricing.minMarginMultiplier) : null;
+}
+
+/**
+ * Suggest a whole-dollar price: down to the market median when above it,
+ * up to just under the cheapest competitor when below the whole market.
+ * Null when the item is competitive or the margin floor leaves no move.
+ */
+export function suggestRepricing(item: PricedItem, position: PricePosition | null): RepricingSuggestion | null {
+  if (!position || position.band === 'competitive') return null;
+
+  const marginFloor = getMarginFloor(item.cost_price);
+  let suggestedPrice: number;
+  let reason: string;
+
+  if (position.band === 'below_market') {
+    suggestedPrice = Math.round(position.min) - 1;
+    reason = `${formatAud(position.min - position.salePrice)} below the cheapest of ${position.competitorCount} competitor${position.competitorCount === 1 ? '' : 's'} (${formatAud(position.min)})`;
+  } else {
+    suggestedPrice = Math.round(position.median);
+    reason = `Above the market median of ${formatAud(position.median)} across ${position.competitorCount} competitor${position.competitorCount === 1 ? '' : 's'}`;
+  }
+
+  if (marginFloor !== null && suggestedPrice < marginFloor) {
+    suggestedPrice = marginFloor;
+    reason += `; held at the ${formatAud(marginFloor)} margin floor`;
+  }
+
+  // Only suggest moves in the direction the market points
+  const isMove = position.band === 'below_market'
+    ? suggestedPrice > position.salePrice
+    : suggestedPrice < position.salePrice;
+  if (!isMove) return null;
+
+  return {
+    itemId: item.id,
+    brand: item.brand,
+    model: item.model,
+    sku: item.sku,
+    currentPrice: position.salePrice,
+    suggestedPrice,
+    marginFloor,
+    position,
+    reason,
+  };
+}
+
+/**
+ * Repricing suggestions for active, price-watched items (or the given
+ * items), largest change first
+ */
+export async function getRepricingSuggestions(
+  supabase: SupabaseClient,
+  options: { itemIds?: string[]; limit?: number } = {}
+): Promise<RepricingSuggestion[]> {
+  let query = supabase
+    .from('inventory_items')
+    .select(PRICED_ITEM_COLUMNS)
+    .eq('is_archived', false)
+    .or('listing_status.is.null,listing_status.neq.sold')
+    .gt('sale_price', 0)
+    .not('rrp_checked_at', 'is', null);
+
+  query = options.itemIds?.length
+    ? query.in('id', options.itemIds)
+    : query.order('rrp_checked_at', { ascending: false }).limit(options.limit ?? 200);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load items for repricing: ${error.message}`);
+  }
+
+  const items = (data || []) as PricedItem[];
+  const suggestions: RepricingSuggestion[] = [];
+
+  for (let i = 0; i < items.length; i += SUGGESTION_CONCURRENCY) {
+    const batch = items.slice(i, i + SUGGESTION_CONCURRENCY);
+    const matrices = await Promise.all(batch.map((item) => getCompetitorMatrix(supabase, item.id)));
+    batch.forEach((item, index) => {
+      const suggestion = suggestRepricing(item, computePricePosition(item.sale_price, matrices[index]));
+      if (suggestion) suggestions.push(suggestion);
+    });
+  }
+
+  return suggestions.sort(
+    (a, b) => Math.abs(b.suggestedPrice - b.currentPrice) - Math.abs(a.suggestedPrice - a.currentPrice)
+  );
+}
@@ -0,0 +1,449 @@
+/**
+ * CHT Operating System - Repricing Rules
+ *
+ * A rule picks for-sale items by listing type and days in stock, and
+ * either drops their price by a percentage or matches the competitor
+ * median, never below the margin floor (cost × MIN_MARGIN_MULTIPLIER).
+ * Rules don't change prices themselves: a preview is a dry run, and
+ * queuing writes proposals that wait for approval. Approved proposals are
+ * applied through the bulk price update as auto_discount.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { logBulkOperation } from '@/lib/audit/logger';
+import { applyBulkPriceUpdate } from './bulk-prices';
+import { computePricePosition, getCompetitorMatrix, getMarginFloor } from './competitors';
+import type {
+  InventoryItem,
+  PricePosition,
+  RepricingCandidate,
+  RepricingProposal,
+  RepricingProposalStatus,
+  RepricingProposalWithDetails,
+  RepricingRule,
+  RepricingRulePreview,
+  RepricingSkipReason,
+} from '@/types';
+
+type RuleItem = Pick<
+  InventoryItem,
+  'id' | 'brand' | 'model' | 'sku' | 'listing_type' | 'sale_price' | 'cost_price' | 'created_at' | 'demo_start_date'
+>;
+
+const RULE_ITEM_COLUMNS = 'id, brand, model, sku, listing_type, sale_price, cost_price, created_at, demo_start_date';
+const PROPOSAL_DETAIL_COLUMNS = '*, rule:repricing_rules(id, name), item:inventory_items(id, brand, model, sku, sale_price)';
+
+/** Competitor lookups run concurrently for median rules */
+const COMPETITOR_CONCURRENCY = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAud = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+
+export interface RepricingQueueResult extends RepricingRulePreview {
+  queued: number;
+  superseded: number;
+}
+
+export interface RepricingDecisionResult {
+  applied: string[];
+  rejected: string[];
+  /** Proposals that couldn't be applied (or were applied but not recorded), with why */
+  failed: Array<{ id: string; error: string }>;
+}
+
+export async function listRepricingRules(supabase: SupabaseClient): Promise<RepricingRule[]> {
+  const { data, error } = await supabase
+    .from('repricing_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load repricing rules: ${error.message}`);
+  }
+  return (data || []) as RepricingRule[];
+}
+
+export async function getRepricingRule(supabase: SupabaseClient, id: string): Promise<RepricingRule | null> {
+  const { data, error } = await supabase
+    .from('repricing_rules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load repricing rule: ${error.message}`);
+  }
+  return data as RepricingRule | null;
+}
+
+/**
+ * Days in stock: ex-demo stock counts from when the demo started
+ */
+function getAgeDays(item: RuleItem, now: number): number {
+  const since = item.listing_type === 'ex_demo' && item.demo_start_date ? item.demo_start_date : item.created_at;
+  return Math.floor((now - new Date(since).getTime()) / DAY_MS);
+}
+
+interface EligibleRuleItem {
+  item: RuleItem;
+  ageDays: number;
+  marginFloor: number;
+}
+
+/**
+ * The items old enough for the rule, split into those it may reprice and
+ * counts of those it skips (repriced within the cooldown, or no cost price
+ * so no margin floor)
+ */
+export function selectRepricingItems(
+  rule: Pick<RepricingRule, 'min_age_days'>,
+  items: RuleItem[],
+  now: number,
+  cooledDown: Set<string>
+): { evaluated: number; eligible: EligibleRuleItem[]; skipped: RepricingRulePreview['skipped'] } {
+  const aged = items
+    .map((item) => ({ item, ageDays: getAgeDays(item, now) }))
+    .filter(({ ageDays }) => ageDays >= rule.min_age_days);
+
+  const skipped: RepricingRulePreview['skipped'] = {};
+  const eligible: EligibleRuleItem[] = [];
+  for (const { item, ageDays } of aged) {
+    const marginFloor = getMarginFloor(item.cost_price);
+    if (cooledDown.has(item.id)) skipped.cooldown = (skipped.cooldown || 0) + 1;
+    else if (marginFloor === null) skipped.no_cost_price = (skipped.no_cost_price || 0) + 1;
+    else eligible.push({ item, ageDays, marginFloor });
+  }
+
+  return { evaluated: aged.length, eligible, skipped };
+}
+
+/**
+ * What the rule proposes for an eligible item, never below its margin
+ * floor, or why it proposes nothing. position is the item's competitor
+ * price position, used by median rules.
+ */
+export function proposeRepricing(
+  rule: Pick<RepricingRule, 'action' | 'discount_percent'>,
+  { item, ageDays, marginFloor }: EligibleRuleItem,
+  position: PricePosition | null
+): RepricingCandidate | RepricingSkipReason {
+  let proposedPrice: number;
+  let reason: string;
+
+  if (rule.action === 'percent_discount') {
+    const percent = rule.discount_percent ?? 0;
+    proposedPrice = Math.round(item.sale_price * (1 - percent / 100));
+    reason = `${percent}% off after ${ageDays} days in stock`;
+  } else {
+    if (!position) return 'no_competitor_prices';
+    proposedPrice = Math.round(position.median);
+    if (proposedPrice >= item.sale_price) return 'at_or_below_median';
+    reason = `Match competitor median of ${formatAud(position.median)} (${position.competitorCount} retailer${position.competitorCount === 1 ? '' : 's'}) after ${ageDays} days in stock`;
+  }
+
+  if (proposedPrice < marginFloor) {
+    proposedPrice = marginFloor;
+    reason += `; held at the ${formatAud(marginFloor)} margin floor`;
+  }
+  if (proposedPrice >= item.sale_price) return 'at_margin_floor';
+
+  return {
+    itemId: item.id,
+    brand: item.brand,
+    model: item.model,
+    sku: item.sku,
+    listingType: item.listing_type,
+    ageDays,
+    currentPrice: item.sale_price,
+    proposedPrice,
+    marginFloor,
+    reason,
+  };
+}
+
+/**
+ * Dry run: the price changes the rule would propose now
+ */
+export async function previewRepricingRule(
+  supabase: SupabaseClient,
+  rule: RepricingRule
+): Promise<RepricingRulePreview> {
+  const now = Date.now();
+
+  // Only stock that's for sale; on_demo and pending_enrichment aren't listed yet
+  let query = supabase
+    .from('inventory_items')
+    .select(RULE_ITEM_COLUMNS)
+    .eq('is_archived', false)
+    .or('listing_status.is.null,listing_status.eq.ready_to_sell')
+    .gt('sale_price', 0)
+    .order('created_at', { ascending: true })
+    .limit(config.repricing.maxItemsPerRule);
+
+  if (rule.listing_type) query = query.eq('listing_type', rule.listing_type);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load items for repricing rule: ${error.message}`);
+  }
+
+  const cooledDown = await getCooldownItemIds(supabase, rule, now);
+  const { evaluated, eligible, skipped } = selectRepricingItems(rule, (data || []) as RuleItem[], now, cooledDown);
+  const candidates: RepricingCandidate[] = [];
+
+  for (let i = 0; i < eligible.length; i += COMPETITOR_CONCURRENCY) {
+    const batch = eligible.slice(i, i + COMPETITOR_CONCURRENCY);
+    const positions = rule.action === 'match_competitor_median'
+      ? await Promise.all(
+          batch.map(async ({ item }) =>
+            computePricePosition(item.sale_price, await getCompetitorMatrix(supabase, item.id))
+          )
+        )
+      : [];
+
+    batch.forEach((entry, index) => {
+      const result = proposeRepricing(rule, entry, positions[index] ?? null);
+      if (typeof result === 'string') skipped[result] = (skipped[result] || 0) + 1;
+      else candidates.push(result);
+    });
+  }
+
+  return { ruleId: rule.id, evaluated, candidates, skipped };
+}
+
+/**
+ * Items this rule repriced within its cooldown
+ */
+async function getCooldownItemIds(supabase: SupabaseClient, rule: RepricingRule, now: number): Promise<Set<string>> {
+  if (rule.cooldown_days <= 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('repricing_proposals')
+    .select('inventory_item_id')
+    .eq('rule_id', rule.id)
+    .eq('status', 'applied')
+    .gte('applied_at', new Date(now - rule.cooldown_days * DAY_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load recent repricing: ${error.message}`);
+  }
+  return new Set((data || []).map((row) => row.inventory_item_id as string));
+}
+
+/**
+ * Replace the rule's pending proposals with what it proposes now
+ */
+export async function queueRepricingRule(
+  supabase: SupabaseClient,
+  rule: RepricingRule
+): Promise<RepricingQueueResult> {
+  const preview = await previewRepricingRule(supabase, rule);
+
+  const { data, error } = await supabase.rpc('queue_repricing_proposals', {
+    p_rule_id: rule.id,
+    p_proposals: preview.candidates.map((candidate) => ({
+      inventory_item_id: candidate.itemId,
+      current_price: candidate.currentPrice,
+      proposed_price: candidate.proposedPrice,
+      margin_floor: candidate.marginFloor,
+      reason: candidate.reason,
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Failed to queue repricing proposals: ${error.message}`);
+  }
+
+  const counts = (data || {}) as { queued?: number; superseded?: number };
+  return { ...preview, queued: counts.queued ?? 0, superseded: counts.superseded ?? 0 };
+}
+
+/**
+ * Queue proposals for every active rule (the scheduled run)
+ */
+export async function runRepricingRules(
+  supabase: SupabaseClient
+): Promise<{ rules: number; queued: number; errors: Array<{ ruleId: string; error: string }> }> {
+  const rules = (await listRepricingRules(supabase)).filter((rule) => rule.is_active);
+  const summary = { rules: rules.length, queued: 0, errors: [] as Array<{ ruleId: string; error: string }> };
+
+  for (const rule of rules) {
+    try {
+      summary.queued += (await queueRepricingRule(supabase, rule)).queued;
+    } catch (error) {
+      summary.errors.push({ ruleId: rule.id, error: error instanceof Error ? error.message : 'Rule failed' });
+    }
+  }
+
+  return summary;
+}
+
+export async function listRepricingProposals(
+  supabase: SupabaseClient,
+  options: { status?: RepricingProposalStatus; ruleId?: string; limit?: number } = {}
+): Promise<RepricingProposalWithDetails[]> {
+  let query = supabase
+    .from('repricing_proposals')
+    .select(PROPOSAL_DETAIL_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 200);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.ruleId) query = query.eq('rule_id', options.ruleId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load repricing proposals: ${error.message}`);
+  }
+  return (data || []) as RepricingProposalWithDetails[];
+}
+
+/**
+ * Apply pending proposals as auto_discount price changes. A proposal fails
+ * if the price moved since it was proposed or the cost now puts it under
+ * the margin floor.
+ */
+export async function approveRepricingProposals(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<RepricingDecisionResult> {
+  const result: RepricingDecisionResult = { applied: [], rejected: [], failed: [] };
+
+  const { data, error } = await supabase
+    .from('repricing_proposals')
+    .select('*, rule:repricing_rules(id, name), item:inventory_items(id, sale_price, cost_price, is_archived)')
+    .in('id', ids)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to load repricing proposals: ${error.message}`);
+  }
+
+  type PendingProposal = RepricingProposal & {
+    rule: { id: string; name: string } | null;
+    item: Pick<InventoryItem, 'id' | 'sale_price' | 'cost_price' | 'is_archived'> | null;
+  };
+  const proposals = (data || []) as PendingProposal[];
+  const pendingIds = new Set(proposals.map((proposal) => proposal.id));
+  for (const id of ids) {
+    if (!pendingIds.has(id)) result.failed.push({ id, error: 'Proposal not found or no longer pending' });
+  }
+
+  // One price update per rule, so price_history records which rule it was
+  const byRule = new Map<string, PendingProposal[]>();
+  for (const proposal of proposals) {
+    let problem: string | null = null;
+    const marginFloor = getMarginFloor(proposal.item?.cost_price ?? null);
+    if (!proposal.item || proposal.item.is_archived) problem = 'Item not found or archived';
+    else if (proposal.item.sale_price !== proposal.current_price) problem = 'Sale price changed since this was proposed';
+    else if (marginFloor === null || proposal.proposed_price < marginFloor) problem = 'Below the margin floor';
+
+    if (problem) {
+      result.failed.push({ id: proposal.id, error: problem });
+      await markProposals(supabase, [proposal.id], { status: 'failed', error: problem });
+      continue;
+    }
+    byRule.set(proposal.rule_id, [...(byRule.get(proposal.rule_id) || []), proposal]);
+  }
+
+  for (const [, ruleProposals] of byRule) {
+    const ruleName = ruleProposals[0].rule?.name || 'Repricing rule';
+    const itemIds = ruleProposals.map((proposal) => proposal.inventory_item_id);
+
+    try {
+      const { updated } = await applyBulkPriceUpdate(
+        supabase,
+        {
+          itemIds,
+          prices: Object.fromEntries(ruleProposals.map((proposal) => [proposal.inventory_item_id, proposal.proposed_price])),
+        },
+        { changeType: 'auto_discount', changeReason: `Repricing rule: ${ruleName}` }
+      );
+
+      const applied = ruleProposals.filter((proposal) => updated[proposal.inventory_item_id] !== undefined);
+      const missed = ruleProposals.filter((proposal) => updated[proposal.inventory_item_id] === undefined);
+      const markError = await markProposals(supabase, applied.map((proposal) => proposal.id), {
+        status: 'applied',
+        applied_at: new Date().toISOString(),
+      });
+      await markProposals(supabase, missed.map((proposal) => proposal.id), { status: 'failed', error: 'Item not updated' });
+
+      result.applied.push(...applied.map((proposal) => proposal.id));
+      result.failed.push(...missed.map((proposal) => ({ id: proposal.id, error: 'Item not updated' })));
+      // The prices did change; say so, since these proposals still show as pending
+      if (markError) {
+        result.failed.push(
+          ...applied.map((proposal) => ({
+            id: proposal.id,
+            error: `Price applied, but the proposal is still marked pending: ${markError}`,
+          }))
+        );
+      }
+
+      if (applied.length > 0) {
+        await logBulkOperation(
+          'auto_discount',
+          applied.map((proposal) => proposal.inventory_item_id),
+          { success: applied.length, failed: missed.length },
+          { ruleId: ruleProposals[0].rule_id, ruleName, proposalIds: applied.map((proposal) => proposal.id) }
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to apply prices';
+      await markProposals(supabase, ruleProposals.map((proposal) => proposal.id), { status: 'failed', error: message });
+      result.failed.push(...ruleProposals.map((proposal) => ({ id: proposal.id, error: message })));
+    }
+  }
+
+  return result;
+}
+
+export async function rejectRepricingProposals(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<RepricingDecisionResult> {
+  const { data, error } = await supabase
+    .from('repricing_proposals')
+    .update({ status: 'rejected', decided_at: new Date().toISOString() })
+    .in('id', ids)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to reject repricing proposals: ${error.message}`);
+  }
+
+  const rejected = (data || []).map((row) => row.id as string);
+  return {
+    applied: [],
+    rejected,
+    failed: ids
+      .filter((id) => !rejected.includes(id))
+      .map((id) => ({ id, error: 'Proposal not found or no longer pending' })),
+  };
+}
+
+/**
+ * Record the outcome on the proposals; returns the error message if that
+ * failed, so callers can report it
+ */
+async function markProposals(
+  supabase: SupabaseClient,
+  ids: string[],
+  update: Partial<Pick<RepricingProposal, 'status' | 'error' | 'applied_at'>>
+): Promise<string | null> {
+  if (ids.length === 0) return null;
+
+  const { error } = await supabase
+    .from('repricing_proposals')
+    .update({ ...update, decided_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    console.error('Failed to update repricing proposals:', error.message);
+    return error.message;
+  }
+  return null;
+}
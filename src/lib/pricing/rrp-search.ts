@@ -0,0 +1,497 @@
+/**
+ * CHT Operating System - Australian RRP Search
+ *
+ * Searches Australian retailers for a product's RRP: Google Shopping AU and
+ * organic results via SerpAPI when SERPAPI_API_KEY is set, otherwise the
+ * retailers' own search pages. Ignores international sites and marketplaces
+ * (eBay, Amazon, Gumtree). Besides the best RRP, every retailer price seen
+ * (with its stock status, where the listing shows one) is returned so the
+ * price-watch can record it.
+ */
+
+import type { RetailerOffer, RRPSearchResult } from '@/types';
+
+export interface RrpSearchOutcome {
+  result: RRPSearchResult;
+  /** All retailer prices behind the result */
+  offers: RetailerOffer[];
+}
+
+// Australian retailer domains to search
+const AUSTRALIAN_RETAILERS = [
+  'jbhifi.com.au',
+  'harveynorman.com.au',
+  'thegoodguys.com.au',
+  'officeworks.com.au',
+  'bing-lee.com.au',
+  'appliance-online.com.au',
+  'mwave.com.au',
+  'scorptec.com.au',
+  'pccasegear.com',
+  'centrecom.com.au',
+  'videopro.com.au',
+  'av2day.com.au',
+  'selby.com.au',
+  'todds.com.au',
+  'digitalcinema.com.au',
+  'addictedtoaudio.com.au',
+  'minidisc.com.au',
+  'noosa-hifi.com.au',
+  'clefhifi.com.au',
+  'stereophile.com.au',
+  // Brand official AU stores
+  'marantz.com.au',
+  'denon.com.au',
+  'sony.com.au',
+  'samsung.com.au',
+  'lg.com.au',
+  'apple.com.au',
+];
+
+// Sites to exclude (marketplaces, international, grey market)
+const EXCLUDED_DOMAINS = [
+  'ebay.com',
+  'ebay.com.au',
+  'amazon.com',
+  'amazon.com.au',
+  'gumtree.com.au',
+  'facebook.com',
+  'marketplace',
+  'alibaba',
+  'aliexpress',
+  'wish.com',
+  'kogan.com', // Often grey market
+  'catch.com.au', // Marketplace
+  'mydeal.com.au', // Marketplace
+  'ozbargain.com.au', // Deal site, not retailer
+  'staticice.com.au', // Price comparison, not retailer
+  'pricespy.com.au', // Price comparison
+];
+
+// Specialist hi-fi retailers - prioritize these for specialist brands
+const SPECIALIST_RETAILERS = [
+  'addictedtoaudio.com.au',
+  'selby.com.au',
+  'todds.com.au',
+  'digitalcinema.com.au',
+  'clefhifi.com.au',
+  'audiojunction.com.au',
+  'lenwallisaudio.com.au',
+  'stereo.net.au',
+  'noosa-hifi.com.au',
+  'melbournehifi.com.au',
+  'sydhifi.com.au',
+  'lifestyle-store.com.au',
+];
+
+interface RetailerSearchPage {
+  name: string;
+  searchUrl: (brand: string, model: string) => string;
+  domain: string;
+}
+
+interface SerpApiResult {
+  organic_results?: Array<{
+    title: string;
+    link: string;
+    snippet: string;
+    displayed_link: string;
+    price?: {
+      value: string;
+      extracted_value: number;
+      currency: string;
+    };
+  }>;
+  shopping_results?: Array<{
+    title: string;
+    link: string;
+    source: string;
+    price: string;
+    extracted_price: number;
+    delivery?: string;
+    extensions?: string[];
+  }>;
+}
+
+/**
+ * Search for a product's Australian RRP. Returns null when no retailer
+ * price was found.
+ */
+export async function searchAustralianRrp(brand: string, model: string): Promise<RrpSearchOutcome | null> {
+  const serpApiKey = process.env.SERPAPI_API_KEY;
+  
+  if (serpApiKey) {
+    // Use SerpAPI for real search
+    const outcome = await searchWithSerpAPI(serpApiKey, brand, model);
+    if (outcome) {
+      return outcome;
+    }
+  }
+  
+  // Fallback: Try web scraping approach
+  return scrapeAustralianRetailers(brand, model);
+}
+
+function getHostname(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Search using SerpAPI
+ */
+async function searchWithSerpAPI(
+  apiKey: string, 
+  brand: string, 
+  model: string
+): Promise<RrpSearchOutcome | null> {
+  try {
+    const isSpecialist = isSpecialistBrand(brand);
+    
+    // Search Google Shopping AU
+    const shoppingUrl = new URL('https://serpapi.com/search');
+    shoppingUrl.searchParams.set('engine', 'google_shopping');
+    shoppingUrl.searchParams.set('q', `${brand} ${model}`);
+    shoppingUrl.searchParams.set('location', 'Australia');
+    shoppingUrl.searchParams.set('google_domain', 'google.com.au');
+    shoppingUrl.searchParams.set('gl', 'au');
+    shoppingUrl.searchParams.set('hl', 'en');
+    shoppingUrl.searchParams.set('api_key', apiKey);
+
+    const shoppingResponse = await fetch(shoppingUrl.toString());
+    const shoppingData = await shoppingResponse.json() as SerpApiResult;
+
+    // Filter for Australian retailers only
+    const validResults = shoppingData.shopping_results?.filter(result => {
+      const source = result.source?.toLowerCase() || '';
+      const link = result.link?.toLowerCase() || '';
+      
+      // Check if from Australian retailer
+      const isAustralian = AUSTRALIAN_RETAILERS.some(domain => 
+        source.includes(domain.replace('.com.au', '')) || link.includes(domain)
+      );
+      
+      // Check if excluded
+      const isExcluded = EXCLUDED_DOMAINS.some(domain => 
+        source.includes(domain) || link.includes(domain)
+      );
+      
+      // For specialist brands, only trust specialist retailers
+      const isSpecialistRetailer = SPECIALIST_RETAILERS.some(domain =>
+        source.includes(domain.replace('.com.au', '')) || link.includes(domain)
+      );
+      
+      // Reject mainstream retailers for specialist brands
+      const isMainstreamRetailer = ['jb hi-fi', 'jbhifi', 'harvey norman', 'good guys', 'officeworks', 'bing lee'].some(
+        name => source.toLowerCase().includes(name)
+      );
+      
+      if (isSpecialist && isMainstreamRetailer && !isSpecialistRetailer) {
+        return false; // Skip mainstream for specialist brands
+      }
+      
+      return isAustralian && !isExcluded;
+    }) || [];
+
+    // Prioritize specialist retailers for specialist brands
+    const sortedResults = isSpecialist
+      ? validResults.sort((a, b) => {
+          const aIsSpecialist = SPECIALIST_RETAILERS.some(d => a.link?.includes(d));
+          const bIsSpecialist = SPECIALIST_RETAILERS.some(d => b.link?.includes(d));
+          if (aIsSpecialist && !bIsSpecialist) return -1;
+          if (!aIsSpecialist && bIsSpecialist) return 1;
+          return 0;
+        })
+      : validResults;
+
+    if (sortedResults.length > 0) {
+      // Use the first result after sorting (prioritizes specialist for specialist brands)
+      const prices = sortedResults
+        .map(r => r.extracted_price)
+        .filter(p => p && p > 0);
+
+      if (prices.length > 0) {
+        const bestResult = sortedResults[0];
+        
+        return {
+          result: {
+            rrp_aud: bestResult.extracted_price,
+            source: bestResult?.source || 'Google Shopping AU',
+            source_url: bestResult?.link || '',
+            confidence: prices.length >= 3 ? 'high' : prices.length >= 2 ? 'medium' : 'low',
+            retrieved_at: new Date().toISOString(),
+          },
+          offers: sortedResults
+            .filter(r => r.extracted_price > 0)
+            .map(r => ({
+              retailer: r.source || getHostname(r.link) || 'Google Shopping AU',
+              price: r.extracted_price,
+              url: r.link || null,
+              source: 'google_shopping' as const,
+              inStock: detectStockStatus([r.delivery, ...(r.extensions || [])].filter(Boolean).join(' ')),
+            })),
+        };
+      }
+    }
+
+    // Try organic search as fallback
+    const organicUrl = new URL('https://serpapi.com/search');
+    organicUrl.searchParams.set('engine', 'google');
+    organicUrl.searchParams.set('q', `${brand} ${model} price AUD site:.com.au`);
+    organicUrl.searchParams.set('location', 'Australia');
+    organicUrl.searchParams.set('google_domain', 'google.com.au');
+    organicUrl.searchParams.set('gl', 'au');
+    organicUrl.searchParams.set('hl', 'en');
+    organicUrl.searchParams.set('api_key', apiKey);
+
+    const organicResponse = await fetch(organicUrl.toString());
+    const organicData = await organicResponse.json() as SerpApiResult;
+
+    // Look for price in organic results
+    const organicWithPrice = organicData.organic_results?.filter(result => {
+      const link = result.link?.toLowerCase() || '';
+      const isAustralian = AUSTRALIAN_RETAILERS.some(domain => link.includes(domain));
+      const isExcluded = EXCLUDED_DOMAINS.some(domain => link.includes(domain));
+      
+      // For specialist brands, prefer specialist retailers
+      if (isSpecialist) {
+        const isSpecialistRetailer = SPECIALIST_RETAILERS.some(domain => link.includes(domain));
+        const isMainstreamRetailer = ['jbhifi', 'harveynorman', 'thegoodguys'].some(name => link.includes(name));
+        if (isMainstreamRetailer && !isSpecialistRetailer) return false;
+      }
+      
+      return isAustralian && !isExcluded && result.price;
+    }) || [];
+
+    if (organicWithPrice.length > 0 && organicWithPrice[0].price) {
+      return {
+        result: {
+          rrp_aud: organicWithPrice[0].price.extracted_value,
+          source: new URL(organicWithPrice[0].link).hostname,
+          source_url: organicWithPrice[0].link,
+          confidence: 'medium',
+          retrieved_at: new Date().toISOString(),
+        },
+        offers: organicWithPrice
+          .filter(r => r.price && r.price.extracted_value > 0)
+          .map(r => ({
+            retailer: getHostname(r.link) || r.displayed_link,
+            price: r.price!.extracted_value,
+            url: r.link,
+            source: 'google_organic' as const,
+            inStock: detectStockStatus(r.snippet),
+          })),
+      };
+    }
+
+    return null;
+
+  } catch (error) {
+    console.error('SerpAPI search error:', error);
+    return null;
+  }
+}
+
+// Brand to specialist retailer mapping (specialist hi-fi brands need specialist retailers)
+const SPECIALIST_BRANDS = [
+  'exposure', 'naim', 'rega', 'linn', 'arcam', 'creek', 'cyrus', 'densen',
+  'hegel', 'primare', 'rotel', 'cambridge audio', 'audiolab', 'musical fidelity',
+  'mcintosh', 'mark levinson', 'krell', 'accuphase', 'luxman', 'pass labs',
+  'focal', 'dynaudio', 'b&w', 'bowers', 'kef', 'dali', 'monitor audio',
+  'spendor', 'harbeth', 'proac', 'atc', 'quad', 'wharfedale', 'tannoy',
+  'chord', 'ps audio', 'bryston', 'parasound', 'anthem', 'classe',
+  'moon', 'simaudio', 'ayre', 'boulder', 'gryphon', 'solution',
+  'totem', 'sonus faber', 'vienna acoustics', 'wilson', 'magico',
+];
+
+function isSpecialistBrand(brand: string): boolean {
+  const lower = brand.toLowerCase();
+  return SPECIALIST_BRANDS.some(b => lower.includes(b));
+}
+
+/**
+ * Fallback: Scrape known Australian retailers
+ */
+async function scrapeAustralianRetailers(
+  brand: string, 
+  model: string
+): Promise<RrpSearchOutcome | null> {
+  // Specialist hi-fi retailers (priority for specialist brands)
+  const specialistRetailers: RetailerSearchPage[] = [
+    {
+      name: 'Addicted to Audio',
+      searchUrl: (b: string, m: string) => 
+        `https://addictedtoaudio.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'addictedtoaudio.com.au',
+    },
+    {
+      name: 'Selby Acoustics',
+      searchUrl: (b: string, m: string) => 
+        `https://www.selby.com.au/catalogsearch/result/?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'selby.com.au',
+    },
+    {
+      name: 'Todds Hi-Fi',
+      searchUrl: (b: string, m: string) => 
+        `https://www.todds.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'todds.com.au',
+    },
+    {
+      name: 'Digital Cinema',
+      searchUrl: (b: string, m: string) => 
+        `https://www.digitalcinema.com.au/search?type=product&q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'digitalcinema.com.au',
+    },
+    {
+      name: 'Clef Hi-Fi',
+      searchUrl: (b: string, m: string) => 
+        `https://www.clefhifi.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'clefhifi.com.au',
+    },
+    {
+      name: 'Audio Junction',
+      searchUrl: (b: string, m: string) => 
+        `https://www.audiojunction.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'audiojunction.com.au',
+    },
+    {
+      name: 'Len Wallis Audio',
+      searchUrl: (b: string, m: string) =>
+        `https://www.lenwallisaudio.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'lenwallisaudio.com.au',
+    },
+    {
+      name: 'StereoNET',
+      searchUrl: (b: string, m: string) =>
+        `https://www.stereo.net.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'stereo.net.au',
+    },
+  ];
+
+  // Mainstream retailers
+  const mainstreamRetailers: RetailerSearchPage[] = [
+    {
+      name: 'JB Hi-Fi',
+      searchUrl: (b: string, m: string) => 
+        `https://www.jbhifi.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'jbhifi.com.au',
+    },
+    {
+      name: 'Harvey Norman',
+      searchUrl: (b: string, m: string) => 
+        `https://www.harveynorman.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'harveynorman.com.au',
+    },
+    {
+      name: 'The Good Guys',
+      searchUrl: (b: string, m: string) => 
+        `https://www.thegoodguys.com.au/SearchDisplay?searchTerm=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'thegoodguys.com.au',
+    },
+    {
+      name: 'Videopro',
+      searchUrl: (b: string, m: string) => 
+        `https://www.videopro.com.au/search?q=${encodeURIComponent(`${b} ${m}`)}`,
+      domain: 'videopro.com.au',
+    },
+  ];
+
+  // Choose retailer order based on brand
+  const retailersToCheck = isSpecialistBrand(brand)
+    ? [...specialistRetailers, ...mainstreamRetailers]
+    : [...mainstreamRetailers, ...specialistRetailers];
+
+  // Check every retailer so the competitor matrix sees them all; the RRP
+  // still comes from the first one (in priority order) with a price
+  const offers = (
+    await Promise.all(retailersToCheck.map((retailer) => scrapeRetailer(retailer, brand, model)))
+  ).filter((offer): offer is RetailerOffer => offer !== null);
+
+  if (offers.length > 0) {
+    const rrpOffer = offers[0];
+    return {
+      result: {
+        rrp_aud: rrpOffer.price,
+        source: rrpOffer.retailer,
+        source_url: rrpOffer.url || '',
+        confidence: 'medium',
+        retrieved_at: new Date().toISOString(),
+      },
+      offers,
+    };
+  }
+
+  return null;
+}
+
+async function scrapeRetailer(
+  retailer: RetailerSearchPage,
+  brand: string,
+  model: string
+): Promise<RetailerOffer | null> {
+  try {
+    const url = retailer.searchUrl(brand, model);
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-AU,en;q=0.9',
+      },
+      next: { revalidate: 3600 }, // Cache for 1 hour
+    });
+
+    if (!response.ok) return null;
+
+    const html = await response.text();
+    
+    // Extract price using regex patterns
+    const pricePatterns = [
+      /\$([0-9,]+(?:\.[0-9]{2})?)\s*(?:AUD)?/g,
+      /data-price="([0-9.]+)"/g,
+      /"price":\s*"?\$?([0-9,]+(?:\.[0-9]{2})?)"/g,
+      /class="price[^"]*"[^>]*>\s*\$([0-9,]+(?:\.[0-9]{2})?)/g,
+    ];
+
+    const prices: number[] = [];
+    
+    for (const pattern of pricePatterns) {
+      let match;
+      while ((match = pattern.exec(html)) !== null) {
+        const price = parseFloat(match[1].replace(',', ''));
+        // Filter reasonable prices (between $50 and $100,000)
+        if (price >= 50 && price <= 100000) {
+          prices.push(price);
+        }
+      }
+    }
+
+    if (prices.length === 0) return null;
+
+    // Use the highest price as RRP (sales prices would be lower)
+    return {
+      retailer: retailer.name,
+      price: Math.max(...prices),
+      url,
+      source: 'retailer_scrape',
+      inStock: detectStockStatus(html),
+    };
+  } catch (error) {
+    console.error(`Error scraping ${retailer.name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Best-effort stock status from page or listing text: false when it says
+ * out of stock, true when it offers to sell, null when it says neither
+ */
+export function detectStockStatus(text: string | undefined): boolean | null {
+  if (!text) return null;
+  if (/out of stock|sold out|currently unavailable|no longer available/i.test(text)) return false;
+  if (/in stock|add to cart|add to bag|available now/i.test(text)) return true;
+  return null;
+}
@@ -0,0 +1,339 @@
+/**
+ * CHT Operating System - RRP Price-Watch
+ *
+ * Re-checks RRP for active inventory, oldest check first, and stores every
+ * retailer price seen. Each check re-evaluates the item's alerts: a
+ * competitor below our sale_price, or a market RRP far enough from our
+ * rrp_aud that the advertised discount no longer holds. Alerts that no
+ * longer apply are resolved; dismissed alerts stay quiet until then.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { searchAustralianRrp, type RrpSearchOutcome } from './rrp-search';
+import type {
+  InventoryItem,
+  RrpAlert,
+  RrpAlertStatus,
+  RrpAlertType,
+  RrpAlertWithItem,
+  RrpObservation,
+  RrpWatchSummary,
+} from '@/types';
+
+type WatchedItem = Pick<InventoryItem, 'id' | 'brand' | 'model' | 'sale_price' | 'rrp_aud'>;
+
+const WATCH_ITEM_COLUMNS = 'id, brand, model, sale_price, rrp_aud';
+const ALERT_ITEM_COLUMNS = '*, item:inventory_items(id, brand, model, sku, sale_price, rrp_aud)';
+
+export interface RrpAlertCandidate {
+  alert_type: RrpAlertType;
+  retailer: string | null;
+  url: string | null;
+  observed_price: number;
+  sale_price: number | null;
+  rrp_aud: number | null;
+  change_percent: number | null;
+  message: string;
+}
+
+const formatAud = (value: number) => `$${value.toLocaleString('en-AU', { maximumFractionDigits: 2 })}`;
+const roundPercent = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Alerts an item should have given one search outcome
+ */
+export function evaluateRrpAlerts(item: WatchedItem, outcome: RrpSearchOutcome): RrpAlertCandidate[] {
+  const candidates: RrpAlertCandidate[] = [];
+  const salePrice = item.sale_price > 0 ? item.sale_price : null;
+
+  if (salePrice) {
+    // Lowest price per competitor; an out-of-stock listing isn't undercutting us
+    const lowest = new Map<string, RrpSearchOutcome['offers'][number]>();
+    for (const offer of outcome.offers) {
+      if (offer.inStock === false) continue;
+      const current = lowest.get(offer.retailer);
+      if (!current || offer.price < current.price) lowest.set(offer.retailer, offer);
+    }
+
+    for (const offer of lowest.values()) {
+      if (offer.price >= salePrice) continue;
+      candidates.push({
+        alert_type: 'competitor_below_sale',
+        retailer: offer.retailer,
+        url: offer.url,
+        observed_price: offer.price,
+        sale_price: salePrice,
+        rrp_aud: item.rrp_aud,
+        change_percent: roundPercent(((offer.price - salePrice) / salePrice) * 100),
+        message: `${offer.retailer} has it at ${formatAud(offer.price)}, ${formatAud(salePrice - offer.price)} below our ${formatAud(salePrice)}`,
+      });
+    }
+  }
+
+  const marketRrp = outcome.result.rrp_aud;
+  if (item.rrp_aud && item.rrp_aud > 0 && marketRrp > 0) {
+    const changePercent = ((marketRrp - item.rrp_aud) / item.rrp_aud) * 100;
+    if (Math.abs(changePercent) >= config.rrpWatch.rrpChangePercent) {
+      let message = `Market RRP ${formatAud(marketRrp)} (${outcome.result.source}) vs our ${formatAud(item.rrp_aud)}`;
+      if (salePrice) {
+        const advertised = Math.round((1 - salePrice / item.rrp_aud) * 100);
+        const actual = Math.round((1 - salePrice / marketRrp) * 100);
+        message += `: advertised ${advertised}% off is ${actual}% off the current RRP`;
+      }
+      candidates.push({
+        alert_type: 'rrp_changed',
+        retailer: null,
+        url: outcome.result.source_url || null,
+        observed_price: marketRrp,
+        sale_price: salePrice,
+        rrp_aud: item.rrp_aud,
+        change_percent: roundPercent(changePercent),
+        message,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Check the items due for a re-check (or the given items, regardless of
+ * when they were last checked). Searches are shared between items with
+ * the same brand and model.
+ */
+export async function runRrpWatch(
+  supabase: SupabaseClient,
+  options: { itemIds?: string[]; budgetMs?: number; batchSize?: number } = {}
+): Promise<RrpWatchSummary> {
+  const startedAt = Date.now();
+  const budgetMs = options.budgetMs ?? config.rrpWatch.budgetMs;
+  const summary: RrpWatchSummary = {
+    checked: 0,
+    notFound: 0,
+    observations: 0,
+    alertsOpened: 0,
+    alertsResolved: 0,
+    errors: [],
+    stoppedEarly: false,
+  };
+
+  let query = supabase
+    .from('inventory_items')
+    .select(WATCH_ITEM_COLUMNS)
+    .eq('is_archived', false)
+    .or('listing_status.is.null,listing_status.neq.sold');
+
+  if (options.itemIds?.length) {
+    query = query.in('id', options.itemIds);
+  } else {
+    const dueBefore = new Date(startedAt - config.rrpWatch.recheckHours * 60 * 60 * 1000).toISOString();
+    query = query
+      .or(`rrp_checked_at.is.null,rrp_checked_at.lt.${dueBefore}`)
+      .order('rrp_checked_at', { ascending: true, nullsFirst: true })
+      .limit(options.batchSize ?? config.rrpWatch.batchSize);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load items for RRP watch: ${error.message}`);
+  }
+
+  const searches = new Map<string, Promise<RrpSearchOutcome | null>>();
+
+  for (const item of (data || []) as WatchedItem[]) {
+    if (Date.now() - startedAt > budgetMs) {
+      summary.stoppedEarly = true;
+      break;
+    }
+
+    const observedAt = new Date().toISOString();
+    try {
+      const key = `${item.brand}|${item.model}`.toLowerCase();
+      if (!searches.has(key)) {
+        searches.set(key, searchAustralianRrp(item.brand, item.model));
+      }
+      const outcome = await searches.get(key)!;
+
+      if (!outcome) {
+        // No prices is not evidence that an alert cleared, so leave alerts as they are
+        summary.notFound++;
+        continue;
+      }
+
+      summary.observations += await recordObservations(supabase, item.id, outcome, observedAt);
+      const { opened, resolved } = await syncItemAlerts(supabase, item.id, evaluateRrpAlerts(item, outcome), observedAt);
+      summary.alertsOpened += opened;
+      summary.alertsResolved += resolved;
+    } catch (err) {
+      summary.errors.push({ itemId: item.id, error: err instanceof Error ? err.message : 'RRP check failed' });
+    } finally {
+      summary.checked++;
+      // Checked even on failure, so one bad item doesn't hold up the rest
+      const { error: updateError } = await supabase
+        .from('inventory_items')
+        .update({ rrp_checked_at: observedAt })
+        .eq('id', item.id);
+      if (updateError) {
+        console.error('Failed to record RRP check:', updateError.message);
+      }
+    }
+  }
+
+  return summary;
+}
+
+async function recordObservations(
+  supabase: SupabaseClient,
+  itemId: string,
+  outcome: RrpSearchOutcome,
+  observedAt: string
+): Promise<number> {
+  if (outcome.offers.length === 0) return 0;
+
+  const rrpUrl = outcome.result.source_url;
+  const { error } = await supabase.from('rrp_observations').insert(
+    outcome.offers.map((offer) => ({
+      inventory_item_id: itemId,
+      retailer: offer.retailer,
+      price: offer.price,
+      url: offer.url,
+      source: offer.source,
+      in_stock: offer.inStock,
+      is_rrp: offer.price === outcome.result.rrp_aud && (!rrpUrl || offer.url === rrpUrl),
+      observed_at: observedAt,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to record RRP observations: ${error.message}`);
+  }
+  return outcome.offers.length;
+}
+
+/**
+ * Upsert the item's live alerts from this check's candidates and resolve
+ * the ones no longer raised
+ */
+async function syncItemAlerts(
+  supabase: SupabaseClient,
+  itemId: string,
+  candidates: RrpAlertCandidate[],
+  seenAt: string
+): Promise<{ opened: number; resolved: number }> {
+  const { data, error } = await supabase
+    .from('rrp_alerts')
+    .select('*')
+    .eq('inventory_item_id', itemId)
+    .neq('status', 'resolved');
+
+  if (error) {
+    throw new Error(`Failed to load RRP alerts: ${error.message}`);
+  }
+
+  const alertKey = (alert: { alert_type: RrpAlertType; retailer: string | null }) =>
+    `${alert.alert_type}|${alert.retailer || ''}`;
+  const live = new Map(((data || []) as RrpAlert[]).map((alert) => [alertKey(alert), alert]));
+  let opened = 0;
+  let resolved = 0;
+
+  for (const candidate of candidates) {
+    const existing = live.get(alertKey(candidate));
+    live.delete(alertKey(candidate));
+
+    const { error: writeError } = existing
+      ? await supabase
+          .from('rrp_alerts')
+          .update({ ...candidate, last_seen_at: seenAt })
+          .eq('id', existing.id)
+      : await supabase
+          .from('rrp_alerts')
+          .insert({ ...candidate, inventory_item_id: itemId, status: 'open', last_seen_at: seenAt });
+
+    if (writeError) {
+      throw new Error(`Failed to save RRP alert: ${writeError.message}`);
+    }
+    if (!existing) opened++;
+  }
+
+  if (live.size > 0) {
+    const { error: resolveError } = await supabase
+      .from('rrp_alerts')
+      .update({ status: 'resolved', resolved_at: seenAt })
+      .in('id', [...live.values()].map((alert) => alert.id));
+
+    if (resolveError) {
+      throw new Error(`Failed to resolve RRP alerts: ${resolveError.message}`);
+    }
+    resolved = live.size;
+  }
+
+  return { opened, resolved };
+}
+
+/**
+ * An item's observations over the last `days`, oldest first (for charting)
+ */
+export async function getRrpObservations(
+  supabase: SupabaseClient,
+  itemId: string,
+  options: { days?: number } = {}
+): Promise<RrpObservation[]> {
+  const since = new Date(Date.now() - (options.days ?? 180) * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('rrp_observations')
+    .select('*')
+    .eq('inventory_item_id', itemId)
+    .gte('observed_at', since)
+    .order('observed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load RRP observations: ${error.message}`);
+  }
+  return (data || []) as RrpObservation[];
+}
+
+export async function listRrpAlerts(
+  supabase: SupabaseClient,
+  options: { status?: RrpAlertStatus; itemId?: string; limit?: number } = {}
+): Promise<RrpAlertWithItem[]> {
+  let query = supabase
+    .from('rrp_alerts')
+    .select(ALERT_ITEM_COLUMNS)
+    .order('last_seen_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.itemId) query = query.eq('inventory_item_id', options.itemId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load RRP alerts: ${error.message}`);
+  }
+  return (data || []) as RrpAlertWithItem[];
+}
+
+/**
+ * Dismiss an alert, or reopen a dismissed one
+ */
+export async function updateRrpAlertStatus(
+  supabase: SupabaseClient,
+  id: string,
+  status: Exclude<RrpAlertStatus, 'resolved'>
+): Promise<RrpAlert> {
+  const { data, error } = await supabase
+    .from('rrp_alerts')
+    .update({ status })
+    .eq('id', id)
+    .neq('status', 'resolved')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update RRP alert: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('RRP alert not found or already resolved');
+  }
+  return data as RrpAlert;
+}
@@ -43,6 +43,13 @@ export const queryKeys = {
     stats: () => [...queryKeys.inventory.all(), 'stats'] as const,
   },
   
+  // Sync queue
+  sync: {
+    all: () => [...queryKeys.all, 'sync'] as const,
+    run: (id: string) => [...queryKeys.sync.all(), 'run', id] as const,
+    jobs: (status: string) => [...queryKeys.sync.all(), 'jobs', status] as const,
+  },
+  
   // Products (onboarding)
   products: {
     all: () => [...queryKeys.all, 'products'] as const,
@@ -6,6 +6,7 @@
  */
 
 import { createClient, RealtimeChannel } from '@supabase/supabase-js';
+import { getSyncTargetLabel, type SyncTargetId } from '@/types';
 
 // Event types for sync progress
 export type SyncEventType = 
@@ -18,14 +19,14 @@ export type SyncEventType =
 export interface SyncProgressEvent {
   type: SyncEventType;
   itemId: string;
-  platform?: 'shopify' | 'hubspot' | 'notion';
+  /** Sync target id */
+  platform?: SyncTargetId;
   progress?: number; // 0-100
   message: string;
   result?: {
     success: boolean;
-    productId?: string;
-    dealId?: string;
-    pageId?: string;
+    externalId?: string;
+    url?: string;
     error?: string;
   };
   timestamp: string;
@@ -67,36 +68,55 @@ export const SyncBroadcaster = {
     });
   },
 
-  async platformStarted(channel: RealtimeChannel, itemId: string, platform: SyncProgressEvent['platform']) {
-    const platformNames = { shopify: 'Shopify', hubspot: 'HubSpot', notion: 'Notion' };
+  async platformStarted(
+    channel: RealtimeChannel,
+    itemId: string,
+    platform: SyncTargetId,
+    step: { index: number; total: number }
+  ) {
     await broadcastSyncProgress(channel, {
       type: 'sync:progress',
       itemId,
       platform,
-      progress: platform === 'shopify' ? 10 : platform === 'hubspot' ? 40 : 70,
-      message: `Syncing to ${platformNames[platform!]}...`,
+      progress: Math.round(((step.index + 0.3) / step.total) * 100),
+      message: `Syncing to ${getSyncTargetLabel(platform)}...`,
     });
   },
 
   async platformComplete(
     channel: RealtimeChannel, 
     itemId: string, 
-    platform: SyncProgressEvent['platform'],
+    platform: SyncTargetId,
+    step: { index: number; total: number },
     result: SyncProgressEvent['result']
   ) {
-    const platformNames = { shopify: 'Shopify', hubspot: 'HubSpot', notion: 'Notion' };
+    const label = getSyncTargetLabel(platform);
     await broadcastSyncProgress(channel, {
       type: 'sync:platform_complete',
       itemId,
       platform,
-      progress: platform === 'shopify' ? 33 : platform === 'hubspot' ? 66 : 100,
+      progress: Math.round(((step.index + 1) / step.total) * 100),
       message: result?.success 
-        ? `${platformNames[platform!]} sync complete`
-        : `${platformNames[platform!]} sync failed`,
+        ? `${label} sync complete`
+        : `${label} sync failed`,
       result,
     });
   },
 
+  async platformRetrying(
+    channel: RealtimeChannel,
+    itemId: string,
+    platform: SyncTargetId,
+    errorMessage: string
+  ) {
+    await broadcastSyncProgress(channel, {
+      type: 'sync:progress',
+      itemId,
+      platform,
+      message: `${getSyncTargetLabel(platform)} failed, retry scheduled: ${errorMessage}`,
+    });
+  },
+
   async complete(channel: RealtimeChannel, itemId: string, success: boolean, message?: string) {
     await broadcastSyncProgress(channel, {
       type: 'sync:complete',
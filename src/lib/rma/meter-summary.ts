@@ -0,0 +1,57 @@
+/**
+ * CHT Operating System - Meter Reading Summaries
+ *
+ * Pure helpers shared by the serial history chart and the RMA
+ * recommendation, so they're safe to import from client components.
+ */
+
+import {
+  METER_TYPES,
+  type MeterReadingSummary,
+  type MeterType,
+  type SerialMeterReading,
+} from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatMeterReading(value: number | null | undefined): string {
+  return typeof value === 'number' ? `${value.toLocaleString('en-AU')} h` : '—';
+}
+
+/**
+ * Latest value, usage rate and resets per meter, in METER_TYPES order.
+ * The usage rate only counts readings since the last reset, so a new lamp
+ * doesn't read as negative usage.
+ */
+export function summarizeMeterReadings(readings: SerialMeterReading[]): MeterReadingSummary[] {
+  return (Object.keys(METER_TYPES) as MeterType[]).flatMap((meterType) => {
+    const series = readings
+      .filter((reading) => reading.meter_type === meterType)
+      .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+    if (series.length === 0) return [];
+
+    let sinceReset = series[0];
+    let wasReset = false;
+    for (let i = 1; i < series.length; i++) {
+      if (series[i].reading < series[i - 1].reading) {
+        sinceReset = series[i];
+        wasReset = true;
+      }
+    }
+
+    const first = series[0];
+    const latest = series[series.length - 1];
+    const days = (new Date(latest.recorded_at).getTime() - new Date(sinceReset.recorded_at).getTime()) / DAY_MS;
+
+    return [{
+      meter_type: meterType,
+      latest: latest.reading,
+      latest_at: latest.recorded_at,
+      first: first.reading,
+      first_at: first.recorded_at,
+      reading_count: series.length,
+      hours_per_day: days >= 1 ? Math.round(((latest.reading - sinceReset.reading) / days) * 10) / 10 : null,
+      was_reset: wasReset,
+    }];
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * CHT Operating System - Serial Usage Meters
+ *
+ * Lamp, laser and power-on hours read off a serialised unit at trade-in,
+ * RMA intake and RMA return. Every reading is kept for the unit's time
+ * series, the latest value of each meter is copied onto the serial
+ * registry, and each reading is logged on the service timeline.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { appendSerialServiceEvent } from './service';
+import { formatMeterReading } from './meter-summary';
+import {
+  METER_READING_CONTEXTS,
+  METER_TYPES,
+  type MeterReadingContext,
+  type MeterReadingInput,
+  type SerialMeterReading,
+} from '@/types';
+
+/**
+ * Record one or more meter readings taken at the same time
+ */
+export async function recordMeterReadings(
+  supabase: SupabaseClient,
+  input: {
+    serialRegistryId: string;
+    readings: MeterReadingInput[];
+    context: MeterReadingContext;
+    rmaCaseId?: string | null;
+    inventoryItemId?: string | null;
+    /** Owner of the unit at the time, for the service events */
+    customerId?: string | null;
+    notes?: string | null;
+  }
+): Promise<SerialMeterReading[]> {
+  if (input.readings.length === 0) return [];
+
+  const recordedAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('serial_meter_readings')
+    .insert(
+      input.readings.map((reading) => ({
+        serial_registry_id: input.serialRegistryId,
+        meter_type: reading.meter_type,
+        reading: reading.reading,
+        context: input.context,
+        rma_case_id: input.rmaCaseId || null,
+        inventory_item_id: input.inventoryItemId || null,
+        notes: input.notes || null,
+        recorded_at: recordedAt,
+      }))
+    )
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to record meter readings: ${error.message}`);
+  }
+
+  const { error: registryError } = await supabase
+    .from('serial_registry')
+    .update({
+      ...Object.fromEntries(input.readings.map((reading) => [reading.meter_type, reading.reading])),
+      meters_updated_at: recordedAt,
+    })
+    .eq('id', input.serialRegistryId);
+
+  if (registryError) {
+    throw new Error(`Failed to update serial registry meters: ${registryError.message}`);
+  }
+
+  const recorded = (data || []) as SerialMeterReading[];
+  for (const reading of recorded) {
+    await appendSerialServiceEvent(supabase, {
+      serialRegistryId: input.serialRegistryId,
+      rmaCaseId: input.rmaCaseId,
+      customerId: input.customerId,
+      eventType: METER_TYPES[reading.meter_type].eventType,
+      summary: `${METER_TYPES[reading.meter_type].label}: ${formatMeterReading(reading.reading)} (${METER_READING_CONTEXTS[input.context].label})`,
+      notes: input.notes,
+      metadata: {
+        meter_reading_id: reading.id,
+        meter_type: reading.meter_type,
+        reading: reading.reading,
+        context: input.context,
+        ...(input.inventoryItemId ? { inventory_item_id: input.inventoryItemId } : {}),
+      },
+    });
+  }
+
+  return recorded;
+}
+
+/**
+ * A serial's meter readings, oldest first
+ */
+export async function listMeterReadings(
+  supabase: SupabaseClient,
+  serialRegistryId: string
+): Promise<SerialMeterReading[]> {
+  const { data, error } = await supabase
+    .from('serial_meter_readings')
+    .select('*')
+    .eq('serial_registry_id', serialRegistryId)
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load meter readings: ${error.message}`);
+  }
+
+  return (data || []) as SerialMeterReading[];
+}
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { createHubSpotTicket, isHubSpotTicketConfigured } from '@/lib/hubspot/tickets';
+import { findOrCreateCustomer } from '@/lib/customers/customers';
 import type {
   RmaCaseInsert,
   RmaSource,
@@ -48,6 +49,7 @@ function stripOpsEnrichmentFields(payload: Record<string, unknown>): Record<stri
     'customer_contact_preference',
     'customer_address_json',
     'shopify_customer_id',
+    'customer_id',
     'order_processed_at',
     'order_financial_status',
     'order_fulfillment_status',
@@ -109,6 +111,7 @@ export async function upsertSerialRegistry(
     model?: string | null;
     inventoryItemId?: string | null;
     soldShopifyOrderId?: string | null;
+    soldAt?: string | null;
   }
 ): Promise<{ id: string; serial_number: string }> {
   const serial = normalizeSerialNumber(input.serialNumber);
@@ -132,6 +135,7 @@ export async function upsertSerialRegistry(
     if (input.model) updatePayload.model = input.model;
     if (input.inventoryItemId) updatePayload.first_seen_inventory_id = input.inventoryItemId;
     if (input.soldShopifyOrderId) updatePayload.sold_shopify_order_id = input.soldShopifyOrderId;
+    if (input.soldAt) updatePayload.sold_at = input.soldAt;
 
     if (Object.keys(updatePayload).length > 0) {
       const { error: updateError } = await supabase
@@ -153,6 +157,7 @@ export async function upsertSerialRegistry(
     first_seen_inventory_id: input.inventoryItemId || null,
     first_seen_at: new Date().toISOString(),
     sold_shopify_order_id: input.soldShopifyOrderId || null,
+    sold_at: input.soldAt || null,
   };
 
   const { data: created, error: createError } = await supabase
@@ -173,6 +178,8 @@ export async function appendSerialServiceEvent(
   input: {
     serialRegistryId: string;
     rmaCaseId?: string | null;
+    /** Owner of the unit at the time (buyer, trade-in customer) */
+    customerId?: string | null;
     eventType: ServiceEventType;
     summary?: string | null;
     notes?: string | null;
@@ -182,6 +189,7 @@ export async function appendSerialServiceEvent(
   const payload: Record<string, unknown> = {
     serial_registry_id: input.serialRegistryId,
     rma_case_id: input.rmaCaseId || null,
+    ...(input.customerId ? { customer_id: input.customerId } : {}),
     event_type: input.eventType,
     summary: input.summary || null,
     notes: input.notes || null,
@@ -297,11 +305,30 @@ export async function createRmaCase(
     }
   }
 
+  // Link the buyer's customer record; the case still opens if this fails
+  let customerId = input.customer_id || null;
+  if (!customerId) {
+    try {
+      const customer = await findOrCreateCustomer(supabase, {
+        name: input.customer_name,
+        first_name: input.customer_first_name,
+        last_name: input.customer_last_name,
+        email: input.customer_email,
+        phone: input.customer_phone,
+        shopify_customer_id: input.shopify_customer_id,
+      });
+      customerId = customer?.id || null;
+    } catch (error) {
+      console.error('Failed to link RMA customer:', error);
+    }
+  }
+
   const { createHubSpotTicketOnCreate, ...rawInsert } = input;
   const effectivePriority = input.priority || 'normal';
   const slaDueAt = input.sla_due_at || computeDefaultSlaDueAt(effectivePriority);
   const insertPayload: RmaCaseInsert = {
     ...rawInsert,
+    customer_id: customerId,
     serial_number: serialNumber,
     priority: effectivePriority,
     sla_due_at: slaDueAt,
@@ -357,6 +384,7 @@ export async function createRmaCase(
     await appendSerialServiceEvent(supabase, {
       serialRegistryId: registry.id,
       rmaCaseId: createdCase.id as string,
+      customerId: (createdCase.customer_id as string | null) || null,
       eventType: mapRmaStatusToEvent((createdCase.status as RmaStatus) || 'received'),
       summary: `RMA case created (${createdCase.status})`,
       notes: (createdCase.issue_summary as string) || null,
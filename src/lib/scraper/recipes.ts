@@ -0,0 +1,508 @@
+/**
+ * CHT Operating System - Scrape Recipes
+ *
+ * Declarative per-domain extraction. A recipe waits for and clicks its
+ * selectors, then reads title/price/specs/gallery with plain CSS selectors
+ * (following pagination if configured). /api/scrape merges the result
+ * over its generic heuristics. Fixtures (saved HTML + expected output) are
+ * replayed offline with JavaScript and network disabled.
+ */
+
+import { chromium, type Page } from 'playwright';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ScrapeRecipe,
+  ScrapeRecipeExpectation,
+  ScrapeRecipeExtraction,
+  ScrapeRecipeFixture,
+  ScrapeRecipeFixtureResult,
+  ScrapeRecipeFixtureSummary,
+  ScrapeRecipeSelectors,
+  ScrapeRecipeWithFixtures,
+} from '@/types';
+
+const CLICK_LIMIT_PER_SELECTOR = 10;
+const CLICK_SETTLE_MS = 300;
+const WAIT_FOR_TIMEOUT_MS = 5000;
+
+/**
+ * Recipe domain key for a URL or hostname: lowercase, without www.
+ */
+export function normalizeRecipeDomain(input: string): string {
+  let host = input.trim().toLowerCase();
+  try {
+    host = new URL(host.includes('://') ? host : `https://${host}`).hostname;
+  } catch {
+    // Not URL-shaped; use as given
+  }
+  return host.replace(/^www\./, '').replace(/\.$/, '');
+}
+
+/**
+ * Whether a URL is on the recipe's domain or one of its subdomains
+ */
+export function isRecipeDomainUrl(recipe: Pick<ScrapeRecipe, 'domain'>, url: string): boolean {
+  const domain = normalizeRecipeDomain(url);
+  return domain === recipe.domain || domain.endsWith(`.${recipe.domain}`);
+}
+
+/**
+ * Active recipe for a URL. A recipe for selby.com.au also matches
+ * shop.selby.com.au; the most specific domain wins.
+ */
+export async function findScrapeRecipe(supabase: SupabaseClient, url: string): Promise<ScrapeRecipe | null> {
+  const parts = normalizeRecipeDomain(url).split('.');
+  const candidates = parts.slice(0, -1).map((_, index) => parts.slice(index).join('.'));
+  if (candidates.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from('scrape_recipes')
+    .select('*')
+    .eq('is_active', true)
+    .in('domain', candidates);
+
+  if (error) {
+    throw new Error(`Failed to load scrape recipe: ${error.message}`);
+  }
+
+  const recipes = (data || []) as ScrapeRecipe[];
+  return recipes.sort((a, b) => b.domain.length - a.domain.length)[0] || null;
+}
+
+/**
+ * Wait for the recipe's ready selector and click its tabs/accordions.
+ * Missing elements are skipped so one stale selector doesn't fail a scrape.
+ */
+export async function prepareRecipePage(page: Page, recipe: ScrapeRecipe): Promise<void> {
+  if (recipe.wait_for_selector) {
+    await page.waitForSelector(recipe.wait_for_selector, { timeout: WAIT_FOR_TIMEOUT_MS }).catch(() => null);
+  }
+
+  for (const selector of recipe.click_selectors || []) {
+    const elements = await page.$$(selector).catch(() => []);
+    for (const element of elements.slice(0, CLICK_LIMIT_PER_SELECTOR)) {
+      try {
+        await element.click({ timeout: 1000 });
+        await page.waitForTimeout(CLICK_SETTLE_MS);
+      } catch {
+        // Hidden or detached; carry on
+      }
+    }
+  }
+}
+
+/**
+ * Extract with a recipe's selectors from the current page, following
+ * pagination (specs and images are merged across pages). Pagination runs
+ * in a second tab, so the page is left on the product for the heuristics
+ * and snapshot that follow.
+ */
+export async function extractWithRecipe(
+  page: Page,
+  recipe: ScrapeRecipe,
+  options: { baseUrl?: string } = {}
+): Promise<ScrapeRecipeExtraction> {
+  const extraction = await extractPage(page, recipe.selectors, options.baseUrl);
+
+  const maxPages = recipe.pagination?.maxPages ?? 1;
+  const startUrl = page.url();
+  if (maxPages < 2 || !/^https?:/i.test(startUrl)) return extraction;
+
+  const pager = await page.context().newPage();
+  try {
+    await pager.goto(startUrl, { timeout: 30000, waitUntil: 'domcontentloaded' });
+    await prepareRecipePage(pager, recipe);
+
+    for (let pageNumber = 2; pageNumber <= maxPages; pageNumber++) {
+      const next = await pager.$(recipe.pagination!.nextSelector).catch(() => null);
+      if (!next) break;
+
+      try {
+        await next.click({ timeout: 2000 });
+        await pager.waitForLoadState('domcontentloaded');
+        await pager.waitForTimeout(CLICK_SETTLE_MS);
+      } catch {
+        break;
+      }
+
+      const more = await extractPage(pager, recipe.selectors, options.baseUrl);
+      extraction.specifications = { ...extraction.specifications, ...more.specifications };
+      extraction.images = [...new Set([...extraction.images, ...more.images])];
+    }
+  } catch (error) {
+    // Keep what the first page gave
+    console.error('Scrape recipe pagination failed:', error);
+  } finally {
+    await pager.close().catch(() => null);
+  }
+
+  return extraction;
+}
+
+/**
+ * Prepare the page and extract with the recipe
+ */
+export async function runScrapeRecipe(page: Page, recipe: ScrapeRecipe): Promise<ScrapeRecipeExtraction> {
+  await prepareRecipePage(page, recipe);
+  return extractWithRecipe(page, recipe);
+}
+
+async function extractPage(
+  page: Page,
+  selectors: ScrapeRecipeSelectors,
+  baseUrl?: string
+): Promise<ScrapeRecipeExtraction> {
+  return page.evaluate(
+    ({ selectors, baseUrl }) => {
+      const select = (selector?: string) => {
+        if (!selector) return null;
+        try {
+          return document.querySelector(selector);
+        } catch {
+          return null; // Invalid selector
+        }
+      };
+      const selectAll = (selector: string | undefined, root: ParentNode = document) => {
+        if (!selector) return [];
+        try {
+          return Array.from(root.querySelectorAll(selector));
+        } catch {
+          return [];
+        }
+      };
+      const textOf = (selector?: string) => {
+        const el = select(selector);
+        const text = el?.getAttribute('content') || el?.textContent;
+        return text?.replace(/\s+/g, ' ').trim() || undefined;
+      };
+      const resolveUrl = (url: string) => {
+        try {
+          return new URL(url, baseUrl || document.baseURI).href;
+        } catch {
+          return url;
+        }
+      };
+
+      const specifications: Record<string, string> = {};
+      const addSpec = (label?: string | null, value?: string | null) => {
+        const key = label?.replace(/\s+/g, ' ').trim().replace(/:$/, '');
+        const val = value?.replace(/\s+/g, ' ').trim();
+        if (key && val && key.length < 80) specifications[key] = val;
+      };
+
+      for (const container of selectAll(selectors.specTable)) {
+        if (selectors.specRow) {
+          for (const row of selectAll(selectors.specRow, container)) {
+            const label = selectors.specLabel ? selectAll(selectors.specLabel, row)[0] : row.children[0];
+            const value = selectors.specValue ? selectAll(selectors.specValue, row)[0] : row.children[1];
+            addSpec(label?.textContent, value?.textContent);
+          }
+          continue;
+        }
+        container.querySelectorAll('tr').forEach((row) => {
+          const cells = row.querySelectorAll('th, td');
+          if (cells.length >= 2) addSpec(cells[0].textContent, cells[1].textContent);
+        });
+        container.querySelectorAll('dt').forEach((dt) => {
+          const dd = dt.nextElementSibling;
+          if (dd?.tagName === 'DD') addSpec(dt.textContent, dd.textContent);
+        });
+      }
+
+      const images: string[] = [];
+      for (const img of selectAll(selectors.gallery)) {
+        const src = selectors.galleryAttribute
+          ? img.getAttribute(selectors.galleryAttribute)
+          : img.getAttribute('data-zoom-image') || img.getAttribute('data-src') || img.getAttribute('src') || img.getAttribute('href');
+        // srcset-style values: take the first URL
+        const url = src?.trim().split(/\s+/)[0];
+        if (url && !url.startsWith('data:')) {
+          const resolved = resolveUrl(url);
+          if (!images.includes(resolved)) images.push(resolved);
+        }
+      }
+
+      return {
+        title: textOf(selectors.title),
+        price: textOf(selectors.price),
+        description: textOf(selectors.description),
+        brand: textOf(selectors.brand),
+        sku: textOf(selectors.sku),
+        specifications,
+        images,
+      };
+    },
+    { selectors: selectors || {}, baseUrl }
+  );
+}
+
+/**
+ * Merge recipe output over the heuristic parse: recipe values win, and
+ * heuristics fill whatever the recipe didn't find.
+ */
+export function mergeRecipeExtraction<T extends {
+  title?: string;
+  description?: string;
+  price?: string;
+  brand?: string;
+  sku?: string;
+  images?: string[];
+  specifications?: Record<string, string>;
+  specificationsHtml?: string;
+}>(heuristic: T, recipe: ScrapeRecipeExtraction): T {
+  const hasRecipeSpecs = Object.keys(recipe.specifications).length > 0;
+  return {
+    ...heuristic,
+    title: recipe.title || heuristic.title,
+    description: recipe.description || heuristic.description,
+    price: recipe.price || heuristic.price,
+    brand: recipe.brand || heuristic.brand,
+    sku: recipe.sku || heuristic.sku,
+    images: recipe.images.length > 0 ? recipe.images.slice(0, 10) : heuristic.images,
+    specifications: hasRecipeSpecs ? recipe.specifications : heuristic.specifications,
+    specificationsHtml: hasRecipeSpecs ? buildSpecificationsHtml(recipe.specifications) : heuristic.specificationsHtml,
+  };
+}
+
+function buildSpecificationsHtml(specifications: Record<string, string>): string {
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return '<table class="specifications-table"><tbody>' +
+    Object.entries(specifications)
+      .map(([key, value]) => `<tr><th>${escape(key)}</th><td>${escape(value)}</td></tr>`)
+      .join('') +
+    '</tbody></table>';
+}
+
+/**
+ * Parse a scraped price string ("$1,299.00", "AUD 499") to a number
+ */
+export function parseScrapedPrice(priceStr: string | undefined | null): number | null {
+  if (!priceStr) return null;
+
+  const cleaned = String(priceStr)
+    .replace(/[AUD$,\s]/gi, '')
+    .replace(/\.00$/, '');
+
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Baseline expectation from a known-good extraction (new fixtures)
+ */
+export function buildRecipeExpectation(extraction: ScrapeRecipeExtraction): ScrapeRecipeExpectation {
+  const price = parseScrapedPrice(extraction.price);
+  return {
+    ...(extraction.title ? { title: extraction.title } : {}),
+    ...(price !== null ? { price } : {}),
+    ...(extraction.brand ? { brand: extraction.brand } : {}),
+    ...(extraction.sku ? { sku: extraction.sku } : {}),
+    minSpecs: Object.keys(extraction.specifications).length,
+    minImages: extraction.images.length,
+  };
+}
+
+/**
+ * Differences between an extraction and a fixture's expectation
+ */
+export function compareRecipeExtraction(
+  extraction: ScrapeRecipeExtraction,
+  expected: ScrapeRecipeExpectation
+): string[] {
+  const failures: string[] = [];
+
+  for (const field of ['title', 'brand', 'sku'] as const) {
+    if (expected[field] !== undefined && extraction[field] !== expected[field]) {
+      failures.push(`${field}: expected "${expected[field]}", got "${extraction[field] ?? ''}"`);
+    }
+  }
+
+  if (expected.price !== undefined) {
+    const price = parseScrapedPrice(extraction.price);
+    if (price !== expected.price) {
+      failures.push(`price: expected ${expected.price}, got ${price ?? 'none'}`);
+    }
+  }
+
+  const specCount = Object.keys(extraction.specifications).length;
+  if (expected.minSpecs !== undefined && specCount < expected.minSpecs) {
+    failures.push(`specs: expected at least ${expected.minSpecs}, got ${specCount}`);
+  }
+  for (const [label, value] of Object.entries(expected.specs || {})) {
+    if (extraction.specifications[label] !== value) {
+      failures.push(`spec "${label}": expected "${value}", got "${extraction.specifications[label] ?? ''}"`);
+    }
+  }
+
+  if (expected.minImages !== undefined && extraction.images.length < expected.minImages) {
+    failures.push(`images: expected at least ${expected.minImages}, got ${extraction.images.length}`);
+  }
+
+  return failures;
+}
+
+/**
+ * Run a recipe against saved fixture HTML. JavaScript and network are off,
+ * so results only depend on the snapshot. Last-run status is recorded on
+ * each fixture.
+ */
+export async function runScrapeRecipeFixtures(
+  supabase: SupabaseClient,
+  recipe: ScrapeRecipe,
+  fixtures: ScrapeRecipeFixture[]
+): Promise<ScrapeRecipeFixtureResult[]> {
+  if (fixtures.length === 0) return [];
+
+  const browser = await chromium.launch({ headless: true });
+  const results: ScrapeRecipeFixtureResult[] = [];
+
+  try {
+    const context = await browser.newContext({ javaScriptEnabled: false });
+    await context.route('**/*', (route) => route.abort());
+
+    for (const fixture of fixtures) {
+      const page = await context.newPage();
+      try {
+        await page.setContent(fixture.html, { waitUntil: 'domcontentloaded' });
+        // Fixtures are single snapshots: no waiting, and pagination can't navigate.
+        await prepareRecipePage(page, { ...recipe, wait_for_selector: null });
+        const extracted = await extractWithRecipe(
+          page,
+          { ...recipe, pagination: null },
+          { baseUrl: fixture.source_url }
+        );
+        const failures = compareRecipeExtraction(extracted, fixture.expected);
+        results.push({
+          fixtureId: fixture.id,
+          name: fixture.name,
+          passed: failures.length === 0,
+          failures,
+          extracted,
+          actual: buildRecipeExpectation(extracted),
+        });
+      } finally {
+        await page.close();
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const runAt = new Date().toISOString();
+  for (const result of results) {
+    const { error } = await supabase
+      .from('scrape_recipe_fixtures')
+      .update({ last_run_at: runAt, last_run_passed: result.passed, last_run_failures: result.failures })
+      .eq('id', result.fixtureId);
+    if (error) {
+      console.error('Failed to record fixture result:', error.message);
+    }
+  }
+
+  return results;
+}
+
+export const FIXTURE_SUMMARY_COLUMNS =
+  'id, recipe_id, name, source_url, expected, last_run_at, last_run_passed, last_run_failures, created_at, updated_at';
+
+/**
+ * Load a page with a recipe applied and keep its rendered HTML as a new
+ * fixture, expecting what the recipe extracts today.
+ */
+export async function captureScrapeRecipeFixture(
+  supabase: SupabaseClient,
+  recipe: ScrapeRecipe,
+  input: { url: string; name?: string }
+): Promise<{ fixture: ScrapeRecipeFixtureSummary; extracted: ScrapeRecipeExtraction }> {
+  if (!isRecipeDomainUrl(recipe, input.url)) {
+    throw new Error(`URL is not on ${recipe.domain}`);
+  }
+
+  const browser = await chromium.launch({ headless: true });
+  let html: string;
+  let extracted: ScrapeRecipeExtraction;
+
+  try {
+    const context = await browser.newContext({
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      locale: 'en-AU',
+      timezoneId: 'Australia/Sydney',
+    });
+    const page = await context.newPage();
+    await page.goto(input.url, { timeout: 30000, waitUntil: 'domcontentloaded' });
+    await page.waitForTimeout(2000);
+
+    await prepareRecipePage(page, recipe);
+    // Snapshot after the clicks so tab/accordion content is in the HTML
+    html = await page.content();
+    extracted = await extractWithRecipe(page, { ...recipe, pagination: null });
+  } finally {
+    await browser.close();
+  }
+
+  const { data, error } = await supabase
+    .from('scrape_recipe_fixtures')
+    .insert({
+      recipe_id: recipe.id,
+      name: input.name || new URL(input.url).pathname,
+      source_url: input.url,
+      html,
+      expected: buildRecipeExpectation(extracted),
+    })
+    .select(FIXTURE_SUMMARY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save fixture: ${error?.message || 'no row returned'}`);
+  }
+
+  return { fixture: data as ScrapeRecipeFixtureSummary, extracted };
+}
+
+/**
+ * Recipes with their fixtures (without HTML), by domain
+ */
+export async function listScrapeRecipes(supabase: SupabaseClient): Promise<ScrapeRecipeWithFixtures[]> {
+  const { data, error } = await supabase
+    .from('scrape_recipes')
+    .select(`*, fixtures:scrape_recipe_fixtures(${FIXTURE_SUMMARY_COLUMNS})`)
+    .order('domain', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load scrape recipes: ${error.message}`);
+  }
+  return (data || []) as ScrapeRecipeWithFixtures[];
+}
+
+export async function getScrapeRecipe(supabase: SupabaseClient, id: string): Promise<ScrapeRecipeWithFixtures | null> {
+  const { data, error } = await supabase
+    .from('scrape_recipes')
+    .select(`*, fixtures:scrape_recipe_fixtures(${FIXTURE_SUMMARY_COLUMNS})`)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load scrape recipe: ${error.message}`);
+  }
+  return data as ScrapeRecipeWithFixtures | null;
+}
+
+/**
+ * Run every fixture of a recipe (HTML included)
+ */
+export async function testScrapeRecipe(
+  supabase: SupabaseClient,
+  recipe: ScrapeRecipe
+): Promise<ScrapeRecipeFixtureResult[]> {
+  const { data, error } = await supabase
+    .from('scrape_recipe_fixtures')
+    .select('*')
+    .eq('recipe_id', recipe.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load fixtures: ${error.message}`);
+  }
+  return runScrapeRecipeFixtures(supabase, recipe, (data || []) as ScrapeRecipeFixture[]);
+}
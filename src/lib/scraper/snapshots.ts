@@ -0,0 +1,252 @@
+/**
+ * CHT Operating System - Scrape Snapshots
+ *
+ * Each scrape stores the rendered page HTML (gzipped) and a full-page
+ * screenshot in a private bucket. Re-extraction replays the stored HTML
+ * at its original URL with JavaScript disabled and every request aborted,
+ * then runs the same JSON-LD/HTML extraction (and domain recipe) as a live
+ * scrape, so an improved extractor can be applied without the network.
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import { chromium, type Page } from 'playwright';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { scrapingConfig } from '@/config';
+import type { ProductOnboarding, RawScrapedData, ScrapeRecipe, ScrapeSnapshot } from '@/types';
+import { extractJsonLd, parseHtml, summarizeScrapedData, type ScrapedSummary } from './extract';
+import { extractWithRecipe, findScrapeRecipe, mergeRecipeExtraction, prepareRecipePage } from './recipes';
+
+const SCREENSHOT_QUALITY = 70;
+const SCREENSHOT_URL_TTL_SECONDS = 60 * 60;
+
+export interface ScrapeSnapshotListItem extends ScrapeSnapshot {
+  /** Short-lived signed URL for the screenshot (the bucket is private) */
+  screenshot_url: string | null;
+}
+
+export interface SnapshotExtraction {
+  jsonLd: RawScrapedData['jsonLd'] | null;
+  htmlParsed: Awaited<ReturnType<typeof parseHtml>>;
+  summary: ScrapedSummary;
+  recipe: ScrapeRecipe | null;
+}
+
+/**
+ * Store the page's current DOM and a screenshot. The screenshot is best
+ * effort; the HTML is what re-extraction needs.
+ */
+export async function captureScrapeSnapshot(
+  supabase: SupabaseClient,
+  page: Page,
+  options: { sourceUrl: string; productId?: string | null }
+): Promise<ScrapeSnapshot> {
+  const bucket = supabase.storage.from(scrapingConfig.snapshotBucket);
+  const basePath = `${options.productId || 'adhoc'}/${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+  const html = await page.content();
+  const htmlPath = `${basePath}.html.gz`;
+  const { error: htmlError } = await bucket.upload(htmlPath, gzipSync(html), {
+    contentType: 'application/gzip',
+    upsert: true,
+  });
+  if (htmlError) {
+    throw new Error(`Failed to upload page snapshot: ${htmlError.message}`);
+  }
+
+  let screenshotPath: string | null = `${basePath}.jpg`;
+  try {
+    const screenshot = await page.screenshot({ fullPage: true, type: 'jpeg', quality: SCREENSHOT_QUALITY });
+    const { error } = await bucket.upload(screenshotPath, screenshot, { contentType: 'image/jpeg', upsert: true });
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error('Failed to store scrape screenshot:', error);
+    screenshotPath = null;
+  }
+
+  const { data, error } = await supabase
+    .from('scrape_snapshots')
+    .insert({
+      product_onboarding_id: options.productId || null,
+      source_url: options.sourceUrl,
+      html_path: htmlPath,
+      screenshot_path: screenshotPath,
+      html_bytes: Buffer.byteLength(html),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record page snapshot: ${error.message}`);
+  }
+
+  return data as ScrapeSnapshot;
+}
+
+/**
+ * Snapshots for a product, newest first
+ */
+export async function listScrapeSnapshots(
+  supabase: SupabaseClient,
+  productId: string
+): Promise<ScrapeSnapshotListItem[]> {
+  const { data, error } = await supabase
+    .from('scrape_snapshots')
+    .select('*')
+    .eq('product_onboarding_id', productId)
+    .order('captured_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load snapshots: ${error.message}`);
+  }
+
+  const bucket = supabase.storage.from(scrapingConfig.snapshotBucket);
+  return Promise.all(
+    ((data || []) as ScrapeSnapshot[]).map(async (snapshot) => {
+      if (!snapshot.screenshot_path) return { ...snapshot, screenshot_url: null };
+      const { data: signed } = await bucket.createSignedUrl(snapshot.screenshot_path, SCREENSHOT_URL_TTL_SECONDS);
+      return { ...snapshot, screenshot_url: signed?.signedUrl || null };
+    })
+  );
+}
+
+/**
+ * Run extraction against a stored snapshot without touching the network
+ */
+export async function extractFromSnapshot(
+  supabase: SupabaseClient,
+  snapshot: ScrapeSnapshot
+): Promise<SnapshotExtraction> {
+  const { data: file, error } = await supabase.storage
+    .from(scrapingConfig.snapshotBucket)
+    .download(snapshot.html_path);
+
+  if (error || !file) {
+    throw new Error(`Snapshot HTML not found: ${error?.message || snapshot.html_path}`);
+  }
+
+  const html = gunzipSync(Buffer.from(await file.arrayBuffer())).toString('utf-8');
+  const recipe = await findScrapeRecipe(supabase, snapshot.source_url);
+
+  const browser = await chromium.launch({ headless: true });
+  try {
+    const context = await browser.newContext({ javaScriptEnabled: false });
+    // Serve the snapshot at its original URL (so relative URLs resolve as
+    // they did live) and block everything else.
+    await context.route('**/*', (route) => {
+      const request = route.request();
+      return request.isNavigationRequest() && !request.frame().parentFrame()
+        ? route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body: html })
+        : route.abort();
+    });
+
+    const page = await context.newPage();
+    await page.goto(snapshot.source_url, { waitUntil: 'domcontentloaded' });
+
+    let recipeExtraction = null;
+    if (recipe) {
+      // The snapshot was taken after the live clicks, and can't paginate.
+      await prepareRecipePage(page, { ...recipe, wait_for_selector: null });
+      recipeExtraction = await extractWithRecipe(
+        page,
+        { ...recipe, pagination: null },
+        { baseUrl: snapshot.source_url }
+      );
+    }
+
+    const jsonLd = await extractJsonLd(page);
+    const heuristicParsed = await parseHtml(page);
+    const htmlParsed = recipeExtraction
+      ? mergeRecipeExtraction(heuristicParsed, recipeExtraction)
+      : heuristicParsed;
+
+    return {
+      jsonLd: jsonLd || null,
+      htmlParsed,
+      summary: summarizeScrapedData(jsonLd, htmlParsed),
+      recipe,
+    };
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Raised when the product or snapshot to re-extract from doesn't exist
+ */
+export class SnapshotNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotNotFoundError';
+  }
+}
+
+/**
+ * Re-extract a product from its latest snapshot (or a given one) and save
+ * the result like a scrape would, keeping AI/image data already attached.
+ */
+export async function reExtractProductFromSnapshot(
+  supabase: SupabaseClient,
+  productId: string,
+  snapshotId?: string
+): Promise<{ product: ProductOnboarding; snapshot: ScrapeSnapshot; extraction: SnapshotExtraction }> {
+  const { data: product, error: productError } = await supabase
+    .from('product_onboarding')
+    .select('*')
+    .eq('id', productId)
+    .maybeSingle();
+
+  if (productError) {
+    throw new Error(`Failed to load product: ${productError.message}`);
+  }
+  if (!product) {
+    throw new SnapshotNotFoundError('Product not found');
+  }
+
+  let query = supabase
+    .from('scrape_snapshots')
+    .select('*')
+    .eq('product_onboarding_id', productId);
+  query = snapshotId
+    ? query.eq('id', snapshotId)
+    : query.order('captured_at', { ascending: false }).limit(1);
+
+  const { data: snapshots, error: snapshotError } = await query;
+  if (snapshotError) {
+    throw new Error(`Failed to load snapshot: ${snapshotError.message}`);
+  }
+  const snapshot = (snapshots || [])[0] as ScrapeSnapshot | undefined;
+  if (!snapshot) {
+    throw new SnapshotNotFoundError('Snapshot not found. Scrape the product first.');
+  }
+
+  const extraction = await extractFromSnapshot(supabase, snapshot);
+  const previous = (product as ProductOnboarding).raw_scraped_json;
+
+  const rawScrapedJson = {
+    ...previous,
+    jsonLd: extraction.jsonLd || undefined,
+    htmlParsed: extraction.htmlParsed,
+    scrapedAt: snapshot.captured_at,
+    sourceUrl: snapshot.source_url,
+    recipe: extraction.recipe ? { id: extraction.recipe.id, domain: extraction.recipe.domain } : undefined,
+    snapshot: { id: snapshot.id, capturedAt: snapshot.captured_at },
+    reExtractedAt: new Date().toISOString(),
+  };
+
+  const { data: updated, error: updateError } = await supabase
+    .from('product_onboarding')
+    .update({
+      raw_scraped_json: rawScrapedJson,
+      title: extraction.summary.title,
+      rrp_aud: extraction.summary.price,
+    })
+    .eq('id', productId)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new Error(`Failed to save re-extracted data: ${updateError.message}`);
+  }
+
+  return { product: updated as ProductOnboarding, snapshot, extraction };
+}
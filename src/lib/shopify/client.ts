@@ -155,25 +155,6 @@ export const CREATE_PRODUCT_MUTATION = `
   }
 `;
 
-/**
- * GraphQL mutation to add images to a product
- */
-export const ADD_PRODUCT_IMAGES_MUTATION = `
-  mutation productAppendImages($input: ProductAppendImagesInput!) {
-    productAppendImages(input: $input) {
-      newImages {
-        id
-        src
-        altText
-      }
-      userErrors {
-        field
-        message
-      }
-    }
-  }
-`;
-
 /**
  * GraphQL query to fetch products with pagination
  * Used for importing products from Shopify into local system
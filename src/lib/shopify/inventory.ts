@@ -0,0 +1,193 @@
+/**
+ * Shopify inventory helpers
+ *
+ * Locations, per-location "available" quantities for variants, and
+ * inventorySetQuantities pushes. IDs are Shopify legacy (numeric) IDs,
+ * matching how product and variant IDs are stored on inventory_items.
+ */
+
+import type { getGraphQLClient } from '@/lib/shopify/client';
+
+type GraphQLClient = NonNullable<Awaited<ReturnType<typeof getGraphQLClient>>>;
+
+const NODES_BATCH_SIZE = 50;
+
+export interface ShopifyLocationNode {
+  legacyResourceId: string;
+  name: string;
+  isActive: boolean;
+}
+
+const LOCATIONS_QUERY = `
+  query locations($first: Int!) {
+    locations(first: $first, includeInactive: true) {
+      nodes {
+        legacyResourceId
+        name
+        isActive
+      }
+    }
+  }
+`;
+
+const VARIANT_INVENTORY_ITEM_QUERY = `
+  query variantInventoryItem($id: ID!) {
+    productVariant(id: $id) {
+      inventoryItem {
+        id
+      }
+    }
+  }
+`;
+
+const INVENTORY_ACTIVATE_MUTATION = `
+  mutation inventoryActivate($inventoryItemId: ID!, $locationId: ID!) {
+    inventoryActivate(inventoryItemId: $inventoryItemId, locationId: $locationId) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const INVENTORY_SET_QUANTITIES_MUTATION = `
+  mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+    inventorySetQuantities(input: $input) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const VARIANT_LEVELS_QUERY = `
+  query variantInventoryLevels($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        legacyResourceId
+        inventoryItem {
+          inventoryLevels(first: 50) {
+            nodes {
+              location {
+                legacyResourceId
+              }
+              quantities(names: ["available"]) {
+                name
+                quantity
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export async function fetchShopifyLocations(graphqlClient: GraphQLClient): Promise<ShopifyLocationNode[]> {
+  const response = await graphqlClient.request(LOCATIONS_QUERY, { variables: { first: 100 } });
+  const data = response.data as { locations?: { nodes?: ShopifyLocationNode[] } };
+  return data.locations?.nodes || [];
+}
+
+/**
+ * Set a variant's available quantity at each location. The variant is
+ * activated at locations it is not stocked at yet.
+ */
+export async function setShopifyVariantQuantities(
+  graphqlClient: GraphQLClient,
+  variantId: string,
+  quantities: Array<{ shopifyLocationId: string; quantity: number }>
+): Promise<void> {
+  if (quantities.length === 0) return;
+
+  const variantResponse = await graphqlClient.request(VARIANT_INVENTORY_ITEM_QUERY, {
+    variables: { id: `gid://shopify/ProductVariant/${variantId}` },
+  });
+  const inventoryItemId = (variantResponse.data as {
+    productVariant?: { inventoryItem?: { id: string } } | null;
+  }).productVariant?.inventoryItem?.id;
+
+  if (!inventoryItemId) {
+    throw new Error(`Shopify variant ${variantId} not found`);
+  }
+
+  for (const { shopifyLocationId } of quantities) {
+    const activateResponse = await graphqlClient.request(INVENTORY_ACTIVATE_MUTATION, {
+      variables: { inventoryItemId, locationId: `gid://shopify/Location/${shopifyLocationId}` },
+    });
+    const activateErrors = (activateResponse.data as {
+      inventoryActivate?: { userErrors?: Array<{ message: string }> };
+    }).inventoryActivate?.userErrors || [];
+    if (activateErrors.length > 0) {
+      throw new Error(activateErrors.map((e) => e.message).join(', '));
+    }
+  }
+
+  const setResponse = await graphqlClient.request(INVENTORY_SET_QUANTITIES_MUTATION, {
+    variables: {
+      input: {
+        name: 'available',
+        reason: 'correction',
+        ignoreCompareQuantity: true,
+        quantities: quantities.map(({ shopifyLocationId, quantity }) => ({
+          inventoryItemId,
+          locationId: `gid://shopify/Location/${shopifyLocationId}`,
+          quantity,
+        })),
+      },
+    },
+  });
+  const setErrors = (setResponse.data as {
+    inventorySetQuantities?: { userErrors?: Array<{ message: string }> };
+  }).inventorySetQuantities?.userErrors || [];
+  if (setErrors.length > 0) {
+    throw new Error(setErrors.map((e) => e.message).join(', '));
+  }
+}
+
+/**
+ * Available quantity per location for each variant:
+ * variant ID -> (Shopify location ID -> quantity). Variants Shopify no
+ * longer has are absent from the result.
+ */
+export async function fetchShopifyVariantQuantities(
+  graphqlClient: GraphQLClient,
+  variantIds: string[]
+): Promise<Map<string, Map<string, number>>> {
+  const result = new Map<string, Map<string, number>>();
+
+  for (let i = 0; i < variantIds.length; i += NODES_BATCH_SIZE) {
+    const batch = variantIds.slice(i, i + NODES_BATCH_SIZE);
+    const response = await graphqlClient.request(VARIANT_LEVELS_QUERY, {
+      variables: { ids: batch.map((id) => `gid://shopify/ProductVariant/${id}`) },
+    });
+    const nodes = (response.data as {
+      nodes?: Array<{
+        legacyResourceId?: string;
+        inventoryItem?: {
+          inventoryLevels?: {
+            nodes?: Array<{
+              location?: { legacyResourceId: string };
+              quantities?: Array<{ name: string; quantity: number }>;
+            }>;
+          };
+        };
+      } | null>;
+    }).nodes || [];
+
+    for (const node of nodes) {
+      if (!node?.legacyResourceId) continue;
+      const levels = new Map<string, number>();
+      for (const level of node.inventoryItem?.inventoryLevels?.nodes || []) {
+        if (!level.location) continue;
+        const available = level.quantities?.find((q) => q.name === 'available')?.quantity ?? 0;
+        levels.set(level.location.legacyResourceId, available);
+      }
+      result.set(node.legacyResourceId, levels);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,265 @@
+/**
+ * Shopify product media helpers
+ *
+ * Uploads an item's image_urls as product media with alt text. Uploaded
+ * media are remembered per URL (inventory_items.shopify_media), so a
+ * re-sync only creates media for new images, updates changed alt text,
+ * reorders, and deletes media for images removed locally.
+ */
+
+import type { getGraphQLClient } from '@/lib/shopify/client';
+import type { InventoryItem, ShopifyMediaLink } from '@/types';
+
+type GraphQLClient = NonNullable<Awaited<ReturnType<typeof getGraphQLClient>>>;
+type MediaUserErrors = Array<{ field?: string[] | null; message: string }>;
+
+// Shopify's limits for alt text and media per product
+const MAX_ALT_TEXT_LENGTH = 512;
+const MAX_PRODUCT_MEDIA = 250;
+
+export interface ShopifyMediaImage {
+  url: string;
+  altText: string;
+}
+
+export interface ShopifyMediaSyncResult {
+  /** Links for the item's images, in image order */
+  media: ShopifyMediaLink[];
+  created: number;
+  deleted: number;
+  /** Set when media were created but a later step (reordering) failed */
+  error?: string;
+}
+
+interface ProductMediaNode {
+  id: string;
+  alt: string | null;
+  status: 'UPLOADED' | 'PROCESSING' | 'READY' | 'FAILED';
+}
+
+const PRODUCT_MEDIA_QUERY = `
+  query productMedia($id: ID!, $first: Int!) {
+    product(id: $id) {
+      media(first: $first) {
+        nodes {
+          id
+          alt
+          status
+        }
+      }
+    }
+  }
+`;
+
+const PRODUCT_CREATE_MEDIA_MUTATION = `
+  mutation productCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
+    productCreateMedia(productId: $productId, media: $media) {
+      media {
+        id
+        alt
+      }
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const PRODUCT_UPDATE_MEDIA_MUTATION = `
+  mutation productUpdateMedia($productId: ID!, $media: [UpdateMediaInput!]!) {
+    productUpdateMedia(productId: $productId, media: $media) {
+      media {
+        id
+      }
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const PRODUCT_DELETE_MEDIA_MUTATION = `
+  mutation productDeleteMedia($productId: ID!, $mediaIds: [ID!]!) {
+    productDeleteMedia(productId: $productId, mediaIds: $mediaIds) {
+      deletedMediaIds
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const PRODUCT_REORDER_MEDIA_MUTATION = `
+  mutation productReorderMedia($id: ID!, $moves: [MoveInput!]!) {
+    productReorderMedia(id: $id, moves: $moves) {
+      job {
+        id
+      }
+      mediaUserErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Images to publish for an item: remote image_urls (data URIs can't be
+ * fetched by Shopify) with alt text from image processing, then AI
+ * copywriting, then a brand/model fallback.
+ */
+export function getItemMediaImages(
+  item: Pick<InventoryItem, 'brand' | 'model' | 'image_urls' | 'specifications'>
+): ShopifyMediaImage[] {
+  const specs = (item.specifications || {}) as Record<string, unknown>;
+  const processed = (specs._processedImages as { processed?: Array<{ url: string; altText?: string }> } | undefined)
+    ?.processed || [];
+  const aiAltTexts = (specs._aiGenerated as { altTexts?: string[] } | undefined)?.altTexts || [];
+
+  const urls = [...new Set(item.image_urls || [])]
+    .filter((url) => url.startsWith('http://') || url.startsWith('https://'))
+    .slice(0, MAX_PRODUCT_MEDIA);
+
+  return urls.map((url, index) => {
+    const altText =
+      processed.find((image) => image.url === url)?.altText ||
+      aiAltTexts[index] ||
+      `${item.brand} ${item.model} product image ${index + 1}`;
+    return { url, altText: altText.slice(0, MAX_ALT_TEXT_LENGTH) };
+  });
+}
+
+/**
+ * Make a product's media match `images`. `linked` is what earlier syncs
+ * uploaded; links whose media Shopify no longer has (deleted in admin or
+ * failed processing) are uploaded again. Media not in `linked` (added in
+ * Shopify, or owned by other variants of a grouped product) are left alone.
+ *
+ * With `reorder`, our media are moved to the front in image order.
+ */
+export async function syncShopifyProductMedia(
+  graphqlClient: GraphQLClient,
+  productId: string,
+  images: ShopifyMediaImage[],
+  linked: ShopifyMediaLink[],
+  options: { reorder?: boolean } = {}
+): Promise<ShopifyMediaSyncResult> {
+  const productGid = `gid://shopify/Product/${productId}`;
+  const current = await fetchProductMedia(graphqlClient, productGid);
+  const currentById = new Map(current.map((node) => [node.id, node]));
+  const wantedUrls = new Set(images.map((image) => image.url));
+
+  const live = new Map<string, ShopifyMediaLink>();
+  const toDelete: string[] = [];
+  for (const link of linked) {
+    const node = currentById.get(link.mediaId);
+    if (!node) continue;
+    if (node.status === 'FAILED' || !wantedUrls.has(link.url) || live.has(link.url)) {
+      toDelete.push(link.mediaId);
+    } else {
+      live.set(link.url, link);
+    }
+  }
+
+  if (toDelete.length > 0) {
+    const response = await graphqlClient.request(PRODUCT_DELETE_MEDIA_MUTATION, {
+      variables: { productId: productGid, mediaIds: toDelete },
+    });
+    assertNoMediaErrors(
+      (response.data as { productDeleteMedia?: { mediaUserErrors?: MediaUserErrors } }).productDeleteMedia
+        ?.mediaUserErrors
+    );
+  }
+
+  const altUpdates = images.filter((image) => {
+    const link = live.get(image.url);
+    return link && (currentById.get(link.mediaId)?.alt || '') !== image.altText;
+  });
+  if (altUpdates.length > 0) {
+    const response = await graphqlClient.request(PRODUCT_UPDATE_MEDIA_MUTATION, {
+      variables: {
+        productId: productGid,
+        media: altUpdates.map((image) => ({ id: live.get(image.url)!.mediaId, alt: image.altText })),
+      },
+    });
+    assertNoMediaErrors(
+      (response.data as { productUpdateMedia?: { mediaUserErrors?: MediaUserErrors } }).productUpdateMedia
+        ?.mediaUserErrors
+    );
+  }
+
+  const toCreate = images.filter((image) => !live.has(image.url));
+  if (toCreate.length > 0) {
+    const response = await graphqlClient.request(PRODUCT_CREATE_MEDIA_MUTATION, {
+      variables: {
+        productId: productGid,
+        media: toCreate.map((image) => ({
+          originalSource: image.url,
+          alt: image.altText,
+          mediaContentType: 'IMAGE',
+        })),
+      },
+    });
+    const payload = (response.data as {
+      productCreateMedia?: { media?: Array<{ id: string } | null>; mediaUserErrors?: MediaUserErrors };
+    }).productCreateMedia;
+    assertNoMediaErrors(payload?.mediaUserErrors);
+
+    // Created media come back in input order.
+    toCreate.forEach((image, index) => {
+      const mediaId = payload?.media?.[index]?.id;
+      if (mediaId) live.set(image.url, { url: image.url, mediaId, altText: image.altText });
+    });
+  }
+
+  const media = images
+    .filter((image) => live.has(image.url))
+    .map((image) => ({ ...live.get(image.url)!, altText: image.altText }));
+  const result: ShopifyMediaSyncResult = { media, created: toCreate.length, deleted: toDelete.length };
+
+  if (options.reorder) {
+    // Reordering runs after upload, so a failure here must not lose the new links.
+    try {
+      const deleted = new Set(toDelete);
+      const order = [
+        ...current.map((node) => node.id).filter((id) => !deleted.has(id)),
+        ...media.map((link) => link.mediaId).filter((id) => !currentById.has(id)),
+      ];
+      // Moves apply in sequence, so once anything is out of place move every link.
+      if (media.some((link, index) => order[index] !== link.mediaId)) {
+        const moves = media.map((link, index) => ({ id: link.mediaId, newPosition: String(index) }));
+        const response = await graphqlClient.request(PRODUCT_REORDER_MEDIA_MUTATION, {
+          variables: { id: productGid, moves },
+        });
+        assertNoMediaErrors(
+          (response.data as { productReorderMedia?: { mediaUserErrors?: MediaUserErrors } }).productReorderMedia
+            ?.mediaUserErrors
+        );
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Failed to reorder media';
+    }
+  }
+
+  return result;
+}
+
+async function fetchProductMedia(graphqlClient: GraphQLClient, productGid: string): Promise<ProductMediaNode[]> {
+  const response = await graphqlClient.request(PRODUCT_MEDIA_QUERY, {
+    variables: { id: productGid, first: MAX_PRODUCT_MEDIA },
+  });
+  const product = (response.data as { product?: { media?: { nodes?: ProductMediaNode[] } } | null }).product;
+  if (!product) {
+    throw new Error('Shopify product not found');
+  }
+  return product.media?.nodes || [];
+}
+
+function assertNoMediaErrors(errors?: MediaUserErrors): void {
+  if (errors?.length) {
+    throw new Error(errors.map((e) => e.message).join(', '));
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Shopify webhook helpers
+ *
+ * HMAC verification for incoming webhooks and idempotent registration of
+ * webhook subscriptions pointing at this app.
+ */
+
+import crypto from 'crypto';
+import type { getGraphQLClient } from '@/lib/shopify/client';
+
+type GraphQLClient = NonNullable<Awaited<ReturnType<typeof getGraphQLClient>>>;
+
+export interface WebhookSubscriptionNode {
+  id: string;
+  topic: string;
+  endpoint: { __typename?: string; callbackUrl?: string };
+}
+
+export function verifyWebhookHmac(rawBody: string, hmacHeader: string | null): boolean {
+  const secret = process.env.SHOPIFY_API_SECRET || '';
+  if (!secret || !hmacHeader) {
+    return false;
+  }
+
+  const digest = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64');
+  const digestBuffer = Buffer.from(digest);
+  const hmacBuffer = Buffer.from(hmacHeader);
+  if (digestBuffer.length !== hmacBuffer.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(digestBuffer, hmacBuffer);
+}
+
+export function toOrderGid(orderId: string): string {
+  if (orderId.startsWith('gid://shopify/Order/')) return orderId;
+  if (/^\d+$/.test(orderId)) return `gid://shopify/Order/${orderId}`;
+  return orderId;
+}
+
+export function toCustomerGid(customerId: string): string {
+  if (customerId.startsWith('gid://shopify/Customer/')) return customerId;
+  if (/^\d+$/.test(customerId)) return `gid://shopify/Customer/${customerId}`;
+  return customerId;
+}
+
+const LIST_WEBHOOKS_QUERY = `
+  query listWebhooks($first: Int!, $topics: [WebhookSubscriptionTopic!]) {
+    webhookSubscriptions(first: $first, topics: $topics) {
+      edges {
+        node {
+          id
+          topic
+          endpoint {
+            __typename
+            ... on WebhookHttpEndpoint {
+              callbackUrl
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const CREATE_WEBHOOK_MUTATION = `
+  mutation createWebhook($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+      webhookSubscription {
+        id
+        topic
+        endpoint {
+          __typename
+          ... on WebhookHttpEndpoint {
+            callbackUrl
+          }
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const DELETE_WEBHOOK_MUTATION = `
+  mutation deleteWebhook($id: ID!) {
+    webhookSubscriptionDelete(id: $id) {
+      deletedWebhookSubscriptionId
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+async function listWebhookSubscriptions(
+  graphqlClient: GraphQLClient,
+  topics: readonly string[]
+): Promise<WebhookSubscriptionNode[]> {
+  const response = await graphqlClient.request(LIST_WEBHOOKS_QUERY, {
+    variables: {
+      first: 50,
+      topics,
+    },
+  });
+  const data = response.data as {
+    webhookSubscriptions?: {
+      edges?: Array<{ node: WebhookSubscriptionNode }>;
+    };
+  };
+  return (data.webhookSubscriptions?.edges || []).map((edge) => edge.node);
+}
+
+/**
+ * Ensure exactly one subscription per topic points at callbackUrl.
+ * Subscriptions for these topics pointing anywhere else are deleted.
+ */
+export async function syncWebhookSubscriptions(
+  graphqlClient: GraphQLClient,
+  topics: readonly string[],
+  callbackUrl: string
+): Promise<{
+  deletedIds: string[];
+  created: Array<{ id: string; topic: string; callbackUrl: string | null }>;
+  errors: Array<{ topic: string; message: string }>;
+  subscriptions: WebhookSubscriptionNode[];
+}> {
+  const allExisting = await listWebhookSubscriptions(graphqlClient, topics);
+  const deletedIds: string[] = [];
+
+  // Keep only one subscription per topic for our callback URL.
+  for (const node of allExisting) {
+    const nodeUrl = node.endpoint?.callbackUrl || '';
+    if (nodeUrl !== callbackUrl) {
+      const deleteResponse = await graphqlClient.request(DELETE_WEBHOOK_MUTATION, {
+        variables: { id: node.id },
+      });
+      const deleteData = deleteResponse.data as {
+        webhookSubscriptionDelete?: {
+          deletedWebhookSubscriptionId?: string | null;
+          userErrors?: Array<{ message: string }>;
+        };
+      };
+      const deleteErrors = deleteData.webhookSubscriptionDelete?.userErrors || [];
+      if (deleteErrors.length === 0 && deleteData.webhookSubscriptionDelete?.deletedWebhookSubscriptionId) {
+        deletedIds.push(deleteData.webhookSubscriptionDelete.deletedWebhookSubscriptionId);
+      }
+    }
+  }
+
+  const created: Array<{ id: string; topic: string; callbackUrl: string | null }> = [];
+  const errors: Array<{ topic: string; message: string }> = [];
+
+  for (const topic of topics) {
+    const alreadyExists = allExisting.some(
+      (node) => node.topic === topic && node.endpoint?.callbackUrl === callbackUrl
+    );
+    if (alreadyExists) {
+      continue;
+    }
+
+    const createResponse = await graphqlClient.request(CREATE_WEBHOOK_MUTATION, {
+      variables: {
+        topic,
+        webhookSubscription: {
+          callbackUrl,
+          format: 'JSON',
+        },
+      },
+    });
+    const createData = createResponse.data as {
+      webhookSubscriptionCreate?: {
+        webhookSubscription?: {
+          id: string;
+          topic: string;
+          endpoint: { callbackUrl?: string };
+        } | null;
+        userErrors?: Array<{ message: string }>;
+      };
+    };
+    const userErrors = createData.webhookSubscriptionCreate?.userErrors || [];
+    if (userErrors.length > 0) {
+      userErrors.forEach((error) => errors.push({ topic, message: error.message }));
+      continue;
+    }
+
+    const webhook = createData.webhookSubscriptionCreate?.webhookSubscription;
+    if (webhook) {
+      created.push({
+        id: webhook.id,
+        topic: webhook.topic,
+        callbackUrl: webhook.endpoint?.callbackUrl || null,
+      });
+    }
+  }
+
+  return {
+    deletedIds,
+    created,
+    errors,
+    subscriptions: await listWebhookSubscriptions(graphqlClient, topics),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Supplier Pricelist Profiles
+ *
+ * Applies a supplier's conventions to extracted pricelist lines: ex-GST
+ * dealer prices become GST-inclusive cost (as stored on inventory items),
+ * RRP-only lines get a cost from the default dealer discount, and a
+ * single-brand supplier fills in missing brands. Free of server imports so
+ * the pricelist page can price imports with it.
+ */
+
+import type { Supplier } from '@/types';
+import type { PricelistItem } from '@/lib/pricelist/parser';
+import { addGst } from '@/lib/utils/gst';
+
+export type SupplierProfile = Pick<
+  Supplier,
+  'name' | 'brands' | 'default_discount_percent' | 'target_margin_percent' | 'price_basis' | 'prompt_hints'
+>;
+
+/** Sale price markup for new items without an RRP or supplier target margin */
+const DEFAULT_MARKUP = 1.3;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Apply the supplier's conventions to an (enriched) pricelist line
+ */
+export function applySupplierProfile(item: PricelistItem, supplier: SupplierProfile | null): PricelistItem {
+  if (!supplier) return item;
+
+  let costPrice = item.cost_price;
+  if (costPrice > 0) {
+    if (supplier.price_basis === 'ex_gst') costPrice = addGst(costPrice);
+  } else if (item.rrp_aud && supplier.default_discount_percent !== null) {
+    // RRPs are GST-inclusive, so the derived cost already is too
+    costPrice = roundCents(item.rrp_aud * (1 - supplier.default_discount_percent / 100));
+  }
+
+  return {
+    ...item,
+    cost_price: costPrice,
+    brand: item.brand || (supplier.brands.length === 1 ? supplier.brands[0] : undefined),
+  };
+}
+
+/**
+ * Sale price for a new item from a pricelist or purchase order line: the
+ * RRP, else cost at the supplier's target margin, else cost plus 30%
+ */
+export function suggestSalePrice(
+  line: Pick<PricelistItem, 'cost_price' | 'rrp_aud'>,
+  supplier: Pick<SupplierProfile, 'target_margin_percent'> | null
+): number {
+  if (line.rrp_aud) return line.rrp_aud;
+  const margin = supplier?.target_margin_percent;
+  return margin
+    ? Math.round(line.cost_price / (1 - margin / 100))
+    : Math.round(line.cost_price * DEFAULT_MARKUP);
+}
+
+/**
+ * Supplier-specific instructions appended to the vision parser prompt
+ */
+export function buildSupplierPromptHints(supplier: SupplierProfile): string {
+  const hints = [`Supplier: ${supplier.name}`];
+  if (supplier.brands.length > 0) {
+    hints.push(`Brands carried: ${supplier.brands.join(', ')}. Use one of these as brand where the row doesn't name one.`);
+  }
+  if (supplier.default_discount_percent !== null) {
+    hints.push('If a row shows only a retail/RRP price, return it as rrp_aud and set cost_price to null.');
+  }
+  if (supplier.prompt_hints?.trim()) {
+    hints.push(supplier.prompt_hints.trim());
+  }
+  return hints.join('\n');
+}
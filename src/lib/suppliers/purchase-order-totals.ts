@@ -0,0 +1,26 @@
+/**
+ * Purchase Order Totals
+ *
+ * Lines are priced ex-GST as on supplier invoices; GST is added on the
+ * order total. Free of server imports so the PO pages can total drafts
+ * as they're edited.
+ */
+
+import type { PurchaseOrderLine, PurchaseOrderTotals } from '@/types';
+import { calculateFromExGst } from '@/lib/utils/gst';
+
+type TotalsLine = Pick<PurchaseOrderLine, 'quantity' | 'unit_cost_ex_gst'> &
+  Partial<Pick<PurchaseOrderLine, 'quantity_received'>>;
+
+export function calculatePurchaseOrderTotals(lines: TotalsLine[]): PurchaseOrderTotals {
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * Number(line.unit_cost_ex_gst), 0);
+  const breakdown = calculateFromExGst(subtotal);
+
+  return {
+    subtotalExGst: breakdown.priceExGst,
+    gst: breakdown.gstAmount,
+    totalIncGst: breakdown.priceIncGst,
+    units: lines.reduce((sum, line) => sum + line.quantity, 0),
+    unitsReceived: lines.reduce((sum, line) => sum + (line.quantity_received ?? 0), 0),
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * CHT Operating System - Purchase Orders
+ *
+ * New-retail stock reordered from suppliers. A PO is edited as a draft,
+ * marked ordered, then received in one or more deliveries: each receipt
+ * runs receive_purchase_order (migrations/034_purchase_orders.sql), which
+ * creates inventory items for new products, adds stock at the receiving
+ * location and registers the serials captured on arrival.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeSerialNumber } from '@/lib/rma/service';
+import { addGst } from '@/lib/utils/gst';
+import { calculatePurchaseOrderTotals } from './purchase-order-totals';
+import { suggestSalePrice } from './profile';
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderReceiveResult,
+  PurchaseOrderStatus,
+  PurchaseOrderSummary,
+  PurchaseOrderWithDetails,
+} from '@/types';
+
+const SUMMARY_COLUMNS = '*, supplier:suppliers(id, name), lines:purchase_order_lines(quantity, quantity_received, unit_cost_ex_gst)';
+const DETAIL_COLUMNS = [
+  '*',
+  'supplier:suppliers(id, name, contact_name, contact_email, contact_phone, account_number, target_margin_percent)',
+  'location:inventory_locations(id, name)',
+  'lines:purchase_order_lines(*)',
+  'receipts:purchase_order_receipts(*)',
+].join(', ');
+
+export interface PurchaseOrderLineInput {
+  inventory_item_id?: string | null;
+  sku?: string | null;
+  brand: string;
+  model: string;
+  quantity: number;
+  unit_cost_ex_gst: number;
+  rrp_aud?: number | null;
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string;
+  location_id?: string | null;
+  expected_at?: string | null;
+  notes?: string | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface PurchaseOrderUpdate {
+  location_id?: string | null;
+  expected_at?: string | null;
+  notes?: string | null;
+  lines?: PurchaseOrderLineInput[];
+  status?: Extract<PurchaseOrderStatus, 'ordered' | 'cancelled'>;
+}
+
+export interface PurchaseOrderReceiptInput {
+  location_id?: string | null;
+  notes?: string | null;
+  lines: Array<{ line_id: string; quantity: number; serials: string[] }>;
+}
+
+export async function listPurchaseOrders(
+  supabase: SupabaseClient,
+  options: { status?: PurchaseOrderStatus; supplierId?: string } = {}
+): Promise<PurchaseOrderSummary[]> {
+  let query = supabase
+    .from('purchase_orders')
+    .select(SUMMARY_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.supplierId) query = query.eq('supplier_id', options.supplierId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load purchase orders: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const { lines, ...order } = row as PurchaseOrderSummary & { lines: PurchaseOrderLine[] };
+    return { ...order, totals: calculatePurchaseOrderTotals(lines || []) };
+  });
+}
+
+export async function getPurchaseOrder(
+  supabase: SupabaseClient,
+  id: string
+): Promise<PurchaseOrderWithDetails | null> {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(DETAIL_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load purchase order: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const order = data as unknown as PurchaseOrderWithDetails;
+  const lines = [...(order.lines || [])].sort((a, b) => a.sort_order - b.sort_order);
+  const receipts = [...(order.receipts || [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return { ...order, lines, receipts, totals: calculatePurchaseOrderTotals(lines) };
+}
+
+async function insertLines(supabase: SupabaseClient, purchaseOrderId: string, lines: PurchaseOrderLineInput[]) {
+  if (lines.length === 0) return;
+
+  const { error } = await supabase
+    .from('purchase_order_lines')
+    .insert(lines.map((line, index) => ({ ...line, purchase_order_id: purchaseOrderId, sort_order: index })));
+
+  if (error) {
+    throw new Error(`Failed to save purchase order lines: ${error.message}`);
+  }
+}
+
+export async function createPurchaseOrder(
+  supabase: SupabaseClient,
+  input: PurchaseOrderInput
+): Promise<PurchaseOrderWithDetails> {
+  const { lines, ...fields } = input;
+
+  const { data: created, error } = await supabase
+    .from('purchase_orders')
+    .insert(fields)
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create purchase order: ${error?.message || 'no row returned'}`);
+  }
+
+  try {
+    await insertLines(supabase, created.id, lines);
+  } catch (lineError) {
+    await supabase.from('purchase_orders').delete().eq('id', created.id);
+    throw lineError;
+  }
+
+  return (await getPurchaseOrder(supabase, created.id))!;
+}
+
+/**
+ * Why an update can't be applied to the PO in its current state, or null
+ */
+export function getPurchaseOrderUpdateError(
+  order: PurchaseOrderWithDetails,
+  update: PurchaseOrderUpdate
+): string | null {
+  if (update.lines && order.status !== 'draft') {
+    return `Lines can only be changed on a draft (${order.po_number} is ${order.status})`;
+  }
+  if (update.status === 'ordered') {
+    if (order.status !== 'draft') {
+      return `${order.po_number} has already been ordered`;
+    }
+    if ((update.lines ?? order.lines).length === 0) {
+      return 'Add at least one line before ordering';
+    }
+  }
+  if (update.status === 'cancelled') {
+    if (order.status === 'cancelled' || order.status === 'received') {
+      return `${order.po_number} is already ${order.status}`;
+    }
+    if (order.totals.unitsReceived > 0) {
+      return `${order.po_number} has stock received against it and can't be cancelled`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply an update already checked with getPurchaseOrderUpdateError. Lines,
+ * when given, replace the draft's lines.
+ */
+export async function updatePurchaseOrder(
+  supabase: SupabaseClient,
+  order: PurchaseOrderWithDetails,
+  update: PurchaseOrderUpdate
+): Promise<PurchaseOrderWithDetails> {
+  const { lines, ...fields } = update;
+
+  if (lines) {
+    const { error } = await supabase.rpc('replace_purchase_order_lines', {
+      p_purchase_order_id: order.id,
+      p_lines: lines,
+    });
+
+    if (error) {
+      throw new Error(`Failed to replace purchase order lines: ${error.message}`);
+    }
+  }
+
+  const changes: Partial<PurchaseOrder> = { ...fields };
+  if (update.status === 'ordered') {
+    changes.ordered_at = new Date().toISOString();
+  }
+
+  if (Object.keys(changes).length > 0) {
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update(changes)
+      .eq('id', order.id);
+
+    if (error) {
+      throw new Error(`Failed to update purchase order: ${error.message}`);
+    }
+  }
+
+  return (await getPurchaseOrder(supabase, order.id))!;
+}
+
+/**
+ * Why a receipt can't be taken against the PO, or null
+ */
+export function getReceiptError(order: PurchaseOrderWithDetails, input: PurchaseOrderReceiptInput): string | null {
+  if (order.status !== 'ordered' && order.status !== 'partially_received') {
+    return `${order.po_number} is ${order.status} and can't be received`;
+  }
+  if (!(input.location_id ?? order.location_id)) {
+    return 'Choose a location to receive stock into';
+  }
+  for (const entry of input.lines) {
+    const line = order.lines.find((candidate) => candidate.id === entry.line_id);
+    if (!line) {
+      return `Line ${entry.line_id} is not on ${order.po_number}`;
+    }
+    const outstanding = line.quantity - line.quantity_received;
+    if (entry.quantity > outstanding) {
+      return `Only ${outstanding} of ${line.brand} ${line.model} left to receive`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Serials (normalized) that are already in the serial registry
+ */
+export async function findRegisteredSerials(supabase: SupabaseClient, serials: string[]): Promise<string[]> {
+  const normalized = serials
+    .map((serial) => normalizeSerialNumber(serial))
+    .filter((serial): serial is string => Boolean(serial));
+  if (normalized.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('serial_registry')
+    .select('serial_number')
+    .in('serial_number', normalized);
+
+  if (error) {
+    throw new Error(`Failed to check serial registry: ${error.message}`);
+  }
+  return (data || []).map((row) => row.serial_number as string);
+}
+
+/**
+ * Receive units against the PO (checked with getReceiptError). Lines for
+ * new products get an item costed at the line's cost plus GST (cost_price
+ * is stored GST-inclusive) and priced at the RRP or supplier target margin.
+ */
+export async function receivePurchaseOrder(
+  supabase: SupabaseClient,
+  order: PurchaseOrderWithDetails,
+  input: PurchaseOrderReceiptInput
+): Promise<PurchaseOrderReceiveResult> {
+  const lines = input.lines.map((entry) => {
+    const line = order.lines.find((candidate) => candidate.id === entry.line_id)!;
+    const costPrice = addGst(Number(line.unit_cost_ex_gst));
+    return {
+      line_id: entry.line_id,
+      quantity: entry.quantity,
+      serials: entry.serials
+        .map((serial) => normalizeSerialNumber(serial))
+        .filter((serial): serial is string => Boolean(serial)),
+      cost_price: costPrice,
+      sale_price: suggestSalePrice(
+        { cost_price: costPrice, rrp_aud: line.rrp_aud ?? undefined },
+        order.supplier
+      ),
+    };
+  });
+
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: order.id,
+    p_location_id: input.location_id ?? order.location_id,
+    p_lines: lines,
+    p_notes: input.notes ?? null,
+  });
+
+  if (error) {
+    throw new Error(
+      error.code === '23505'
+        ? 'A serial in this receipt was registered in the meantime; nothing was received'
+        : `Failed to receive purchase order: ${error.message}`
+    );
+  }
+  return data as PurchaseOrderReceiveResult;
+}
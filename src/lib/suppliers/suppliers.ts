@@ -0,0 +1,62 @@
+/**
+ * CHT Operating System - Suppliers
+ *
+ * Supplier master records. Pricelist parsing reads a supplier's profile
+ * (see ./profile) and inventory items link back via supplier_id.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PricelistColumnMapping } from '@/lib/pricelist/fields';
+import type { Supplier } from '@/types';
+
+export async function listSuppliers(
+  supabase: SupabaseClient,
+  options: { includeInactive?: boolean } = {}
+): Promise<Supplier[]> {
+  let query = supabase
+    .from('suppliers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load suppliers: ${error.message}`);
+  }
+  return (data || []) as Supplier[];
+}
+
+export async function getSupplier(supabase: SupabaseClient, supplierId: string): Promise<Supplier | null> {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .eq('id', supplierId)
+    .maybeSingle<Supplier>();
+
+  if (error) {
+    throw new Error(`Failed to load supplier: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Remember the spreadsheet columns confirmed for a supplier's pricelist
+ */
+export async function saveSupplierColumnMapping(
+  supabase: SupabaseClient,
+  supplierId: string,
+  mapping: PricelistColumnMapping
+): Promise<void> {
+  const { error } = await supabase
+    .from('suppliers')
+    .update({ column_mapping: mapping })
+    .eq('id', supplierId);
+
+  if (error) {
+    throw new Error(`Failed to save column mapping: ${error.message}`);
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * CHT Operating System - Durable Sync Queue
+ *
+ * Postgres-backed queue for publishing inventory items. Each publish request
+ * becomes a sync_run with one sync_job per sync target. Workers lease jobs,
+ * retry failures with exponential backoff and dead-letter jobs that exhaust
+ * their attempts, so a bulk sync that times out mid-request can resume.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { getBackoffDelay } from '@/lib/utils/retry';
+import { getSyncTargetIds } from '@/lib/sync/publish';
+import {
+  getSyncTargetLabel,
+  type InventoryItem,
+  type SyncJob,
+  type SyncResult,
+  type SyncTargetResult,
+  type SyncRun,
+  type SyncRunStatus,
+  type SyncRunTrigger,
+  type SyncRunWithJobs,
+  type SyncTargetId,
+} from '@/types';
+
+const TERMINAL_JOB_STATUSES = ['succeeded', 'dead'];
+
+/**
+ * Queue a publish for an item: one run, one job per target in sync order.
+ * Pass `targets` to publish to a subset (e.g. only HubSpot after a sale).
+ */
+export async function enqueueSyncRun(
+  supabase: SupabaseClient,
+  item: Pick<InventoryItem, 'id' | 'listing_type'>,
+  trigger: SyncRunTrigger = 'manual',
+  options: { targets?: SyncTargetId[] } = {}
+): Promise<SyncRunWithJobs> {
+  const targetIds = getSyncTargetIds(item).filter(
+    (targetId) => !options.targets || options.targets.includes(targetId)
+  );
+  if (targetIds.length === 0) {
+    throw new Error('No sync targets apply to this item');
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('sync_runs')
+    .insert({ inventory_item_id: item.id, trigger, status: 'queued' })
+    .select('*')
+    .single<SyncRun>();
+
+  if (runError || !run) {
+    throw new Error(`Failed to create sync run: ${runError?.message || 'Unknown error'}`);
+  }
+
+  const jobRows = targetIds.map((targetId, index) => ({
+    run_id: run.id,
+    inventory_item_id: item.id,
+    platform: targetId,
+    step_index: index,
+    max_attempts: config.syncQueue.maxAttempts,
+  }));
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('sync_jobs')
+    .insert(jobRows)
+    .select('*');
+
+  if (jobsError) {
+    throw new Error(`Failed to create sync jobs: ${jobsError.message}`);
+  }
+
+  await supabase
+    .from('inventory_items')
+    .update({ sync_status: 'syncing', sync_error: null })
+    .eq('id', item.id);
+
+  return { ...run, jobs: (jobs || []) as SyncJob[] };
+}
+
+/**
+ * Lease ready jobs for a worker (see lease_sync_jobs in 020_sync_jobs.sql).
+ */
+export async function leaseSyncJobs(
+  supabase: SupabaseClient,
+  input: { workerId: string; limit?: number; runId?: string | null }
+): Promise<SyncJob[]> {
+  const { data, error } = await supabase.rpc('lease_sync_jobs', {
+    p_worker_id: input.workerId,
+    p_limit: input.limit ?? config.syncQueue.batchSize,
+    p_lease_seconds: config.syncQueue.leaseSeconds,
+    p_run_id: input.runId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to lease sync jobs: ${error.message}`);
+  }
+
+  return (data || []) as SyncJob[];
+}
+
+/**
+ * Mark a leased job as succeeded. Ignored if the lease was lost to another worker.
+ */
+export async function completeSyncJob(
+  supabase: SupabaseClient,
+  job: SyncJob,
+  workerId: string,
+  result: SyncTargetResult
+): Promise<void> {
+  const { error } = await supabase
+    .from('sync_jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      last_error: null,
+      lease_owner: null,
+      leased_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    throw new Error(`Failed to complete sync job: ${error.message}`);
+  }
+}
+
+/**
+ * Record a failed attempt. Requeues with backoff, or dead-letters the job
+ * once it has used all of its attempts (or straight away for permanent errors).
+ */
+export async function failSyncJob(
+  supabase: SupabaseClient,
+  job: SyncJob,
+  workerId: string,
+  errorMessage: string,
+  options: { permanent?: boolean } = {}
+): Promise<{ deadLettered: boolean; retryAt: string | null }> {
+  const now = new Date();
+  const deadLettered = options.permanent || job.attempts >= job.max_attempts;
+  const retryAt = deadLettered
+    ? null
+    : new Date(
+        now.getTime() +
+          getBackoffDelay(job.attempts, {
+            initialDelay: config.syncQueue.backoffInitialMs,
+            maxDelay: config.syncQueue.backoffMaxMs,
+            backoffFactor: config.syncQueue.backoffFactor,
+          })
+      ).toISOString();
+
+  const { error } = await supabase
+    .from('sync_jobs')
+    .update({
+      status: deadLettered ? 'dead' : 'queued',
+      last_error: errorMessage,
+      lease_owner: null,
+      leased_until: null,
+      ...(deadLettered
+        ? { dead_lettered_at: now.toISOString(), completed_at: now.toISOString() }
+        : { run_after: retryAt }),
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    throw new Error(`Failed to record sync job failure: ${error.message}`);
+  }
+
+  return { deadLettered, retryAt };
+}
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh set of attempts.
+ */
+export async function requeueSyncJob(supabase: SupabaseClient, jobId: string): Promise<SyncJob> {
+  const { data: job, error } = await supabase
+    .from('sync_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_after: new Date().toISOString(),
+      last_error: null,
+      dead_lettered_at: null,
+      completed_at: null,
+    })
+    .eq('id', jobId)
+    .eq('status', 'dead')
+    .select('*')
+    .maybeSingle<SyncJob>();
+
+  if (error) {
+    throw new Error(`Failed to requeue sync job: ${error.message}`);
+  }
+  if (!job) {
+    throw new Error('Dead-lettered sync job not found');
+  }
+
+  await supabase
+    .from('sync_runs')
+    .update({ status: 'running', completed_at: null })
+    .eq('id', job.run_id);
+
+  await supabase
+    .from('inventory_items')
+    .update({ sync_status: 'syncing' })
+    .eq('id', job.inventory_item_id);
+
+  return job;
+}
+
+/**
+ * Load a run with its jobs in step order.
+ */
+export async function getSyncRun(
+  supabase: SupabaseClient,
+  runId: string
+): Promise<SyncRunWithJobs | null> {
+  const { data: run, error } = await supabase
+    .from('sync_runs')
+    .select('*, jobs:sync_jobs(*)')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load sync run: ${error.message}`);
+  }
+  if (!run) return null;
+
+  return sortRunJobs(run as SyncRunWithJobs);
+}
+
+/**
+ * Latest run for an item (used to resume progress after a page reload).
+ */
+export async function getLatestSyncRun(
+  supabase: SupabaseClient,
+  inventoryItemId: string
+): Promise<SyncRunWithJobs | null> {
+  const { data: run, error } = await supabase
+    .from('sync_runs')
+    .select('*, jobs:sync_jobs(*)')
+    .eq('inventory_item_id', inventoryItemId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load sync run: ${error.message}`);
+  }
+  if (!run) return null;
+
+  return sortRunJobs(run as SyncRunWithJobs);
+}
+
+/**
+ * Close out a run once every job is terminal. Returns the finished run when
+ * this call closed it; null while jobs are outstanding or if another worker
+ * already closed it.
+ */
+export async function finalizeSyncRunIfDone(
+  supabase: SupabaseClient,
+  runId: string
+): Promise<SyncRunWithJobs | null> {
+  const run = await getSyncRun(supabase, runId);
+  if (!run) return null;
+  if (run.jobs.some((job) => !TERMINAL_JOB_STATUSES.includes(job.status))) {
+    return null;
+  }
+  if (isSyncRunFinished(run)) {
+    return null;
+  }
+
+  const result = buildSyncResult(run.jobs);
+  const status: SyncRunStatus = result.success ? 'succeeded' : 'failed';
+  const completedAt = new Date().toISOString();
+
+  // Only the first worker to observe completion flips the run status.
+  const { data: updated } = await supabase
+    .from('sync_runs')
+    .update({ status, result, completed_at: completedAt })
+    .eq('id', runId)
+    .in('status', ['queued', 'running'])
+    .select('id');
+
+  if (!updated?.length) {
+    return null;
+  }
+
+  return { ...run, status, result, completed_at: completedAt };
+}
+
+/**
+ * Fold per-target job results into a SyncResult.
+ */
+export function buildSyncResult(jobs: SyncJob[]): SyncResult {
+  const result: SyncResult = { success: true, targets: {}, errors: [] };
+
+  for (const job of jobs) {
+    if (job.status === 'succeeded') {
+      result.targets[job.platform] = job.result || { success: true };
+    } else if (job.status === 'dead') {
+      const error = job.last_error || 'Unknown error';
+      result.targets[job.platform] = { success: false, error };
+      result.errors?.push(`${getSyncTargetLabel(job.platform)}: ${error}`);
+    }
+  }
+
+  result.success = (result.errors?.length || 0) === 0;
+  return result;
+}
+
+export function isSyncRunFinished(run: Pick<SyncRun, 'status'>): boolean {
+  return run.status === 'succeeded' || run.status === 'failed';
+}
+
+function sortRunJobs(run: SyncRunWithJobs): SyncRunWithJobs {
+  return {
+    ...run,
+    jobs: [...(run.jobs || [])].sort((a, b) => a.step_index - b.step_index),
+  };
+}
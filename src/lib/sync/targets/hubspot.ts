@@ -0,0 +1,141 @@
+/**
+ * CHT Operating System - HubSpot Sync Target
+ *
+ * Creates a Deal in the Inventory Intake pipeline for trade-ins and ex-demo
+ * stock, and moves it to Closed Won (amount = sale price) once the item sells.
+ * New stock is not tracked in HubSpot.
+ */
+
+import type { SyncTargetResult } from '@/types';
+import { SYNC_TARGETS } from '@/types';
+import { config } from '@/config';
+import { getHubSpotAccessToken } from '@/lib/hubspot/auth';
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+import { formatConditionSummary } from '@/lib/condition/summary';
+import type { SyncTarget } from './types';
+
+interface HubSpotConfig {
+  accessToken: string;
+  pipelineId: string;
+  stageId: string;
+  closedWonStageId: string;
+  portalId: string;
+}
+
+export const hubspotTarget: SyncTarget<HubSpotConfig> = {
+  id: 'hubspot',
+  label: SYNC_TARGETS.hubspot.label,
+  order: 20,
+
+  async configure() {
+    return {
+      accessToken: await getHubSpotAccessToken(),
+      pipelineId: config.hubspot.dealPipelineId,
+      stageId: config.hubspot.dealIntakeStageId,
+      closedWonStageId: config.hubspot.dealClosedWonStageId,
+      portalId: config.hubspot.portalId,
+    };
+  },
+
+  appliesTo(item) {
+    return item.listing_type !== 'new';
+  },
+
+  validate(item) {
+    return item.brand && item.model ? [] : ['Brand and model are required'];
+  },
+
+  async upsert(item, { accessToken, pipelineId, stageId, closedWonStageId, portalId }): Promise<SyncTargetResult> {
+    const dealName = `${item.listing_type === 'trade_in' ? 'Trade-In' : 'Ex-Demo'}: ${item.brand} ${item.model}`;
+    const isSold = item.listing_status === 'sold';
+    const conditionReport = [
+      item.condition_report,
+      item.condition_checklist ? formatConditionSummary(item.condition_checklist) : null,
+    ].filter(Boolean).join('\n\n');
+    const properties: Record<string, string> = {
+      dealname: dealName,
+      amount: item.sale_price.toString(),
+      // Custom properties (must be created in HubSpot first)
+      cht_brand: item.brand,
+      cht_model: item.model,
+      cht_serial_number: item.serial_number || '',
+      cht_condition_grade: item.condition_grade || '',
+      cht_condition_report: conditionReport,
+      cht_rrp: item.rrp_aud?.toString() || '',
+      cht_listing_type: item.listing_type,
+      ...(isSold
+        ? {
+            dealstage: closedWonStageId,
+            closedate: item.sold_at || new Date().toISOString(),
+          }
+        : {}),
+    };
+
+    // Update path keeps the deal in whatever stage sales has moved it to, until the item sells.
+    const response = await withRetry(
+      () => fetch(
+        item.hubspot_deal_id
+          ? `https://api.hubapi.com/crm/v3/objects/deals/${item.hubspot_deal_id}`
+          : 'https://api.hubapi.com/crm/v3/objects/deals',
+        {
+          method: item.hubspot_deal_id ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({
+            properties: item.hubspot_deal_id
+              ? properties
+              : { dealstage: stageId, ...properties, pipeline: pipelineId },
+          }),
+        }
+      ),
+      {
+        retries: 3,
+        isRetryable: isNetworkError,
+        onRetry: (err, attempt) => console.log(`HubSpot deal retry ${attempt}:`, err),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || `Failed to ${item.hubspot_deal_id ? 'update' : 'create'} HubSpot deal`);
+    }
+
+    const deal = await response.json();
+
+    return {
+      success: true,
+      external_id: deal.id,
+      url: `https://app.hubspot.com/contacts/${portalId}/deal/${deal.id}`,
+      data: { dealstage: deal.properties?.dealstage ?? properties.dealstage ?? stageId },
+    };
+  },
+
+  async delete(item, { accessToken }) {
+    if (!item.hubspot_deal_id) return;
+
+    const response = await fetch(`https://api.hubapi.com/crm/v3/objects/deals/${item.hubspot_deal_id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+
+    // 404: already gone
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to archive HubSpot deal (${response.status})`);
+    }
+  },
+
+  async healthcheck({ accessToken }) {
+    const response = await fetch('https://api.hubapi.com/crm/v3/objects/deals?limit=1', {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+    return response.ok
+      ? { ok: true }
+      : { ok: false, message: `HubSpot API returned ${response.status}` };
+  },
+
+  linkItem(result) {
+    return { hubspot_deal_id: result.external_id ?? null };
+  },
+};
@@ -0,0 +1,19 @@
+/**
+ * CHT Operating System - Sync Targets
+ *
+ * Registers the built-in adapters. To add a destination, implement
+ * SyncTarget and register it here; the orchestrator and queue pick it up.
+ */
+
+import { registerSyncTarget } from './registry';
+import { shopifyTarget } from './shopify';
+import { hubspotTarget } from './hubspot';
+import { notionTarget } from './notion';
+
+registerSyncTarget(shopifyTarget);
+registerSyncTarget(hubspotTarget);
+registerSyncTarget(notionTarget);
+
+export { registerSyncTarget, getSyncTarget, listSyncTargets, getSyncTargetsForItem } from './registry';
+export { SyncTargetValidationError } from './types';
+export type { SyncTarget, SyncTargetHealth } from './types';
@@ -0,0 +1,86 @@
+/**
+ * CHT Operating System - Notion Sync Target
+ *
+ * Keeps a row per item in the Global Inventory database. Runs after Shopify
+ * so the row can carry the Shopify product ID. Each push records the
+ * reconciled field values as the item's notion_snapshot, the base the
+ * Notion pull (lib/notion/reconcile) diffs both sides against.
+ */
+
+import type { NotionFieldSnapshot, SyncTargetResult } from '@/types';
+import { SYNC_TARGETS } from '@/types';
+import { getNotionConfig, notionRequest, type NotionConfig, type NotionPage } from '@/lib/notion/client';
+import { buildNotionProperties, readLocalNotionFields } from '@/lib/notion/inventory';
+import type { SyncTarget } from './types';
+
+export const notionTarget: SyncTarget<NotionConfig> = {
+  id: 'notion',
+  label: SYNC_TARGETS.notion.label,
+  order: 30,
+
+  async configure() {
+    return getNotionConfig();
+  },
+
+  appliesTo() {
+    return true;
+  },
+
+  validate(item) {
+    return item.brand && item.model ? [] : ['Brand and model are required'];
+  },
+
+  async upsert(item, { apiKey, databaseId }): Promise<SyncTargetResult> {
+    const page = await notionRequest<NotionPage>(
+      apiKey,
+      item.notion_page_id ? `/pages/${item.notion_page_id}` : '/pages',
+      item.notion_page_id
+        ? { method: 'PATCH', body: { properties: buildNotionProperties(item) } }
+        : {
+            method: 'POST',
+            body: {
+              parent: { database_id: databaseId },
+              properties: {
+                ...buildNotionProperties(item),
+                'Created': {
+                  date: { start: new Date().toISOString() },
+                },
+              },
+            },
+          }
+    );
+
+    return {
+      success: true,
+      external_id: page!.id,
+      url: page!.url,
+      data: { snapshot: readLocalNotionFields(item) },
+    };
+  },
+
+  async delete(item, { apiKey }) {
+    if (!item.notion_page_id) return;
+
+    await notionRequest(apiKey, `/pages/${item.notion_page_id}`, {
+      method: 'PATCH',
+      body: { archived: true },
+      allowStatuses: [404],
+    });
+  },
+
+  async healthcheck({ apiKey, databaseId }) {
+    try {
+      await notionRequest(apiKey, `/databases/${databaseId}`);
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : 'Notion API unreachable' };
+    }
+  },
+
+  linkItem(result) {
+    return {
+      notion_page_id: result.external_id ?? null,
+      ...(result.data?.snapshot ? { notion_snapshot: result.data.snapshot as NotionFieldSnapshot } : {}),
+    };
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * CHT Operating System - Sync Target Registry
+ *
+ * Adapters register here; the orchestrator and queue look targets up by id.
+ */
+
+import type { InventoryItem, SyncTargetId } from '@/types';
+import type { SyncTarget } from './types';
+
+const targets = new Map<SyncTargetId, SyncTarget>();
+
+export function registerSyncTarget<TConfig>(target: SyncTarget<TConfig>): void {
+  targets.set(target.id, target as SyncTarget);
+}
+
+export function getSyncTarget(id: SyncTargetId): SyncTarget {
+  const target = targets.get(id);
+  if (!target) {
+    throw new Error(`Unknown sync target: ${id}`);
+  }
+  return target;
+}
+
+/**
+ * All registered targets in publish order
+ */
+export function listSyncTargets(): SyncTarget[] {
+  return [...targets.values()].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Targets an item publishes to, in publish order
+ */
+export function getSyncTargetsForItem(item: Pick<InventoryItem, 'listing_type'>): SyncTarget[] {
+  return listSyncTargets().filter((target) => target.appliesTo(item));
+}
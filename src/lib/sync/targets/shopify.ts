@@ -0,0 +1,875 @@
+/**
+ * CHT Operating System - Shopify Sync Target
+ *
+ * Publishes items as DRAFT products, with pre-owned tags and metafields.
+ * Items in a product group publish as variants of the group's shared
+ * product (productVariantsBulkCreate/Update) instead of their own product.
+ * Images are uploaded as product media with alt text, and per-location
+ * stock levels are pushed after every publish.
+ */
+
+import type { InventoryItem, ProductGroup, ShopifyMediaLink, SyncTargetResult } from '@/types';
+import { SYNC_TARGETS } from '@/types';
+import { createServerClient } from '@/lib/supabase/server';
+import { getGraphQLClient } from '@/lib/shopify/client';
+import { getItemMediaImages, syncShopifyProductMedia } from '@/lib/shopify/media';
+import { pushStockLevels, type StockPushResult } from '@/lib/inventory/stock';
+import { formatConditionSummary, formatConditionSummaryHtml } from '@/lib/condition/summary';
+import { withRetry, isNetworkError } from '@/lib/utils/retry';
+import { config } from '@/config';
+import type { SyncTarget } from './types';
+
+type ShopifyUserErrors = Array<{ field?: string[] | null; message: string }>;
+
+interface ShopifyCredentials {
+  storeDomain: string;
+  accessToken: string;
+}
+
+export const shopifyTarget: SyncTarget<ShopifyCredentials> = {
+  id: 'shopify',
+  label: SYNC_TARGETS.shopify.label,
+  order: 10,
+
+  configure: getShopifyCredentials,
+
+  appliesTo() {
+    return true;
+  },
+
+  validate(item) {
+    const problems: string[] = [];
+    if (!item.brand || !item.model) problems.push('Brand and model are required');
+    if (!(item.sale_price > 0)) problems.push('Sale price must be greater than zero');
+    if (item.product_group_id && Object.values(item.variant_options || {}).filter(Boolean).length === 0) {
+      problems.push('Variant option values are required');
+    }
+    return problems;
+  },
+
+  async upsert(item, credentials): Promise<SyncTargetResult> {
+    const result = item.product_group_id
+      ? await upsertGroupedVariant(item, credentials)
+      : await upsertSingleProduct(item, credentials);
+
+    // Grouped variants share the product, so only a standalone product is reordered.
+    const media = await syncItemMedia(item, result.external_id, { reorder: !item.product_group_id });
+    const stock = await pushItemStock(item.id, result.data?.variant_id as string | undefined);
+    return {
+      ...result,
+      data: {
+        ...result.data,
+        media: media.media,
+        ...(media.error ? { media_error: media.error } : {}),
+        ...(stock ? { stock } : {}),
+      },
+    };
+  },
+
+  async delete(item, { storeDomain, accessToken }) {
+    if (!item.shopify_product_id) return;
+
+    // Grouped items only own their variant; the product belongs to the group.
+    if (item.product_group_id) {
+      if (item.shopify_variant_id) {
+        await deleteShopifyVariants(item.shopify_product_id, [item.shopify_variant_id], { storeDomain, accessToken });
+      }
+      return;
+    }
+
+    const result = await requestShopifyGraphQL<{
+      data?: { productDelete?: { userErrors?: Array<{ message: string }> } };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, `
+      mutation productDelete($input: ProductDeleteInput!) {
+        productDelete(input: $input) {
+          deletedProductId
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `, {
+      input: { id: `gid://shopify/Product/${item.shopify_product_id}` },
+    });
+
+    if (result.errors?.length) {
+      throw new Error(result.errors.map((e) => e.message).join(', '));
+    }
+    if (result.data?.productDelete?.userErrors?.length) {
+      throw new Error(result.data.productDelete.userErrors.map((e) => e.message).join(', '));
+    }
+  },
+
+  async healthcheck({ storeDomain, accessToken }) {
+    const result = await requestShopifyGraphQL<{
+      data?: { shop?: { name?: string } };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, '{ shop { name } }', {});
+
+    if (result.errors?.length || !result.data?.shop) {
+      return { ok: false, message: result.errors?.map((e) => e.message).join(', ') || 'No shop returned' };
+    }
+    return { ok: true, message: result.data.shop.name };
+  },
+
+  linkItem(result) {
+    const variantId = result.data?.variant_id as string | undefined;
+    return {
+      ...(result.external_id ? { shopify_product_id: result.external_id } : {}),
+      ...(variantId ? { shopify_variant_id: variantId } : {}),
+      ...(Array.isArray(result.data?.media) ? { shopify_media: result.data.media as ShopifyMediaLink[] } : {}),
+    };
+  },
+};
+
+/**
+ * Create or update an item's own single-variant product
+ */
+async function upsertSingleProduct(
+  item: InventoryItem,
+  { storeDomain, accessToken }: ShopifyCredentials
+): Promise<SyncTargetResult> {
+  const title = item.title || `${item.brand} ${item.model}`;
+  const descriptionHtml = withConditionChecklist(item.description_html || buildDescription(item), item);
+  const productType = item.listing_type === 'new' ? 'New' : 'Pre-Owned';
+  const tags = buildShopifyTags(item);
+  const metafields = buildShopifyMetafields(item);
+
+  // Update path: item already linked to Shopify.
+  if (item.shopify_product_id) {
+    const updateMutation = `
+      mutation productUpdate($input: ProductUpdateInput!) {
+        productUpdate(input: $input) {
+          product {
+            id
+            legacyResourceId
+            variants(first: 1) {
+              edges {
+                node {
+                  id
+                  legacyResourceId
+                }
+              }
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const updateResult = await requestShopifyGraphQL<{
+      data?: {
+        productUpdate?: {
+          product?: {
+            legacyResourceId?: string;
+            variants?: { edges?: Array<{ node?: { legacyResourceId?: string } }> };
+          };
+          userErrors?: Array<{ message: string }>;
+        };
+      };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, updateMutation, {
+      input: {
+        id: `gid://shopify/Product/${item.shopify_product_id}`,
+        title,
+        descriptionHtml,
+        vendor: item.brand,
+        productType,
+        tags,
+        metafields,
+      },
+    });
+
+    if (updateResult.errors?.length) {
+      throw new Error(updateResult.errors.map((e) => e.message).join(', '));
+    }
+    if (updateResult.data?.productUpdate?.userErrors?.length) {
+      throw new Error(updateResult.data.productUpdate.userErrors.map((e) => e.message).join(', '));
+    }
+
+    const product = updateResult.data?.productUpdate?.product;
+    if (!product?.legacyResourceId) {
+      throw new Error('Failed to update Shopify product');
+    }
+
+    const variantId =
+      item.shopify_variant_id ||
+      product.variants?.edges?.[0]?.node?.legacyResourceId ||
+      '';
+
+    if (variantId) {
+      const variantUpdateMutation = `
+        mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+          productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+            productVariants {
+              id
+              legacyResourceId
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `;
+
+      const variantUpdateResult = await requestShopifyGraphQL<{
+        data?: {
+          productVariantsBulkUpdate?: {
+            userErrors?: Array<{ message: string }>;
+          };
+        };
+        errors?: Array<{ message: string }>;
+      }>(storeDomain, accessToken, variantUpdateMutation, {
+        productId: `gid://shopify/Product/${product.legacyResourceId}`,
+        variants: [
+          {
+            id: `gid://shopify/ProductVariant/${variantId}`,
+            price: item.sale_price.toString(),
+            sku: item.sku || `${item.brand}-${item.model}`.toUpperCase().replace(/\s+/g, '-'),
+            ...(item.rrp_aud ? { compareAtPrice: item.rrp_aud.toString() } : { compareAtPrice: null }),
+          },
+        ],
+      });
+
+      if (variantUpdateResult.errors?.length) {
+        throw new Error(variantUpdateResult.errors.map((e) => e.message).join(', '));
+      }
+      if (variantUpdateResult.data?.productVariantsBulkUpdate?.userErrors?.length) {
+        throw new Error(
+          variantUpdateResult.data.productVariantsBulkUpdate.userErrors
+            .map((e) => e.message)
+            .join(', ')
+        );
+      }
+    }
+
+    return {
+      success: true,
+      external_id: product.legacyResourceId,
+      url: `https://${storeDomain}/admin/products/${product.legacyResourceId}`,
+      data: { variant_id: variantId || item.shopify_variant_id || '' },
+    };
+  }
+
+  // Create path: no existing linkage, always create as DRAFT.
+  const createMutation = `
+    mutation productCreate($input: ProductInput!) {
+      productCreate(input: $input) {
+        product {
+          id
+          legacyResourceId
+          variants(first: 1) {
+            edges {
+              node {
+                id
+                legacyResourceId
+              }
+            }
+          }
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `;
+
+  const createResult = await requestShopifyGraphQL<{
+    data?: {
+      productCreate?: {
+        product?: {
+          legacyResourceId?: string;
+          variants?: { edges?: Array<{ node?: { legacyResourceId?: string } }> };
+        };
+        userErrors?: Array<{ message: string }>;
+      };
+    };
+    errors?: Array<{ message: string }>;
+  }>(storeDomain, accessToken, createMutation, {
+    input: {
+      title,
+      descriptionHtml,
+      vendor: item.brand,
+      productType,
+      status: 'DRAFT',
+      tags,
+      metafields,
+      variants: [
+        {
+          price: item.sale_price.toString(),
+          sku: item.sku || `${item.brand}-${item.model}`.toUpperCase().replace(/\s+/g, '-'),
+          inventoryManagement: 'SHOPIFY',
+          inventoryPolicy: 'DENY',
+          ...(item.rrp_aud ? { compareAtPrice: item.rrp_aud.toString() } : {}),
+        },
+      ],
+    },
+  });
+
+  if (createResult.errors?.length) {
+    throw new Error(createResult.errors.map((e) => e.message).join(', '));
+  }
+  if (createResult.data?.productCreate?.userErrors?.length) {
+    throw new Error(createResult.data.productCreate.userErrors.map((e) => e.message).join(', '));
+  }
+
+  const product = createResult.data?.productCreate?.product;
+  if (!product?.legacyResourceId) {
+    throw new Error('Failed to create Shopify product');
+  }
+
+  return {
+    success: true,
+    external_id: product.legacyResourceId,
+    url: `https://${storeDomain}/admin/products/${product.legacyResourceId}`,
+    data: { variant_id: product.variants?.edges?.[0]?.node?.legacyResourceId || '' },
+  };
+}
+
+/**
+ * Upload, update, reorder and delete product media to match image_urls.
+ * Never throws, for the same reason as pushItemStock: on failure the
+ * previous links are kept so the next sync picks up where this one stopped.
+ */
+async function syncItemMedia(
+  item: InventoryItem,
+  productId: string | undefined,
+  options: { reorder: boolean }
+): Promise<{ media: ShopifyMediaLink[]; error?: string }> {
+  const linked = item.shopify_media || [];
+  if (!productId) return { media: linked };
+
+  try {
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) return { media: linked };
+
+    const result = await syncShopifyProductMedia(graphqlClient, productId, getItemMediaImages(item), linked, options);
+    return { media: result.media, error: result.error };
+  } catch (error) {
+    console.error('Shopify media sync error:', error);
+    return { media: linked, error: error instanceof Error ? error.message : 'Failed to sync media' };
+  }
+}
+
+/**
+ * Push per-location quantities after publish. Never throws: the product is
+ * already created/updated, and a failed job would be retried into a
+ * duplicate product. Failures are recorded on the stock levels instead.
+ */
+async function pushItemStock(itemId: string, variantId: string | undefined): Promise<StockPushResult | null> {
+  if (!variantId) return null;
+
+  try {
+    const graphqlClient = await getGraphQLClient();
+    if (!graphqlClient) return null;
+
+    const result = await pushStockLevels(createServerClient(), graphqlClient, {
+      id: itemId,
+      shopify_variant_id: variantId,
+    });
+    return result.pushed > 0 || result.error ? result : null;
+  } catch (error) {
+    console.error('Shopify stock push error:', error);
+    return { pushed: 0, skipped: 0, error: error instanceof Error ? error.message : 'Failed to push quantities' };
+  }
+}
+
+/**
+ * Create or update a grouped item's variant on the group's product,
+ * creating the product (with the group's option axes) on first publish.
+ */
+async function upsertGroupedVariant(
+  item: InventoryItem,
+  { storeDomain, accessToken }: ShopifyCredentials
+): Promise<SyncTargetResult> {
+  const supabase = createServerClient();
+  const { data: group, error } = await supabase
+    .from('product_groups')
+    .select('*')
+    .eq('id', item.product_group_id)
+    .single<ProductGroup>();
+
+  if (error || !group) {
+    throw new Error('Product group not found');
+  }
+
+  const product = {
+    title: group.title || `${group.brand} ${group.model}`,
+    descriptionHtml: group.description_html || item.description_html || buildDescription(item),
+    vendor: group.brand,
+    productType: item.listing_type === 'new' ? 'New' : 'Pre-Owned',
+    tags: buildShopifyTags(item),
+  };
+  const variantInput = buildVariantInput(item, group.option_names);
+  let productId = group.shopify_product_id;
+  let variantId: string | undefined;
+
+  if (!productId) {
+    const createResult = await requestShopifyGraphQL<{
+      data?: {
+        productCreate?: {
+          product?: { legacyResourceId?: string };
+          userErrors?: ShopifyUserErrors;
+        };
+      };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, `
+      mutation productCreate($product: ProductCreateInput!) {
+        productCreate(product: $product) {
+          product {
+            legacyResourceId
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `, {
+      product: {
+        ...product,
+        status: 'DRAFT',
+        // Product-level metafields only; serial/condition belong to single units
+        metafields: buildShopifyMetafields(item).filter(
+          (metafield) => metafield.key === 'listing_type' || metafield.key === 'model_number'
+        ),
+        productOptions: group.option_names.map((name) => ({
+          name,
+          values: [{ name: item.variant_options[name] }],
+        })),
+      },
+    });
+    assertShopifyResult(createResult, createResult.data?.productCreate?.userErrors);
+
+    productId = createResult.data?.productCreate?.product?.legacyResourceId || null;
+    if (!productId) {
+      throw new Error('Failed to create Shopify product');
+    }
+
+    const { error: linkError } = await supabase
+      .from('product_groups')
+      .update({ shopify_product_id: productId })
+      .eq('id', group.id);
+    if (linkError) {
+      throw new Error(`Failed to link product group to Shopify: ${linkError.message}`);
+    }
+
+    // The product starts with a standalone variant; replace it with this item's.
+    variantId = await createShopifyVariant(productId, variantInput, 'REMOVE_STANDALONE_VARIANT', {
+      storeDomain,
+      accessToken,
+    });
+  } else {
+    const updateResult = await requestShopifyGraphQL<{
+      data?: {
+        productUpdate?: {
+          product?: { options?: Array<{ id: string; name: string }> };
+          userErrors?: ShopifyUserErrors;
+        };
+      };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, `
+      mutation productUpdate($product: ProductUpdateInput!) {
+        productUpdate(product: $product) {
+          product {
+            options {
+              id
+              name
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `, {
+      product: { id: `gid://shopify/Product/${productId}`, ...product },
+    });
+    assertShopifyResult(updateResult, updateResult.data?.productUpdate?.userErrors);
+
+    await syncProductOptions(
+      productId,
+      updateResult.data?.productUpdate?.product?.options || [],
+      group.option_names,
+      item,
+      { storeDomain, accessToken }
+    );
+
+    if (item.shopify_variant_id && item.shopify_product_id === productId) {
+      const bulkUpdateResult = await requestShopifyGraphQL<{
+        data?: { productVariantsBulkUpdate?: { userErrors?: ShopifyUserErrors } };
+        errors?: Array<{ message: string }>;
+      }>(storeDomain, accessToken, `
+        mutation productVariantsBulkUpdate($productId: ID!, $variants: [ProductVariantsBulkInput!]!) {
+          productVariantsBulkUpdate(productId: $productId, variants: $variants) {
+            productVariants {
+              id
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `, {
+        productId: `gid://shopify/Product/${productId}`,
+        variants: [{ id: `gid://shopify/ProductVariant/${item.shopify_variant_id}`, ...variantInput }],
+      });
+      assertShopifyResult(bulkUpdateResult, bulkUpdateResult.data?.productVariantsBulkUpdate?.userErrors);
+      variantId = item.shopify_variant_id;
+    } else {
+      variantId = await createShopifyVariant(productId, variantInput, 'DEFAULT', { storeDomain, accessToken });
+    }
+  }
+
+  return {
+    success: true,
+    external_id: productId,
+    url: `https://${storeDomain}/admin/products/${productId}`,
+    data: { variant_id: variantId || '', product_group_id: group.id },
+  };
+}
+
+function buildVariantInput(item: InventoryItem, optionNames: string[]): Record<string, unknown> {
+  const optionValues = optionNames.map((name) => item.variant_options[name]);
+  return {
+    optionValues: optionNames.map((name, index) => ({ optionName: name, name: optionValues[index] })),
+    price: item.sale_price.toString(),
+    compareAtPrice: item.rrp_aud ? item.rrp_aud.toString() : null,
+    inventoryPolicy: 'DENY',
+    inventoryItem: {
+      sku: item.sku || [item.brand, item.model, ...optionValues].join('-').toUpperCase().replace(/\s+/g, '-'),
+      tracked: true,
+    },
+  };
+}
+
+async function createShopifyVariant(
+  productId: string,
+  variantInput: Record<string, unknown>,
+  strategy: 'DEFAULT' | 'REMOVE_STANDALONE_VARIANT',
+  { storeDomain, accessToken }: ShopifyCredentials
+): Promise<string> {
+  const result = await requestShopifyGraphQL<{
+    data?: {
+      productVariantsBulkCreate?: {
+        productVariants?: Array<{ legacyResourceId?: string }>;
+        userErrors?: ShopifyUserErrors;
+      };
+    };
+    errors?: Array<{ message: string }>;
+  }>(storeDomain, accessToken, `
+    mutation productVariantsBulkCreate(
+      $productId: ID!
+      $variants: [ProductVariantsBulkInput!]!
+      $strategy: ProductVariantsBulkCreateStrategy
+    ) {
+      productVariantsBulkCreate(productId: $productId, variants: $variants, strategy: $strategy) {
+        productVariants {
+          legacyResourceId
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `, {
+    productId: `gid://shopify/Product/${productId}`,
+    variants: [variantInput],
+    strategy,
+  });
+  assertShopifyResult(result, result.data?.productVariantsBulkCreate?.userErrors);
+
+  const variantId = result.data?.productVariantsBulkCreate?.productVariants?.[0]?.legacyResourceId;
+  if (!variantId) {
+    throw new Error('Failed to create Shopify variant');
+  }
+  return variantId;
+}
+
+/**
+ * Bring the product's options in line with the group's axes: add new
+ * axes (existing variants take this item's value) and drop removed ones.
+ */
+async function syncProductOptions(
+  productId: string,
+  currentOptions: Array<{ id: string; name: string }>,
+  optionNames: string[],
+  item: InventoryItem,
+  { storeDomain, accessToken }: ShopifyCredentials
+): Promise<void> {
+  const current = new Set(currentOptions.map((option) => option.name));
+  const added = optionNames.filter((name) => !current.has(name));
+  const removed = currentOptions.filter((option) => !optionNames.includes(option.name));
+
+  if (added.length > 0) {
+    const result = await requestShopifyGraphQL<{
+      data?: { productOptionsCreate?: { userErrors?: ShopifyUserErrors } };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, `
+      mutation productOptionsCreate($productId: ID!, $options: [OptionCreateInput!]!) {
+        productOptionsCreate(productId: $productId, options: $options) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `, {
+      productId: `gid://shopify/Product/${productId}`,
+      options: added.map((name) => ({ name, values: [{ name: item.variant_options[name] }] })),
+    });
+    assertShopifyResult(result, result.data?.productOptionsCreate?.userErrors);
+  }
+
+  if (removed.length > 0) {
+    const result = await requestShopifyGraphQL<{
+      data?: { productOptionsDelete?: { userErrors?: ShopifyUserErrors } };
+      errors?: Array<{ message: string }>;
+    }>(storeDomain, accessToken, `
+      mutation productOptionsDelete($productId: ID!, $options: [ID!]!) {
+        productOptionsDelete(productId: $productId, options: $options) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `, {
+      productId: `gid://shopify/Product/${productId}`,
+      options: removed.map((option) => option.id),
+    });
+    assertShopifyResult(result, result.data?.productOptionsDelete?.userErrors);
+  }
+}
+
+/**
+ * Delete variants from a product (e.g. items removed from a product group)
+ */
+export async function deleteShopifyVariants(
+  productId: string,
+  variantIds: string[],
+  credentials?: ShopifyCredentials
+): Promise<void> {
+  if (variantIds.length === 0) return;
+
+  const { storeDomain, accessToken } = credentials || (await getShopifyCredentials());
+  const result = await requestShopifyGraphQL<{
+    data?: { productVariantsBulkDelete?: { userErrors?: ShopifyUserErrors } };
+    errors?: Array<{ message: string }>;
+  }>(storeDomain, accessToken, `
+    mutation productVariantsBulkDelete($productId: ID!, $variantsIds: [ID!]!) {
+      productVariantsBulkDelete(productId: $productId, variantsIds: $variantsIds) {
+        userErrors {
+          field
+          message
+        }
+      }
+    }
+  `, {
+    productId: `gid://shopify/Product/${productId}`,
+    variantsIds: variantIds.map((id) => `gid://shopify/ProductVariant/${id}`),
+  });
+  assertShopifyResult(result, result.data?.productVariantsBulkDelete?.userErrors);
+}
+
+function assertShopifyResult(
+  result: { errors?: Array<{ message: string }> },
+  userErrors?: ShopifyUserErrors
+): void {
+  if (result.errors?.length) {
+    throw new Error(result.errors.map((e) => e.message).join(', '));
+  }
+  if (userErrors?.length) {
+    throw new Error(userErrors.map((e) => e.message).join(', '));
+  }
+}
+
+async function getShopifyCredentials(): Promise<ShopifyCredentials> {
+  const storeDomain = process.env.SHOPIFY_STORE_DOMAIN;
+  let accessToken = process.env.SHOPIFY_ADMIN_ACCESS_TOKEN;
+
+  if (!accessToken) {
+    const { createClient } = await import('@supabase/supabase-js');
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data } = await supabase
+      .from('oauth_tokens')
+      .select('access_token')
+      .eq('provider', 'shopify')
+      .eq('shop', storeDomain)
+      .single();
+
+    accessToken = data?.access_token;
+  }
+
+  if (!storeDomain || !accessToken) {
+    throw new Error('Shopify credentials not configured. Please connect Shopify from the dashboard.');
+  }
+
+  return { storeDomain, accessToken };
+}
+
+function buildShopifyTags(item: InventoryItem): string[] {
+  const tags: string[] = [item.brand.toLowerCase()];
+  if (item.listing_type === 'trade_in') {
+    tags.push('pre-owned', 'trade-in');
+  } else if (item.listing_type === 'ex_demo') {
+    tags.push('pre-owned', 'ex-demo');
+  }
+  if (item.condition_grade) {
+    tags.push(`condition-${item.condition_grade}`);
+  }
+  return tags;
+}
+
+function buildShopifyMetafields(item: InventoryItem): Array<{
+  namespace: string;
+  key: string;
+  value: string;
+  type: string;
+}> {
+  const namespace = config.shopify.metafieldNamespace || 'cht';
+  return [
+    {
+      namespace,
+      key: 'listing_type',
+      value: item.listing_type,
+      type: 'single_line_text_field',
+    },
+    {
+      namespace,
+      key: 'model_number',
+      value: item.model,
+      type: 'single_line_text_field',
+    },
+    ...(item.serial_number
+      ? [
+          {
+            namespace,
+            key: 'serial_number',
+            value: item.serial_number,
+            type: 'single_line_text_field',
+          },
+        ]
+      : []),
+    ...(item.condition_grade
+      ? [
+          {
+            namespace,
+            key: 'condition_grade',
+            value: item.condition_grade,
+            type: 'single_line_text_field',
+          },
+        ]
+      : []),
+    ...(item.condition_report
+      ? [
+          {
+            namespace,
+            key: 'condition_report',
+            value: item.condition_report,
+            type: 'multi_line_text_field',
+          },
+        ]
+      : []),
+    ...(item.condition_checklist && formatConditionSummary(item.condition_checklist)
+      ? [
+          {
+            namespace,
+            key: 'condition_checklist',
+            value: formatConditionSummary(item.condition_checklist),
+            type: 'multi_line_text_field',
+          },
+        ]
+      : []),
+  ];
+}
+
+async function requestShopifyGraphQL<T>(
+  storeDomain: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  const response = await withRetry(
+    () =>
+      fetch(`https://${storeDomain}/admin/api/${config.shopify.apiVersion}/graphql.json`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': accessToken,
+        },
+        body: JSON.stringify({ query, variables }),
+      }),
+    {
+      retries: 3,
+      isRetryable: isNetworkError,
+      onRetry: (err, attempt) => console.log(`Shopify retry ${attempt}:`, err),
+    }
+  );
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Add the condition checklist summary to a description (once), so
+ * hand-written and AI-generated descriptions carry it too
+ */
+function withConditionChecklist(html: string, item: InventoryItem): string {
+  if (!item.condition_checklist || html.includes('class="condition-checklist"')) {
+    return html;
+  }
+  return html + formatConditionSummaryHtml(item.condition_checklist);
+}
+
+/**
+ * Build default description HTML for pre-owned items
+ */
+function buildDescription(item: InventoryItem): string {
+  const isPreOwned = item.listing_type !== 'new';
+  
+  let html = `<div class="product-description">`;
+  
+  if (isPreOwned) {
+    html += `
+      <div class="preowned-notice" style="background: #FEF3C7; padding: 1rem; border-radius: 0.5rem; margin-bottom: 1rem;">
+        <strong>Pre-Owned Item</strong>
+        <p>This is a ${item.listing_type === 'trade_in' ? 'customer trade-in' : 'former demonstration unit'}.</p>
+        ${item.condition_grade ? `<p>Condition: <strong>${item.condition_grade.charAt(0).toUpperCase() + item.condition_grade.slice(1)}</strong></p>` : ''}
+      </div>
+    `;
+  }
+  
+  html += `
+    <h3>Product Details</h3>
+    <ul>
+      <li><strong>Brand:</strong> ${item.brand}</li>
+      <li><strong>Model:</strong> ${item.model}</li>
+      ${item.serial_number ? `<li><strong>Serial Number:</strong> ${item.serial_number}</li>` : ''}
+    </ul>
+  `;
+  
+  if (item.condition_report) {
+    html += `
+      <h3>Condition Notes</h3>
+      <p>${item.condition_report}</p>
+    `;
+  }
+  
+  html += `</div>`;
+  
+  return html;
+}
@@ -0,0 +1,56 @@
+/**
+ * CHT Operating System - Sync Target Contract
+ *
+ * A sync target is one external destination an inventory item publishes to.
+ * Adapters implement this interface and register with the registry, so the
+ * orchestrator and queue worker never need to know about a specific system.
+ */
+
+import type { InventoryItem, SyncTargetId, SyncTargetResult } from '@/types';
+
+export interface SyncTargetHealth {
+  ok: boolean;
+  message?: string;
+}
+
+export interface SyncTarget<TConfig = unknown> {
+  id: SyncTargetId;
+  label: string;
+  /** Publish order; lower runs first (e.g. Notion stores the Shopify ID) */
+  order: number;
+
+  /** Resolve credentials and settings. Throws if the target is not configured. */
+  configure(): Promise<TConfig>;
+
+  /** Policy: whether this item should publish to the target at all */
+  appliesTo(item: Pick<InventoryItem, 'listing_type'>): boolean;
+
+  /** Item problems that would make an upsert fail; empty when publishable */
+  validate(item: InventoryItem): string[];
+
+  /** Create the item's record in the target, or update it if already linked */
+  upsert(item: InventoryItem, config: TConfig): Promise<SyncTargetResult>;
+
+  /** Remove or archive the item's record. No-op if the item was never linked. */
+  delete(item: InventoryItem, config: TConfig): Promise<void>;
+
+  /** Cheap authenticated request proving the target is reachable */
+  healthcheck(config: TConfig): Promise<SyncTargetHealth>;
+
+  /** inventory_items columns to write back after a successful upsert */
+  linkItem(result: SyncTargetResult): Partial<InventoryItem>;
+}
+
+/**
+ * Raised when an item fails a target's validate(). Retrying cannot fix
+ * it, so the queue dead-letters the job immediately.
+ */
+export class SyncTargetValidationError extends Error {
+  constructor(
+    public targetId: SyncTargetId,
+    public problems: string[]
+  ) {
+    super(problems.join('; '));
+    this.name = 'SyncTargetValidationError';
+  }
+}
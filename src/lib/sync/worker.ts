@@ -0,0 +1,233 @@
+/**
+ * CHT Operating System - Sync Queue Worker
+ *
+ * Drains leased sync_jobs: publishes to the job's sync target, writes external IDs
+ * back to inventory_items, broadcasts realtime progress and closes out the
+ * run (sync_status, audit log) once every target job is terminal.
+ */
+
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { publishToTarget } from '@/lib/sync/publish';
+import { getSyncTarget, SyncTargetValidationError } from '@/lib/sync/targets';
+import {
+  completeSyncJob,
+  failSyncJob,
+  finalizeSyncRunIfDone,
+  leaseSyncJobs,
+} from '@/lib/sync/queue';
+import { createSyncChannel, SyncBroadcaster } from '@/lib/realtime/sync-channel';
+import { logSync } from '@/lib/audit/logger';
+import { withRetry } from '@/lib/utils/retry';
+import type { InventoryItem, SyncJob, SyncRunWithJobs, SyncTargetResult } from '@/types';
+
+export interface SyncWorkerOptions {
+  /** Only process jobs belonging to this run */
+  runId?: string | null;
+  /** Stop leasing new jobs after this many milliseconds */
+  budgetMs?: number;
+  /** Jobs leased per batch */
+  batchSize?: number;
+  workerId?: string;
+}
+
+export interface SyncWorkerSummary {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+  completedRuns: string[];
+}
+
+/**
+ * Process ready jobs until the queue is empty or the time budget runs out.
+ * Safe to run concurrently: jobs are leased with SKIP LOCKED.
+ */
+export async function runSyncWorker(
+  supabase: SupabaseClient,
+  options: SyncWorkerOptions = {}
+): Promise<SyncWorkerSummary> {
+  const workerId = options.workerId || `worker-${randomUUID()}`;
+  const budgetMs = options.budgetMs ?? config.syncQueue.budgetMs;
+  const deadline = Date.now() + budgetMs;
+  const summary: SyncWorkerSummary = {
+    workerId,
+    processed: 0,
+    succeeded: 0,
+    retried: 0,
+    deadLettered: 0,
+    completedRuns: [],
+  };
+
+  while (Date.now() < deadline) {
+    const jobs = await leaseSyncJobs(supabase, {
+      workerId,
+      limit: options.batchSize,
+      runId: options.runId,
+    });
+    if (jobs.length === 0) break;
+
+    for (const job of jobs) {
+      const outcome = await processSyncJob(supabase, job, workerId);
+      summary.processed++;
+      if (outcome === 'succeeded') summary.succeeded++;
+      if (outcome === 'retry') summary.retried++;
+      if (outcome === 'dead') summary.deadLettered++;
+
+      const finishedRun = await finalizeSyncRunIfDone(supabase, job.run_id);
+      if (finishedRun) {
+        await closeOutRun(supabase, finishedRun);
+        summary.completedRuns.push(finishedRun.id);
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Raised when a target accepted the item but its external ID couldn't be
+ * written back. Retrying would publish a duplicate, so the job is
+ * dead-lettered with the ID to link by hand.
+ */
+class SyncLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncLinkError';
+  }
+}
+
+/**
+ * Write the target's external IDs back to the item, retrying transient failures
+ */
+async function linkPublishedItem(supabase: SupabaseClient, job: SyncJob, result: SyncTargetResult): Promise<void> {
+  try {
+    await withRetry(async () => {
+      const { error } = await supabase
+        .from('inventory_items')
+        .update(getSyncTarget(job.platform).linkItem(result))
+        .eq('id', job.inventory_item_id);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    }, { retries: 2, initialDelay: 500 });
+  } catch (error) {
+    throw new SyncLinkError(
+      `Published to ${job.platform} as ${result.external_id} but failed to link it to the item: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+async function processSyncJob(
+  supabase: SupabaseClient,
+  job: SyncJob,
+  workerId: string
+): Promise<'succeeded' | 'retry' | 'dead'> {
+  const channel = createSyncChannel(job.inventory_item_id);
+  await channel.subscribe();
+
+  try {
+    const { count } = await supabase
+      .from('sync_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('run_id', job.run_id);
+    const step = { index: job.step_index, total: Math.max(count || 0, job.step_index + 1) };
+
+    await supabase
+      .from('sync_runs')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('id', job.run_id)
+      .eq('status', 'queued');
+
+    if (job.step_index === 0 && job.attempts === 1) {
+      await SyncBroadcaster.started(channel, job.inventory_item_id);
+    }
+    await SyncBroadcaster.platformStarted(channel, job.inventory_item_id, job.platform, step);
+
+    try {
+      // Re-read the item for every job so later steps see IDs written by earlier ones.
+      const { data: item, error: fetchError } = await supabase
+        .from('inventory_items')
+        .select('*')
+        .eq('id', job.inventory_item_id)
+        .single();
+
+      if (fetchError || !item) {
+        throw new Error('Inventory item not found');
+      }
+
+      const result = await publishToTarget(job.platform, item as InventoryItem);
+
+      await linkPublishedItem(supabase, job, result);
+      await completeSyncJob(supabase, job, workerId, result);
+
+      await SyncBroadcaster.platformComplete(channel, job.inventory_item_id, job.platform, step, {
+        success: true,
+        externalId: result.external_id,
+        url: result.url,
+      });
+      return 'succeeded';
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const failure = await failSyncJob(supabase, job, workerId, errorMsg, {
+        permanent: error instanceof SyncTargetValidationError || error instanceof SyncLinkError,
+      });
+
+      if (failure.deadLettered) {
+        await SyncBroadcaster.platformComplete(channel, job.inventory_item_id, job.platform, step, {
+          success: false,
+          error: errorMsg,
+        });
+        return 'dead';
+      }
+
+      await SyncBroadcaster.platformRetrying(channel, job.inventory_item_id, job.platform, errorMsg);
+      return 'retry';
+    }
+  } finally {
+    await channel.unsubscribe();
+  }
+}
+
+/**
+ * Run finished: record final sync status on the item, audit it and notify listeners.
+ */
+async function closeOutRun(supabase: SupabaseClient, run: SyncRunWithJobs): Promise<void> {
+  const result = run.result;
+  const success = Boolean(result?.success);
+
+  await supabase
+    .from('inventory_items')
+    .update({
+      sync_status: success ? 'synced' : 'error',
+      last_synced_at: new Date().toISOString(),
+      sync_error: result?.errors?.length ? result.errors.join('; ') : null,
+    })
+    .eq('id', run.inventory_item_id);
+
+  const platforms = Object.fromEntries(
+    run.jobs.map((job) => [
+      job.platform,
+      {
+        success: job.status === 'succeeded',
+        ...(job.result?.external_id ? { externalId: job.result.external_id } : {}),
+        ...(job.status === 'dead' ? { error: job.last_error || 'Unknown error' } : {}),
+      },
+    ])
+  );
+
+  await logSync(run.inventory_item_id, success, platforms, {
+    errors: result?.errors,
+    syncRunId: run.id,
+    trigger: run.trigger,
+    attempts: Object.fromEntries(run.jobs.map((job) => [job.platform, job.attempts])),
+  });
+
+  const channel = createSyncChannel(run.inventory_item_id);
+  await channel.subscribe();
+  await SyncBroadcaster.complete(channel, run.inventory_item_id, success);
+  await channel.unsubscribe();
+}
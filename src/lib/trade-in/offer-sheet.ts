@@ -0,0 +1,41 @@
+/**
+ * CHT Operating System - Trade-In Offer Sheet
+ *
+ * Display status and the email version of a trade-in offer. Pure, for the
+ * offer pages and the API alike.
+ */
+
+import { CONDITION_GRADES, type TradeInOffer, type TradeInOfferDisplayStatus } from '@/types';
+
+/**
+ * Stored status, or expired for an open offer past its expiry
+ */
+export function getTradeInOfferStatus(
+  offer: Pick<TradeInOffer, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): TradeInOfferDisplayStatus {
+  if (offer.status === 'offered' && new Date(offer.expires_at) < now) return 'expired';
+  return offer.status;
+}
+
+const formatMoney = (value: number) =>
+  `$${Number(value).toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+export function renderTradeInOfferEmail(offer: TradeInOffer): { subject: string; body: string } {
+  const firstName = offer.customer_name.split(' ')[0] || 'there';
+  const serial = offer.serial_number ? `\nSerial: ${offer.serial_number}` : '';
+
+  return {
+    subject: `Your trade-in offer ${offer.offer_number} - ${offer.brand} ${offer.model}`,
+    body: `Hi ${firstName},\n\nThanks for bringing in your ${offer.brand} ${offer.model}. Here is our trade-in offer.\n\n`
+      + `Offer: ${offer.offer_number}\nProduct: ${offer.brand} ${offer.model}${serial}\n`
+      + `Condition: ${CONDITION_GRADES[offer.condition_grade].label}\n`
+      + `Offer amount: ${formatMoney(offer.offer_amount)}\n`
+      + `Valid until: ${formatDate(offer.expires_at)}\n\n`
+      + `The offer is subject to the unit matching the condition described when it's handed over. `
+      + `Reply to this email or visit us in store to accept.\n\nRegards,\nCHT`,
+  };
+}
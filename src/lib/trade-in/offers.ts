@@ -0,0 +1,300 @@
+/**
+ * CHT Operating System - Trade-In Offers
+ *
+ * Values trade-ins against our own sell-through and records the offer made
+ * to the customer (migrations/036_trade_in_offers.sql). Offers link to a
+ * customer record, created from the offer's contact details if needed.
+ * Accepting an offer links the trade-in item created at intake, stores the
+ * offer amount as its cost_price and the customer as its supplier.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '@/config';
+import { findOrCreateCustomer } from '@/lib/customers/customers';
+import { calculateTradeInValuation } from './valuation';
+import { getTradeInOfferStatus } from './offer-sheet';
+import type {
+  ConditionGrade,
+  InventoryItem,
+  SellThroughStats,
+  TradeInOffer,
+  TradeInOfferDisplayStatus,
+  TradeInValuation,
+  TradeInValuationInput,
+} from '@/types';
+
+// Sold and in-stock pre-owned units considered per brand
+const SELL_THROUGH_LIMIT = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TradeInOfferInput {
+  brand: string;
+  model: string;
+  serial_number?: string | null;
+  condition_grade: ConditionGrade;
+  age_years?: number | null;
+  rrp_aud?: number | null;
+  valuation: TradeInValuation;
+  offer_amount: number;
+  customer_name: string;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  /** Existing customer picked at intake; otherwise matched or created from the details */
+  customer_id?: string | null;
+  /** HubSpot contact matched at intake, stored on the customer */
+  hubspot_contact_id?: string | null;
+  /** Days the offer stands; defaults to config.tradeIn.offerValidityDays */
+  valid_days?: number;
+  notes?: string | null;
+}
+
+export interface TradeInOfferUpdate {
+  status?: 'accepted' | 'declined';
+  /** Trade-in item created from the offer; required when accepting */
+  inventory_item_id?: string | null;
+  offer_amount?: number;
+  customer_name?: string;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  expires_at?: string;
+  notes?: string | null;
+}
+
+type SellThroughItem = Pick<
+  InventoryItem,
+  'model' | 'listing_status' | 'sale_price' | 'rrp_aud' | 'created_at' | 'converted_to_sale_at' | 'sold_at'
+>;
+
+// Compare models ignoring case, spacing and punctuation ("AVR-X3800H" = "avr x3800h")
+const normalizeModel = (model: string) => model.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+function summarize(scope: SellThroughStats['scope'], sold: SellThroughItem[], inStockCount: number): SellThroughStats {
+  const withRrp = sold.filter((item) => item.rrp_aud && item.rrp_aud > 0);
+  const daysToSell = sold
+    .filter((item) => item.sold_at)
+    .map((item) => {
+      const listedAt = new Date(item.converted_to_sale_at || item.created_at).getTime();
+      return Math.max(0, (new Date(item.sold_at!).getTime() - listedAt) / DAY_MS);
+    });
+
+  return {
+    scope,
+    sold_count: sold.length,
+    average_sale_price: scope === 'model' ? average(sold.map((item) => Number(item.sale_price))) : null,
+    average_price_to_rrp: average(withRrp.map((item) => Number(item.sale_price) / Number(item.rrp_aud))),
+    average_days_to_sell: average(daysToSell),
+    in_stock_count: inStockCount,
+  };
+}
+
+/**
+ * How our pre-owned units of this model sold, falling back to the brand
+ * when the model has never sold
+ */
+export async function getSellThroughStats(
+  supabase: SupabaseClient,
+  brand: string,
+  model: string
+): Promise<SellThroughStats> {
+  const { data, error } = await supabase
+    .from('inventory_items')
+    .select('model, listing_status, sale_price, rrp_aud, created_at, converted_to_sale_at, sold_at')
+    .in('listing_type', ['trade_in', 'ex_demo'])
+    .ilike('brand', brand.trim())
+    .eq('is_archived', false)
+    .order('created_at', { ascending: false })
+    .limit(SELL_THROUGH_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load sell-through: ${error.message}`);
+  }
+
+  const items = (data || []) as SellThroughItem[];
+  const modelKey = normalizeModel(model);
+  const sameModel = items.filter((item) => normalizeModel(item.model) === modelKey);
+  const inStockCount = sameModel.filter((item) => item.listing_status !== 'sold').length;
+
+  const modelSold = sameModel.filter((item) => item.listing_status === 'sold' && Number(item.sale_price) > 0);
+  if (modelSold.length > 0) {
+    return summarize('model', modelSold, inStockCount);
+  }
+
+  const brandSold = items.filter((item) => item.listing_status === 'sold' && Number(item.sale_price) > 0);
+  if (brandSold.length > 0) {
+    return summarize('brand', brandSold, inStockCount);
+  }
+
+  return summarize('none', [], inStockCount);
+}
+
+/**
+ * Value a trade-in, or null when there's neither an RRP nor sales history
+ */
+export async function valueTradeIn(
+  supabase: SupabaseClient,
+  input: TradeInValuationInput
+): Promise<TradeInValuation | null> {
+  const sellThrough = await getSellThroughStats(supabase, input.brand, input.model);
+  return calculateTradeInValuation(input, sellThrough, {
+    targetMarginPercent: config.tradeIn.targetMarginPercent,
+    minMarginMultiplier: config.pricing.minMarginMultiplier,
+  });
+}
+
+export async function listTradeInOffers(
+  supabase: SupabaseClient,
+  options: { status?: TradeInOfferDisplayStatus } = {}
+): Promise<TradeInOffer[]> {
+  let query = supabase
+    .from('trade_in_offers')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  // Expired is derived from expires_at, not stored
+  const now = new Date().toISOString();
+  if (options.status === 'expired') {
+    query = query.eq('status', 'offered').lt('expires_at', now);
+  } else if (options.status === 'offered') {
+    query = query.eq('status', 'offered').gte('expires_at', now);
+  } else if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load trade-in offers: ${error.message}`);
+  }
+  return (data || []) as TradeInOffer[];
+}
+
+export async function getTradeInOffer(supabase: SupabaseClient, id: string): Promise<TradeInOffer | null> {
+  const { data, error } = await supabase
+    .from('trade_in_offers')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load trade-in offer: ${error.message}`);
+  }
+  return (data as TradeInOffer) || null;
+}
+
+export async function createTradeInOffer(
+  supabase: SupabaseClient,
+  input: TradeInOfferInput
+): Promise<TradeInOffer> {
+  const { valid_days, hubspot_contact_id, ...fields } = input;
+  const validDays = valid_days ?? config.tradeIn.offerValidityDays;
+
+  if (!fields.customer_id) {
+    const customer = await findOrCreateCustomer(supabase, {
+      name: fields.customer_name,
+      email: fields.customer_email,
+      phone: fields.customer_phone,
+      hubspot_contact_id,
+    });
+    fields.customer_id = customer?.id || null;
+  }
+
+  const { data, error } = await supabase
+    .from('trade_in_offers')
+    .insert({
+      ...fields,
+      expires_at: new Date(Date.now() + validDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create trade-in offer: ${error?.message || 'no row returned'}`);
+  }
+  return data as TradeInOffer;
+}
+
+/**
+ * The offer an inventory item is linked to, if any
+ */
+export async function getTradeInOfferForItem(
+  supabase: SupabaseClient,
+  inventoryItemId: string
+): Promise<TradeInOffer | null> {
+  const { data, error } = await supabase
+    .from('trade_in_offers')
+    .select('*')
+    .eq('inventory_item_id', inventoryItemId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load trade-in offer: ${error.message}`);
+  }
+  return (data as TradeInOffer) || null;
+}
+
+/**
+ * Why an update can't be applied to the offer in its current state, or null
+ */
+export function getTradeInOfferUpdateError(offer: TradeInOffer, update: TradeInOfferUpdate): string | null {
+  const status = getTradeInOfferStatus(offer);
+
+  if (status === 'accepted' || status === 'declined') {
+    return `${offer.offer_number} has already been ${status}`;
+  }
+  if (update.status === 'accepted') {
+    if (status === 'expired' && !update.expires_at) {
+      return `${offer.offer_number} expired on ${new Date(offer.expires_at).toLocaleDateString('en-AU')}; extend it before accepting`;
+    }
+    if (!update.inventory_item_id) {
+      return 'Link the trade-in item created for this offer';
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply an update already checked with getTradeInOfferUpdateError. Accepting
+ * stores the (final) offer amount as the linked item's cost_price and the
+ * offer's customer as the customer who supplied it, in one transaction with
+ * the offer update (accept_trade_in_offer).
+ */
+export async function updateTradeInOffer(
+  supabase: SupabaseClient,
+  offer: TradeInOffer,
+  update: TradeInOfferUpdate
+): Promise<TradeInOffer> {
+  if (update.status === 'accepted') {
+    const { data, error } = await supabase
+      .rpc('accept_trade_in_offer', {
+        p_offer_id: offer.id,
+        p_inventory_item_id: update.inventory_item_id,
+        p_changes: update,
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to accept trade-in offer: ${error?.message || 'no row returned'}`);
+    }
+    return data as TradeInOffer;
+  }
+
+  const changes: Partial<TradeInOffer> = { ...update };
+  if (update.status === 'declined') {
+    changes.declined_at = new Date().toISOString();
+  }
+
+  const { data, error } = await supabase
+    .from('trade_in_offers')
+    .update(changes)
+    .eq('id', offer.id)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update trade-in offer: ${error?.message || 'no row returned'}`);
+  }
+  return data as TradeInOffer;
+}
@@ -0,0 +1,182 @@
+/**
+ * CHT Operating System - Trade-In Valuation
+ *
+ * What to pay a customer for a trade-in. The resale price is estimated from
+ * RRP, condition and age, blended with what we've actually sold the same
+ * model (or brand) for; the target margin is then nudged by how quickly
+ * those units sold and how many are already in stock. Pure, so the trade-in
+ * page can show the same factors the API used.
+ */
+
+import type {
+  ConditionGrade,
+  SellThroughStats,
+  TradeInValuation,
+  TradeInValuationFactor,
+  TradeInValuationInput,
+} from '@/types';
+
+export interface TradeInValuationOptions {
+  targetMarginPercent: number;
+  /** Lowest sale price as a multiple of cost (config.pricing.minMarginMultiplier) */
+  minMarginMultiplier: number;
+}
+
+/** Resale price as a fraction of RRP for a current-model unit */
+export const CONDITION_RESALE_FACTORS: Record<ConditionGrade, number> = {
+  mint: 0.8,
+  excellent: 0.72,
+  good: 0.62,
+  fair: 0.5,
+  poor: 0.35,
+};
+
+// Value lost per year: steeper for the first three years, floored
+const EARLY_DEPRECIATION_PER_YEAR = 0.1;
+const LATE_DEPRECIATION_PER_YEAR = 0.05;
+const EARLY_YEARS = 3;
+const MIN_AGE_FACTOR = 0.35;
+// Assumed when the customer doesn't know (~18 months)
+const UNKNOWN_AGE_FACTOR = 0.85;
+
+// Most weight history can carry against the RRP estimate, by scope
+const HISTORY_WEIGHT: Record<SellThroughStats['scope'], number> = { model: 0.7, brand: 0.3, none: 0 };
+// Sales needed for history to carry its full weight
+const HISTORY_FULL_WEIGHT_SALES = 5;
+
+const FAST_SELL_DAYS = 30;
+const SLOW_SELL_DAYS = 90;
+const VERY_SLOW_SELL_DAYS = 180;
+const MARGIN_PER_UNIT_IN_STOCK = 2.5;
+const MAX_STOCK_MARGIN = 7.5;
+
+// Offer range half-width as a fraction of the recommended offer
+const BASE_SPREAD = 0.08;
+const NO_HISTORY_SPREAD = 0.07;
+const UNKNOWN_AGE_SPREAD = 0.05;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString('en-AU')}`;
+
+export function getAgeFactor(ageYears: number | null): number {
+  if (ageYears == null) return UNKNOWN_AGE_FACTOR;
+  const early = Math.min(ageYears, EARLY_YEARS) * EARLY_DEPRECIATION_PER_YEAR;
+  const late = Math.max(ageYears - EARLY_YEARS, 0) * LATE_DEPRECIATION_PER_YEAR;
+  return Math.max(MIN_AGE_FACTOR, 1 - early - late);
+}
+
+/**
+ * Recommended buy price and range, or null when there's nothing to value
+ * against (no RRP and no sales of this model)
+ */
+export function calculateTradeInValuation(
+  input: TradeInValuationInput,
+  sellThrough: SellThroughStats,
+  options: TradeInValuationOptions
+): TradeInValuation | null {
+  const factors: TradeInValuationFactor[] = [];
+  const rrp = input.rrp_aud && input.rrp_aud > 0 ? input.rrp_aud : null;
+
+  // Resale estimate from RRP, condition and age
+  let rrpEstimate: number | null = null;
+  if (rrp) {
+    const conditionFactor = CONDITION_RESALE_FACTORS[input.condition_grade];
+    const ageFactor = getAgeFactor(input.age_years);
+    rrpEstimate = rrp * conditionFactor * ageFactor;
+    factors.push({
+      label: 'Condition',
+      detail: `${input.condition_grade} resells at ~${Math.round(conditionFactor * 100)}% of the ${formatMoney(rrp)} RRP`,
+    });
+    factors.push({
+      label: 'Age',
+      detail: input.age_years == null
+        ? `Unknown; assumed ~18 months (${Math.round(ageFactor * 100)}% of value retained)`
+        : `${input.age_years} year${input.age_years === 1 ? '' : 's'} old (${Math.round(ageFactor * 100)}% of value retained)`,
+    });
+  }
+
+  // Resale estimate from what we've sold similar units for
+  let historyEstimate: number | null = null;
+  if (sellThrough.scope !== 'none' && sellThrough.sold_count > 0) {
+    if (rrp && sellThrough.average_price_to_rrp) {
+      historyEstimate = rrp * sellThrough.average_price_to_rrp;
+    } else if (sellThrough.scope === 'model' && sellThrough.average_sale_price) {
+      historyEstimate = sellThrough.average_sale_price;
+    }
+  }
+
+  let resale: number;
+  if (rrpEstimate != null && historyEstimate != null) {
+    const weight = HISTORY_WEIGHT[sellThrough.scope]
+      * Math.min(sellThrough.sold_count, HISTORY_FULL_WEIGHT_SALES) / HISTORY_FULL_WEIGHT_SALES;
+    resale = rrpEstimate * (1 - weight) + historyEstimate * weight;
+    factors.push({
+      label: 'Sales history',
+      detail: `${sellThrough.sold_count} ${sellThrough.scope === 'model' ? 'of this model' : `${input.brand} unit(s)`} sold `
+        + `at ~${formatMoney(historyEstimate)} equivalent (${Math.round(weight * 100)}% weight)`,
+    });
+  } else if (rrpEstimate != null) {
+    resale = rrpEstimate;
+    factors.push({ label: 'Sales history', detail: 'No previous sales to compare; valued on RRP alone' });
+  } else if (historyEstimate != null) {
+    resale = historyEstimate;
+    factors.push({
+      label: 'Sales history',
+      detail: `No RRP; valued on ${sellThrough.sold_count} previous sale(s) at ~${formatMoney(historyEstimate)}`,
+    });
+  } else {
+    return null;
+  }
+
+  // Margin: pay more for fast sellers, less for slow sellers and duplicates
+  let margin = options.targetMarginPercent;
+  const days = sellThrough.average_days_to_sell;
+  if (days != null) {
+    let adjustment = 0;
+    if (days <= FAST_SELL_DAYS) adjustment = -5;
+    else if (days > VERY_SLOW_SELL_DAYS) adjustment = 10;
+    else if (days > SLOW_SELL_DAYS) adjustment = 5;
+    margin += adjustment;
+    factors.push({
+      label: 'Sell-through',
+      detail: `Sells in ~${Math.round(days)} days`
+        + (adjustment === 0 ? '' : ` (margin ${adjustment > 0 ? '+' : ''}${adjustment} pts)`),
+    });
+  }
+  if (sellThrough.in_stock_count > 0) {
+    const adjustment = Math.min(sellThrough.in_stock_count * MARGIN_PER_UNIT_IN_STOCK, MAX_STOCK_MARGIN);
+    margin += adjustment;
+    factors.push({
+      label: 'Stock on hand',
+      detail: `${sellThrough.in_stock_count} already unsold (margin +${adjustment} pts)`,
+    });
+  }
+
+  const recommended = resale * (1 - margin / 100);
+  let spread = BASE_SPREAD;
+  if (historyEstimate == null) spread += NO_HISTORY_SPREAD;
+  if (input.age_years == null) spread += UNKNOWN_AGE_SPREAD;
+
+  // Never offer more than still leaves the minimum margin on resale
+  const ceiling = resale / options.minMarginMultiplier;
+
+  const offerHigh = roundTo(Math.min(recommended * (1 + spread), ceiling), 5);
+  const recommendedOffer = Math.min(roundTo(recommended, 5), offerHigh);
+  const offerLow = Math.min(roundTo(recommended * (1 - spread), 5), recommendedOffer);
+
+  factors.push({
+    label: 'Margin',
+    detail: `${margin}% target on ${formatMoney(resale)} resale`,
+  });
+
+  return {
+    estimated_resale_price: Math.round(resale),
+    target_margin_percent: margin,
+    recommended_offer: Math.max(recommendedOffer, 0),
+    offer_low: Math.max(offerLow, 0),
+    offer_high: Math.max(offerHigh, 0),
+    factors,
+    sell_through: sellThrough,
+    valued_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Serial Barcode Decoding
+ *
+ * In-browser barcode/QR decoding with the Shape Detection API
+ * (BarcodeDetector), used by CameraCapture to read serial labels before
+ * falling back to vision AI. Browsers without BarcodeDetector (Firefox,
+ * Safari) decode with ZXing instead, loaded only when needed.
+ */
+
+export type SerialBarcodeFormat = 'code_128' | 'data_matrix' | 'qr_code' | 'ean_13';
+
+export interface DecodedBarcode {
+  /** Serial extracted from the payload */
+  value: string;
+  format: SerialBarcodeFormat;
+  /** Payload as decoded, before serial extraction */
+  rawValue: string;
+}
+
+// Not yet in TypeScript's DOM lib
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+export interface SerialBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): SerialBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+/**
+ * Formats in order of preference. EAN-13 is usually the product's GTIN
+ * rather than its serial, so it is only used when nothing else decodes.
+ */
+const SERIAL_FORMATS: SerialBarcodeFormat[] = ['code_128', 'data_matrix', 'qr_code', 'ean_13'];
+
+const GS1_GROUP_SEPARATOR = '\u001d';
+const GS1_FIXED_LENGTHS: Record<string, number> = { '00': 18, '01': 14, '02': 14, '11': 6, '13': 6, '15': 6, '17': 6 };
+const GS1_SERIAL_AI = '21';
+// Symbology identifier some scanners prepend to GS1 payloads
+const GS1_SYMBOLOGY_PREFIX = /^\](?:d2|C1|Q3)/;
+// GS1 element strings on serial labels start with the GTIN (AI 01)
+const GS1_PAYLOAD = /^(?:\](?:d2|C1|Q3))?01\d{14}/;
+
+const SERIAL_PATTERN = /^[A-Z0-9][A-Z0-9\-/.]{3,39}$/;
+const LABELLED_SERIAL = /\b(?:S\/?N|SER(?:IAL)?(?:\s*(?:NO|NUMBER|#))?)\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-/.]{3,39})/i;
+const URL_SERIAL_PARAMS = ['sn', 'serial', 'serial_number', 'serialnumber'];
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  const detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return detector ?? null;
+}
+
+/**
+ * Serial (AI 21) from a GS1 element string, e.g. a GS1 DataMatrix
+ */
+function extractGs1Serial(payload: string): string | null {
+  let rest = payload.replace(GS1_SYMBOLOGY_PREFIX, '');
+
+  while (rest.length > 2) {
+    const ai = rest.slice(0, 2);
+    const fixedLength = GS1_FIXED_LENGTHS[ai];
+    if (fixedLength) {
+      rest = rest.slice(2 + fixedLength);
+    } else {
+      const end = rest.indexOf(GS1_GROUP_SEPARATOR);
+      const value = end === -1 ? rest.slice(2) : rest.slice(2, end);
+      if (ai === GS1_SERIAL_AI) return value;
+      if (end === -1) return null;
+      rest = rest.slice(end + 1);
+    }
+    if (rest.startsWith(GS1_GROUP_SEPARATOR)) rest = rest.slice(1);
+  }
+  return null;
+}
+
+/**
+ * Pull a serial out of a decoded payload: GS1 serial elements, "S/N: ..."
+ * labels, serial query params on QR links, or the payload itself when it
+ * looks like a serial
+ */
+export function extractSerial(rawValue: string): string | null {
+  // Keep only printable characters and the GS1 group separator
+  const payload = Array.from(rawValue)
+    .filter((char) => char === GS1_GROUP_SEPARATOR || char.charCodeAt(0) >= 0x20)
+    .join('')
+    .trim();
+  if (!payload) return null;
+
+  if (GS1_PAYLOAD.test(payload)) {
+    return extractGs1Serial(payload)?.toUpperCase() || null;
+  }
+
+  if (/^https?:\/\//i.test(payload)) {
+    try {
+      const url = new URL(payload);
+      for (const param of URL_SERIAL_PARAMS) {
+        const value = url.searchParams.get(param)?.trim().toUpperCase();
+        if (value && SERIAL_PATTERN.test(value)) return value;
+      }
+    } catch {
+      // Not a valid URL; fall through to the other patterns
+    }
+    return null;
+  }
+
+  const labelled = payload.match(LABELLED_SERIAL);
+  if (labelled) return labelled[1].toUpperCase();
+
+  const candidate = payload.split(GS1_GROUP_SEPARATOR).join('').toUpperCase();
+  return SERIAL_PATTERN.test(candidate) ? candidate : null;
+}
+
+/**
+ * ZXing decoder behind the BarcodeDetector interface. It reads one barcode
+ * per frame, which is enough for a serial label.
+ */
+async function createZxingDetector(): Promise<SerialBarcodeDetector | null> {
+  if (typeof document === 'undefined') return null;
+
+  try {
+    const [{ BrowserMultiFormatReader }, { BarcodeFormat, DecodeHintType }] = await Promise.all([
+      import('@zxing/browser'),
+      import('@zxing/library'),
+    ]);
+    const zxingFormats: Record<SerialBarcodeFormat, number> = {
+      code_128: BarcodeFormat.CODE_128,
+      data_matrix: BarcodeFormat.DATA_MATRIX,
+      qr_code: BarcodeFormat.QR_CODE,
+      ean_13: BarcodeFormat.EAN_13,
+    };
+    const reader = new BrowserMultiFormatReader(
+      new Map([[DecodeHintType.POSSIBLE_FORMATS, SERIAL_FORMATS.map((format) => zxingFormats[format])]])
+    );
+    const canvas = document.createElement('canvas');
+
+    return {
+      async detect(source) {
+        const bitmap = await createImageBitmap(source);
+        try {
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+
+          let result;
+          try {
+            result = reader.decodeFromCanvas(canvas);
+          } catch {
+            // ZXing throws NotFoundException when nothing decodes
+            return [];
+          }
+          const format = SERIAL_FORMATS.find((candidate) => zxingFormats[candidate] === result.getBarcodeFormat());
+          return format ? [{ rawValue: result.getText(), format }] : [];
+        } finally {
+          bitmap.close();
+        }
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a detector for the serial formats: the native BarcodeDetector
+ * when it supports any of them, else ZXing. Null when neither loads.
+ */
+export async function createSerialBarcodeDetector(): Promise<SerialBarcodeDetector | null> {
+  const BarcodeDetector = getBarcodeDetector();
+  if (BarcodeDetector) {
+    try {
+      const supported = await BarcodeDetector.getSupportedFormats();
+      const formats = SERIAL_FORMATS.filter((format) => supported.includes(format));
+      if (formats.length > 0) return new BarcodeDetector({ formats });
+    } catch {
+      // Fall back to ZXing
+    }
+  }
+  return createZxingDetector();
+}
+
+/**
+ * Decode the preferred serial barcode in a video frame or image, or null
+ */
+export async function detectSerialBarcode(
+  detector: SerialBarcodeDetector,
+  source: ImageBitmapSource
+): Promise<DecodedBarcode | null> {
+  let detected: DetectedBarcode[];
+  try {
+    detected = await detector.detect(source);
+  } catch {
+    // Frames that aren't ready yet (or tainted images) throw; treat as no read
+    return null;
+  }
+
+  const candidates = detected
+    .map((barcode) => ({
+      value: extractSerial(barcode.rawValue),
+      format: barcode.format as SerialBarcodeFormat,
+      rawValue: barcode.rawValue,
+    }))
+    .filter((barcode): barcode is DecodedBarcode => Boolean(barcode.value) && SERIAL_FORMATS.includes(barcode.format))
+    .sort((a, b) => SERIAL_FORMATS.indexOf(a.format) - SERIAL_FORMATS.indexOf(b.format));
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Decode the serial barcode in a captured or uploaded image (data URL)
+ */
+export async function detectSerialBarcodeInImage(
+  detector: SerialBarcodeDetector,
+  imageData: string
+): Promise<DecodedBarcode | null> {
+  try {
+    const blob = await (await fetch(imageData)).blob();
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return await detectSerialBarcode(detector, bitmap);
+    } finally {
+      bitmap.close();
+    }
+  } catch {
+    return null;
+  }
+}
@@ -38,7 +38,6 @@ export async function withRetry<T>(
 ): Promise<T> {
   const opts = { ...defaultOptions, ...options };
   let lastError: unknown;
-  let delay = opts.initialDelay;
 
   for (let attempt = 1; attempt <= opts.retries + 1; attempt++) {
     try {
@@ -59,17 +58,29 @@ export async function withRetry<T>(
       // Call retry callback
       opts.onRetry(error, attempt);
 
-      // Wait before retrying
-      await sleep(delay);
-
-      // Increase delay with exponential backoff
-      delay = Math.min(delay * opts.backoffFactor, opts.maxDelay);
+      // Wait before retrying (exponential backoff)
+      await sleep(getBackoffDelay(attempt, opts));
     }
   }
 
   throw lastError;
 }
 
+/**
+ * Delay before the given retry attempt (1-based) using exponential backoff.
+ * Shared by withRetry and the durable sync queue so both back off the same way.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'initialDelay' | 'maxDelay' | 'backoffFactor'> = {}
+): number {
+  const initialDelay = options.initialDelay ?? defaultOptions.initialDelay;
+  const maxDelay = options.maxDelay ?? defaultOptions.maxDelay;
+  const backoffFactor = options.backoffFactor ?? defaultOptions.backoffFactor;
+  const delay = initialDelay * Math.pow(backoffFactor, Math.max(0, attempt - 1));
+  return Math.min(delay, maxDelay);
+}
+
 /**
  * Check if an error is a network/transient error worth retrying
  */
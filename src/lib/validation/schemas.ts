@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { normalizeSerialNumber } from '@/lib/rma/service';
 
 /**
  * API Request Validation Schemas
@@ -50,6 +51,70 @@ export const conditionGradeSchema = z.enum(['mint', 'excellent', 'good', 'fair',
 export const syncStatusSchema = z.enum(['pending', 'syncing', 'synced', 'error']);
 export const listingStatusSchema = z.enum(['on_demo', 'ready_to_sell', 'sold']);
 export const serialCaptureStatusSchema = z.enum(['captured', 'not_found', 'skipped']);
+export const serialCaptureMethodSchema = z.enum(['barcode', 'vision', 'manual']);
+
+export const productCategorySchema = z.enum(['amplifier', 'speaker', 'projector', 'display', 'turntable', 'source', 'headphones', 'other']);
+
+// AI condition proposal saved with the item (ConditionAssessment)
+export const conditionAssessmentSchema = z.object({
+  category: productCategorySchema,
+  proposed_grade: conditionGradeSchema,
+  confidence: z.number().min(0).max(1),
+  summary: z.string().max(2000),
+  observations: z.array(z.object({
+    issue: z.enum(['scratch', 'scuff', 'dent', 'chip', 'crack', 'discolouration', 'missing_part', 'other']),
+    severity: z.enum(['minor', 'moderate', 'major']),
+    location: z.string().max(255),
+    description: z.string().max(1000),
+    image_index: z.number().int().min(0).nullable(),
+  })).max(100),
+  checklist: z.array(z.object({
+    item: z.string().max(255),
+    finding: z.string().max(1000),
+  })).max(50),
+  draft_report: z.string().max(5000),
+  image_count: z.number().int().min(0),
+  assessed_at: z.string(),
+  final_grade: conditionGradeSchema.optional().nullable(),
+  overridden: z.boolean().optional(),
+});
+
+export const conditionChecklistFieldSchema = z.object({
+  key: z.string().trim().min(1).max(50).regex(/^[a-z0-9_]+$/, 'Keys are lower-case letters, digits and underscores'),
+  label: z.string().trim().min(1, 'Label is required').max(255),
+  type: z.enum(['rating', 'select', 'yes_no', 'number', 'text']),
+  options: z.array(z.string().trim().min(1).max(255)).max(20).optional(),
+  unit: z.string().trim().max(30).optional().nullable(),
+  required: z.boolean().optional(),
+}).refine(
+  (field) => field.type !== 'select' || (field.options?.length ?? 0) >= 2,
+  { message: 'Choice fields need at least two options', path: ['options'] }
+);
+
+export const saveConditionChecklistSchema = z.object({
+  fields: z.array(conditionChecklistFieldSchema).min(1, 'A checklist needs at least one field').max(30),
+}).refine(
+  (data) => new Set(data.fields.map((field) => field.key)).size === data.fields.length,
+  { message: 'Field keys must be unique', path: ['fields'] }
+);
+
+// Checklist answers saved with the item (ConditionChecklistResponse)
+export const conditionChecklistResponseSchema = z.object({
+  category: productCategorySchema,
+  fields: z.array(conditionChecklistFieldSchema).max(30),
+  answers: z.record(z.string(), z.union([z.string().max(1000), z.number(), z.boolean(), z.null()])),
+});
+
+export const meterTypeSchema = z.enum(['lamp_hours', 'laser_hours', 'power_on_hours']);
+
+// Usage meters read at the same time, at most one reading per meter
+export const meterReadingsSchema = z.array(z.object({
+  meter_type: meterTypeSchema,
+  reading: z.number().int().min(0).max(1000000),
+})).max(3).refine(
+  (readings) => new Set(readings.map((reading) => reading.meter_type)).size === readings.length,
+  'Enter each meter once'
+);
 
 export const createInventoryItemSchema = z.object({
   listing_type: listingTypeSchema,
@@ -57,12 +122,20 @@ export const createInventoryItemSchema = z.object({
   model: z.string().min(1, 'Model is required').max(255),
   serial_number: z.string().max(255).optional().nullable(),
   serial_capture_status: serialCaptureStatusSchema.optional().nullable(),
+  serial_capture_method: serialCaptureMethodSchema.optional().nullable(),
   sku: z.string().max(100).optional().nullable(),
   rrp_aud: priceSchema.optional().nullable(),
   cost_price: priceSchema.optional().nullable(),
   sale_price: priceSchema,
+  supplier_id: uuidSchema.optional().nullable(),
+  customer_id: uuidSchema.optional().nullable(),
   condition_grade: conditionGradeSchema.optional().nullable(),
   condition_report: z.string().max(5000).optional().nullable(),
+  condition_ai_assessment: conditionAssessmentSchema.optional().nullable(),
+  condition_checklist: conditionChecklistResponseSchema.optional().nullable(),
+  // Recorded against the serial at trade-in, not stored on the item
+  meter_readings: meterReadingsSchema.optional(),
+  notes: z.string().max(5000).optional().nullable(),
   title: z.string().max(255).optional().nullable(),
   description_html: z.string().max(50000).optional().nullable(),
   meta_description: z.string().max(160).optional().nullable(),
@@ -92,6 +165,89 @@ export const inventoryFiltersSchema = z.object({
   offset: z.coerce.number().min(0).optional(),
 });
 
+// ============================================
+// Product Group (Multi-Variant) Schemas
+// ============================================
+
+export const productGroupVariantSchema = z.object({
+  id: uuidSchema.optional(),
+  options: z.record(z.string(), z.string().trim().min(1).max(100)),
+  sale_price: priceSchema,
+  sku: z.string().max(100).optional().nullable(),
+  rrp_aud: priceSchema.optional().nullable(),
+});
+
+const productGroupFieldsSchema = z.object({
+  title: z.string().max(255).optional().nullable(),
+  description_html: z.string().max(50000).optional().nullable(),
+  option_names: z.array(z.string().trim().min(1).max(50)).min(1, 'At least one option is required').max(3, 'Shopify allows at most 3 options'),
+  variants: z.array(productGroupVariantSchema).min(1, 'At least one variant is required').max(100),
+});
+
+function refineProductGroupVariants(
+  data: z.infer<typeof productGroupFieldsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const names = data.option_names.map((name) => name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Option names must be unique', path: ['option_names'] });
+  }
+
+  const seen = new Set<string>();
+  data.variants.forEach((variant, index) => {
+    const missing = data.option_names.filter((name) => !variant.options[name]);
+    if (missing.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Missing value for ${missing.join(', ')}`,
+        path: ['variants', index, 'options'],
+      });
+      return;
+    }
+    const key = data.option_names.map((name) => variant.options[name].toLowerCase()).join('\u0000');
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Each variant needs a unique combination of option values',
+        path: ['variants', index, 'options'],
+      });
+    }
+    seen.add(key);
+  });
+}
+
+export const createProductGroupSchema = productGroupFieldsSchema
+  .extend({
+    listing_type: listingTypeSchema,
+    brand: z.string().min(1, 'Brand is required').max(255),
+    model: z.string().min(1, 'Model is required').max(255),
+    source_url: urlSchema.optional().nullable(),
+    image_urls: z.array(z.string()).optional(),
+    specifications: z.record(z.string(), z.string()).optional().nullable(),
+  })
+  .superRefine(refineProductGroupVariants);
+
+export const updateProductGroupSchema = productGroupFieldsSchema.superRefine(refineProductGroupVariants);
+
+// ============================================
+// Stock Level Schemas
+// ============================================
+
+export const stockLevelsUpdateSchema = z.object({
+  levels: z
+    .array(
+      z.object({
+        location_id: uuidSchema,
+        quantity: z.number().int('Quantity must be a whole number').min(0).max(100000),
+      })
+    )
+    .max(100),
+});
+
+export const stockDriftResolutionSchema = z.object({
+  resolution: z.enum(['push_local', 'accept_shopify']),
+});
+
 // ============================================
 // Bulk Operations Schemas
 // ============================================
@@ -106,9 +262,12 @@ export const bulkPriceUpdateSchema = z.object({
   itemIds: z.array(uuidSchema).min(1).max(50),
   discountPercent: percentageSchema.optional(),
   fixedPrice: priceSchema.optional(),
+  prices: z.record(z.string(), priceSchema).optional(),
+  changeType: z.enum(['bulk_update', 'auto_discount']).optional(),
+  changeReason: z.string().max(500).optional(),
 }).refine(
-  (data) => data.discountPercent !== undefined || data.fixedPrice !== undefined,
-  { message: 'Either discountPercent or fixedPrice is required' }
+  (data) => data.discountPercent !== undefined || data.fixedPrice !== undefined || data.prices !== undefined,
+  { message: 'Either discountPercent, fixedPrice or prices is required' }
 );
 
 export const bulkArchiveSchema = z.object({
@@ -122,13 +281,272 @@ export const bulkStatusUpdateSchema = z.object({
   listingStatus: listingStatusSchema,
 });
 
+export const bulkSetPricesSchema = z.object({
+  action: z.literal('set_prices'),
+  itemIds: z.array(uuidSchema).min(1).max(50),
+  /** New sale price per item, e.g. accepted repricing suggestions */
+  prices: z.record(z.string(), priceSchema),
+}).refine(
+  (data) => data.itemIds.every((id) => data.prices[id] !== undefined),
+  { message: 'A price is required for every item' }
+);
+
 export const bulkOperationSchema = z.discriminatedUnion('action', [
   bulkSyncSchema,
   bulkPriceUpdateSchema,
   bulkArchiveSchema,
   bulkStatusUpdateSchema,
+  bulkSetPricesSchema,
 ]);
 
+// ============================================
+// Demo Fleet Schemas
+// ============================================
+
+export const demoConversionSchema = z.object({
+  units: z.array(z.object({
+    id: uuidSchema,
+    sale_price: priceSchema.refine((price) => price > 0, 'Sale price is required'),
+    condition_grade: conditionGradeSchema,
+    selling_images: z.array(z.string()).max(20).optional().default([]),
+  })).min(1, 'At least one unit required').max(50, 'Maximum 50 units'),
+  publish: z.boolean().optional().default(true),
+});
+
+// ============================================
+// Sync Queue Schemas
+// ============================================
+
+export const syncJobStatusSchema = z.enum(['queued', 'leased', 'succeeded', 'dead']);
+
+export const syncJobFiltersSchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((s) => s.trim()).filter(Boolean) : []))
+    .pipe(z.array(syncJobStatusSchema)),
+  limit: z.coerce.number().min(1).max(200).optional().default(50),
+});
+
+// ============================================
+// Notion Reconciliation Schemas
+// ============================================
+
+export const notionConflictFiltersSchema = z.object({
+  status: z.enum(['open', 'resolved', 'superseded']).optional().default('open'),
+  limit: z.coerce.number().min(1).max(200).optional().default(100),
+});
+
+export const notionConflictResolutionSchema = z.object({
+  resolution: z.enum(['keep_local', 'keep_notion']),
+});
+
+// ============================================
+// Pricelist Schemas
+// ============================================
+
+export const pricelistItemSchema = z.object({
+  sku: z.string().max(100),
+  product_name: z.string().trim().min(1).max(500),
+  cost_price: priceSchema.refine((price) => price > 0, 'Cost price must be greater than 0'),
+  rrp_aud: priceSchema.optional(),
+  brand: z.string().max(255).optional(),
+  model: z.string().max(255).optional(),
+  category: z.string().max(255).optional(),
+});
+
+/** Spreadsheet header per PricelistItem field (see lib/pricelist/spreadsheet) */
+export const pricelistColumnMappingSchema = z.object({
+  sku: z.string().max(255).optional(),
+  product_name: z.string().min(1, 'Map the product name column').max(255),
+  cost_price: z.string().min(1, 'Map the cost price column').max(255),
+  rrp_aud: z.string().max(255).optional(),
+  brand: z.string().max(255).optional(),
+  model: z.string().max(255).optional(),
+  category: z.string().max(255).optional(),
+});
+
+export const pricelistDiffSchema = z.object({
+  items: z.array(pricelistItemSchema).min(1, 'At least one pricelist line required').max(2000),
+});
+
+export const pricelistApplySchema = z.object({
+  priceChanges: z.array(z.object({
+    itemId: uuidSchema,
+    cost_price: priceSchema.optional(),
+    rrp_aud: priceSchema.optional(),
+  })).max(2000).default([]),
+  newItems: z.array(pricelistItemSchema).max(2000).default([]),
+  discontinuedIds: z.array(uuidSchema).max(2000).default([]),
+  /** Shown as the price_history change reason, e.g. the pricelist file name */
+  source: z.string().trim().max(255).optional(),
+  /** Recorded on new and re-priced items */
+  supplierId: uuidSchema.optional(),
+}).refine(
+  (data) => data.priceChanges.length + data.newItems.length + data.discontinuedIds.length > 0,
+  { message: 'Select at least one change to apply' }
+);
+
+// ============================================
+// Supplier Schemas
+// ============================================
+
+const optionalText = (max: number) => z.string().trim().max(max).optional().nullable();
+
+export const createSupplierSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  brands: z.array(z.string().trim().min(1).max(255)).max(100).optional(),
+  contact_name: optionalText(255),
+  contact_email: z.string().trim().email('Invalid email').max(255).optional().nullable(),
+  contact_phone: optionalText(50),
+  account_number: optionalText(100),
+  default_discount_percent: z.number().min(0).lt(100).optional().nullable(),
+  target_margin_percent: z.number().min(0).lt(100).optional().nullable(),
+  price_basis: z.enum(['ex_gst', 'inc_gst']).optional(),
+  column_mapping: pricelistColumnMappingSchema.optional().nullable(),
+  prompt_hints: optionalText(2000),
+  notes: optionalText(5000),
+  is_active: z.boolean().optional(),
+});
+
+export const updateSupplierSchema = createSupplierSchema.partial();
+
+// ============================================
+// Purchase Order Schemas
+// ============================================
+
+export const purchaseOrderLineSchema = z.object({
+  inventory_item_id: uuidSchema.optional().nullable(),
+  sku: z.string().trim().max(100).optional().nullable(),
+  brand: z.string().trim().min(1, 'Brand is required').max(255),
+  model: z.string().trim().min(1, 'Model is required').max(255),
+  quantity: z.number().int().min(1).max(10000),
+  unit_cost_ex_gst: priceSchema,
+  rrp_aud: priceSchema.optional().nullable(),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  supplier_id: uuidSchema,
+  location_id: uuidSchema.optional().nullable(),
+  expected_at: z.string().date().optional().nullable(),
+  notes: z.string().max(5000).optional().nullable(),
+  lines: z.array(purchaseOrderLineSchema).max(200).default([]),
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  location_id: uuidSchema.optional().nullable(),
+  expected_at: z.string().date().optional().nullable(),
+  notes: z.string().max(5000).optional().nullable(),
+  /** Replaces every line; drafts only */
+  lines: z.array(purchaseOrderLineSchema).max(200).optional(),
+  status: z.enum(['ordered', 'cancelled']).optional(),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  location_id: uuidSchema.optional().nullable(),
+  notes: z.string().max(5000).optional().nullable(),
+  lines: z.array(z.object({
+    line_id: uuidSchema,
+    quantity: z.number().int().min(1).max(10000),
+    serials: z.array(z.string().trim().min(1).max(255)).max(10000).default([]),
+  }).refine(
+    (line) => line.serials.length <= line.quantity,
+    { message: 'More serials than units received', path: ['serials'] }
+  )).min(1, 'Receive at least one line').max(200),
+}).superRefine((data, ctx) => {
+  // Compare serials as they'll be registered, so "ab123" and "AB123 " clash here
+  const seen = new Set<string>();
+  for (const serial of data.lines.flatMap((line) => line.serials)) {
+    const normalized = normalizeSerialNumber(serial);
+    if (!normalized) continue;
+    if (seen.has(normalized)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Serial ${normalized} is listed more than once; each serial can only be received once`,
+        path: ['lines'],
+      });
+      return;
+    }
+    seen.add(normalized);
+  }
+});
+
+// ============================================
+// Trade-In Schemas
+// ============================================
+
+export const tradeInValuationSchema = z.object({
+  brand: z.string().trim().min(1, 'Brand is required').max(255),
+  model: z.string().trim().min(1, 'Model is required').max(255),
+  condition_grade: conditionGradeSchema,
+  rrp_aud: priceSchema.optional().nullable().default(null),
+  age_years: z.number().min(0).max(60).optional().nullable().default(null),
+});
+
+const tradeInValuationResultSchema = z.object({
+  estimated_resale_price: z.number(),
+  target_margin_percent: z.number(),
+  recommended_offer: z.number(),
+  offer_low: z.number(),
+  offer_high: z.number(),
+  factors: z.array(z.object({ label: z.string(), detail: z.string() })),
+  sell_through: z.object({
+    scope: z.enum(['model', 'brand', 'none']),
+    sold_count: z.number(),
+    average_sale_price: z.number().nullable(),
+    average_price_to_rrp: z.number().nullable(),
+    average_days_to_sell: z.number().nullable(),
+    in_stock_count: z.number(),
+  }),
+  valued_at: z.string(),
+});
+
+export const createTradeInOfferSchema = tradeInValuationSchema.extend({
+  serial_number: z.string().trim().max(255).optional().nullable(),
+  valuation: tradeInValuationResultSchema,
+  offer_amount: priceSchema.refine((amount) => amount > 0, 'Offer amount must be greater than 0'),
+  customer_name: z.string().trim().min(1, 'Customer name is required').max(255),
+  customer_email: z.string().trim().email('Invalid email').max(255).optional().nullable(),
+  customer_phone: z.string().trim().max(50).optional().nullable(),
+  customer_id: uuidSchema.optional().nullable(),
+  hubspot_contact_id: z.string().trim().max(100).optional().nullable(),
+  valid_days: z.number().int().min(1).max(90).optional(),
+  notes: z.string().max(5000).optional().nullable(),
+});
+
+export const updateTradeInOfferSchema = z.object({
+  status: z.enum(['accepted', 'declined']).optional(),
+  inventory_item_id: uuidSchema.optional().nullable(),
+  offer_amount: priceSchema.refine((amount) => amount > 0, 'Offer amount must be greater than 0').optional(),
+  customer_name: z.string().trim().min(1).max(255).optional(),
+  customer_email: z.string().trim().email('Invalid email').max(255).optional().nullable(),
+  customer_phone: z.string().trim().max(50).optional().nullable(),
+  expires_at: z.string().datetime().optional(),
+  notes: z.string().max(5000).optional().nullable(),
+});
+
+// ============================================
+// Customer Schemas
+// ============================================
+
+export const createCustomerSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  first_name: optionalText(255),
+  last_name: optionalText(255),
+  email: z.string().trim().email('Invalid email').max(255).optional().nullable(),
+  phone: optionalText(50),
+  shopify_customer_id: optionalText(100),
+  hubspot_contact_id: optionalText(100),
+  notes: optionalText(5000),
+});
+
+export const updateCustomerSchema = createCustomerSchema.partial();
+
+export const hubSpotContactMatchSchema = z.object({
+  email: z.string().trim().email('Invalid email').max(255).optional().nullable(),
+  phone: z.string().trim().max(50).optional().nullable(),
+}).refine((data) => data.email || data.phone, 'Enter an email or phone to match');
+
 // ============================================
 // Search & Scrape Schemas
 // ============================================
@@ -155,6 +573,60 @@ export const scrapeRequestSchema = z.object({
   productId: uuidSchema.optional(),
 });
 
+const cssSelectorSchema = z.string().trim().min(1).max(500);
+
+const scrapeRecipeSelectorsSchema = z.object({
+  title: cssSelectorSchema.optional(),
+  price: cssSelectorSchema.optional(),
+  description: cssSelectorSchema.optional(),
+  brand: cssSelectorSchema.optional(),
+  sku: cssSelectorSchema.optional(),
+  specTable: cssSelectorSchema.optional(),
+  specRow: cssSelectorSchema.optional(),
+  specLabel: cssSelectorSchema.optional(),
+  specValue: cssSelectorSchema.optional(),
+  gallery: cssSelectorSchema.optional(),
+  galleryAttribute: z.string().trim().min(1).max(100).optional(),
+});
+
+export const createScrapeRecipeSchema = z.object({
+  domain: z.string()
+    .trim()
+    .toLowerCase()
+    .transform((val) => val.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0])
+    .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Enter a domain like selby.com.au')),
+  name: z.string().trim().min(1).max(255),
+  is_active: z.boolean().optional(),
+  selectors: scrapeRecipeSelectorsSchema.default({}),
+  click_selectors: z.array(cssSelectorSchema).max(20).default([]),
+  wait_for_selector: cssSelectorSchema.nullable().optional(),
+  pagination: z.object({
+    nextSelector: cssSelectorSchema,
+    maxPages: z.number().int().min(2).max(10),
+  }).nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+});
+
+export const updateScrapeRecipeSchema = createScrapeRecipeSchema.partial();
+
+export const captureScrapeFixtureSchema = z.object({
+  url: scrapeRequestSchema.shape.url,
+  name: z.string().trim().min(1).max(255).optional(),
+});
+
+export const updateScrapeFixtureSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  expected: z.object({
+    title: z.string().optional(),
+    price: z.number().nonnegative().optional(),
+    brand: z.string().optional(),
+    sku: z.string().optional(),
+    minSpecs: z.number().int().min(0).optional(),
+    minImages: z.number().int().min(0).optional(),
+    specs: z.record(z.string(), z.string()).optional(),
+  }).optional(),
+});
+
 // ============================================
 // Image Processing Schemas
 // ============================================
@@ -204,6 +676,36 @@ export const rrpLookupSchema = z.object({
   model: z.string().min(1).max(255),
 });
 
+export const updateRrpAlertSchema = z.object({
+  status: z.enum(['open', 'dismissed']),
+});
+
+// ============================================
+// Repricing Rule Schemas
+// ============================================
+
+const repricingRuleFieldsSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  is_active: z.boolean().optional(),
+  listing_type: listingTypeSchema.nullable().optional(),
+  min_age_days: z.number().int().min(0).max(3650),
+  action: z.enum(['percent_discount', 'match_competitor_median']),
+  discount_percent: z.number().gt(0).lt(100).nullable().optional(),
+  cooldown_days: z.number().int().min(0).max(365).optional(),
+});
+
+export const createRepricingRuleSchema = repricingRuleFieldsSchema.refine(
+  (data) => data.action !== 'percent_discount' || data.discount_percent != null,
+  { message: 'discount_percent is required to drop by a percentage', path: ['discount_percent'] }
+);
+
+export const updateRepricingRuleSchema = repricingRuleFieldsSchema.partial();
+
+export const repricingDecisionSchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  ids: z.array(uuidSchema).min(1, 'At least one proposal required').max(200),
+});
+
 // ============================================
 // Vision AI Schemas
 // ============================================
@@ -290,6 +792,8 @@ export const serviceEventTypeSchema = z.enum([
   'lamp_hours_recorded',
 ]);
 
+export const meterReadingContextSchema = z.enum(['trade_in', 'rma_intake', 'rma_return', 'service_check']);
+
 export const rmaCaseCreateSchema = z.object({
   shopify_order_id: z.string().min(1).max(100),
   shopify_order_name: z.string().max(100).optional().nullable(),
@@ -455,6 +959,12 @@ export const rmaServiceEventCreateSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).optional().default({}),
 });
 
+export const rmaMeterReadingsCreateSchema = z.object({
+  context: meterReadingContextSchema.exclude(['trade_in']),
+  readings: meterReadingsSchema.min(1, 'Enter at least one meter reading'),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
 export const rmaListFiltersSchema = z.object({
   status: rmaStatusSchema.optional(),
   serial_number: z.string().max(255).optional(),
@@ -487,6 +997,33 @@ export const rmaWebhookReturnSchema = z.object({
   status: z.string().optional(),
 });
 
+// ============================================
+// Shopify Order Webhook Schemas
+// ============================================
+
+export const shopifyOrderWebhookSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  name: z.string().nullish(),
+  created_at: z.string().nullish(),
+  processed_at: z.string().nullish(),
+  financial_status: z.string().nullish(),
+  customer: z.object({
+    id: z.union([z.string(), z.number()]),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    first_name: z.string().nullish(),
+    last_name: z.string().nullish(),
+  }).nullish(),
+  line_items: z.array(z.object({
+    id: z.union([z.string(), z.number()]).optional(),
+    variant_id: z.union([z.string(), z.number()]).nullish(),
+    sku: z.string().nullish(),
+    quantity: z.number().int().nonnegative().optional(),
+    title: z.string().nullish(),
+    price: z.string().nullish(),
+  })).default([]),
+});
+
 // ============================================
 // Audit Log Schemas
 // ============================================
@@ -18,6 +18,10 @@ const CSRF_EXEMPT_ROUTES = [
   '/api/shopify/auth',   // OAuth initiation
   '/api/integrations/status',
   '/api/shopify/webhooks',
+  '/api/sync/worker',    // Cron-triggered, authenticated by API key
+  '/api/sync/reconcile', // Cron-triggered, authenticated by API key
+  '/api/rrp/watch',      // Cron-triggered, authenticated by API key
+  '/api/repricing/run',  // Cron-triggered, authenticated by API key
 ];
 
 // Routes that don't require any auth
@@ -26,6 +30,7 @@ const PUBLIC_ROUTES = [
   '/api/integrations/status',
   '/api/shopify/auth',
   '/api/shopify/webhooks/returns',
+  '/api/shopify/webhooks/orders',
   '/api/rma/public',
 ];
 
@@ -0,0 +1,292 @@
+/**
+ * CHT Operating System - Condition Assessment Types
+ * Per-category condition checklists and AI-assisted condition grading of
+ * pre-owned units from their photos (see migrations/038_condition_assessment.sql)
+ */
+
+import type { ConditionGrade } from './inventory';
+
+export type ProductCategory =
+  | 'amplifier'
+  | 'speaker'
+  | 'projector'
+  | 'display'
+  | 'turntable'
+  | 'source'
+  | 'headphones'
+  | 'other';
+
+export const PRODUCT_CATEGORIES: Record<ProductCategory, { label: string; description: string }> = {
+  amplifier: {
+    label: 'Amplifier / Receiver',
+    description: 'AV receivers, integrated and power amplifiers, preamps',
+  },
+  speaker: {
+    label: 'Speaker',
+    description: 'Floorstanding, bookshelf, centre and subwoofers',
+  },
+  projector: {
+    label: 'Projector',
+    description: 'Lamp and laser projectors',
+  },
+  display: {
+    label: 'TV / Display',
+    description: 'Televisions and monitors',
+  },
+  turntable: {
+    label: 'Turntable',
+    description: 'Record players, tonearms and cartridges',
+  },
+  source: {
+    label: 'Source / Player',
+    description: 'Streamers, CD and Blu-ray players, DACs',
+  },
+  headphones: {
+    label: 'Headphones',
+    description: 'Headphones and headphone amplifiers',
+  },
+  other: {
+    label: 'Other',
+    description: 'Anything not covered above',
+  },
+};
+
+// ============================================
+// Condition checklists
+// ============================================
+
+export type ChecklistFieldType = 'rating' | 'select' | 'yes_no' | 'number' | 'text';
+
+export const CHECKLIST_FIELD_TYPES: Record<ChecklistFieldType, { label: string; description: string }> = {
+  rating: {
+    label: 'Rating',
+    description: 'Excellent, good, fair or poor',
+  },
+  select: {
+    label: 'Choice',
+    description: 'One of a fixed list of options',
+  },
+  yes_no: {
+    label: 'Yes / No',
+    description: 'A check that passed or failed',
+  },
+  number: {
+    label: 'Number',
+    description: 'A reading such as lamp hours',
+  },
+  text: {
+    label: 'Text',
+    description: 'Short free-text answer',
+  },
+};
+
+export type ChecklistRating = 'excellent' | 'good' | 'fair' | 'poor';
+
+export const CHECKLIST_RATINGS: Record<ChecklistRating, { label: string; color: string }> = {
+  excellent: { label: 'Excellent', color: 'emerald' },
+  good: { label: 'Good', color: 'green' },
+  fair: { label: 'Fair', color: 'orange' },
+  poor: { label: 'Poor', color: 'red' },
+};
+
+/** One question on a category's condition checklist */
+export interface ConditionChecklistField {
+  /** Stable identifier answers are stored under */
+  key: string;
+  label: string;
+  type: ChecklistFieldType;
+  /** Choices for select fields */
+  options?: string[];
+  /** Shown after number answers, e.g. "hours" */
+  unit?: string | null;
+  required?: boolean;
+}
+
+export type ConditionChecklistAnswer = string | number | boolean | null;
+
+/**
+ * A completed checklist, stored on inventory_items.condition_checklist.
+ * Keeps the fields it was answered against so the summary still reads
+ * correctly after the category's checklist is edited.
+ */
+export interface ConditionChecklistResponse {
+  category: ProductCategory;
+  fields: ConditionChecklistField[];
+  answers: Record<string, ConditionChecklistAnswer>;
+}
+
+/** A category's checklist as configured (see migrations/039_condition_checklists.sql) */
+export interface ConditionChecklistSchema {
+  /** Null while the built-in default is in use */
+  id: string | null;
+  category: ProductCategory;
+  fields: ConditionChecklistField[];
+  customised: boolean;
+  updated_at: string | null;
+}
+
+const ACCESSORY_OPTIONS = ['Complete', 'Partial', 'None'];
+
+/**
+ * Built-in checklists, used for any category that hasn't been customised
+ */
+export const DEFAULT_CONDITION_CHECKLISTS: Record<ProductCategory, ConditionChecklistField[]> = {
+  amplifier: [
+    { key: 'chassis', label: 'Chassis & top cover', type: 'rating', required: true },
+    { key: 'front_panel', label: 'Front panel & display', type: 'rating', required: true },
+    { key: 'controls', label: 'Knobs & buttons', type: 'rating' },
+    { key: 'rear_panel', label: 'Rear terminals & sockets', type: 'rating' },
+    { key: 'all_channels_tested', label: 'All channels tested', type: 'yes_no', required: true },
+    { key: 'accessories', label: 'Accessories (remote, mic, antennas)', type: 'select', options: ACCESSORY_OPTIONS },
+  ],
+  speaker: [
+    { key: 'cabinet', label: 'Cabinet & veneer', type: 'rating', required: true },
+    {
+      key: 'drivers',
+      label: 'Drivers',
+      type: 'select',
+      options: ['No damage', 'Cosmetic marks', 'Dust cap pushed in', 'Surround damaged', 'Not working'],
+      required: true,
+    },
+    { key: 'drivers_tested', label: 'All drivers play cleanly', type: 'yes_no', required: true },
+    {
+      key: 'grilles',
+      label: 'Grilles',
+      type: 'select',
+      options: ['Present, no damage', 'Present, marked', 'Present, damaged', 'Missing'],
+      required: true,
+    },
+    { key: 'binding_posts', label: 'Binding posts', type: 'rating' },
+    { key: 'feet', label: 'Feet / spikes included', type: 'yes_no' },
+  ],
+  projector: [
+    { key: 'housing', label: 'Housing', type: 'rating', required: true },
+    { key: 'lens', label: 'Lens', type: 'rating', required: true },
+    { key: 'lamp_hours', label: 'Lamp hours', type: 'number', unit: 'hours', required: true },
+    { key: 'light_source', label: 'Light source', type: 'select', options: ['Lamp', 'Laser', 'LED'] },
+    { key: 'filters', label: 'Vents & filters', type: 'rating' },
+    { key: 'accessories', label: 'Accessories (remote, cables)', type: 'select', options: ACCESSORY_OPTIONS },
+  ],
+  display: [
+    {
+      key: 'screen',
+      label: 'Screen',
+      type: 'select',
+      options: ['No marks', 'Marks visible only when off', 'Marks visible in use', 'Dead or stuck pixels', 'Cracked'],
+      required: true,
+    },
+    { key: 'bezel', label: 'Bezel & frame', type: 'rating', required: true },
+    { key: 'stand_included', label: 'Stand included', type: 'yes_no' },
+    { key: 'accessories', label: 'Accessories (remote, cables)', type: 'select', options: ACCESSORY_OPTIONS },
+  ],
+  turntable: [
+    { key: 'plinth', label: 'Plinth', type: 'rating', required: true },
+    {
+      key: 'dust_cover',
+      label: 'Dust cover',
+      type: 'select',
+      options: ['Present, no damage', 'Present, scratched', 'Cracked', 'Missing'],
+    },
+    { key: 'platter', label: 'Platter & mat', type: 'rating' },
+    { key: 'tonearm', label: 'Tonearm', type: 'rating', required: true },
+    { key: 'cartridge', label: 'Cartridge', type: 'text' },
+    {
+      key: 'stylus',
+      label: 'Stylus condition',
+      type: 'select',
+      options: ['New', 'Good', 'Worn', 'Damaged', 'No stylus'],
+      required: true,
+    },
+    { key: 'speed_checked', label: 'Speed checked', type: 'yes_no' },
+  ],
+  source: [
+    { key: 'chassis', label: 'Chassis & top cover', type: 'rating', required: true },
+    { key: 'front_panel', label: 'Front panel & display', type: 'rating', required: true },
+    {
+      key: 'transport',
+      label: 'Disc tray / transport',
+      type: 'select',
+      options: ['Plays normally', 'Noisy', 'Intermittent', 'Not working', 'No transport'],
+    },
+    { key: 'outputs_tested', label: 'All outputs tested', type: 'yes_no', required: true },
+    { key: 'accessories', label: 'Accessories (remote, cables)', type: 'select', options: ACCESSORY_OPTIONS },
+  ],
+  headphones: [
+    { key: 'headband', label: 'Headband', type: 'rating', required: true },
+    {
+      key: 'earpads',
+      label: 'Earpads',
+      type: 'select',
+      options: ['Original, no wear', 'Original, worn', 'Replaced', 'Missing'],
+      required: true,
+    },
+    { key: 'housings', label: 'Housings & yokes', type: 'rating' },
+    { key: 'drivers_tested', label: 'Both drivers play cleanly', type: 'yes_no', required: true },
+    { key: 'cable', label: 'Cable & connectors', type: 'rating' },
+    { key: 'accessories', label: 'Accessories (case, adapters)', type: 'select', options: ACCESSORY_OPTIONS },
+  ],
+  other: [
+    { key: 'body', label: 'Body & finish', type: 'rating', required: true },
+    { key: 'controls', label: 'Controls', type: 'rating' },
+    { key: 'connections', label: 'Connections', type: 'rating' },
+    { key: 'tested', label: 'Tested working', type: 'yes_no', required: true },
+    { key: 'accessories', label: 'Accessories included', type: 'text' },
+  ],
+};
+
+export type ConditionIssue = 'scratch' | 'scuff' | 'dent' | 'chip' | 'crack' | 'discolouration' | 'missing_part' | 'other';
+
+export const CONDITION_ISSUES: Record<ConditionIssue, { label: string }> = {
+  scratch: { label: 'Scratch' },
+  scuff: { label: 'Scuff' },
+  dent: { label: 'Dent' },
+  chip: { label: 'Chip' },
+  crack: { label: 'Crack' },
+  discolouration: { label: 'Discolouration' },
+  missing_part: { label: 'Missing part' },
+  other: { label: 'Other' },
+};
+
+export type ConditionSeverity = 'minor' | 'moderate' | 'major';
+
+export const CONDITION_SEVERITIES: Record<ConditionSeverity, { label: string; color: string }> = {
+  minor: { label: 'Minor', color: 'gray' },
+  moderate: { label: 'Moderate', color: 'amber' },
+  major: { label: 'Major', color: 'red' },
+};
+
+/** A defect seen in one of the photos */
+export interface ConditionObservation {
+  issue: ConditionIssue;
+  severity: ConditionSeverity;
+  /** Where on the unit, e.g. "top cover, rear left" */
+  location: string;
+  description: string;
+  /** Photo the defect is visible in (index into the photos sent) */
+  image_index: number | null;
+}
+
+export interface ConditionChecklistFinding {
+  item: string;
+  finding: string;
+}
+
+/**
+ * Proposed grade for a unit, stored on inventory_items.condition_ai_assessment
+ */
+export interface ConditionAssessment {
+  category: ProductCategory;
+  proposed_grade: ConditionGrade;
+  /** How sure the model is of the grade (0-1); low when photos don't show the whole unit */
+  confidence: number;
+  summary: string;
+  observations: ConditionObservation[];
+  checklist: ConditionChecklistFinding[];
+  /** Condition report drafted from the checklist findings */
+  draft_report: string;
+  image_count: number;
+  assessed_at: string;
+  /** Grade the user saved; differs from proposed_grade when overridden */
+  final_grade?: ConditionGrade | null;
+  overridden?: boolean;
+}
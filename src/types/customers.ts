@@ -0,0 +1,78 @@
+/**
+ * CHT Operating System - Customer Types
+ * Customer records linked to Shopify and HubSpot, and the ownership chain
+ * of serialised units (see migrations/037_customers.sql)
+ */
+
+export interface Customer {
+  id: string;
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  shopify_customer_id: string | null;
+  hubspot_contact_id: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Contact details used to find or create a customer */
+export interface CustomerInput {
+  name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  shopify_customer_id?: string | null;
+  hubspot_contact_id?: string | null;
+}
+
+/** HubSpot contact that may be the customer at a trade-in counter */
+export interface HubSpotContactMatch {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  /** Which of the entered details the contact shares */
+  matched_on: Array<'email' | 'phone'>;
+  url: string | null;
+  /** Customer record already linked to this contact */
+  customer_id: string | null;
+}
+
+// ============================================
+// Ownership chain
+// ============================================
+
+export type SerialOwnershipRole = 'traded_in' | 'purchased' | 'returned';
+
+export const SERIAL_OWNERSHIP_ROLES: Record<SerialOwnershipRole, { label: string; description: string; color: string }> = {
+  traded_in: {
+    label: 'Traded in',
+    description: 'Customer handed the unit to us as a trade-in',
+    color: 'amber',
+  },
+  purchased: {
+    label: 'Purchased',
+    description: 'Customer bought the unit from us',
+    color: 'green',
+  },
+  returned: {
+    label: 'Returned',
+    description: 'Customer sent the unit in under an RMA',
+    color: 'blue',
+  },
+};
+
+/** One hand-over in a serial's history, oldest first */
+export interface SerialOwnershipEntry {
+  event_id: string;
+  role: SerialOwnershipRole;
+  customer: Pick<Customer, 'id' | 'name' | 'email' | 'phone'> | null;
+  at: string;
+  summary: string | null;
+  rma_case_id: string | null;
+  inventory_item_id: string | null;
+}
@@ -102,6 +102,14 @@ export interface RawScrapedData {
   // Metadata
   scrapedAt: string;
   sourceUrl: string;
+
+  // Stored page the data was extracted from (scrape_snapshots)
+  snapshot?: {
+    id: string;
+    capturedAt: string;
+  };
+  // Set when the data was re-extracted from the snapshot instead of scraped
+  reExtractedAt?: string;
 }
 
 export interface ProductOnboardingInsert {
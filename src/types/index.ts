@@ -8,6 +8,13 @@ export * from './filters';
 export * from './shopify-products';
 export * from './klaviyo';
 export * from './rma';
+export * from './sync';
+export * from './scraper';
+export * from './pricing';
+export * from './suppliers';
+export * from './trade-ins';
+export * from './customers';
+export * from './condition';
 
 // Search result from discovery phase
 export interface SearchResult {
@@ -3,12 +3,17 @@
  * Phase 1: Unified Product Lister
  */
 
+import type { ConditionAssessment, ConditionChecklistResponse } from './condition';
+import type { NotionFieldSnapshot } from './sync';
+
 export type ListingType = 'new' | 'trade_in' | 'ex_demo';
 
 export type ConditionGrade = 'mint' | 'excellent' | 'good' | 'fair' | 'poor';
 
 export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error';
 export type SerialCaptureStatus = 'captured' | 'not_found' | 'skipped';
+// How a captured serial was read: decoded barcode/QR, vision AI, or typed
+export type SerialCaptureMethod = 'barcode' | 'vision' | 'manual';
 
 // Listing status (separate from sync status)
 // pending_enrichment = Imported from pricelist, needs images/description
@@ -34,12 +39,19 @@ export interface InventoryItem {
   model: string;
   serial_number: string | null;
   serial_capture_status: SerialCaptureStatus | null;
+  serial_capture_method: SerialCaptureMethod | null;
   sku: string | null;
   
+  // Variant of a multi-variant product (see ProductGroup)
+  product_group_id: string | null;
+  variant_options: VariantOptions;
+  
   // Pricing (AUD)
   rrp_aud: number | null;
   cost_price: number | null;
   sale_price: number;
+  supplier_id: string | null; // Supplier the cost price came from
+  customer_id: string | null; // Customer who supplied a trade-in
   
   // Condition (pre-owned/ex-demo)
   condition_grade: ConditionGrade | null;
@@ -50,12 +62,15 @@ export interface InventoryItem {
   demo_location: string | null;
   converted_to_sale_at: string | null;
   sold_at: string | null;
+  sold_shopify_order_id: string | null;
   
   // Media
   image_urls: string[];
   registration_images: string[]; // Original photos when demo registered
   selling_images: string[]; // Condition photos when converting to sale
   vision_ai_response: VisionAIResponse | null;
+  condition_ai_assessment: ConditionAssessment | null;
+  condition_checklist: ConditionChecklistResponse | null;
   
   // Content
   title: string | null;
@@ -66,8 +81,10 @@ export interface InventoryItem {
   // External IDs
   shopify_product_id: string | null;
   shopify_variant_id: string | null;
+  shopify_media: ShopifyMediaLink[];
   hubspot_deal_id: string | null;
   notion_page_id: string | null;
+  notion_snapshot: NotionFieldSnapshot | null;
   
   // Sync
   sync_status: SyncStatus;
@@ -77,8 +94,10 @@ export interface InventoryItem {
   // Source
   source_url: string | null;
   rrp_source: string | null;
+  rrp_checked_at: string | null; // Last RRP price-watch check
   
   // Meta
+  notes: string | null;
   created_by: string | null;
   is_archived: boolean;
   
@@ -94,10 +113,15 @@ export interface InventoryItemInsert {
   model: string;
   serial_number?: string | null;
   serial_capture_status?: SerialCaptureStatus | null;
+  serial_capture_method?: SerialCaptureMethod | null;
   sku?: string | null;
+  product_group_id?: string | null;
+  variant_options?: VariantOptions;
   rrp_aud?: number | null;
   cost_price?: number | null;
   sale_price: number;
+  supplier_id?: string | null;
+  customer_id?: string | null;
   condition_grade?: ConditionGrade | null;
   condition_report?: string | null;
   demo_start_date?: string | null;
@@ -106,12 +130,15 @@ export interface InventoryItemInsert {
   registration_images?: string[];
   selling_images?: string[];
   vision_ai_response?: VisionAIResponse | null;
+  condition_ai_assessment?: ConditionAssessment | null;
+  condition_checklist?: ConditionChecklistResponse | null;
   title?: string | null;
   description_html?: string | null;
   meta_description?: string | null;
   specifications?: Record<string, string>;
   source_url?: string | null;
   rrp_source?: string | null;
+  notes?: string | null;
   created_by?: string | null;
 }
 
@@ -122,19 +149,28 @@ export interface InventoryItemUpdate {
   model?: string;
   serial_number?: string | null;
   serial_capture_status?: SerialCaptureStatus | null;
+  serial_capture_method?: SerialCaptureMethod | null;
   sku?: string | null;
+  product_group_id?: string | null;
+  variant_options?: VariantOptions;
   rrp_aud?: number | null;
   cost_price?: number | null;
   sale_price?: number;
+  supplier_id?: string | null;
+  customer_id?: string | null;
   condition_grade?: ConditionGrade | null;
   condition_report?: string | null;
   demo_start_date?: string | null;
   demo_location?: string | null;
+  notes?: string | null;
   converted_to_sale_at?: string | null;
   sold_at?: string | null;
+  sold_shopify_order_id?: string | null;
   image_urls?: string[];
   registration_images?: string[];
   selling_images?: string[];
+  condition_ai_assessment?: ConditionAssessment | null;
+  condition_checklist?: ConditionChecklistResponse | null;
   title?: string | null;
   description_html?: string | null;
   meta_description?: string | null;
@@ -149,16 +185,50 @@ export interface InventoryItemUpdate {
   is_archived?: boolean;
 }
 
+// Shopify media uploaded for an image_urls entry
+export interface ShopifyMediaLink {
+  url: string;
+  mediaId: string; // gid://shopify/MediaImage/...
+  altText: string;
+}
+
 // Vision AI Response
+export type VisionField = 'brand' | 'model' | 'serial_number';
+
+/** Where a value was read, as fractions (0-1) of the photo's width/height */
+export interface VisionRegion {
+  /** Index of the photo in the request */
+  image_index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisionFieldReading {
+  value: string | null;
+  confidence: number;
+  region: VisionRegion | null;
+  /** Different values read from other photos */
+  alternatives: string[];
+}
+
 export interface VisionAIResponse {
   brand: string | null;
   model: string | null;
   serial_number: string | null;
+  /** Overall confidence: the weaker of brand and model */
   confidence: number;
   raw_text: string;
   identified_at: string;
+  /** Per-field readings merged across photos (absent on older responses) */
+  fields?: Record<VisionField, VisionFieldReading>;
+  image_count?: number;
 }
 
+/** Fields read below this confidence are flagged for manual confirmation */
+export const VISION_CONFIDENCE_THRESHOLD = 0.75;
+
 // RRP Search Result
 export interface RRPSearchResult {
   rrp_aud: number;
@@ -168,26 +238,47 @@ export interface RRPSearchResult {
   retrieved_at: string;
 }
 
-// Sync Result
-export interface SyncResult {
-  success: boolean;
-  shopify?: {
-    product_id: string;
-    variant_id: string;
-    admin_url: string;
-  };
-  hubspot?: {
-    deal_id: string;
-    deal_url: string;
-  };
-  notion?: {
-    page_id: string;
-    page_url: string;
-  };
-  errors?: string[];
+// Form state for lister UI
+// ============================================
+// Multi-variant products
+// ============================================
+
+/** Option value per product group axis, e.g. { Colour: 'Black' } */
+export type VariantOptions = Record<string, string>;
+
+/**
+ * One Shopify product whose variants are inventory items
+ * (see migrations/023_product_groups.sql)
+ */
+export interface ProductGroup {
+  id: string;
+  brand: string;
+  model: string;
+  title: string | null;
+  description_html: string | null;
+  /** Option axes in display order (1-3), e.g. ['Colour', 'Size'] */
+  option_names: string[];
+  shopify_product_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductGroupWithVariants extends ProductGroup {
+  variants: InventoryItem[];
+}
+
+/** Suggested option axes; any name up to Shopify's three options is allowed */
+export const VARIANT_OPTION_AXES = ['Colour', 'Finish', 'Size'] as const;
+
+export const MAX_VARIANT_OPTIONS = 3;
+
+/**
+ * Variant label in axis order, e.g. "Black / Large"
+ */
+export function formatVariantOptions(options: VariantOptions, optionNames: string[]): string {
+  return optionNames.map((name) => options[name]).filter(Boolean).join(' / ');
 }
 
-// Form state for lister UI
 export interface ListerFormState {
   step: 'choose_type' | 'capture' | 'details' | 'pricing' | 'review';
   listing_type: ListingType | null;
@@ -267,6 +358,22 @@ export const LISTING_TYPES: Record<ListingType, { label: string; description: st
   },
 };
 
+// Serial capture method display info
+export const SERIAL_CAPTURE_METHODS: Record<SerialCaptureMethod, { label: string; description: string }> = {
+  barcode: {
+    label: 'Barcode',
+    description: 'Decoded from a barcode or QR code on the unit',
+  },
+  vision: {
+    label: 'Vision AI',
+    description: 'Read from a photo by AI; check for misread characters',
+  },
+  manual: {
+    label: 'Typed',
+    description: 'Entered by hand',
+  },
+};
+
 // Listing status display info
 export const LISTING_STATUSES: Record<ListingStatus, { label: string; description: string; color: string }> = {
   pending_enrichment: {
@@ -309,3 +416,126 @@ export const DEMO_AGE_ALERTS: Record<DemoAgeAlert, { label: string; description:
     color: 'red',
   },
 };
+
+/** Months on demo before each alert level (matches the demo_inventory view) */
+export const DEMO_AGE_THRESHOLD_MONTHS: Record<Exclude<DemoAgeAlert, 'ok'>, number> = {
+  warning: 12,
+  critical: 24,
+};
+
+/** Discount off RRP proposed when an ex-demo unit of each grade goes on sale */
+export const DEMO_SALE_DISCOUNT_PERCENT: Record<ConditionGrade, number> = {
+  mint: 15,
+  excellent: 20,
+  good: 30,
+  fair: 40,
+  poor: 50,
+};
+
+// ============================================
+// Demo fleet planner
+// ============================================
+
+export type DemoFleetUnit = Pick<
+  InventoryItem,
+  | 'id'
+  | 'brand'
+  | 'model'
+  | 'sku'
+  | 'serial_number'
+  | 'demo_start_date'
+  | 'demo_location'
+  | 'condition_grade'
+  | 'rrp_aud'
+  | 'cost_price'
+  | 'registration_images'
+> & {
+  daysOnDemo: number;
+  alert: DemoAgeAlert;
+  /** Date the unit reaches 12 / 24 months on demo */
+  warningDate: string;
+  criticalDate: string;
+  /** Alert level at the end of the planning horizon */
+  projectedAlert: DemoAgeAlert;
+  /** RRP less the grade discount, held at the margin floor; null without RRP or grade */
+  proposedPrice: number | null;
+  marginFloor: number | null;
+};
+
+/** Units at one location that are, or will be within the horizon, 24+ months on demo */
+export interface DemoConversionBatch {
+  location: string;
+  unitIds: string[];
+  proposedTotal: number;
+  /** Units still needing an RRP or condition grade before they can be priced */
+  unpricedCount: number;
+}
+
+export interface DemoFleetLocation {
+  location: string;
+  units: DemoFleetUnit[];
+  counts: Record<DemoAgeAlert, number>;
+}
+
+export interface DemoFleetPlan {
+  horizonDays: number;
+  horizonDate: string;
+  locations: DemoFleetLocation[];
+  batches: DemoConversionBatch[];
+}
+
+/** One unit of a convert-to-sale batch */
+export interface DemoConversion {
+  id: string;
+  sale_price: number;
+  condition_grade: ConditionGrade;
+  selling_images: string[];
+}
+
+export interface DemoConversionResult {
+  converted: string[];
+  failed: Array<{ id: string; error: string }>;
+  /** Sync run per converted unit when publishing was requested */
+  queued: Record<string, string>;
+}
+
+// ============================================
+// Stock locations & quantities (new-retail stock)
+// ============================================
+
+export interface InventoryLocation {
+  id: string;
+  name: string;
+  shopify_location_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InventoryStockLevel {
+  id: string;
+  inventory_item_id: string;
+  location_id: string;
+  quantity: number;
+  /** Shopify's available count at the last reconciliation */
+  shopify_quantity: number | null;
+  shopify_checked_at: string | null;
+  pushed_at: string | null;
+  push_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InventoryStockLevelWithLocation extends InventoryStockLevel {
+  location: Pick<InventoryLocation, 'id' | 'name' | 'shopify_location_id'> | null;
+}
+
+export interface StockDriftEntry extends InventoryStockLevelWithLocation {
+  inventory_item: Pick<InventoryItem, 'id' | 'brand' | 'model' | 'sku'> | null;
+}
+
+export type StockDriftResolution = 'push_local' | 'accept_shopify';
+
+export function hasStockDrift(level: Pick<InventoryStockLevel, 'quantity' | 'shopify_quantity'>): boolean {
+  return level.shopify_quantity !== null && level.shopify_quantity !== level.quantity;
+}
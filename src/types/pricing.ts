@@ -0,0 +1,239 @@
+/**
+ * CHT Operating System - Pricing Types
+ * RRP price-watch: retailer price observations and the alerts raised
+ * from them (see migrations/028_rrp_price_watch.sql), the competitor
+ * price matrix built from the latest observations, and repricing rules
+ * with their approval queue (migrations/030_repricing_rules.sql)
+ */
+
+import type { InventoryItem, ListingType } from './inventory';
+
+/** price_history.change_type */
+export type PriceChangeType = 'create' | 'manual' | 'auto_discount' | 'bulk_update' | 'import';
+
+export type RrpOfferSource = 'google_shopping' | 'google_organic' | 'retailer_scrape';
+
+/** One retailer's price for a product, as found by the RRP search */
+export interface RetailerOffer {
+  retailer: string;
+  price: number;
+  url: string | null;
+  source: RrpOfferSource;
+  /** null when the listing doesn't say */
+  inStock: boolean | null;
+}
+
+export interface RrpObservation {
+  id: string;
+  inventory_item_id: string;
+  retailer: string;
+  price: number;
+  url: string | null;
+  source: RrpOfferSource;
+  in_stock: boolean | null;
+  /** The offer the search picked as the RRP for this check */
+  is_rrp: boolean;
+  observed_at: string;
+}
+
+export type RrpAlertType = 'competitor_below_sale' | 'rrp_changed';
+export type RrpAlertStatus = 'open' | 'dismissed' | 'resolved';
+
+export interface RrpAlert {
+  id: string;
+  inventory_item_id: string;
+  alert_type: RrpAlertType;
+  status: RrpAlertStatus;
+  /** Competitor for competitor_below_sale; null for rrp_changed */
+  retailer: string | null;
+  url: string | null;
+  observed_price: number;
+  sale_price: number | null;
+  /** Our stored RRP when the alert was last evaluated */
+  rrp_aud: number | null;
+  change_percent: number | null;
+  message: string;
+  last_seen_at: string;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RrpAlertWithItem extends RrpAlert {
+  item: Pick<InventoryItem, 'id' | 'brand' | 'model' | 'sku' | 'sale_price' | 'rrp_aud'> | null;
+}
+
+export interface RrpWatchSummary {
+  checked: number;
+  /** Items whose brand/model search found no retailer prices */
+  notFound: number;
+  observations: number;
+  alertsOpened: number;
+  alertsResolved: number;
+  errors: Array<{ itemId: string; error: string }>;
+  stoppedEarly: boolean;
+}
+
+/** A competitor's latest price for an item (one row of the matrix) */
+export interface CompetitorPricePoint {
+  retailer: string;
+  price: number;
+  in_stock: boolean | null;
+  url: string | null;
+  source: RrpOfferSource;
+  last_checked_at: string;
+}
+
+export type PricePositionBand = 'below_market' | 'competitive' | 'above_median' | 'above_market';
+
+/** Our sale price against in-stock competitor prices */
+export interface PricePosition {
+  band: PricePositionBand;
+  salePrice: number;
+  min: number;
+  median: number;
+  max: number;
+  competitorCount: number;
+}
+
+export interface RepricingSuggestion {
+  itemId: string;
+  brand: string;
+  model: string;
+  sku: string | null;
+  currentPrice: number;
+  suggestedPrice: number;
+  /** Lowest price that keeps the margin floor; null when cost is unknown */
+  marginFloor: number | null;
+  position: PricePosition;
+  reason: string;
+}
+
+export type RepricingRuleAction = 'percent_discount' | 'match_competitor_median';
+
+export interface RepricingRule {
+  id: string;
+  name: string;
+  is_active: boolean;
+  /** null matches every listing type */
+  listing_type: ListingType | null;
+  /** Days in stock (since demo_start_date for ex_demo) before the rule applies */
+  min_age_days: number;
+  action: RepricingRuleAction;
+  /** percent_discount only */
+  discount_percent: number | null;
+  /** Days after repricing an item before the rule may propose again */
+  cooldown_days: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RepricingProposalStatus = 'pending' | 'applied' | 'rejected' | 'superseded' | 'failed';
+
+export interface RepricingProposal {
+  id: string;
+  rule_id: string;
+  inventory_item_id: string;
+  status: RepricingProposalStatus;
+  current_price: number;
+  proposed_price: number;
+  margin_floor: number;
+  reason: string;
+  error: string | null;
+  decided_at: string | null;
+  applied_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RepricingProposalWithDetails extends RepricingProposal {
+  rule: Pick<RepricingRule, 'id' | 'name'> | null;
+  item: Pick<InventoryItem, 'id' | 'brand' | 'model' | 'sku' | 'sale_price'> | null;
+}
+
+/** A price change a rule would propose (dry run) */
+export interface RepricingCandidate {
+  itemId: string;
+  brand: string;
+  model: string;
+  sku: string | null;
+  listingType: ListingType;
+  ageDays: number;
+  currentPrice: number;
+  proposedPrice: number;
+  marginFloor: number;
+  reason: string;
+}
+
+export type RepricingSkipReason =
+  | 'cooldown'
+  | 'no_cost_price'
+  | 'no_competitor_prices'
+  | 'at_or_below_median'
+  | 'at_margin_floor';
+
+export interface RepricingRulePreview {
+  ruleId: string;
+  /** Items old enough for the rule */
+  evaluated: number;
+  candidates: RepricingCandidate[];
+  skipped: Partial<Record<RepricingSkipReason, number>>;
+}
+
+// Alert type display info
+export const RRP_ALERT_TYPES: Record<RrpAlertType, { label: string; description: string; color: string }> = {
+  competitor_below_sale: {
+    label: 'Undercut',
+    description: 'A competitor is selling below our sale price',
+    color: 'red',
+  },
+  rrp_changed: {
+    label: 'RRP Changed',
+    description: 'Market RRP moved enough that our advertised discount is out of date',
+    color: 'amber',
+  },
+};
+
+// Price position display info
+export const PRICE_POSITION_BANDS: Record<PricePositionBand, { label: string; description: string; color: string }> = {
+  below_market: {
+    label: 'Below Market',
+    description: 'Cheaper than every in-stock competitor',
+    color: 'blue',
+  },
+  competitive: {
+    label: 'Competitive',
+    description: 'Between the cheapest competitor and the market median',
+    color: 'green',
+  },
+  above_median: {
+    label: 'Above Median',
+    description: 'Dearer than most competitors',
+    color: 'amber',
+  },
+  above_market: {
+    label: 'Above Market',
+    description: 'Dearer than every in-stock competitor',
+    color: 'red',
+  },
+};
+
+// Repricing rule action display info
+export const REPRICING_RULE_ACTIONS: Record<RepricingRuleAction, { label: string; description: string }> = {
+  percent_discount: {
+    label: 'Drop by %',
+    description: 'Reduce the sale price by a percentage each time the rule runs, down to the margin floor',
+  },
+  match_competitor_median: {
+    label: 'Match competitor median',
+    description: 'Reduce the sale price to the median in-stock competitor price, down to the margin floor',
+  },
+};
+
+export const REPRICING_SKIP_REASONS: Record<RepricingSkipReason, string> = {
+  cooldown: 'Repriced by this rule recently',
+  no_cost_price: 'No cost price (margin floor unknown)',
+  no_competitor_prices: 'No in-stock competitor prices',
+  at_or_below_median: 'Already at or below the competitor median',
+  at_margin_floor: 'Already at the margin floor',
+};
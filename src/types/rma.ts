@@ -14,8 +14,11 @@ export type ServiceEventType =
   | 'rma_sent_to_manufacturer'
   | 'rma_repaired_replaced'
   | 'rma_back_to_customer'
+  | 'trade_in_received'
   | 'service_note'
-  | 'lamp_hours_recorded';
+  | 'lamp_hours_recorded'
+  | 'laser_hours_recorded'
+  | 'power_on_hours_recorded';
 
 export type RmaSource = 'manual' | 'shopify_return_webhook' | 'customer_form';
 export type RmaSubmissionChannel = 'internal_dashboard' | 'shopify_webhook' | 'customer_portal';
@@ -41,6 +44,8 @@ export interface RmaCase {
   customer_contact_preference: RmaContactPreference;
   customer_address_json: Record<string, unknown> | null;
   shopify_customer_id: string | null;
+  /** Customer record for the buyer (see migrations/037_customers.sql) */
+  customer_id: string | null;
   order_processed_at: string | null;
   order_financial_status: string | null;
   order_fulfillment_status: string | null;
@@ -114,6 +119,7 @@ export interface RmaCaseInsert {
   customer_contact_preference?: RmaContactPreference;
   customer_address_json?: Record<string, unknown> | null;
   shopify_customer_id?: string | null;
+  customer_id?: string | null;
   order_processed_at?: string | null;
   order_financial_status?: string | null;
   order_fulfillment_status?: string | null;
@@ -231,6 +237,11 @@ export interface SerialRegistry {
   sold_at: string | null;
   rma_count: number;
   last_rma_at: string | null;
+  /** Latest usage meter readings (full history in serial_meter_readings) */
+  lamp_hours: number | null;
+  laser_hours: number | null;
+  power_on_hours: number | null;
+  meters_updated_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -239,6 +250,8 @@ export interface SerialServiceEvent {
   id: string;
   serial_registry_id: string;
   rma_case_id: string | null;
+  /** Owner of the unit at the time of the event */
+  customer_id: string | null;
   event_type: ServiceEventType;
   summary: string | null;
   notes: string | null;
@@ -246,3 +259,72 @@ export interface SerialServiceEvent {
   created_by: string | null;
   created_at: string;
 }
+
+export type MeterType = 'lamp_hours' | 'laser_hours' | 'power_on_hours';
+
+export const METER_TYPES: Record<MeterType, {
+  label: string;
+  description: string;
+  color: string;
+  eventType: ServiceEventType;
+}> = {
+  lamp_hours: {
+    label: 'Lamp hours',
+    description: 'Hours on the current projector lamp',
+    color: '#f59e0b',
+    eventType: 'lamp_hours_recorded',
+  },
+  laser_hours: {
+    label: 'Laser hours',
+    description: 'Hours on a laser light source',
+    color: '#8b5cf6',
+    eventType: 'laser_hours_recorded',
+  },
+  power_on_hours: {
+    label: 'Power-on hours',
+    description: 'Total hours the unit has been powered on',
+    color: '#10b981',
+    eventType: 'power_on_hours_recorded',
+  },
+};
+
+export type MeterReadingContext = 'trade_in' | 'rma_intake' | 'rma_return' | 'service_check';
+
+export const METER_READING_CONTEXTS: Record<MeterReadingContext, { label: string }> = {
+  trade_in: { label: 'Trade-in' },
+  rma_intake: { label: 'RMA intake' },
+  rma_return: { label: 'RMA return' },
+  service_check: { label: 'Service check' },
+};
+
+export interface MeterReadingInput {
+  meter_type: MeterType;
+  reading: number;
+}
+
+export interface SerialMeterReading {
+  id: string;
+  serial_registry_id: string;
+  meter_type: MeterType;
+  reading: number;
+  context: MeterReadingContext;
+  rma_case_id: string | null;
+  inventory_item_id: string | null;
+  notes: string | null;
+  recorded_at: string;
+  created_at: string;
+}
+
+/** One meter's readings condensed for display and the RMA recommendation */
+export interface MeterReadingSummary {
+  meter_type: MeterType;
+  latest: number;
+  latest_at: string;
+  first: number;
+  first_at: string;
+  reading_count: number;
+  /** Average hours per day between the first and latest reading */
+  hours_per_day: number | null;
+  /** A reading went down, e.g. after a lamp swap or board replacement */
+  was_reset: boolean;
+}
@@ -0,0 +1,129 @@
+/**
+ * CHT Operating System - Scraper Types
+ * Per-domain scrape recipes and their saved HTML fixtures, and the page
+ * snapshots kept per scrape (see migrations/026-027)
+ */
+
+/**
+ * CSS selectors a recipe extracts with. Every selector is optional; fields
+ * a recipe leaves out (or that match nothing) come from the heuristics.
+ */
+export interface ScrapeRecipeSelectors {
+  title?: string;
+  /** Element text, or its content attribute (e.g. meta/itemprop) */
+  price?: string;
+  description?: string;
+  brand?: string;
+  sku?: string;
+  /** Spec containers. Rows default to tr (th/td) and dl (dt/dd) pairs. */
+  specTable?: string;
+  specRow?: string;
+  specLabel?: string;
+  specValue?: string;
+  /** Gallery images */
+  gallery?: string;
+  /** Image URL attribute; defaults to data-zoom-image, data-src, src */
+  galleryAttribute?: string;
+}
+
+export interface ScrapeRecipePagination {
+  /** Link/button for the next page of specs or gallery images */
+  nextSelector: string;
+  maxPages: number;
+}
+
+export interface ScrapeRecipe {
+  id: string;
+  domain: string;
+  name: string;
+  is_active: boolean;
+  selectors: ScrapeRecipeSelectors;
+  click_selectors: string[];
+  wait_for_selector: string | null;
+  pagination: ScrapeRecipePagination | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** What a recipe pulled from a page */
+export interface ScrapeRecipeExtraction {
+  title?: string;
+  price?: string;
+  description?: string;
+  brand?: string;
+  sku?: string;
+  specifications: Record<string, string>;
+  images: string[];
+}
+
+/**
+ * Expected recipe output for a fixture. Counts are minimums so fixtures
+ * survive harmless additions.
+ */
+export interface ScrapeRecipeExpectation {
+  title?: string;
+  price?: number;
+  brand?: string;
+  sku?: string;
+  minSpecs?: number;
+  minImages?: number;
+  /** Spec values that must match exactly */
+  specs?: Record<string, string>;
+}
+
+export interface ScrapeRecipeFixture {
+  id: string;
+  recipe_id: string;
+  name: string;
+  source_url: string;
+  html: string;
+  expected: ScrapeRecipeExpectation;
+  last_run_at: string | null;
+  last_run_passed: boolean | null;
+  last_run_failures: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScrapeRecipeFixtureSummary = Omit<ScrapeRecipeFixture, 'html'>;
+
+export interface ScrapeRecipeWithFixtures extends ScrapeRecipe {
+  fixtures: ScrapeRecipeFixtureSummary[];
+}
+
+export interface ScrapeRecipeFixtureResult {
+  fixtureId: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  extracted: ScrapeRecipeExtraction;
+  /** The extraction as an expectation, to accept it as the new baseline */
+  actual: ScrapeRecipeExpectation;
+}
+
+// Selector field display info (recipe editor)
+export const SCRAPE_RECIPE_SELECTOR_FIELDS: Record<keyof ScrapeRecipeSelectors, { label: string; placeholder: string }> = {
+  title: { label: 'Title', placeholder: 'h1.product-title' },
+  price: { label: 'Price', placeholder: '.price .amount' },
+  description: { label: 'Description', placeholder: '#description' },
+  brand: { label: 'Brand', placeholder: '[itemprop="brand"]' },
+  sku: { label: 'SKU / Model', placeholder: '.product-sku' },
+  specTable: { label: 'Spec Table', placeholder: '#specifications table' },
+  specRow: { label: 'Spec Row', placeholder: 'tr' },
+  specLabel: { label: 'Spec Label', placeholder: 'th' },
+  specValue: { label: 'Spec Value', placeholder: 'td' },
+  gallery: { label: 'Gallery Images', placeholder: '.product-gallery img' },
+  galleryAttribute: { label: 'Image Attribute', placeholder: 'data-zoom-image' },
+};
+
+/** Stored page HTML/screenshot from a scrape (see migrations/027_scrape_snapshots.sql) */
+export interface ScrapeSnapshot {
+  id: string;
+  product_onboarding_id: string | null;
+  source_url: string;
+  html_path: string;
+  screenshot_path: string | null;
+  html_bytes: number;
+  captured_at: string;
+}
@@ -0,0 +1,159 @@
+/**
+ * CHT Operating System - Supplier Types
+ * Supplier master records and their pricelist parsing profiles
+ * (see migrations/033_suppliers.sql), and purchase orders with their
+ * receipts (migrations/034_purchase_orders.sql)
+ */
+
+import type { InventoryLocation } from './inventory';
+
+/** Whether a supplier's pricelist prices include GST */
+export type SupplierPriceBasis = 'ex_gst' | 'inc_gst';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  brands: string[];
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  account_number: string | null;
+  /** Dealer discount off RRP, used to derive cost for RRP-only lines */
+  default_discount_percent: number | null;
+  /** Gross margin on sale price, used to price new items without an RRP */
+  target_margin_percent: number | null;
+  price_basis: SupplierPriceBasis;
+  /** Spreadsheet header per pricelist field (see lib/pricelist/fields) */
+  column_mapping: Record<string, string> | null;
+  /** Extra instructions for the vision pricelist parser */
+  prompt_hints: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export const SUPPLIER_PRICE_BASIS: Record<SupplierPriceBasis, { label: string; description: string }> = {
+  ex_gst: {
+    label: 'Ex-GST',
+    description: 'Dealer prices exclude GST; GST is added to cost on import',
+  },
+  inc_gst: {
+    label: 'Inc-GST',
+    description: 'Dealer prices already include GST',
+  },
+};
+
+// ============================================
+// Purchase orders
+// ============================================
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUSES: Record<PurchaseOrderStatus, { label: string; description: string; color: string }> = {
+  draft: {
+    label: 'Draft',
+    description: 'Being prepared; lines can still change',
+    color: 'gray',
+  },
+  ordered: {
+    label: 'Ordered',
+    description: 'Sent to the supplier, awaiting delivery',
+    color: 'blue',
+  },
+  partially_received: {
+    label: 'Partially Received',
+    description: 'Some units have arrived',
+    color: 'amber',
+  },
+  received: {
+    label: 'Received',
+    description: 'Every line received in full',
+    color: 'green',
+  },
+  cancelled: {
+    label: 'Cancelled',
+    description: 'Will not be received',
+    color: 'red',
+  },
+};
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  /** Where received stock goes */
+  location_id: string | null;
+  expected_at: string | null;
+  notes: string | null;
+  ordered_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  /** Product being reordered; set on first receipt for new products */
+  inventory_item_id: string | null;
+  sku: string | null;
+  brand: string;
+  model: string;
+  quantity: number;
+  quantity_received: number;
+  unit_cost_ex_gst: number;
+  rrp_aud: number | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderReceiptLine {
+  line_id: string;
+  inventory_item_id: string;
+  quantity: number;
+  serials: string[];
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  purchase_order_id: string;
+  location_id: string | null;
+  lines: PurchaseOrderReceiptLine[];
+  notes: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrderTotals {
+  subtotalExGst: number;
+  gst: number;
+  totalIncGst: number;
+  units: number;
+  unitsReceived: number;
+}
+
+export interface PurchaseOrderSummary extends PurchaseOrder {
+  supplier: Pick<Supplier, 'id' | 'name'> | null;
+  totals: PurchaseOrderTotals;
+}
+
+export interface PurchaseOrderWithDetails extends PurchaseOrder {
+  supplier: Pick<
+    Supplier,
+    'id' | 'name' | 'contact_name' | 'contact_email' | 'contact_phone' | 'account_number' | 'target_margin_percent'
+  > | null;
+  location: Pick<InventoryLocation, 'id' | 'name'> | null;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseOrderReceipt[];
+  totals: PurchaseOrderTotals;
+}
+
+export interface PurchaseOrderReceiveResult {
+  receipt_id: string;
+  status: PurchaseOrderStatus;
+  /** Units still to come across all lines */
+  outstanding: number;
+  lines: PurchaseOrderReceiptLine[];
+}
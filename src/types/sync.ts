@@ -0,0 +1,149 @@
+/**
+ * CHT Operating System - Sync Types
+ * Sync targets (see lib/sync/targets) and durable per-target publish jobs
+ * (see migrations/020_sync_jobs.sql)
+ */
+
+export type BuiltInSyncTargetId = 'shopify' | 'hubspot' | 'notion';
+
+/**
+ * Sync target id. Built-in targets are listed above; further adapters
+ * register their own ids with the sync target registry.
+ */
+export type SyncTargetId = BuiltInSyncTargetId | (string & {});
+
+/**
+ * Outcome of publishing an item to one target
+ */
+export interface SyncTargetResult {
+  success: boolean;
+  /** Record ID in the target system (product, deal, page, ...) */
+  external_id?: string;
+  /** Link to the record in the target's UI */
+  url?: string;
+  /** Target-specific extras, e.g. the Shopify variant ID */
+  data?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface SyncResult {
+  success: boolean;
+  /** Per-target outcome, keyed by sync target id */
+  targets: Partial<Record<SyncTargetId, SyncTargetResult>>;
+  errors?: string[];
+}
+
+export type SyncRunStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type SyncRunTrigger = 'manual' | 'bulk' | 'retry' | 'system';
+export type SyncJobStatus = 'queued' | 'leased' | 'succeeded' | 'dead';
+
+export interface SyncRun {
+  id: string;
+  inventory_item_id: string;
+  status: SyncRunStatus;
+  trigger: SyncRunTrigger;
+  result: SyncResult | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface SyncJob {
+  id: string;
+  run_id: string;
+  inventory_item_id: string;
+  /** Sync target id */
+  platform: SyncTargetId;
+  step_index: number;
+  status: SyncJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_owner: string | null;
+  leased_until: string | null;
+  last_error: string | null;
+  result: SyncTargetResult | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  dead_lettered_at: string | null;
+}
+
+export interface SyncRunWithJobs extends SyncRun {
+  jobs: SyncJob[];
+}
+
+// Built-in sync target display info
+export const SYNC_TARGETS: Record<BuiltInSyncTargetId, { label: string; linkLabel: string; icon: string }> = {
+  shopify: { label: 'Shopify', linkLabel: 'View Product', icon: '🛒' },
+  hubspot: { label: 'HubSpot', linkLabel: 'View Deal', icon: '📊' },
+  notion: { label: 'Notion', linkLabel: 'View Page', icon: '📝' },
+};
+
+export const BUILT_IN_SYNC_TARGETS = Object.keys(SYNC_TARGETS) as BuiltInSyncTargetId[];
+
+/**
+ * Display label for a target id; registered non-built-in targets fall back to their id.
+ */
+export function getSyncTargetLabel(id: SyncTargetId): string {
+  return SYNC_TARGETS[id as BuiltInSyncTargetId]?.label ?? id;
+}
+
+// Sync job status display info
+export const SYNC_JOB_STATUSES: Record<SyncJobStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: 'amber' },
+  leased: { label: 'Running', color: 'blue' },
+  succeeded: { label: 'Succeeded', color: 'green' },
+  dead: { label: 'Dead-lettered', color: 'red' },
+};
+
+// ============================================
+// Notion reconciliation (see migrations/022_notion_reconciliation.sql)
+// ============================================
+
+export type NotionReconciledField =
+  | 'listing_status'
+  | 'demo_location'
+  | 'notes'
+  | 'sale_price'
+  | 'condition_grade'
+  | 'serial_number';
+
+export type NotionFieldValue = string | number | null;
+
+/** Reconciled field values as last agreed between the app and Notion */
+export type NotionFieldSnapshot = Partial<Record<NotionReconciledField, NotionFieldValue>>;
+
+export type NotionConflictStatus = 'open' | 'resolved' | 'superseded';
+export type NotionConflictResolution = 'keep_local' | 'keep_notion';
+
+export interface NotionSyncConflict {
+  id: string;
+  inventory_item_id: string;
+  notion_page_id: string;
+  field: NotionReconciledField;
+  local_value: NotionFieldValue;
+  notion_value: NotionFieldValue;
+  base_value: NotionFieldValue;
+  status: NotionConflictStatus;
+  resolution: NotionConflictResolution | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotionSyncConflictWithItem extends NotionSyncConflict {
+  inventory_item: { id: string; brand: string; model: string; serial_number: string | null } | null;
+}
+
+// Reconciled field display info (property = Notion database column name)
+export const NOTION_RECONCILED_FIELDS: Record<NotionReconciledField, { label: string; property: string }> = {
+  listing_status: { label: 'Status', property: 'Status' },
+  demo_location: { label: 'Location', property: 'Location' },
+  notes: { label: 'Notes', property: 'Notes' },
+  sale_price: { label: 'Sale Price', property: 'Sale Price' },
+  condition_grade: { label: 'Condition', property: 'Condition' },
+  serial_number: { label: 'Serial Number', property: 'Serial Number' },
+};
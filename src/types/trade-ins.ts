@@ -0,0 +1,112 @@
+/**
+ * CHT Operating System - Trade-In Types
+ * Trade-in valuation and the offers made to customers
+ * (see migrations/036_trade_in_offers.sql)
+ */
+
+import type { ConditionGrade } from './inventory';
+
+// ============================================
+// Valuation
+// ============================================
+
+/** How closely past sales match the unit being valued */
+export type SellThroughScope = 'model' | 'brand' | 'none';
+
+/** Our history selling pre-owned (trade-in/ex-demo) units like this one */
+export interface SellThroughStats {
+  scope: SellThroughScope;
+  sold_count: number;
+  /** Mean sale price of sold units (model scope only) */
+  average_sale_price: number | null;
+  /** Mean sale price as a fraction of the unit's RRP */
+  average_price_to_rrp: number | null;
+  /** Mean days from listing to sale */
+  average_days_to_sell: number | null;
+  /** Unsold units of the same model already in stock */
+  in_stock_count: number;
+}
+
+export interface TradeInValuationInput {
+  brand: string;
+  model: string;
+  condition_grade: ConditionGrade;
+  rrp_aud: number | null;
+  /** Years since the unit was bought new, when known */
+  age_years: number | null;
+}
+
+export interface TradeInValuationFactor {
+  label: string;
+  detail: string;
+}
+
+export interface TradeInValuation {
+  /** What we expect to sell the unit for (inc GST) */
+  estimated_resale_price: number;
+  /** Margin applied after sell-through adjustment */
+  target_margin_percent: number;
+  recommended_offer: number;
+  offer_low: number;
+  offer_high: number;
+  factors: TradeInValuationFactor[];
+  sell_through: SellThroughStats;
+  valued_at: string;
+}
+
+// ============================================
+// Offers
+// ============================================
+
+export type TradeInOfferStatus = 'offered' | 'accepted' | 'declined';
+
+/** Stored status, plus expired for offers past expires_at */
+export type TradeInOfferDisplayStatus = TradeInOfferStatus | 'expired';
+
+export const TRADE_IN_OFFER_STATUSES: Record<TradeInOfferDisplayStatus, { label: string; description: string; color: string }> = {
+  offered: {
+    label: 'Offered',
+    description: 'With the customer, awaiting a decision',
+    color: 'blue',
+  },
+  accepted: {
+    label: 'Accepted',
+    description: 'Customer accepted; trade-in taken into stock',
+    color: 'green',
+  },
+  declined: {
+    label: 'Declined',
+    description: 'Customer turned the offer down',
+    color: 'gray',
+  },
+  expired: {
+    label: 'Expired',
+    description: 'Passed its expiry without a decision',
+    color: 'amber',
+  },
+};
+
+export interface TradeInOffer {
+  id: string;
+  offer_number: string;
+  status: TradeInOfferStatus;
+  brand: string;
+  model: string;
+  serial_number: string | null;
+  condition_grade: ConditionGrade;
+  age_years: number | null;
+  rrp_aud: number | null;
+  valuation: TradeInValuation;
+  offer_amount: number;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  customer_id: string | null;
+  expires_at: string;
+  notes: string | null;
+  inventory_item_id: string | null;
+  accepted_at: string | null;
+  declined_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
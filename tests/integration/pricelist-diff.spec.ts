@@ -0,0 +1,108 @@
+import { expect, test } from '@playwright/test';
+import { buildPricelistDiff, type PricelistDiffItem } from '@/lib/pricelist/diff';
+import type { PricelistItem } from '@/lib/pricelist/parser';
+
+function makeItem(overrides: Partial<PricelistDiffItem> & Pick<PricelistDiffItem, 'id'>): PricelistDiffItem {
+  return {
+    brand: 'Denon',
+    model: 'AVR-X2800H',
+    sku: 'AVRX2800H',
+    cost_price: 1000,
+    rrp_aud: 1699,
+    sale_price: 1499,
+    listing_status: 'ready_to_sell',
+    ...overrides,
+  };
+}
+
+function makeLine(overrides: Partial<PricelistItem> = {}): PricelistItem {
+  return {
+    sku: 'AVRX2800H',
+    product_name: 'Denon AVR-X2800H',
+    cost_price: 1000,
+    rrp_aud: 1699,
+    brand: 'Denon',
+    model: 'AVR-X2800H',
+    ...overrides,
+  };
+}
+
+test.describe('Pricelist diff', () => {
+  test('counts a line with the same cost and RRP as unchanged', () => {
+    const diff = buildPricelistDiff([makeLine()], [makeItem({ id: 'avr' })]);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes).toEqual([]);
+    expect(diff.newItems).toEqual([]);
+    expect(diff.discontinued).toEqual([]);
+  });
+
+  test('ignores sub-cent differences when comparing prices', () => {
+    const diff = buildPricelistDiff([makeLine({ cost_price: 1000.001 })], [makeItem({ id: 'avr' })]);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes).toEqual([]);
+  });
+
+  test('reports cost and RRP changes on a SKU match', () => {
+    const diff = buildPricelistDiff([makeLine({ cost_price: 1050, rrp_aud: 1799 })], [makeItem({ id: 'avr' })]);
+
+    expect(diff.changes).toHaveLength(1);
+    const [change] = diff.changes;
+    expect(change.item.id).toBe('avr');
+    expect(change.matchType).toBe('sku_exact');
+    expect(change.cost).toEqual({ old: 1000, new: 1050 });
+    expect(change.rrp).toEqual({ old: 1699, new: 1799 });
+    expect(diff.unchangedCount).toBe(0);
+  });
+
+  test('reports only the cost when the list has no RRP', () => {
+    const diff = buildPricelistDiff([makeLine({ cost_price: 950, rrp_aud: undefined })], [makeItem({ id: 'avr' })]);
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].cost).toEqual({ old: 1000, new: 950 });
+    expect(diff.changes[0].rrp).toBeNull();
+  });
+
+  test('matches on brand and model when the SKU differs', () => {
+    const diff = buildPricelistDiff(
+      [makeLine({ sku: 'DEN-AVRX2800H', cost_price: 1100 })],
+      [makeItem({ id: 'avr' })]
+    );
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].matchType).toBe('brand_model_exact');
+    expect(diff.newItems).toEqual([]);
+  });
+
+  test('lists unmatched lines as new items', () => {
+    const line = makeLine({ sku: 'HEOS1', product_name: 'Denon Home 150', model: 'Home 150' });
+    const diff = buildPricelistDiff([makeLine(), line], [makeItem({ id: 'avr' })]);
+
+    expect(diff.newItems).toEqual([line]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  test('marks items of the list brands with a SKU missing from the list as discontinued', () => {
+    const items = [
+      makeItem({ id: 'avr' }),
+      makeItem({ id: 'dropped', sku: 'AVRX1700H', model: 'AVR-X1700H' }),
+      makeItem({ id: 'other-brand', brand: 'Marantz', sku: 'SR6015', model: 'SR6015' }),
+      makeItem({ id: 'no-sku', sku: null, model: 'DP-450USB' }),
+      makeItem({ id: 'sold', sku: 'AVRS660H', model: 'AVR-S660H', listing_status: 'sold' }),
+    ];
+    const diff = buildPricelistDiff([makeLine()], items);
+
+    expect(diff.discontinued.map((item) => item.id)).toEqual(['dropped']);
+  });
+
+  test('compares brands case-insensitively for discontinued items', () => {
+    const items = [
+      makeItem({ id: 'avr' }),
+      makeItem({ id: 'dropped', brand: ' DENON ', sku: 'AVRX1700H', model: 'AVR-X1700H' }),
+    ];
+    const diff = buildPricelistDiff([makeLine({ brand: 'denon' })], items);
+
+    expect(diff.discontinued.map((item) => item.id)).toEqual(['dropped']);
+  });
+});
@@ -0,0 +1,139 @@
+import { expect, test } from '@playwright/test';
+import { getMarginFloor } from '@/lib/pricing/competitors';
+import { proposeRepricing, selectRepricingItems } from '@/lib/pricing/repricing-rules';
+import type { PricePosition } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-06-01T00:00:00Z');
+
+function makeItem(overrides: Partial<{
+  id: string;
+  listing_type: 'new' | 'trade_in' | 'ex_demo';
+  sale_price: number;
+  cost_price: number | null;
+  ageDays: number;
+  demo_start_date: string | null;
+}> = {}) {
+  const { ageDays = 120, ...fields } = overrides;
+  return {
+    id: 'item-1',
+    brand: 'Marantz',
+    model: 'PM7000N',
+    sku: 'PM7000N',
+    listing_type: 'ex_demo' as const,
+    sale_price: 2000,
+    cost_price: 1000,
+    created_at: new Date(NOW - ageDays * DAY_MS).toISOString(),
+    demo_start_date: null,
+    ...fields,
+  };
+}
+
+function makePosition(median: number, competitorCount = 3): PricePosition {
+  return { band: 'above_median', salePrice: 2000, min: median - 100, median, max: median + 100, competitorCount };
+}
+
+test.describe('Repricing rule selection', () => {
+  test('only evaluates items old enough for the rule', () => {
+    const items = [makeItem({ id: 'old', ageDays: 120 }), makeItem({ id: 'young', ageDays: 30 })];
+    const result = selectRepricingItems({ min_age_days: 90 }, items, NOW, new Set());
+
+    expect(result.evaluated).toBe(1);
+    expect(result.eligible.map((entry) => entry.item.id)).toEqual(['old']);
+    expect(result.eligible[0].ageDays).toBe(120);
+  });
+
+  test('counts ex-demo age from the demo start date', () => {
+    const item = makeItem({
+      ageDays: 400,
+      demo_start_date: new Date(NOW - 10 * DAY_MS).toISOString(),
+    });
+    const result = selectRepricingItems({ min_age_days: 90 }, [item], NOW, new Set());
+
+    expect(result.evaluated).toBe(0);
+  });
+
+  test('skips items repriced within the cooldown and items without a cost', () => {
+    const items = [
+      makeItem({ id: 'cooling' }),
+      makeItem({ id: 'no-cost', cost_price: null }),
+      makeItem({ id: 'ready' }),
+    ];
+    const result = selectRepricingItems({ min_age_days: 0 }, items, NOW, new Set(['cooling']));
+
+    expect(result.evaluated).toBe(3);
+    expect(result.eligible.map((entry) => entry.item.id)).toEqual(['ready']);
+    expect(result.skipped).toEqual({ cooldown: 1, no_cost_price: 1 });
+  });
+});
+
+test.describe('Repricing proposals', () => {
+  const discountRule = { action: 'percent_discount' as const, discount_percent: 10 };
+  const medianRule = { action: 'match_competitor_median' as const, discount_percent: null };
+
+  test('applies a percentage discount above the margin floor', () => {
+    const item = makeItem({ sale_price: 2000, cost_price: 1000 });
+    const result = proposeRepricing(discountRule, { item, ageDays: 120, marginFloor: getMarginFloor(1000)! }, null);
+
+    expect(typeof result).toBe('object');
+    if (typeof result === 'string') return;
+    expect(result.proposedPrice).toBe(1800);
+    expect(result.currentPrice).toBe(2000);
+    expect(result.reason).toBe('10% off after 120 days in stock');
+  });
+
+  test('clamps a discount to the margin floor', () => {
+    const item = makeItem({ sale_price: 1300, cost_price: 1000 });
+    const marginFloor = getMarginFloor(1000)!;
+    expect(Math.round(1300 * 0.9)).toBeLessThan(marginFloor);
+
+    const result = proposeRepricing(discountRule, { item, ageDays: 120, marginFloor }, null);
+
+    expect(typeof result).toBe('object');
+    if (typeof result === 'string') return;
+    expect(result.proposedPrice).toBe(marginFloor);
+    expect(result.reason).toContain('held at the');
+    expect(result.reason).toContain('margin floor');
+  });
+
+  test('proposes nothing when the item is already at the margin floor', () => {
+    const marginFloor = getMarginFloor(1000)!;
+    const item = makeItem({ sale_price: marginFloor, cost_price: 1000 });
+
+    expect(proposeRepricing(discountRule, { item, ageDays: 120, marginFloor }, null)).toBe('at_margin_floor');
+  });
+
+  test('matches the competitor median, rounded to whole dollars', () => {
+    const item = makeItem({ sale_price: 2000, cost_price: 1000 });
+    const result = proposeRepricing(
+      medianRule,
+      { item, ageDays: 120, marginFloor: getMarginFloor(1000)! },
+      makePosition(1849.5, 2)
+    );
+
+    expect(typeof result).toBe('object');
+    if (typeof result === 'string') return;
+    expect(result.proposedPrice).toBe(1850);
+    expect(result.reason).toContain('(2 retailers)');
+  });
+
+  test('holds a competitor median below the margin floor at the floor', () => {
+    const item = makeItem({ sale_price: 2000, cost_price: 1500 });
+    const marginFloor = getMarginFloor(1500)!;
+    const result = proposeRepricing(medianRule, { item, ageDays: 120, marginFloor }, makePosition(marginFloor - 200, 1));
+
+    expect(typeof result).toBe('object');
+    if (typeof result === 'string') return;
+    expect(result.proposedPrice).toBe(marginFloor);
+    expect(result.reason).toContain('(1 retailer)');
+  });
+
+  test('skips items without competitor prices or already at or below the median', () => {
+    const item = makeItem({ sale_price: 2000 });
+    const eligible = { item, ageDays: 120, marginFloor: getMarginFloor(1000)! };
+
+    expect(proposeRepricing(medianRule, eligible, null)).toBe('no_competitor_prices');
+    expect(proposeRepricing(medianRule, eligible, makePosition(2000))).toBe('at_or_below_median');
+    expect(proposeRepricing(medianRule, eligible, makePosition(2100))).toBe('at_or_below_median');
+  });
+});
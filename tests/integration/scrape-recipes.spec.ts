@@ -0,0 +1,60 @@
+import { expect, test } from '@playwright/test';
+
+const runIntegration = process.env.RUN_API_INTEGRATION_TESTS === 'true';
+const runRecipeIntegration = process.env.RUN_SCRAPE_RECIPE_TESTS === 'true';
+
+test.describe('Scrape recipes', () => {
+  test.skip(!runIntegration, 'Set RUN_API_INTEGRATION_TESTS=true to run integration tests');
+  test.skip(!runRecipeIntegration, 'Set RUN_SCRAPE_RECIPE_TESTS=true to run scrape recipe tests');
+
+  test('rejects a recipe without a valid domain', async ({ request }) => {
+    const response = await request.post('/api/scrape/recipes', {
+      data: { domain: 'not a domain', name: 'Invalid' },
+    });
+    expect(response.status()).toBe(400);
+  });
+
+  test('creates, updates and deletes a recipe', async ({ request }) => {
+    const domain = `recipe-${Date.now()}.example.com`;
+
+    const created = await request.post('/api/scrape/recipes', {
+      data: {
+        domain: `https://www.${domain}/products`,
+        name: 'Integration recipe',
+        selectors: { title: 'h1', specTable: '#specs table' },
+        click_selectors: ['#specs-tab'],
+      },
+    });
+    expect(created.status()).toBe(200);
+    const { recipe } = await created.json();
+    expect(recipe.domain).toBe(domain);
+
+    const duplicate = await request.post('/api/scrape/recipes', {
+      data: { domain, name: 'Duplicate' },
+    });
+    expect(duplicate.status()).toBe(409);
+
+    const updated = await request.put(`/api/scrape/recipes/${recipe.id}`, {
+      data: { pagination: { nextSelector: '.specs-next', maxPages: 3 } },
+    });
+    expect(updated.status()).toBe(200);
+    expect((await updated.json()).recipe.pagination.maxPages).toBe(3);
+
+    const deleted = await request.delete(`/api/scrape/recipes/${recipe.id}`);
+    expect(deleted.status()).toBe(200);
+
+    const missing = await request.get(`/api/scrape/recipes/${recipe.id}`);
+    expect(missing.status()).toBe(404);
+  });
+
+  test('every active recipe passes its saved HTML fixtures', async ({ request }) => {
+    test.setTimeout(180_000);
+
+    const response = await request.post('/api/scrape/recipes/test', { timeout: 170_000 });
+    expect(response.status()).toBe(200);
+
+    const body = await response.json();
+    const failing = body.recipes.filter((recipe: { passed: boolean }) => !recipe.passed);
+    expect(failing, JSON.stringify(failing, null, 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { expect, test, type APIRequestContext } from '@playwright/test';
+
+const runIntegration = process.env.RUN_API_INTEGRATION_TESTS === 'true';
+const runOrdersWebhook = process.env.RUN_SHOPIFY_ORDERS_WEBHOOK_TESTS === 'true';
+
+function sign(raw: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(raw, 'utf8').digest('base64');
+}
+
+async function postOrder(
+  request: APIRequestContext,
+  payload: Record<string, unknown>,
+  secret: string,
+  topic: 'orders/create' | 'orders/paid'
+) {
+  const raw = JSON.stringify(payload);
+  return request.post('/api/shopify/webhooks/orders', {
+    data: raw,
+    headers: {
+      'content-type': 'application/json',
+      'x-shopify-hmac-sha256': sign(raw, secret),
+      'x-shopify-topic': topic,
+      'x-shopify-webhook-id': `webhook-${topic}-${Date.now()}`,
+    },
+  });
+}
+
+test.describe('Shopify orders webhook', () => {
+  test.skip(!runIntegration, 'Set RUN_API_INTEGRATION_TESTS=true to run integration tests');
+  test.skip(!runOrdersWebhook, 'Set RUN_SHOPIFY_ORDERS_WEBHOOK_TESTS=true to run orders webhook tests');
+
+  test('rejects orders webhook with invalid signature', async ({ request }) => {
+    const response = await request.post('/api/shopify/webhooks/orders', {
+      data: { id: 1, line_items: [] },
+      headers: {
+        'x-shopify-hmac-sha256': 'invalid-signature',
+        'x-shopify-topic': 'orders/create',
+      },
+    });
+    expect(response.status()).toBe(401);
+  });
+
+  test('accepts a signed order with no matching inventory', async ({ request }) => {
+    const secret = process.env.SHOPIFY_API_SECRET;
+    test.skip(!secret, 'SHOPIFY_API_SECRET required for webhook signature test');
+
+    const sku = `INT-NOMATCH-${Date.now()}`;
+    const response = await postOrder(
+      request,
+      {
+        id: Date.now(),
+        name: `#INT-${Date.now()}`,
+        line_items: [{ id: Date.now() + 1, sku, quantity: 1, title: 'Unmatched item' }],
+      },
+      secret || '',
+      'orders/create'
+    );
+    const body = await response.json();
+    expect(response.status()).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.sold).toEqual([]);
+    expect(body.unmatched?.[0]?.sku).toBe(sku);
+  });
+
+  test('marks an item sold once across orders/create and orders/paid deliveries', async ({ request }) => {
+    const secret = process.env.SHOPIFY_API_SECRET;
+    test.skip(!secret, 'SHOPIFY_API_SECRET required for webhook signature test');
+
+    const sku = `INT-ORDER-${Date.now()}`;
+    const createItem = await request.post('/api/inventory', {
+      data: {
+        listing_type: 'new',
+        brand: 'Integration',
+        model: 'Order Webhook Amp',
+        sku,
+        sale_price: 999,
+      },
+    });
+    const createBody = await createItem.json();
+    expect(createItem.status()).toBe(200);
+    const itemId = createBody.item.id as string;
+
+    try {
+      const orderId = Date.now();
+      const payload = {
+        id: orderId,
+        name: `#INT-${orderId}`,
+        processed_at: new Date().toISOString(),
+        financial_status: 'paid',
+        line_items: [{ id: orderId + 1, sku, quantity: 1, title: 'Integration Order Webhook Amp', price: '999.00' }],
+      };
+
+      const first = await postOrder(request, payload, secret || '', 'orders/create');
+      const firstBody = await first.json();
+      expect(first.status()).toBe(200);
+      expect(firstBody.sold).toEqual([itemId]);
+      expect(firstBody.alreadyRecorded).toEqual([]);
+
+      const soldItem = await request.get(`/api/inventory/${itemId}`);
+      const soldBody = await soldItem.json();
+      expect(soldBody.item.listing_status).toBe('sold');
+      expect(soldBody.item.sold_shopify_order_id).toContain(String(orderId));
+      const soldAt = soldBody.item.sold_at;
+
+      const second = await postOrder(request, payload, secret || '', 'orders/paid');
+      const secondBody = await second.json();
+      expect(second.status()).toBe(200);
+      expect(secondBody.sold).toEqual([]);
+      expect(secondBody.alreadyRecorded).toEqual([itemId]);
+      expect(secondBody.dealRunIds).toEqual([]);
+
+      const afterSecond = await request.get(`/api/inventory/${itemId}`);
+      const afterBody = await afterSecond.json();
+      expect(afterBody.item.sold_at).toBe(soldAt);
+    } finally {
+      await request.delete(`/api/inventory/${itemId}`);
+    }
+  });
+});
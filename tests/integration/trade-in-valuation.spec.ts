@@ -0,0 +1,130 @@
+import { expect, test } from '@playwright/test';
+import { calculateTradeInValuation, getAgeFactor } from '@/lib/trade-in/valuation';
+import type { SellThroughStats, TradeInValuationInput } from '@/types';
+
+const OPTIONS = { targetMarginPercent: 30, minMarginMultiplier: 1.2 };
+
+const NO_HISTORY: SellThroughStats = {
+  scope: 'none',
+  sold_count: 0,
+  average_sale_price: null,
+  average_price_to_rrp: null,
+  average_days_to_sell: null,
+  in_stock_count: 0,
+};
+
+function makeInput(overrides: Partial<TradeInValuationInput> = {}): TradeInValuationInput {
+  return {
+    brand: 'Epson',
+    model: 'EH-TW7100',
+    condition_grade: 'excellent',
+    rrp_aud: 1000,
+    age_years: 2,
+    ...overrides,
+  };
+}
+
+test.describe('Trade-in age factor', () => {
+  test('depreciates faster in the first three years, down to a floor', () => {
+    expect(getAgeFactor(0)).toBe(1);
+    expect(getAgeFactor(2)).toBeCloseTo(0.8);
+    expect(getAgeFactor(5)).toBeCloseTo(0.6);
+    expect(getAgeFactor(20)).toBe(0.35);
+  });
+
+  test('assumes about 18 months when the age is unknown', () => {
+    expect(getAgeFactor(null)).toBe(0.85);
+  });
+});
+
+test.describe('Trade-in valuation', () => {
+  test('values on RRP, condition and age, rounding offers to $5', () => {
+    const valuation = calculateTradeInValuation(makeInput(), NO_HISTORY, OPTIONS)!;
+
+    // 1000 RRP × 0.72 excellent × 0.8 for two years
+    expect(valuation.estimated_resale_price).toBe(576);
+    expect(valuation.target_margin_percent).toBe(30);
+    // 576 × 0.7 = 403.20, with a ±15% range (no sales history)
+    expect(valuation.recommended_offer).toBe(405);
+    expect(valuation.offer_low).toBe(345);
+    expect(valuation.offer_high).toBe(465);
+  });
+
+  test('pays less for worse condition and older units', () => {
+    const mint = calculateTradeInValuation(makeInput({ condition_grade: 'mint' }), NO_HISTORY, OPTIONS)!;
+    const poor = calculateTradeInValuation(makeInput({ condition_grade: 'poor' }), NO_HISTORY, OPTIONS)!;
+    const old = calculateTradeInValuation(makeInput({ age_years: 8 }), NO_HISTORY, OPTIONS)!;
+
+    expect(mint.estimated_resale_price).toBe(640);
+    expect(poor.estimated_resale_price).toBe(280);
+    // 8 years: 1 - 0.3 - 0.25 = 0.45
+    expect(old.estimated_resale_price).toBe(324);
+    expect(poor.recommended_offer).toBeLessThan(mint.recommended_offer);
+    expect(old.recommended_offer).toBeLessThan(mint.recommended_offer);
+  });
+
+  test('widens the range when the age is unknown', () => {
+    const valuation = calculateTradeInValuation(makeInput({ age_years: null }), NO_HISTORY, OPTIONS)!;
+
+    // 1000 × 0.72 × 0.85 = 612; 612 × 0.7 = 428.40, ±20% (the top held at 612 / 1.2)
+    expect(valuation.estimated_resale_price).toBe(612);
+    expect(valuation.recommended_offer).toBe(430);
+    expect(valuation.offer_low).toBe(345);
+    expect(valuation.offer_high).toBe(510);
+    expect(valuation.factors.find((factor) => factor.label === 'Age')?.detail).toContain('assumed ~18 months');
+  });
+
+  test('blends in model sales history and adjusts the margin for sell-through and stock', () => {
+    const valuation = calculateTradeInValuation(
+      makeInput({ condition_grade: 'mint', age_years: 1 }),
+      {
+        scope: 'model',
+        sold_count: 5,
+        average_sale_price: 650,
+        average_price_to_rrp: 0.6,
+        average_days_to_sell: 20,
+        in_stock_count: 4,
+      },
+      OPTIONS
+    )!;
+
+    // 720 from RRP and 600 from history at 70% weight
+    expect(valuation.estimated_resale_price).toBe(636);
+    // 30 - 5 (sells in 20 days) + 7.5 (stock, capped)
+    expect(valuation.target_margin_percent).toBe(32.5);
+    // 636 × 0.675 = 429.30, ±8%
+    expect(valuation.recommended_offer).toBe(430);
+    expect(valuation.offer_low).toBe(395);
+    expect(valuation.offer_high).toBe(465);
+  });
+
+  test('raises the margin for slow sellers', () => {
+    const withDays = (days: number) =>
+      calculateTradeInValuation(makeInput(), { ...NO_HISTORY, average_days_to_sell: days }, OPTIONS)!.target_margin_percent;
+
+    expect(withDays(60)).toBe(30);
+    expect(withDays(120)).toBe(35);
+    expect(withDays(200)).toBe(40);
+  });
+
+  test('never offers more than leaves the minimum margin on resale', () => {
+    const valuation = calculateTradeInValuation(
+      makeInput({ condition_grade: 'mint', age_years: 0 }),
+      NO_HISTORY,
+      { targetMarginPercent: 0, minMarginMultiplier: 1.2 }
+    )!;
+
+    // 800 resale / 1.2 = 666.67, rounded to $5
+    expect(valuation.estimated_resale_price).toBe(800);
+    expect(valuation.offer_high).toBe(665);
+    expect(valuation.recommended_offer).toBe(665);
+    expect(valuation.offer_low).toBe(665);
+  });
+
+  test('values on model sales alone without an RRP, and not at all without either', () => {
+    const history: SellThroughStats = { ...NO_HISTORY, scope: 'model', sold_count: 2, average_sale_price: 900 };
+
+    expect(calculateTradeInValuation(makeInput({ rrp_aud: null }), history, OPTIONS)!.estimated_resale_price).toBe(900);
+    expect(calculateTradeInValuation(makeInput({ rrp_aud: null }), NO_HISTORY, OPTIONS)).toBeNull();
+  });
+});